@@ -0,0 +1,5 @@
+-- AlterTable
+ALTER TABLE "notifications" ADD COLUMN "dedupeKey" TEXT;
+
+-- CreateIndex
+CREATE UNIQUE INDEX "notifications_dedupeKey_key" ON "notifications"("dedupeKey");
@@ -0,0 +1,32 @@
+-- CreateTable
+CREATE TABLE "notification_deliveries" (
+    "id" TEXT NOT NULL PRIMARY KEY,
+    "clinicId" TEXT NOT NULL,
+    "notificationId" TEXT,
+    "channel" TEXT NOT NULL,
+    "provider" TEXT NOT NULL,
+    "recipient" TEXT NOT NULL,
+    "subject" TEXT,
+    "body" TEXT NOT NULL,
+    "status" TEXT NOT NULL DEFAULT 'pending',
+    "attempts" INTEGER NOT NULL DEFAULT 0,
+    "lastError" TEXT,
+    "nextRetryAt" DATETIME,
+    "sentAt" DATETIME,
+    "createdAt" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" DATETIME NOT NULL,
+    CONSTRAINT "notification_deliveries_clinicId_fkey" FOREIGN KEY ("clinicId") REFERENCES "clinics" ("id") ON DELETE CASCADE ON UPDATE CASCADE,
+    CONSTRAINT "notification_deliveries_notificationId_fkey" FOREIGN KEY ("notificationId") REFERENCES "notifications" ("id") ON DELETE SET NULL ON UPDATE CASCADE
+);
+
+-- CreateIndex
+CREATE INDEX "notification_deliveries_clinicId_idx" ON "notification_deliveries"("clinicId");
+
+-- CreateIndex
+CREATE INDEX "notification_deliveries_notificationId_idx" ON "notification_deliveries"("notificationId");
+
+-- CreateIndex
+CREATE INDEX "notification_deliveries_status_nextRetryAt_idx" ON "notification_deliveries"("status", "nextRetryAt");
+
+-- CreateIndex
+CREATE INDEX "notification_deliveries_createdAt_idx" ON "notification_deliveries"("createdAt");
@@ -0,0 +1,22 @@
+-- CreateTable
+CREATE TABLE "doctor_schedule_exceptions" (
+    "id" TEXT NOT NULL PRIMARY KEY,
+    "doctorId" TEXT NOT NULL,
+    "date" TEXT NOT NULL,
+    "isWorking" BOOLEAN NOT NULL DEFAULT false,
+    "startTime" TEXT,
+    "endTime" TEXT,
+    "reason" TEXT,
+    "createdAt" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" DATETIME NOT NULL,
+    CONSTRAINT "doctor_schedule_exceptions_doctorId_fkey" FOREIGN KEY ("doctorId") REFERENCES "users" ("id") ON DELETE CASCADE ON UPDATE CASCADE
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "doctor_schedule_exceptions_doctorId_date_key" ON "doctor_schedule_exceptions"("doctorId", "date");
+
+-- CreateIndex
+CREATE INDEX "doctor_schedule_exceptions_doctorId_idx" ON "doctor_schedule_exceptions"("doctorId");
+
+-- CreateIndex
+CREATE INDEX "doctor_schedule_exceptions_date_idx" ON "doctor_schedule_exceptions"("date");
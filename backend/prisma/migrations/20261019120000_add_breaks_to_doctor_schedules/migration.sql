@@ -0,0 +1,2 @@
+-- AlterTable
+ALTER TABLE "doctor_schedules" ADD COLUMN "breaks" TEXT;
@@ -0,0 +1,28 @@
+-- CreateTable
+CREATE TABLE "appointment_series" (
+    "id" TEXT NOT NULL PRIMARY KEY,
+    "clinicId" TEXT NOT NULL,
+    "doctorId" TEXT,
+    "patientId" TEXT NOT NULL,
+    "intervalWeeks" INTEGER NOT NULL DEFAULT 1,
+    "occurrences" INTEGER,
+    "untilDate" DATETIME,
+    "duration" INTEGER NOT NULL DEFAULT 30,
+    "reason" TEXT,
+    "createdAt" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" DATETIME NOT NULL,
+    CONSTRAINT "appointment_series_clinicId_fkey" FOREIGN KEY ("clinicId") REFERENCES "clinics" ("id") ON DELETE CASCADE ON UPDATE CASCADE
+);
+
+-- AlterTable
+ALTER TABLE "appointments" ADD COLUMN "seriesId" TEXT REFERENCES "appointment_series" ("id") ON DELETE SET NULL ON UPDATE CASCADE;
+ALTER TABLE "appointments" ADD COLUMN "seriesIndex" INTEGER;
+
+-- CreateIndex
+CREATE INDEX "appointment_series_clinicId_idx" ON "appointment_series"("clinicId");
+
+-- CreateIndex
+CREATE INDEX "appointment_series_patientId_idx" ON "appointment_series"("patientId");
+
+-- CreateIndex
+CREATE INDEX "appointments_seriesId_idx" ON "appointments"("seriesId");
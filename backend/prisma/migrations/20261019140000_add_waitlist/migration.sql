@@ -0,0 +1,63 @@
+-- AlterTable
+ALTER TABLE "clinic_settings" ADD COLUMN "waitlistOfferMinutes" INTEGER NOT NULL DEFAULT 120;
+
+-- CreateTable
+CREATE TABLE "waitlist_entries" (
+    "id" TEXT NOT NULL PRIMARY KEY,
+    "clinicId" TEXT NOT NULL,
+    "patientId" TEXT NOT NULL,
+    "doctorId" TEXT,
+    "treatmentCategoryId" TEXT,
+    "dateFrom" TEXT NOT NULL,
+    "dateTo" TEXT NOT NULL,
+    "notes" TEXT,
+    "status" TEXT NOT NULL DEFAULT 'waiting',
+    "appointmentId" TEXT,
+    "createdById" TEXT,
+    "createdAt" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" DATETIME NOT NULL,
+    CONSTRAINT "waitlist_entries_clinicId_fkey" FOREIGN KEY ("clinicId") REFERENCES "clinics" ("id") ON DELETE CASCADE ON UPDATE CASCADE,
+    CONSTRAINT "waitlist_entries_patientId_fkey" FOREIGN KEY ("patientId") REFERENCES "patients" ("id") ON DELETE CASCADE ON UPDATE CASCADE,
+    CONSTRAINT "waitlist_entries_doctorId_fkey" FOREIGN KEY ("doctorId") REFERENCES "users" ("id") ON DELETE SET NULL ON UPDATE CASCADE,
+    CONSTRAINT "waitlist_entries_treatmentCategoryId_fkey" FOREIGN KEY ("treatmentCategoryId") REFERENCES "treatment_categories" ("id") ON DELETE SET NULL ON UPDATE CASCADE
+);
+
+-- CreateTable
+CREATE TABLE "waitlist_offers" (
+    "id" TEXT NOT NULL PRIMARY KEY,
+    "clinicId" TEXT NOT NULL,
+    "entryId" TEXT NOT NULL,
+    "sourceAppointmentId" TEXT,
+    "doctorId" TEXT NOT NULL,
+    "appointmentDate" DATETIME NOT NULL,
+    "duration" INTEGER NOT NULL,
+    "status" TEXT NOT NULL DEFAULT 'pending',
+    "expiresAt" DATETIME NOT NULL,
+    "respondedAt" DATETIME,
+    "appointmentId" TEXT,
+    "createdAt" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" DATETIME NOT NULL,
+    CONSTRAINT "waitlist_offers_clinicId_fkey" FOREIGN KEY ("clinicId") REFERENCES "clinics" ("id") ON DELETE CASCADE ON UPDATE CASCADE,
+    CONSTRAINT "waitlist_offers_entryId_fkey" FOREIGN KEY ("entryId") REFERENCES "waitlist_entries" ("id") ON DELETE CASCADE ON UPDATE CASCADE
+);
+
+-- CreateIndex
+CREATE INDEX "waitlist_entries_clinicId_idx" ON "waitlist_entries"("clinicId");
+
+-- CreateIndex
+CREATE INDEX "waitlist_entries_patientId_idx" ON "waitlist_entries"("patientId");
+
+-- CreateIndex
+CREATE INDEX "waitlist_entries_status_idx" ON "waitlist_entries"("status");
+
+-- CreateIndex
+CREATE INDEX "waitlist_offers_clinicId_idx" ON "waitlist_offers"("clinicId");
+
+-- CreateIndex
+CREATE INDEX "waitlist_offers_entryId_idx" ON "waitlist_offers"("entryId");
+
+-- CreateIndex
+CREATE INDEX "waitlist_offers_status_expiresAt_idx" ON "waitlist_offers"("status", "expiresAt");
+
+-- CreateIndex
+CREATE INDEX "waitlist_offers_sourceAppointmentId_idx" ON "waitlist_offers"("sourceAppointmentId");
@@ -0,0 +1,6 @@
+-- AlterTable
+ALTER TABLE "appointments" ADD COLUMN "suggestionStatus" TEXT;
+ALTER TABLE "appointments" ADD COLUMN "suggestionAppointmentId" TEXT;
+
+-- Существующие отмены с предложенным временем ждут ответа пациента
+UPDATE "appointments" SET "suggestionStatus" = 'pending' WHERE "status" = 'cancelled' AND "suggestedNewDate" IS NOT NULL;
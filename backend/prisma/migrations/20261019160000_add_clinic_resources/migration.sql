@@ -0,0 +1,37 @@
+-- CreateTable
+CREATE TABLE "clinic_resources" (
+    "id" TEXT NOT NULL PRIMARY KEY,
+    "clinicId" TEXT NOT NULL,
+    "name" TEXT NOT NULL,
+    "type" TEXT NOT NULL DEFAULT 'chair',
+    "description" TEXT,
+    "isActive" BOOLEAN NOT NULL DEFAULT true,
+    "createdAt" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" DATETIME NOT NULL,
+    CONSTRAINT "clinic_resources_clinicId_fkey" FOREIGN KEY ("clinicId") REFERENCES "clinics" ("id") ON DELETE CASCADE ON UPDATE CASCADE
+);
+
+-- CreateTable
+CREATE TABLE "appointment_resources" (
+    "id" TEXT NOT NULL PRIMARY KEY,
+    "appointmentId" TEXT NOT NULL,
+    "resourceId" TEXT NOT NULL,
+    "createdAt" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    CONSTRAINT "appointment_resources_appointmentId_fkey" FOREIGN KEY ("appointmentId") REFERENCES "appointments" ("id") ON DELETE CASCADE ON UPDATE CASCADE,
+    CONSTRAINT "appointment_resources_resourceId_fkey" FOREIGN KEY ("resourceId") REFERENCES "clinic_resources" ("id") ON DELETE CASCADE ON UPDATE CASCADE
+);
+
+-- CreateIndex
+CREATE INDEX "clinic_resources_clinicId_idx" ON "clinic_resources"("clinicId");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "clinic_resources_clinicId_name_key" ON "clinic_resources"("clinicId", "name");
+
+-- CreateIndex
+CREATE INDEX "appointment_resources_appointmentId_idx" ON "appointment_resources"("appointmentId");
+
+-- CreateIndex
+CREATE INDEX "appointment_resources_resourceId_idx" ON "appointment_resources"("resourceId");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "appointment_resources_appointmentId_resourceId_key" ON "appointment_resources"("appointmentId", "resourceId");
@@ -0,0 +1,7 @@
+-- AlterTable
+ALTER TABLE "clinic_settings" ADD COLUMN "bufferBeforeMinutes" INTEGER NOT NULL DEFAULT 0;
+ALTER TABLE "clinic_settings" ADD COLUMN "bufferAfterMinutes" INTEGER NOT NULL DEFAULT 0;
+
+-- AlterTable
+ALTER TABLE "treatment_categories" ADD COLUMN "bufferBeforeMinutes" INTEGER;
+ALTER TABLE "treatment_categories" ADD COLUMN "bufferAfterMinutes" INTEGER;
@@ -0,0 +1,16 @@
+-- CreateTable
+CREATE TABLE "calendar_feeds" (
+    "id" TEXT NOT NULL PRIMARY KEY,
+    "userId" TEXT NOT NULL,
+    "token" TEXT NOT NULL,
+    "revokedAt" DATETIME,
+    "lastAccessedAt" DATETIME,
+    "createdAt" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    CONSTRAINT "calendar_feeds_userId_fkey" FOREIGN KEY ("userId") REFERENCES "users" ("id") ON DELETE CASCADE ON UPDATE CASCADE
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "calendar_feeds_token_key" ON "calendar_feeds"("token");
+
+-- CreateIndex
+CREATE INDEX "calendar_feeds_userId_idx" ON "calendar_feeds"("userId");
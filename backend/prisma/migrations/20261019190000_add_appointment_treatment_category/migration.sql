@@ -0,0 +1,40 @@
+-- AlterTable
+ALTER TABLE "appointments" ADD COLUMN "treatmentCategoryId" TEXT REFERENCES "treatment_categories" ("id") ON DELETE SET NULL ON UPDATE CASCADE;
+ALTER TABLE "appointment_series" ADD COLUMN "treatmentCategoryId" TEXT REFERENCES "treatment_categories" ("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- CreateIndex
+CREATE INDEX "appointments_treatmentCategoryId_idx" ON "appointments"("treatmentCategoryId");
+
+-- Backfill: reason совпадает с названием категории клиники
+UPDATE "appointments" SET "treatmentCategoryId" = (
+    SELECT "tc"."id" FROM "treatment_categories" AS "tc"
+    WHERE "tc"."clinicId" = "appointments"."clinicId"
+      AND lower(trim("tc"."name")) = lower(trim("appointments"."reason"))
+    ORDER BY "tc"."createdAt"
+    LIMIT 1
+)
+WHERE "reason" IS NOT NULL;
+
+-- Backfill: reason упоминает ровно одну категорию клиники (несколько упоминаний — не угадываем)
+UPDATE "appointments" SET "treatmentCategoryId" = (
+    SELECT "tc"."id" FROM "treatment_categories" AS "tc"
+    WHERE "tc"."clinicId" = "appointments"."clinicId"
+      AND instr(lower("appointments"."reason"), lower(trim("tc"."name"))) > 0
+)
+WHERE "treatmentCategoryId" IS NULL
+  AND "reason" IS NOT NULL
+  AND (
+    SELECT COUNT(*) FROM "treatment_categories" AS "tc"
+    WHERE "tc"."clinicId" = "appointments"."clinicId"
+      AND instr(lower("appointments"."reason"), lower(trim("tc"."name"))) > 0
+  ) = 1;
+
+-- Backfill: серии повторяющихся приёмов
+UPDATE "appointment_series" SET "treatmentCategoryId" = (
+    SELECT "tc"."id" FROM "treatment_categories" AS "tc"
+    WHERE "tc"."clinicId" = "appointment_series"."clinicId"
+      AND lower(trim("tc"."name")) = lower(trim("appointment_series"."reason"))
+    ORDER BY "tc"."createdAt"
+    LIMIT 1
+)
+WHERE "reason" IS NOT NULL;
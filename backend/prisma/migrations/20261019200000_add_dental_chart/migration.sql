@@ -0,0 +1,27 @@
+-- CreateTable
+CREATE TABLE "dental_chart_entries" (
+    "id" TEXT NOT NULL PRIMARY KEY,
+    "clinicId" TEXT NOT NULL,
+    "patientId" TEXT NOT NULL,
+    "appointmentId" TEXT,
+    "doctorId" TEXT,
+    "tooth" INTEGER NOT NULL,
+    "surface" TEXT,
+    "code" TEXT NOT NULL,
+    "notes" TEXT,
+    "recordedAt" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "createdAt" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    CONSTRAINT "dental_chart_entries_clinicId_fkey" FOREIGN KEY ("clinicId") REFERENCES "clinics" ("id") ON DELETE CASCADE ON UPDATE CASCADE,
+    CONSTRAINT "dental_chart_entries_patientId_fkey" FOREIGN KEY ("patientId") REFERENCES "patients" ("id") ON DELETE CASCADE ON UPDATE CASCADE,
+    CONSTRAINT "dental_chart_entries_appointmentId_fkey" FOREIGN KEY ("appointmentId") REFERENCES "appointments" ("id") ON DELETE SET NULL ON UPDATE CASCADE,
+    CONSTRAINT "dental_chart_entries_doctorId_fkey" FOREIGN KEY ("doctorId") REFERENCES "users" ("id") ON DELETE SET NULL ON UPDATE CASCADE
+);
+
+-- CreateIndex
+CREATE INDEX "dental_chart_entries_clinicId_idx" ON "dental_chart_entries"("clinicId");
+
+-- CreateIndex
+CREATE INDEX "dental_chart_entries_patientId_recordedAt_idx" ON "dental_chart_entries"("patientId", "recordedAt");
+
+-- CreateIndex
+CREATE INDEX "dental_chart_entries_appointmentId_idx" ON "dental_chart_entries"("appointmentId");
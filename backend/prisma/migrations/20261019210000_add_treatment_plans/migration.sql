@@ -0,0 +1,49 @@
+-- CreateTable
+CREATE TABLE "treatment_plans" (
+    "id" TEXT NOT NULL PRIMARY KEY,
+    "clinicId" TEXT NOT NULL,
+    "patientId" TEXT NOT NULL,
+    "doctorId" TEXT,
+    "title" TEXT NOT NULL,
+    "notes" TEXT,
+    "status" TEXT NOT NULL DEFAULT 'draft',
+    "presentedAt" DATETIME,
+    "acceptedAt" DATETIME,
+    "createdAt" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" DATETIME NOT NULL,
+    CONSTRAINT "treatment_plans_clinicId_fkey" FOREIGN KEY ("clinicId") REFERENCES "clinics" ("id") ON DELETE CASCADE ON UPDATE CASCADE,
+    CONSTRAINT "treatment_plans_patientId_fkey" FOREIGN KEY ("patientId") REFERENCES "patients" ("id") ON DELETE CASCADE ON UPDATE CASCADE,
+    CONSTRAINT "treatment_plans_doctorId_fkey" FOREIGN KEY ("doctorId") REFERENCES "users" ("id") ON DELETE SET NULL ON UPDATE CASCADE
+);
+
+-- CreateTable
+CREATE TABLE "treatment_plan_stages" (
+    "id" TEXT NOT NULL PRIMARY KEY,
+    "planId" TEXT NOT NULL,
+    "position" INTEGER NOT NULL,
+    "treatmentCategoryId" TEXT,
+    "title" TEXT NOT NULL,
+    "description" TEXT,
+    "tooth" INTEGER,
+    "estimatedPrice" REAL NOT NULL DEFAULT 0,
+    "status" TEXT NOT NULL DEFAULT 'proposed',
+    "appointmentId" TEXT,
+    "completedAt" DATETIME,
+    "createdAt" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" DATETIME NOT NULL,
+    CONSTRAINT "treatment_plan_stages_planId_fkey" FOREIGN KEY ("planId") REFERENCES "treatment_plans" ("id") ON DELETE CASCADE ON UPDATE CASCADE,
+    CONSTRAINT "treatment_plan_stages_treatmentCategoryId_fkey" FOREIGN KEY ("treatmentCategoryId") REFERENCES "treatment_categories" ("id") ON DELETE SET NULL ON UPDATE CASCADE,
+    CONSTRAINT "treatment_plan_stages_appointmentId_fkey" FOREIGN KEY ("appointmentId") REFERENCES "appointments" ("id") ON DELETE SET NULL ON UPDATE CASCADE
+);
+
+-- CreateIndex
+CREATE INDEX "treatment_plans_clinicId_idx" ON "treatment_plans"("clinicId");
+
+-- CreateIndex
+CREATE INDEX "treatment_plans_patientId_idx" ON "treatment_plans"("patientId");
+
+-- CreateIndex
+CREATE INDEX "treatment_plan_stages_planId_position_idx" ON "treatment_plan_stages"("planId", "position");
+
+-- CreateIndex
+CREATE INDEX "treatment_plan_stages_appointmentId_idx" ON "treatment_plan_stages"("appointmentId");
@@ -0,0 +1,37 @@
+-- AlterTable
+ALTER TABLE "treatment_categories" ADD COLUMN "templateComplaint" TEXT;
+ALTER TABLE "treatment_categories" ADD COLUMN "templateDiagnosis" TEXT;
+ALTER TABLE "treatment_categories" ADD COLUMN "templateTreatment" TEXT;
+ALTER TABLE "treatment_categories" ADD COLUMN "templateRecommendations" TEXT;
+
+-- CreateTable
+CREATE TABLE "clinical_notes" (
+    "id" TEXT NOT NULL PRIMARY KEY,
+    "clinicId" TEXT NOT NULL,
+    "appointmentId" TEXT NOT NULL,
+    "patientId" TEXT NOT NULL,
+    "authorId" TEXT,
+    "complaint" TEXT,
+    "diagnosis" TEXT,
+    "treatment" TEXT,
+    "recommendations" TEXT,
+    "status" TEXT NOT NULL DEFAULT 'draft',
+    "signedAt" DATETIME,
+    "signedById" TEXT,
+    "createdAt" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" DATETIME NOT NULL,
+    CONSTRAINT "clinical_notes_clinicId_fkey" FOREIGN KEY ("clinicId") REFERENCES "clinics" ("id") ON DELETE CASCADE ON UPDATE CASCADE,
+    CONSTRAINT "clinical_notes_appointmentId_fkey" FOREIGN KEY ("appointmentId") REFERENCES "appointments" ("id") ON DELETE CASCADE ON UPDATE CASCADE,
+    CONSTRAINT "clinical_notes_patientId_fkey" FOREIGN KEY ("patientId") REFERENCES "patients" ("id") ON DELETE CASCADE ON UPDATE CASCADE,
+    CONSTRAINT "clinical_notes_authorId_fkey" FOREIGN KEY ("authorId") REFERENCES "users" ("id") ON DELETE SET NULL ON UPDATE CASCADE,
+    CONSTRAINT "clinical_notes_signedById_fkey" FOREIGN KEY ("signedById") REFERENCES "users" ("id") ON DELETE SET NULL ON UPDATE CASCADE
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "clinical_notes_appointmentId_key" ON "clinical_notes"("appointmentId");
+
+-- CreateIndex
+CREATE INDEX "clinical_notes_clinicId_idx" ON "clinical_notes"("clinicId");
+
+-- CreateIndex
+CREATE INDEX "clinical_notes_patientId_idx" ON "clinical_notes"("patientId");
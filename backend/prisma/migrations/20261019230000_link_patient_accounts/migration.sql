@@ -0,0 +1,53 @@
+-- AlterTable
+ALTER TABLE "patients" ADD COLUMN "userId" TEXT REFERENCES "users" ("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- CreateTable
+CREATE TABLE "patient_claims" (
+    "id" TEXT NOT NULL PRIMARY KEY,
+    "clinicId" TEXT NOT NULL,
+    "patientId" TEXT NOT NULL,
+    "userId" TEXT NOT NULL,
+    "channel" TEXT NOT NULL,
+    "recipient" TEXT NOT NULL,
+    "codeHash" TEXT NOT NULL,
+    "status" TEXT NOT NULL DEFAULT 'pending',
+    "attempts" INTEGER NOT NULL DEFAULT 0,
+    "expiresAt" DATETIME NOT NULL,
+    "verifiedAt" DATETIME,
+    "createdAt" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" DATETIME NOT NULL,
+    CONSTRAINT "patient_claims_clinicId_fkey" FOREIGN KEY ("clinicId") REFERENCES "clinics" ("id") ON DELETE CASCADE ON UPDATE CASCADE,
+    CONSTRAINT "patient_claims_patientId_fkey" FOREIGN KEY ("patientId") REFERENCES "patients" ("id") ON DELETE CASCADE ON UPDATE CASCADE,
+    CONSTRAINT "patient_claims_userId_fkey" FOREIGN KEY ("userId") REFERENCES "users" ("id") ON DELETE CASCADE ON UPDATE CASCADE
+);
+
+-- Backfill: раньше аккаунт находил свои карточки по email, поэтому такие карточки привязываем сразу.
+-- Если в клинике несколько карточек с этим email, привязываем самую новую (остальные — дубликаты)
+UPDATE "patients"
+SET "userId" = (
+    SELECT "users"."id" FROM "users"
+    WHERE "users"."role" = 'PATIENT' AND "users"."email" = "patients"."email"
+)
+WHERE "email" IS NOT NULL
+  AND NOT EXISTS (
+    SELECT 1 FROM "patients" AS "newer"
+    WHERE "newer"."clinicId" = "patients"."clinicId"
+      AND "newer"."email" = "patients"."email"
+      AND ("newer"."createdAt" > "patients"."createdAt"
+        OR ("newer"."createdAt" = "patients"."createdAt" AND "newer"."id" > "patients"."id"))
+  );
+
+-- CreateIndex
+CREATE UNIQUE INDEX "patients_clinicId_userId_key" ON "patients"("clinicId", "userId");
+
+-- CreateIndex
+CREATE INDEX "patients_userId_idx" ON "patients"("userId");
+
+-- CreateIndex
+CREATE INDEX "patient_claims_clinicId_idx" ON "patient_claims"("clinicId");
+
+-- CreateIndex
+CREATE INDEX "patient_claims_patientId_idx" ON "patient_claims"("patientId");
+
+-- CreateIndex
+CREATE INDEX "patient_claims_userId_status_idx" ON "patient_claims"("userId", "status");
@@ -0,0 +1,19 @@
+-- CreateTable
+CREATE TABLE "patient_merges" (
+    "id" TEXT NOT NULL PRIMARY KEY,
+    "clinicId" TEXT NOT NULL,
+    "targetPatientId" TEXT NOT NULL,
+    "sourcePatients" TEXT NOT NULL,
+    "movedCounts" TEXT NOT NULL,
+    "performedById" TEXT,
+    "createdAt" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    CONSTRAINT "patient_merges_clinicId_fkey" FOREIGN KEY ("clinicId") REFERENCES "clinics" ("id") ON DELETE CASCADE ON UPDATE CASCADE,
+    CONSTRAINT "patient_merges_targetPatientId_fkey" FOREIGN KEY ("targetPatientId") REFERENCES "patients" ("id") ON DELETE CASCADE ON UPDATE CASCADE,
+    CONSTRAINT "patient_merges_performedById_fkey" FOREIGN KEY ("performedById") REFERENCES "users" ("id") ON DELETE SET NULL ON UPDATE CASCADE
+);
+
+-- CreateIndex
+CREATE INDEX "patient_merges_clinicId_idx" ON "patient_merges"("clinicId");
+
+-- CreateIndex
+CREATE INDEX "patient_merges_targetPatientId_idx" ON "patient_merges"("targetPatientId");
@@ -0,0 +1,26 @@
+-- CreateTable
+CREATE TABLE "patient_medical_histories" (
+    "id" TEXT NOT NULL PRIMARY KEY,
+    "clinicId" TEXT NOT NULL,
+    "patientId" TEXT NOT NULL,
+    "allergies" TEXT NOT NULL DEFAULT '[]',
+    "conditions" TEXT NOT NULL DEFAULT '[]',
+    "medications" TEXT NOT NULL DEFAULT '[]',
+    "isPregnant" BOOLEAN NOT NULL DEFAULT false,
+    "takesAnticoagulants" BOOLEAN NOT NULL DEFAULT false,
+    "anticoagulants" TEXT,
+    "notes" TEXT,
+    "updatedSource" TEXT NOT NULL DEFAULT 'clinic',
+    "updatedById" TEXT,
+    "createdAt" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" DATETIME NOT NULL,
+    CONSTRAINT "patient_medical_histories_clinicId_fkey" FOREIGN KEY ("clinicId") REFERENCES "clinics" ("id") ON DELETE CASCADE ON UPDATE CASCADE,
+    CONSTRAINT "patient_medical_histories_patientId_fkey" FOREIGN KEY ("patientId") REFERENCES "patients" ("id") ON DELETE CASCADE ON UPDATE CASCADE,
+    CONSTRAINT "patient_medical_histories_updatedById_fkey" FOREIGN KEY ("updatedById") REFERENCES "users" ("id") ON DELETE SET NULL ON UPDATE CASCADE
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "patient_medical_histories_patientId_key" ON "patient_medical_histories"("patientId");
+
+-- CreateIndex
+CREATE INDEX "patient_medical_histories_clinicId_idx" ON "patient_medical_histories"("clinicId");
@@ -0,0 +1,34 @@
+-- Запрос на привязку создаётся и тогда, когда карточка по контакту не найдена (patientId = NULL):
+-- ответ и ограничения частоты одинаковы, поэтому по ответу нельзя узнать, есть ли контакт в клинике
+
+-- RedefineTables
+PRAGMA defer_foreign_keys=ON;
+PRAGMA foreign_keys=OFF;
+CREATE TABLE "new_patient_claims" (
+    "id" TEXT NOT NULL PRIMARY KEY,
+    "clinicId" TEXT NOT NULL,
+    "patientId" TEXT,
+    "userId" TEXT NOT NULL,
+    "channel" TEXT NOT NULL,
+    "recipient" TEXT NOT NULL,
+    "codeHash" TEXT NOT NULL,
+    "status" TEXT NOT NULL DEFAULT 'pending',
+    "attempts" INTEGER NOT NULL DEFAULT 0,
+    "expiresAt" DATETIME NOT NULL,
+    "verifiedAt" DATETIME,
+    "createdAt" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" DATETIME NOT NULL,
+    CONSTRAINT "patient_claims_clinicId_fkey" FOREIGN KEY ("clinicId") REFERENCES "clinics" ("id") ON DELETE CASCADE ON UPDATE CASCADE,
+    CONSTRAINT "patient_claims_patientId_fkey" FOREIGN KEY ("patientId") REFERENCES "patients" ("id") ON DELETE CASCADE ON UPDATE CASCADE,
+    CONSTRAINT "patient_claims_userId_fkey" FOREIGN KEY ("userId") REFERENCES "users" ("id") ON DELETE CASCADE ON UPDATE CASCADE
+);
+INSERT INTO "new_patient_claims" ("attempts", "channel", "clinicId", "codeHash", "createdAt", "expiresAt", "id", "patientId", "recipient", "status", "updatedAt", "userId", "verifiedAt") SELECT "attempts", "channel", "clinicId", "codeHash", "createdAt", "expiresAt", "id", "patientId", "recipient", "status", "updatedAt", "userId", "verifiedAt" FROM "patient_claims";
+DROP TABLE "patient_claims";
+ALTER TABLE "new_patient_claims" RENAME TO "patient_claims";
+CREATE INDEX "patient_claims_clinicId_idx" ON "patient_claims"("clinicId");
+CREATE INDEX "patient_claims_patientId_idx" ON "patient_claims"("patientId");
+CREATE INDEX "patient_claims_userId_status_idx" ON "patient_claims"("userId", "status");
+CREATE INDEX "patient_claims_userId_createdAt_idx" ON "patient_claims"("userId", "createdAt");
+CREATE INDEX "patient_claims_recipient_createdAt_idx" ON "patient_claims"("recipient", "createdAt");
+PRAGMA foreign_keys=ON;
+PRAGMA defer_foreign_keys=OFF;
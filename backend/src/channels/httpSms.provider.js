@@ -0,0 +1,46 @@
+/**
+ * HTTP SMS Provider
+ * Универсальный SMS-шлюз: POST JSON { from, to, text } на указанный URL
+ * Подходит для большинства SMS-агрегаторов через их HTTP API или собственный прокси
+ */
+
+/**
+ * Создать HTTP SMS-провайдер
+ * @param {object} options - { url, token, from }
+ * @returns {object} Провайдер { name, send }
+ */
+export function createHttpSmsProvider(options) {
+  if (!options.url) {
+    throw new Error('SMS_HTTP_URL is required for http sms provider');
+  }
+
+  return {
+    name: 'http',
+
+    /**
+     * Отправить SMS
+     * @param {object} message - { to, text }
+     * @returns {Promise<object>} { providerMessageId }
+     */
+    async send({ to, text }) {
+      const headers = { 'Content-Type': 'application/json' };
+      if (options.token) {
+        headers.Authorization = `Bearer ${options.token}`;
+      }
+
+      const response = await fetch(options.url, {
+        method: 'POST',
+        headers,
+        body: JSON.stringify({ from: options.from || null, to, text }),
+      });
+
+      if (!response.ok) {
+        const details = await response.text().catch(() => '');
+        throw new Error(`SMS gateway responded with ${response.status}${details ? `: ${details.slice(0, 200)}` : ''}`);
+      }
+
+      const result = await response.json().catch(() => ({}));
+      return { providerMessageId: result.id || result.messageId || null };
+    },
+  };
+}
@@ -0,0 +1,60 @@
+import { config } from '../config/app.js';
+import { createSmtpProvider } from './smtp.provider.js';
+import { createHttpSmsProvider } from './httpSms.provider.js';
+import { createFileProvider, createConsoleProvider } from './outbox.provider.js';
+
+/**
+ * Notification Channels
+ * Выбор провайдера для каждого канала по конфигурации (EMAIL_PROVIDER, SMS_PROVIDER)
+ */
+
+export const CHANNELS = ['email', 'sms'];
+
+/**
+ * Созданные провайдеры: channel -> provider
+ */
+const providers = new Map();
+
+/**
+ * Создать провайдер канала по конфигурации
+ * @param {string} channel - email | sms
+ * @returns {object} Провайдер { name, send }
+ */
+function createProvider(channel) {
+  const providerName = channel === 'email' ? config.emailProvider : config.smsProvider;
+
+  if (providerName === 'smtp' && channel === 'email') {
+    return createSmtpProvider(config.smtp);
+  }
+
+  if (providerName === 'http' && channel === 'sms') {
+    return createHttpSmsProvider(config.smsHttp);
+  }
+
+  if (providerName === 'file') {
+    return createFileProvider(channel, config.notificationOutboxDir);
+  }
+
+  if (providerName === 'console') {
+    return createConsoleProvider(channel);
+  }
+
+  throw new Error(`Invalid ${channel} provider: ${providerName}`);
+}
+
+/**
+ * Получить провайдер канала
+ * @param {string} channel - email | sms
+ * @returns {object} Провайдер { name, send }
+ */
+export function getProvider(channel) {
+  if (!CHANNELS.includes(channel)) {
+    throw new Error(`Invalid notification channel: ${channel}`);
+  }
+
+  if (!providers.has(channel)) {
+    providers.set(channel, createProvider(channel));
+  }
+
+  return providers.get(channel);
+}
@@ -0,0 +1,49 @@
+import fs from 'fs/promises';
+import path from 'path';
+
+/**
+ * Outbox Providers
+ * Провайдеры для локальной разработки: ничего не отправляют наружу,
+ * а пишут сообщения в файл или в консоль
+ */
+
+/**
+ * Создать файловый провайдер (по одной JSON-строке на сообщение в <dir>/<channel>.log)
+ * @param {string} channel - email | sms
+ * @param {string} dir - Папка outbox
+ * @returns {object} Провайдер { name, send }
+ */
+export function createFileProvider(channel, dir) {
+  const filePath = path.resolve(dir, `${channel}.log`);
+
+  return {
+    name: 'file',
+
+    async send(message) {
+      await fs.mkdir(path.dirname(filePath), { recursive: true });
+      await fs.appendFile(
+        filePath,
+        `${JSON.stringify({ channel, ...message, sentAt: new Date().toISOString() })}\n`,
+        'utf8'
+      );
+
+      return { providerMessageId: null };
+    },
+  };
+}
+
+/**
+ * Создать консольный провайдер
+ * @param {string} channel - email | sms
+ * @returns {object} Провайдер { name, send }
+ */
+export function createConsoleProvider(channel) {
+  return {
+    name: 'console',
+
+    async send({ to, subject, text }) {
+      console.log(`📨 [OUTBOX] ${channel} → ${to}${subject ? ` | ${subject}` : ''}\n${text}`);
+      return { providerMessageId: null };
+    },
+  };
+}
@@ -0,0 +1,44 @@
+import nodemailer from 'nodemailer';
+
+/**
+ * SMTP Provider
+ * Отправка email через SMTP-сервер
+ */
+
+/**
+ * Создать SMTP-провайдер
+ * @param {object} options - { host, port, user, password, from }
+ * @returns {object} Провайдер { name, send }
+ */
+export function createSmtpProvider(options) {
+  if (!options.host || !options.from) {
+    throw new Error('SMTP_HOST and SMTP_FROM are required for smtp email provider');
+  }
+
+  const transporter = nodemailer.createTransport({
+    host: options.host,
+    port: options.port,
+    secure: options.port === 465,
+    auth: options.user ? { user: options.user, pass: options.password } : undefined,
+  });
+
+  return {
+    name: 'smtp',
+
+    /**
+     * Отправить письмо
+     * @param {object} message - { to, subject, text }
+     * @returns {Promise<object>} { providerMessageId }
+     */
+    async send({ to, subject, text }) {
+      const info = await transporter.sendMail({
+        from: options.from,
+        to,
+        subject,
+        text,
+      });
+
+      return { providerMessageId: info.messageId };
+    },
+  };
+}
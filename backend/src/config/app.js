@@ -18,9 +18,40 @@ export const config = {
   // CORS
   corsOrigin: process.env.CORS_ORIGIN || 'http://localhost:5173',
 
+  // Публичный адрес API (для ссылок подписки на календарь); если не задан — берётся из запроса
+  publicApiUrl: process.env.PUBLIC_API_URL,
+
   // Rate Limiting
   rateLimitWindowMs: parseInt(process.env.RATE_LIMIT_WINDOW_MS) || 60000,
   rateLimitMaxRequests: parseInt(process.env.RATE_LIMIT_MAX_REQUESTS) || 100,
+
+  // Reminders
+  reminderJobIntervalMs: parseInt(process.env.REMINDER_JOB_INTERVAL_MS) || 5 * 60 * 1000,
+
+  // Waitlist (проверка просроченных предложений освободившегося времени)
+  waitlistJobIntervalMs: parseInt(process.env.WAITLIST_JOB_INTERVAL_MS) || 60 * 1000,
+
+  // Notification channels (email / SMS)
+  emailProvider: process.env.EMAIL_PROVIDER || 'console', // smtp | file | console
+  smsProvider: process.env.SMS_PROVIDER || 'console', // http | file | console
+  smtp: {
+    host: process.env.SMTP_HOST,
+    port: parseInt(process.env.SMTP_PORT) || 587,
+    user: process.env.SMTP_USER,
+    password: process.env.SMTP_PASSWORD,
+    from: process.env.SMTP_FROM,
+  },
+  smsHttp: {
+    url: process.env.SMS_HTTP_URL,
+    token: process.env.SMS_HTTP_TOKEN,
+    from: process.env.SMS_FROM_NUMBER,
+  },
+  notificationOutboxDir: process.env.NOTIFICATION_OUTBOX_DIR || 'outbox',
+  deliveryMaxAttempts: parseInt(process.env.DELIVERY_MAX_ATTEMPTS) || 5,
+  deliveryRetryJobIntervalMs: parseInt(process.env.DELIVERY_RETRY_JOB_INTERVAL_MS) || 60 * 1000,
+
+  // Клинические документы пациентов (снимки, согласия) — вне публичной папки uploads
+  documentStorageDir: process.env.DOCUMENT_STORAGE_DIR || 'storage/documents',
 };
 
 // Validate critical config
@@ -28,7 +28,7 @@ export async function getSummary(req, res, next) {
       dateFrom: req.query.dateFrom || undefined,
       dateTo: req.query.dateTo || undefined,
       week: req.query.week || undefined,
-      category: req.query.category || undefined,
+      treatmentCategoryId: req.query.treatmentCategoryId || undefined,
     };
 
     // Удаляем undefined значения
@@ -73,7 +73,7 @@ export async function getChartData(req, res, next) {
       dateFrom: req.query.dateFrom || undefined,
       dateTo: req.query.dateTo || undefined,
       week: req.query.week || undefined,
-      category: req.query.category || undefined,
+      treatmentCategoryId: req.query.treatmentCategoryId || undefined,
     };
 
     // Удаляем undefined значения
@@ -116,7 +116,7 @@ export async function getAnalyticsTable(req, res, next) {
       dateFrom: req.query.dateFrom || undefined,
       dateTo: req.query.dateTo || undefined,
       week: req.query.week || undefined,
-      category: req.query.category || undefined,
+      treatmentCategoryId: req.query.treatmentCategoryId || undefined,
     };
 
     // Удаляем undefined значения
@@ -1,4 +1,5 @@
 import * as appointmentService from '../services/appointment.service.js';
+import * as appointmentSeriesService from '../services/appointmentSeries.service.js';
 import { successResponse } from '../utils/response.util.js';
 
 /**
@@ -13,7 +14,7 @@ import { successResponse } from '../utils/response.util.js';
  */
 export async function getAll(req, res, next) {
   try {
-    const { doctorId, patientId, status, date, time, week, category, page, limit } = req.query;
+    const { doctorId, patientId, status, date, time, week, treatmentCategoryId, resourceId, page, limit } = req.query;
     const clinicId = req.user.clinicId;
     const userRole = req.user.role;
     const userId = req.user.userId;
@@ -33,7 +34,8 @@ export async function getAll(req, res, next) {
       date,
       time,
       week,
-      category,
+      treatmentCategoryId,
+      resourceId,
       page: page ? parseInt(page) : 1,
       limit: limit ? parseInt(limit) : 20,
     });
@@ -220,6 +222,224 @@ export async function getBusySlots(req, res, next) {
   }
 }
 
+/**
+ * GET /api/v1/appointments/available-slots
+ * Получить свободные слоты врача на дату (расписание, перерывы, приёмы, часовой пояс клиники)
+ * Query params: ?doctorId=xxx&date=2025-01-20&treatmentCategoryId=xxx&duration=30&interval=30&excludeAppointmentId=xxx
+ * Буферы слота берутся из категории лечения, иначе из настроек клиники
+ */
+export async function getAvailableSlots(req, res, next) {
+  try {
+    const { doctorId, date, treatmentCategoryId, duration, interval, excludeAppointmentId, resourceIds } = req.query;
+    const clinicId = req.user.clinicId;
+
+    if (!doctorId) {
+      return res.status(400).json({
+        success: false,
+        error: {
+          code: 'VALIDATION_ERROR',
+          message: 'Doctor ID is required',
+        },
+      });
+    }
+
+    if (!date) {
+      return res.status(400).json({
+        success: false,
+        error: {
+          code: 'VALIDATION_ERROR',
+          message: 'Date is required (format: YYYY-MM-DD)',
+        },
+      });
+    }
+
+    const availability = await appointmentService.getAvailableTimeSlots(clinicId, doctorId, date, {
+      treatmentCategoryId,
+      duration: duration ? parseInt(duration) : undefined,
+      interval: interval ? parseInt(interval) : undefined,
+      excludeAppointmentId,
+      // resourceIds: "id1,id2" — учитываем занятость выбранных кресел / кабинетов
+      resourceIds: resourceIds ? String(resourceIds).split(',').filter(Boolean) : [],
+    });
+
+    successResponse(res, availability, 200);
+  } catch (error) {
+    next(error);
+  }
+}
+
+/**
+ * GET /api/v1/appointments/day-board
+ * Расписание дня по всем активным врачам клиники
+ * Query params: ?date=2025-01-20&resourceId=xxx
+ */
+export async function getDayBoard(req, res, next) {
+  try {
+    const { date, resourceId } = req.query;
+    const clinicId = req.user.clinicId;
+
+    if (!date) {
+      return res.status(400).json({
+        success: false,
+        error: {
+          code: 'VALIDATION_ERROR',
+          message: 'Date is required (format: YYYY-MM-DD)',
+        },
+      });
+    }
+
+    const board = await appointmentService.getDayBoard(clinicId, date, { resourceId });
+
+    successResponse(res, board, 200);
+  } catch (error) {
+    next(error);
+  }
+}
+
+/**
+ * POST /api/v1/appointments/series/preview
+ * Предпросмотр серии повторяющихся приёмов с конфликтами по каждой дате
+ */
+export async function previewSeries(req, res, next) {
+  try {
+    const clinicId = req.user.clinicId;
+
+    const preview = await appointmentSeriesService.previewSeries(clinicId, req.body);
+
+    successResponse(res, preview, 200);
+  } catch (error) {
+    next(error);
+  }
+}
+
+/**
+ * POST /api/v1/appointments/series
+ * Создать серию повторяющихся приёмов
+ */
+export async function createSeries(req, res, next) {
+  try {
+    const clinicId = req.user.clinicId;
+
+    const result = await appointmentSeriesService.createSeries(clinicId, req.body);
+
+    successResponse(res, result, 201);
+  } catch (error) {
+    next(error);
+  }
+}
+
+/**
+ * GET /api/v1/appointments/series/:seriesId
+ * Получить серию со всеми приёмами
+ */
+export async function getSeries(req, res, next) {
+  try {
+    const { seriesId } = req.params;
+    const clinicId = req.user.clinicId;
+
+    const series = await appointmentSeriesService.getSeries(clinicId, seriesId);
+
+    successResponse(res, series, 200);
+  } catch (error) {
+    next(error);
+  }
+}
+
+/**
+ * Проверить, что врач работает со своим приёмом (для остальных ролей — всегда true)
+ * @returns {Promise<boolean>}
+ */
+async function isOwnAppointment(req, appointmentId) {
+  if (req.user.role !== 'DOCTOR') {
+    return true;
+  }
+
+  const existingAppointment = await appointmentService.findById(req.user.clinicId, appointmentId);
+  return existingAppointment.doctorId === req.user.userId;
+}
+
+/**
+ * PATCH /api/v1/appointments/:id/reschedule
+ * Перенести приём на другое время и/или изменить длительность
+ */
+export async function reschedule(req, res, next) {
+  try {
+    const { id } = req.params;
+    const clinicId = req.user.clinicId;
+
+    if (!(await isOwnAppointment(req, id))) {
+      return res.status(403).json({
+        success: false,
+        error: {
+          code: 'FORBIDDEN',
+          message: 'You do not have permission to update this appointment',
+        },
+      });
+    }
+
+    const appointment = await appointmentService.reschedule(clinicId, id, req.body);
+
+    successResponse(res, appointment, 200);
+  } catch (error) {
+    next(error);
+  }
+}
+
+/**
+ * PUT /api/v1/appointments/:id/series
+ * Изменить приёмы серии: этот / этот и последующие / все (scope)
+ */
+export async function updateSeries(req, res, next) {
+  try {
+    const { id } = req.params;
+    const clinicId = req.user.clinicId;
+
+    if (!(await isOwnAppointment(req, id))) {
+      return res.status(403).json({
+        success: false,
+        error: {
+          code: 'FORBIDDEN',
+          message: 'You do not have permission to update this appointment',
+        },
+      });
+    }
+
+    const appointments = await appointmentSeriesService.updateSeriesAppointments(clinicId, id, req.body);
+
+    successResponse(res, appointments, 200);
+  } catch (error) {
+    next(error);
+  }
+}
+
+/**
+ * POST /api/v1/appointments/:id/series/cancel
+ * Отменить приёмы серии: этот / этот и последующие / все (scope)
+ */
+export async function cancelSeries(req, res, next) {
+  try {
+    const { id } = req.params;
+    const { scope, cancellationReason } = req.body;
+    const clinicId = req.user.clinicId;
+
+    if (!(await isOwnAppointment(req, id))) {
+      return res.status(403).json({
+        success: false,
+        error: {
+          code: 'FORBIDDEN',
+          message: 'You do not have permission to cancel this appointment',
+        },
+      });
+    }
+
+    const result = await appointmentSeriesService.cancelSeriesAppointments(clinicId, id, scope, cancellationReason);
+
+    successResponse(res, result, 200);
+  } catch (error) {
+    next(error);
+  }
+}
+
 /**
  * DELETE /api/v1/appointments/:id
  * Удалить приём
@@ -0,0 +1,109 @@
+import * as calendarService from '../services/calendar.service.js';
+import { successResponse } from '../utils/response.util.js';
+import { config } from '../config/app.js';
+
+/**
+ * Calendar Controller
+ * Подписка на календарь (ICS) и выгрузка приёма в .ics
+ */
+
+/**
+ * Ссылка подписки для ответа клиенту
+ * @param {object} req - Express request (для адреса API, если PUBLIC_API_URL не задан)
+ * @param {object|null} feed - CalendarFeed
+ * @returns {object|null} { id, url, createdAt, lastAccessedAt }
+ */
+function toFeedResponse(req, feed) {
+  if (!feed) {
+    return null;
+  }
+
+  const baseUrl = config.publicApiUrl || `${req.protocol}://${req.get('host')}/api/v1`;
+
+  return {
+    id: feed.id,
+    url: `${baseUrl.replace(/\/$/, '')}/calendar/feeds/${feed.token}.ics`,
+    createdAt: feed.createdAt,
+    lastAccessedAt: feed.lastAccessedAt,
+  };
+}
+
+/**
+ * Отправить календарь как файл .ics
+ */
+function sendCalendar(res, calendar, filename, asAttachment) {
+  res.set('Content-Type', 'text/calendar; charset=utf-8');
+  res.set('Content-Disposition', `${asAttachment ? 'attachment' : 'inline'}; filename="${filename}"`);
+  res.set('Cache-Control', 'no-cache');
+  res.status(200).send(calendar);
+}
+
+/**
+ * GET /api/v1/calendar/feed
+ * Текущая ссылка подписки пользователя (или null)
+ */
+export async function getFeed(req, res, next) {
+  try {
+    const feed = await calendarService.getActiveFeed(req.user.userId);
+
+    successResponse(res, toFeedResponse(req, feed), 200);
+  } catch (error) {
+    next(error);
+  }
+}
+
+/**
+ * POST /api/v1/calendar/feed
+ * Выпустить новую ссылку подписки (старая перестаёт работать)
+ */
+export async function createFeed(req, res, next) {
+  try {
+    const feed = await calendarService.createFeed(req.user);
+
+    successResponse(res, toFeedResponse(req, feed), 201);
+  } catch (error) {
+    next(error);
+  }
+}
+
+/**
+ * DELETE /api/v1/calendar/feed
+ * Отозвать ссылку подписки
+ */
+export async function revokeFeed(req, res, next) {
+  try {
+    await calendarService.revokeFeed(req.user.userId);
+
+    successResponse(res, { message: 'Calendar feed revoked' }, 200);
+  } catch (error) {
+    next(error);
+  }
+}
+
+/**
+ * GET /api/v1/calendar/feeds/:token.ics
+ * Лента календаря по секретной ссылке (без авторизации — её забирает календарь телефона)
+ */
+export async function getFeedCalendar(req, res, next) {
+  try {
+    const calendar = await calendarService.getFeedCalendar(req.params.token);
+
+    sendCalendar(res, calendar, 'appointments.ics', false);
+  } catch (error) {
+    next(error);
+  }
+}
+
+/**
+ * GET /api/v1/calendar/appointments/:id.ics
+ * Один приём в формате .ics
+ */
+export async function getAppointmentCalendar(req, res, next) {
+  try {
+    const calendar = await calendarService.getAppointmentCalendar(req.user, req.params.id);
+
+    sendCalendar(res, calendar, `appointment-${req.params.id}.ics`, true);
+  } catch (error) {
+    next(error);
+  }
+}
@@ -1,4 +1,6 @@
 import * as chatService from '../services/chat.service.js';
+import * as chatEventsService from '../services/chatEvents.service.js';
+import * as patientService from '../services/patient.service.js';
 import { successResponse } from '../utils/response.util.js';
 
 /**
@@ -20,38 +22,10 @@ export async function getConversations(req, res, next) {
     // Для пациентов нужно получить patientId
     let patientId = null;
     if (userRole === 'PATIENT') {
-      // Получаем данные пользователя и ищем пациента
-      const { prisma } = await import('../config/database.js');
-      const currentUser = await prisma.user.findUnique({
-        where: { id: userId },
-        select: { email: true, phone: true },
-      });
-
-      if (currentUser) {
-        // Для PATIENT ищем пациента по email/phone без фильтра по clinicId
-        // так как clinicId может быть null при регистрации
-        const where = {
-          OR: [
-            { email: currentUser.email },
-            { phone: currentUser.phone || '' },
-          ],
-        };
-        
-        // Если clinicId есть, добавляем его для более точного поиска
-        if (clinicId) {
-          where.clinicId = clinicId;
-        }
-        
-        const patient = await prisma.patient.findFirst({
-          where,
-          orderBy: { createdAt: 'desc' }, // Берем самую новую запись
-        });
-        
-        patientId = patient?.id;
-        
-        // Если пациент не найден, это нормально для нового пользователя
-        // Вернем пустой список бесед
-      }
+      // Карточка аккаунта пациента (в клинике из токена, если она есть)
+      // Если карточки нет, это нормально для нового пользователя — вернем пустой список бесед
+      const patient = await patientService.findLinkedPatient(userId, clinicId);
+      patientId = patient?.id;
     }
 
     const result = await chatService.getConversations(
@@ -84,32 +58,8 @@ export async function getConversation(req, res, next) {
 
     let patientId = null;
     if (userRole === 'PATIENT') {
-      const { prisma } = await import('../config/database.js');
-      const currentUser = await prisma.user.findUnique({
-        where: { id: userId },
-        select: { email: true, phone: true },
-      });
-
-      if (currentUser) {
-        // Для PATIENT ищем пациента по email/phone без обязательного фильтра по clinicId
-        const where = {
-          OR: [
-            { email: currentUser.email },
-            { phone: currentUser.phone || '' },
-          ],
-        };
-        
-        // Если clinicId есть, добавляем его для более точного поиска
-        if (clinicId) {
-          where.clinicId = clinicId;
-        }
-        
-        const patient = await prisma.patient.findFirst({
-          where,
-          orderBy: { createdAt: 'desc' },
-        });
-        patientId = patient?.id;
-      }
+      const patient = await patientService.findLinkedPatient(userId, clinicId);
+      patientId = patient?.id;
     }
 
     const conversation = await chatService.getConversationById(
@@ -174,33 +124,9 @@ export async function sendMessage(req, res, next) {
       if (userRole === 'PATIENT') {
         const { prisma } = await import('../config/database.js');
         
-        // Получаем данные пользователя для поиска пациента
-        const currentUser = await prisma.user.findUnique({
-          where: { id: senderId },
-          select: { email: true, phone: true },
-        });
-
-        if (currentUser) {
-          // Ищем пациента по email/phone
-          const where = {
-            OR: [
-              { email: currentUser.email },
-              { phone: currentUser.phone || '' },
-            ],
-          };
-          
-          // Если clinicId есть, добавляем его для более точного поиска
-          if (clinicId) {
-            where.clinicId = clinicId;
-          }
-          
-          const patient = await prisma.patient.findFirst({
-            where,
-            orderBy: { createdAt: 'desc' },
-          });
-          
-          patientIdForCheck = patient?.id;
-        }
+        // Карточка аккаунта пациента
+        const patient = await patientService.findLinkedPatient(senderId, clinicId);
+        patientIdForCheck = patient?.id;
         
         // Получаем беседу для проверки статуса пациента
         const conversationForCheck = await prisma.conversation.findUnique({
@@ -302,7 +228,6 @@ export async function sendMessage(req, res, next) {
         
         if (!finalPatientId) {
         // Используем findOrCreatePatient для автоматического создания, если пациента нет
-        const patientService = await import('../services/patient.service.js');
         const { prisma } = await import('../config/database.js');
         
         // Получаем полные данные пользователя из базы
@@ -324,18 +249,10 @@ export async function sendMessage(req, res, next) {
         // Если clinicId null, пытаемся найти его из User
         finalClinicId = clinicId || currentUser.clinicId;
 
-        // Если clinicId все еще null, ищем через Patient по email/phone
+        // Если clinicId все еще null, берем клинику карточки аккаунта
         if (!finalClinicId) {
-          const existingPatient = await prisma.patient.findFirst({
-            where: {
-              OR: [
-                { email: currentUser.email },
-                { phone: currentUser.phone || '' },
-              ],
-            },
-            select: { clinicId: true },
-          });
-          finalClinicId = existingPatient?.clinicId;
+          const linkedPatient = await patientService.findLinkedPatient(senderId);
+          finalClinicId = linkedPatient?.clinicId;
         }
 
         if (!finalClinicId) {
@@ -363,7 +280,7 @@ export async function sendMessage(req, res, next) {
           name: patientName.trim(),
           phone: patientPhone,
           email: patientEmail,
-        });
+        }, senderId);
         finalPatientId = patient.id;
         console.log('✅ [CHAT CONTROLLER] Пациент найден/создан:', finalPatientId);
 
@@ -383,14 +300,26 @@ export async function sendMessage(req, res, next) {
           throw new Error('PATIENT_NOT_FOUND');
         }
 
-        // Дополнительная проверка статуса пациента, если patientId был передан напрямую
+        // Дополнительная проверка карточки пациента (в т.ч. если patientId был передан напрямую)
         if (finalPatientId && userRole === 'PATIENT') {
           const { prisma } = await import('../config/database.js');
           const patientRecord = await prisma.patient.findUnique({
             where: { id: finalPatientId },
-            select: { status: true },
+            select: { status: true, userId: true },
           });
 
+          // Писать можно только от своей карточки. Карточку, найденную по телефону/email,
+          // сначала нужно привязать к аккаунту с подтверждением кодом
+          if (!patientRecord || patientRecord.userId !== senderId) {
+            return res.status(403).json({
+              success: false,
+              error: {
+                code: 'PATIENT_RECORD_CLAIM_REQUIRED',
+                message: 'Карточка пациента в этой клинике не привязана к вашему аккаунту. Подтвердите её в настройках профиля.',
+              },
+            });
+          }
+
           if (patientRecord && patientRecord.status === 'guest') {
             return res.status(403).json({
               success: false,
@@ -476,32 +405,8 @@ export async function getUnreadCount(req, res, next) {
 
     let patientId = null;
     if (userRole === 'PATIENT') {
-      const { prisma } = await import('../config/database.js');
-      const currentUser = await prisma.user.findUnique({
-        where: { id: userId },
-        select: { email: true, phone: true },
-      });
-
-      if (currentUser) {
-        // Для PATIENT ищем пациента по email/phone без обязательного фильтра по clinicId
-        const where = {
-          OR: [
-            { email: currentUser.email },
-            { phone: currentUser.phone || '' },
-          ],
-        };
-        
-        // Если clinicId есть, добавляем его для более точного поиска
-        if (clinicId) {
-          where.clinicId = clinicId;
-        }
-        
-        const patient = await prisma.patient.findFirst({
-          where,
-          orderBy: { createdAt: 'desc' },
-        });
-        patientId = patient?.id;
-      }
+      const patient = await patientService.findLinkedPatient(userId, clinicId);
+      patientId = patient?.id;
     }
 
     const count = await chatService.getUnreadCount(clinicId, userRole, userId, patientId);
@@ -575,7 +480,6 @@ export async function getAvailableContacts(req, res, next) {
 
     const { prisma } = await import('../config/database.js');
     const userService = await import('../services/user.service.js');
-    const patientService = await import('../services/patient.service.js');
 
     // Получаем всех врачей клиники
     const doctors = await userService.findDoctors(clinicId);
@@ -656,3 +560,63 @@ export async function getAvailableContacts(req, res, next) {
   }
 }
 
+
+/**
+ * GET /api/v1/chat/stream
+ * Push-канал чата (Server-Sent Events)
+ * Доставляет события: message:new, message:read, message:deleted, typing
+ * Токен передается в query (?token=...), так как EventSource не умеет отправлять заголовки
+ */
+export async function stream(req, res, next) {
+  try {
+    const { userId, role, clinicId } = req.user;
+
+    // Пациент подписывается на беседы всех своих записей Patient
+    const patientIds = role === 'PATIENT'
+      ? await chatService.findPatientIdsForUser(userId)
+      : [];
+
+    const unsubscribe = chatEventsService.subscribe(res, {
+      userId,
+      role,
+      clinicId,
+      patientIds,
+    });
+
+    req.on('close', unsubscribe);
+  } catch (error) {
+    next(error);
+  }
+}
+
+/**
+ * POST /api/v1/chat/conversations/:id/typing
+ * Сообщить участникам беседы, что пользователь печатает
+ * Body: { isTyping: boolean }
+ */
+export async function typing(req, res, next) {
+  try {
+    const { id } = req.params;
+    const { isTyping } = req.body;
+    const clinicId = req.user.clinicId;
+    const userRole = req.user.role;
+    const userId = req.user.userId;
+
+    let patientId = null;
+    if (userRole === 'PATIENT') {
+      const patientIds = await chatService.findPatientIdsForUser(userId);
+      const { prisma } = await import('../config/database.js');
+      const conversation = await prisma.conversation.findUnique({
+        where: { id },
+        select: { patientId: true },
+      });
+      patientId = patientIds.find(pid => pid === conversation?.patientId) || null;
+    }
+
+    await chatService.notifyTyping(id, userId, userRole, clinicId, isTyping, patientId);
+
+    successResponse(res, { conversationId: id, isTyping: !!isTyping }, 200);
+  } catch (error) {
+    next(error);
+  }
+}
@@ -0,0 +1,55 @@
+import * as clinicalNoteService from '../services/clinicalNote.service.js';
+import { successResponse } from '../utils/response.util.js';
+
+/**
+ * Clinical Note Controller
+ * Обработка HTTP запросов для протоколов приёмов
+ */
+
+/**
+ * GET /api/v1/appointments/:id/clinical-note
+ * Получить протокол приёма (или шаблон категории, если протокола ещё нет)
+ */
+export async function get(req, res, next) {
+  try {
+    const { id } = req.params;
+
+    const result = await clinicalNoteService.getForAppointment(req.user, id);
+
+    successResponse(res, result, 200);
+  } catch (error) {
+    next(error);
+  }
+}
+
+/**
+ * PUT /api/v1/appointments/:id/clinical-note
+ * Сохранить черновик протокола
+ */
+export async function save(req, res, next) {
+  try {
+    const { id } = req.params;
+
+    const note = await clinicalNoteService.save(req.user, id, req.body);
+
+    successResponse(res, note, 200);
+  } catch (error) {
+    next(error);
+  }
+}
+
+/**
+ * POST /api/v1/appointments/:id/clinical-note/sign
+ * Подписать протокол (после подписи редактирование запрещено)
+ */
+export async function sign(req, res, next) {
+  try {
+    const { id } = req.params;
+
+    const note = await clinicalNoteService.sign(req.user, id);
+
+    successResponse(res, note, 200);
+  } catch (error) {
+    next(error);
+  }
+}
@@ -0,0 +1,36 @@
+import * as dentalChartService from '../services/dentalChart.service.js';
+import { successResponse } from '../utils/response.util.js';
+
+/**
+ * Dental Chart Controller
+ * Обработчики запросов для зубной карты (одонтограммы) пациента
+ */
+
+/**
+ * GET /api/v1/patients/:id/dental-chart
+ * Зубная карта пациента
+ * Query params: ?asOf=YYYY-MM-DD — состояние на прошлую дату
+ */
+export async function getDentalChart(req, res, next) {
+  try {
+    const chart = await dentalChartService.getDentalChart(req.user, req.params.id, {
+      asOf: req.query.asOf,
+    });
+    successResponse(res, chart);
+  } catch (error) {
+    next(error);
+  }
+}
+
+/**
+ * POST /api/v1/patients/:id/dental-chart
+ * Добавить запись (состояние или процедуру) в зубную карту
+ */
+export async function addEntry(req, res, next) {
+  try {
+    const entries = await dentalChartService.addEntry(req.user, req.params.id, req.body);
+    successResponse(res, entries, 201);
+  } catch (error) {
+    next(error);
+  }
+}
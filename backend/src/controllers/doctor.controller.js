@@ -132,3 +132,57 @@ export async function updateMySchedule(req, res, next) {
   }
 }
 
+
+/**
+ * GET /api/v1/doctor/schedule/exceptions
+ * Получить исключения из расписания текущего врача (с конфликтующими приёмами)
+ */
+export async function getMyScheduleExceptions(req, res, next) {
+  try {
+    const userId = req.user.userId;
+    const { from, to } = req.query;
+
+    const exceptions = await doctorScheduleService.getExceptions(userId, { from, to });
+
+    successResponse(res, exceptions, 200);
+  } catch (error) {
+    console.log('🔴 [DOCTOR CONTROLLER] Ошибка:', error.message);
+    next(error);
+  }
+}
+
+/**
+ * PUT /api/v1/doctor/schedule/exceptions
+ * Создать или обновить исключение из расписания текущего врача
+ */
+export async function saveMyScheduleException(req, res, next) {
+  try {
+    const userId = req.user.userId;
+
+    console.log('🔵 [DOCTOR CONTROLLER] Сохранение исключения из расписания:', userId, req.body.date);
+
+    const exception = await doctorScheduleService.upsertException(userId, req.body);
+
+    successResponse(res, exception, 200);
+  } catch (error) {
+    console.log('🔴 [DOCTOR CONTROLLER] Ошибка:', error.message);
+    next(error);
+  }
+}
+
+/**
+ * DELETE /api/v1/doctor/schedule/exceptions/:exceptionId
+ * Удалить исключение из расписания текущего врача
+ */
+export async function deleteMyScheduleException(req, res, next) {
+  try {
+    const userId = req.user.userId;
+
+    await doctorScheduleService.deleteException(userId, req.params.exceptionId);
+
+    successResponse(res, { message: 'Schedule exception deleted successfully' }, 200);
+  } catch (error) {
+    console.log('🔴 [DOCTOR CONTROLLER] Ошибка:', error.message);
+    next(error);
+  }
+}
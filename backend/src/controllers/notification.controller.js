@@ -1,6 +1,7 @@
 import * as notificationService from '../services/notification.service.js';
+import * as deliveryService from '../services/delivery.service.js';
 import { successResponse } from '../utils/response.util.js';
-import { prisma } from '../config/database.js';
+import * as patientService from '../services/patient.service.js';
 
 /**
  * Notification Controller
@@ -9,7 +10,7 @@ import { prisma } from '../config/database.js';
 
 /**
  * Получить patientId, userId и clinicId для пользователя
- * Для пациентов - находим по email/phone, затем получаем clinicId из найденного пациента
+ * Для пациентов - берем карточку, привязанную к аккаунту, и clinicId из нее
  * Для врачей - используем userId из токена и clinicId из токена
  * Для админов - используем patientId или userId из query параметров и clinicId из токена
  * @returns {Promise<{patientId: string|null, userId: string|null, clinicId: string|null}>}
@@ -23,46 +24,22 @@ async function getPatientIdUserIdAndClinicId(req) {
     }
 
     if (req.user.role === 'PATIENT') {
-      // Для пациентов находим patientId по email пользователя
-      const user = await prisma.user.findUnique({
-        where: { id: req.user.userId },
-        select: { email: true, phone: true },
-      });
-
-      if (!user) {
-        console.warn('🔴 [NOTIFICATION] Пользователь не найден:', req.user.userId);
-        // Если пользователь не найден, но есть clinicId в токене, используем его
-        if (req.user.clinicId) {
-          return { patientId: null, userId: null, clinicId: req.user.clinicId };
-        }
-        return { patientId: null, userId: null, clinicId: null };
-      }
-
-      // Ищем пациента по email или phone (без фильтра по clinicId, так как его может не быть в токене)
-      const patient = await prisma.patient.findFirst({
-        where: {
-          OR: [
-            { email: user.email },
-            { phone: user.phone },
-          ],
-        },
-        orderBy: { createdAt: 'desc' }, // Берем последнего созданного
-        select: { id: true, clinicId: true },
-      });
+      // Для пациентов берем карточку, привязанную к аккаунту: в клинике из токена, иначе самую новую
+      const patient =
+        (req.user.clinicId && (await patientService.findLinkedPatient(req.user.userId, req.user.clinicId))) ||
+        (await patientService.findLinkedPatient(req.user.userId));
 
       if (patient) {
         console.log('🔵 [NOTIFICATION] PatientId и ClinicId для PATIENT:', { 
           patientId: patient.id, 
           clinicId: patient.clinicId,
-          email: user.email, 
-          phone: user.phone 
         });
         return { patientId: patient.id, userId: null, clinicId: patient.clinicId };
       }
 
-      // Если пациент не найден в таблице Patient, но есть clinicId в токене
+      // Если у аккаунта нет карточки, но есть clinicId в токене
       // Это нормальная ситуация - пользователь может быть зарегистрирован как User,
-      // но еще не создал запись в таблице Patient
+      // но еще не записывался в клинику или не привязал свою карточку
       if (req.user.clinicId) {
         console.log('🔵 [NOTIFICATION] Пациент не найден в таблице Patient, используем clinicId из токена:', req.user.clinicId);
         return { patientId: null, userId: null, clinicId: req.user.clinicId };
@@ -365,3 +342,54 @@ export async function remove(req, res, next) {
   }
 }
 
+
+/**
+ * GET /api/v1/notifications/deliveries
+ * Журнал отправки уведомлений по email/SMS (только ADMIN/CLINIC)
+ */
+export async function getDeliveries(req, res, next) {
+  try {
+    const clinicId = req.user.clinicId;
+    if (!clinicId) {
+      return res.status(400).json({
+        success: false,
+        message: 'Clinic ID is required',
+      });
+    }
+
+    const { status, channel, page, limit } = req.query;
+
+    const result = await deliveryService.findAll(clinicId, {
+      status,
+      channel,
+      page: page ? parseInt(page) : 1,
+      limit: limit ? parseInt(limit) : 20,
+    });
+
+    successResponse(res, result, 200);
+  } catch (error) {
+    next(error);
+  }
+}
+
+/**
+ * POST /api/v1/notifications/deliveries/:id/retry
+ * Повторить отправку вручную (только ADMIN/CLINIC)
+ */
+export async function retryDelivery(req, res, next) {
+  try {
+    const clinicId = req.user.clinicId;
+    if (!clinicId) {
+      return res.status(400).json({
+        success: false,
+        message: 'Clinic ID is required',
+      });
+    }
+
+    const delivery = await deliveryService.retry(clinicId, req.params.id);
+
+    successResponse(res, delivery, 200);
+  } catch (error) {
+    next(error);
+  }
+}
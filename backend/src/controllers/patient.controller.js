@@ -1,4 +1,5 @@
 import * as patientService from '../services/patient.service.js';
+import * as appointmentService from '../services/appointment.service.js';
 import { successResponse } from '../utils/response.util.js';
 
 /**
@@ -188,7 +189,7 @@ export async function getById(req, res, next) {
 
 /**
  * GET /api/v1/patient/appointments
- * Получить appointments для PATIENT пользователя (по email)
+ * Получить appointments для PATIENT пользователя (по привязанным к аккаунту карточкам)
  * ВАЖНО: Только пользователи с ролью PATIENT могут получить доступ к своим записям
  */
 export async function getMyAppointments(req, res, next) {
@@ -206,25 +207,8 @@ export async function getMyAppointments(req, res, next) {
 
     const { status, page, limit } = req.query;
 
-    // Получаем email из User таблицы по userId из токена
     // ВАЖНО: Используем только req.user.userId из JWT токена, не принимаем userId из query/body
-    const { prisma } = await import('../config/database.js');
-    const user = await prisma.user.findUnique({
-      where: { id: req.user.userId },
-      select: { email: true, phone: true },
-    });
-
-    if (!user) {
-      return res.status(404).json({
-        success: false,
-        error: {
-          code: 'NOT_FOUND',
-          message: 'User not found',
-        },
-      });
-    }
-
-    const result = await patientService.getPatientAppointments(user.email, {
+    const result = await patientService.getPatientAppointments(req.user.userId, {
       status,
       page: page ? parseInt(page) : 1,
       limit: limit ? parseInt(limit) : 20,
@@ -250,6 +234,40 @@ export async function getMyAppointments(req, res, next) {
   }
 }
 
+/**
+ * POST /api/v1/patients/appointments/:id/suggestion/accept
+ * Принять предложенное клиникой новое время отменённого приёма (создаётся новая запись)
+ * ВАЖНО: Только пользователи с ролью PATIENT
+ */
+export async function acceptSuggestedDate(req, res, next) {
+  try {
+    const { id } = req.params;
+
+    const appointment = await appointmentService.acceptSuggestedDate(req.user.userId, id);
+
+    successResponse(res, appointment, 201);
+  } catch (error) {
+    next(error);
+  }
+}
+
+/**
+ * POST /api/v1/patients/appointments/:id/suggestion/decline
+ * Отклонить предложенное клиникой новое время
+ * ВАЖНО: Только пользователи с ролью PATIENT
+ */
+export async function declineSuggestedDate(req, res, next) {
+  try {
+    const { id } = req.params;
+
+    const appointment = await appointmentService.declineSuggestedDate(req.user.userId, id);
+
+    successResponse(res, appointment, 200);
+  } catch (error) {
+    next(error);
+  }
+}
+
 /**
  * POST /api/v1/patients
  * Создать пациента
@@ -0,0 +1,51 @@
+import * as patientClaimService from '../services/patientClaim.service.js';
+import { successResponse } from '../utils/response.util.js';
+
+/**
+ * Patient Claim Controller
+ * Обработка HTTP запросов для привязки карточек пациента к аккаунту
+ */
+
+/**
+ * GET /api/v1/patients/records
+ * Карточки пациента в клиниках, привязанные к аккаунту, и ожидающие подтверждения запросы
+ */
+export async function getMyRecords(req, res, next) {
+  try {
+    const result = await patientClaimService.findForUser(req.user.userId);
+
+    successResponse(res, result, 200);
+  } catch (error) {
+    next(error);
+  }
+}
+
+/**
+ * POST /api/v1/patients/claims
+ * Запросить привязку существующей карточки (код подтверждения уходит на контакт из карточки)
+ */
+export async function requestClaim(req, res, next) {
+  try {
+    const claim = await patientClaimService.requestClaim(req.user.userId, req.body);
+
+    successResponse(res, claim, 201);
+  } catch (error) {
+    next(error);
+  }
+}
+
+/**
+ * POST /api/v1/patients/claims/:id/verify
+ * Подтвердить привязку кодом
+ */
+export async function verifyClaim(req, res, next) {
+  try {
+    const { id } = req.params;
+
+    const patient = await patientClaimService.verifyClaim(req.user.userId, id, req.body.code);
+
+    successResponse(res, patient, 200);
+  } catch (error) {
+    next(error);
+  }
+}
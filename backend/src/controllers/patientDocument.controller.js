@@ -0,0 +1,89 @@
+import * as patientDocumentService from '../services/patientDocument.service.js';
+import { successResponse } from '../utils/response.util.js';
+
+/**
+ * Patient Document Controller
+ * Обработчики запросов для клинических документов пациента (снимки, фото, согласия, анализы)
+ */
+
+/**
+ * GET /api/v1/patients/:id/documents
+ * Документы пациента (?appointmentId — только прикреплённые к приёму, ?category — по категории)
+ */
+export async function getDocuments(req, res, next) {
+  try {
+    const documents = await patientDocumentService.getDocuments(req.user, req.params.id, {
+      appointmentId: req.query.appointmentId,
+      category: req.query.category,
+    });
+    successResponse(res, documents);
+  } catch (error) {
+    next(error);
+  }
+}
+
+/**
+ * POST /api/v1/patients/:id/documents
+ * Загрузить документ
+ */
+export async function uploadDocument(req, res, next) {
+  try {
+    const document = await patientDocumentService.uploadDocument(req.user, req.params.id, req.body);
+    successResponse(res, document, 201);
+  } catch (error) {
+    next(error);
+  }
+}
+
+/**
+ * PATCH /api/v1/patients/:id/documents/:documentId
+ * Изменить категорию, название, описание или приём документа
+ */
+export async function updateDocument(req, res, next) {
+  try {
+    const document = await patientDocumentService.updateDocument(
+      req.user,
+      req.params.id,
+      req.params.documentId,
+      req.body
+    );
+    successResponse(res, document);
+  } catch (error) {
+    next(error);
+  }
+}
+
+/**
+ * DELETE /api/v1/patients/:id/documents/:documentId
+ * Удалить документ
+ */
+export async function deleteDocument(req, res, next) {
+  try {
+    await patientDocumentService.deleteDocument(req.user, req.params.id, req.params.documentId);
+    successResponse(res, { message: 'Document deleted successfully' });
+  } catch (error) {
+    next(error);
+  }
+}
+
+/**
+ * GET /api/v1/patients/:id/documents/:documentId/file
+ * Файл документа для просмотра в браузере (?thumbnail=true — превью)
+ */
+export async function getDocumentFile(req, res, next) {
+  try {
+    const file = await patientDocumentService.getDocumentFile(
+      req.user,
+      req.params.id,
+      req.params.documentId,
+      req.query.thumbnail === 'true'
+    );
+
+    res.set('Content-Type', file.mimeType);
+    res.set('Content-Disposition', `inline; filename*=UTF-8''${encodeURIComponent(file.fileName)}`);
+    res.set('Cache-Control', 'private, max-age=300');
+    res.status(200).send(file.buffer);
+  } catch (error) {
+    next(error);
+  }
+}
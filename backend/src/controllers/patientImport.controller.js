@@ -0,0 +1,38 @@
+import * as patientImportService from '../services/patientImport.service.js';
+import { successResponse } from '../utils/response.util.js';
+
+/**
+ * Patient Import Controller
+ * Обработка HTTP запросов для импорта и выгрузки пациентов
+ */
+
+/**
+ * POST /api/v1/patients/import
+ * Импорт пациентов из таблицы (dryRun: true — только проверка)
+ * Body: { rows, dryRun, duplicates }
+ */
+export async function importPatients(req, res, next) {
+  try {
+    const result = await patientImportService.importPatients(req.user.clinicId, req.body);
+
+    successResponse(res, result, result.dryRun ? 200 : 201);
+  } catch (error) {
+    next(error);
+  }
+}
+
+/**
+ * GET /api/v1/patients/export
+ * Пациенты и визиты для выгрузки (?search=&doctorId=&status=)
+ */
+export async function exportPatients(req, res, next) {
+  try {
+    const { search, doctorId, status } = req.query;
+
+    const result = await patientImportService.exportPatients(req.user.clinicId, { search, doctorId, status });
+
+    successResponse(res, result, 200);
+  } catch (error) {
+    next(error);
+  }
+}
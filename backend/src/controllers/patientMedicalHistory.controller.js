@@ -0,0 +1,59 @@
+import * as medicalHistoryService from '../services/patientMedicalHistory.service.js';
+import { successResponse } from '../utils/response.util.js';
+
+/**
+ * Patient Medical History Controller
+ * Обработчики запросов для анамнеза пациента (аллергии, заболевания, препараты)
+ */
+
+/**
+ * GET /api/v1/patients/:id/medical-history
+ * Анамнез пациента
+ */
+export async function getMedicalHistory(req, res, next) {
+  try {
+    const history = await medicalHistoryService.getMedicalHistory(req.user, req.params.id);
+    successResponse(res, history);
+  } catch (error) {
+    next(error);
+  }
+}
+
+/**
+ * PUT /api/v1/patients/:id/medical-history
+ * Сохранить анамнез пациента
+ */
+export async function updateMedicalHistory(req, res, next) {
+  try {
+    const history = await medicalHistoryService.updateMedicalHistory(req.user, req.params.id, req.body);
+    successResponse(res, history);
+  } catch (error) {
+    next(error);
+  }
+}
+
+/**
+ * GET /api/v1/patients/medical-history
+ * Анамнез в личном кабинете пациента
+ */
+export async function getMyMedicalHistory(req, res, next) {
+  try {
+    const result = await medicalHistoryService.getMyMedicalHistory(req.user.userId);
+    successResponse(res, result);
+  } catch (error) {
+    next(error);
+  }
+}
+
+/**
+ * PUT /api/v1/patients/medical-history
+ * Пациент сам сообщает анамнез — сохраняется во всех его карточках в клиниках
+ */
+export async function updateMyMedicalHistory(req, res, next) {
+  try {
+    const result = await medicalHistoryService.updateMyMedicalHistory(req.user.userId, req.body);
+    successResponse(res, result);
+  } catch (error) {
+    next(error);
+  }
+}
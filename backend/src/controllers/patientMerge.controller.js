@@ -0,0 +1,56 @@
+import * as patientMergeService from '../services/patientMerge.service.js';
+import { successResponse } from '../utils/response.util.js';
+
+/**
+ * Patient Merge Controller
+ * Обработка HTTP запросов для поиска и объединения дубликатов пациентов
+ */
+
+/**
+ * GET /api/v1/patients/duplicates
+ * Группы возможных дубликатов в клинике
+ */
+export async function getDuplicates(req, res, next) {
+  try {
+    const groups = await patientMergeService.findDuplicates(req.user.clinicId);
+
+    successResponse(res, groups, 200);
+  } catch (error) {
+    next(error);
+  }
+}
+
+/**
+ * POST /api/v1/patients/merge
+ * Объединить дубликаты в одну карточку
+ * Body: { targetId, sourceIds }
+ */
+export async function merge(req, res, next) {
+  try {
+    const result = await patientMergeService.merge(req.user, req.body);
+
+    successResponse(res, result, 200);
+  } catch (error) {
+    next(error);
+  }
+}
+
+/**
+ * GET /api/v1/patients/merges
+ * Журнал объединений (?patientId= — объединения в конкретную карточку)
+ */
+export async function getMerges(req, res, next) {
+  try {
+    const { patientId, page, limit } = req.query;
+
+    const result = await patientMergeService.findAll(req.user.clinicId, {
+      patientId,
+      page: page ? parseInt(page) : 1,
+      limit: limit ? parseInt(limit) : 20,
+    });
+
+    successResponse(res, result, 200);
+  } catch (error) {
+    next(error);
+  }
+}
@@ -58,6 +58,22 @@ export async function getClinicDoctors(req, res, next) {
   }
 }
 
+/**
+ * GET /api/v1/public/clinics/:slug/treatment-categories
+ * Получить категории лечения клиники
+ */
+export async function getClinicTreatmentCategories(req, res, next) {
+  try {
+    const { slug } = req.params;
+
+    const categories = await publicService.findClinicTreatmentCategories(slug);
+
+    successResponse(res, categories, 200);
+  } catch (error) {
+    next(error);
+  }
+}
+
 /**
  * GET /api/v1/public/clinics/:slug/doctors/:doctorId
  * Получить врача по ID
@@ -80,7 +96,7 @@ export async function getClinicDoctor(req, res, next) {
  */
 export async function createAppointment(req, res, next) {
   try {
-    const { clinicSlug, doctorId, patient, appointmentDate, reason, registeredAt } = req.body;
+    const { clinicSlug, doctorId, patient, appointmentDate, reason, treatmentCategoryId, registeredAt } = req.body;
 
     console.log('🔵 [PUBLIC CONTROLLER] Создание публичной заявки:', {
       clinicSlug,
@@ -112,7 +128,9 @@ export async function createAppointment(req, res, next) {
       patient,
       appointmentDate,
       reason,
-      registeredAtDate
+      registeredAtDate,
+      treatmentCategoryId,
+      req.user?.role === 'PATIENT' ? req.user.userId : null // Аккаунт пациента, если он вошел
     );
 
     console.log('✅ [PUBLIC CONTROLLER] Заявка создана успешно:', {
@@ -169,6 +187,34 @@ export async function getPublicBusySlots(req, res, next) {
   }
 }
 
+/**
+ * GET /api/v1/public/clinics/:slug/doctors/:doctorId/available-slots
+ * Получить свободные слоты врача на дату (публичный endpoint)
+ * Query params: ?date=2025-01-20
+ */
+export async function getPublicAvailableSlots(req, res, next) {
+  try {
+    const { slug, doctorId } = req.params;
+    const { date, treatmentCategoryId } = req.query;
+
+    if (!date) {
+      return res.status(400).json({
+        success: false,
+        error: {
+          code: 'VALIDATION_ERROR',
+          message: 'Date is required (format: YYYY-MM-DD)',
+        },
+      });
+    }
+
+    const availability = await publicService.getPublicAvailableSlots(slug, doctorId, date, treatmentCategoryId);
+
+    successResponse(res, availability, 200);
+  } catch (error) {
+    next(error);
+  }
+}
+
 /**
  * GET /api/v1/public/testimonials/patients
  * Получить список пациентов для отзывов
@@ -0,0 +1,62 @@
+import * as resourceService from '../services/resource.service.js';
+import { successResponse } from '../utils/response.util.js';
+
+/**
+ * Resource Controller
+ * Обработчики запросов для ресурсов клиники
+ */
+
+/**
+ * GET /api/v1/clinic/resources
+ * Получить ресурсы клиники
+ * Query params: ?activeOnly=true
+ */
+export async function getResources(req, res, next) {
+  try {
+    const resources = await resourceService.getResources(req.user.clinicId, {
+      activeOnly: req.query.activeOnly === 'true',
+    });
+    successResponse(res, resources);
+  } catch (error) {
+    next(error);
+  }
+}
+
+/**
+ * POST /api/v1/clinic/resources
+ * Создать ресурс
+ */
+export async function createResource(req, res, next) {
+  try {
+    const resource = await resourceService.createResource(req.user.clinicId, req.body);
+    successResponse(res, resource, 201);
+  } catch (error) {
+    next(error);
+  }
+}
+
+/**
+ * PUT /api/v1/clinic/resources/:id
+ * Обновить ресурс
+ */
+export async function updateResource(req, res, next) {
+  try {
+    const resource = await resourceService.updateResource(req.user.clinicId, req.params.id, req.body);
+    successResponse(res, resource);
+  } catch (error) {
+    next(error);
+  }
+}
+
+/**
+ * DELETE /api/v1/clinic/resources/:id
+ * Удалить ресурс
+ */
+export async function deleteResource(req, res, next) {
+  try {
+    await resourceService.deleteResource(req.user.clinicId, req.params.id);
+    successResponse(res, { message: 'Resource deleted successfully' });
+  } catch (error) {
+    next(error);
+  }
+}
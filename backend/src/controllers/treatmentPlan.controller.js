@@ -0,0 +1,164 @@
+import * as treatmentPlanService from '../services/treatmentPlan.service.js';
+import { successResponse } from '../utils/response.util.js';
+
+/**
+ * Treatment Plan Controller
+ * Обработка HTTP запросов для планов лечения
+ */
+
+/**
+ * GET /api/v1/treatment-plans
+ * Получить планы лечения клиники
+ * Query params: ?patientId=xxx&status=accepted
+ */
+export async function getAll(req, res, next) {
+  try {
+    const { patientId, status } = req.query;
+
+    const plans = await treatmentPlanService.findAll(req.user, { patientId, status });
+
+    successResponse(res, plans, 200);
+  } catch (error) {
+    next(error);
+  }
+}
+
+/**
+ * GET /api/v1/treatment-plans/:id
+ * Получить план лечения
+ */
+export async function getById(req, res, next) {
+  try {
+    const { id } = req.params;
+
+    const plan = await treatmentPlanService.findById(req.user, id);
+
+    successResponse(res, plan, 200);
+  } catch (error) {
+    next(error);
+  }
+}
+
+/**
+ * POST /api/v1/treatment-plans
+ * Создать план лечения (черновик)
+ */
+export async function create(req, res, next) {
+  try {
+    const plan = await treatmentPlanService.create(req.user, req.body);
+
+    successResponse(res, plan, 201);
+  } catch (error) {
+    next(error);
+  }
+}
+
+/**
+ * PUT /api/v1/treatment-plans/:id
+ * Изменить план лечения (до принятия пациентом)
+ */
+export async function update(req, res, next) {
+  try {
+    const { id } = req.params;
+
+    const plan = await treatmentPlanService.update(req.user, id, req.body);
+
+    successResponse(res, plan, 200);
+  } catch (error) {
+    next(error);
+  }
+}
+
+/**
+ * POST /api/v1/treatment-plans/:id/present
+ * Показать план пациенту
+ */
+export async function present(req, res, next) {
+  try {
+    const { id } = req.params;
+
+    const plan = await treatmentPlanService.present(req.user, id);
+
+    successResponse(res, plan, 200);
+  } catch (error) {
+    next(error);
+  }
+}
+
+/**
+ * POST /api/v1/treatment-plans/:id/cancel
+ * Отменить план лечения
+ */
+export async function cancel(req, res, next) {
+  try {
+    const { id } = req.params;
+
+    const plan = await treatmentPlanService.cancel(req.user, id);
+
+    successResponse(res, plan, 200);
+  } catch (error) {
+    next(error);
+  }
+}
+
+/**
+ * PATCH /api/v1/treatment-plans/:id/stages/:stageId
+ * Изменить статус этапа или назначить его на приём
+ */
+export async function updateStage(req, res, next) {
+  try {
+    const { id, stageId } = req.params;
+
+    const plan = await treatmentPlanService.updateStage(req.user, id, stageId, req.body);
+
+    successResponse(res, plan, 200);
+  } catch (error) {
+    next(error);
+  }
+}
+
+/**
+ * GET /api/v1/treatment-plans/my
+ * Планы лечения текущего пациента (во всех клиниках)
+ */
+export async function getMy(req, res, next) {
+  try {
+    const plans = await treatmentPlanService.findForPatientUser(req.user.userId);
+
+    successResponse(res, plans, 200);
+  } catch (error) {
+    next(error);
+  }
+}
+
+/**
+ * GET /api/v1/treatment-plans/my/:id
+ * План лечения текущего пациента (смета для просмотра и печати)
+ */
+export async function getMyById(req, res, next) {
+  try {
+    const { id } = req.params;
+
+    const plan = await treatmentPlanService.findByIdForPatientUser(req.user.userId, id);
+
+    successResponse(res, plan, 200);
+  } catch (error) {
+    next(error);
+  }
+}
+
+/**
+ * POST /api/v1/treatment-plans/my/:id/accept
+ * Пациент принимает смету плана лечения
+ */
+export async function acceptMy(req, res, next) {
+  try {
+    const { id } = req.params;
+
+    const plan = await treatmentPlanService.acceptForPatientUser(req.user.userId, id);
+
+    successResponse(res, plan, 200);
+  } catch (error) {
+    next(error);
+  }
+}
@@ -459,3 +459,113 @@ export async function updateDoctorSchedule(req, res, next) {
   }
 }
 
+
+/**
+ * Проверить, что ADMIN/CLINIC может управлять расписанием врача
+ * @returns {Promise<object|null>} Объект ошибки { status, code, message } или null, если доступ есть
+ */
+async function checkDoctorScheduleAccess(req, doctorId) {
+  const clinicId = req.user.clinicId;
+  const userRole = req.user.role;
+
+  if (userRole !== 'ADMIN' && !clinicId) {
+    return { status: 403, code: 'FORBIDDEN', message: 'Clinic ID is required' };
+  }
+
+  const doctor = await userService.findById(userRole === 'ADMIN' ? null : clinicId, doctorId);
+
+  if (!doctor) {
+    return { status: 404, code: 'NOT_FOUND', message: 'Doctor not found' };
+  }
+
+  if (doctor.role !== 'DOCTOR') {
+    return { status: 400, code: 'BAD_REQUEST', message: 'User is not a doctor' };
+  }
+
+  if (userRole === 'CLINIC' && doctor.clinicId !== clinicId) {
+    return { status: 403, code: 'FORBIDDEN', message: 'You do not have permission to manage this doctor schedule' };
+  }
+
+  return null;
+}
+
+/**
+ * GET /api/v1/users/:id/schedule/exceptions
+ * Получить исключения из расписания врача (с конфликтующими приёмами)
+ * Доступ: ADMIN, CLINIC
+ */
+export async function getDoctorScheduleExceptions(req, res, next) {
+  try {
+    const { id } = req.params;
+
+    const accessError = await checkDoctorScheduleAccess(req, id);
+    if (accessError) {
+      return res.status(accessError.status).json({
+        success: false,
+        error: { code: accessError.code, message: accessError.message },
+      });
+    }
+
+    const { from, to } = req.query;
+    const exceptions = await doctorScheduleService.getExceptions(id, { from, to });
+
+    successResponse(res, exceptions, 200);
+  } catch (error) {
+    console.log('🔴 [USER CONTROLLER] Ошибка:', error.message);
+    next(error);
+  }
+}
+
+/**
+ * PUT /api/v1/users/:id/schedule/exceptions
+ * Создать или обновить исключение из расписания врача
+ * Доступ: ADMIN, CLINIC
+ */
+export async function saveDoctorScheduleException(req, res, next) {
+  try {
+    const { id } = req.params;
+
+    const accessError = await checkDoctorScheduleAccess(req, id);
+    if (accessError) {
+      return res.status(accessError.status).json({
+        success: false,
+        error: { code: accessError.code, message: accessError.message },
+      });
+    }
+
+    console.log('🔵 [USER CONTROLLER] Сохранение исключения из расписания врача:', { doctorId: id, date: req.body.date });
+
+    const exception = await doctorScheduleService.upsertException(id, req.body);
+
+    successResponse(res, exception, 200);
+  } catch (error) {
+    console.log('🔴 [USER CONTROLLER] Ошибка:', error.message);
+    next(error);
+  }
+}
+
+/**
+ * DELETE /api/v1/users/:id/schedule/exceptions/:exceptionId
+ * Удалить исключение из расписания врача
+ * Доступ: ADMIN, CLINIC
+ */
+export async function deleteDoctorScheduleException(req, res, next) {
+  try {
+    const { id, exceptionId } = req.params;
+
+    const accessError = await checkDoctorScheduleAccess(req, id);
+    if (accessError) {
+      return res.status(accessError.status).json({
+        success: false,
+        error: { code: accessError.code, message: accessError.message },
+      });
+    }
+
+    await doctorScheduleService.deleteException(id, exceptionId);
+
+    successResponse(res, { message: 'Schedule exception deleted successfully' }, 200);
+  } catch (error) {
+    console.log('🔴 [USER CONTROLLER] Ошибка:', error.message);
+    next(error);
+  }
+}
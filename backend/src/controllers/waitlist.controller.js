@@ -0,0 +1,134 @@
+import * as waitlistService from '../services/waitlist.service.js';
+import { successResponse } from '../utils/response.util.js';
+
+/**
+ * Waitlist Controller
+ * Обработка HTTP запросов для листа ожидания
+ */
+
+/**
+ * GET /api/v1/waitlist
+ * Получить лист ожидания клиники
+ * Query params: ?status=waiting&doctorId=xxx&patientId=xxx
+ */
+export async function getAll(req, res, next) {
+  try {
+    const clinicId = req.user.clinicId;
+    const { status, doctorId, patientId } = req.query;
+
+    const entries = await waitlistService.findAll(clinicId, { status, doctorId, patientId });
+
+    successResponse(res, entries, 200);
+  } catch (error) {
+    next(error);
+  }
+}
+
+/**
+ * POST /api/v1/waitlist
+ * Добавить пациента в лист ожидания
+ */
+export async function create(req, res, next) {
+  try {
+    const clinicId = req.user.clinicId;
+
+    const entry = await waitlistService.createEntry(clinicId, req.body, req.user.userId);
+
+    successResponse(res, entry, 201);
+  } catch (error) {
+    next(error);
+  }
+}
+
+/**
+ * DELETE /api/v1/waitlist/:id
+ * Убрать пациента из листа ожидания
+ */
+export async function remove(req, res, next) {
+  try {
+    const { id } = req.params;
+    const clinicId = req.user.clinicId;
+
+    const entry = await waitlistService.cancelEntry(clinicId, id);
+
+    successResponse(res, entry, 200);
+  } catch (error) {
+    next(error);
+  }
+}
+
+/**
+ * GET /api/v1/waitlist/my
+ * Записи листа ожидания текущего пациента (с предложениями)
+ */
+export async function getMy(req, res, next) {
+  try {
+    const entries = await waitlistService.findForPatientUser(req.user.userId);
+
+    successResponse(res, entries, 200);
+  } catch (error) {
+    next(error);
+  }
+}
+
+/**
+ * POST /api/v1/waitlist/my
+ * Пациент добавляет себя в лист ожидания клиники
+ */
+export async function createMy(req, res, next) {
+  try {
+    const entry = await waitlistService.createEntryForPatientUser(req.user.userId, req.body);
+
+    successResponse(res, entry, 201);
+  } catch (error) {
+    next(error);
+  }
+}
+
+/**
+ * DELETE /api/v1/waitlist/my/:id
+ * Пациент убирает свою запись из листа ожидания
+ */
+export async function removeMy(req, res, next) {
+  try {
+    const { id } = req.params;
+
+    const entry = await waitlistService.cancelEntryForPatientUser(req.user.userId, id);
+
+    successResponse(res, entry, 200);
+  } catch (error) {
+    next(error);
+  }
+}
+
+/**
+ * POST /api/v1/waitlist/offers/:offerId/accept
+ * Принять предложение освободившегося времени (пациент или сотрудник клиники от его имени)
+ */
+export async function acceptOffer(req, res, next) {
+  try {
+    const { offerId } = req.params;
+
+    const appointment = await waitlistService.acceptOffer(offerId, req.user);
+
+    successResponse(res, appointment, 201);
+  } catch (error) {
+    next(error);
+  }
+}
+
+/**
+ * POST /api/v1/waitlist/offers/:offerId/decline
+ * Отклонить предложение: время предлагается следующему пациенту
+ */
+export async function declineOffer(req, res, next) {
+  try {
+    const { offerId } = req.params;
+
+    const offer = await waitlistService.declineOffer(offerId, req.user);
+
+    successResponse(res, offer, 200);
+  } catch (error) {
+    next(error);
+  }
+}
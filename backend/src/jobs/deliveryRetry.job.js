@@ -0,0 +1,52 @@
+import { config } from '../config/app.js';
+import * as deliveryService from '../services/delivery.service.js';
+
+/**
+ * Delivery Retry Job
+ * Периодический повтор неудавшихся отправок email/SMS
+ */
+
+let timer = null;
+let isRunning = false;
+
+/**
+ * Один проход планировщика (пропускается, если предыдущий ещё не завершён)
+ */
+async function tick() {
+  if (isRunning) {
+    return;
+  }
+
+  isRunning = true;
+  try {
+    await deliveryService.retryDue();
+  } catch (error) {
+    console.error('🔴 [DELIVERY RETRY JOB] Ошибка при повторе доставок:', error.message);
+  } finally {
+    isRunning = false;
+  }
+}
+
+/**
+ * Запустить планировщик повторов
+ */
+export function start() {
+  if (timer) {
+    return;
+  }
+
+  console.log(`⏰ [DELIVERY RETRY JOB] Запущен (интервал: ${Math.round(config.deliveryRetryJobIntervalMs / 1000)} сек)`);
+
+  timer = setInterval(tick, config.deliveryRetryJobIntervalMs);
+  tick();
+}
+
+/**
+ * Остановить планировщик повторов
+ */
+export function stop() {
+  if (timer) {
+    clearInterval(timer);
+    timer = null;
+  }
+}
@@ -0,0 +1,52 @@
+import { config } from '../config/app.js';
+import * as reminderService from '../services/reminder.service.js';
+
+/**
+ * Reminder Job
+ * Периодический запуск рассылки напоминаний о приёмах
+ */
+
+let timer = null;
+let isRunning = false;
+
+/**
+ * Один проход планировщика (пропускается, если предыдущий ещё не завершён)
+ */
+async function tick() {
+  if (isRunning) {
+    return;
+  }
+
+  isRunning = true;
+  try {
+    await reminderService.sendDueReminders();
+  } catch (error) {
+    console.error('🔴 [REMINDER JOB] Ошибка при отправке напоминаний:', error.message);
+  } finally {
+    isRunning = false;
+  }
+}
+
+/**
+ * Запустить планировщик напоминаний
+ */
+export function start() {
+  if (timer) {
+    return;
+  }
+
+  console.log(`⏰ [REMINDER JOB] Запущен (интервал: ${Math.round(config.reminderJobIntervalMs / 1000)} сек)`);
+
+  timer = setInterval(tick, config.reminderJobIntervalMs);
+  tick();
+}
+
+/**
+ * Остановить планировщик напоминаний
+ */
+export function stop() {
+  if (timer) {
+    clearInterval(timer);
+    timer = null;
+  }
+}
@@ -0,0 +1,53 @@
+import { config } from '../config/app.js';
+import * as waitlistService from '../services/waitlist.service.js';
+
+/**
+ * Waitlist Job
+ * Периодическая проверка просроченных предложений из листа ожидания:
+ * просроченное предложение закрывается и время предлагается следующему пациенту
+ */
+
+let timer = null;
+let isRunning = false;
+
+/**
+ * Один проход планировщика (пропускается, если предыдущий ещё не завершён)
+ */
+async function tick() {
+  if (isRunning) {
+    return;
+  }
+
+  isRunning = true;
+  try {
+    await waitlistService.expireDueOffers();
+  } catch (error) {
+    console.error('🔴 [WAITLIST JOB] Ошибка при обработке просроченных предложений:', error.message);
+  } finally {
+    isRunning = false;
+  }
+}
+
+/**
+ * Запустить планировщик листа ожидания
+ */
+export function start() {
+  if (timer) {
+    return;
+  }
+
+  console.log(`⏰ [WAITLIST JOB] Запущен (интервал: ${Math.round(config.waitlistJobIntervalMs / 1000)} сек)`);
+
+  timer = setInterval(tick, config.waitlistJobIntervalMs);
+  tick();
+}
+
+/**
+ * Остановить планировщик листа ожидания
+ */
+export function stop() {
+  if (timer) {
+    clearInterval(timer);
+    timer = null;
+  }
+}
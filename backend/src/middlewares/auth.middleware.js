@@ -37,6 +37,44 @@ export function authenticate(req, res, next) {
   }
 }
 
+/**
+ * Optional Authentication Middleware
+ * Для публичных endpoints: если передан валидный токен — заполняет req.user,
+ * без токена (или с невалидным) запрос продолжается анонимно
+ */
+export function optionalAuthenticate(req, res, next) {
+  const token = extractTokenFromHeader(req.headers.authorization);
+
+  if (token) {
+    try {
+      const decoded = verifyToken(token);
+      req.user = {
+        userId: decoded.userId,
+        clinicId: decoded.clinicId,
+        role: decoded.role,
+        status: decoded.status,
+      };
+    } catch (error) {
+      console.log('⚠️ [AUTH MIDDLEWARE] Невалидный токен на публичном endpoint, продолжаем анонимно:', error.message);
+    }
+  }
+
+  next();
+}
+
+/**
+ * Stream Authentication Middleware
+ * Для SSE-соединений: EventSource не умеет отправлять заголовки,
+ * поэтому токен можно передать в query (?token=...)
+ */
+export function authenticateStream(req, res, next) {
+  if (!req.headers.authorization && req.query.token) {
+    req.headers.authorization = `Bearer ${req.query.token}`;
+  }
+
+  return authenticate(req, res, next);
+}
+
 /**
  * Authorization Middleware
  * Проверка роли пользователя
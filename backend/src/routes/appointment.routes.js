@@ -1,5 +1,6 @@
 import express from 'express';
 import * as appointmentController from '../controllers/appointment.controller.js';
+import * as clinicalNoteController from '../controllers/clinicalNote.controller.js';
 import { authenticate, authorize } from '../middlewares/auth.middleware.js';
 import { tenantMiddleware } from '../middlewares/tenant.middleware.js';
 import { validate } from '../middlewares/validation.middleware.js';
@@ -7,7 +8,13 @@ import {
   createAppointmentSchema,
   updateAppointmentSchema,
   updateStatusSchema,
+  rescheduleAppointmentSchema,
+  createSeriesSchema,
+  previewSeriesSchema,
+  updateSeriesSchema,
+  cancelSeriesSchema,
 } from '../validators/appointment.validator.js';
+import { saveClinicalNoteSchema } from '../validators/clinicalNote.validator.js';
 
 const router = express.Router();
 
@@ -31,6 +38,53 @@ router.get('/', appointmentController.getAll);
  */
 router.get('/busy-slots', appointmentController.getBusySlots);
 
+/**
+ * GET /api/v1/appointments/available-slots
+ * Получить свободные слоты врача на дату
+ * Доступ: все авторизованные
+ * Query params: ?doctorId=xxx&date=2025-01-20&treatmentCategoryId=xxx&duration=30&resourceIds=id1,id2
+ */
+router.get('/available-slots', appointmentController.getAvailableSlots);
+
+/**
+ * GET /api/v1/appointments/day-board
+ * Расписание дня по всем активным врачам (рабочие часы и приёмы)
+ * Доступ: ADMIN, CLINIC
+ * Query params: ?date=2025-01-20&resourceId=xxx
+ */
+router.get('/day-board', authorize('ADMIN', 'CLINIC'), appointmentController.getDayBoard);
+
+/**
+ * POST /api/v1/appointments/series/preview
+ * Предпросмотр серии повторяющихся приёмов (даты и конфликты)
+ * Доступ: ADMIN, CLINIC, DOCTOR
+ */
+router.post(
+  '/series/preview',
+  authorize('ADMIN', 'CLINIC', 'DOCTOR'),
+  validate(previewSeriesSchema),
+  appointmentController.previewSeries
+);
+
+/**
+ * POST /api/v1/appointments/series
+ * Создать серию повторяющихся приёмов (каждые N недель, до даты или N раз)
+ * Доступ: ADMIN, CLINIC, DOCTOR
+ */
+router.post(
+  '/series',
+  authorize('ADMIN', 'CLINIC', 'DOCTOR'),
+  validate(createSeriesSchema),
+  appointmentController.createSeries
+);
+
+/**
+ * GET /api/v1/appointments/series/:seriesId
+ * Получить серию со всеми приёмами
+ * Доступ: все авторизованные
+ */
+router.get('/series/:seriesId', appointmentController.getSeries);
+
 /**
  * GET /api/v1/appointments/:id
  * Получить приём по ID
@@ -77,6 +131,76 @@ router.patch(
   appointmentController.updateStatus
 );
 
+/**
+ * PATCH /api/v1/appointments/:id/reschedule
+ * Перенести приём / изменить длительность (drag-and-drop в календаре)
+ * Доступ: ADMIN, CLINIC, DOCTOR (врач — только свои приёмы)
+ */
+router.patch(
+  '/:id/reschedule',
+  authorize('ADMIN', 'CLINIC', 'DOCTOR'),
+  validate(rescheduleAppointmentSchema),
+  appointmentController.reschedule
+);
+
+/**
+ * PUT /api/v1/appointments/:id/series
+ * Изменить приёмы серии: этот / этот и последующие / все
+ * Доступ: ADMIN, CLINIC, DOCTOR
+ */
+router.put(
+  '/:id/series',
+  authorize('ADMIN', 'CLINIC', 'DOCTOR'),
+  validate(updateSeriesSchema),
+  appointmentController.updateSeries
+);
+
+/**
+ * POST /api/v1/appointments/:id/series/cancel
+ * Отменить приёмы серии: этот / этот и последующие / все
+ * Доступ: ADMIN, CLINIC, DOCTOR
+ */
+router.post(
+  '/:id/series/cancel',
+  authorize('ADMIN', 'CLINIC', 'DOCTOR'),
+  validate(cancelSeriesSchema),
+  appointmentController.cancelSeries
+);
+
+/**
+ * GET /api/v1/appointments/:id/clinical-note
+ * Протокол приёма (если его нет — шаблон категории лечения)
+ * Доступ: ADMIN, CLINIC, DOCTOR (врач — только свои приёмы)
+ */
+router.get(
+  '/:id/clinical-note',
+  authorize('ADMIN', 'CLINIC', 'DOCTOR'),
+  clinicalNoteController.get
+);
+
+/**
+ * PUT /api/v1/appointments/:id/clinical-note
+ * Сохранить черновик протокола приёма
+ * Доступ: ADMIN, CLINIC, DOCTOR (врач — только свои приёмы)
+ */
+router.put(
+  '/:id/clinical-note',
+  authorize('ADMIN', 'CLINIC', 'DOCTOR'),
+  validate(saveClinicalNoteSchema),
+  clinicalNoteController.save
+);
+
+/**
+ * POST /api/v1/appointments/:id/clinical-note/sign
+ * Подписать протокол приёма — после подписи он не редактируется
+ * Доступ: ADMIN, CLINIC, DOCTOR (врач — только свои приёмы)
+ */
+router.post(
+  '/:id/clinical-note/sign',
+  authorize('ADMIN', 'CLINIC', 'DOCTOR'),
+  clinicalNoteController.sign
+);
+
 /**
  * DELETE /api/v1/appointments/:id
  * Удалить приём
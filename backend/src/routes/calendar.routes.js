@@ -0,0 +1,49 @@
+import express from 'express';
+import * as calendarController from '../controllers/calendar.controller.js';
+import { authenticate, authorize } from '../middlewares/auth.middleware.js';
+
+const router = express.Router();
+
+/**
+ * GET /api/v1/calendar/feeds/:token.ics
+ * Лента приёмов по секретной ссылке подписки
+ * Доступ: публичный (токен в URL — это и есть доступ)
+ */
+router.get('/feeds/:token.ics', calendarController.getFeedCalendar);
+
+// Остальные routes требуют авторизацию
+router.use(authenticate);
+
+/**
+ * GET /api/v1/calendar/feed
+ * Текущая ссылка подписки
+ * Доступ: DOCTOR, PATIENT
+ */
+router.get('/feed', authorize('DOCTOR', 'PATIENT'), calendarController.getFeed);
+
+/**
+ * POST /api/v1/calendar/feed
+ * Выпустить новую ссылку подписки (предыдущая отзывается)
+ * Доступ: DOCTOR, PATIENT
+ */
+router.post('/feed', authorize('DOCTOR', 'PATIENT'), calendarController.createFeed);
+
+/**
+ * DELETE /api/v1/calendar/feed
+ * Отозвать ссылку подписки
+ * Доступ: DOCTOR, PATIENT
+ */
+router.delete('/feed', authorize('DOCTOR', 'PATIENT'), calendarController.revokeFeed);
+
+/**
+ * GET /api/v1/calendar/appointments/:id.ics
+ * Скачать приём в формате .ics
+ * Доступ: PATIENT (свои приёмы), ADMIN, CLINIC, DOCTOR (приёмы своей клиники)
+ */
+router.get(
+  '/appointments/:id.ics',
+  authorize('PATIENT', 'ADMIN', 'CLINIC', 'DOCTOR'),
+  calendarController.getAppointmentCalendar
+);
+
+export default router;
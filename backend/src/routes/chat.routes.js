@@ -1,11 +1,12 @@
 import express from 'express';
 import * as chatController from '../controllers/chat.controller.js';
-import { authenticate } from '../middlewares/auth.middleware.js';
+import { authenticate, authenticateStream } from '../middlewares/auth.middleware.js';
 import { validate } from '../middlewares/validation.middleware.js';
 import {
   sendMessageSchema,
   getMessagesSchema,
   getConversationsSchema,
+  typingSchema,
 } from '../validators/chat.validator.js';
 
 const router = express.Router();
@@ -15,6 +16,9 @@ const router = express.Router();
  * Все маршруты требуют аутентификации
  */
 
+// Push-канал событий чата (SSE), токен передается в query
+router.get('/stream', authenticateStream, chatController.stream);
+
 // Получить список бесед
 router.get(
   '/conversations',
@@ -45,6 +49,14 @@ router.post(
 // Отметить сообщения как прочитанные
 router.post('/conversations/:id/read', authenticate, chatController.markAsRead);
 
+// Сообщить, что пользователь печатает
+router.post(
+  '/conversations/:id/typing',
+  authenticate,
+  validate(typingSchema, 'body'),
+  chatController.typing
+);
+
 // Получить количество непрочитанных сообщений
 router.get('/unread-count', authenticate, chatController.getUnreadCount);
 
@@ -11,6 +11,7 @@ import {
   updatePasswordSchema,
 } from '../validators/clinic.validator.js';
 import treatmentCategoryRoutes from './treatment-category.routes.js';
+import resourceRoutes from './resource.routes.js';
 
 const router = express.Router();
 
@@ -73,5 +74,11 @@ router.put('/password', validate(updatePasswordSchema), clinicController.updateP
  */
 router.use('/treatment-categories', treatmentCategoryRoutes);
 
+/**
+ * Resources Routes
+ * Маршруты для ресурсов клиники (кабинеты, кресла, оборудование)
+ */
+router.use('/resources', resourceRoutes);
+
 export default router;
 
@@ -4,7 +4,7 @@ import { authenticate, authorize } from '../middlewares/auth.middleware.js';
 import { tenantMiddleware } from '../middlewares/tenant.middleware.js';
 import { validate } from '../middlewares/validation.middleware.js';
 import { updateDoctorProfileSchema } from '../validators/user.validator.js';
-import { updateScheduleSchema } from '../validators/doctorSchedule.validator.js';
+import { updateScheduleSchema, scheduleExceptionSchema } from '../validators/doctorSchedule.validator.js';
 
 const router = express.Router();
 
@@ -50,5 +50,31 @@ router.put(
   doctorController.updateMySchedule
 );
 
+/**
+ * GET /api/v1/doctor/schedule/exceptions
+ * Получить исключения из расписания текущего врача
+ * Доступ: только DOCTOR
+ */
+router.get('/schedule/exceptions', authorize('DOCTOR'), doctorController.getMyScheduleExceptions);
+
+/**
+ * PUT /api/v1/doctor/schedule/exceptions
+ * Создать или обновить исключение на дату (выходной / особые часы)
+ * Доступ: только DOCTOR
+ */
+router.put(
+  '/schedule/exceptions',
+  authorize('DOCTOR'),
+  validate(scheduleExceptionSchema),
+  doctorController.saveMyScheduleException
+);
+
+/**
+ * DELETE /api/v1/doctor/schedule/exceptions/:exceptionId
+ * Удалить исключение из расписания
+ * Доступ: только DOCTOR
+ */
+router.delete('/schedule/exceptions/:exceptionId', authorize('DOCTOR'), doctorController.deleteMyScheduleException);
+
 export default router;
 
@@ -4,6 +4,9 @@ import patientRoutes from './patient.routes.js';
 import userRoutes from './user.routes.js';
 import doctorRoutes from './doctor.routes.js';
 import appointmentRoutes from './appointment.routes.js';
+import waitlistRoutes from './waitlist.routes.js';
+import calendarRoutes from './calendar.routes.js';
+import treatmentPlanRoutes from './treatmentPlan.routes.js';
 import notificationRoutes from './notification.routes.js';
 import clinicRoutes from './clinic.routes.js';
 import publicRoutes from './public.routes.js';
@@ -40,6 +43,15 @@ router.use('/doctor', doctorRoutes);
 // Appointment routes (требуют авторизацию)
 router.use('/appointments', appointmentRoutes);
 
+// Waitlist routes (требуют авторизацию)
+router.use('/waitlist', waitlistRoutes);
+
+// Calendar routes (ICS: лента по секретной ссылке — публичная, остальное требует авторизацию)
+router.use('/calendar', calendarRoutes);
+
+// Treatment plan routes (требуют авторизацию)
+router.use('/treatment-plans', treatmentPlanRoutes);
+
 // Notification routes (требуют авторизацию)
 router.use('/notifications', notificationRoutes);
 
@@ -1,6 +1,6 @@
 import express from 'express';
 import * as notificationController from '../controllers/notification.controller.js';
-import { authenticate } from '../middlewares/auth.middleware.js';
+import { authenticate, authorize } from '../middlewares/auth.middleware.js';
 
 const router = express.Router();
 
@@ -15,6 +15,12 @@ router.get('/', authenticate, notificationController.getAll);
 // GET /api/v1/notifications/unread-count - Получить количество непрочитанных
 router.get('/unread-count', authenticate, notificationController.getUnreadCount);
 
+// GET /api/v1/notifications/deliveries - Журнал отправки email/SMS
+router.get('/deliveries', authenticate, authorize('ADMIN', 'CLINIC'), notificationController.getDeliveries);
+
+// POST /api/v1/notifications/deliveries/:id/retry - Повторить отправку
+router.post('/deliveries/:id/retry', authenticate, authorize('ADMIN', 'CLINIC'), notificationController.retryDelivery);
+
 // GET /api/v1/notifications/:id - Получить уведомление по ID
 router.get('/:id', authenticate, notificationController.getById);
 
@@ -1,9 +1,24 @@
 import express from 'express';
 import * as patientController from '../controllers/patient.controller.js';
+import * as dentalChartController from '../controllers/dentalChart.controller.js';
+import * as patientClaimController from '../controllers/patientClaim.controller.js';
+import * as patientMergeController from '../controllers/patientMerge.controller.js';
+import * as patientImportController from '../controllers/patientImport.controller.js';
+import * as medicalHistoryController from '../controllers/patientMedicalHistory.controller.js';
+import * as patientDocumentController from '../controllers/patientDocument.controller.js';
 import { authenticate, authorize } from '../middlewares/auth.middleware.js';
 import { tenantMiddleware } from '../middlewares/tenant.middleware.js';
 import { validate } from '../middlewares/validation.middleware.js';
 import { createPatientSchema, updatePatientSchema } from '../validators/patient.validator.js';
+import { createDentalChartEntrySchema } from '../validators/dentalChart.validator.js';
+import { createPatientClaimSchema, verifyPatientClaimSchema } from '../validators/patientClaim.validator.js';
+import { mergePatientsSchema } from '../validators/patientMerge.validator.js';
+import { importPatientsSchema } from '../validators/patientImport.validator.js';
+import { medicalHistorySchema } from '../validators/patientMedicalHistory.validator.js';
+import {
+  uploadPatientDocumentSchema,
+  updatePatientDocumentSchema,
+} from '../validators/patientDocument.validator.js';
 
 const router = express.Router();
 
@@ -14,6 +29,31 @@ router.use(authenticate);
 // ВАЖНО: Только пользователи с ролью PATIENT могут получить доступ к своим записям
 router.get('/appointments', authorize('PATIENT'), patientController.getMyAppointments);
 
+// Ответ пациента на предложенное клиникой новое время (после отмены приёма)
+router.post('/appointments/:id/suggestion/accept', authorize('PATIENT'), patientController.acceptSuggestedDate);
+router.post('/appointments/:id/suggestion/decline', authorize('PATIENT'), patientController.declineSuggestedDate);
+
+// Карточки пациента в клиниках, привязанные к аккаунту
+router.get('/records', authorize('PATIENT'), patientClaimController.getMyRecords);
+
+// Привязка существующей карточки клиники: запрос кода на контакт из карточки и подтверждение
+router.post('/claims', authorize('PATIENT'), validate(createPatientClaimSchema), patientClaimController.requestClaim);
+router.post(
+  '/claims/:id/verify',
+  authorize('PATIENT'),
+  validate(verifyPatientClaimSchema),
+  patientClaimController.verifyClaim
+);
+
+// Анамнез со слов пациента (аллергии, заболевания, препараты) — сохраняется во всех его карточках
+router.get('/medical-history', authorize('PATIENT'), medicalHistoryController.getMyMedicalHistory);
+router.put(
+  '/medical-history',
+  authorize('PATIENT'),
+  validate(medicalHistorySchema),
+  medicalHistoryController.updateMyMedicalHistory
+);
+
 // Для остальных routes применяем tenantMiddleware
 router.use(tenantMiddleware);
 
@@ -43,6 +83,51 @@ router.get('/visits', patientController.getAllVisits);
  */
 router.get('/doctor/:doctorId?', patientController.getDoctorPatients);
 
+/**
+ * GET /api/v1/patients/duplicates
+ * Группы возможных дубликатов (похожее имя, телефон в другом формате, тот же email)
+ * Доступ: ADMIN, CLINIC
+ */
+router.get('/duplicates', authorize('ADMIN', 'CLINIC'), patientMergeController.getDuplicates);
+
+/**
+ * GET /api/v1/patients/merges
+ * Журнал объединений дубликатов
+ * Доступ: ADMIN, CLINIC
+ */
+router.get('/merges', authorize('ADMIN', 'CLINIC'), patientMergeController.getMerges);
+
+/**
+ * POST /api/v1/patients/merge
+ * Объединить дубликаты в одну карточку (приёмы, уведомления и беседы переходят в неё)
+ * Доступ: ADMIN, CLINIC
+ */
+router.post(
+  '/merge',
+  authorize('ADMIN', 'CLINIC'),
+  validate(mergePatientsSchema),
+  patientMergeController.merge
+);
+
+/**
+ * POST /api/v1/patients/import
+ * Импорт пациентов из CSV / XLSX (колонки уже сопоставлены, dryRun — проверка без сохранения)
+ * Доступ: ADMIN, CLINIC
+ */
+router.post(
+  '/import',
+  authorize('ADMIN', 'CLINIC'),
+  validate(importPatientsSchema),
+  patientImportController.importPatients
+);
+
+/**
+ * GET /api/v1/patients/export
+ * Пациенты и визиты для выгрузки с фильтрами раздела «Пациенты»
+ * Доступ: ADMIN, CLINIC
+ */
+router.get('/export', authorize('ADMIN', 'CLINIC'), patientImportController.exportPatients);
+
 /**
  * GET /api/v1/patients/:id
  * Получить пациента по ID
@@ -51,6 +136,105 @@ router.get('/doctor/:doctorId?', patientController.getDoctorPatients);
  */
 router.get('/:id', patientController.getById);
 
+/**
+ * GET /api/v1/patients/:id/dental-chart
+ * Зубная карта (одонтограмма) пациента, ?asOf=YYYY-MM-DD — на прошлую дату
+ * Доступ: ADMIN, CLINIC, DOCTOR (врач — только своих пациентов)
+ */
+router.get('/:id/dental-chart', authorize('ADMIN', 'CLINIC', 'DOCTOR'), dentalChartController.getDentalChart);
+
+/**
+ * POST /api/v1/patients/:id/dental-chart
+ * Добавить состояние или процедуру по зубу / поверхностям
+ * Доступ: ADMIN, CLINIC, DOCTOR (врач — только своих пациентов)
+ */
+router.post(
+  '/:id/dental-chart',
+  authorize('ADMIN', 'CLINIC', 'DOCTOR'),
+  validate(createDentalChartEntrySchema),
+  dentalChartController.addEntry
+);
+
+/**
+ * GET /api/v1/patients/:id/medical-history
+ * Анамнез пациента: аллергии, заболевания, препараты, беременность, антикоагулянты
+ * Доступ: ADMIN, CLINIC, DOCTOR (врач — только своих пациентов)
+ */
+router.get(
+  '/:id/medical-history',
+  authorize('ADMIN', 'CLINIC', 'DOCTOR'),
+  medicalHistoryController.getMedicalHistory
+);
+
+/**
+ * PUT /api/v1/patients/:id/medical-history
+ * Сохранить анамнез пациента
+ * Доступ: ADMIN, CLINIC, DOCTOR (врач — только своих пациентов)
+ */
+router.put(
+  '/:id/medical-history',
+  authorize('ADMIN', 'CLINIC', 'DOCTOR'),
+  validate(medicalHistorySchema),
+  medicalHistoryController.updateMedicalHistory
+);
+
+/**
+ * GET /api/v1/patients/:id/documents
+ * Снимки, фото и документы пациента (?appointmentId, ?category)
+ * Доступ: ADMIN, CLINIC, DOCTOR (врач — только своих пациентов)
+ */
+router.get(
+  '/:id/documents',
+  authorize('ADMIN', 'CLINIC', 'DOCTOR'),
+  patientDocumentController.getDocuments
+);
+
+/**
+ * POST /api/v1/patients/:id/documents
+ * Загрузить документ (base64), при необходимости — с привязкой к приёму
+ * Доступ: ADMIN, CLINIC, DOCTOR (врач — только к своим приёмам)
+ */
+router.post(
+  '/:id/documents',
+  authorize('ADMIN', 'CLINIC', 'DOCTOR'),
+  validate(uploadPatientDocumentSchema),
+  patientDocumentController.uploadDocument
+);
+
+/**
+ * GET /api/v1/patients/:id/documents/:documentId/file
+ * Файл документа (?thumbnail=true — превью); файлы не лежат в публичной папке uploads
+ * Доступ: ADMIN, CLINIC, DOCTOR (врач — только своих пациентов)
+ */
+router.get(
+  '/:id/documents/:documentId/file',
+  authorize('ADMIN', 'CLINIC', 'DOCTOR'),
+  patientDocumentController.getDocumentFile
+);
+
+/**
+ * PATCH /api/v1/patients/:id/documents/:documentId
+ * Изменить категорию, название, описание или приём документа
+ * Доступ: ADMIN, CLINIC, DOCTOR (врач — только своих пациентов)
+ */
+router.patch(
+  '/:id/documents/:documentId',
+  authorize('ADMIN', 'CLINIC', 'DOCTOR'),
+  validate(updatePatientDocumentSchema),
+  patientDocumentController.updateDocument
+);
+
+/**
+ * DELETE /api/v1/patients/:id/documents/:documentId
+ * Удалить документ
+ * Доступ: ADMIN, CLINIC; DOCTOR — только загруженные им
+ */
+router.delete(
+  '/:id/documents/:documentId',
+  authorize('ADMIN', 'CLINIC', 'DOCTOR'),
+  patientDocumentController.deleteDocument
+);
+
 /**
  * POST /api/v1/patients
  * Создать нового пациента
@@ -1,6 +1,7 @@
 import express from 'express';
 import * as publicController from '../controllers/public.controller.js';
 import { validate } from '../middlewares/validation.middleware.js';
+import { optionalAuthenticate } from '../middlewares/auth.middleware.js';
 import { createPublicAppointmentSchema } from '../validators/public.validator.js';
 
 const router = express.Router();
@@ -35,6 +36,12 @@ router.get('/clinics/:slug', publicController.getClinicBySlug);
  */
 router.get('/clinics/:slug/doctors', publicController.getClinicDoctors);
 
+/**
+ * GET /api/v1/public/clinics/:slug/treatment-categories
+ * Получить категории лечения клиники (выбор процедуры при записи)
+ */
+router.get('/clinics/:slug/treatment-categories', publicController.getClinicTreatmentCategories);
+
 /**
  * GET /api/v1/public/clinics/:slug/doctors/:doctorId
  * Получить врача по ID
@@ -48,12 +55,24 @@ router.get('/clinics/:slug/doctors/:doctorId', publicController.getClinicDoctor)
  */
 router.get('/clinics/:slug/doctors/:doctorId/busy-slots', publicController.getPublicBusySlots);
 
+/**
+ * GET /api/v1/public/clinics/:slug/doctors/:doctorId/available-slots
+ * Получить свободные слоты врача на дату
+ * Query params: ?date=2025-01-20&treatmentCategoryId=xxx
+ */
+router.get('/clinics/:slug/doctors/:doctorId/available-slots', publicController.getPublicAvailableSlots);
+
 /**
  * POST /api/v1/public/appointments
  * Создать публичную заявку на приём (онлайн-запись)
- * Без авторизации!
+ * Без авторизации! Если запись делает вошедший пациент, новая карточка привязывается к его аккаунту
  */
-router.post('/appointments', validate(createPublicAppointmentSchema), publicController.createAppointment);
+router.post(
+  '/appointments',
+  optionalAuthenticate,
+  validate(createPublicAppointmentSchema),
+  publicController.createAppointment
+);
 
 /**
  * GET /api/v1/public/testimonials/patients
@@ -0,0 +1,47 @@
+import express from 'express';
+import * as resourceController from '../controllers/resource.controller.js';
+import { authenticate, authorize } from '../middlewares/auth.middleware.js';
+import { tenantMiddleware } from '../middlewares/tenant.middleware.js';
+import { validate } from '../middlewares/validation.middleware.js';
+import { createResourceSchema, updateResourceSchema } from '../validators/resource.validator.js';
+
+const router = express.Router();
+
+// Применяем auth и tenant middleware ко всем routes
+router.use(authenticate);
+router.use(tenantMiddleware);
+
+/**
+ * Resource Routes
+ * Маршруты для ресурсов клиники: кабинеты, кресла, оборудование
+ */
+
+/**
+ * GET /api/v1/clinic/resources
+ * Получить ресурсы клиники
+ * Доступ: ADMIN, CLINIC, DOCTOR
+ */
+router.get('/', authorize('ADMIN', 'CLINIC', 'DOCTOR'), resourceController.getResources);
+
+/**
+ * POST /api/v1/clinic/resources
+ * Создать ресурс
+ * Доступ: ADMIN, CLINIC
+ */
+router.post('/', authorize('ADMIN', 'CLINIC'), validate(createResourceSchema), resourceController.createResource);
+
+/**
+ * PUT /api/v1/clinic/resources/:id
+ * Обновить ресурс (в т.ч. деактивировать)
+ * Доступ: ADMIN, CLINIC
+ */
+router.put('/:id', authorize('ADMIN', 'CLINIC'), validate(updateResourceSchema), resourceController.updateResource);
+
+/**
+ * DELETE /api/v1/clinic/resources/:id
+ * Удалить ресурс
+ * Доступ: ADMIN, CLINIC
+ */
+router.delete('/:id', authorize('ADMIN', 'CLINIC'), resourceController.deleteResource);
+
+export default router;
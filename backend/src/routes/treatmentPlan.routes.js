@@ -0,0 +1,106 @@
+import express from 'express';
+import * as treatmentPlanController from '../controllers/treatmentPlan.controller.js';
+import { authenticate, authorize } from '../middlewares/auth.middleware.js';
+import { tenantMiddleware } from '../middlewares/tenant.middleware.js';
+import { validate } from '../middlewares/validation.middleware.js';
+import {
+  createTreatmentPlanSchema,
+  updateTreatmentPlanSchema,
+  updateTreatmentPlanStageSchema,
+} from '../validators/treatmentPlan.validator.js';
+
+const router = express.Router();
+
+// Применяем auth middleware ко всем routes
+router.use(authenticate);
+
+/**
+ * GET /api/v1/treatment-plans/my
+ * Планы лечения текущего пациента (во всех клиниках, кроме черновиков)
+ * Доступ: PATIENT
+ */
+router.get('/my', authorize('PATIENT'), treatmentPlanController.getMy);
+
+/**
+ * GET /api/v1/treatment-plans/my/:id
+ * План лечения текущего пациента (смета)
+ * Доступ: PATIENT
+ */
+router.get('/my/:id', authorize('PATIENT'), treatmentPlanController.getMyById);
+
+/**
+ * POST /api/v1/treatment-plans/my/:id/accept
+ * Принять смету плана лечения
+ * Доступ: PATIENT
+ */
+router.post('/my/:id/accept', authorize('PATIENT'), treatmentPlanController.acceptMy);
+
+// Для остальных routes применяем tenantMiddleware
+router.use(tenantMiddleware);
+
+/**
+ * GET /api/v1/treatment-plans
+ * Получить планы лечения клиники
+ * Доступ: ADMIN, CLINIC, DOCTOR
+ * Query params: ?patientId=xxx&status=accepted
+ */
+router.get('/', authorize('ADMIN', 'CLINIC', 'DOCTOR'), treatmentPlanController.getAll);
+
+/**
+ * GET /api/v1/treatment-plans/:id
+ * Получить план лечения
+ * Доступ: ADMIN, CLINIC, DOCTOR
+ */
+router.get('/:id', authorize('ADMIN', 'CLINIC', 'DOCTOR'), treatmentPlanController.getById);
+
+/**
+ * POST /api/v1/treatment-plans
+ * Создать план лечения
+ * Доступ: ADMIN, CLINIC, DOCTOR
+ */
+router.post(
+  '/',
+  authorize('ADMIN', 'CLINIC', 'DOCTOR'),
+  validate(createTreatmentPlanSchema),
+  treatmentPlanController.create
+);
+
+/**
+ * PUT /api/v1/treatment-plans/:id
+ * Изменить план лечения (этапы заменяются целиком)
+ * Доступ: ADMIN, CLINIC, DOCTOR
+ */
+router.put(
+  '/:id',
+  authorize('ADMIN', 'CLINIC', 'DOCTOR'),
+  validate(updateTreatmentPlanSchema),
+  treatmentPlanController.update
+);
+
+/**
+ * POST /api/v1/treatment-plans/:id/present
+ * Показать план пациенту
+ * Доступ: ADMIN, CLINIC, DOCTOR
+ */
+router.post('/:id/present', authorize('ADMIN', 'CLINIC', 'DOCTOR'), treatmentPlanController.present);
+
+/**
+ * POST /api/v1/treatment-plans/:id/cancel
+ * Отменить план лечения
+ * Доступ: ADMIN, CLINIC, DOCTOR
+ */
+router.post('/:id/cancel', authorize('ADMIN', 'CLINIC', 'DOCTOR'), treatmentPlanController.cancel);
+
+/**
+ * PATCH /api/v1/treatment-plans/:id/stages/:stageId
+ * Изменить статус этапа или назначить его на приём
+ * Доступ: ADMIN, CLINIC, DOCTOR
+ */
+router.patch(
+  '/:id/stages/:stageId',
+  authorize('ADMIN', 'CLINIC', 'DOCTOR'),
+  validate(updateTreatmentPlanStageSchema),
+  treatmentPlanController.updateStage
+);
+
+export default router;
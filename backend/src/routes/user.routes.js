@@ -10,7 +10,7 @@ import {
   updateMyProfileSchema,
   updateMyPasswordSchema
 } from '../validators/user.validator.js';
-import { updateScheduleSchema } from '../validators/doctorSchedule.validator.js';
+import { updateScheduleSchema, scheduleExceptionSchema } from '../validators/doctorSchedule.validator.js';
 import { updateDoctorCategoriesSchema } from '../validators/treatment-category.validator.js';
 import * as treatmentCategoryController from '../controllers/treatment-category.controller.js';
 
@@ -143,6 +143,36 @@ router.put(
   userController.updateDoctorSchedule
 );
 
+/**
+ * GET /api/v1/users/:id/schedule/exceptions
+ * Получить исключения из расписания врача
+ * Доступ: ADMIN, CLINIC
+ */
+router.get('/:id/schedule/exceptions', authorize('ADMIN', 'CLINIC'), userController.getDoctorScheduleExceptions);
+
+/**
+ * PUT /api/v1/users/:id/schedule/exceptions
+ * Создать или обновить исключение на дату (выходной / особые часы)
+ * Доступ: ADMIN, CLINIC
+ */
+router.put(
+  '/:id/schedule/exceptions',
+  authorize('ADMIN', 'CLINIC'),
+  validate(scheduleExceptionSchema),
+  userController.saveDoctorScheduleException
+);
+
+/**
+ * DELETE /api/v1/users/:id/schedule/exceptions/:exceptionId
+ * Удалить исключение из расписания врача
+ * Доступ: ADMIN, CLINIC
+ */
+router.delete(
+  '/:id/schedule/exceptions/:exceptionId',
+  authorize('ADMIN', 'CLINIC'),
+  userController.deleteDoctorScheduleException
+);
+
 /**
  * GET /api/v1/users/:id/treatment-categories
  * Получить категории лечения врача
@@ -0,0 +1,86 @@
+import express from 'express';
+import * as waitlistController from '../controllers/waitlist.controller.js';
+import { authenticate, authorize } from '../middlewares/auth.middleware.js';
+import { tenantMiddleware } from '../middlewares/tenant.middleware.js';
+import { validate } from '../middlewares/validation.middleware.js';
+import { createWaitlistEntrySchema, createMyWaitlistEntrySchema } from '../validators/waitlist.validator.js';
+
+const router = express.Router();
+
+// Применяем auth middleware ко всем routes
+router.use(authenticate);
+
+/**
+ * GET /api/v1/waitlist/my
+ * Лист ожидания текущего пациента (во всех клиниках) с предложениями
+ * Доступ: PATIENT
+ */
+router.get('/my', authorize('PATIENT'), waitlistController.getMy);
+
+/**
+ * POST /api/v1/waitlist/my
+ * Добавить себя в лист ожидания клиники
+ * Доступ: PATIENT
+ */
+router.post('/my', authorize('PATIENT'), validate(createMyWaitlistEntrySchema), waitlistController.createMy);
+
+/**
+ * DELETE /api/v1/waitlist/my/:id
+ * Убрать свою запись из листа ожидания
+ * Доступ: PATIENT
+ */
+router.delete('/my/:id', authorize('PATIENT'), waitlistController.removeMy);
+
+/**
+ * POST /api/v1/waitlist/offers/:offerId/accept
+ * Принять предложение освободившегося времени
+ * Доступ: PATIENT (своё предложение), ADMIN, CLINIC, DOCTOR (от имени пациента)
+ */
+router.post(
+  '/offers/:offerId/accept',
+  authorize('PATIENT', 'ADMIN', 'CLINIC', 'DOCTOR'),
+  waitlistController.acceptOffer
+);
+
+/**
+ * POST /api/v1/waitlist/offers/:offerId/decline
+ * Отклонить предложение освободившегося времени
+ * Доступ: PATIENT (своё предложение), ADMIN, CLINIC, DOCTOR (от имени пациента)
+ */
+router.post(
+  '/offers/:offerId/decline',
+  authorize('PATIENT', 'ADMIN', 'CLINIC', 'DOCTOR'),
+  waitlistController.declineOffer
+);
+
+// Для остальных routes применяем tenantMiddleware
+router.use(tenantMiddleware);
+
+/**
+ * GET /api/v1/waitlist
+ * Получить лист ожидания клиники
+ * Доступ: ADMIN, CLINIC, DOCTOR
+ * Query params: ?status=waiting&doctorId=xxx&patientId=xxx
+ */
+router.get('/', authorize('ADMIN', 'CLINIC', 'DOCTOR'), waitlistController.getAll);
+
+/**
+ * POST /api/v1/waitlist
+ * Добавить пациента в лист ожидания
+ * Доступ: ADMIN, CLINIC, DOCTOR
+ */
+router.post(
+  '/',
+  authorize('ADMIN', 'CLINIC', 'DOCTOR'),
+  validate(createWaitlistEntrySchema),
+  waitlistController.create
+);
+
+/**
+ * DELETE /api/v1/waitlist/:id
+ * Убрать пациента из листа ожидания
+ * Доступ: ADMIN, CLINIC, DOCTOR
+ */
+router.delete('/:id', authorize('ADMIN', 'CLINIC', 'DOCTOR'), waitlistController.remove);
+
+export default router;
@@ -1,6 +1,9 @@
 import app from './app.js';
 import { config } from './config/app.js';
 import { prisma } from './config/database.js';
+import * as reminderJob from './jobs/reminder.job.js';
+import * as deliveryRetryJob from './jobs/deliveryRetry.job.js';
+import * as waitlistJob from './jobs/waitlist.job.js';
 
 /**
  * Start Server
@@ -19,6 +22,11 @@ async function startServer() {
       console.log(`🌍 Environment: ${config.nodeEnv}`);
       console.log(`✅ Health check: http://localhost:${config.port}/health`);
       console.log('');
+
+      // Background jobs
+      reminderJob.start();
+      deliveryRetryJob.start();
+      waitlistJob.start();
     });
   } catch (error) {
     console.error('❌ Failed to start server:', error);
@@ -29,12 +37,18 @@ async function startServer() {
 // Handle graceful shutdown
 process.on('SIGTERM', async () => {
   console.log('⚠️  SIGTERM received, shutting down gracefully...');
+  reminderJob.stop();
+  deliveryRetryJob.stop();
+  waitlistJob.stop();
   await prisma.$disconnect();
   process.exit(0);
 });
 
 process.on('SIGINT', async () => {
   console.log('⚠️  SIGINT received, shutting down gracefully...');
+  reminderJob.stop();
+  deliveryRetryJob.stop();
+  waitlistJob.stop();
   await prisma.$disconnect();
   process.exit(0);
 });
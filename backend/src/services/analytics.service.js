@@ -1,4 +1,13 @@
 import { prisma } from '../config/database.js';
+import { getClinicTimezone } from './clinic.service.js';
+import {
+  getZonedParts,
+  zonedTimeToUtc,
+  addDaysToDateKey,
+  getZonedDayRange,
+  getZonedWeekRange,
+  getWeekStartKey,
+} from '../utils/timezone.util.js';
 
 /**
  * Analytics Service
@@ -7,61 +16,38 @@ import { prisma } from '../config/database.js';
 
 /**
  * Построить where clause для фильтров
+ * Даты фильтров (YYYY-MM-DD) — дни на часах клиники
  * @param {string} clinicId - ID клиники
- * @param {object} filters - Фильтры (doctorId, dateFrom, dateTo, week, category)
+ * @param {object} filters - Фильтры (doctorId, dateFrom, dateTo, week, treatmentCategoryId)
+ * @param {string} timezone - Часовой пояс клиники
  * @returns {object} where clause для Prisma
  */
-function buildWhereClause(clinicId, filters = {}) {
-  const { doctorId, dateFrom, dateTo, week, category } = filters;
+function buildWhereClause(clinicId, filters = {}, timezone) {
+  const { doctorId, dateFrom, dateTo, week, treatmentCategoryId } = filters;
 
   const where = {
     clinicId, // ВСЕГДА фильтруем по clinicId!
   };
 
   if (doctorId) where.doctorId = doctorId;
-  if (category) where.reason = { contains: category };
+  if (treatmentCategoryId) where.treatmentCategoryId = treatmentCategoryId;
 
   // Фильтр по датам
   if (dateFrom || dateTo || week) {
     where.appointmentDate = {};
 
     if (week) {
-      // Формат "YYYY-WW" (ISO week)
-      if (week.includes('-W')) {
-        const [year, weekNum] = week.split('-W').map(Number);
-        const weekStart = getWeekStart(year, weekNum);
-        const weekEnd = new Date(weekStart);
-        weekEnd.setDate(weekEnd.getDate() + 6);
-        weekEnd.setHours(23, 59, 59, 999);
-
-        where.appointmentDate.gte = weekStart;
-        where.appointmentDate.lte = weekEnd;
-      } else {
-        // Формат даты начала недели
-        const weekStart = new Date(week);
-        weekStart.setHours(0, 0, 0, 0);
-        const day = weekStart.getDay();
-        const diff = weekStart.getDate() - day + (day === 0 ? -6 : 1);
-        weekStart.setDate(diff);
-
-        const weekEnd = new Date(weekStart);
-        weekEnd.setDate(weekEnd.getDate() + 6);
-        weekEnd.setHours(23, 59, 59, 999);
-
-        where.appointmentDate.gte = weekStart;
-        where.appointmentDate.lte = weekEnd;
-      }
+      // "YYYY-WW" (ISO неделя) или дата начала недели
+      const weekRange = getZonedWeekRange(week, timezone);
+      where.appointmentDate.gte = weekRange.gte;
+      where.appointmentDate.lt = weekRange.lt;
     } else {
       if (dateFrom) {
-        const startDate = new Date(dateFrom);
-        startDate.setHours(0, 0, 0, 0);
-        where.appointmentDate.gte = startDate;
+        where.appointmentDate.gte = zonedTimeToUtc(dateFrom.slice(0, 10), '00:00', timezone);
       }
 
       if (dateTo) {
-        const endDate = new Date(dateTo);
-        endDate.setHours(23, 59, 59, 999);
-        where.appointmentDate.lte = endDate;
+        where.appointmentDate.lt = getZonedDayRange(dateTo.slice(0, 10), timezone).lt;
       }
     }
   }
@@ -70,27 +56,19 @@ function buildWhereClause(clinicId, filters = {}) {
 }
 
 /**
- * Получить начало недели по ISO году и номеру недели
- * @param {number} year - Год
- * @param {number} week - Номер недели (1-53)
- * @returns {Date} Дата начала недели
+ * Подпись дня графика: DD.MM
+ * @param {string} dateKey - Дата YYYY-MM-DD
+ * @returns {string}
  */
-function getWeekStart(year, week) {
-  const simple = new Date(year, 0, 1 + (week - 1) * 7);
-  const dow = simple.getDay();
-  const ISOweekStart = simple;
-  if (dow <= 4) {
-    ISOweekStart.setDate(simple.getDate() - simple.getDay() + 1);
-  } else {
-    ISOweekStart.setDate(simple.getDate() + 8 - simple.getDay());
-  }
-  return ISOweekStart;
+function formatDayLabel(dateKey) {
+  const [, month, day] = dateKey.split('-');
+  return `${day}.${month}`;
 }
 
 /**
  * Получить общие метрики клиники
  * @param {string} clinicId - ID клиники
- * @param {object} filters - Фильтры (doctorId, dateFrom, dateTo, week, category)
+ * @param {object} filters - Фильтры (doctorId, dateFrom, dateTo, week, treatmentCategoryId)
  * @returns {Promise<object>} Метрики клиники
  */
 export async function getSummary(clinicId, filters = {}) {
@@ -99,7 +77,8 @@ export async function getSummary(clinicId, filters = {}) {
 
   try {
     // Построить where clause для appointments
-    const appointmentWhere = buildWhereClause(clinicId, filters);
+    const timezone = await getClinicTimezone(clinicId);
+    const appointmentWhere = buildWhereClause(clinicId, filters, timezone);
 
     // 1. Общее количество пациентов клиники (уникальные по телефону)
     const allPatients = await prisma.patient.findMany({
@@ -172,7 +151,20 @@ export async function getSummary(clinicId, filters = {}) {
       },
     });
 
-    // 8. Средняя сумма за услугу
+    // 8. Количество неявок (no_show) и их доля среди приёмов с известным исходом (завершённые + неявки)
+    const noShowAppointments = await prisma.appointment.count({
+      where: {
+        ...appointmentWhere,
+        status: 'no_show',
+      },
+    });
+
+    const attendanceOutcomes = noShowAppointments + totalCompletedServices;
+    const noShowRate = attendanceOutcomes > 0
+      ? (noShowAppointments / attendanceOutcomes) * 100
+      : 0;
+
+    // 9. Средняя сумма за услугу
     const averageRevenue = totalCompletedServices > 0
       ? totalRevenue / totalCompletedServices
       : 0;
@@ -185,6 +177,8 @@ export async function getSummary(clinicId, filters = {}) {
       totalAppointments,
       confirmedAppointments,
       cancelledAppointments,
+      noShowAppointments,
+      noShowRate: Math.round(noShowRate * 10) / 10, // Процент неявок (завершённые + неявки)
       averageRevenue: Math.round(averageRevenue * 100) / 100,
     };
 
@@ -200,7 +194,7 @@ export async function getSummary(clinicId, filters = {}) {
 /**
  * Получить данные для графиков
  * @param {string} clinicId - ID клиники
- * @param {object} filters - Фильтры (doctorId, dateFrom, dateTo, week, category)
+ * @param {object} filters - Фильтры (doctorId, dateFrom, dateTo, week, treatmentCategoryId)
  * @param {string} type - Тип графика: 'daily' | 'weekly' | 'monthly' | 'byDoctor' | 'byCategory' | 'byStatus'
  * @returns {Promise<object>} Данные для графика { labels, datasets }
  */
@@ -208,48 +202,34 @@ export async function getChartData(clinicId, filters = {}, type = 'monthly') {
   console.log('📊 [ANALYTICS SERVICE] Получение chart data:', { clinicId, filters, type });
 
   try {
-    const appointmentWhere = buildWhereClause(clinicId, filters);
+    const timezone = await getClinicTimezone(clinicId);
+    const appointmentWhere = buildWhereClause(clinicId, filters, timezone);
+    const todayKey = getZonedParts(new Date(), timezone).dateKey;
 
     let labels = [];
     let datasets = [];
 
     switch (type) {
       case 'daily': {
-        // График по дням (последние 30 дней)
-        const endDate = filters.dateTo ? new Date(filters.dateTo) : new Date();
-        const startDate = filters.dateFrom
-          ? new Date(filters.dateFrom)
-          : new Date(endDate.getTime() - 30 * 24 * 60 * 60 * 1000);
+        // График по дням (последние 30 дней), дни — на часах клиники
+        const endKey = filters.dateTo ? filters.dateTo.slice(0, 10) : todayKey;
+        const startKey = filters.dateFrom ? filters.dateFrom.slice(0, 10) : addDaysToDateKey(endKey, -30);
 
         // Генерируем массив дат
-        const dates = [];
-        const currentDate = new Date(startDate);
-        while (currentDate <= endDate) {
-          dates.push(new Date(currentDate));
-          currentDate.setDate(currentDate.getDate() + 1);
+        const dateKeys = [];
+        for (let key = startKey; key <= endKey; key = addDaysToDateKey(key, 1)) {
+          dateKeys.push(key);
         }
 
-        labels = dates.map(date => {
-          const day = String(date.getDate()).padStart(2, '0');
-          const month = String(date.getMonth() + 1).padStart(2, '0');
-          return `${day}.${month}`;
-        });
+        labels = dateKeys.map(formatDayLabel);
 
         // Получаем данные по дням
         const appointmentsByDay = await Promise.all(
-          dates.map(async (date) => {
-            const dayStart = new Date(date);
-            dayStart.setHours(0, 0, 0, 0);
-            const dayEnd = new Date(date);
-            dayEnd.setHours(23, 59, 59, 999);
-
+          dateKeys.map(async (dateKey) => {
             const count = await prisma.appointment.count({
               where: {
                 ...appointmentWhere,
-                appointmentDate: {
-                  gte: dayStart,
-                  lte: dayEnd,
-                },
+                appointmentDate: getZonedDayRange(dateKey, timezone),
               },
             });
 
@@ -270,39 +250,26 @@ export async function getChartData(clinicId, filters = {}, type = 'monthly') {
       }
 
       case 'weekly': {
-        // График по неделям (последние 12 недель)
-        const endDate = filters.dateTo ? new Date(filters.dateTo) : new Date();
+        // График по неделям (последние 12 недель, с понедельника)
+        const endKey = filters.dateTo ? filters.dateTo.slice(0, 10) : todayKey;
         const weeks = [];
 
         for (let i = 11; i >= 0; i--) {
-          const weekDate = new Date(endDate);
-          weekDate.setDate(weekDate.getDate() - i * 7);
-          const weekStart = new Date(weekDate);
-          weekStart.setDate(weekStart.getDate() - weekStart.getDay() + 1);
-          weekStart.setHours(0, 0, 0, 0);
-          const weekEnd = new Date(weekStart);
-          weekEnd.setDate(weekEnd.getDate() + 6);
-          weekEnd.setHours(23, 59, 59, 999);
-
-          weeks.push({ start: weekStart, end: weekEnd });
+          weeks.push(getWeekStartKey(addDaysToDateKey(endKey, -i * 7)));
         }
 
-        labels = weeks.map((week, index) => {
+        labels = weeks.map((weekStartKey, index) => {
           const weekNum = 12 - index;
-          const day = String(week.start.getDate()).padStart(2, '0');
-          const month = String(week.start.getMonth() + 1).padStart(2, '0');
-          return `Неделя ${weekNum} (${day}.${month})`;
+          return `Неделя ${weekNum} (${formatDayLabel(weekStartKey)})`;
         });
 
         const appointmentsByWeek = await Promise.all(
-          weeks.map(async (week) => {
+          weeks.map(async (weekStartKey) => {
+            const weekRange = getZonedWeekRange(weekStartKey, timezone);
             const count = await prisma.appointment.count({
               where: {
                 ...appointmentWhere,
-                appointmentDate: {
-                  gte: week.start,
-                  lte: week.end,
-                },
+                appointmentDate: { gte: weekRange.gte, lt: weekRange.lt },
               },
             });
 
@@ -323,31 +290,33 @@ export async function getChartData(clinicId, filters = {}, type = 'monthly') {
       }
 
       case 'monthly': {
-        // График по месяцам (последние 12 месяцев)
-        const endDate = filters.dateTo ? new Date(filters.dateTo) : new Date();
+        // График по месяцам (последние 12 месяцев), границы месяцев — на часах клиники
+        const [endYear, endMonth] = (filters.dateTo ? filters.dateTo.slice(0, 10) : todayKey).split('-').map(Number);
         const months = [];
 
         for (let i = 11; i >= 0; i--) {
-          const monthDate = new Date(endDate.getFullYear(), endDate.getMonth() - i, 1);
-          months.push(new Date(monthDate));
+          // Date.UTC нормализует месяц вне диапазона 0-11 (переход через год)
+          const monthDate = new Date(Date.UTC(endYear, endMonth - 1 - i, 1));
+          months.push({ year: monthDate.getUTCFullYear(), month: monthDate.getUTCMonth() + 1 });
         }
 
-        labels = months.map(date => {
+        labels = months.map(({ month }) => {
           const monthNames = ['Янв', 'Фев', 'Мар', 'Апр', 'Май', 'Июн', 'Июл', 'Авг', 'Сен', 'Окт', 'Ноя', 'Дек'];
-          return monthNames[date.getMonth()];
+          return monthNames[month - 1];
         });
 
+        const toMonthKey = (year, month) => `${year}-${String(month).padStart(2, '0')}-01`;
+
         const appointmentsByMonth = await Promise.all(
-          months.map(async (monthDate) => {
-            const monthStart = new Date(monthDate.getFullYear(), monthDate.getMonth(), 1);
-            const monthEnd = new Date(monthDate.getFullYear(), monthDate.getMonth() + 1, 0, 23, 59, 59, 999);
+          months.map(async ({ year, month }) => {
+            const nextMonth = month === 12 ? { year: year + 1, month: 1 } : { year, month: month + 1 };
 
             const count = await prisma.appointment.count({
               where: {
                 ...appointmentWhere,
                 appointmentDate: {
-                  gte: monthStart,
-                  lte: monthEnd,
+                  gte: zonedTimeToUtc(toMonthKey(year, month), '00:00', timezone),
+                  lt: zonedTimeToUtc(toMonthKey(nextMonth.year, nextMonth.month), '00:00', timezone),
                 },
               },
             });
@@ -412,16 +381,16 @@ export async function getChartData(clinicId, filters = {}, type = 'monthly') {
       }
 
       case 'byCategory': {
-        // График по категориям (reason)
+        // График по категориям лечения
         const appointments = await prisma.appointment.findMany({
           where: appointmentWhere,
-          select: { reason: true },
+          select: { treatmentCategory: { select: { name: true } } },
         });
 
-        // Группируем по reason
+        // Группируем по категории (приёмы без категории — отдельной группой)
         const categoryCounts = {};
         appointments.forEach(apt => {
-          const category = apt.reason || 'Без категории';
+          const category = apt.treatmentCategory?.name || 'Без категории';
           categoryCounts[category] = (categoryCounts[category] || 0) + 1;
         });
 
@@ -447,9 +416,9 @@ export async function getChartData(clinicId, filters = {}, type = 'monthly') {
 
       case 'byStatus': {
         // График по статусам (pie chart)
-        const statuses = ['pending', 'confirmed', 'completed', 'cancelled'];
+        const statuses = ['pending', 'confirmed', 'arrived', 'in_progress', 'completed', 'cancelled', 'no_show'];
 
-        labels = ['Ожидает', 'Подтверждено', 'Завершено', 'Отменено'];
+        labels = ['Ожидает', 'Подтверждено', 'Пришёл', 'На приёме', 'Завершено', 'Отменено', 'Не пришёл'];
 
         const appointmentsByStatus = await Promise.all(
           statuses.map(async (status) => {
@@ -471,8 +440,11 @@ export async function getChartData(clinicId, filters = {}, type = 'monthly') {
             backgroundColor: [
               'rgba(251, 146, 60, 0.8)',  // pending - orange
               'rgba(59, 130, 246, 0.8)',  // confirmed - blue
+              'rgba(14, 165, 233, 0.8)',  // arrived - sky
+              'rgba(147, 51, 234, 0.8)',  // in_progress - purple
               'rgba(34, 197, 94, 0.8)',   // completed - green
               'rgba(239, 68, 68, 0.8)',   // cancelled - red
+              'rgba(107, 114, 128, 0.8)', // no_show - gray
             ],
           },
         ];
@@ -500,7 +472,7 @@ export async function getChartData(clinicId, filters = {}, type = 'monthly') {
 /**
  * Получить детальные данные для таблицы
  * @param {string} clinicId - ID клиники
- * @param {object} filters - Фильтры (doctorId, dateFrom, dateTo, week, category)
+ * @param {object} filters - Фильтры (doctorId, dateFrom, dateTo, week, treatmentCategoryId)
  * @param {object} options - Опции (page, limit, sortBy, sortOrder)
  * @returns {Promise<object>} { appointments, meta }
  */
@@ -511,7 +483,8 @@ export async function getAnalyticsTable(clinicId, filters = {}, options = {}) {
     const { page = 1, limit = 20, sortBy = 'appointmentDate', sortOrder = 'desc' } = options;
     const skip = (page - 1) * limit;
 
-    const appointmentWhere = buildWhereClause(clinicId, filters);
+    const timezone = await getClinicTimezone(clinicId);
+    const appointmentWhere = buildWhereClause(clinicId, filters, timezone);
 
     const [appointments, total] = await Promise.all([
       prisma.appointment.findMany({
@@ -523,6 +496,9 @@ export async function getAnalyticsTable(clinicId, filters = {}, options = {}) {
           patient: {
             select: { id: true, name: true, phone: true },
           },
+          treatmentCategory: {
+            select: { id: true, name: true, color: true },
+          },
         },
         orderBy: { [sortBy]: sortOrder },
         take: limit,
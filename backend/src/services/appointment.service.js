@@ -1,47 +1,71 @@
 import { prisma } from '../config/database.js';
+import * as doctorScheduleService from './doctorSchedule.service.js';
+import * as resourceService from './resource.service.js';
+import * as bufferService from './appointmentBuffer.service.js';
+import { resolveAppointmentCategory } from './treatment-category.service.js';
+import { getClinicTimezone } from './clinic.service.js';
+import {
+  resolveTimezone,
+  zonedTimeToUtc,
+  getZonedParts,
+  addDaysToDateKey,
+  getZonedDayRange,
+  getZonedWeekRange,
+} from '../utils/timezone.util.js';
 
 /**
  * Appointment Service
  * Бизнес-логика для работы с приёмами
  */
 
+/**
+ * Ресурсы приёма (кресла, кабинеты, оборудование) для include
+ */
+const RESOURCES_INCLUDE = {
+  include: {
+    resource: {
+      select: {
+        id: true,
+        name: true,
+        type: true,
+      },
+    },
+  },
+};
+
+/**
+ * Категория лечения приёма для include (название и цвет для календаря)
+ */
+const TREATMENT_CATEGORY_INCLUDE = {
+  select: {
+    id: true,
+    name: true,
+    color: true,
+  },
+};
+
 /**
  * State Machine для статусов
  * Определяет разрешенные переходы между статусами
  */
 const STATUS_TRANSITIONS = {
-  pending: ['confirmed', 'cancelled'],
-  confirmed: ['completed', 'cancelled'],
+  pending: ['confirmed', 'cancelled', 'no_show'],
+  confirmed: ['arrived', 'completed', 'cancelled', 'no_show'],
+  arrived: ['in_progress', 'completed', 'cancelled'], // Пациент в клинике (в зале ожидания)
+  in_progress: ['completed'], // Пациент на приёме у врача
   completed: [], // Финальный статус
   cancelled: [], // Финальный статус
+  no_show: [], // Финальный статус: пациент не пришёл
 };
 
-/**
- * Получить начало недели по ISO номеру недели
- * @param {number} year - Год
- * @param {number} week - Номер недели (1-53)
- * @returns {Date} Дата начала недели (понедельник)
- */
-function getWeekStart(year, week) {
-  const simple = new Date(year, 0, 1 + (week - 1) * 7);
-  const dow = simple.getDay();
-  const ISOweekStart = simple;
-  if (dow <= 4) {
-    ISOweekStart.setDate(simple.getDate() - simple.getDay() + 1);
-  } else {
-    ISOweekStart.setDate(simple.getDate() + 8 - simple.getDay());
-  }
-  return ISOweekStart;
-}
-
 /**
  * Получить все приёмы клиники
  * @param {string} clinicId - ID клиники
- * @param {object} options - Опции (doctorId, patientId, status, date, time, week, category, page, limit)
+ * @param {object} options - Опции (doctorId, patientId, status, date, time, week, treatmentCategoryId, resourceId, page, limit)
  * @returns {Promise<object>} { appointments, meta }
  */
 export async function findAll(clinicId, options = {}) {
-  const { doctorId, patientId, status, date, time, week, category, page = 1, limit = 20 } = options;
+  const { doctorId, patientId, status, date, time, week, treatmentCategoryId, resourceId, page = 1, limit = 20 } = options;
   const skip = (page - 1) * limit;
 
   // Построение where clause
@@ -52,88 +76,47 @@ export async function findAll(clinicId, options = {}) {
   if (doctorId) where.doctorId = doctorId;
   if (patientId) where.patientId = patientId;
   if (status) where.status = status;
+  if (resourceId) where.resources = { some: { resourceId } };
+  if (treatmentCategoryId) where.treatmentCategoryId = treatmentCategoryId;
+
+  // Дни, недели и время фильтров — на часах клиники, а не сервера или браузера
+  if (date || week || time) {
+    const timezone = await getClinicTimezone(clinicId);
+
+    // Первый и последний день диапазона (YYYY-MM-DD)
+    let startKey = null;
+    let endKey = null;
+
+    // Фильтр по дате (весь день)
+    if (date) {
+      startKey = date.slice(0, 10);
+      endKey = startKey;
+      where.appointmentDate = getZonedDayRange(startKey, timezone);
+    }
 
-  // Фильтр по категории (reason) - для SQLite используем contains
-  if (category) {
-    where.reason = {
-      contains: category,
-    };
-  }
-
-  // Фильтр по дате (весь день)
-  if (date) {
-    const startOfDay = new Date(date);
-    startOfDay.setHours(0, 0, 0, 0);
-    const endOfDay = new Date(date);
-    endOfDay.setHours(23, 59, 59, 999);
-
-    where.appointmentDate = {
-      gte: startOfDay,
-      lte: endOfDay,
-    };
-  }
-
-  // Фильтр по неделе
-  if (week) {
-    // week может быть в формате "YYYY-WW" или датой начала недели
-    let weekStart, weekEnd;
-    
-    if (week.includes('-W')) {
-      // Формат "YYYY-WW" (ISO week)
-      const [year, weekNum] = week.split('-W').map(Number);
-      weekStart = getWeekStart(year, weekNum);
-      weekEnd = new Date(weekStart);
-      weekEnd.setDate(weekEnd.getDate() + 6);
-      weekEnd.setHours(23, 59, 59, 999);
-    } else {
-      // Формат даты начала недели
-      weekStart = new Date(week);
-      weekStart.setHours(0, 0, 0, 0);
-      // Устанавливаем на понедельник
-      const day = weekStart.getDay();
-      const diff = weekStart.getDate() - day + (day === 0 ? -6 : 1);
-      weekStart.setDate(diff);
-      
-      weekEnd = new Date(weekStart);
-      weekEnd.setDate(weekEnd.getDate() + 6);
-      weekEnd.setHours(23, 59, 59, 999);
+    // Фильтр по неделе: "YYYY-Www" (ISO неделя) или дата внутри недели
+    if (week) {
+      const weekRange = getZonedWeekRange(week, timezone);
+      startKey = weekRange.startKey;
+      endKey = weekRange.endKey;
+      where.appointmentDate = { gte: weekRange.gte, lt: weekRange.lt };
     }
 
-    where.appointmentDate = {
-      gte: weekStart,
-      lte: weekEnd,
-    };
-  }
+    // Фильтр по времени (час) уточняет диапазон: с HH:MM первого дня до конца часа последнего дня
+    // Без даты и недели — на сегодня
+    if (time) {
+      // time может быть в формате "HH" или "HH:MM"
+      const [hours, minutes = 0] = time.split(':').map(Number);
+      const pad = value => String(value).padStart(2, '0');
 
-  // Фильтр по времени (часы) - применяется после фильтра по дате/неделе
-  // Для SQLite фильтруем через Prisma, который поддерживает фильтрацию по времени в дате
-  if (time) {
-    // time может быть в формате "HH" или "HH:MM"
-    const [hours, minutes = 0] = time.split(':').map(Number);
-    
-    // Если уже есть фильтр по дате/неделе, уточняем его временем
-    if (where.appointmentDate) {
-      const existingGte = where.appointmentDate.gte;
-      const existingLte = where.appointmentDate.lte;
-      
-      // Устанавливаем время начала и конца для фильтра
-      if (existingGte) {
-        existingGte.setHours(hours, minutes, 0, 0);
-      }
-      if (existingLte) {
-        // Для фильтра по времени устанавливаем конец часа
-        existingLte.setHours(hours, 59, 59, 999);
+      if (!startKey) {
+        startKey = getZonedParts(new Date(), timezone).dateKey;
+        endKey = startKey;
       }
-    } else {
-      // Если нет фильтра по дате, создаем фильтр только по времени (сегодня)
-      const today = new Date();
-      today.setHours(hours, minutes, 0, 0);
-      const todayEnd = new Date(today);
-      todayEnd.setHours(hours, 59, 59, 999);
-      
+
       where.appointmentDate = {
-        gte: today,
-        lte: todayEnd,
+        gte: zonedTimeToUtc(startKey, `${pad(hours)}:${pad(minutes)}`, timezone),
+        lt: new Date(zonedTimeToUtc(endKey, `${pad(hours)}:00`, timezone).getTime() + 60 * 60000),
       };
     }
   }
@@ -160,6 +143,8 @@ export async function findAll(clinicId, options = {}) {
             avatar: true,
           },
         },
+        treatmentCategory: TREATMENT_CATEGORY_INCLUDE,
+        resources: RESOURCES_INCLUDE,
       },
       orderBy: { appointmentDate: 'asc' },
       take: limit,
@@ -169,7 +154,8 @@ export async function findAll(clinicId, options = {}) {
   ]);
 
   return {
-    appointments,
+    // Буферы до/после нужны календарю, чтобы показать время подготовки и стерилизации
+    appointments: await bufferService.attachBuffers(clinicId, appointments),
     meta: {
       total,
       page,
@@ -213,6 +199,8 @@ export async function findById(clinicId, appointmentId) {
           avatar: true,
         },
       },
+      treatmentCategory: TREATMENT_CATEGORY_INCLUDE,
+      resources: RESOURCES_INCLUDE,
     },
   });
 
@@ -229,44 +217,58 @@ export async function findById(clinicId, appointmentId) {
  * @param {string} doctorId - ID врача
  * @param {Date} appointmentDate - Дата и время
  * @param {number} duration - Длительность (минуты)
- * @param {string} excludeAppointmentId - ID приёма для исключения (при обновлении)
+ * @param {string|string[]} excludeAppointmentId - ID приёма (или приёмов серии) для исключения (при обновлении)
+ * @param {object} client - Prisma client или транзакция (для проверки внутри $transaction)
+ * @param {object} bufferSource - { treatmentCategoryId } нового приёма — по категории определяются его буферы
  * @returns {Promise<boolean>} true если время доступно
  */
-async function checkTimeSlotAvailability(
+export async function checkTimeSlotAvailability(
   clinicId,
   doctorId,
   appointmentDate,
   duration,
-  excludeAppointmentId = null
+  excludeAppointmentId = null,
+  client = prisma,
+  bufferSource = {}
 ) {
-  const startTime = new Date(appointmentDate);
-  const endTime = new Date(startTime.getTime() + duration * 60000);
+  // Приёмы сравниваются вместе с буферами (подготовка до и уборка / стерилизация после)
+  const bufferRules = await bufferService.getBufferRules(clinicId, client);
+  const { start: startTime, end: endTime } = bufferService.getOccupiedInterval(
+    appointmentDate,
+    duration,
+    bufferService.resolveBuffers(bufferRules, bufferSource)
+  );
 
   // Ищем конфликтующие приёмы
   // Приём конфликтует, если два интервала пересекаются
   // Два интервала пересекаются, если: startTime < existingEnd && endTime > existingStart
   // Для оптимизации запроса находим все приёмы, которые могут пересекаться:
-  // - Начало существующего приёма < конец нашего слота (такие приёмы могут пересекаться)
+  // - Начало существующего приёма (без буфера до) < конец нашего слота
   const where = {
     clinicId,
     doctorId,
     status: { notIn: ['cancelled'] }, // Игнорируем отмененные
     appointmentDate: {
-      lt: endTime, // Начало существующего приёма < конец нашего слота
+      lt: new Date(endTime.getTime() + bufferService.MAX_BUFFER_MINUTES * 60000),
     },
   };
 
   // Исключаем текущий приём (при обновлении)
-  if (excludeAppointmentId) {
+  if (Array.isArray(excludeAppointmentId)) {
+    where.id = { notIn: excludeAppointmentId };
+  } else if (excludeAppointmentId) {
     where.id = { not: excludeAppointmentId };
   }
 
-  const conflicting = await prisma.appointment.findMany({ where });
+  const conflicting = await client.appointment.findMany({ where });
 
   // Проверяем пересечения более точно
   for (const existing of conflicting) {
-    const existingStart = new Date(existing.appointmentDate);
-    const existingEnd = new Date(existingStart.getTime() + existing.duration * 60000);
+    const { start: existingStart, end: existingEnd } = bufferService.getOccupiedInterval(
+      existing.appointmentDate,
+      existing.duration,
+      bufferService.resolveBuffers(bufferRules, existing)
+    );
 
     // Проверка пересечения интервалов: два интервала пересекаются, если
     // начало первого < конец второго И конец первого > начало второго
@@ -285,6 +287,41 @@ async function checkTimeSlotAvailability(
   return true;
 }
 
+/**
+ * Убедиться, что ресурсы приёма (кресла, кабинеты, оборудование) свободны в указанное время
+ * @param {string} clinicId - ID клиники
+ * @param {Array<string>} resourceIds - ID ресурсов
+ * @param {Date} appointmentDate - Дата и время
+ * @param {number} duration - Длительность (минуты)
+ * @param {string|string[]} excludeAppointmentId - ID приёма (или приёмов) для исключения (при обновлении)
+ * @param {object} client - Prisma client или транзакция
+ * @param {object} bufferSource - { treatmentCategoryId } приёма — по категории определяются его буферы
+ */
+export async function assertResourcesAvailable(
+  clinicId,
+  resourceIds,
+  appointmentDate,
+  duration,
+  excludeAppointmentId = null,
+  client = prisma,
+  bufferSource = {}
+) {
+  const conflict = await resourceService.findResourceConflict(
+    clinicId,
+    resourceIds,
+    appointmentDate,
+    duration,
+    excludeAppointmentId,
+    client,
+    bufferSource
+  );
+
+  if (conflict) {
+    console.log(`❌ [CHECK AVAILABILITY] Ресурс ${conflict.resource.name} занят приёмом ${conflict.appointmentId}`);
+    throw new Error(`Time slot is not available. Resource "${conflict.resource.name}" is already booked at this time.`);
+  }
+}
+
 /**
  * Создать приём
  * @param {string} clinicId - ID клиники
@@ -318,18 +355,48 @@ export async function create(clinicId, data) {
     throw new Error('Patient not found');
   }
 
+  // Категория лечения должна принадлежать клинике (по ней — буферы, цвет в календаре и аналитика)
+  const category = await resolveAppointmentCategory(clinicId, data.treatmentCategoryId);
+  const bufferSource = { treatmentCategoryId: category?.id };
+
   // Проверяем доступность времени
   const isAvailable = await checkTimeSlotAvailability(
     clinicId,
     data.doctorId,
     data.appointmentDate,
-    data.duration || 30
+    data.duration || 30,
+    null,
+    prisma,
+    bufferSource
   );
 
   if (!isAvailable) {
     throw new Error('Time slot is not available. Doctor has another appointment at this time.');
   }
 
+  // Проверяем расписание врача: рабочие часы, перерывы и исключения (выходной / особые часы на дату)
+  const scheduleConflict = await doctorScheduleService.findScheduleConflict(
+    data.doctorId,
+    data.appointmentDate,
+    data.duration || 30
+  );
+
+  if (scheduleConflict) {
+    throw new Error(`Time slot is not available. Doctor is not working at this time (${scheduleConflict.reason}).`);
+  }
+
+  // Проверяем, что выбранные кресла / кабинеты / оборудование свободны
+  const resourceIds = await resourceService.validateResourceIds(clinicId, data.resourceIds);
+  await assertResourcesAvailable(
+    clinicId,
+    resourceIds,
+    data.appointmentDate,
+    data.duration || 30,
+    null,
+    prisma,
+    bufferSource
+  );
+
   // Преобразуем registeredAt в Date, если оно передано как строка
   // Сохраняем исходную строку для правильного отображения локального времени клиента
   let registeredAtDate = null;
@@ -383,10 +450,14 @@ export async function create(clinicId, data) {
       appointmentDate: data.appointmentDate,
       duration: data.duration || 30,
       status: 'pending',
-      reason: data.reason || null,
+      reason: data.reason || category?.name || null,
+      treatmentCategoryId: category?.id || null,
       amount: data.amount || null,
       notes: notes,
       registeredAt: registeredAtDate, // Локальное время регистрации от пользователя (в UTC)
+      resources: {
+        create: resourceIds.map(resourceId => ({ resourceId })),
+      },
     },
     include: {
       doctor: {
@@ -404,23 +475,29 @@ export async function create(clinicId, data) {
           avatar: true,
         },
       },
+      treatmentCategory: TREATMENT_CATEGORY_INCLUDE,
+      resources: RESOURCES_INCLUDE,
     },
   });
 
   // Создаем уведомления для врача и администратора о новой записи
   try {
     const { createForDoctor, createForAdmin } = await import('./notification.service.js');
+    const timezone = await getClinicTimezone(clinicId);
     const appointmentDate = new Date(appointment.appointmentDate);
     const formattedDate = appointmentDate.toLocaleDateString('ru-RU', {
+      timeZone: timezone,
       day: '2-digit',
       month: '2-digit',
       year: 'numeric',
     });
     const formattedTime = appointmentDate.toLocaleTimeString('ru-RU', {
+      timeZone: timezone,
       hour: '2-digit',
       minute: '2-digit',
     });
     const formattedDateTime = appointmentDate.toLocaleString('ru-RU', {
+      timeZone: timezone,
       year: 'numeric',
       month: 'long',
       day: 'numeric',
@@ -520,8 +597,54 @@ export async function update(clinicId, appointmentId, data) {
     throw new Error('Cannot update cancelled appointment');
   }
 
+  // Неявка — финальный статус: пропущенный приём не переносится и не меняется
+  if (appointment.status === 'no_show') {
+    throw new Error('Appointment status is invalid: a missed (no-show) appointment cannot be updated');
+  }
+
+  // Ресурсы обновляются отдельно от остальных полей (связь приём-ресурс)
+  const { resourceIds: requestedResourceIds, ...fields } = data;
+  data = fields;
+
+  // Категория лечения должна принадлежать клинике (пустое значение — снять категорию)
+  if (data.treatmentCategoryId !== undefined) {
+    const category = await resolveAppointmentCategory(clinicId, data.treatmentCategoryId);
+    data.treatmentCategoryId = category?.id || null;
+  }
+
+  // Буферы зависят от категории лечения, поэтому её смена тоже требует проверки пересечений
+  const bufferSource = {
+    treatmentCategoryId: data.treatmentCategoryId !== undefined ? data.treatmentCategoryId : appointment.treatmentCategoryId,
+  };
+  const isCategoryChanged =
+    data.treatmentCategoryId !== undefined && data.treatmentCategoryId !== appointment.treatmentCategoryId;
+
+  // Если меняется время или набор ресурсов, проверяем, что ресурсы свободны
+  if (requestedResourceIds !== undefined || data.appointmentDate || data.duration || isCategoryChanged) {
+    const resourceIds = requestedResourceIds !== undefined
+      ? await resourceService.validateResourceIds(clinicId, requestedResourceIds)
+      : appointment.resources.map(item => item.resourceId);
+
+    await assertResourcesAvailable(
+      clinicId,
+      resourceIds,
+      data.appointmentDate || appointment.appointmentDate,
+      data.duration || appointment.duration,
+      appointmentId,
+      prisma,
+      bufferSource
+    );
+
+    if (requestedResourceIds !== undefined) {
+      data.resources = {
+        deleteMany: {},
+        create: resourceIds.map(resourceId => ({ resourceId })),
+      };
+    }
+  }
+
   // Если обновляется время/врач, проверяем доступность
-  if (data.doctorId || data.appointmentDate || data.duration) {
+  if (data.doctorId || data.appointmentDate || data.duration || isCategoryChanged) {
     const doctorId = data.doctorId || appointment.doctorId;
     const appointmentDate = data.appointmentDate || appointment.appointmentDate;
     const duration = data.duration || appointment.duration;
@@ -531,12 +654,24 @@ export async function update(clinicId, appointmentId, data) {
       doctorId,
       appointmentDate,
       duration,
-      appointmentId
+      appointmentId,
+      prisma,
+      bufferSource
     );
 
     if (!isAvailable) {
       throw new Error('Time slot is not available');
     }
+
+    const scheduleConflict = await doctorScheduleService.findScheduleConflict(
+      doctorId,
+      appointmentDate,
+      duration
+    );
+
+    if (scheduleConflict) {
+      throw new Error(`Time slot is not available. Doctor is not working at this time (${scheduleConflict.reason}).`);
+    }
   }
 
   // Обновляем
@@ -559,9 +694,122 @@ export async function update(clinicId, appointmentId, data) {
           avatar: true,
         },
       },
+      treatmentCategory: TREATMENT_CATEGORY_INCLUDE,
+      resources: RESOURCES_INCLUDE,
+    },
+  });
+
+  return updated;
+}
+
+/**
+ * Перенести приём на другое время и/или изменить длительность (drag-and-drop в календаре)
+ * Проверяет рабочие часы и перерывы врача, исключения из расписания и пересечения с другими приёмами
+ * @param {string} clinicId - ID клиники
+ * @param {string} appointmentId - ID приёма
+ * @param {object} data - { appointmentDate, duration }
+ * @returns {Promise<object>} Обновленный приём
+ */
+export async function reschedule(clinicId, appointmentId, data) {
+  const appointment = await findById(clinicId, appointmentId);
+
+  if (!['pending', 'confirmed'].includes(appointment.status)) {
+    throw new Error('Appointment status is invalid for rescheduling: only pending or confirmed appointments can be moved');
+  }
+
+  if (!appointment.doctorId) {
+    throw new Error('Doctor not found or inactive');
+  }
+
+  const appointmentDate = data.appointmentDate ? new Date(data.appointmentDate) : new Date(appointment.appointmentDate);
+  const duration = data.duration || appointment.duration;
+
+  if (appointmentDate <= new Date()) {
+    throw new Error('Appointment date is invalid: it must be in the future');
+  }
+
+  const scheduleConflict = await doctorScheduleService.findScheduleConflict(appointment.doctorId, appointmentDate, duration);
+
+  if (scheduleConflict) {
+    throw new Error(`Time slot is not available. Doctor is not working at this time (${scheduleConflict.reason}).`);
+  }
+
+  const isAvailable = await checkTimeSlotAvailability(
+    clinicId,
+    appointment.doctorId,
+    appointmentDate,
+    duration,
+    appointmentId,
+    prisma,
+    { treatmentCategoryId: appointment.treatmentCategoryId }
+  );
+
+  if (!isAvailable) {
+    throw new Error('Time slot is not available. Doctor has another appointment at this time.');
+  }
+
+  await assertResourcesAvailable(
+    clinicId,
+    appointment.resources.map(item => item.resourceId),
+    appointmentDate,
+    duration,
+    appointmentId,
+    prisma,
+    { treatmentCategoryId: appointment.treatmentCategoryId }
+  );
+
+  const updated = await prisma.appointment.update({
+    where: { id: appointmentId },
+    data: { appointmentDate, duration },
+    include: {
+      doctor: {
+        select: {
+          id: true,
+          name: true,
+          specialization: true,
+        },
+      },
+      patient: {
+        select: {
+          id: true,
+          name: true,
+          phone: true,
+          avatar: true,
+        },
+      },
+      treatmentCategory: TREATMENT_CATEGORY_INCLUDE,
+      resources: RESOURCES_INCLUDE,
     },
   });
 
+  console.log(`✅ [APPOINTMENT] Приём ${appointmentId} перенесён на ${appointmentDate.toISOString()} (${duration} мин)`);
+
+  // Уведомляем пациента, только если изменилось время начала
+  if (appointmentDate.getTime() !== new Date(appointment.appointmentDate).getTime()) {
+    try {
+      const { create } = await import('./notification.service.js');
+      const timezone = await getClinicTimezone(clinicId);
+      const formattedDate = appointmentDate.toLocaleString('ru-RU', {
+        timeZone: timezone,
+        year: 'numeric',
+        month: 'long',
+        day: 'numeric',
+        hour: '2-digit',
+        minute: '2-digit',
+      });
+
+      await create(clinicId, appointment.patient.id, {
+        type: 'reschedule',
+        title: 'Приём перенесён',
+        message: `Ваш приём перенесён на ${formattedDate}.`,
+        appointmentId,
+      });
+    } catch (error) {
+      // Логируем ошибку, но не прерываем перенос
+      console.error('❌ [NOTIFICATION] Ошибка создания уведомления о переносе:', error);
+    }
+  }
+
   return updated;
 }
 
@@ -612,6 +860,11 @@ export async function updateStatus(
     throw new Error('Only admin, clinic or doctor can mark appointment as completed');
   }
 
+  // Неявку можно отметить только после начала приёма
+  if (newStatus === 'no_show' && new Date(appointment.appointmentDate) > new Date()) {
+    throw new Error('No-show status is invalid before the appointment start time');
+  }
+
   // Валидация: при отмене обязательно должна быть указана причина
   if (newStatus === 'cancelled' && !cancellationReason) {
     throw new Error('Cancellation reason is required when cancelling an appointment');
@@ -642,6 +895,7 @@ export async function updateStatus(
   if (currentStatus === 'cancelled' && newStatus !== 'cancelled') {
     updateData.cancellationReason = null;
     updateData.suggestedNewDate = null;
+    updateData.suggestionStatus = null;
   }
 
   // Если отменяем, сохраняем причину и предложенное новое время
@@ -651,6 +905,7 @@ export async function updateStatus(
       updateData.suggestedNewDate = suggestedNewDate instanceof Date 
         ? suggestedNewDate 
         : new Date(suggestedNewDate);
+      updateData.suggestionStatus = 'pending'; // Ждём ответа пациента
     }
   }
 
@@ -690,9 +945,11 @@ export async function updateStatus(
     try {
       const { create } = await import('./notification.service.js');
       
-      // Формируем сообщение уведомления
+      // Формируем сообщение уведомления (время на часах клиники)
+      const timezone = await getClinicTimezone(clinicId);
       const appointmentDate = new Date(appointment.appointmentDate);
       const formattedDate = appointmentDate.toLocaleString('ru-RU', {
+        timeZone: timezone,
         year: 'numeric',
         month: 'long',
         day: 'numeric',
@@ -705,13 +962,14 @@ export async function updateStatus(
       if (suggestedNewDate) {
         const suggestedDate = new Date(suggestedNewDate);
         const formattedSuggestedDate = suggestedDate.toLocaleString('ru-RU', {
+          timeZone: timezone,
           year: 'numeric',
           month: 'long',
           day: 'numeric',
           hour: '2-digit',
           minute: '2-digit',
         });
-        message += `\n\nПредложенное новое время: ${formattedSuggestedDate}`;
+        message += `\n\nПредложенное новое время: ${formattedSuggestedDate}. Вы можете принять или отклонить его в разделе «Мои записи».`;
       }
 
       await create(clinicId, appointment.patient.id, {
@@ -726,17 +984,256 @@ export async function updateStatus(
       // Логируем ошибку, но не прерываем процесс отмены
       console.error(`❌ [NOTIFICATION] Ошибка создания уведомления об отмене:`, error);
     }
+
+    // Освободившееся время предлагаем пациентам из листа ожидания
+    if (currentStatus !== 'cancelled') {
+      const { offerFreedSlot } = await import('./waitlist.service.js');
+      await offerFreedSlot(clinicId, updated);
+    }
+  }
+
+  // Этапы планов лечения, назначенные на отменённый или пропущенный приём, снова ждут назначения
+  if (['cancelled', 'no_show'].includes(newStatus) && currentStatus !== newStatus) {
+    try {
+      const { releaseStagesForAppointment } = await import('./treatmentPlan.service.js');
+      await releaseStagesForAppointment(clinicId, appointmentId);
+    } catch (error) {
+      // Статус приёма уже сохранён — ошибка этапов его не откатывает
+      console.error('❌ [TREATMENT PLAN] Ошибка освобождения этапов плана лечения:', error);
+    }
+  }
+
+  // Этапы планов лечения, назначенные на завершённый приём, считаются выполненными
+  if (newStatus === 'completed' && currentStatus !== 'completed') {
+    try {
+      const { completeStagesForAppointment } = await import('./treatmentPlan.service.js');
+      await completeStagesForAppointment(clinicId, appointmentId);
+    } catch (error) {
+      // Статус приёма уже сохранён — ошибка этапов его не откатывает
+      console.error('❌ [TREATMENT PLAN] Ошибка отметки этапов плана лечения выполненными:', error);
+    }
   }
 
   return updated;
 }
 
+/**
+ * Найти отменённый приём пациента с предложенным временем, ожидающим ответа
+ * @param {string} userId - ID пользователя (PATIENT)
+ * @param {string} appointmentId - ID отменённого приёма
+ * @returns {Promise<object>} Appointment
+ */
+async function findPendingSuggestion(userId, appointmentId) {
+  const { findPatientIdsForUser } = await import('./chat.service.js');
+  const patientIds = await findPatientIdsForUser(userId);
+
+  const appointment = await prisma.appointment.findFirst({
+    where: {
+      id: appointmentId,
+      patientId: { in: patientIds },
+    },
+    include: {
+      doctor: {
+        select: {
+          id: true,
+          name: true,
+          specialization: true,
+        },
+      },
+      patient: {
+        select: {
+          id: true,
+          name: true,
+          phone: true,
+        },
+      },
+    },
+  });
+
+  if (!appointment) {
+    throw new Error('Appointment not found');
+  }
+
+  if (appointment.status !== 'cancelled' || !appointment.suggestedNewDate || appointment.suggestionStatus !== 'pending') {
+    throw new Error('Suggested time is invalid: it was already answered or not offered');
+  }
+
+  return appointment;
+}
+
+/**
+ * Уведомить врача и администратора клиники об ответе пациента на предложенное время
+ * @param {object} appointment - Отменённый приём (с doctor и patient)
+ * @param {object} data - { title, message, appointmentId }
+ */
+async function notifyClinicAboutSuggestion(appointment, data) {
+  try {
+    const { createForDoctor, createForAdmin } = await import('./notification.service.js');
+
+    if (appointment.doctorId) {
+      await createForDoctor(appointment.clinicId, appointment.doctorId, { type: 'reschedule', ...data });
+    }
+    await createForAdmin(appointment.clinicId, { type: 'reschedule', ...data });
+
+    console.log(`✅ [NOTIFICATION] Клиника ${appointment.clinicId} уведомлена об ответе на предложенное время`);
+  } catch (error) {
+    // Логируем ошибку, но не прерываем ответ пациента
+    console.error('❌ [NOTIFICATION] Ошибка создания уведомления об ответе на предложенное время:', error);
+  }
+}
+
+/**
+ * Принять предложенное клиникой новое время (после отмены приёма)
+ * Создаёт новый приём в статусе pending. Проверка доступности и создание выполняются
+ * в одной транзакции: предложение сначала помечается принятым, поэтому одновременные
+ * ответы не создадут двух приёмов, а занятое время откатит всю операцию
+ * @param {string} userId - ID пользователя (PATIENT)
+ * @param {string} appointmentId - ID отменённого приёма
+ * @returns {Promise<object>} Созданный приём
+ */
+export async function acceptSuggestedDate(userId, appointmentId) {
+  const appointment = await findPendingSuggestion(userId, appointmentId);
+  const { clinicId, doctorId, duration } = appointment;
+  const appointmentDate = new Date(appointment.suggestedNewDate);
+
+  if (!doctorId) {
+    throw new Error('Doctor not found or inactive');
+  }
+
+  if (appointmentDate <= new Date()) {
+    throw new Error('Suggested time is invalid: it is already in the past');
+  }
+
+  // Расписание врача не меняется транзакцией — проверяем заранее
+  const scheduleConflict = await doctorScheduleService.findScheduleConflict(doctorId, appointmentDate, duration);
+
+  if (scheduleConflict) {
+    throw new Error(`Time slot is not available. Doctor is not working at this time (${scheduleConflict.reason}).`);
+  }
+
+  const created = await prisma.$transaction(async tx => {
+    const claimed = await tx.appointment.updateMany({
+      where: { id: appointmentId, suggestionStatus: 'pending' },
+      data: { suggestionStatus: 'accepted' },
+    });
+
+    if (claimed.count === 0) {
+      throw new Error('Suggested time is invalid: it was already answered or not offered');
+    }
+
+    const isAvailable = await checkTimeSlotAvailability(clinicId, doctorId, appointmentDate, duration, null, tx, {
+      treatmentCategoryId: appointment.treatmentCategoryId,
+    });
+
+    if (!isAvailable) {
+      throw new Error('Time slot is not available. Doctor has another appointment at this time.');
+    }
+
+    const newAppointment = await tx.appointment.create({
+      data: {
+        clinicId, // ОБЯЗАТЕЛЬНО!
+        doctorId,
+        patientId: appointment.patientId,
+        appointmentDate,
+        duration,
+        status: 'pending',
+        reason: appointment.reason,
+        treatmentCategoryId: appointment.treatmentCategoryId,
+        notes: appointment.notes,
+        registeredAt: new Date(),
+      },
+      include: {
+        doctor: {
+          select: {
+            id: true,
+            name: true,
+            specialization: true,
+          },
+        },
+        patient: {
+          select: {
+            id: true,
+            name: true,
+            phone: true,
+          },
+        },
+      },
+    });
+
+    await tx.appointment.update({
+      where: { id: appointmentId },
+      data: { suggestionAppointmentId: newAppointment.id },
+    });
+
+    return newAppointment;
+  });
+
+  console.log(`✅ [APPOINTMENT] Пациент принял предложенное время: приём ${appointmentId} → новый приём ${created.id}`);
+
+  const timezone = await getClinicTimezone(appointment.clinicId);
+  const formattedDate = appointmentDate.toLocaleString('ru-RU', {
+    timeZone: timezone,
+    year: 'numeric',
+    month: 'long',
+    day: 'numeric',
+    hour: '2-digit',
+    minute: '2-digit',
+  });
+
+  await notifyClinicAboutSuggestion(appointment, {
+    title: 'Пациент принял предложенное время',
+    message: `Пациент ${appointment.patient.name} (${appointment.patient.phone}) принял предложенное время ${formattedDate}. Создана новая запись — подтвердите её.`,
+    appointmentId: created.id,
+  });
+
+  return created;
+}
+
+/**
+ * Отклонить предложенное клиникой новое время
+ * @param {string} userId - ID пользователя (PATIENT)
+ * @param {string} appointmentId - ID отменённого приёма
+ * @returns {Promise<object>} Обновлённый отменённый приём
+ */
+export async function declineSuggestedDate(userId, appointmentId) {
+  const appointment = await findPendingSuggestion(userId, appointmentId);
+
+  const claimed = await prisma.appointment.updateMany({
+    where: { id: appointmentId, suggestionStatus: 'pending' },
+    data: { suggestionStatus: 'declined' },
+  });
+
+  if (claimed.count === 0) {
+    throw new Error('Suggested time is invalid: it was already answered or not offered');
+  }
+
+  console.log(`ℹ️ [APPOINTMENT] Пациент отклонил предложенное время для приёма ${appointmentId}`);
+
+  const timezone = await getClinicTimezone(appointment.clinicId);
+  const formattedDate = new Date(appointment.suggestedNewDate).toLocaleString('ru-RU', {
+    timeZone: timezone,
+    year: 'numeric',
+    month: 'long',
+    day: 'numeric',
+    hour: '2-digit',
+    minute: '2-digit',
+  });
+
+  await notifyClinicAboutSuggestion(appointment, {
+    title: 'Пациент отклонил предложенное время',
+    message: `Пациент ${appointment.patient.name} (${appointment.patient.phone}) отклонил предложенное время ${formattedDate}. Свяжитесь с пациентом, чтобы подобрать другое время.`,
+    appointmentId,
+  });
+
+  return { ...appointment, suggestionStatus: 'declined' };
+}
+
 /**
  * Получить занятые временные слоты врача на указанную дату
  * @param {string} clinicId - ID клиники
  * @param {string} doctorId - ID врача
  * @param {string} date - Дата в формате YYYY-MM-DD
- * @returns {Promise<Array>} Массив занятых интервалов [{ start: Date, end: Date, appointmentId: string }]
+ * @returns {Promise<Array>} Массив занятых интервалов [{ start, end, appointmentId, type: 'appointment' | 'buffer' | 'unavailable', reason? }]
  */
 export async function getBusyTimeSlots(clinicId, doctorId, date) {
   // Проверяем что врач существует и активен
@@ -753,42 +1250,30 @@ export async function getBusyTimeSlots(clinicId, doctorId, date) {
     throw new Error('Doctor not found or inactive');
   }
 
-  // Правильно парсим дату в локальном времени
-  // Если date уже Date объект, используем его, иначе парсим строку YYYY-MM-DD
-  let dateObj;
+  // День считается на часах клиники: Date переводим в дату клиники, строку YYYY-MM-DD берём как есть
+  const timezone = await getClinicTimezone(clinicId);
+  let dateKey;
   if (date instanceof Date) {
-    dateObj = new Date(date);
-  } else if (typeof date === 'string') {
-    // Парсим строку формата YYYY-MM-DD в локальном времени
-    // Это важно для правильной работы с временными зонами
-    const [year, month, day] = date.split('-').map(Number);
-    dateObj = new Date(year, month - 1, day);
+    dateKey = getZonedParts(date, timezone).dateKey;
+  } else if (typeof date === 'string' && /^\d{4}-\d{2}-\d{2}/.test(date)) {
+    dateKey = date.slice(0, 10);
   } else {
     throw new Error('Invalid date format');
   }
 
-  // Создаем начало и конец дня в локальном времени
-  const startOfDay = new Date(dateObj);
-  startOfDay.setHours(0, 0, 0, 0);
-
-  const endOfDay = new Date(dateObj);
-  endOfDay.setHours(23, 59, 59, 999);
-
   // Получаем все приёмы врача на эту дату (исключая отмененные)
   const appointments = await prisma.appointment.findMany({
     where: {
       clinicId,
       doctorId,
       status: { notIn: ['cancelled'] },
-      appointmentDate: {
-        gte: startOfDay,
-        lte: endOfDay,
-      },
+      appointmentDate: getZonedDayRange(dateKey, timezone),
     },
     select: {
       id: true,
       appointmentDate: true,
       duration: true,
+      treatmentCategoryId: true,
     },
     orderBy: {
       appointmentDate: 'asc',
@@ -804,14 +1289,338 @@ export async function getBusyTimeSlots(clinicId, doctorId, date) {
       start: start.toISOString(),
       end: end.toISOString(),
       appointmentId: apt.id,
+      type: 'appointment',
     };
   });
 
+  // Буферы до и после приёмов (подготовка и стерилизация кресла) — тоже занятое время
+  const bufferRules = await bufferService.getBufferRules(clinicId);
+  appointments.forEach(apt => {
+    const buffers = bufferService.resolveBuffers(bufferRules, apt);
+    const occupied = bufferService.getOccupiedInterval(apt.appointmentDate, apt.duration, buffers);
+    const start = new Date(apt.appointmentDate);
+    const end = new Date(start.getTime() + apt.duration * 60000);
+
+    if (buffers.before > 0) {
+      busySlots.push({ start: occupied.start.toISOString(), end: start.toISOString(), appointmentId: apt.id, type: 'buffer' });
+    }
+    if (buffers.after > 0) {
+      busySlots.push({ start: end.toISOString(), end: occupied.end.toISOString(), appointmentId: apt.id, type: 'buffer' });
+    }
+  });
+
+  // Добавляем нерабочее время врача (недельное расписание и исключения на дату)
+  const unavailableIntervals = await doctorScheduleService.getUnavailableIntervals(doctorId, dateKey);
+  unavailableIntervals.forEach(interval => {
+    busySlots.push({
+      start: interval.start.toISOString(),
+      end: interval.end.toISOString(),
+      appointmentId: null,
+      type: 'unavailable',
+      reason: interval.reason,
+    });
+  });
+
   console.log(`✅ [GET BUSY SLOTS] Врач ${doctorId}, дата ${date}: найдено ${busySlots.length} занятых слотов`);
 
   return busySlots;
 }
 
+/**
+ * Шаг сетки свободных слотов по умолчанию (минуты)
+ */
+const DEFAULT_SLOT_INTERVAL = 30;
+
+/**
+ * Определить длительность приёма для подбора слотов
+ * Приоритет: явная длительность → категория лечения (defaultDuration) → настройки клиники → 30 минут
+ * @param {string} clinicId - ID клиники
+ * @param {object} options - { duration, treatmentCategoryId }
+ * @returns {Promise<number>} Длительность (минуты)
+ */
+export async function resolveAppointmentDuration(clinicId, options = {}) {
+  if (options.duration) {
+    return Number(options.duration);
+  }
+
+  if (options.treatmentCategoryId) {
+    const category = await prisma.treatmentCategory.findFirst({
+      where: {
+        id: options.treatmentCategoryId,
+        clinicId, // ОБЯЗАТЕЛЬНО!
+      },
+      select: { defaultDuration: true },
+    });
+
+    if (!category) {
+      throw new Error('Treatment category not found');
+    }
+
+    return category.defaultDuration;
+  }
+
+  const settings = await prisma.clinicSettings.findUnique({
+    where: { clinicId },
+    select: { defaultAppointmentDuration: true },
+  });
+
+  return settings?.defaultAppointmentDuration || 30;
+}
+
+/**
+ * Получить свободные слоты врача на дату
+ * Учитывает недельное расписание (с перерывами), исключения на дату, существующие приёмы с их буферами,
+ * длительность и буферы категории лечения и часовой пояс клиники
+ * @param {string} clinicId - ID клиники
+ * @param {string} doctorId - ID врача
+ * @param {string} date - Дата YYYY-MM-DD (по часам клиники)
+ * @param {object} options - { treatmentCategoryId, duration, interval, excludeAppointmentId, resourceIds }
+ * @returns {Promise<object>} { date, timezone, duration, interval, isWorking, workingHours, slots: [{ time, start, end, available, reason }] }
+ */
+export async function getAvailableTimeSlots(clinicId, doctorId, date, options = {}) {
+  if (typeof date !== 'string' || !/^\d{4}-\d{2}-\d{2}$/.test(date)) {
+    throw new Error('Date is invalid, expected format YYYY-MM-DD');
+  }
+
+  // Проверяем что врач существует и активен
+  const doctor = await prisma.user.findFirst({
+    where: {
+      id: doctorId,
+      clinicId,
+      role: 'DOCTOR',
+      status: 'ACTIVE',
+    },
+    select: { id: true },
+  });
+
+  if (!doctor) {
+    throw new Error('Doctor not found or inactive');
+  }
+
+  const clinic = await prisma.clinic.findUnique({
+    where: { id: clinicId },
+    select: {
+      workingHours: true,
+      settings: { select: { timezone: true } },
+    },
+  });
+
+  const timezone = resolveTimezone(clinic?.settings?.timezone);
+  const duration = await resolveAppointmentDuration(clinicId, options);
+  const interval = Number(options.interval) || DEFAULT_SLOT_INTERVAL;
+  const bufferRules = await bufferService.getBufferRules(clinicId);
+  const slotBuffers = bufferService.resolveBuffers(bufferRules, options);
+
+  // Расписание врача (исключение на дату → недельное), иначе часы работы клиники
+  const daySchedule =
+    (await doctorScheduleService.getEffectiveDaySchedule(doctorId, date)) ||
+    doctorScheduleService.getClinicDaySchedule(clinic?.workingHours, date);
+
+  const result = {
+    date,
+    timezone,
+    duration,
+    interval,
+    bufferBefore: slotBuffers.before,
+    bufferAfter: slotBuffers.after,
+    isWorking: daySchedule.isWorking,
+    workingHours: daySchedule.isWorking
+      ? { startTime: daySchedule.startTime, endTime: daySchedule.endTime, breaks: daySchedule.breaks || [] }
+      : null,
+    reason: daySchedule.isWorking ? null : daySchedule.reason || 'Выходной',
+    slots: [],
+  };
+
+  if (!daySchedule.isWorking || !daySchedule.startTime || !daySchedule.endTime) {
+    console.log(`✅ [AVAILABLE SLOTS] Врач ${doctorId}, дата ${date}: нерабочий день`);
+    return result;
+  }
+
+  const workStart = zonedTimeToUtc(date, daySchedule.startTime, timezone);
+  const workEnd = zonedTimeToUtc(date, daySchedule.endTime, timezone);
+  const breaks = (daySchedule.breaks || []).map(item => ({
+    start: zonedTimeToUtc(date, item.startTime, timezone),
+    end: zonedTimeToUtc(date, item.endTime, timezone),
+  }));
+
+  // Приёмы, которые могут пересекаться с рабочим днём (включая начавшиеся накануне)
+  const appointmentWhere = {
+    clinicId,
+    doctorId,
+    status: { notIn: ['cancelled'] },
+    appointmentDate: {
+      gte: zonedTimeToUtc(addDaysToDateKey(date, -1), daySchedule.startTime, timezone),
+      lt: new Date(workEnd.getTime() + (slotBuffers.after + bufferService.MAX_BUFFER_MINUTES) * 60000),
+    },
+  };
+
+  if (options.excludeAppointmentId) {
+    appointmentWhere.id = { not: options.excludeAppointmentId };
+  }
+
+  const appointments = await prisma.appointment.findMany({
+    where: appointmentWhere,
+    select: { appointmentDate: true, duration: true, treatmentCategoryId: true },
+  });
+
+  // Занятые интервалы — вместе с буферами до и после каждого приёма
+  const toOccupied = apt =>
+    bufferService.getOccupiedInterval(apt.appointmentDate, apt.duration, bufferService.resolveBuffers(bufferRules, apt));
+
+  const busy = appointments.map(toOccupied);
+
+  // Занятость выбранных ресурсов (кресла / кабинеты) другими приёмами клиники
+  let resourceBusy = [];
+  if (options.resourceIds?.length) {
+    const resourceWhere = {
+      resourceId: { in: options.resourceIds },
+      appointment: {
+        clinicId,
+        status: { notIn: ['cancelled'] },
+        appointmentDate: appointmentWhere.appointmentDate,
+      },
+    };
+
+    if (options.excludeAppointmentId) {
+      resourceWhere.appointmentId = { not: options.excludeAppointmentId };
+    }
+
+    const bookings = await prisma.appointmentResource.findMany({
+      where: resourceWhere,
+      select: { appointment: { select: { appointmentDate: true, duration: true, treatmentCategoryId: true } } },
+    });
+
+    resourceBusy = bookings.map(({ appointment }) => toOccupied(appointment));
+  }
+
+  const overlaps = (start, end, intervals) => intervals.some(item => start < item.end && end > item.start);
+  const now = new Date();
+
+  for (
+    let start = workStart;
+    start.getTime() + duration * 60000 <= workEnd.getTime();
+    start = new Date(start.getTime() + interval * 60000)
+  ) {
+    const end = new Date(start.getTime() + duration * 60000);
+    // С другими приёмами слот сравнивается вместе со своими буферами, с перерывами врача — без них
+    const occupied = bufferService.getOccupiedInterval(start, duration, slotBuffers);
+
+    let reason = null;
+    if (start <= now) {
+      reason = 'past';
+    } else if (overlaps(start, end, breaks)) {
+      reason = 'break';
+    } else if (overlaps(occupied.start, occupied.end, busy)) {
+      reason = 'booked';
+    } else if (overlaps(occupied.start, occupied.end, resourceBusy)) {
+      reason = 'resource';
+    }
+
+    result.slots.push({
+      time: getZonedParts(start, timezone).time,
+      start: start.toISOString(),
+      end: end.toISOString(),
+      available: reason === null,
+      reason,
+    });
+  }
+
+  const availableCount = result.slots.filter(slot => slot.available).length;
+  console.log(`✅ [AVAILABLE SLOTS] Врач ${doctorId}, дата ${date}: свободно ${availableCount} из ${result.slots.length} слотов`);
+
+  return result;
+}
+
+/**
+ * Расписание дня по всем активным врачам клиники (вид «День» для регистратуры)
+ * Для каждого врача: рабочие часы на дату (расписание врача → часы клиники) и приёмы, кроме отменённых
+ * @param {string} clinicId - ID клиники
+ * @param {string} date - Дата YYYY-MM-DD (по часам клиники)
+ * @param {object} options - { resourceId } — только приёмы, занимающие этот ресурс
+ * @returns {Promise<object>} { date, timezone, doctors: [{ doctor, isWorking, workingHours, reason, appointments }] }
+ */
+export async function getDayBoard(clinicId, date, options = {}) {
+  if (typeof date !== 'string' || !/^\d{4}-\d{2}-\d{2}$/.test(date)) {
+    throw new Error('Date is invalid, expected format YYYY-MM-DD');
+  }
+
+  const clinic = await prisma.clinic.findUnique({
+    where: { id: clinicId },
+    select: {
+      workingHours: true,
+      settings: { select: { timezone: true } },
+    },
+  });
+
+  const timezone = resolveTimezone(clinic?.settings?.timezone);
+
+  const [doctors, appointments] = await Promise.all([
+    prisma.user.findMany({
+      where: {
+        clinicId,
+        role: 'DOCTOR',
+        status: 'ACTIVE',
+      },
+      select: {
+        id: true,
+        name: true,
+        specialization: true,
+        avatar: true,
+      },
+      orderBy: { name: 'asc' },
+    }),
+    prisma.appointment.findMany({
+      where: {
+        clinicId,
+        status: { notIn: ['cancelled'] },
+        appointmentDate: getZonedDayRange(date, timezone),
+        ...(options.resourceId && { resources: { some: { resourceId: options.resourceId } } }),
+      },
+      include: {
+        patient: {
+          select: {
+            id: true,
+            name: true,
+            phone: true,
+            avatar: true,
+          },
+        },
+        treatmentCategory: TREATMENT_CATEGORY_INCLUDE,
+        resources: RESOURCES_INCLUDE,
+      },
+      orderBy: { appointmentDate: 'asc' },
+    }),
+  ]);
+
+  const bufferedAppointments = await bufferService.attachBuffers(clinicId, appointments);
+
+  const columns = await Promise.all(
+    doctors.map(async doctor => {
+      const daySchedule =
+        (await doctorScheduleService.getEffectiveDaySchedule(doctor.id, date)) ||
+        doctorScheduleService.getClinicDaySchedule(clinic?.workingHours, date);
+      const isWorking = !!daySchedule.isWorking && !!daySchedule.startTime && !!daySchedule.endTime;
+
+      return {
+        doctor,
+        isWorking,
+        workingHours: isWorking
+          ? { startTime: daySchedule.startTime, endTime: daySchedule.endTime, breaks: daySchedule.breaks || [] }
+          : null,
+        reason: isWorking ? null : daySchedule.reason || 'Выходной',
+        appointments: bufferedAppointments
+          .filter(apt => apt.doctorId === doctor.id)
+          // Время начала по часам клиники — для размещения в сетке дня
+          .map(apt => ({ ...apt, startTime: getZonedParts(new Date(apt.appointmentDate), timezone).time })),
+      };
+    })
+  );
+
+  console.log(`✅ [DAY BOARD] Дата ${date}: врачей ${columns.length}, приёмов ${appointments.length}`);
+
+  return { date, timezone, doctors: columns };
+}
+
 /**
  * Удалить приём
  * @param {string} clinicId - ID клиники
@@ -821,9 +1630,21 @@ export async function remove(clinicId, appointmentId) {
   // Проверяем что приём существует
   await findById(clinicId, appointmentId);
 
-  // Удаляем
-  await prisma.appointment.delete({
-    where: { id: appointmentId },
+  // Подписанный протокол не редактируется и не удаляется — вместе с ним нельзя удалить и приём.
+  // Проверка и удаление в одной транзакции: протокол могут подписать параллельно
+  await prisma.$transaction(async tx => {
+    const signedNote = await tx.clinicalNote.findFirst({
+      where: { appointmentId, status: 'signed' },
+      select: { id: true },
+    });
+
+    if (signedNote) {
+      throw new Error('Forbidden: appointment has a signed clinical note and cannot be deleted');
+    }
+
+    await tx.appointment.delete({
+      where: { id: appointmentId },
+    });
   });
 }
 
@@ -0,0 +1,93 @@
+import { prisma } from '../config/database.js';
+
+/**
+ * Appointment Buffer Service
+ * Буферы между приёмами: подготовка кресла перед процедурой и уборка / стерилизация после неё
+ * Буферы задаются в настройках клиники и переопределяются категорией лечения.
+ * Приём занимает интервал [начало - буфер до, конец + буфер после]; два приёма конфликтуют,
+ * если пересекаются их занятые интервалы
+ */
+
+/**
+ * Максимальный буфер (минуты) — ограничен валидаторами, нужен для окна поиска пересечений
+ */
+export const MAX_BUFFER_MINUTES = 120;
+
+/**
+ * Загрузить правила буферов клиники
+ * @param {string} clinicId - ID клиники
+ * @param {object} client - Prisma client или транзакция
+ * @returns {Promise<object>} { defaults: { before, after }, byCategoryId: Map }
+ */
+export async function getBufferRules(clinicId, client = prisma) {
+  const [settings, categories] = await Promise.all([
+    client.clinicSettings.findUnique({
+      where: { clinicId },
+      select: { bufferBeforeMinutes: true, bufferAfterMinutes: true },
+    }),
+    client.treatmentCategory.findMany({
+      where: { clinicId },
+      select: { id: true, bufferBeforeMinutes: true, bufferAfterMinutes: true },
+    }),
+  ]);
+
+  const defaults = {
+    before: settings?.bufferBeforeMinutes || 0,
+    after: settings?.bufferAfterMinutes || 0,
+  };
+
+  const byCategoryId = new Map();
+  categories.forEach(category => {
+    byCategoryId.set(category.id, {
+      before: category.bufferBeforeMinutes ?? defaults.before,
+      after: category.bufferAfterMinutes ?? defaults.after,
+    });
+  });
+
+  return { defaults, byCategoryId };
+}
+
+/**
+ * Буферы конкретного приёма
+ * Приоритет: категория лечения приёма → настройки клиники
+ * @param {object} rules - Результат getBufferRules
+ * @param {object} appointment - { treatmentCategoryId? }
+ * @returns {object} { before, after } в минутах
+ */
+export function resolveBuffers(rules, appointment = {}) {
+  return rules.byCategoryId.get(appointment.treatmentCategoryId) || rules.defaults;
+}
+
+/**
+ * Интервал, который приём занимает вместе с буферами
+ * @param {Date|string} appointmentDate - Начало приёма
+ * @param {number} duration - Длительность (минуты)
+ * @param {object} buffers - { before, after } в минутах
+ * @returns {object} { start, end }
+ */
+export function getOccupiedInterval(appointmentDate, duration, buffers) {
+  const start = new Date(appointmentDate);
+  return {
+    start: new Date(start.getTime() - buffers.before * 60000),
+    end: new Date(start.getTime() + (duration + buffers.after) * 60000),
+  };
+}
+
+/**
+ * Добавить к приёмам их буферы (для отрисовки в календаре)
+ * @param {string} clinicId - ID клиники
+ * @param {Array<object>} appointments - Приёмы
+ * @returns {Promise<Array<object>>} Приёмы с полями bufferBefore / bufferAfter (минуты)
+ */
+export async function attachBuffers(clinicId, appointments) {
+  if (appointments.length === 0) {
+    return appointments;
+  }
+
+  const rules = await getBufferRules(clinicId);
+
+  return appointments.map(appointment => {
+    const buffers = resolveBuffers(rules, appointment);
+    return { ...appointment, bufferBefore: buffers.before, bufferAfter: buffers.after };
+  });
+}
@@ -0,0 +1,611 @@
+import { prisma } from '../config/database.js';
+import * as doctorScheduleService from './doctorSchedule.service.js';
+import { checkTimeSlotAvailability, findById } from './appointment.service.js';
+import * as resourceService from './resource.service.js';
+import { resolveAppointmentCategory } from './treatment-category.service.js';
+import { getClinicTimezone } from './clinic.service.js';
+import { zonedTimeToUtc, getZonedParts, addDaysToDateKey } from '../utils/timezone.util.js';
+
+/**
+ * Appointment Series Service
+ * Серии повторяющихся приёмов (каждые N недель до даты или заданное число раз)
+ */
+
+/**
+ * Максимальное количество приёмов в одной серии
+ */
+const MAX_SERIES_OCCURRENCES = 52;
+
+/**
+ * Статусы приёмов серии, которые ещё можно изменять или отменять
+ */
+const ACTIVE_STATUSES = ['pending', 'confirmed'];
+
+/**
+ * Поля врача и пациента, возвращаемые вместе с приёмами серии
+ */
+const APPOINTMENT_INCLUDE = {
+  doctor: {
+    select: {
+      id: true,
+      name: true,
+      specialization: true,
+    },
+  },
+  patient: {
+    select: {
+      id: true,
+      name: true,
+      phone: true,
+      avatar: true,
+    },
+  },
+  treatmentCategory: {
+    select: {
+      id: true,
+      name: true,
+      color: true,
+    },
+  },
+  resources: {
+    include: {
+      resource: {
+        select: {
+          id: true,
+          name: true,
+          type: true,
+        },
+      },
+    },
+  },
+};
+
+/**
+ * Форматировать дату приёма для сообщений (по часам клиники)
+ * @param {Date} date - Момент времени
+ * @param {string} timezone - Часовой пояс клиники
+ * @returns {string}
+ */
+function formatOccurrenceDate(date, timezone) {
+  return new Date(date).toLocaleString('ru-RU', {
+    timeZone: timezone,
+    day: '2-digit',
+    month: '2-digit',
+    year: 'numeric',
+    hour: '2-digit',
+    minute: '2-digit',
+  });
+}
+
+/**
+ * Рассчитать даты приёмов серии
+ * Время приёма сохраняется по часам клиники (переход на летнее время не сдвигает приём)
+ * @param {Date|string} firstDate - Дата и время первого приёма
+ * @param {object} recurrence - { intervalWeeks, count, until }
+ * @param {string} timezone - Часовой пояс клиники
+ * @returns {Date[]}
+ */
+function buildOccurrenceDates(firstDate, recurrence, timezone) {
+  const { dateKey, time } = getZonedParts(firstDate, timezone);
+  const intervalWeeks = recurrence.intervalWeeks || 1;
+  const untilKey = recurrence.until ? getZonedParts(recurrence.until, timezone).dateKey : null;
+  const limit = recurrence.count ? Math.min(recurrence.count, MAX_SERIES_OCCURRENCES) : MAX_SERIES_OCCURRENCES;
+
+  const dates = [];
+  for (let index = 0; index < limit; index++) {
+    const occurrenceKey = addDaysToDateKey(dateKey, index * intervalWeeks * 7);
+    if (untilKey && occurrenceKey > untilKey) {
+      break;
+    }
+    dates.push(zonedTimeToUtc(occurrenceKey, time, timezone));
+  }
+
+  return dates;
+}
+
+/**
+ * Проверить доступность одного приёма серии
+ * @param {string} clinicId - ID клиники
+ * @param {string} doctorId - ID врача
+ * @param {Date} appointmentDate - Дата и время приёма
+ * @param {number} duration - Длительность (минуты)
+ * @param {string|string[]} excludeAppointmentId - ID приёмов для исключения (при переносе)
+ * @param {Array<string>} resourceIds - Кресла / кабинеты / оборудование приёма
+ * @param {string|null} treatmentCategoryId - Категория лечения приёма (определяет буферы до и после)
+ * @param {object} db - Prisma client или транзакция (для повторной проверки при создании)
+ * @returns {Promise<string|null>} Причина конфликта ('booked' | 'exception' | 'resource') или null
+ */
+async function findOccurrenceConflict(
+  clinicId,
+  doctorId,
+  appointmentDate,
+  duration,
+  excludeAppointmentId = null,
+  resourceIds = [],
+  treatmentCategoryId = null,
+  db = prisma
+) {
+  const isAvailable = await checkTimeSlotAvailability(
+    clinicId,
+    doctorId,
+    appointmentDate,
+    duration,
+    excludeAppointmentId,
+    db,
+    { treatmentCategoryId }
+  );
+
+  if (!isAvailable) {
+    return 'booked';
+  }
+
+  // Рабочие часы, перерывы и исключения из расписания
+  const scheduleConflict = await doctorScheduleService.findScheduleConflict(doctorId, appointmentDate, duration);
+
+  if (scheduleConflict) {
+    return 'exception';
+  }
+
+  const resourceConflict = await resourceService.findResourceConflict(
+    clinicId,
+    resourceIds,
+    appointmentDate,
+    duration,
+    excludeAppointmentId,
+    db,
+    { treatmentCategoryId }
+  );
+
+  return resourceConflict ? 'resource' : null;
+}
+
+/**
+ * Предпросмотр серии: даты приёмов и конфликты по каждому из них
+ * @param {string} clinicId - ID клиники
+ * @param {object} data - Данные первого приёма + recurrence { intervalWeeks, count, until }
+ * @returns {Promise<object>} { timezone, occurrences: [{ index, appointmentDate, available, conflict }] }
+ */
+export async function previewSeries(clinicId, data) {
+  const timezone = await getClinicTimezone(clinicId);
+  const duration = data.duration || 30;
+  const dates = buildOccurrenceDates(data.appointmentDate, data.recurrence, timezone);
+  const resourceIds = await resourceService.validateResourceIds(clinicId, data.resourceIds);
+  const category = await resolveAppointmentCategory(clinicId, data.treatmentCategoryId);
+
+  if (dates.length < 2) {
+    throw new Error('Series end date is invalid, the series must contain at least 2 appointments');
+  }
+
+  const occurrences = [];
+  for (const [position, appointmentDate] of dates.entries()) {
+    const conflict = await findOccurrenceConflict(
+      clinicId,
+      data.doctorId,
+      appointmentDate,
+      duration,
+      null,
+      resourceIds,
+      category?.id
+    );
+    occurrences.push({
+      index: position + 1,
+      appointmentDate,
+      available: !conflict,
+      conflict,
+    });
+  }
+
+  return { timezone, occurrences };
+}
+
+/**
+ * Создать серию повторяющихся приёмов
+ * Приёмы с конфликтами пропускаются, если передан skipConflicts, иначе серия не создаётся
+ * @param {string} clinicId - ID клиники
+ * @param {object} data - Данные первого приёма + recurrence { intervalWeeks, count, until } + skipConflicts
+ * @returns {Promise<object>} { series, appointments, skipped }
+ */
+export async function createSeries(clinicId, data) {
+  // Проверяем что врач принадлежит клинике
+  const doctor = await prisma.user.findFirst({
+    where: {
+      id: data.doctorId,
+      clinicId,
+      role: 'DOCTOR',
+      status: 'ACTIVE',
+    },
+  });
+
+  if (!doctor) {
+    throw new Error('Doctor not found or inactive');
+  }
+
+  // Проверяем что пациент принадлежит клинике
+  const patient = await prisma.patient.findFirst({
+    where: {
+      id: data.patientId,
+      clinicId,
+    },
+  });
+
+  if (!patient) {
+    throw new Error('Patient not found');
+  }
+
+  const { timezone, occurrences } = await previewSeries(clinicId, data);
+  const available = occurrences.filter(occurrence => occurrence.available);
+  const skipped = occurrences.filter(occurrence => !occurrence.available);
+
+  if (skipped.length > 0 && !data.skipConflicts) {
+    const dates = skipped.map(occurrence => formatOccurrenceDate(occurrence.appointmentDate, timezone)).join(', ');
+    throw new Error(`Time slot is not available for series appointments: ${dates}`);
+  }
+
+  if (available.length === 0) {
+    throw new Error('Time slot is not available for any appointment of the series');
+  }
+
+  const duration = data.duration || 30;
+  const recurrence = data.recurrence;
+  const resourceIds = await resourceService.validateResourceIds(clinicId, data.resourceIds);
+  const category = await resolveAppointmentCategory(clinicId, data.treatmentCategoryId);
+  const reason = data.reason || category?.name || null;
+
+  const result = await prisma.$transaction(async tx => {
+    const series = await tx.appointmentSeries.create({
+      data: {
+        clinicId, // ОБЯЗАТЕЛЬНО!
+        doctorId: data.doctorId,
+        patientId: data.patientId,
+        intervalWeeks: recurrence.intervalWeeks || 1,
+        occurrences: recurrence.count || null,
+        untilDate: recurrence.until ? new Date(recurrence.until) : null,
+        duration,
+        reason,
+        treatmentCategoryId: category?.id || null,
+      },
+    });
+
+    const appointments = [];
+    for (const occurrence of available) {
+      // Повторная проверка внутри транзакции: время могли занять после предпросмотра
+      const conflict = await findOccurrenceConflict(
+        clinicId,
+        data.doctorId,
+        occurrence.appointmentDate,
+        duration,
+        null,
+        resourceIds,
+        category?.id,
+        tx
+      );
+      if (conflict) {
+        throw new Error(
+          `Time slot is not available for series appointments: ${formatOccurrenceDate(occurrence.appointmentDate, timezone)}`
+        );
+      }
+
+      const appointment = await tx.appointment.create({
+        data: {
+          clinicId, // ОБЯЗАТЕЛЬНО!
+          doctorId: data.doctorId,
+          patientId: data.patientId,
+          appointmentDate: occurrence.appointmentDate,
+          duration,
+          status: 'pending',
+          reason,
+          treatmentCategoryId: category?.id || null,
+          amount: data.amount || null,
+          notes: data.notes || null,
+          registeredAt: new Date(),
+          seriesId: series.id,
+          seriesIndex: occurrence.index,
+          resources: {
+            create: resourceIds.map(resourceId => ({ resourceId })),
+          },
+        },
+        include: APPOINTMENT_INCLUDE,
+      });
+      appointments.push(appointment);
+    }
+
+    return { series, appointments };
+  });
+
+  console.log(`✅ [APPOINTMENT SERIES] Создана серия ${result.series.id}: ${result.appointments.length} приёмов, пропущено ${skipped.length}`);
+
+  // Одно уведомление о серии вместо уведомления на каждый приём
+  try {
+    const { createForDoctor, createForAdmin } = await import('./notification.service.js');
+    const firstAppointment = result.appointments[0];
+    const firstDate = formatOccurrenceDate(firstAppointment.appointmentDate, timezone);
+    const message = `Пациент ${patient.name} записан на серию из ${result.appointments.length} приёмов каждые ${result.series.intervalWeeks} нед., первый приём ${firstDate}.${reason ? ` Причина: ${reason}` : ''}`;
+
+    await createForDoctor(clinicId, data.doctorId, {
+      type: 'new_appointment',
+      title: 'Новая серия приёмов',
+      message,
+      appointmentId: firstAppointment.id,
+    });
+
+    await createForAdmin(clinicId, {
+      type: 'new_appointment',
+      title: 'Новая серия приёмов',
+      message: `${message} Врач: ${doctor.name}`,
+      appointmentId: firstAppointment.id,
+    });
+  } catch (error) {
+    // Логируем ошибку, но не прерываем создание серии
+    console.error('⚠️ [APPOINTMENT SERIES] Ошибка при создании уведомлений:', error);
+  }
+
+  return {
+    series: result.series,
+    appointments: result.appointments,
+    skipped,
+  };
+}
+
+/**
+ * Получить серию со всеми её приёмами
+ * @param {string} clinicId - ID клиники
+ * @param {string} seriesId - ID серии
+ * @returns {Promise<object>} Серия с appointments
+ */
+export async function getSeries(clinicId, seriesId) {
+  const series = await prisma.appointmentSeries.findFirst({
+    where: {
+      id: seriesId,
+      clinicId, // ОБЯЗАТЕЛЬНО!
+    },
+    include: {
+      appointments: {
+        orderBy: { appointmentDate: 'asc' },
+        include: APPOINTMENT_INCLUDE,
+      },
+    },
+  });
+
+  if (!series) {
+    throw new Error('Appointment series not found');
+  }
+
+  return series;
+}
+
+/**
+ * Найти приёмы серии, которые затрагивает операция
+ * @param {string} clinicId - ID клиники
+ * @param {object} appointment - Приём, с которого начата операция
+ * @param {string} scope - 'this' | 'following' | 'all'
+ * @returns {Promise<Array>} Активные приёмы (pending/confirmed), отсортированные по дате
+ */
+async function findScopeAppointments(clinicId, appointment, scope) {
+  if (scope === 'this' || !appointment.seriesId) {
+    return [appointment];
+  }
+
+  // 'following' — этот и последующие, 'all' — все предстоящие приёмы серии
+  const fromDate = scope === 'following' ? new Date(appointment.appointmentDate) : new Date();
+
+  const appointments = await prisma.appointment.findMany({
+    where: {
+      clinicId,
+      seriesId: appointment.seriesId,
+      status: { in: ACTIVE_STATUSES },
+      appointmentDate: { gte: fromDate },
+    },
+    orderBy: { appointmentDate: 'asc' },
+  });
+
+  // Текущий приём всегда входит в операцию, даже если уже начался
+  if (!appointments.some(item => item.id === appointment.id)) {
+    appointments.unshift(appointment);
+  }
+
+  return appointments;
+}
+
+/**
+ * Изменить приёмы серии: этот / этот и последующие / все
+ * Перенос задаётся новой датой текущего приёма: остальные сдвигаются на те же дни и получают то же время
+ * @param {string} clinicId - ID клиники
+ * @param {string} appointmentId - ID приёма, с которого начато изменение
+ * @param {object} data - { scope, appointmentDate, duration, doctorId, reason, treatmentCategoryId, notes }
+ * @returns {Promise<Array>} Обновлённые приёмы
+ */
+export async function updateSeriesAppointments(clinicId, appointmentId, data) {
+  const appointment = await findById(clinicId, appointmentId);
+
+  if (!ACTIVE_STATUSES.includes(appointment.status)) {
+    throw new Error('Appointment status is invalid: only pending or confirmed appointments of the series can be updated');
+  }
+
+  const { scope, ...changes } = data;
+  const targets = await findScopeAppointments(clinicId, appointment, scope);
+  const timezone = await getClinicTimezone(clinicId);
+
+  if (changes.doctorId && changes.doctorId !== appointment.doctorId) {
+    const doctor = await prisma.user.findFirst({
+      where: {
+        id: changes.doctorId,
+        clinicId,
+        role: 'DOCTOR',
+        status: 'ACTIVE',
+      },
+    });
+
+    if (!doctor) {
+      throw new Error('Doctor not found or inactive');
+    }
+  }
+
+  if (changes.treatmentCategoryId !== undefined) {
+    const category = await resolveAppointmentCategory(clinicId, changes.treatmentCategoryId);
+    changes.treatmentCategoryId = category?.id || null;
+  }
+
+  // Сдвиг в днях и новое время по часам клиники
+  let dayShift = 0;
+  let newTime = null;
+  if (changes.appointmentDate) {
+    const currentParts = getZonedParts(appointment.appointmentDate, timezone);
+    const newParts = getZonedParts(changes.appointmentDate, timezone);
+    dayShift = Math.round(
+      (Date.UTC(newParts.year, newParts.month - 1, newParts.day) -
+        Date.UTC(currentParts.year, currentParts.month - 1, currentParts.day)) / 86400000
+    );
+    newTime = newParts.time;
+  }
+
+  const now = new Date();
+  const plannedUpdates = targets.map(target => {
+    const updateData = {};
+
+    if (newTime) {
+      const targetKey = getZonedParts(target.appointmentDate, timezone).dateKey;
+      updateData.appointmentDate = zonedTimeToUtc(addDaysToDateKey(targetKey, dayShift), newTime, timezone);
+    }
+    if (changes.duration !== undefined) updateData.duration = changes.duration;
+    if (changes.doctorId !== undefined) updateData.doctorId = changes.doctorId;
+    if (changes.reason !== undefined) updateData.reason = changes.reason || null;
+    if (changes.treatmentCategoryId !== undefined) updateData.treatmentCategoryId = changes.treatmentCategoryId;
+    if (changes.notes !== undefined) updateData.notes = changes.notes || null;
+
+    return { target, updateData };
+  });
+
+  // Проверяем каждый приём до изменения: серия меняется целиком или не меняется совсем
+  const conflicts = [];
+  const targetIds = targets.map(target => target.id);
+  const targetResources = await prisma.appointmentResource.findMany({
+    where: { appointmentId: { in: targetIds } },
+    select: { appointmentId: true, resourceId: true },
+  });
+  for (const { target, updateData } of plannedUpdates) {
+    const appointmentDate = updateData.appointmentDate || target.appointmentDate;
+    const duration = updateData.duration || target.duration;
+    const doctorId = updateData.doctorId || target.doctorId;
+
+    if (updateData.appointmentDate && appointmentDate <= now) {
+      throw new Error('Appointment date must be in the future');
+    }
+
+    // Смена категории меняет буферы приёма — её тоже проверяем на пересечения
+    const timeChanged =
+      updateData.appointmentDate ||
+      updateData.duration ||
+      updateData.doctorId ||
+      updateData.treatmentCategoryId !== undefined;
+    if (!timeChanged || !doctorId) {
+      continue;
+    }
+
+    // Остальные переносимые приёмы серии исключаем: их старое время освобождается
+    const resourceIds = targetResources
+      .filter(item => item.appointmentId === target.id)
+      .map(item => item.resourceId);
+    const treatmentCategoryId =
+      updateData.treatmentCategoryId !== undefined ? updateData.treatmentCategoryId : target.treatmentCategoryId;
+    const conflict = await findOccurrenceConflict(
+      clinicId,
+      doctorId,
+      appointmentDate,
+      duration,
+      targetIds,
+      resourceIds,
+      treatmentCategoryId
+    );
+    if (conflict) {
+      conflicts.push(formatOccurrenceDate(appointmentDate, timezone));
+    }
+  }
+
+  if (conflicts.length > 0) {
+    throw new Error(`Time slot is not available for series appointments: ${conflicts.join(', ')}`);
+  }
+
+  const updated = await prisma.$transaction(
+    plannedUpdates.map(({ target, updateData }) =>
+      prisma.appointment.update({
+        where: { id: target.id },
+        data: updateData,
+        include: APPOINTMENT_INCLUDE,
+      })
+    )
+  );
+
+  console.log(`✅ [APPOINTMENT SERIES] Изменено приёмов серии ${appointment.seriesId || '-'}: ${updated.length} (scope: ${scope})`);
+
+  return updated;
+}
+
+/**
+ * Отменить приёмы серии: этот / этот и последующие / все
+ * @param {string} clinicId - ID клиники
+ * @param {string} appointmentId - ID приёма, с которого начата отмена
+ * @param {string} scope - 'this' | 'following' | 'all'
+ * @param {string} cancellationReason - Причина отмены
+ * @returns {Promise<object>} { cancelledCount, appointmentIds }
+ */
+export async function cancelSeriesAppointments(clinicId, appointmentId, scope, cancellationReason) {
+  const appointment = await findById(clinicId, appointmentId);
+
+  if (!ACTIVE_STATUSES.includes(appointment.status)) {
+    throw new Error('Appointment status is invalid: only pending or confirmed appointments of the series can be cancelled');
+  }
+
+  const targets = await findScopeAppointments(clinicId, appointment, scope);
+  const appointmentIds = targets.map(target => target.id);
+
+  await prisma.appointment.updateMany({
+    where: {
+      clinicId,
+      id: { in: appointmentIds },
+    },
+    data: {
+      status: 'cancelled',
+      cancellationReason,
+    },
+  });
+
+  console.log(`✅ [APPOINTMENT SERIES] Отменено приёмов серии ${appointment.seriesId || '-'}: ${appointmentIds.length} (scope: ${scope})`);
+
+  // Одно уведомление пациенту со всеми отменёнными датами
+  try {
+    const { create } = await import('./notification.service.js');
+    const timezone = await getClinicTimezone(clinicId);
+    const dates = targets.map(target => formatOccurrenceDate(target.appointmentDate, timezone)).join('\n');
+    const title = targets.length > 1 ? 'Приёмы отменены' : 'Приём отменён';
+
+    await create(clinicId, appointment.patient.id, {
+      type: 'cancellation',
+      title,
+      message: `${targets.length > 1 ? 'Ваши приёмы были отменены' : 'Ваш приём был отменён'}:\n${dates}\n\nПричина: ${cancellationReason}`,
+      appointmentId: appointment.id,
+    });
+  } catch (error) {
+    // Логируем ошибку, но не прерываем процесс отмены
+    console.error('❌ [NOTIFICATION] Ошибка создания уведомления об отмене серии:', error);
+  }
+
+  // Освободившееся время предлагаем пациентам из листа ожидания
+  const { offerFreedSlot } = await import('./waitlist.service.js');
+  const { releaseStagesForAppointment } = await import('./treatmentPlan.service.js');
+  for (const target of targets) {
+    await offerFreedSlot(clinicId, target);
+
+    // Этапы планов лечения, назначенные на отменённый приём, снова ждут назначения
+    try {
+      await releaseStagesForAppointment(clinicId, target.id);
+    } catch (error) {
+      // Логируем ошибку, но не прерываем процесс отмены
+      console.error('❌ [TREATMENT PLAN] Ошибка освобождения этапов плана лечения:', error);
+    }
+  }
+
+  return {
+    cancelledCount: appointmentIds.length,
+    appointmentIds,
+  };
+}
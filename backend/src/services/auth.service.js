@@ -238,6 +238,7 @@ export async function loginUser(email, password) {
           id: true,
           name: true,
           slug: true,
+          settings: { select: { timezone: true } }, // Время приёмов показывается на часах клиники
         },
       },
     },
@@ -285,17 +286,12 @@ export async function loginUser(email, password) {
   let clinicId = user.clinicId;
   
   if (user.role === 'PATIENT' && !clinicId) {
-    console.log('🔵 [AUTH SERVICE] Поиск clinicId для PATIENT через модель Patient');
+    console.log('🔵 [AUTH SERVICE] Поиск clinicId для PATIENT через карточки аккаунта');
     
-    // Ищем пациента по email или phone
+    // Берем клинику самой свежей карточки, привязанной к аккаунту
     const patient = await prisma.patient.findFirst({
-      where: {
-        OR: [
-          { email: user.email },
-          { phone: user.phone },
-        ],
-      },
-      orderBy: { createdAt: 'desc' }, // Берем последнего созданного (самого свежего)
+      where: { userId: user.id },
+      orderBy: { createdAt: 'desc' },
       select: { clinicId: true },
     });
 
@@ -303,7 +299,7 @@ export async function loginUser(email, password) {
       clinicId = patient.clinicId;
       console.log('✅ [AUTH SERVICE] Найден clinicId для PATIENT:', clinicId);
     } else {
-      console.warn('⚠️ [AUTH SERVICE] Пациент не найден в базе Patient. clinicId будет null.');
+      console.warn('⚠️ [AUTH SERVICE] У аккаунта нет карточек пациента. clinicId будет null.');
     }
   }
 
@@ -342,6 +338,7 @@ export async function getCurrentUser(userId) {
           email: true,
           phone: true,
           city: true,
+          settings: { select: { timezone: true } },
         },
       },
     },
@@ -0,0 +1,177 @@
+import crypto from 'crypto';
+import { prisma } from '../config/database.js';
+import { buildAppointmentsCalendar } from '../utils/ics.util.js';
+
+/**
+ * Calendar Service
+ * Подписка на календарь (ICS) для врачей и пациентов и выгрузка отдельного приёма в .ics
+ * Лента доступна по секретной ссылке без авторизации, поэтому ссылку можно отозвать или выпустить заново
+ */
+
+/**
+ * Домен для UID событий и PRODID календаря
+ */
+const UID_DOMAIN = 'hippocrates';
+
+/**
+ * Сколько дней прошедших приёмов попадает в ленту
+ */
+const FEED_PAST_DAYS = 30;
+
+/**
+ * Роли, для которых доступна подписка на календарь
+ */
+const FEED_ROLES = ['DOCTOR', 'PATIENT'];
+
+const APPOINTMENT_INCLUDE = {
+  doctor: { select: { id: true, name: true } },
+  patient: { select: { id: true, name: true, phone: true } },
+  clinic: { select: { id: true, name: true, phone: true, address: true, city: true } },
+};
+
+/**
+ * ID записей Patient, связанных с пользователем-пациентом
+ * @param {string} userId - ID пользователя
+ * @returns {Promise<Array<string>>}
+ */
+async function getPatientIds(userId) {
+  const { findPatientIdsForUser } = await import('./chat.service.js');
+  return findPatientIdsForUser(userId);
+}
+
+/**
+ * Активная ссылка подписки пользователя
+ * @param {string} userId - ID пользователя
+ * @returns {Promise<object|null>} CalendarFeed или null
+ */
+export async function getActiveFeed(userId) {
+  return prisma.calendarFeed.findFirst({
+    where: { userId, revokedAt: null },
+    orderBy: { createdAt: 'desc' },
+  });
+}
+
+/**
+ * Выпустить новую ссылку подписки (предыдущая отзывается)
+ * @param {object} actor - { userId, role }
+ * @returns {Promise<object>} Новый CalendarFeed
+ */
+export async function createFeed(actor) {
+  if (!FEED_ROLES.includes(actor.role)) {
+    throw new Error('Forbidden: calendar feed is available only for doctors and patients');
+  }
+
+  const feed = await prisma.$transaction(async tx => {
+    await tx.calendarFeed.updateMany({
+      where: { userId: actor.userId, revokedAt: null },
+      data: { revokedAt: new Date() },
+    });
+
+    return tx.calendarFeed.create({
+      data: {
+        userId: actor.userId,
+        token: crypto.randomBytes(24).toString('hex'),
+      },
+    });
+  });
+
+  console.log(`✅ [CALENDAR] Выпущена ссылка подписки для пользователя ${actor.userId}`);
+  return feed;
+}
+
+/**
+ * Отозвать ссылку подписки
+ * @param {string} userId - ID пользователя
+ */
+export async function revokeFeed(userId) {
+  const result = await prisma.calendarFeed.updateMany({
+    where: { userId, revokedAt: null },
+    data: { revokedAt: new Date() },
+  });
+
+  if (result.count === 0) {
+    throw new Error('Calendar feed not found');
+  }
+
+  console.log(`✅ [CALENDAR] Ссылка подписки отозвана для пользователя ${userId}`);
+}
+
+/**
+ * Календарь по ссылке подписки
+ * Врачу — его приёмы, пациенту — приёмы во всех клиниках (за последние 30 дней и все будущие, кроме отменённых)
+ * @param {string} token - Токен из URL
+ * @returns {Promise<string>} Содержимое .ics
+ */
+export async function getFeedCalendar(token) {
+  const feed = await prisma.calendarFeed.findUnique({
+    where: { token },
+    include: { user: { select: { id: true, name: true, role: true, status: true } } },
+  });
+
+  if (!feed || feed.revokedAt || feed.user.status !== 'ACTIVE') {
+    throw new Error('Calendar feed not found');
+  }
+
+  const where = {
+    status: { notIn: ['cancelled'] },
+    appointmentDate: { gte: new Date(Date.now() - FEED_PAST_DAYS * 24 * 60 * 60000) },
+  };
+
+  if (feed.user.role === 'DOCTOR') {
+    where.doctorId = feed.user.id;
+  } else {
+    where.patientId = { in: await getPatientIds(feed.user.id) };
+  }
+
+  const appointments = await prisma.appointment.findMany({
+    where,
+    include: APPOINTMENT_INCLUDE,
+    orderBy: { appointmentDate: 'asc' },
+  });
+
+  await prisma.calendarFeed.update({
+    where: { id: feed.id },
+    data: { lastAccessedAt: new Date() },
+  });
+
+  console.log(`✅ [CALENDAR] Лента ${feed.id}: ${appointments.length} приёмов`);
+
+  return buildAppointmentsCalendar(appointments, {
+    name: feed.user.role === 'DOCTOR' ? `Приёмы — ${feed.user.name}` : 'Мои приёмы',
+    uidDomain: UID_DOMAIN,
+    audience: feed.user.role === 'DOCTOR' ? 'doctor' : 'patient',
+  });
+}
+
+/**
+ * Один приём в формате .ics (кнопка «Добавить в календарь»)
+ * @param {object} actor - { userId, role, clinicId }
+ * @param {string} appointmentId - ID приёма
+ * @returns {Promise<string>} Содержимое .ics
+ */
+export async function getAppointmentCalendar(actor, appointmentId) {
+  const where = { id: appointmentId };
+
+  if (actor.role === 'PATIENT') {
+    where.patientId = { in: await getPatientIds(actor.userId) };
+  } else if (actor.clinicId) {
+    where.clinicId = actor.clinicId; // Сотрудники — только приёмы своей клиники
+  } else {
+    throw new Error('Appointment not found');
+  }
+
+  const appointment = await prisma.appointment.findFirst({
+    where,
+    include: APPOINTMENT_INCLUDE,
+  });
+
+  if (!appointment) {
+    throw new Error('Appointment not found');
+  }
+
+  return buildAppointmentsCalendar([appointment], {
+    name: appointment.clinic?.name || 'Приём',
+    uidDomain: UID_DOMAIN,
+    audience: actor.role === 'PATIENT' ? 'patient' : 'doctor',
+  });
+}
@@ -1,10 +1,16 @@
 import { prisma } from '../config/database.js';
+import { publishToConversation } from './chatEvents.service.js';
 
 /**
  * Chat Service
  * Бизнес-логика для работы с чатом
  */
 
+/**
+ * Типы отправителей сообщений
+ */
+const MESSAGE_SENDER_TYPES = ['patient', 'doctor', 'clinic', 'system'];
+
 /**
  * Найти или создать беседу между пациентом и врачом/клиникой
  * @param {string} clinicId - ID клиники
@@ -461,14 +467,21 @@ export async function sendMessage(conversationId, senderId, senderType, content,
     ? '📷 Изображение' 
     : (content?.trim() || '').substring(0, 100);
   
+  const lastMessageAt = new Date();
   await prisma.conversation.update({
     where: { id: conversationId },
     data: {
-      lastMessageAt: new Date(),
+      lastMessageAt,
       lastMessageText: previewText,
     },
   });
 
+  publishToConversation(conversation, 'message:new', {
+    message,
+    lastMessageAt,
+    lastMessageText: previewText,
+  });
+
   return message;
 }
 
@@ -515,7 +528,7 @@ export async function deleteMessage(messageId, senderId, clinicId) {
     orderBy: { createdAt: 'desc' },
   });
 
-  await prisma.conversation.update({
+  const updatedConversation = await prisma.conversation.update({
     where: { id: message.conversationId },
     data: {
       lastMessageAt: lastMessage ? lastMessage.createdAt : null,
@@ -527,6 +540,12 @@ export async function deleteMessage(messageId, senderId, clinicId) {
     },
   });
 
+  publishToConversation(message.conversation, 'message:deleted', {
+    messageId: message.id,
+    lastMessageAt: updatedConversation.lastMessageAt,
+    lastMessageText: updatedConversation.lastMessageText,
+  });
+
   return message;
 }
 
@@ -587,6 +606,7 @@ export async function markAsRead(conversationId, userId, userRole, clinicId) {
     senderTypeFilter = 'patient';
   }
 
+  const readAt = new Date();
   const result = await prisma.message.updateMany({
     where: {
       conversationId,
@@ -595,13 +615,69 @@ export async function markAsRead(conversationId, userId, userRole, clinicId) {
     },
     data: {
       isRead: true,
-      readAt: new Date(),
+      readAt,
     },
   });
 
+  // Read receipt: сообщаем участникам, какие сообщения прочитаны
+  if (result.count > 0) {
+    const readSenderTypes = typeof senderTypeFilter === 'string'
+      ? [senderTypeFilter]
+      : MESSAGE_SENDER_TYPES.filter(type => type !== senderTypeFilter.not);
+
+    publishToConversation(conversation, 'message:read', {
+      readerId: userId,
+      readerRole: userRole,
+      readSenderTypes,
+      readAt,
+      count: result.count,
+    });
+  }
+
   return result.count;
 }
 
+/**
+ * Сообщить участникам беседы, что пользователь печатает
+ * @param {string} conversationId - ID беседы
+ * @param {string} userId - ID пользователя, который печатает
+ * @param {string} userRole - Роль пользователя
+ * @param {string} clinicId - ID клиники (для проверки доступа)
+ * @param {boolean} isTyping - Печатает ли пользователь
+ * @param {string} patientId - ID пациента (если роль PATIENT)
+ */
+export async function notifyTyping(conversationId, userId, userRole, clinicId, isTyping, patientId = null) {
+  // Проверяем доступ к беседе теми же правилами, что и при чтении
+  const conversation = await getConversationById(conversationId, clinicId, userRole, userId, patientId);
+
+  const senderType =
+    userRole === 'PATIENT' ? 'patient' :
+      userRole === 'DOCTOR' ? 'doctor' :
+        'clinic';
+
+  publishToConversation(
+    conversation,
+    'typing',
+    { userId, senderType, isTyping: !!isTyping },
+    { excludeUserId: userId }
+  );
+}
+
+/**
+ * Найти все записи Patient, принадлежащие аккаунту пациента
+ * Используется для подписки пациента на события всех его бесед
+ * @param {string} userId - ID пользователя (role PATIENT)
+ * @returns {Promise<string[]>} Массив ID пациентов
+ */
+export async function findPatientIdsForUser(userId) {
+  const patients = await prisma.patient.findMany({
+    where: { userId },
+    select: { id: true },
+  });
+
+  return patients.map(patient => patient.id);
+}
+
 /**
  * Получить количество непрочитанных сообщений
  * @param {string} clinicId - ID клиники
@@ -0,0 +1,115 @@
+/**
+ * Chat Events Service
+ * Push-канал чата (Server-Sent Events): хранит открытые соединения
+ * и рассылает события бесед только тем, у кого есть доступ к беседе
+ */
+
+/**
+ * Интервал heartbeat-комментариев (мс), чтобы прокси не закрывали соединение
+ */
+const HEARTBEAT_INTERVAL_MS = 25000;
+
+/**
+ * Открытые соединения: id -> { res, userId, role, clinicId, patientIds }
+ */
+const subscribers = new Map();
+
+let nextSubscriberId = 1;
+
+/**
+ * Проверить, может ли подписчик получать события беседы
+ * Повторяет правила доступа из chatService.getConversationById
+ * @param {object} subscriber - Подписчик
+ * @param {object} conversation - Беседа (clinicId, patientId, userId)
+ * @returns {boolean}
+ */
+function canReceive(subscriber, conversation) {
+  const role = subscriber.role?.toUpperCase();
+
+  if (role === 'PATIENT') {
+    return !!conversation.patientId && subscriber.patientIds.includes(conversation.patientId);
+  }
+
+  if (!subscriber.clinicId || subscriber.clinicId !== conversation.clinicId) {
+    return false;
+  }
+
+  if (role === 'DOCTOR') {
+    return conversation.userId === null || conversation.userId === subscriber.userId;
+  }
+
+  return role === 'ADMIN' || role === 'CLINIC';
+}
+
+/**
+ * Записать событие в SSE-поток
+ * @param {object} res - Express response
+ * @param {string} event - Название события
+ * @param {object} data - Данные события
+ */
+function writeEvent(res, event, data) {
+  res.write(`event: ${event}\n`);
+  res.write(`data: ${JSON.stringify(data)}\n\n`);
+}
+
+/**
+ * Подписать соединение на события чата
+ * @param {object} res - Express response (SSE)
+ * @param {object} subscriber - { userId, role, clinicId, patientIds }
+ * @returns {Function} Функция отписки
+ */
+export function subscribe(res, subscriber) {
+  const id = nextSubscriberId++;
+
+  res.writeHead(200, {
+    'Content-Type': 'text/event-stream',
+    'Cache-Control': 'no-cache, no-transform',
+    Connection: 'keep-alive',
+    'X-Accel-Buffering': 'no',
+  });
+  res.flushHeaders?.();
+
+  subscribers.set(id, {
+    res,
+    userId: subscriber.userId,
+    role: subscriber.role,
+    clinicId: subscriber.clinicId || null,
+    patientIds: subscriber.patientIds || [],
+  });
+
+  writeEvent(res, 'ready', { connectedAt: new Date().toISOString() });
+
+  const heartbeat = setInterval(() => {
+    res.write(': ping\n\n');
+  }, HEARTBEAT_INTERVAL_MS);
+
+  console.log(`✅ [CHAT EVENTS] Подключен ${subscriber.role} ${subscriber.userId} (всего: ${subscribers.size})`);
+
+  return () => {
+    clearInterval(heartbeat);
+    subscribers.delete(id);
+    console.log(`🔵 [CHAT EVENTS] Отключен ${subscriber.role} ${subscriber.userId} (всего: ${subscribers.size})`);
+  };
+}
+
+/**
+ * Разослать событие всем участникам беседы
+ * @param {object} conversation - Беседа (id, clinicId, patientId, userId)
+ * @param {string} event - Название события (message:new | message:read | message:deleted | typing)
+ * @param {object} data - Данные события
+ * @param {object} options - { excludeUserId } - не отправлять событие этому пользователю
+ */
+export function publishToConversation(conversation, event, data, options = {}) {
+  const { excludeUserId = null } = options;
+
+  for (const subscriber of subscribers.values()) {
+    if (excludeUserId && subscriber.userId === excludeUserId) continue;
+    if (!canReceive(subscriber, conversation)) continue;
+
+    try {
+      writeEvent(subscriber.res, event, { conversationId: conversation.id, ...data });
+    } catch (error) {
+      console.error('⚠️ [CHAT EVENTS] Ошибка отправки события:', error.message);
+    }
+  }
+}
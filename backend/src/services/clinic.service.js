@@ -1,6 +1,7 @@
 import { prisma } from '../config/database.js';
 import { hashPassword, verifyPassword } from '../utils/hash.util.js';
 import { createSlug } from '../utils/slug.util.js';
+import { resolveTimezone } from '../utils/timezone.util.js';
 
 /**
  * Clinic Service
@@ -338,6 +339,21 @@ export async function getClinicSettings(clinicId) {
   }
 }
 
+/**
+ * Получить часовой пояс клиники (в нём считаются дни, недели и время приёмов)
+ * @param {string} clinicId - ID клиники
+ * @param {object} client - Prisma client или транзакция
+ * @returns {Promise<string>} IANA часовой пояс
+ */
+export async function getClinicTimezone(clinicId, client = prisma) {
+  const settings = await client.clinicSettings.findUnique({
+    where: { clinicId },
+    select: { timezone: true },
+  });
+
+  return resolveTimezone(settings?.timezone);
+}
+
 /**
  * Обновить настройки клиники
  * @param {string} clinicId - ID клиники
@@ -0,0 +1,206 @@
+import { prisma } from '../config/database.js';
+
+/**
+ * Clinical Note Service
+ * Структурированные протоколы приёмов: заполняются по шаблону категории лечения,
+ * после подписи не редактируются
+ */
+
+/**
+ * Разделы протокола и соответствующие поля шаблона категории
+ */
+const NOTE_SECTIONS = {
+  complaint: 'templateComplaint',
+  diagnosis: 'templateDiagnosis',
+  treatment: 'templateTreatment',
+  recommendations: 'templateRecommendations',
+};
+
+const NOTE_INCLUDE = {
+  author: { select: { id: true, name: true } },
+  signedBy: { select: { id: true, name: true } },
+};
+
+/**
+ * Найти приём с проверкой доступа
+ * Врач работает только со своими приёмами
+ * @param {object} actor - { userId, role, clinicId }
+ * @param {string} appointmentId - ID приёма
+ * @returns {Promise<object>} Приём с категорией лечения
+ */
+async function findAppointmentForActor(actor, appointmentId) {
+  const appointment = await prisma.appointment.findFirst({
+    where: { id: appointmentId, clinicId: actor.clinicId },
+    include: { treatmentCategory: true },
+  });
+
+  if (!appointment) {
+    throw new Error('Appointment not found');
+  }
+
+  if (actor.role === 'DOCTOR' && appointment.doctorId !== actor.userId) {
+    throw new Error('Appointment not found or access denied');
+  }
+
+  return appointment;
+}
+
+/**
+ * Шаблон протокола из категории лечения приёма
+ * @param {object|null} category - Категория лечения
+ * @returns {object|null} { complaint, diagnosis, treatment, recommendations } или null, если шаблона нет
+ */
+function buildTemplate(category) {
+  if (!category) {
+    return null;
+  }
+
+  const template = Object.fromEntries(
+    Object.entries(NOTE_SECTIONS).map(([section, field]) => [section, category[field] || ''])
+  );
+
+  return Object.values(template).some(Boolean) ? template : null;
+}
+
+/**
+ * Получить протокол приёма
+ * Если протокола ещё нет, возвращается шаблон категории лечения для заполнения
+ * @param {object} actor - { userId, role, clinicId }
+ * @param {string} appointmentId - ID приёма
+ * @returns {Promise<object>} { note, template }
+ */
+export async function getForAppointment(actor, appointmentId) {
+  const appointment = await findAppointmentForActor(actor, appointmentId);
+
+  const note = await prisma.clinicalNote.findUnique({
+    where: { appointmentId },
+    include: NOTE_INCLUDE,
+  });
+
+  return {
+    note,
+    template: buildTemplate(appointment.treatmentCategory),
+  };
+}
+
+/**
+ * Сохранить черновик протокола (создаётся при первом сохранении)
+ * @param {object} actor - { userId, role, clinicId }
+ * @param {string} appointmentId - ID приёма
+ * @param {object} data - { complaint, diagnosis, treatment, recommendations }
+ * @returns {Promise<object>} Протокол
+ */
+export async function save(actor, appointmentId, data) {
+  const appointment = await findAppointmentForActor(actor, appointmentId);
+
+  const existing = await prisma.clinicalNote.findUnique({
+    where: { appointmentId },
+    select: { status: true },
+  });
+
+  if (existing?.status === 'signed') {
+    throw new Error('Forbidden: clinical note is signed and can no longer be edited');
+  }
+
+  const sections = {};
+  Object.keys(NOTE_SECTIONS).forEach(section => {
+    if (data[section] !== undefined) {
+      sections[section] = data[section] || null;
+    }
+  });
+
+  if (!existing) {
+    try {
+      const note = await prisma.clinicalNote.create({
+        data: {
+          clinicId: actor.clinicId,
+          appointmentId,
+          patientId: appointment.patientId,
+          authorId: actor.userId,
+          ...sections,
+        },
+        include: NOTE_INCLUDE,
+      });
+
+      console.log(`✅ [CLINICAL NOTE] Протокол приёма ${appointmentId} создан`);
+      return note;
+    } catch (error) {
+      // Протокол уже создан параллельным первым сохранением — обновляем его как черновик ниже
+      if (error.code !== 'P2002') {
+        throw error;
+      }
+    }
+  }
+
+  // Обновляем только черновик — одним запросом, чтобы не перезаписать протокол, подписанный параллельно
+  const { count } = await prisma.clinicalNote.updateMany({
+    where: { appointmentId, status: 'draft' },
+    data: sections,
+  });
+
+  if (count === 0) {
+    throw new Error('Forbidden: clinical note is signed and can no longer be edited');
+  }
+
+  const note = await prisma.clinicalNote.findUnique({
+    where: { appointmentId },
+    include: NOTE_INCLUDE,
+  });
+
+  console.log(`✅ [CLINICAL NOTE] Протокол приёма ${appointmentId} сохранён`);
+  return note;
+}
+
+/**
+ * Подписать протокол: после подписи он не редактируется, а пациент видит рекомендации
+ * @param {object} actor - { userId, role, clinicId }
+ * @param {string} appointmentId - ID приёма
+ * @returns {Promise<object>} Подписанный протокол
+ */
+export async function sign(actor, appointmentId) {
+  const appointment = await findAppointmentForActor(actor, appointmentId);
+
+  if (['cancelled', 'no_show'].includes(appointment.status)) {
+    throw new Error('Appointment status is invalid: cannot sign a note for a cancelled or missed appointment');
+  }
+
+  const note = await prisma.clinicalNote.findUnique({
+    where: { appointmentId },
+  });
+
+  if (!note) {
+    throw new Error('Clinical note not found');
+  }
+  if (note.status === 'signed') {
+    throw new Error('Clinical note is invalid: it is already signed');
+  }
+  if (!Object.keys(NOTE_SECTIONS).some(section => note[section])) {
+    throw new Error('At least one section is required to sign the clinical note');
+  }
+
+  // Подписываем только непустой черновик — одним запросом, на случай параллельного сохранения или подписи
+  const { count } = await prisma.clinicalNote.updateMany({
+    where: {
+      appointmentId,
+      status: 'draft',
+      OR: Object.keys(NOTE_SECTIONS).map(section => ({ [section]: { not: null } })),
+    },
+    data: {
+      status: 'signed',
+      signedAt: new Date(),
+      signedById: actor.userId,
+    },
+  });
+
+  if (count === 0) {
+    throw new Error('Clinical note is invalid: it was changed or signed in the meantime');
+  }
+
+  const signed = await prisma.clinicalNote.findUnique({
+    where: { appointmentId },
+    include: NOTE_INCLUDE,
+  });
+
+  console.log(`✅ [CLINICAL NOTE] Протокол приёма ${appointmentId} подписан пользователем ${actor.userId}`);
+  return signed;
+}
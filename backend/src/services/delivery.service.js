@@ -0,0 +1,328 @@
+import { prisma } from '../config/database.js';
+import { config } from '../config/app.js';
+import { getProvider } from '../channels/index.js';
+
+/**
+ * Delivery Service
+ * Отправка уведомлений по внешним каналам (email / SMS) и журнал доставки с повторами
+ */
+
+/**
+ * Базовая задержка перед повтором (мс); растёт вдвое с каждой попыткой
+ */
+const RETRY_BASE_DELAY_MS = 60 * 1000;
+
+/**
+ * Сколько повторов обрабатывать за один проход планировщика
+ */
+const RETRY_BATCH_SIZE = 50;
+
+/**
+ * Через сколько доставка в статусе pending / sending считается брошенной (сбой или перезапуск сервера
+ * во время отправки) и подхватывается повтором
+ */
+const STALE_SENDING_MS = 10 * 60 * 1000;
+
+/**
+ * Получить имя настроенного провайдера канала (для журнала)
+ * @param {string} channel - email | sms
+ * @returns {string}
+ */
+function getConfiguredProviderName(channel) {
+  return channel === 'email' ? config.emailProvider : config.smsProvider;
+}
+
+/**
+ * Найти контакты получателя уведомления
+ * @param {object} notification - Уведомление (patientId | userId)
+ * @returns {Promise<object|null>} { email, phone }
+ */
+async function findRecipientContacts(notification) {
+  if (notification.patientId) {
+    return prisma.patient.findUnique({
+      where: { id: notification.patientId },
+      select: { email: true, phone: true },
+    });
+  }
+
+  if (notification.userId) {
+    return prisma.user.findUnique({
+      where: { id: notification.userId },
+      select: { email: true, phone: true },
+    });
+  }
+
+  return null;
+}
+
+/**
+ * Условие «доставку можно повторить»: время повтора наступило или отправка зависла
+ * @param {Date} now - Текущий момент
+ * @returns {object} Prisma where
+ */
+function retryableWhere(now) {
+  return {
+    OR: [
+      { status: 'retrying', nextRetryAt: { lte: now } },
+      { status: { in: ['pending', 'sending'] }, updatedAt: { lt: new Date(now.getTime() - STALE_SENDING_MS) } },
+    ],
+  };
+}
+
+/**
+ * Занять доставку для отправки: статус sending ставится условным обновлением,
+ * поэтому планировщик и ручной повтор не отправят одно сообщение дважды
+ * @param {string} deliveryId - ID записи журнала
+ * @param {object} where - Условие, при котором доставку можно занять
+ * @returns {Promise<boolean>} true, если доставка занята этим вызовом
+ */
+async function claim(deliveryId, where) {
+  const { count } = await prisma.notificationDelivery.updateMany({
+    where: { id: deliveryId, ...where },
+    data: { status: 'sending' },
+  });
+
+  return count === 1;
+}
+
+/**
+ * Выполнить одну попытку доставки и обновить журнал
+ * Доставка должна быть занята (status = sending)
+ * @param {object} delivery - Запись журнала доставки
+ * @returns {Promise<object>} Обновлённая запись
+ */
+async function attempt(delivery) {
+  const attempts = delivery.attempts + 1;
+
+  try {
+    const provider = getProvider(delivery.channel);
+    await provider.send({
+      to: delivery.recipient,
+      subject: delivery.subject,
+      text: delivery.body,
+    });
+
+    console.log(`✅ [DELIVERY] ${delivery.channel} ${delivery.id} отправлено (${provider.name}) → ${delivery.recipient}`);
+
+    return prisma.notificationDelivery.update({
+      where: { id: delivery.id },
+      data: {
+        status: 'sent',
+        provider: provider.name,
+        attempts,
+        lastError: null,
+        nextRetryAt: null,
+        sentAt: new Date(),
+      },
+    });
+  } catch (error) {
+    const canRetry = attempts < config.deliveryMaxAttempts;
+    const nextRetryAt = canRetry
+      ? new Date(Date.now() + RETRY_BASE_DELAY_MS * 2 ** (attempts - 1))
+      : null;
+
+    console.error(`🔴 [DELIVERY] ${delivery.channel} ${delivery.id} попытка ${attempts} не удалась:`, error.message);
+
+    return prisma.notificationDelivery.update({
+      where: { id: delivery.id },
+      data: {
+        status: canRetry ? 'retrying' : 'failed',
+        attempts,
+        lastError: error.message,
+        nextRetryAt,
+      },
+    });
+  }
+}
+
+/**
+ * Отправить уведомление по внешним каналам, включённым в настройках клиники
+ * Вызывается после создания in-app уведомления; ошибки отправки попадают в журнал
+ * @param {object} notification - Созданное уведомление
+ * @returns {Promise<Array>} Записи журнала доставки
+ */
+export async function dispatch(notification) {
+  const settings = await prisma.clinicSettings.findUnique({
+    where: { clinicId: notification.clinicId },
+    select: { emailNotificationsEnabled: true, smsNotificationsEnabled: true },
+  });
+
+  // Если настроек нет — используем дефолты модели (email включён, SMS выключен)
+  const emailEnabled = settings ? settings.emailNotificationsEnabled : true;
+  const smsEnabled = settings ? settings.smsNotificationsEnabled : false;
+
+  if (!emailEnabled && !smsEnabled) {
+    return [];
+  }
+
+  const contacts = await findRecipientContacts(notification);
+  if (!contacts) {
+    return [];
+  }
+
+  const targets = [];
+  if (emailEnabled && contacts.email) {
+    targets.push({ channel: 'email', recipient: contacts.email, subject: notification.title });
+  }
+  if (smsEnabled && contacts.phone) {
+    targets.push({ channel: 'sms', recipient: contacts.phone, subject: null });
+  }
+
+  const deliveries = [];
+  for (const target of targets) {
+    const delivery = await prisma.notificationDelivery.create({
+      data: {
+        clinicId: notification.clinicId, // ОБЯЗАТЕЛЬНО!
+        notificationId: notification.id,
+        channel: target.channel,
+        provider: getConfiguredProviderName(target.channel),
+        recipient: target.recipient,
+        subject: target.subject,
+        body: target.channel === 'sms' ? `${notification.title}. ${notification.message}` : notification.message,
+        status: 'sending', // Отправляется сразу; если сервер упадёт, её подхватит retryDue
+      },
+    });
+
+    deliveries.push(await attempt(delivery));
+  }
+
+  return deliveries;
+}
+
+/**
+ * Отправить служебное сообщение напрямую на контакт (без in-app уведомления), например код подтверждения
+ * Отправка попадает в журнал доставки клиники и повторяется при сбое, как и обычные уведомления
+ * @param {string} clinicId - ID клиники
+ * @param {object} message - { channel: email | sms, recipient, subject, body }
+ * @returns {Promise<object>} Запись журнала доставки
+ */
+export async function sendDirect(clinicId, { channel, recipient, subject = null, body }) {
+  const delivery = await prisma.notificationDelivery.create({
+    data: {
+      clinicId, // ОБЯЗАТЕЛЬНО!
+      channel,
+      provider: getConfiguredProviderName(channel),
+      recipient,
+      subject: channel === 'email' ? subject : null,
+      body: channel === 'sms' && subject ? `${subject}. ${body}` : body,
+      status: 'sending', // Отправляется сразу; если сервер упадёт, её подхватит retryDue
+    },
+  });
+
+  return attempt(delivery);
+}
+
+/**
+ * Повторить доставки, у которых наступило время следующей попытки, и зависшие отправки
+ * @param {Date} now - Текущий момент (по умолчанию — сейчас)
+ * @returns {Promise<number>} Количество обработанных доставок
+ */
+export async function retryDue(now = new Date()) {
+  const due = await prisma.notificationDelivery.findMany({
+    where: retryableWhere(now),
+    orderBy: { createdAt: 'asc' },
+    take: RETRY_BATCH_SIZE,
+  });
+
+  let processed = 0;
+  for (const delivery of due) {
+    // Доставку мог уже занять ручной повтор или параллельный проход планировщика
+    if (!(await claim(delivery.id, retryableWhere(now)))) {
+      continue;
+    }
+
+    await attempt(delivery);
+    processed++;
+  }
+
+  return processed;
+}
+
+/**
+ * Получить журнал доставки клиники
+ * @param {string} clinicId - ID клиники
+ * @param {object} options - Опции (status, channel, page, limit)
+ * @returns {Promise<object>} { deliveries, meta }
+ */
+export async function findAll(clinicId, options = {}) {
+  const { status, channel, page = 1, limit = 20 } = options;
+  const skip = (page - 1) * limit;
+
+  const where = {
+    clinicId, // ВСЕГДА фильтруем по clinicId!
+  };
+
+  if (status) {
+    where.status = status;
+  }
+
+  if (channel) {
+    where.channel = channel;
+  }
+
+  const [deliveries, total] = await Promise.all([
+    prisma.notificationDelivery.findMany({
+      where,
+      orderBy: { createdAt: 'desc' },
+      take: limit,
+      skip,
+      include: {
+        notification: {
+          select: {
+            id: true,
+            type: true,
+            title: true,
+          },
+        },
+      },
+    }),
+    prisma.notificationDelivery.count({ where }),
+  ]);
+
+  return {
+    deliveries,
+    meta: {
+      total,
+      page,
+      limit,
+      totalPages: Math.ceil(total / limit),
+    },
+  };
+}
+
+/**
+ * Повторить доставку вручную (сразу, без ожидания nextRetryAt)
+ * @param {string} clinicId - ID клиники
+ * @param {string} deliveryId - ID записи журнала
+ * @returns {Promise<object>} Обновлённая запись
+ */
+export async function retry(clinicId, deliveryId) {
+  const delivery = await prisma.notificationDelivery.findFirst({
+    where: {
+      id: deliveryId,
+      clinicId, // ОБЯЗАТЕЛЬНО!
+    },
+  });
+
+  if (!delivery) {
+    throw new Error('Delivery not found');
+  }
+
+  if (delivery.status === 'sent') {
+    throw new Error('Delivery is already sent, retry is invalid');
+  }
+
+  // Повторяются неудачные и зависшие доставки; идущую сейчас отправку не трогаем
+  const now = new Date();
+  const claimed = await claim(delivery.id, {
+    OR: [{ status: { in: ['retrying', 'failed'] } }, ...retryableWhere(now).OR],
+  });
+
+  if (!claimed) {
+    throw new Error('Delivery is being sent or already sent, retry is invalid');
+  }
+
+  console.log(`🔄 [DELIVERY] Ручной повтор доставки ${deliveryId}`);
+
+  return attempt(delivery);
+}
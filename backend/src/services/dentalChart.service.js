@@ -0,0 +1,137 @@
+import { prisma } from '../config/database.js';
+import { getClinicTimezone } from './clinic.service.js';
+import { getZonedDayRange } from '../utils/timezone.util.js';
+import { DENTAL_CHART_CODES, buildOdontogram } from '../utils/odontogram.util.js';
+
+/**
+ * Dental Chart Service
+ * Зубная карта (одонтограмма) пациента: журнал состояний и процедур по зубам и поверхностям.
+ * Записи только добавляются, поэтому карту можно посмотреть на любую прошлую дату
+ */
+
+const ENTRY_INCLUDE = {
+  doctor: { select: { id: true, name: true } },
+  appointment: { select: { id: true, appointmentDate: true, reason: true, status: true } },
+};
+
+/**
+ * Проверить доступ к карте пациента
+ * Врач видит карту только пациентов, у которых есть приёмы к нему (как и профиль пациента)
+ * @param {object} actor - { userId, role, clinicId }
+ * @param {string} patientId - ID пациента
+ */
+async function assertPatientAccess(actor, patientId) {
+  const patient = await prisma.patient.findFirst({
+    where: { id: patientId, clinicId: actor.clinicId },
+    select: { id: true },
+  });
+
+  if (!patient) {
+    throw new Error('Patient not found');
+  }
+
+  if (actor.role === 'DOCTOR') {
+    const hasAppointments = await prisma.appointment.findFirst({
+      where: { clinicId: actor.clinicId, patientId, doctorId: actor.userId },
+      select: { id: true },
+    });
+
+    if (!hasAppointments) {
+      throw new Error('Patient not found or access denied');
+    }
+  }
+}
+
+/**
+ * Получить зубную карту пациента
+ * @param {object} actor - { userId, role, clinicId }
+ * @param {string} patientId - ID пациента
+ * @param {object} options - { asOf: 'YYYY-MM-DD' } — состояние на конец этого дня по часам клиники
+ * @returns {Promise<object>} { patientId, asOf, teeth, entries } — entries от новых к старым
+ */
+export async function getDentalChart(actor, patientId, options = {}) {
+  await assertPatientAccess(actor, patientId);
+
+  const where = { clinicId: actor.clinicId, patientId };
+
+  if (options.asOf) {
+    if (!/^\d{4}-\d{2}-\d{2}$/.test(options.asOf)) {
+      throw new Error('asOf date is invalid, expected YYYY-MM-DD');
+    }
+
+    const timezone = await getClinicTimezone(actor.clinicId);
+    where.recordedAt = { lt: getZonedDayRange(options.asOf, timezone).lt };
+  }
+
+  const entries = await prisma.dentalChartEntry.findMany({
+    where,
+    include: ENTRY_INCLUDE,
+    orderBy: [{ recordedAt: 'asc' }, { createdAt: 'asc' }],
+  });
+
+  return {
+    patientId,
+    asOf: options.asOf || null,
+    teeth: buildOdontogram(entries),
+    entries: [...entries].reverse(),
+  };
+}
+
+/**
+ * Добавить запись в зубную карту
+ * Для нескольких поверхностей создаётся по записи на каждую (в одной транзакции)
+ * @param {object} actor - { userId, role, clinicId }
+ * @param {string} patientId - ID пациента
+ * @param {object} data - { tooth, surfaces?, code, appointmentId?, notes? }
+ * @returns {Promise<Array>} Созданные записи
+ */
+export async function addEntry(actor, patientId, data) {
+  await assertPatientAccess(actor, patientId);
+
+  const { scope } = DENTAL_CHART_CODES[data.code];
+  const surfaces = data.surfaces || [];
+
+  if (scope === 'surface' && surfaces.length === 0) {
+    throw new Error('Surfaces are required for this condition');
+  }
+  if (scope === 'tooth' && surfaces.length > 0) {
+    throw new Error('Surfaces are invalid: this condition applies to the whole tooth');
+  }
+
+  if (data.appointmentId) {
+    const appointment = await prisma.appointment.findFirst({
+      where: { id: data.appointmentId, clinicId: actor.clinicId, patientId },
+      select: { id: true },
+    });
+
+    if (!appointment) {
+      throw new Error('Appointment not found');
+    }
+  }
+
+  const recordedAt = new Date();
+  const baseData = {
+    clinicId: actor.clinicId,
+    patientId,
+    appointmentId: data.appointmentId || null,
+    doctorId: actor.userId,
+    tooth: data.tooth,
+    code: data.code,
+    notes: data.notes || null,
+    recordedAt,
+  };
+
+  const entries = await prisma.$transaction(
+    (surfaces.length > 0 ? surfaces : [null]).map(surface =>
+      prisma.dentalChartEntry.create({
+        data: { ...baseData, surface },
+        include: ENTRY_INCLUDE,
+      })
+    )
+  );
+
+  console.log(
+    `✅ [DENTAL CHART] Пациент ${patientId}: зуб ${data.tooth}${surfaces.length ? ` (${surfaces.join(', ')})` : ''} — ${data.code}`
+  );
+  return entries;
+}
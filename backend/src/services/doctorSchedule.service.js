@@ -1,10 +1,99 @@
 import { prisma } from '../config/database.js';
+import { getClinicTimezone } from './clinic.service.js';
+import { resolveTimezone, getZonedParts, zonedTimeToUtc, addDaysToDateKey, getDayOfWeek } from '../utils/timezone.util.js';
 
 /**
  * Doctor Schedule Service
  * Бизнес-логика для работы с расписанием врачей
  */
 
+/**
+ * Регулярка формата времени HH:mm
+ */
+const TIME_PATTERN = /^([0-1][0-9]|2[0-3]):[0-5][0-9]$/;
+
+/**
+ * Регулярка формата даты YYYY-MM-DD
+ */
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+/**
+ * Рабочие часы по умолчанию, если у врача нет расписания, а у клиники — workingHours
+ */
+const DEFAULT_WORKING_HOURS = { startTime: '09:00', endTime: '18:00' };
+
+/**
+ * Ключи дней недели в Clinic.workingHours (индекс = getDay())
+ */
+const WEEKDAY_KEYS = ['sunday', 'monday', 'tuesday', 'wednesday', 'thursday', 'friday', 'saturday'];
+
+/**
+ * Разобрать перерывы дня из JSON-строки
+ * @param {string|null} breaks - JSON [{ startTime, endTime }]
+ * @returns {Array} Перерывы, отсортированные по началу
+ */
+function parseBreaks(breaks) {
+  if (!breaks) {
+    return [];
+  }
+
+  try {
+    const parsed = typeof breaks === 'string' ? JSON.parse(breaks) : breaks;
+    return Array.isArray(parsed)
+      ? parsed
+        .filter(item => item && item.startTime && item.endTime)
+        .sort((a, b) => a.startTime.localeCompare(b.startTime))
+      : [];
+  } catch {
+    return [];
+  }
+}
+
+/**
+ * Преобразовать запись расписания для ответа API (breaks — массив, а не строка)
+ * @param {object|null} schedule - Запись DoctorSchedule
+ * @returns {object|null}
+ */
+function formatSchedule(schedule) {
+  if (!schedule) {
+    return null;
+  }
+
+  return {
+    ...schedule,
+    breaks: parseBreaks(schedule.breaks),
+  };
+}
+
+/**
+ * Проверить перерывы дня: формат HH:mm, внутри рабочих часов, без пересечений
+ * @param {object} day - { dayOfWeek, startTime, endTime, breaks }
+ * @returns {Array} Нормализованные перерывы, отсортированные по началу
+ */
+function validateBreaks(day) {
+  const breaks = parseBreaks(day.breaks);
+
+  for (const item of breaks) {
+    if (!TIME_PATTERN.test(item.startTime) || !TIME_PATTERN.test(item.endTime)) {
+      throw new Error(`Invalid break time format on day ${day.dayOfWeek}. Expected HH:mm`);
+    }
+    if (item.startTime >= item.endTime) {
+      throw new Error(`Invalid break on day ${day.dayOfWeek}: startTime must be before endTime`);
+    }
+    if (item.startTime <= day.startTime || item.endTime >= day.endTime) {
+      throw new Error(`Invalid break on day ${day.dayOfWeek}: break must be inside working hours ${day.startTime}–${day.endTime}`);
+    }
+  }
+
+  for (let i = 1; i < breaks.length; i++) {
+    if (breaks[i].startTime < breaks[i - 1].endTime) {
+      throw new Error(`Invalid breaks on day ${day.dayOfWeek}: breaks must not overlap`);
+    }
+  }
+
+  return breaks.map(item => ({ startTime: item.startTime, endTime: item.endTime }));
+}
+
 /**
  * Получить полное расписание врача (все дни недели)
  * @param {string} doctorId - ID врача
@@ -37,7 +126,7 @@ export async function getSchedule(doctorId) {
     });
 
     console.log(`✅ [DOCTOR SCHEDULE SERVICE] Найдено ${schedule.length} записей расписания`);
-    return schedule || [];
+    return (schedule || []).map(formatSchedule);
   } catch (error) {
     console.error('🔴 [DOCTOR SCHEDULE SERVICE] Ошибка при получении расписания:', {
       message: error.message,
@@ -66,7 +155,7 @@ export async function getScheduleByDay(doctorId, dayOfWeek) {
     },
   });
 
-  return schedule;
+  return formatSchedule(schedule);
 }
 
 /**
@@ -112,6 +201,17 @@ export async function updateSchedule(doctorId, scheduleData) {
     }
   }
 
+  // Перерывы храним только для рабочих дней
+  const breaksByDay = new Map(
+    scheduleData.map(day => {
+      const isWorking = day.isWorking !== undefined ? day.isWorking : true;
+      const breaks = isWorking
+        ? validateBreaks({ ...day, startTime: day.startTime || '09:00', endTime: day.endTime || '18:00' })
+        : [];
+      return [day.dayOfWeek, breaks.length > 0 ? JSON.stringify(breaks) : null];
+    })
+  );
+
   // Используем транзакцию для атомарного обновления
   const result = await prisma.$transaction(
     scheduleData.map(day =>
@@ -126,6 +226,7 @@ export async function updateSchedule(doctorId, scheduleData) {
           startTime: day.startTime || '09:00',
           endTime: day.endTime || '18:00',
           isWorking: day.isWorking !== undefined ? day.isWorking : true,
+          breaks: breaksByDay.get(day.dayOfWeek),
         },
         create: {
           doctorId,
@@ -133,13 +234,14 @@ export async function updateSchedule(doctorId, scheduleData) {
           startTime: day.startTime || '09:00',
           endTime: day.endTime || '18:00',
           isWorking: day.isWorking !== undefined ? day.isWorking : true,
+          breaks: breaksByDay.get(day.dayOfWeek),
         },
       })
     )
   );
 
   console.log(`✅ [DOCTOR SCHEDULE SERVICE] Расписание успешно обновлено: ${result.length} записей`);
-  return result;
+  return result.map(formatSchedule);
 }
 
 /**
@@ -156,3 +258,386 @@ export async function deleteSchedule(doctorId) {
   console.log('✅ [DOCTOR SCHEDULE SERVICE] Расписание удалено');
 }
 
+
+/**
+ * Часовой пояс клиники врача — рабочие часы и даты исключений заданы на часах клиники
+ * @param {string} doctorId - ID врача
+ * @returns {Promise<string>}
+ */
+async function getDoctorTimezone(doctorId) {
+  const doctor = await prisma.user.findUnique({
+    where: { id: doctorId },
+    select: { clinicId: true },
+  });
+
+  return doctor?.clinicId ? getClinicTimezone(doctor.clinicId) : resolveTimezone(null);
+}
+
+/**
+ * Часы работы клиники врача (Clinic.workingHours)
+ * @param {string} doctorId - ID врача
+ * @returns {Promise<string|null>}
+ */
+async function getDoctorClinicWorkingHours(doctorId) {
+  const doctor = await prisma.user.findUnique({
+    where: { id: doctorId },
+    select: { clinic: { select: { workingHours: true } } },
+  });
+
+  return doctor?.clinic?.workingHours || null;
+}
+
+/**
+ * Преобразовать дату в ключ YYYY-MM-DD на часах клиники
+ * @param {Date|string} date - Дата или строка YYYY-MM-DD
+ * @param {string} timezone - Часовой пояс клиники
+ * @returns {string}
+ */
+export function toDateKey(date, timezone) {
+  if (typeof date === 'string' && DATE_PATTERN.test(date)) {
+    return date;
+  }
+
+  return getZonedParts(date, resolveTimezone(timezone)).dateKey;
+}
+
+/**
+ * Получить момент времени для даты и времени HH:mm на часах клиники
+ * @param {string} dateKey - Дата YYYY-MM-DD
+ * @param {string} time - Время HH:mm
+ * @param {string} timezone - Часовой пояс клиники
+ * @returns {Date}
+ */
+function toDateTime(dateKey, time, timezone) {
+  return zonedTimeToUtc(dateKey, time, timezone);
+}
+
+/**
+ * Получить рабочие часы врача на конкретную дату
+ * Исключение на дату имеет приоритет над недельным расписанием
+ * @param {string} doctorId - ID врача
+ * @param {Date|string} date - Дата YYYY-MM-DD или момент времени (день берётся на часах клиники)
+ * @returns {Promise<object|null>} { isWorking, startTime, endTime, breaks, source: 'exception' | 'weekly', reason } или null, если расписание не задано
+ */
+export async function getEffectiveDaySchedule(doctorId, date) {
+  const dateKey = typeof date === 'string' && DATE_PATTERN.test(date)
+    ? date
+    : toDateKey(date, await getDoctorTimezone(doctorId));
+
+  const exception = await prisma.doctorScheduleException.findUnique({
+    where: {
+      doctorId_date: {
+        doctorId,
+        date: dateKey,
+      },
+    },
+  });
+
+  if (exception) {
+    return {
+      isWorking: exception.isWorking,
+      startTime: exception.startTime,
+      endTime: exception.endTime,
+      breaks: [],
+      source: 'exception',
+      reason: exception.reason,
+    };
+  }
+
+  const dayOfWeek = getDayOfWeek(dateKey);
+  const weekly = await getScheduleByDay(doctorId, dayOfWeek);
+
+  if (!weekly) {
+    return null;
+  }
+
+  return {
+    isWorking: weekly.isWorking,
+    startTime: weekly.startTime,
+    endTime: weekly.endTime,
+    breaks: weekly.breaks,
+    source: 'weekly',
+    reason: null,
+  };
+}
+
+/**
+ * Рабочие часы клиники на день недели (если у врача нет расписания)
+ * @param {string|null} workingHours - Clinic.workingHours (JSON)
+ * @param {string} dateKey - Дата YYYY-MM-DD
+ * @returns {object} { isWorking, startTime, endTime, breaks, source: 'clinic' | 'default', reason }
+ */
+export function getClinicDaySchedule(workingHours, dateKey) {
+  const dayKey = WEEKDAY_KEYS[getDayOfWeek(dateKey)];
+
+  let hours = null;
+  if (workingHours) {
+    try {
+      const parsed = typeof workingHours === 'string' ? JSON.parse(workingHours) : workingHours;
+      hours = parsed?.[dayKey] || null;
+    } catch (error) {
+      console.warn('⚠️ [DOCTOR SCHEDULE SERVICE] Ошибка парсинга workingHours клиники:', error.message);
+    }
+  }
+
+  if (!hours) {
+    return { isWorking: true, ...DEFAULT_WORKING_HOURS, breaks: [], source: 'default', reason: null };
+  }
+
+  return {
+    isWorking: !!hours.isOpen && !!hours.open && !!hours.close,
+    startTime: hours.open,
+    endTime: hours.close,
+    breaks: [],
+    source: 'clinic',
+    reason: null,
+  };
+}
+
+/**
+ * Получить нерабочие интервалы врача на дату (вне рабочих часов и перерывы)
+ * Без расписания врача действуют часы работы клиники — как и в подборе свободных слотов
+ * @param {string} doctorId - ID врача
+ * @param {Date|string} date - Дата
+ * @returns {Promise<Array>} [{ start: Date, end: Date, reason }]
+ */
+export async function getUnavailableIntervals(doctorId, date) {
+  const timezone = await getDoctorTimezone(doctorId);
+  const dateKey = toDateKey(date, timezone);
+  const daySchedule =
+    (await getEffectiveDaySchedule(doctorId, dateKey)) ||
+    getClinicDaySchedule(await getDoctorClinicWorkingHours(doctorId), dateKey);
+
+  const dayStart = toDateTime(dateKey, '00:00', timezone);
+  const dayEnd = toDateTime(addDaysToDateKey(dateKey, 1), '00:00', timezone);
+
+  const reason = daySchedule.reason || (daySchedule.source === 'exception' ? 'Исключение из расписания' : 'Нерабочее время');
+
+  if (!daySchedule.isWorking || !daySchedule.startTime || !daySchedule.endTime) {
+    return [{ start: dayStart, end: dayEnd, reason: daySchedule.reason || 'Выходной' }];
+  }
+
+  const workStart = toDateTime(dateKey, daySchedule.startTime, timezone);
+  const workEnd = toDateTime(dateKey, daySchedule.endTime, timezone);
+
+  const intervals = [];
+  if (workStart > dayStart) {
+    intervals.push({ start: dayStart, end: workStart, reason });
+  }
+  for (const item of daySchedule.breaks || []) {
+    intervals.push({
+      start: toDateTime(dateKey, item.startTime, timezone),
+      end: toDateTime(dateKey, item.endTime, timezone),
+      reason: 'Перерыв',
+    });
+  }
+  if (workEnd < dayEnd) {
+    intervals.push({ start: workEnd, end: dayEnd, reason });
+  }
+
+  return intervals;
+}
+
+/**
+ * Найти нерабочий интервал (вне рабочих часов, перерыв, выходной), пересекающий приём
+ * Учитывает недельное расписание с перерывами и исключения на дату, без расписания — часы работы клиники
+ * @param {string} doctorId - ID врача
+ * @param {Date} appointmentDate - Начало приёма
+ * @param {number} duration - Длительность (минуты)
+ * @returns {Promise<object|null>} { start, end, reason } или null, если время рабочее
+ */
+export async function findScheduleConflict(doctorId, appointmentDate, duration) {
+  const start = new Date(appointmentDate);
+  const end = new Date(start.getTime() + duration * 60000);
+  const intervals = await getUnavailableIntervals(doctorId, start);
+
+  return intervals.find(interval => start < interval.end && end > interval.start) || null;
+}
+
+/**
+ * Найти приёмы врача, которые конфликтуют с исключением из расписания
+ * @param {object} exception - Исключение (doctorId, date, isWorking, startTime, endTime)
+ * @returns {Promise<Array>} Конфликтующие приёмы
+ */
+async function findExceptionConflicts(exception) {
+  const timezone = await getDoctorTimezone(exception.doctorId);
+  const dayStart = toDateTime(exception.date, '00:00', timezone);
+  const dayEnd = toDateTime(addDaysToDateKey(exception.date, 1), '00:00', timezone);
+
+  const appointments = await prisma.appointment.findMany({
+    where: {
+      doctorId: exception.doctorId,
+      status: { in: ['pending', 'confirmed', 'arrived', 'in_progress'] },
+      appointmentDate: {
+        gte: dayStart,
+        lt: dayEnd,
+      },
+    },
+    select: {
+      id: true,
+      appointmentDate: true,
+      duration: true,
+      status: true,
+      reason: true,
+      patient: {
+        select: {
+          id: true,
+          name: true,
+          phone: true,
+        },
+      },
+    },
+    orderBy: { appointmentDate: 'asc' },
+  });
+
+  if (!exception.isWorking) {
+    return appointments;
+  }
+
+  const workStart = toDateTime(exception.date, exception.startTime, timezone);
+  const workEnd = toDateTime(exception.date, exception.endTime, timezone);
+
+  return appointments.filter(apt => {
+    const start = new Date(apt.appointmentDate);
+    const end = new Date(start.getTime() + apt.duration * 60000);
+    return start < workStart || end > workEnd;
+  });
+}
+
+/**
+ * Получить исключения из расписания врача
+ * Каждое исключение возвращается вместе с конфликтующими приёмами
+ * @param {string} doctorId - ID врача
+ * @param {object} options - { from, to } - диапазон дат YYYY-MM-DD (по умолчанию с сегодняшнего дня)
+ * @returns {Promise<Array>} Исключения с полем conflicts
+ */
+export async function getExceptions(doctorId, options = {}) {
+  const from = options.from || toDateKey(new Date(), await getDoctorTimezone(doctorId));
+  const where = {
+    doctorId,
+    date: { gte: from },
+  };
+
+  if (options.to) {
+    where.date.lte = options.to;
+  }
+
+  const exceptions = await prisma.doctorScheduleException.findMany({
+    where,
+    orderBy: { date: 'asc' },
+  });
+
+  return Promise.all(
+    exceptions.map(async exception => ({
+      ...exception,
+      conflicts: await findExceptionConflicts(exception),
+    }))
+  );
+}
+
+/**
+ * Создать или обновить исключение из расписания на дату
+ * @param {string} doctorId - ID врача
+ * @param {object} data - { date, isWorking, startTime, endTime, reason }
+ * @returns {Promise<object>} Исключение с полем conflicts (приёмы, которые теперь вне рабочего времени)
+ */
+export async function upsertException(doctorId, data) {
+  console.log('🔵 [DOCTOR SCHEDULE SERVICE] Сохранение исключения из расписания:', { doctorId, date: data.date });
+
+  const doctor = await prisma.user.findUnique({
+    where: { id: doctorId },
+    select: { id: true, role: true, name: true, clinicId: true },
+  });
+
+  if (!doctor) {
+    throw new Error('Doctor not found');
+  }
+
+  if (doctor.role !== 'DOCTOR') {
+    throw new Error('User is not a doctor');
+  }
+
+  if (!DATE_PATTERN.test(data.date || '')) {
+    throw new Error(`Invalid date format: ${data.date}. Expected YYYY-MM-DD`);
+  }
+
+  const isWorking = !!data.isWorking;
+  if (isWorking) {
+    if (!TIME_PATTERN.test(data.startTime || '') || !TIME_PATTERN.test(data.endTime || '')) {
+      throw new Error('startTime and endTime are required in HH:mm format for a working exception');
+    }
+    if (data.startTime >= data.endTime) {
+      throw new Error('Invalid time range: startTime must be before endTime');
+    }
+  }
+
+  const values = {
+    isWorking,
+    startTime: isWorking ? data.startTime : null,
+    endTime: isWorking ? data.endTime : null,
+    reason: data.reason || null,
+  };
+
+  const exception = await prisma.doctorScheduleException.upsert({
+    where: {
+      doctorId_date: {
+        doctorId,
+        date: data.date,
+      },
+    },
+    update: values,
+    create: {
+      doctorId,
+      date: data.date,
+      ...values,
+    },
+  });
+
+  const conflicts = await findExceptionConflicts(exception);
+
+  // Приёмы, которые оказались вне рабочего времени, — сообщаем администратору клиники
+  if (conflicts.length > 0) {
+    console.warn(`⚠️ [DOCTOR SCHEDULE SERVICE] Исключение ${exception.date} конфликтует с ${conflicts.length} приёмами`);
+
+    if (doctor.clinicId) {
+      try {
+        const { createForAdmin } = await import('./notification.service.js');
+        await createForAdmin(doctor.clinicId, {
+          type: 'other',
+          title: 'Конфликт с исключением из расписания',
+          message: `У врача ${doctor.name} ${exception.date} ${exception.isWorking ? `особые часы ${exception.startTime}–${exception.endTime}` : 'выходной'}, но на эту дату есть ${conflicts.length} приём(ов) вне рабочего времени. Перенесите или отмените их.`,
+          appointmentId: conflicts[0].id,
+        });
+      } catch (error) {
+        console.error('🔴 [DOCTOR SCHEDULE SERVICE] Ошибка создания уведомления о конфликте:', error.message);
+      }
+    }
+  }
+
+  console.log('✅ [DOCTOR SCHEDULE SERVICE] Исключение сохранено:', exception.id);
+  return { ...exception, conflicts };
+}
+
+/**
+ * Удалить исключение из расписания
+ * @param {string} doctorId - ID врача
+ * @param {string} exceptionId - ID исключения
+ */
+export async function deleteException(doctorId, exceptionId) {
+  const exception = await prisma.doctorScheduleException.findFirst({
+    where: {
+      id: exceptionId,
+      doctorId,
+    },
+  });
+
+  if (!exception) {
+    throw new Error('Schedule exception not found');
+  }
+
+  await prisma.doctorScheduleException.delete({
+    where: { id: exceptionId },
+  });
+
+  console.log('✅ [DOCTOR SCHEDULE SERVICE] Исключение удалено:', exceptionId);
+}
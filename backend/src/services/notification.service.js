@@ -1,10 +1,22 @@
 import { prisma } from '../config/database.js';
+import * as deliveryService from './delivery.service.js';
 
 /**
  * Notification Service
  * Бизнес-логика для работы с уведомлениями
  */
 
+/**
+ * Отправить уведомление по email/SMS в фоне
+ * Ошибки отправки не мешают созданию in-app уведомления (они фиксируются в журнале доставки)
+ * @param {object} notification - Созданное уведомление
+ */
+function dispatchToChannels(notification) {
+  deliveryService.dispatch(notification).catch((error) => {
+    console.error(`🔴 [NOTIFICATION] Ошибка отправки уведомления ${notification.id} по внешним каналам:`, error.message);
+  });
+}
+
 /**
  * Получить все уведомления пациента или врача
  * @param {string} clinicId - ID клиники
@@ -77,6 +89,32 @@ export async function findAll(clinicId, patientId = null, userId = null, options
 
   console.log('✅ [NOTIFICATION SERVICE] findAll результат:', { count: notifications.length, total });
 
+  // Для пациента добавляем к уведомлениям об отмене состояние предложенного времени,
+  // чтобы принять или отклонить его прямо из уведомления
+  if (patientId) {
+    const appointmentIds = notifications
+      .filter(notification => notification.type === 'cancellation' && notification.appointmentId)
+      .map(notification => notification.appointmentId);
+
+    if (appointmentIds.length > 0) {
+      const appointments = await prisma.appointment.findMany({
+        where: { id: { in: appointmentIds }, suggestedNewDate: { not: null } },
+        select: { id: true, suggestedNewDate: true, suggestionStatus: true },
+      });
+      const suggestions = new Map(appointments.map(appointment => [appointment.id, appointment]));
+
+      notifications.forEach(notification => {
+        const suggestion = suggestions.get(notification.appointmentId);
+        if (notification.type === 'cancellation' && suggestion) {
+          notification.suggestion = {
+            suggestedNewDate: suggestion.suggestedNewDate,
+            status: suggestion.suggestionStatus,
+          };
+        }
+      });
+    }
+  }
+
   return {
     notifications,
     meta: {
@@ -124,7 +162,7 @@ export async function findById(clinicId, patientId, userId, notificationId) {
  * Создать уведомление для пациента
  * @param {string} clinicId - ID клиники
  * @param {string} patientId - ID пациента
- * @param {object} data - Данные уведомления (type, title, message, appointmentId)
+ * @param {object} data - Данные уведомления (type, title, message, appointmentId, dedupeKey)
  * @returns {Promise<object>} Созданное уведомление
  */
 export async function create(clinicId, patientId, data) {
@@ -150,10 +188,12 @@ export async function create(clinicId, patientId, data) {
       title: data.title,
       message: data.message,
       appointmentId: data.appointmentId || null,
+      dedupeKey: data.dedupeKey || null,
     },
   });
 
   console.log(`✅ [NOTIFICATION] Создано уведомление ${notification.id} для пациента ${patientId}`);
+  dispatchToChannels(notification);
 
   return notification;
 }
@@ -162,7 +202,7 @@ export async function create(clinicId, patientId, data) {
  * Создать уведомление для врача
  * @param {string} clinicId - ID клиники
  * @param {string} userId - ID врача
- * @param {object} data - Данные уведомления (type, title, message, appointmentId)
+ * @param {object} data - Данные уведомления (type, title, message, appointmentId, dedupeKey)
  * @returns {Promise<object>} Созданное уведомление
  */
 export async function createForDoctor(clinicId, userId, data) {
@@ -190,10 +230,12 @@ export async function createForDoctor(clinicId, userId, data) {
       title: data.title,
       message: data.message,
       appointmentId: data.appointmentId || null,
+      dedupeKey: data.dedupeKey || null,
     },
   });
 
   console.log(`✅ [NOTIFICATION] Создано уведомление ${notification.id} для врача ${userId}`);
+  dispatchToChannels(notification);
 
   return notification;
 }
@@ -255,6 +297,7 @@ export async function createForAdmin(clinicId, data) {
         },
       });
       console.log(`✅ [NOTIFICATION] Создано уведомление ${notification.id} для администратора ${anyAdmin.id} (${anyAdmin.status}) клиники ${clinicId}`);
+      dispatchToChannels(notification);
       return notification;
     }
 
@@ -278,6 +321,7 @@ export async function createForAdmin(clinicId, data) {
   });
 
   console.log(`✅ [NOTIFICATION] Создано уведомление ${notification.id} для администратора ${admin.id} (${admin.name}) клиники ${clinicId}`);
+  dispatchToChannels(notification);
   console.log(`📋 [NOTIFICATION] Текст уведомления: "${data.title}" - "${data.message}"`);
 
   return notification;
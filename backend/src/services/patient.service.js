@@ -1,4 +1,5 @@
 import { prisma } from '../config/database.js';
+import * as patientDocumentService from './patientDocument.service.js';
 
 /**
  * Patient Service
@@ -131,6 +132,18 @@ export async function findAll(clinicId, options = {}) {
   };
 }
 
+/**
+ * Добавить к пациенту количество неявок (приёмы со статусом no_show)
+ * @param {object} patient - Пациент с appointments
+ * @returns {object} Пациент с полем noShowCount
+ */
+function withNoShowCount(patient) {
+  return {
+    ...patient,
+    noShowCount: patient.appointments.filter(apt => apt.status === 'no_show').length,
+  };
+}
+
 /**
  * Получить пациента по ID
  * @param {string} clinicId - ID клиники
@@ -164,7 +177,7 @@ export async function findById(clinicId, patientId) {
     throw new Error('Patient not found');
   }
 
-  return patient;
+  return withNoShowCount(patient);
 }
 
 /**
@@ -219,7 +232,7 @@ export async function findByIdForDoctor(clinicId, patientId, doctorId) {
     throw new Error('Patient not found');
   }
 
-  return patient;
+  return withNoShowCount(patient);
 }
 
 /**
@@ -263,13 +276,24 @@ export async function findByPhoneOrEmail(clinicId, phone, email = null) {
 
 /**
  * Найти или создать пациента в клинике
- * Ищет по телефону и email, если не найден - создает нового
+ * Если запись делает аккаунт пациента — сначала берём его карточку в этой клинике.
+ * Иначе ищет по телефону и email, если не найден - создает нового
+ * (новая карточка сразу принадлежит аккаунту; найденная чужая — только через подтверждение, см. patientClaim.service)
  * @param {string} clinicId - ID клиники
  * @param {object} patientData - Данные пациента (name, phone, email, dateOfBirth, gender)
+ * @param {string|null} userId - ID аккаунта пациента (role PATIENT), если запись делает авторизованный пациент
  * @returns {Promise<object>} Найденный или созданный Patient
  */
-export async function findOrCreatePatient(clinicId, patientData) {
-  console.log('🔵 [PATIENT SERVICE] Поиск или создание пациента:', { clinicId, phone: patientData.phone, email: patientData.email });
+export async function findOrCreatePatient(clinicId, patientData, userId = null) {
+  console.log('🔵 [PATIENT SERVICE] Поиск или создание пациента:', { clinicId, phone: patientData.phone, email: patientData.email, userId });
+
+  if (userId) {
+    const linkedPatient = await findLinkedPatient(userId, clinicId);
+    if (linkedPatient) {
+      console.log('✅ [PATIENT SERVICE] Найдена карточка аккаунта:', linkedPatient.id);
+      return linkedPatient;
+    }
+  }
 
   // Ищем существующего пациента по телефону или email
   const existingPatient = await findByPhoneOrEmail(
@@ -310,33 +334,33 @@ export async function findOrCreatePatient(clinicId, patientData) {
 
   // Пациент не найден - создаем нового
   console.log('🔵 [PATIENT SERVICE] Создание нового пациента');
-  return await create(clinicId, patientData);
+  return await create(clinicId, { ...patientData, userId });
 }
 
 /**
- * Найти пациента по email или phone (для PATIENT users)
- * @param {string} email - Email пользователя
- * @param {string} phone - Телефон пользователя (опционально)
+ * Найти карточку пациента, принадлежащую аккаунту
+ * @param {string} userId - ID пользователя (role PATIENT)
+ * @param {string|null} clinicId - ID клиники (если не указан — самая новая карточка в любой клинике)
  * @returns {Promise<object|null>} Patient или null
  */
-export async function findByUserEmail(email, phone = null) {
-  const where = {};
-  
-  if (email) {
-    where.email = email;
-  }
-  
-  if (phone) {
-    where.OR = [
-      { email: email || undefined },
-      { phone: phone },
-    ];
-  } else if (email) {
-    where.email = email;
-  }
+export async function findLinkedPatient(userId, clinicId = null) {
+  return await prisma.patient.findFirst({
+    where: {
+      userId,
+      ...(clinicId && { clinicId }),
+    },
+    orderBy: { createdAt: 'desc' },
+  });
+}
 
-  const patient = await prisma.patient.findFirst({
-    where,
+/**
+ * Получить все карточки аккаунта пациента (по одной на клинику)
+ * @param {string} userId - ID пользователя (role PATIENT)
+ * @returns {Promise<Array>} Карточки с клиникой
+ */
+export async function findLinkedPatients(userId) {
+  return await prisma.patient.findMany({
+    where: { userId },
     include: {
       clinic: {
         select: {
@@ -345,29 +369,30 @@ export async function findByUserEmail(email, phone = null) {
           slug: true,
           city: true,
           address: true,
+          logo: true,
         },
       },
     },
     orderBy: { createdAt: 'desc' },
   });
-
-  return patient;
 }
 
 /**
- * Получить все appointments для пациента по email
- * @param {string} email - Email пользователя
+ * Получить все appointments аккаунта пациента во всех клиниках (по привязанным карточкам)
+ * @param {string} userId - ID пользователя (role PATIENT)
  * @param {object} options - Опции (status, page, limit)
  * @returns {Promise<object>} { appointments, meta }
  */
-export async function getPatientAppointments(email, options = {}) {
+export async function getPatientAppointments(userId, options = {}) {
   const { status, page = 1, limit = 20 } = options;
   const skip = (page - 1) * limit;
 
-  // Находим пациента по email
-  const patient = await findByUserEmail(email);
+  const patients = await prisma.patient.findMany({
+    where: { userId },
+    select: { id: true },
+  });
   
-  if (!patient) {
+  if (patients.length === 0) {
     return {
       appointments: [],
       meta: {
@@ -381,7 +406,7 @@ export async function getPatientAppointments(email, options = {}) {
 
   // Построение where clause для appointments
   const where = {
-    patientId: patient.id,
+    patientId: { in: patients.map(patient => patient.id) },
   };
 
   if (status) {
@@ -409,8 +434,15 @@ export async function getPatientAppointments(email, options = {}) {
             city: true,
             address: true,
             phone: true,
+            settings: { select: { timezone: true } }, // Время приёма — на часах клиники
           },
         },
+        treatmentCategory: {
+          select: { id: true, name: true, color: true },
+        },
+        clinicalNote: {
+          select: { status: true, recommendations: true, signedAt: true },
+        },
       },
       orderBy: { appointmentDate: 'desc' },
       take: limit,
@@ -419,6 +451,13 @@ export async function getPatientAppointments(email, options = {}) {
     prisma.appointment.count({ where }),
   ]);
 
+  // Пациент видит только рекомендации из подписанного протокола приёма
+  appointments.forEach(apt => {
+    apt.clinicalNote = apt.clinicalNote?.status === 'signed'
+      ? { recommendations: apt.clinicalNote.recommendations, signedAt: apt.clinicalNote.signedAt }
+      : null;
+  });
+
   // Debug: Проверяем appointments и amount
   console.log('🔵 [PATIENT SERVICE] getPatientAppointments - Total appointments:', appointments.length);
   console.log('🔵 [PATIENT SERVICE] Completed appointments:', appointments.filter(apt => apt.status === 'completed').length);
@@ -467,6 +506,7 @@ export async function create(clinicId, data) {
       gender: data.gender || null,
       notes: data.notes || null,
       status: patientStatus, // Статус пациента: registered (по умолчанию) или guest
+      userId: data.userId || null, // Аккаунт пациента, если карточку создаёт он сам
     },
   });
 
@@ -517,10 +557,15 @@ export async function remove(clinicId, patientId) {
   // Проверяем что пациент существует
   await findById(clinicId, patientId);
 
+  const documentKeys = await patientDocumentService.getPatientStorageKeys(clinicId, patientId);
+
   // Удаляем
   await prisma.patient.delete({
     where: { id: patientId },
   });
+
+  // Файлы документов лежат вне БД — удаляем после записи
+  await patientDocumentService.removeStorageFiles(documentKeys);
 }
 
 /**
@@ -622,6 +667,7 @@ export async function findAllVisits(clinicId, options = {}) {
     duration: apt.duration,
     status: apt.status,
     reason: apt.reason,
+    treatmentCategoryId: apt.treatmentCategoryId,
     amount: apt.amount,
     notes: apt.notes,
     createdAt: apt.createdAt,
@@ -695,6 +741,7 @@ export async function findDoctorPatients(clinicId, doctorId, options = {}) {
         patientDateOfBirth: apt.patient.dateOfBirth,
         patientGender: apt.patient.gender,
         visitCount: 1,
+        noShowCount: apt.status === 'no_show' ? 1 : 0,
         totalAmount: apt.amount || 0,
         lastVisitDate: apt.appointmentDate,
         lastVisitStatus: apt.status,
@@ -705,6 +752,9 @@ export async function findDoctorPatients(clinicId, doctorId, options = {}) {
       // Добавляем данные к существующему пациенту
       const patientData = patientMap.get(patientId);
       patientData.visitCount += 1;
+      if (apt.status === 'no_show') {
+        patientData.noShowCount += 1;
+      }
       patientData.totalAmount += (apt.amount || 0);
       
       // Обновляем последний визит (appointments уже отсортированы по дате desc)
@@ -752,6 +802,7 @@ export async function findDoctorPatients(clinicId, doctorId, options = {}) {
     patientDateOfBirth: p.patientDateOfBirth,
     patientGender: p.patientGender,
     visitCount: p.visitCount,
+    noShowCount: p.noShowCount,
     totalAmount: p.totalAmount,
     lastVisitDate: p.lastVisitDate,
     lastVisitStatus: p.lastVisitStatus,
@@ -0,0 +1,345 @@
+import crypto from 'crypto';
+import { prisma } from '../config/database.js';
+import { hashPassword, verifyPassword } from '../utils/hash.util.js';
+import * as deliveryService from './delivery.service.js';
+import * as notificationService from './notification.service.js';
+
+/**
+ * Patient Claim Service
+ * Привязка существующей карточки клиники к аккаунту пациента.
+ * Карточку находят по телефону или email из неё, код подтверждения уходит на этот контакт —
+ * привязать карточку может только тот, у кого есть к нему доступ
+ */
+
+/**
+ * Сколько действует код подтверждения
+ */
+const CLAIM_TTL_MS = 15 * 60 * 1000;
+
+/**
+ * Не чаще одного кода на контакт (и с одного аккаунта) за этот интервал
+ */
+const CLAIM_RESEND_INTERVAL_MS = 60 * 1000;
+
+/**
+ * Ограничения частоты запросов кода: с одного аккаунта за час и за сутки, на один контакт за сутки
+ */
+const CLAIM_ACCOUNT_HOURLY_LIMIT = 5;
+const CLAIM_ACCOUNT_DAILY_LIMIT = 10;
+const CLAIM_CONTACT_DAILY_LIMIT = 5;
+
+const HOUR_MS = 60 * 60 * 1000;
+const DAY_MS = 24 * HOUR_MS;
+
+/**
+ * Сколько раз за сутки можно ошибиться при вводе кода для одного контакта
+ * (новый код не обнуляет счётчик — он переходит из предыдущих запросов)
+ */
+const CLAIM_MAX_ATTEMPTS = 5;
+
+/**
+ * Скрыть часть контакта для показа пациенту (ivan@mail.ru → iv***@mail.ru, +37491123456 → ***3456)
+ * @param {string} channel - email | sms
+ * @param {string} recipient - Email или телефон
+ * @returns {string}
+ */
+function maskRecipient(channel, recipient) {
+  if (channel === 'email') {
+    const [name, domain] = recipient.split('@');
+    return `${name.slice(0, 2)}***@${domain}`;
+  }
+
+  return `***${recipient.slice(-4)}`;
+}
+
+/**
+ * Найти аккаунт пациента
+ * @param {string} userId - ID пользователя
+ * @returns {Promise<object>} User
+ */
+async function findPatientUser(userId) {
+  const user = await prisma.user.findUnique({
+    where: { id: userId },
+    select: { id: true, name: true, role: true },
+  });
+
+  if (!user) {
+    throw new Error('User not found');
+  }
+
+  if (user.role !== 'PATIENT') {
+    throw new Error('Forbidden: only patient accounts can claim patient records');
+  }
+
+  return user;
+}
+
+/**
+ * Получить карточки, привязанные к аккаунту, и незавершённые запросы на привязку
+ * @param {string} userId - ID пользователя (role PATIENT)
+ * @returns {Promise<object>} { records, claims }
+ */
+export async function findForUser(userId) {
+  const [records, claims] = await Promise.all([
+    prisma.patient.findMany({
+      where: { userId },
+      select: {
+        id: true,
+        name: true,
+        status: true,
+        createdAt: true,
+        clinic: { select: { id: true, name: true, slug: true, city: true, logo: true } },
+      },
+      orderBy: { createdAt: 'asc' },
+    }),
+    prisma.patientClaim.findMany({
+      where: { userId, status: 'pending', expiresAt: { gt: new Date() } },
+      select: {
+        id: true,
+        channel: true,
+        recipient: true,
+        expiresAt: true,
+        clinic: { select: { id: true, name: true } },
+      },
+      orderBy: { createdAt: 'desc' },
+    }),
+  ]);
+
+  return {
+    records,
+    claims: claims.map(({ recipient, ...claim }) => ({
+      ...claim,
+      recipient: maskRecipient(claim.channel, recipient),
+    })),
+  };
+}
+
+/**
+ * Проверить ограничения частоты запросов кода
+ * Считаются все запросы, в том числе по контактам, которых нет в клинике
+ * @param {string} userId - ID пользователя
+ * @param {string} recipient - Нормализованный контакт
+ */
+async function assertClaimRateLimits(userId, recipient) {
+  const now = Date.now();
+  const since = ms => new Date(now - ms);
+
+  const [accountRecent, accountHourly, accountDaily, contactRecent, contactDaily] = await Promise.all([
+    prisma.patientClaim.count({ where: { userId, createdAt: { gt: since(CLAIM_RESEND_INTERVAL_MS) } } }),
+    prisma.patientClaim.count({ where: { userId, createdAt: { gt: since(HOUR_MS) } } }),
+    prisma.patientClaim.count({ where: { userId, createdAt: { gt: since(DAY_MS) } } }),
+    prisma.patientClaim.count({ where: { recipient, createdAt: { gt: since(CLAIM_RESEND_INTERVAL_MS) } } }),
+    prisma.patientClaim.count({ where: { recipient, createdAt: { gt: since(DAY_MS) } } }),
+  ]);
+
+  if (accountRecent > 0 || contactRecent > 0) {
+    throw new Error('Forbidden: verification code was sent less than a minute ago');
+  }
+
+  if (
+    accountHourly >= CLAIM_ACCOUNT_HOURLY_LIMIT
+    || accountDaily >= CLAIM_ACCOUNT_DAILY_LIMIT
+    || contactDaily >= CLAIM_CONTACT_DAILY_LIMIT
+  ) {
+    throw new Error('Forbidden: too many verification code requests, try again later');
+  }
+}
+
+/**
+ * Запросить привязку карточки: найти её по контакту и отправить код подтверждения
+ * Ответ одинаковый, есть карточка с этим контактом или нет (и свободна ли она) —
+ * по нему нельзя узнать, является ли человек пациентом клиники.
+ * Если свободной карточки нет, запрос сохраняется без карточки: код никуда не отправляется и не подойдёт
+ * @param {string} userId - ID пользователя (role PATIENT)
+ * @param {object} data - { clinicId, contact } — телефон или email, указанные в клинике
+ * @returns {Promise<object>} { id, channel, recipient (скрытый), expiresAt, clinic }
+ */
+export async function requestClaim(userId, data) {
+  await findPatientUser(userId);
+
+  const clinic = await prisma.clinic.findUnique({
+    where: { id: data.clinicId },
+    select: { id: true, name: true },
+  });
+
+  if (!clinic) {
+    throw new Error('Clinic not found');
+  }
+
+  const alreadyLinked = await prisma.patient.findFirst({
+    where: { clinicId: clinic.id, userId },
+    select: { id: true },
+  });
+
+  if (alreadyLinked) {
+    throw new Error('Patient record in this clinic already exists in your account');
+  }
+
+  const contact = data.contact.trim();
+  const isEmail = contact.includes('@');
+  const normalizedPhone = contact.replace(/[\s()-]/g, '');
+  const channel = isEmail ? 'email' : 'sms';
+  const recipient = isEmail ? contact.toLowerCase() : normalizedPhone;
+
+  await assertClaimRateLimits(userId, recipient);
+
+  const candidates = await prisma.patient.findMany({
+    where: {
+      clinicId: clinic.id,
+      OR: isEmail
+        ? [{ email: contact }, { email: contact.toLowerCase() }]
+        : [{ phone: contact }, { phone: normalizedPhone }],
+    },
+    orderBy: { createdAt: 'desc' },
+  });
+
+  // Свободная карточка важнее уже привязанной к другому аккаунту
+  const patient = candidates.find(candidate => !candidate.userId) || null;
+
+  // Предыдущие коды этого аккаунта на этот контакт больше не действуют,
+  // неудачные попытки ввода за сутки переходят в новый запрос
+  const previous = await prisma.patientClaim.aggregate({
+    where: { userId, recipient, createdAt: { gt: new Date(Date.now() - DAY_MS) } },
+    _max: { attempts: true },
+  });
+
+  await prisma.patientClaim.updateMany({
+    where: { userId, recipient, status: 'pending' },
+    data: { status: 'expired' },
+  });
+
+  const code = crypto.randomInt(0, 1000000).toString().padStart(6, '0');
+
+  const claim = await prisma.patientClaim.create({
+    data: {
+      clinicId: clinic.id, // ОБЯЗАТЕЛЬНО!
+      patientId: patient?.id || null,
+      userId,
+      channel,
+      recipient,
+      codeHash: await hashPassword(code),
+      attempts: previous._max.attempts || 0,
+      expiresAt: new Date(Date.now() + CLAIM_TTL_MS),
+    },
+  });
+
+  if (patient) {
+    const delivery = await deliveryService.sendDirect(clinic.id, {
+      channel,
+      recipient,
+      subject: `Код подтверждения — ${clinic.name}`,
+      body: `Ваш код для привязки карточки пациента к аккаунту: ${code}. Код действует 15 минут. Если вы его не запрашивали, просто проигнорируйте это сообщение.`,
+    });
+
+    console.log(`✅ [PATIENT CLAIM] Код для карточки ${patient.id} отправлен (${channel}, доставка ${delivery.status})`);
+  } else {
+    console.log(`ℹ️ [PATIENT CLAIM] Свободная карточка по контакту не найдена, запрос ${claim.id} сохранён без отправки кода`);
+  }
+
+  return {
+    id: claim.id,
+    channel,
+    recipient: maskRecipient(channel, recipient),
+    expiresAt: claim.expiresAt,
+    clinic,
+  };
+}
+
+/**
+ * Подтвердить привязку кодом и привязать карточку к аккаунту
+ * @param {string} userId - ID пользователя (role PATIENT)
+ * @param {string} claimId - ID запроса на привязку
+ * @param {string} code - Код из SMS / письма
+ * @returns {Promise<object>} Привязанная карточка пациента
+ */
+export async function verifyClaim(userId, claimId, code) {
+  const user = await findPatientUser(userId);
+
+  const claim = await prisma.patientClaim.findFirst({
+    where: { id: claimId, userId },
+    include: { patient: { select: { id: true, name: true, userId: true } } },
+  });
+
+  if (!claim) {
+    throw new Error('Patient claim not found');
+  }
+
+  if (claim.status !== 'pending' || claim.expiresAt <= new Date()) {
+    throw new Error('Verification code is invalid or expired, request a new one');
+  }
+
+  // Попытка засчитывается до проверки кода одним запросом — параллельные запросы не обойдут лимит
+  const { count: attemptCount } = await prisma.patientClaim.updateMany({
+    where: { id: claim.id, status: 'pending', attempts: { lt: CLAIM_MAX_ATTEMPTS } },
+    data: { attempts: { increment: 1 } },
+  });
+
+  if (attemptCount === 0) {
+    throw new Error('Forbidden: too many attempts, try again later');
+  }
+
+  const isCodeValid = await verifyPassword(code, claim.codeHash);
+
+  // Запрос без карточки (контакт не найден) подтвердить нельзя — ответ тот же, что при неверном коде
+  if (!isCodeValid || !claim.patient) {
+    throw new Error('Verification code is invalid');
+  }
+
+  if (claim.patient.userId && claim.patient.userId !== userId) {
+    throw new Error('Forbidden: patient record is linked to another account');
+  }
+
+  const patient = await prisma.$transaction(async tx => {
+    // Карточку могли привязать к другому аккаунту после проверки выше — условие повторяется в самом запросе
+    const { count: linkedCount } = await tx.patient.updateMany({
+      where: {
+        id: claim.patientId,
+        OR: [{ userId: null }, { userId }],
+      },
+      data: {
+        userId,
+        status: 'registered', // Гостевая карточка становится карточкой зарегистрированного пациента
+      },
+    });
+
+    if (linkedCount === 0) {
+      throw new Error('Forbidden: patient record is linked to another account');
+    }
+
+    const { count: verifiedCount } = await tx.patientClaim.updateMany({
+      where: { id: claim.id, status: 'pending' },
+      data: { status: 'verified', verifiedAt: new Date() },
+    });
+
+    if (verifiedCount === 0) {
+      throw new Error('Verification code is invalid or expired, request a new one');
+    }
+
+    // Остальные запросы на эту карточку теряют смысл
+    await tx.patientClaim.updateMany({
+      where: { patientId: claim.patientId, status: 'pending' },
+      data: { status: 'expired' },
+    });
+
+    return tx.patient.findUnique({
+      where: { id: claim.patientId },
+      include: {
+        clinic: { select: { id: true, name: true, slug: true, city: true, logo: true } },
+      },
+    });
+  });
+
+  console.log(`✅ [PATIENT CLAIM] Карточка ${patient.id} привязана к аккаунту ${userId}`);
+
+  try {
+    await notificationService.createForAdmin(claim.clinicId, {
+      type: 'other',
+      title: 'Пациент привязал карточку',
+      message: `${user.name} подтвердил(а) карточку «${claim.patient.name}» кодом (${claim.channel === 'email' ? 'email' : 'SMS'}). Записи, чат и уведомления этой карточки теперь доступны в личном кабинете пациента.`,
+    });
+  } catch (error) {
+    console.error('🔴 [PATIENT CLAIM] Ошибка уведомления администратора:', error.message);
+  }
+
+  return patient;
+}
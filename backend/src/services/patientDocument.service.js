@@ -0,0 +1,342 @@
+import fs from 'fs/promises';
+import path from 'path';
+import { v4 as uuidv4 } from 'uuid';
+import { prisma } from '../config/database.js';
+import { config } from '../config/app.js';
+import {
+  DOCUMENT_MIME_TYPES,
+  MAX_DOCUMENT_SIZE,
+  MAX_THUMBNAIL_SIZE,
+  parseDataUrl,
+} from '../utils/document.util.js';
+
+/**
+ * Patient Document Service
+ * Клинические документы пациента: рентгенограммы, внутриротовые фото, согласия, результаты анализов.
+ * Файлы лежат в хранилище вне публичной папки uploads и отдаются только через API
+ */
+
+const DOCUMENT_INCLUDE = {
+  uploadedBy: { select: { id: true, name: true } },
+  appointment: { select: { id: true, appointmentDate: true, reason: true } },
+};
+
+/**
+ * Абсолютный путь к файлу в хранилище
+ * @param {string} key - storageKey / thumbnailKey
+ * @returns {string}
+ */
+function resolveStoragePath(key) {
+  return path.resolve(config.documentStorageDir, key);
+}
+
+/**
+ * Записать файл в хранилище
+ * @param {string} key - Путь внутри хранилища
+ * @param {Buffer} buffer - Содержимое
+ */
+async function writeStorageFile(key, buffer) {
+  const filePath = resolveStoragePath(key);
+  await fs.mkdir(path.dirname(filePath), { recursive: true });
+  await fs.writeFile(filePath, buffer);
+}
+
+/**
+ * Удалить файлы из хранилища (отсутствующие файлы пропускаются)
+ * @param {Array<string|null>} keys - Пути внутри хранилища
+ */
+export async function removeStorageFiles(keys) {
+  for (const key of keys.filter(Boolean)) {
+    try {
+      await fs.unlink(resolveStoragePath(key));
+    } catch (error) {
+      if (error.code !== 'ENOENT') {
+        console.error(`🔴 [PATIENT DOCUMENTS] Не удалось удалить файл ${key}:`, error.message);
+      }
+    }
+  }
+}
+
+/**
+ * Проверить доступ к документам пациента
+ * Врач работает с документами только тех пациентов, у которых есть приёмы к нему
+ * @param {object} actor - { userId, role, clinicId }
+ * @param {string} patientId - ID пациента
+ */
+async function assertPatientAccess(actor, patientId) {
+  const patient = await prisma.patient.findFirst({
+    where: { id: patientId, clinicId: actor.clinicId },
+    select: { id: true },
+  });
+
+  if (!patient) {
+    throw new Error('Patient not found');
+  }
+
+  if (actor.role === 'DOCTOR') {
+    const hasAppointments = await prisma.appointment.findFirst({
+      where: { clinicId: actor.clinicId, patientId, doctorId: actor.userId },
+      select: { id: true },
+    });
+
+    if (!hasAppointments) {
+      throw new Error('Patient not found or access denied');
+    }
+  }
+}
+
+/**
+ * Проверить приём, к которому прикрепляется документ
+ * Приём должен быть у этого пациента; врач прикрепляет документы только к своим приёмам
+ * @param {object} actor - { userId, role, clinicId }
+ * @param {string} patientId - ID пациента
+ * @param {string} appointmentId - ID приёма
+ */
+async function assertAppointment(actor, patientId, appointmentId) {
+  const appointment = await prisma.appointment.findFirst({
+    where: { id: appointmentId, clinicId: actor.clinicId, patientId },
+    select: { id: true, doctorId: true },
+  });
+
+  if (!appointment) {
+    throw new Error('Appointment not found');
+  }
+
+  if (actor.role === 'DOCTOR' && appointment.doctorId !== actor.userId) {
+    throw new Error('Appointment not found or access denied');
+  }
+}
+
+/**
+ * Найти документ пациента с проверкой доступа
+ * @param {object} actor - { userId, role, clinicId }
+ * @param {string} patientId - ID пациента
+ * @param {string} documentId - ID документа
+ * @returns {Promise<object>} PatientDocument
+ */
+async function findDocument(actor, patientId, documentId) {
+  await assertPatientAccess(actor, patientId);
+
+  const document = await prisma.patientDocument.findFirst({
+    where: { id: documentId, patientId, clinicId: actor.clinicId },
+  });
+
+  if (!document) {
+    throw new Error('Document not found');
+  }
+
+  return document;
+}
+
+/**
+ * Документ для ответа API (пути в хранилище наружу не отдаются)
+ * @param {object} document - PatientDocument с DOCUMENT_INCLUDE
+ * @returns {object}
+ */
+function toResponse(document) {
+  return {
+    id: document.id,
+    patientId: document.patientId,
+    appointmentId: document.appointmentId,
+    category: document.category,
+    title: document.title,
+    description: document.description,
+    fileName: document.fileName,
+    mimeType: document.mimeType,
+    size: document.size,
+    hasThumbnail: !!document.thumbnailKey,
+    uploadedBy: document.uploadedBy || null,
+    appointment: document.appointment || null,
+    createdAt: document.createdAt,
+    updatedAt: document.updatedAt,
+  };
+}
+
+/**
+ * Получить документы пациента
+ * @param {object} actor - { userId, role, clinicId }
+ * @param {string} patientId - ID пациента
+ * @param {object} filters - { appointmentId, category }
+ * @returns {Promise<Array>} Документы, новые сверху
+ */
+export async function getDocuments(actor, patientId, filters = {}) {
+  await assertPatientAccess(actor, patientId);
+
+  const documents = await prisma.patientDocument.findMany({
+    where: {
+      clinicId: actor.clinicId, // ОБЯЗАТЕЛЬНО!
+      patientId,
+      ...(filters.appointmentId && { appointmentId: filters.appointmentId }),
+      ...(filters.category && { category: filters.category }),
+    },
+    include: DOCUMENT_INCLUDE,
+    orderBy: { createdAt: 'desc' },
+  });
+
+  return documents.map(toResponse);
+}
+
+/**
+ * Загрузить документ пациента
+ * @param {object} actor - { userId, role, clinicId }
+ * @param {string} patientId - ID пациента
+ * @param {object} data - uploadPatientDocumentSchema
+ * @returns {Promise<object>} Созданный документ
+ */
+export async function uploadDocument(actor, patientId, data) {
+  await assertPatientAccess(actor, patientId);
+
+  if (data.appointmentId) {
+    await assertAppointment(actor, patientId, data.appointmentId);
+  }
+
+  const file = parseDataUrl(data.file);
+  if (!file || !DOCUMENT_MIME_TYPES[file.mimeType]) {
+    throw new Error('File type is invalid: JPEG, PNG, WEBP, GIF or PDF expected');
+  }
+  if (file.buffer.length > MAX_DOCUMENT_SIZE) {
+    throw new Error('File is invalid: size exceeds 10MB');
+  }
+
+  // Превью присылает браузер (уменьшенная копия изображения); для PDF его нет
+  const hasThumbnail = !!data.thumbnail && file.mimeType.startsWith('image/');
+  const thumbnail = hasThumbnail ? parseDataUrl(data.thumbnail) : null;
+  if (hasThumbnail) {
+    if (!thumbnail || !thumbnail.mimeType.startsWith('image/') || !DOCUMENT_MIME_TYPES[thumbnail.mimeType]) {
+      throw new Error('Thumbnail type is invalid: JPEG, PNG, WEBP or GIF expected');
+    }
+    if (thumbnail.buffer.length > MAX_THUMBNAIL_SIZE) {
+      throw new Error('Thumbnail is invalid: size exceeds 300KB');
+    }
+  }
+
+  const id = uuidv4();
+  const folder = `${actor.clinicId}/${patientId}`;
+  const storageKey = `${folder}/${id}.${DOCUMENT_MIME_TYPES[file.mimeType]}`;
+  const thumbnailKey = thumbnail ? `${folder}/${id}-thumb.${DOCUMENT_MIME_TYPES[thumbnail.mimeType]}` : null;
+
+  await writeStorageFile(storageKey, file.buffer);
+  if (thumbnail) {
+    await writeStorageFile(thumbnailKey, thumbnail.buffer);
+  }
+
+  try {
+    const document = await prisma.patientDocument.create({
+      data: {
+        id,
+        clinicId: actor.clinicId, // ОБЯЗАТЕЛЬНО!
+        patientId,
+        appointmentId: data.appointmentId || null,
+        category: data.category,
+        title: data.title || data.fileName,
+        description: data.description || null,
+        fileName: data.fileName,
+        mimeType: file.mimeType,
+        size: file.buffer.length,
+        storageKey,
+        thumbnailKey,
+        uploadedById: actor.userId,
+      },
+      include: DOCUMENT_INCLUDE,
+    });
+
+    console.log(`✅ [PATIENT DOCUMENTS] Документ ${document.id} (${data.category}) загружен для пациента ${patientId}`);
+
+    return toResponse(document);
+  } catch (error) {
+    await removeStorageFiles([storageKey, thumbnailKey]);
+    throw error;
+  }
+}
+
+/**
+ * Изменить категорию, название, описание или приём документа
+ * @param {object} actor - { userId, role, clinicId }
+ * @param {string} patientId - ID пациента
+ * @param {string} documentId - ID документа
+ * @param {object} data - updatePatientDocumentSchema
+ * @returns {Promise<object>} Обновлённый документ
+ */
+export async function updateDocument(actor, patientId, documentId, data) {
+  await findDocument(actor, patientId, documentId);
+
+  if (data.appointmentId) {
+    await assertAppointment(actor, patientId, data.appointmentId);
+  }
+
+  const document = await prisma.patientDocument.update({
+    where: { id: documentId },
+    data: {
+      ...(data.category !== undefined && { category: data.category }),
+      ...(data.title !== undefined && { title: data.title }),
+      ...(data.description !== undefined && { description: data.description || null }),
+      ...(data.appointmentId !== undefined && { appointmentId: data.appointmentId }),
+    },
+    include: DOCUMENT_INCLUDE,
+  });
+
+  return toResponse(document);
+}
+
+/**
+ * Удалить документ
+ * Врач может удалить только загруженные им документы; администратор клиники — любые
+ * @param {object} actor - { userId, role, clinicId }
+ * @param {string} patientId - ID пациента
+ * @param {string} documentId - ID документа
+ */
+export async function deleteDocument(actor, patientId, documentId) {
+  const document = await findDocument(actor, patientId, documentId);
+
+  if (actor.role === 'DOCTOR' && document.uploadedById !== actor.userId) {
+    throw new Error('Forbidden: only the uploader or a clinic administrator can delete this document');
+  }
+
+  await prisma.patientDocument.delete({ where: { id: documentId } });
+  await removeStorageFiles([document.storageKey, document.thumbnailKey]);
+
+  console.log(`✅ [PATIENT DOCUMENTS] Документ ${documentId} удалён`);
+}
+
+/**
+ * Получить файл документа для просмотра
+ * @param {object} actor - { userId, role, clinicId }
+ * @param {string} patientId - ID пациента
+ * @param {string} documentId - ID документа
+ * @param {boolean} asThumbnail - Отдать превью (если нет — оригинал)
+ * @returns {Promise<object>} { buffer, mimeType, fileName }
+ */
+export async function getDocumentFile(actor, patientId, documentId, asThumbnail = false) {
+  const document = await findDocument(actor, patientId, documentId);
+  const key = asThumbnail && document.thumbnailKey ? document.thumbnailKey : document.storageKey;
+
+  try {
+    const buffer = await fs.readFile(resolveStoragePath(key));
+    const mimeType =
+      key === document.thumbnailKey
+        ? Object.keys(DOCUMENT_MIME_TYPES).find(type => key.endsWith(`.${DOCUMENT_MIME_TYPES[type]}`))
+        : document.mimeType;
+
+    return { buffer, mimeType, fileName: document.fileName };
+  } catch (error) {
+    if (error.code === 'ENOENT') {
+      throw new Error('Document file not found');
+    }
+    throw error;
+  }
+}
+
+/**
+ * Пути файлов всех документов пациента — чтобы удалить файлы вместе с карточкой (записи удалит каскад)
+ * @param {string} clinicId - ID клиники
+ * @param {string} patientId - ID пациента
+ * @returns {Promise<Array<string>>}
+ */
+export async function getPatientStorageKeys(clinicId, patientId) {
+  const documents = await prisma.patientDocument.findMany({
+    where: { clinicId, patientId },
+    select: { storageKey: true, thumbnailKey: true },
+  });
+
+  return documents.flatMap(document => [document.storageKey, document.thumbnailKey]).filter(Boolean);
+}
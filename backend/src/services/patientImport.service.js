@@ -0,0 +1,304 @@
+import { prisma } from '../config/database.js';
+import { createPatientSchema } from '../validators/patient.validator.js';
+import { normalizePhone, phoneMatchKey } from '../utils/patientMatch.util.js';
+
+/**
+ * Patient Import Service
+ * Импорт базы пациентов из таблиц (CSV / XLSX из Excel или другой CRM) и выгрузка пациентов и визитов
+ */
+
+/**
+ * Значения пола, которые встречаются в таблицах
+ */
+const GENDER_ALIASES = {
+  male: 'male',
+  m: 'male',
+  м: 'male',
+  муж: 'male',
+  мужской: 'male',
+  female: 'female',
+  f: 'female',
+  ж: 'female',
+  жен: 'female',
+  женский: 'female',
+  other: 'other',
+  другой: 'other',
+};
+
+/**
+ * Дата 1899-12-30 — день 0 в датах Excel (число дней)
+ */
+const EXCEL_EPOCH_MS = Date.UTC(1899, 11, 30);
+
+/**
+ * Диапазон чисел дней Excel, которые считаем датой рождения: 1927-05-18 (10000) … 2099-12-31 (73050)
+ * Четырёхзначные числа — это год (1990), а не 1905-06-12
+ */
+const EXCEL_SERIAL_MIN = 10000;
+const EXCEL_SERIAL_MAX = 73050;
+
+/**
+ * Привести дату рождения из таблицы к YYYY-MM-DD
+ * Понимает 31.12.1990, 31/12/1990, 1990-12-31 и число дней Excel
+ * @param {string|number} value - Значение ячейки
+ * @returns {string|null} Дата или исходное значение, если формат не распознан (его отклонит схема)
+ */
+function normalizeDate(value) {
+  if (value === null || value === undefined || value === '') {
+    return null;
+  }
+
+  const text = String(value).trim();
+
+  // Число дней Excel — только в правдоподобном диапазоне, остальные числа (год 1990) оставляем как есть
+  if (typeof value === 'number' || /^\d+(\.\d+)?$/.test(text)) {
+    const serial = Math.floor(Number(value));
+    if (serial < EXCEL_SERIAL_MIN || serial > EXCEL_SERIAL_MAX) {
+      return text;
+    }
+    const date = new Date(EXCEL_EPOCH_MS + serial * 24 * 60 * 60 * 1000);
+    return date.toISOString().slice(0, 10);
+  }
+
+  const dayFirst = text.match(/^(\d{1,2})[./-](\d{1,2})[./-](\d{4})$/);
+  if (dayFirst) {
+    const [, day, month, year] = dayFirst;
+    return `${year}-${month.padStart(2, '0')}-${day.padStart(2, '0')}`;
+  }
+
+  const isoDate = text.match(/^(\d{4})-(\d{1,2})-(\d{1,2})/);
+  if (isoDate) {
+    const [, year, month, day] = isoDate;
+    return `${year}-${month.padStart(2, '0')}-${day.padStart(2, '0')}`;
+  }
+
+  return text;
+}
+
+/**
+ * Привести строку таблицы к данным пациента: обрезать пробелы, нормализовать телефон, email, пол и дату
+ * @param {object} row - { name, phone, email, dateOfBirth, gender, notes }
+ * @returns {object} Данные для createPatientSchema
+ */
+function prepareRow(row) {
+  const text = value => (value === null || value === undefined ? '' : String(value).trim());
+  const gender = text(row.gender).toLowerCase().replace(/\.$/, '');
+
+  const data = {
+    name: text(row.name).replace(/\s+/g, ' '),
+    phone: normalizePhone(text(row.phone)),
+    email: text(row.email).toLowerCase(),
+    dateOfBirth: normalizeDate(row.dateOfBirth),
+    gender: gender ? GENDER_ALIASES[gender] || gender : null,
+    notes: text(row.notes),
+  };
+
+  // Пустые необязательные поля не передаём — схема не должна на них ругаться
+  for (const field of ['email', 'notes']) {
+    if (!data[field]) delete data[field];
+  }
+
+  return data;
+}
+
+/**
+ * Импортировать пациентов из таблицы
+ * Каждая строка проверяется схемой createPatientSchema (как при ручном создании),
+ * дубликаты ищутся по телефону (в любом формате) и email среди пациентов клиники и строк файла.
+ * В режиме dryRun ничего не сохраняется — возвращается отчёт, что будет сделано с каждой строкой
+ * @param {string} clinicId - ID клиники
+ * @param {object} data - { rows, dryRun, duplicates: skip | update | create }
+ * @returns {Promise<object>} { dryRun, summary, rows }
+ */
+export async function importPatients(clinicId, data) {
+  const { rows, dryRun = true, duplicates = 'skip' } = data;
+
+  const existingPatients = await prisma.patient.findMany({
+    where: { clinicId }, // ВСЕГДА фильтруем по clinicId!
+    select: { id: true, name: true, phone: true, email: true },
+    orderBy: { createdAt: 'asc' },
+  });
+
+  const existingByPhone = new Map();
+  const existingByEmail = new Map();
+  for (const patient of existingPatients) {
+    const phoneKey = phoneMatchKey(patient.phone);
+    if (phoneKey && !existingByPhone.has(phoneKey)) existingByPhone.set(phoneKey, patient);
+    if (patient.email && !existingByEmail.has(patient.email.toLowerCase())) {
+      existingByEmail.set(patient.email.toLowerCase(), patient);
+    }
+  }
+
+  // Первая строка файла с таким телефоном / email (номер строки)
+  const seenInFile = new Map();
+
+  const report = rows.map((row, index) => {
+    const rowNumber = index + 2; // Строка 1 — заголовки
+    const prepared = prepareRow(row);
+    const { error, value } = createPatientSchema.validate(prepared, { abortEarly: false, stripUnknown: true });
+
+    if (error) {
+      return {
+        row: rowNumber,
+        action: 'error',
+        data: prepared,
+        errors: error.details.map(detail => ({ field: detail.path.join('.'), message: detail.message })),
+      };
+    }
+
+    const phoneKey = phoneMatchKey(value.phone);
+    const keys = [phoneKey && `phone:${phoneKey}`, value.email && `email:${value.email}`].filter(Boolean);
+
+    const duplicateRow = keys.map(key => seenInFile.get(key)).find(Boolean);
+    if (duplicateRow) {
+      return { row: rowNumber, action: 'skip', data: value, reason: `Повтор строки ${duplicateRow}` };
+    }
+    keys.forEach(key => seenInFile.set(key, rowNumber));
+
+    const existing = (phoneKey && existingByPhone.get(phoneKey)) || (value.email && existingByEmail.get(value.email));
+
+    if (!existing || duplicates === 'create') {
+      return { row: rowNumber, action: 'create', data: value, existing: existing || null };
+    }
+
+    return {
+      row: rowNumber,
+      action: duplicates === 'update' ? 'update' : 'skip',
+      data: value,
+      existing,
+      reason: 'Пациент уже есть в клинике',
+    };
+  });
+
+  const summary = { total: rows.length, create: 0, update: 0, skip: 0, error: 0 };
+  report.forEach(item => {
+    summary[item.action] += 1;
+  });
+
+  if (!dryRun && (summary.create > 0 || summary.update > 0)) {
+    const toCreate = report.filter(item => item.action === 'create');
+    const toUpdate = report.filter(item => item.action === 'update');
+
+    await prisma.$transaction([
+      prisma.patient.createMany({
+        data: toCreate.map(({ data: patient }) => ({
+          clinicId, // ОБЯЗАТЕЛЬНО!
+          name: patient.name,
+          phone: patient.phone,
+          email: patient.email || null,
+          dateOfBirth: patient.dateOfBirth ? new Date(patient.dateOfBirth) : null,
+          gender: patient.gender || null,
+          notes: patient.notes || null,
+          status: patient.status,
+        })),
+      }),
+      // Обновление дополняет карточку: заполненные в файле поля перезаписывают старые, пустые не трогают
+      ...toUpdate.map(({ data: patient, existing }) =>
+        prisma.patient.update({
+          where: { id: existing.id },
+          data: {
+            name: patient.name,
+            email: patient.email || undefined,
+            dateOfBirth: patient.dateOfBirth ? new Date(patient.dateOfBirth) : undefined,
+            gender: patient.gender || undefined,
+            notes: patient.notes || undefined,
+          },
+        })
+      ),
+    ]);
+
+    console.log(
+      `✅ [PATIENT IMPORT] Клиника ${clinicId}: создано ${summary.create}, обновлено ${summary.update}, пропущено ${summary.skip}, ошибок ${summary.error}`
+    );
+  } else {
+    console.log(`🔵 [PATIENT IMPORT] Проверка файла (${rows.length} строк):`, summary);
+  }
+
+  return { dryRun, duplicates, summary, rows: report };
+}
+
+/**
+ * Выгрузка пациентов и визитов с теми же фильтрами, что в разделе «Пациенты»
+ * @param {string} clinicId - ID клиники
+ * @param {object} options - Фильтры (search, doctorId, status; status '' — все статусы визитов)
+ * @returns {Promise<object>} { patients, visits }
+ */
+export async function exportPatients(clinicId, options = {}) {
+  const { search, doctorId, status } = options;
+  const searchLower = search?.trim().toLowerCase();
+
+  const appointmentWhere = {
+    clinicId, // ВСЕГДА фильтруем по clinicId!
+  };
+  if (doctorId) appointmentWhere.doctorId = doctorId;
+  if (status) appointmentWhere.status = status;
+
+  const [patients, appointments] = await Promise.all([
+    prisma.patient.findMany({
+      where: {
+        clinicId, // ВСЕГДА фильтруем по clinicId!
+        ...(doctorId ? { appointments: { some: { doctorId } } } : {}),
+      },
+      include: {
+        appointments: {
+          where: appointmentWhere,
+          select: { appointmentDate: true, amount: true },
+        },
+      },
+      orderBy: { name: 'asc' },
+    }),
+    prisma.appointment.findMany({
+      where: appointmentWhere,
+      include: {
+        patient: { select: { id: true, name: true, phone: true, email: true } },
+        doctor: { select: { id: true, name: true } },
+      },
+      orderBy: { appointmentDate: 'desc' },
+    }),
+  ]);
+
+  // Поиск без учёта регистра — на уровне приложения, как в списке пациентов
+  const matchesPatient = patient =>
+    !searchLower ||
+    patient.name.toLowerCase().includes(searchLower) ||
+    patient.phone.includes(search.trim()) ||
+    (patient.email && patient.email.toLowerCase().includes(searchLower));
+
+  const exportedPatients = patients.filter(matchesPatient).map(({ appointments: visits, ...patient }) => ({
+    ...patient,
+    visitsCount: visits.length,
+    totalAmount: visits.reduce((sum, visit) => sum + (visit.amount || 0), 0),
+    lastVisitDate: visits.reduce(
+      (latest, visit) => (!latest || visit.appointmentDate > latest ? visit.appointmentDate : latest),
+      null
+    ),
+  }));
+
+  const exportedVisits = appointments
+    .filter(
+      apt =>
+        matchesPatient(apt.patient) ||
+        (searchLower && apt.doctor.name?.toLowerCase().includes(searchLower)) ||
+        (searchLower && apt.reason?.toLowerCase().includes(searchLower))
+    )
+    .map(apt => ({
+      appointmentId: apt.id,
+      patientId: apt.patientId,
+      patientName: apt.patient.name,
+      patientPhone: apt.patient.phone,
+      patientEmail: apt.patient.email,
+      doctorName: apt.doctor.name,
+      appointmentDate: apt.appointmentDate,
+      duration: apt.duration,
+      status: apt.status,
+      reason: apt.reason,
+      amount: apt.amount,
+      notes: apt.notes,
+    }));
+
+  console.log(
+    `🔵 [PATIENT EXPORT] Клиника ${clinicId}: пациентов ${exportedPatients.length}, визитов ${exportedVisits.length}`
+  );
+
+  return { patients: exportedPatients, visits: exportedVisits };
+}
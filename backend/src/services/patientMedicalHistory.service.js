@@ -0,0 +1,215 @@
+import { prisma } from '../config/database.js';
+import * as notificationService from './notification.service.js';
+import {
+  combineMedicalHistories,
+  mergeSelfReportedHistory,
+  toMedicalHistoryRecord,
+} from '../utils/medicalHistory.util.js';
+
+/**
+ * Patient Medical History Service
+ * Анамнез пациента: аллергии, хронические заболевания, препараты, беременность, антикоагулянты.
+ * Заполняет клиника (карточка пациента) или сам пациент из личного кабинета
+ */
+
+const HISTORY_INCLUDE = {
+  updatedBy: { select: { id: true, name: true } },
+};
+
+/**
+ * Проверить доступ к анамнезу пациента
+ * Врач видит анамнез только пациентов, у которых есть приёмы к нему (как и профиль пациента)
+ * @param {object} actor - { userId, role, clinicId }
+ * @param {string} patientId - ID пациента
+ */
+async function assertPatientAccess(actor, patientId) {
+  const patient = await prisma.patient.findFirst({
+    where: { id: patientId, clinicId: actor.clinicId },
+    select: { id: true },
+  });
+
+  if (!patient) {
+    throw new Error('Patient not found');
+  }
+
+  if (actor.role === 'DOCTOR') {
+    const hasAppointments = await prisma.appointment.findFirst({
+      where: { clinicId: actor.clinicId, patientId, doctorId: actor.userId },
+      select: { id: true },
+    });
+
+    if (!hasAppointments) {
+      throw new Error('Patient not found or access denied');
+    }
+  }
+}
+
+/**
+ * Привести запись анамнеза к ответу API (JSON-поля → массивы)
+ * @param {string} patientId - ID пациента
+ * @param {object|null} history - PatientMedicalHistory
+ * @returns {object} Анамнез; пустой, если ещё не заполнен (id: null)
+ */
+function toResponse(patientId, history) {
+  if (!history) {
+    return {
+      id: null,
+      patientId,
+      allergies: [],
+      conditions: [],
+      medications: [],
+      isPregnant: false,
+      takesAnticoagulants: false,
+      anticoagulants: null,
+      notes: null,
+      updatedSource: null,
+      updatedAt: null,
+      updatedBy: null,
+    };
+  }
+
+  return {
+    id: history.id,
+    patientId: history.patientId,
+    allergies: JSON.parse(history.allergies),
+    conditions: JSON.parse(history.conditions),
+    medications: JSON.parse(history.medications),
+    isPregnant: history.isPregnant,
+    takesAnticoagulants: history.takesAnticoagulants,
+    anticoagulants: history.anticoagulants,
+    notes: history.notes,
+    updatedSource: history.updatedSource,
+    updatedAt: history.updatedAt,
+    updatedBy: history.updatedBy || null,
+  };
+}
+
+/**
+ * Получить анамнез пациента
+ * @param {object} actor - { userId, role, clinicId }
+ * @param {string} patientId - ID пациента
+ * @returns {Promise<object>} Анамнез
+ */
+export async function getMedicalHistory(actor, patientId) {
+  await assertPatientAccess(actor, patientId);
+
+  const history = await prisma.patientMedicalHistory.findUnique({
+    where: { patientId },
+    include: HISTORY_INCLUDE,
+  });
+
+  return toResponse(patientId, history);
+}
+
+/**
+ * Сохранить анамнез пациента от имени клиники
+ * @param {object} actor - { userId, role, clinicId }
+ * @param {string} patientId - ID пациента
+ * @param {object} data - Анамнез (medicalHistorySchema)
+ * @returns {Promise<object>} Анамнез
+ */
+export async function updateMedicalHistory(actor, patientId, data) {
+  await assertPatientAccess(actor, patientId);
+
+  const recordData = {
+    ...toMedicalHistoryRecord(data),
+    updatedSource: 'clinic',
+    updatedById: actor.userId,
+  };
+
+  const history = await prisma.patientMedicalHistory.upsert({
+    where: { patientId },
+    create: {
+      clinicId: actor.clinicId, // ОБЯЗАТЕЛЬНО!
+      patientId,
+      ...recordData,
+    },
+    update: recordData,
+    include: HISTORY_INCLUDE,
+  });
+
+  console.log(`✅ [MEDICAL HISTORY] Анамнез пациента ${patientId} обновлён клиникой`);
+
+  return toResponse(patientId, history);
+}
+
+/**
+ * Анамнез, который пациент видит в личном кабинете — объединённый по всем его карточкам
+ * (сведения, внесённые любой клиникой, видны в анкете), дата и источник — последнего обновления
+ * @param {string} userId - ID пользователя (role PATIENT)
+ * @returns {Promise<object>} { history, clinicsCount } — clinicsCount: сколько карточек привязано
+ */
+export async function getMyMedicalHistory(userId) {
+  const records = await prisma.patient.findMany({
+    where: { userId },
+    select: { id: true, medicalHistory: { include: HISTORY_INCLUDE } },
+  });
+
+  const histories = records
+    .map(record => record.medicalHistory)
+    .filter(Boolean)
+    .sort((a, b) => new Date(b.updatedAt) - new Date(a.updatedAt));
+
+  return {
+    history: histories.length > 0
+      ? toResponse(histories[0].patientId, { ...histories[0], ...combineMedicalHistories(histories) })
+      : null,
+    clinicsCount: records.length,
+  };
+}
+
+/**
+ * Дополнить анамнез со слов пациента во всех карточках, привязанных к аккаунту,
+ * и предупредить администраторов клиник
+ * @param {string} userId - ID пользователя (role PATIENT)
+ * @param {object} data - Анамнез (medicalHistorySchema)
+ * @returns {Promise<object>} { history, clinicsCount }
+ */
+export async function updateMyMedicalHistory(userId, data) {
+  const records = await prisma.patient.findMany({
+    where: { userId },
+    select: { id: true, clinicId: true, name: true },
+  });
+
+  if (records.length === 0) {
+    throw new Error('Linked patient record not found');
+  }
+
+  // Сведения пациента дополняют анамнез каждой карточки — внесённое клиникой не удаляется
+  await prisma.$transaction(async tx => {
+    for (const record of records) {
+      const existing = await tx.patientMedicalHistory.findUnique({ where: { patientId: record.id } });
+      const recordData = {
+        ...mergeSelfReportedHistory(existing, data),
+        updatedSource: 'patient',
+        updatedById: userId,
+      };
+
+      await tx.patientMedicalHistory.upsert({
+        where: { patientId: record.id },
+        create: {
+          clinicId: record.clinicId, // ОБЯЗАТЕЛЬНО!
+          patientId: record.id,
+          ...recordData,
+        },
+        update: recordData,
+      });
+    }
+  });
+
+  console.log(`✅ [MEDICAL HISTORY] Пациент ${userId} обновил анамнез в карточках: ${records.length}`);
+
+  for (const record of records) {
+    try {
+      await notificationService.createForAdmin(record.clinicId, {
+        type: 'other',
+        title: 'Пациент обновил анамнез',
+        message: `${record.name} обновил(а) анамнез в личном кабинете (аллергии, заболевания, препараты). Проверьте карточку перед следующим приёмом.`,
+      });
+    } catch (error) {
+      console.error('🔴 [MEDICAL HISTORY] Ошибка уведомления администратора:', error.message);
+    }
+  }
+
+  return getMyMedicalHistory(userId);
+}
@@ -0,0 +1,363 @@
+import { prisma } from '../config/database.js';
+import { normalizeName, nameSimilarity, phoneMatchKey } from '../utils/patientMatch.util.js';
+import { combineMedicalHistories } from '../utils/medicalHistory.util.js';
+
+/**
+ * Patient Merge Service
+ * Поиск дубликатов пациентов в клинике (похожее имя, тот же телефон в другом формате, тот же email)
+ * и объединение дубликатов в одну карточку с журналом объединений
+ */
+
+/**
+ * С какой похожести имена считаются одним человеком (опечатки, ё/е, порядок слов)
+ */
+const NAME_SIMILARITY_THRESHOLD = 0.85;
+
+/**
+ * Связи пациента, которые переносятся в оставшуюся карточку (ключ — для счётчиков в журнале)
+ */
+const MOVED_RELATIONS = {
+  appointments: 'appointment',
+  appointmentSeries: 'appointmentSeries',
+  waitlistEntries: 'waitlistEntry',
+  notifications: 'notification',
+  conversations: 'conversation',
+  dentalChartEntries: 'dentalChartEntry',
+  treatmentPlans: 'treatmentPlan',
+  clinicalNotes: 'clinicalNote',
+  claims: 'patientClaim',
+  merges: 'patientMerge',
+  documents: 'patientDocument',
+};
+
+const PATIENT_SELECT = {
+  id: true,
+  name: true,
+  phone: true,
+  email: true,
+  dateOfBirth: true,
+  gender: true,
+  avatar: true,
+  notes: true,
+  status: true,
+  userId: true,
+  createdAt: true,
+  _count: { select: { appointments: true } },
+};
+
+/**
+ * Одинаковые даты рождения (или хотя бы у одного не указана)
+ * @param {object} a - Пациент
+ * @param {object} b - Пациент
+ * @returns {boolean}
+ */
+function isBirthDateCompatible(a, b) {
+  if (!a.dateOfBirth || !b.dateOfBirth) {
+    return true;
+  }
+
+  return new Date(a.dateOfBirth).toISOString().slice(0, 10) === new Date(b.dateOfBirth).toISOString().slice(0, 10);
+}
+
+/**
+ * Какую карточку оставить: с привязанным аккаунтом, зарегистрированную, с большим числом приёмов, самую старую
+ * @param {Array} patients - Пациенты группы
+ * @returns {object} Пациент
+ */
+function pickSuggestedTarget(patients) {
+  return [...patients].sort(
+    (a, b) =>
+      Number(!!b.userId) - Number(!!a.userId) ||
+      Number(b.status === 'registered') - Number(a.status === 'registered') ||
+      b._count.appointments - a._count.appointments ||
+      new Date(a.createdAt) - new Date(b.createdAt)
+  )[0];
+}
+
+/**
+ * Найти группы возможных дубликатов в клинике
+ * Совпадение по телефону (последние цифры номера) или email — почти наверняка дубликат,
+ * по похожему имени — вероятный (если даты рождения не противоречат)
+ * @param {string} clinicId - ID клиники
+ * @returns {Promise<Array>} [{ reasons, suggestedTargetId, patients }]
+ */
+export async function findDuplicates(clinicId) {
+  const patients = await prisma.patient.findMany({
+    where: { clinicId }, // ВСЕГДА фильтруем по clinicId!
+    select: PATIENT_SELECT,
+    orderBy: { createdAt: 'asc' },
+  });
+
+  const entries = patients.map(patient => ({
+    patient,
+    nameKey: normalizeName(patient.name),
+    phoneKey: phoneMatchKey(patient.phone),
+    emailKey: patient.email ? patient.email.trim().toLowerCase() : null,
+  }));
+
+  // Union-find: каждая найденная пара объединяет группы
+  const parent = entries.map((_, index) => index);
+  const find = index => (parent[index] === index ? index : (parent[index] = find(parent[index])));
+  const pairReasons = new Map(); // Корень группы → Set причин
+
+  const link = (a, b, reason) => {
+    const rootA = find(a);
+    const rootB = find(b);
+    const reasons = new Set([...(pairReasons.get(rootA) || []), ...(pairReasons.get(rootB) || []), reason]);
+    parent[rootB] = rootA;
+    pairReasons.set(rootA, reasons);
+  };
+
+  // Телефон и email: точное совпадение ключа
+  for (const field of ['phoneKey', 'emailKey']) {
+    const firstByKey = new Map();
+    entries.forEach((entry, index) => {
+      const key = entry[field];
+      if (!key) return;
+
+      if (firstByKey.has(key)) {
+        link(firstByKey.get(key), index, field === 'phoneKey' ? 'phone' : 'email');
+      } else {
+        firstByKey.set(key, index);
+      }
+    });
+  }
+
+  // Имя: сравниваем только пациентов, у которых совпадает первая буква хотя бы одного слова
+  const buckets = new Map();
+  entries.forEach((entry, index) => {
+    new Set(entry.nameKey.split(' ').map(word => word[0])).forEach(letter => {
+      if (!letter) return;
+      if (!buckets.has(letter)) buckets.set(letter, []);
+      buckets.get(letter).push(index);
+    });
+  });
+
+  const compared = new Set();
+  for (const indexes of buckets.values()) {
+    for (let i = 0; i < indexes.length; i++) {
+      for (let j = i + 1; j < indexes.length; j++) {
+        const a = indexes[i];
+        const b = indexes[j];
+        const pairKey = `${a}:${b}`;
+        if (compared.has(pairKey)) continue;
+        compared.add(pairKey);
+
+        const nameA = entries[a].nameKey;
+        const nameB = entries[b].nameKey;
+        const maxLength = Math.max(nameA.length, nameB.length);
+        // Слишком разная длина — похожесть заведомо ниже порога
+        if (!maxLength || Math.abs(nameA.length - nameB.length) / maxLength > 1 - NAME_SIMILARITY_THRESHOLD) continue;
+
+        if (
+          nameSimilarity(nameA, nameB) >= NAME_SIMILARITY_THRESHOLD &&
+          isBirthDateCompatible(entries[a].patient, entries[b].patient)
+        ) {
+          link(a, b, 'name');
+        }
+      }
+    }
+  }
+
+  const groups = new Map();
+  entries.forEach((entry, index) => {
+    const root = find(index);
+    if (!groups.has(root)) groups.set(root, []);
+    groups.get(root).push(entry.patient);
+  });
+
+  const duplicates = [];
+  for (const [root, groupPatients] of groups) {
+    if (groupPatients.length < 2) continue;
+
+    duplicates.push({
+      reasons: Array.from(pairReasons.get(root) || []),
+      suggestedTargetId: pickSuggestedTarget(groupPatients).id,
+      patients: groupPatients.map(({ _count, ...patient }) => ({
+        ...patient,
+        appointmentsCount: _count.appointments,
+      })),
+    });
+  }
+
+  // Сначала самые надёжные совпадения (телефон / email), затем большие группы
+  duplicates.sort(
+    (a, b) =>
+      Number(b.reasons.includes('phone') || b.reasons.includes('email')) -
+        Number(a.reasons.includes('phone') || a.reasons.includes('email')) ||
+      b.patients.length - a.patients.length
+  );
+
+  console.log(`🔵 [PATIENT MERGE] Клиника ${clinicId}: найдено групп дубликатов — ${duplicates.length}`);
+
+  return duplicates;
+}
+
+/**
+ * Объединить дубликаты в одну карточку
+ * Приёмы, уведомления, беседы, планы лечения и остальные связи переходят в оставшуюся карточку,
+ * пустые поля заполняются из дубликатов, дубликаты удаляются, в журнал пишется снимок удалённых карточек
+ * @param {object} actor - { userId, clinicId }
+ * @param {object} data - { targetId, sourceIds }
+ * @returns {Promise<object>} { patient, merge }
+ */
+export async function merge(actor, data) {
+  const { clinicId } = actor;
+  const sourceIds = [...new Set(data.sourceIds)];
+
+  if (sourceIds.includes(data.targetId)) {
+    throw new Error('Target patient is required to differ from merged records');
+  }
+
+  const patients = await prisma.patient.findMany({
+    where: { clinicId, id: { in: [data.targetId, ...sourceIds] } },
+    select: PATIENT_SELECT,
+  });
+
+  const target = patients.find(patient => patient.id === data.targetId);
+  const sources = patients.filter(patient => sourceIds.includes(patient.id));
+
+  if (!target || sources.length !== sourceIds.length) {
+    throw new Error('Patient not found');
+  }
+
+  // Аккаунт пациента может быть привязан только к одной карточке в клинике
+  const accountIds = new Set([target, ...sources].map(patient => patient.userId).filter(Boolean));
+  if (accountIds.size > 1) {
+    throw new Error('Forbidden: records are linked to different patient accounts');
+  }
+
+  const accountId = target.userId || sources.find(patient => patient.userId)?.userId || null;
+
+  // Пустые поля оставшейся карточки заполняем из дубликатов (от новых к старым)
+  const newestFirst = [...sources].sort((a, b) => new Date(b.createdAt) - new Date(a.createdAt));
+  const fillFrom = field => target[field] || newestFirst.find(patient => patient[field])?.[field] || null;
+  const notes = [...new Set([target, ...sources].map(patient => patient.notes?.trim()).filter(Boolean))].join('\n\n');
+
+  const { patient, mergeRecord, movedCounts } = await prisma.$transaction(async tx => {
+    const counts = {};
+    for (const [key, model] of Object.entries(MOVED_RELATIONS)) {
+      const field = model === 'patientMerge' ? 'targetPatientId' : 'patientId';
+      const result = await tx[model].updateMany({
+        where: { [field]: { in: sourceIds } },
+        data: { [field]: target.id },
+      });
+      counts[key] = result.count;
+    }
+
+    // Анамнез — один на карточку: объединяем анамнезы всех карточек, чтобы аллергии и противопоказания
+    // из дубликатов не пропали вместе с ними
+    const histories = await tx.patientMedicalHistory.findMany({
+      where: { patientId: { in: [target.id, ...sourceIds] } },
+    });
+    const sourceHistories = histories.filter(history => history.patientId !== target.id);
+    counts.medicalHistory = sourceHistories.length;
+    if (sourceHistories.length > 0) {
+      const historyData = {
+        ...combineMedicalHistories(histories),
+        updatedSource: 'clinic',
+        updatedById: actor.userId,
+      };
+
+      await tx.patientMedicalHistory.deleteMany({ where: { patientId: { in: sourceIds } } });
+      await tx.patientMedicalHistory.upsert({
+        where: { patientId: target.id },
+        create: { clinicId, patientId: target.id, ...historyData },
+        update: historyData,
+      });
+    }
+
+    // Освобождаем привязку аккаунта у дубликатов до переноса (уникальность clinicId + userId)
+    await tx.patient.updateMany({
+      where: { id: { in: sourceIds } },
+      data: { userId: null },
+    });
+
+    const updated = await tx.patient.update({
+      where: { id: target.id },
+      data: {
+        email: fillFrom('email'),
+        dateOfBirth: fillFrom('dateOfBirth'),
+        gender: fillFrom('gender'),
+        avatar: fillFrom('avatar'),
+        notes: notes || null,
+        userId: accountId,
+        status: [target, ...sources].some(item => item.status === 'registered') ? 'registered' : target.status,
+      },
+    });
+
+    await tx.patient.deleteMany({ where: { id: { in: sourceIds } } });
+
+    const record = await tx.patientMerge.create({
+      data: {
+        clinicId, // ОБЯЗАТЕЛЬНО!
+        targetPatientId: target.id,
+        sourcePatients: JSON.stringify(
+          sources.map(source => ({
+            ...source,
+            _count: undefined,
+            medicalHistory: sourceHistories.find(history => history.patientId === source.id) || null,
+          }))
+        ),
+        movedCounts: JSON.stringify(counts),
+        performedById: actor.userId,
+      },
+    });
+
+    return { patient: updated, mergeRecord: record, movedCounts: counts };
+  });
+
+  console.log(`✅ [PATIENT MERGE] В карточку ${target.id} объединены: ${sourceIds.join(', ')}`, movedCounts);
+
+  return {
+    patient,
+    merge: { ...mergeRecord, sourcePatients: JSON.parse(mergeRecord.sourcePatients), movedCounts },
+  };
+}
+
+/**
+ * Журнал объединений клиники
+ * @param {string} clinicId - ID клиники
+ * @param {object} options - Опции (patientId, page, limit)
+ * @returns {Promise<object>} { merges, meta }
+ */
+export async function findAll(clinicId, options = {}) {
+  const { patientId, page = 1, limit = 20 } = options;
+  const skip = (page - 1) * limit;
+
+  const where = {
+    clinicId, // ВСЕГДА фильтруем по clinicId!
+  };
+
+  if (patientId) {
+    where.targetPatientId = patientId;
+  }
+
+  const [merges, total] = await Promise.all([
+    prisma.patientMerge.findMany({
+      where,
+      include: {
+        targetPatient: { select: { id: true, name: true, phone: true } },
+        performedBy: { select: { id: true, name: true } },
+      },
+      orderBy: { createdAt: 'desc' },
+      take: limit,
+      skip,
+    }),
+    prisma.patientMerge.count({ where }),
+  ]);
+
+  return {
+    merges: merges.map(item => ({
+      ...item,
+      sourcePatients: JSON.parse(item.sourcePatients),
+      movedCounts: JSON.parse(item.movedCounts),
+    })),
+    meta: {
+      total,
+      page,
+      limit,
+      totalPages: Math.ceil(total / limit),
+    },
+  };
+}
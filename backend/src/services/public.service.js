@@ -1,7 +1,13 @@
 import { prisma } from '../config/database.js';
 import { findOrCreatePatient } from './patient.service.js';
-import { create as createAppointment, getBusyTimeSlots } from './appointment.service.js';
+import {
+  create as createAppointment,
+  getBusyTimeSlots,
+  getAvailableTimeSlots,
+  resolveAppointmentDuration,
+} from './appointment.service.js';
 import * as notificationService from './notification.service.js';
+import { getClinicTimezone } from './clinic.service.js';
 
 /**
  * Public Service
@@ -139,6 +145,33 @@ export async function findClinicDoctors(slug) {
   return doctors;
 }
 
+/**
+ * Получить категории лечения клиники по slug
+ * @param {string} slug - Slug клиники
+ * @returns {Promise<array>} Список категорий { id, name, defaultDuration, color }
+ */
+export async function findClinicTreatmentCategories(slug) {
+  const clinic = await prisma.clinic.findUnique({
+    where: { slug },
+    select: { id: true },
+  });
+
+  if (!clinic) {
+    throw new Error('Clinic not found');
+  }
+
+  return prisma.treatmentCategory.findMany({
+    where: { clinicId: clinic.id },
+    select: {
+      id: true,
+      name: true,
+      defaultDuration: true,
+      color: true,
+    },
+    orderBy: { name: 'asc' },
+  });
+}
+
 /**
  * Получить врача по ID и slug клиники
  * @param {string} slug - Slug клиники
@@ -201,6 +234,8 @@ export async function findClinicDoctor(slug, doctorId) {
  * @param {Date} appointmentDate - Дата и время
  * @param {string} reason - Причина визита
  * @param {Date} registeredAt - Локальное время когда пациент был на сайте и отправил регистрацию
+ * @param {string} treatmentCategoryId - Категория лечения (определяет длительность приёма)
+ * @param {string|null} userId - ID аккаунта пациента, если запись делает вошедший пациент
  * @returns {Promise<object>} Созданный appointment
  */
 export async function createPublicAppointment(
@@ -209,7 +244,9 @@ export async function createPublicAppointment(
   patientData,
   appointmentDate,
   reason,
-  registeredAt
+  registeredAt,
+  treatmentCategoryId,
+  userId = null
 ) {
   // 1. Находим клинику по slug
   const clinic = await prisma.clinic.findUnique({
@@ -235,27 +272,30 @@ export async function createPublicAppointment(
     throw new Error('Doctor not found or inactive');
   }
 
-  // 3. Находим пациента по телефону/email или создаем нового
+  // 3. Находим карточку аккаунта, пациента по телефону/email или создаем нового
   // Используем умную функцию findOrCreatePatient для избежания дубликатов
   const patient = await findOrCreatePatient(clinic.id, {
     name: patientData.name,
     phone: patientData.phone,
     email: patientData.email || null,
-  });
+  }, userId);
 
   // 4. Создаем приём со статусом 'pending'
+  // Длительность — из категории лечения или настроек клиники, как и в публичных свободных слотах
   const appointment = await createAppointment(clinic.id, {
     doctorId,
     patientId: patient.id,
     appointmentDate,
-    duration: 30, // По умолчанию 30 минут для публичных заявок
-    reason: reason || 'Онлайн-запись',
+    duration: await resolveAppointmentDuration(clinic.id, { treatmentCategoryId }),
+    reason: reason || (treatmentCategoryId ? undefined : 'Онлайн-запись'), // С категорией — её название
+    treatmentCategoryId,
     registeredAt: registeredAt || null, // Локальное время регистрации от пользователя
   });
 
   // 5. Создаем уведомление для администратора клиники о новой регистрации
   try {
     const formattedDate = new Date(appointmentDate).toLocaleString('ru-RU', {
+      timeZone: await getClinicTimezone(clinic.id), // Время на часах клиники, а не сервера
       year: 'numeric',
       month: 'long',
       day: 'numeric',
@@ -267,7 +307,7 @@ export async function createPublicAppointment(
     const doctorSpecialization = appointment.doctor?.specialization || doctor.specialization || '';
     const patientName = patient.name;
     const patientPhone = patient.phone;
-    const appointmentReason = reason || 'Онлайн-запись';
+    const appointmentReason = appointment.reason || 'Онлайн-запись';
 
     await notificationService.createForAdmin(clinic.id, {
       type: 'new_appointment',
@@ -349,8 +389,41 @@ export async function getPublicBusyTimeSlots(clinicSlug, doctorId, date) {
     throw new Error('Doctor not found or inactive');
   }
 
-  // Используем метод из appointment.service
-  return await getBusyTimeSlots(clinic.id, doctorId, date);
+  // Используем метод из appointment.service (учитывает расписание и исключения врача)
+  const busySlots = await getBusyTimeSlots(clinic.id, doctorId, date);
+
+  // Причину нерабочего времени (отпуск, больничный...) наружу не отдаём
+  return busySlots.map(slot => ({
+    start: slot.start,
+    end: slot.end,
+    appointmentId: slot.appointmentId,
+    type: slot.type,
+  }));
+}
+
+/**
+ * Получить свободные слоты врача на дату (публичный endpoint)
+ * Длительность — из категории лечения или по умолчанию клиники (ту же использует createPublicAppointment)
+ * @param {string} clinicSlug - Slug клиники
+ * @param {string} doctorId - ID врача
+ * @param {string} date - Дата в формате YYYY-MM-DD
+ * @param {string} treatmentCategoryId - Категория лечения (опционально)
+ * @returns {Promise<object>} { date, timezone, duration, interval, isWorking, workingHours, slots }
+ */
+export async function getPublicAvailableSlots(clinicSlug, doctorId, date, treatmentCategoryId) {
+  const clinic = await prisma.clinic.findUnique({
+    where: { slug: clinicSlug },
+    select: { id: true },
+  });
+
+  if (!clinic) {
+    throw new Error('Clinic not found');
+  }
+
+  const availability = await getAvailableTimeSlots(clinic.id, doctorId, date, { treatmentCategoryId });
+
+  // Причину нерабочего дня (отпуск, больничный...) наружу не отдаём
+  return { ...availability, reason: null };
 }
 
 /**
@@ -0,0 +1,181 @@
+import { prisma } from '../config/database.js';
+import * as notificationService from './notification.service.js';
+
+/**
+ * Reminder Service
+ * Напоминания о предстоящих приёмах по настройке клиники appointmentReminderHours
+ */
+
+/**
+ * Значения по умолчанию, если у клиники ещё нет ClinicSettings
+ * (совпадают с дефолтами модели)
+ */
+const DEFAULT_REMINDER_HOURS = 24;
+const DEFAULT_TIMEZONE = 'Asia/Yerevan';
+
+/**
+ * Статусы приёмов, о которых напоминаем (неподтверждённые клиникой приёмы — нет)
+ */
+const REMINDER_STATUSES = ['confirmed'];
+
+/**
+ * Отформатировать дату приёма в часовом поясе клиники
+ * @param {Date} date - Дата приёма
+ * @param {string} timezone - Часовой пояс клиники (IANA)
+ * @returns {string}
+ */
+function formatAppointmentDate(date, timezone) {
+  const options = {
+    year: 'numeric',
+    month: 'long',
+    day: 'numeric',
+    hour: '2-digit',
+    minute: '2-digit',
+  };
+
+  try {
+    return date.toLocaleString('ru-RU', { ...options, timeZone: timezone });
+  } catch (error) {
+    // Невалидный часовой пояс в настройках — не блокируем напоминание
+    console.warn(`⚠️ [REMINDER] Невалидный часовой пояс "${timezone}", используется ${DEFAULT_TIMEZONE}`);
+    return date.toLocaleString('ru-RU', { ...options, timeZone: DEFAULT_TIMEZONE });
+  }
+}
+
+/**
+ * Ключ идемпотентности напоминания
+ * Дата приёма входит в ключ, чтобы после переноса напоминание пришло снова
+ * @param {object} appointment - Приём
+ * @param {string} recipient - patient | doctor
+ * @returns {string}
+ */
+function getDedupeKey(appointment, recipient) {
+  return `reminder:${appointment.id}:${appointment.appointmentDate.toISOString()}:${recipient}`;
+}
+
+/**
+ * Создать напоминание, если оно ещё не было создано
+ * @param {Function} createFn - Функция создания уведомления
+ * @returns {Promise<boolean>} true если уведомление создано
+ */
+async function createOnce(createFn) {
+  try {
+    await createFn();
+    return true;
+  } catch (error) {
+    // Уникальный dedupeKey уже существует — напоминание уже отправлено
+    if (error.code === 'P2002') {
+      return false;
+    }
+    throw error;
+  }
+}
+
+/**
+ * Отправить напоминания по всем приёмам клиники, попадающим в окно напоминания
+ * @param {object} clinic - Клиника с настройками ({ id, settings })
+ * @param {Date} now - Текущий момент
+ * @returns {Promise<object>} { created, skipped }
+ */
+async function sendClinicReminders(clinic, now) {
+  const reminderHours = clinic.settings?.appointmentReminderHours ?? DEFAULT_REMINDER_HOURS;
+  const timezone = clinic.settings?.timezone || DEFAULT_TIMEZONE;
+
+  // 0 — напоминания отключены
+  if (!reminderHours || reminderHours <= 0) {
+    return { created: 0, skipped: 0 };
+  }
+
+  const windowEnd = new Date(now.getTime() + reminderHours * 60 * 60 * 1000);
+
+  const appointments = await prisma.appointment.findMany({
+    where: {
+      clinicId: clinic.id, // ВСЕГДА фильтруем по clinicId!
+      status: { in: REMINDER_STATUSES },
+      appointmentDate: {
+        gt: now,
+        lte: windowEnd,
+      },
+    },
+    include: {
+      patient: {
+        select: { id: true, name: true },
+      },
+      doctor: {
+        select: { id: true, name: true },
+      },
+    },
+  });
+
+  let created = 0;
+  let skipped = 0;
+
+  for (const appointment of appointments) {
+    const formattedDate = formatAppointmentDate(appointment.appointmentDate, timezone);
+
+    try {
+      // Напоминание пациенту
+      const patientCreated = await createOnce(() =>
+        notificationService.create(clinic.id, appointment.patientId, {
+          type: 'reminder',
+          title: 'Напоминание о приёме',
+          message: `Напоминаем, что у вас приём ${formattedDate}${appointment.doctor?.name ? ` у врача ${appointment.doctor.name}` : ''}.`,
+          appointmentId: appointment.id,
+          dedupeKey: getDedupeKey(appointment, 'patient'),
+        })
+      );
+      patientCreated ? created++ : skipped++;
+
+      // Напоминание врачу
+      const doctorCreated = await createOnce(() =>
+        notificationService.createForDoctor(clinic.id, appointment.doctorId, {
+          type: 'reminder',
+          title: 'Напоминание о приёме',
+          message: `Приём пациента ${appointment.patient?.name || ''} ${formattedDate}.${appointment.reason ? ` Причина: ${appointment.reason}` : ''}`,
+          appointmentId: appointment.id,
+          dedupeKey: getDedupeKey(appointment, 'doctor'),
+        })
+      );
+      doctorCreated ? created++ : skipped++;
+    } catch (error) {
+      // Ошибка по одному приёму не должна останавливать остальные
+      console.error(`🔴 [REMINDER] Ошибка напоминания для приёма ${appointment.id}:`, error.message);
+    }
+  }
+
+  return { created, skipped };
+}
+
+/**
+ * Отправить все назревшие напоминания о приёмах
+ * Идемпотентно: повторный запуск не создаёт дубликатов (уникальный dedupeKey)
+ * @param {Date} now - Текущий момент (по умолчанию — сейчас)
+ * @returns {Promise<object>} { created, skipped }
+ */
+export async function sendDueReminders(now = new Date()) {
+  const clinics = await prisma.clinic.findMany({
+    select: {
+      id: true,
+      settings: {
+        select: {
+          timezone: true,
+          appointmentReminderHours: true,
+        },
+      },
+    },
+  });
+
+  const total = { created: 0, skipped: 0 };
+
+  for (const clinic of clinics) {
+    const result = await sendClinicReminders(clinic, now);
+    total.created += result.created;
+    total.skipped += result.skipped;
+  }
+
+  if (total.created > 0) {
+    console.log(`✅ [REMINDER] Создано напоминаний: ${total.created} (уже отправлено ранее: ${total.skipped})`);
+  }
+
+  return total;
+}
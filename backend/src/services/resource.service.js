@@ -0,0 +1,229 @@
+import { prisma } from '../config/database.js';
+import * as bufferService from './appointmentBuffer.service.js';
+
+/**
+ * Resource Service
+ * Бизнес-логика для ресурсов клиники: кабинеты, стоматологические кресла, оборудование (рентген и т.п.)
+ * Приём может занимать несколько ресурсов; один ресурс не может быть занят двумя приёмами одновременно
+ */
+
+/**
+ * Получить ресурсы клиники
+ * @param {string} clinicId - ID клиники
+ * @param {object} options - { activeOnly }
+ * @returns {Promise<Array>} Список ресурсов
+ */
+export async function getResources(clinicId, options = {}) {
+  const where = { clinicId };
+  if (options.activeOnly) {
+    where.isActive = true;
+  }
+
+  return prisma.clinicResource.findMany({
+    where,
+    orderBy: [{ type: 'asc' }, { name: 'asc' }],
+  });
+}
+
+/**
+ * Получить ресурс по ID
+ * @param {string} clinicId - ID клиники
+ * @param {string} resourceId - ID ресурса
+ * @returns {Promise<object>} Ресурс
+ */
+export async function getResourceById(clinicId, resourceId) {
+  const resource = await prisma.clinicResource.findFirst({
+    where: {
+      id: resourceId,
+      clinicId, // Проверка принадлежности к клинике
+    },
+  });
+
+  if (!resource) {
+    throw new Error('Resource not found');
+  }
+
+  return resource;
+}
+
+/**
+ * Создать ресурс
+ * @param {string} clinicId - ID клиники
+ * @param {object} data - { name, type, description, isActive }
+ * @returns {Promise<object>} Созданный ресурс
+ */
+export async function createResource(clinicId, data) {
+  const existing = await prisma.clinicResource.findFirst({
+    where: { clinicId, name: data.name },
+  });
+
+  if (existing) {
+    throw new Error('Resource with this name already exists');
+  }
+
+  const resource = await prisma.clinicResource.create({
+    data: {
+      clinicId,
+      name: data.name,
+      type: data.type || 'chair',
+      description: data.description || null,
+      isActive: data.isActive ?? true,
+    },
+  });
+
+  console.log(`✅ [RESOURCE SERVICE] Ресурс создан: ${resource.name} (${resource.type})`);
+  return resource;
+}
+
+/**
+ * Обновить ресурс
+ * @param {string} clinicId - ID клиники
+ * @param {string} resourceId - ID ресурса
+ * @param {object} data - Поля для обновления
+ * @returns {Promise<object>} Обновленный ресурс
+ */
+export async function updateResource(clinicId, resourceId, data) {
+  const existing = await getResourceById(clinicId, resourceId);
+
+  if (data.name && data.name !== existing.name) {
+    const duplicate = await prisma.clinicResource.findFirst({
+      where: {
+        clinicId,
+        name: data.name,
+        NOT: { id: resourceId },
+      },
+    });
+
+    if (duplicate) {
+      throw new Error('Resource with this name already exists');
+    }
+  }
+
+  const updateData = {};
+  if (data.name !== undefined) updateData.name = data.name;
+  if (data.type !== undefined) updateData.type = data.type;
+  if (data.description !== undefined) updateData.description = data.description || null;
+  if (data.isActive !== undefined) updateData.isActive = data.isActive;
+
+  const resource = await prisma.clinicResource.update({
+    where: { id: resourceId },
+    data: updateData,
+  });
+
+  console.log(`✅ [RESOURCE SERVICE] Ресурс обновлён: ${resource.id}`);
+  return resource;
+}
+
+/**
+ * Удалить ресурс
+ * Связи с приёмами удаляются каскадно; чтобы сохранить историю, ресурс лучше деактивировать
+ * @param {string} clinicId - ID клиники
+ * @param {string} resourceId - ID ресурса
+ */
+export async function deleteResource(clinicId, resourceId) {
+  await getResourceById(clinicId, resourceId);
+
+  await prisma.clinicResource.delete({
+    where: { id: resourceId },
+  });
+
+  console.log(`✅ [RESOURCE SERVICE] Ресурс удалён: ${resourceId}`);
+}
+
+/**
+ * Проверить, что ресурсы принадлежат клинике и активны
+ * @param {string} clinicId - ID клиники
+ * @param {Array<string>} resourceIds - ID ресурсов
+ * @param {object} client - Prisma client или транзакция
+ * @returns {Promise<Array<string>>} Уникальные ID ресурсов
+ */
+export async function validateResourceIds(clinicId, resourceIds = [], client = prisma) {
+  const ids = [...new Set(resourceIds.filter(Boolean))];
+  if (ids.length === 0) {
+    return [];
+  }
+
+  const resources = await client.clinicResource.findMany({
+    where: {
+      id: { in: ids },
+      clinicId,
+      isActive: true,
+    },
+    select: { id: true },
+  });
+
+  if (resources.length !== ids.length) {
+    throw new Error('Resource not found or inactive');
+  }
+
+  return ids;
+}
+
+/**
+ * Найти ресурс, уже занятый другим приёмом в указанный интервал
+ * @param {string} clinicId - ID клиники
+ * @param {Array<string>} resourceIds - ID ресурсов
+ * @param {Date} appointmentDate - Начало приёма
+ * @param {number} duration - Длительность (минуты)
+ * @param {string|Array<string>|null} excludeAppointmentId - Приём(ы), которые не учитываются (при переносе)
+ * @param {object} client - Prisma client или транзакция
+ * @param {object} bufferSource - { treatmentCategoryId } приёма — по категории определяются его буферы
+ * @returns {Promise<object|null>} { resource, appointmentId } или null, если ресурсы свободны
+ */
+export async function findResourceConflict(
+  clinicId,
+  resourceIds,
+  appointmentDate,
+  duration,
+  excludeAppointmentId = null,
+  client = prisma,
+  bufferSource = {}
+) {
+  if (!resourceIds || resourceIds.length === 0) {
+    return null;
+  }
+
+  // Кресло после приёма ещё стерилизуется — сравниваем интервалы вместе с буферами
+  const bufferRules = await bufferService.getBufferRules(clinicId, client);
+  const { start, end } = bufferService.getOccupiedInterval(
+    appointmentDate,
+    duration,
+    bufferService.resolveBuffers(bufferRules, bufferSource)
+  );
+
+  // Приёмы длятся не дольше 4 часов (плюс буфер после) — этого окна достаточно, чтобы найти все пересечения
+  const windowStart = new Date(start.getTime() - (240 + bufferService.MAX_BUFFER_MINUTES) * 60000);
+
+  const where = {
+    resourceId: { in: resourceIds },
+    appointment: {
+      clinicId,
+      status: { notIn: ['cancelled'] }, // Как и в checkTimeSlotAvailability
+      appointmentDate: { gte: windowStart, lt: new Date(end.getTime() + bufferService.MAX_BUFFER_MINUTES * 60000) },
+    },
+  };
+
+  if (excludeAppointmentId) {
+    const excluded = Array.isArray(excludeAppointmentId) ? excludeAppointmentId : [excludeAppointmentId];
+    where.appointmentId = { notIn: excluded };
+  }
+
+  const bookings = await client.appointmentResource.findMany({
+    where,
+    include: {
+      resource: { select: { id: true, name: true, type: true } },
+      appointment: { select: { id: true, appointmentDate: true, duration: true, treatmentCategoryId: true } },
+    },
+  });
+
+  const conflict = bookings.find(booking => {
+    const booked = bufferService.getOccupiedInterval(
+      booking.appointment.appointmentDate,
+      booking.appointment.duration,
+      bufferService.resolveBuffers(bufferRules, booking.appointment)
+    );
+    return start < booked.end && end > booked.start;
+  });
+
+  return conflict ? { resource: conflict.resource, appointmentId: conflict.appointment.id } : null;
+}
@@ -46,6 +46,30 @@ export async function getTreatmentCategoryById(clinicId, categoryId) {
   return category;
 }
 
+/**
+ * Категория лечения для приёма (проверка принадлежности к клинике)
+ * @param {string} clinicId - ID клиники
+ * @param {string|null} categoryId - ID категории (null / пусто — приём без категории)
+ * @param {object} client - Prisma client или транзакция
+ * @returns {Promise<object|null>} { id, name, defaultDuration } или null
+ */
+export async function resolveAppointmentCategory(clinicId, categoryId, client = prisma) {
+  if (!categoryId) {
+    return null;
+  }
+
+  const category = await client.treatmentCategory.findFirst({
+    where: { id: categoryId, clinicId },
+    select: { id: true, name: true, defaultDuration: true },
+  });
+
+  if (!category) {
+    throw new Error('Treatment category not found');
+  }
+
+  return category;
+}
+
 /**
  * Создать категорию лечения
  * @param {string} clinicId - ID клиники
@@ -83,6 +107,12 @@ export async function createTreatmentCategory(clinicId, data) {
       defaultDuration: data.defaultDuration || 30,
       description: data.description || null,
       color: data.color || null, // Сохраняем цвет, если он передан
+      bufferBeforeMinutes: data.bufferBeforeMinutes ?? null,
+      bufferAfterMinutes: data.bufferAfterMinutes ?? null,
+      templateComplaint: data.templateComplaint || null,
+      templateDiagnosis: data.templateDiagnosis || null,
+      templateTreatment: data.templateTreatment || null,
+      templateRecommendations: data.templateRecommendations || null,
     },
   });
 
@@ -134,6 +164,13 @@ export async function updateTreatmentCategory(clinicId, categoryId, data) {
   if (data.name !== undefined) updateData.name = data.name;
   if (data.defaultDuration !== undefined) updateData.defaultDuration = data.defaultDuration;
   if (data.description !== undefined) updateData.description = data.description || null;
+  if (data.bufferBeforeMinutes !== undefined) updateData.bufferBeforeMinutes = data.bufferBeforeMinutes;
+  if (data.bufferAfterMinutes !== undefined) updateData.bufferAfterMinutes = data.bufferAfterMinutes;
+
+  // Шаблон протокола приёма: пустая строка очищает раздел
+  ['templateComplaint', 'templateDiagnosis', 'templateTreatment', 'templateRecommendations'].forEach(field => {
+    if (data[field] !== undefined) updateData[field] = data[field] || null;
+  });
   
   // Для цвета: обрабатываем только если поле передано явно
   // Если color === null - удаляем цвет, если color === строка - сохраняем
@@ -179,7 +216,7 @@ export async function deleteTreatmentCategory(clinicId, categoryId) {
     throw new Error('Treatment category not found');
   }
 
-  // Удаляем категорию (связи с врачами удалятся автоматически через onDelete: Cascade)
+  // Удаляем категорию (связи с врачами удалятся через onDelete: Cascade, у приёмов категория обнулится — reason останется)
   await prisma.treatmentCategory.delete({
     where: { id: categoryId },
   });
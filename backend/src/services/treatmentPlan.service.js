@@ -0,0 +1,594 @@
+import { prisma } from '../config/database.js';
+import * as notificationService from './notification.service.js';
+import { findPatientIdsForUser } from './chat.service.js';
+
+/**
+ * Treatment Plan Service
+ * Многоэтапные планы лечения со сметой: врач составляет план, пациент принимает его в личном кабинете,
+ * этапы назначаются на приёмы и отмечаются выполненными
+ */
+
+/**
+ * Связанные данные, возвращаемые вместе с планом (достаточно для печати сметы)
+ */
+const PLAN_INCLUDE = {
+  patient: {
+    select: {
+      id: true,
+      name: true,
+      phone: true,
+      email: true,
+    },
+  },
+  doctor: {
+    select: {
+      id: true,
+      name: true,
+      specialization: true,
+    },
+  },
+  clinic: {
+    select: {
+      id: true,
+      name: true,
+      slug: true,
+      phone: true,
+      email: true,
+      address: true,
+      city: true,
+      logo: true,
+      settings: { select: { currency: true, timezone: true } },
+    },
+  },
+  stages: {
+    orderBy: { position: 'asc' },
+    include: {
+      treatmentCategory: {
+        select: {
+          id: true,
+          name: true,
+          color: true,
+          defaultDuration: true,
+        },
+      },
+      appointment: {
+        select: {
+          id: true,
+          appointmentDate: true,
+          status: true,
+        },
+      },
+    },
+  },
+};
+
+/**
+ * Допустимые переходы статусов этапа (сотрудником клиники)
+ * proposed → accepted происходит, когда пациент принимает план
+ */
+const STAGE_TRANSITIONS = {
+  proposed: ['accepted', 'cancelled'],
+  accepted: ['scheduled', 'done', 'cancelled'],
+  scheduled: ['accepted', 'done', 'cancelled'],
+  done: [],
+  cancelled: [],
+};
+
+/**
+ * Добавить к плану итоговые суммы сметы
+ * Отменённые этапы в смету не входят
+ * @param {object} plan - План с этапами
+ * @returns {object} План с totals: { estimated, done, remaining }
+ */
+function withTotals(plan) {
+  const activeStages = plan.stages.filter(stage => stage.status !== 'cancelled');
+  const estimated = activeStages.reduce((sum, stage) => sum + stage.estimatedPrice, 0);
+  const done = activeStages
+    .filter(stage => stage.status === 'done')
+    .reduce((sum, stage) => sum + stage.estimatedPrice, 0);
+
+  return {
+    ...plan,
+    totals: {
+      estimated,
+      done,
+      remaining: estimated - done,
+    },
+  };
+}
+
+/**
+ * Проверить доступ к пациенту
+ * Врач работает только с пациентами, у которых есть приёмы к нему (как и с зубной картой)
+ * @param {object} actor - { userId, role, clinicId }
+ * @param {string} patientId - ID пациента
+ */
+async function assertPatientAccess(actor, patientId) {
+  const patient = await prisma.patient.findFirst({
+    where: { id: patientId, clinicId: actor.clinicId },
+    select: { id: true },
+  });
+
+  if (!patient) {
+    throw new Error('Patient not found');
+  }
+
+  if (actor.role === 'DOCTOR') {
+    const hasAppointments = await prisma.appointment.findFirst({
+      where: { clinicId: actor.clinicId, patientId, doctorId: actor.userId },
+      select: { id: true },
+    });
+
+    if (!hasAppointments) {
+      throw new Error('Patient not found or access denied');
+    }
+  }
+}
+
+/**
+ * Проверить, что категории лечения этапов принадлежат клинике
+ * @param {string} clinicId - ID клиники
+ * @param {Array<object>} stages - Этапы плана
+ */
+async function validateStageCategories(clinicId, stages) {
+  const categoryIds = [...new Set(stages.map(stage => stage.treatmentCategoryId).filter(Boolean))];
+
+  if (categoryIds.length === 0) {
+    return;
+  }
+
+  const count = await prisma.treatmentCategory.count({
+    where: { id: { in: categoryIds }, clinicId },
+  });
+
+  if (count !== categoryIds.length) {
+    throw new Error('Treatment category not found');
+  }
+}
+
+/**
+ * Данные этапов для сохранения (позиция — порядок в массиве)
+ * @param {Array<object>} stages - Этапы из запроса
+ * @returns {Array<object>}
+ */
+function buildStagesData(stages) {
+  return stages.map((stage, index) => ({
+    position: index + 1,
+    title: stage.title,
+    description: stage.description || null,
+    treatmentCategoryId: stage.treatmentCategoryId || null,
+    tooth: stage.tooth ?? null,
+    estimatedPrice: stage.estimatedPrice,
+  }));
+}
+
+/**
+ * Найти план клиники с проверкой доступа
+ * @param {object} actor - { userId, role, clinicId }
+ * @param {string} planId - ID плана
+ * @returns {Promise<object>} План с этапами
+ */
+async function findPlanForActor(actor, planId) {
+  const plan = await prisma.treatmentPlan.findFirst({
+    where: { id: planId, clinicId: actor.clinicId },
+    include: PLAN_INCLUDE,
+  });
+
+  if (!plan) {
+    throw new Error('Treatment plan not found');
+  }
+
+  await assertPatientAccess(actor, plan.patientId);
+
+  return plan;
+}
+
+/**
+ * Завершить план, если все его этапы (кроме отменённых) выполнены
+ * @param {string} planId - ID плана
+ */
+async function refreshPlanCompletion(planId) {
+  const plan = await prisma.treatmentPlan.findUnique({
+    where: { id: planId },
+    include: { stages: { select: { status: true } } },
+  });
+
+  if (!plan || plan.status !== 'accepted') {
+    return;
+  }
+
+  const activeStages = plan.stages.filter(stage => stage.status !== 'cancelled');
+  if (activeStages.length > 0 && activeStages.every(stage => stage.status === 'done')) {
+    await prisma.treatmentPlan.update({
+      where: { id: planId },
+      data: { status: 'completed' },
+    });
+    console.log(`✅ [TREATMENT PLAN] План ${planId} выполнен полностью`);
+  }
+}
+
+/**
+ * Получить планы лечения клиники
+ * Врач видит планы только своих пациентов
+ * @param {object} actor - { userId, role, clinicId }
+ * @param {object} options - { patientId, status }
+ * @returns {Promise<Array>}
+ */
+export async function findAll(actor, options = {}) {
+  const where = { clinicId: actor.clinicId };
+
+  if (options.patientId) {
+    await assertPatientAccess(actor, options.patientId);
+    where.patientId = options.patientId;
+  } else if (actor.role === 'DOCTOR') {
+    where.patient = { appointments: { some: { doctorId: actor.userId } } };
+  }
+
+  if (options.status) {
+    where.status = options.status;
+  }
+
+  const plans = await prisma.treatmentPlan.findMany({
+    where,
+    include: PLAN_INCLUDE,
+    orderBy: { createdAt: 'desc' },
+  });
+
+  return plans.map(withTotals);
+}
+
+/**
+ * Получить план лечения по ID
+ * @param {object} actor - { userId, role, clinicId }
+ * @param {string} planId - ID плана
+ * @returns {Promise<object>}
+ */
+export async function findById(actor, planId) {
+  const plan = await findPlanForActor(actor, planId);
+  return withTotals(plan);
+}
+
+/**
+ * Создать план лечения (черновик)
+ * @param {object} actor - { userId, role, clinicId }
+ * @param {object} data - { patientId, title, notes, stages }
+ * @returns {Promise<object>} Созданный план
+ */
+export async function create(actor, data) {
+  await assertPatientAccess(actor, data.patientId);
+  await validateStageCategories(actor.clinicId, data.stages);
+
+  const plan = await prisma.treatmentPlan.create({
+    data: {
+      clinicId: actor.clinicId,
+      patientId: data.patientId,
+      doctorId: actor.role === 'DOCTOR' ? actor.userId : null,
+      title: data.title,
+      notes: data.notes || null,
+      stages: { create: buildStagesData(data.stages) },
+    },
+    include: PLAN_INCLUDE,
+  });
+
+  console.log(`✅ [TREATMENT PLAN] Создан план ${plan.id} для пациента ${data.patientId} (${data.stages.length} этапов)`);
+  return withTotals(plan);
+}
+
+/**
+ * Изменить план лечения
+ * Менять можно только черновик или ещё не принятый пациентом план; этапы заменяются целиком
+ * @param {object} actor - { userId, role, clinicId }
+ * @param {string} planId - ID плана
+ * @param {object} data - { title, notes, stages }
+ * @returns {Promise<object>} Обновлённый план
+ */
+export async function update(actor, planId, data) {
+  const plan = await findPlanForActor(actor, planId);
+
+  if (!['draft', 'presented'].includes(plan.status)) {
+    throw new Error('Treatment plan is invalid for editing: it was already accepted or closed');
+  }
+
+  await validateStageCategories(actor.clinicId, data.stages);
+
+  const [, updated] = await prisma.$transaction([
+    prisma.treatmentPlanStage.deleteMany({ where: { planId } }),
+    prisma.treatmentPlan.update({
+      where: { id: planId },
+      data: {
+        title: data.title,
+        notes: data.notes || null,
+        stages: { create: buildStagesData(data.stages) },
+      },
+      include: PLAN_INCLUDE,
+    }),
+  ]);
+
+  console.log(`✅ [TREATMENT PLAN] План ${planId} обновлён`);
+  return withTotals(updated);
+}
+
+/**
+ * Показать план пациенту: смета появляется в личном кабинете и её можно принять
+ * @param {object} actor - { userId, role, clinicId }
+ * @param {string} planId - ID плана
+ * @returns {Promise<object>} Обновлённый план
+ */
+export async function present(actor, planId) {
+  const plan = await findPlanForActor(actor, planId);
+
+  if (plan.status !== 'draft') {
+    throw new Error('Treatment plan is invalid: only a draft can be presented');
+  }
+
+  const updated = await prisma.treatmentPlan.update({
+    where: { id: planId },
+    data: { status: 'presented', presentedAt: new Date() },
+    include: PLAN_INCLUDE,
+  });
+
+  try {
+    await notificationService.create(actor.clinicId, plan.patientId, {
+      type: 'treatment_plan',
+      title: 'План лечения',
+      message: `Клиника подготовила для вас план лечения «${plan.title}». Ознакомьтесь со сметой и подтвердите её в личном кабинете.`,
+    });
+  } catch (error) {
+    // Уведомление не должно мешать отправке плана
+    console.error(`❌ [TREATMENT PLAN] Ошибка уведомления пациента о плане ${planId}:`, error.message);
+  }
+
+  console.log(`✅ [TREATMENT PLAN] План ${planId} показан пациенту ${plan.patientId}`);
+  return withTotals(updated);
+}
+
+/**
+ * Отменить план: невыполненные этапы тоже отменяются
+ * @param {object} actor - { userId, role, clinicId }
+ * @param {string} planId - ID плана
+ * @returns {Promise<object>} Обновлённый план
+ */
+export async function cancel(actor, planId) {
+  const plan = await findPlanForActor(actor, planId);
+
+  if (['completed', 'cancelled'].includes(plan.status)) {
+    throw new Error('Treatment plan is invalid for cancellation: it is already closed');
+  }
+
+  const [, updated] = await prisma.$transaction([
+    prisma.treatmentPlanStage.updateMany({
+      where: { planId, status: { not: 'done' } },
+      data: { status: 'cancelled' },
+    }),
+    prisma.treatmentPlan.update({
+      where: { id: planId },
+      data: { status: 'cancelled' },
+      include: PLAN_INCLUDE,
+    }),
+  ]);
+
+  console.log(`ℹ️ [TREATMENT PLAN] План ${planId} отменён`);
+  return withTotals(updated);
+}
+
+/**
+ * Изменить этап принятого плана: назначить на приём, отметить выполненным или отменить
+ * Привязка к приёму переводит этап в scheduled, отвязка — обратно в accepted
+ * @param {object} actor - { userId, role, clinicId }
+ * @param {string} planId - ID плана
+ * @param {string} stageId - ID этапа
+ * @param {object} data - { status, appointmentId }
+ * @returns {Promise<object>} Обновлённый план
+ */
+export async function updateStage(actor, planId, stageId, data) {
+  const plan = await findPlanForActor(actor, planId);
+
+  if (plan.status !== 'accepted') {
+    throw new Error('Treatment plan is invalid: stages can be updated only after the patient accepts the plan');
+  }
+
+  const stage = plan.stages.find(item => item.id === stageId);
+  if (!stage) {
+    throw new Error('Treatment plan stage not found');
+  }
+
+  const updateData = {};
+  let nextStatus = data.status || stage.status;
+
+  if (data.appointmentId !== undefined) {
+    if (data.appointmentId) {
+      const appointment = await prisma.appointment.findFirst({
+        where: {
+          id: data.appointmentId,
+          clinicId: actor.clinicId,
+          patientId: plan.patientId,
+          status: { not: 'cancelled' },
+        },
+        select: { id: true },
+      });
+
+      if (!appointment) {
+        throw new Error('Appointment not found');
+      }
+
+      updateData.appointmentId = appointment.id;
+      nextStatus = data.status || 'scheduled';
+    } else {
+      updateData.appointmentId = null;
+      nextStatus = data.status || (stage.status === 'scheduled' ? 'accepted' : stage.status);
+    }
+  }
+
+  if (nextStatus !== stage.status && !STAGE_TRANSITIONS[stage.status].includes(nextStatus)) {
+    throw new Error(`Stage status transition is invalid: ${stage.status} → ${nextStatus}`);
+  }
+  if (nextStatus === 'scheduled' && !(updateData.appointmentId ?? stage.appointmentId)) {
+    throw new Error('Appointment ID is required to schedule a stage');
+  }
+
+  if (nextStatus === 'accepted') {
+    updateData.appointmentId = null;
+  }
+
+  updateData.status = nextStatus;
+  updateData.completedAt = nextStatus === 'done' ? stage.completedAt || new Date() : null;
+
+  await prisma.treatmentPlanStage.update({
+    where: { id: stageId },
+    data: updateData,
+  });
+
+  console.log(`✅ [TREATMENT PLAN] Этап ${stageId} плана ${planId}: ${stage.status} → ${nextStatus}`);
+
+  await refreshPlanCompletion(planId);
+
+  return findById(actor, planId);
+}
+
+/**
+ * Этапы, назначенные на завершённый приём, отмечаются выполненными
+ * Вызывается при переводе приёма в completed
+ * @param {string} clinicId - ID клиники
+ * @param {string} appointmentId - ID приёма
+ */
+export async function completeStagesForAppointment(clinicId, appointmentId) {
+  const stages = await prisma.treatmentPlanStage.findMany({
+    where: {
+      appointmentId,
+      status: 'scheduled',
+      plan: { clinicId, status: 'accepted' },
+    },
+    select: { id: true, planId: true },
+  });
+
+  if (stages.length === 0) {
+    return;
+  }
+
+  await prisma.treatmentPlanStage.updateMany({
+    where: { id: { in: stages.map(stage => stage.id) } },
+    data: { status: 'done', completedAt: new Date() },
+  });
+
+  console.log(`✅ [TREATMENT PLAN] Приём ${appointmentId} завершён, выполнено этапов: ${stages.length}`);
+
+  for (const planId of new Set(stages.map(stage => stage.planId))) {
+    await refreshPlanCompletion(planId);
+  }
+}
+
+/**
+ * Этапы, назначенные на отменённый или пропущенный приём, снова ждут назначения
+ * Вызывается при отмене приёма (в том числе приёмов серии) и при неявке пациента
+ * @param {string} clinicId - ID клиники
+ * @param {string} appointmentId - ID приёма
+ */
+export async function releaseStagesForAppointment(clinicId, appointmentId) {
+  const { count } = await prisma.treatmentPlanStage.updateMany({
+    where: {
+      appointmentId,
+      status: 'scheduled',
+      plan: { clinicId },
+    },
+    data: { status: 'accepted', appointmentId: null },
+  });
+
+  if (count > 0) {
+    console.log(`ℹ️ [TREATMENT PLAN] Приём ${appointmentId} отменён или пропущен, этапов снова ждут назначения: ${count}`);
+  }
+}
+
+/**
+ * Получить планы лечения пользователя-пациента (во всех клиниках)
+ * Черновики пациенту не показываются
+ * @param {string} userId - ID пользователя (role PATIENT)
+ * @returns {Promise<Array>}
+ */
+export async function findForPatientUser(userId) {
+  const patientIds = await findPatientIdsForUser(userId);
+
+  if (patientIds.length === 0) {
+    return [];
+  }
+
+  const plans = await prisma.treatmentPlan.findMany({
+    where: {
+      patientId: { in: patientIds },
+      status: { not: 'draft' },
+    },
+    include: PLAN_INCLUDE,
+    orderBy: { createdAt: 'desc' },
+  });
+
+  return plans.map(withTotals);
+}
+
+/**
+ * Получить план лечения пациента по ID (для просмотра и печати сметы)
+ * @param {string} userId - ID пользователя (role PATIENT)
+ * @param {string} planId - ID плана
+ * @returns {Promise<object>}
+ */
+export async function findByIdForPatientUser(userId, planId) {
+  const patientIds = await findPatientIdsForUser(userId);
+
+  const plan = await prisma.treatmentPlan.findFirst({
+    where: {
+      id: planId,
+      patientId: { in: patientIds },
+      status: { not: 'draft' },
+    },
+    include: PLAN_INCLUDE,
+  });
+
+  if (!plan) {
+    throw new Error('Treatment plan not found');
+  }
+
+  return withTotals(plan);
+}
+
+/**
+ * Пациент принимает смету: план и все предложенные этапы становятся принятыми
+ * @param {string} userId - ID пользователя (role PATIENT)
+ * @param {string} planId - ID плана
+ * @returns {Promise<object>} Обновлённый план
+ */
+export async function acceptForPatientUser(userId, planId) {
+  const plan = await findByIdForPatientUser(userId, planId);
+
+  if (plan.status !== 'presented') {
+    throw new Error('Treatment plan is invalid: it is not awaiting acceptance');
+  }
+
+  const [, updated] = await prisma.$transaction([
+    prisma.treatmentPlanStage.updateMany({
+      where: { planId, status: 'proposed' },
+      data: { status: 'accepted' },
+    }),
+    prisma.treatmentPlan.update({
+      where: { id: planId },
+      data: { status: 'accepted', acceptedAt: new Date() },
+      include: PLAN_INCLUDE,
+    }),
+  ]);
+
+  try {
+    const notification = {
+      type: 'treatment_plan',
+      title: 'План лечения принят',
+      message: `Пациент ${plan.patient.name} принял план лечения «${plan.title}». Этапы можно назначать на приёмы.`,
+    };
+
+    if (plan.doctorId) {
+      await notificationService.createForDoctor(plan.clinicId, plan.doctorId, notification);
+    } else {
+      await notificationService.createForAdmin(plan.clinicId, notification);
+    }
+  } catch (error) {
+    console.error(`❌ [TREATMENT PLAN] Ошибка уведомления клиники о принятии плана ${planId}:`, error.message);
+  }
+
+  console.log(`✅ [TREATMENT PLAN] Пациент принял план ${planId}`);
+  return withTotals(updated);
+}
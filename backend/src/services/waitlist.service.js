@@ -0,0 +1,635 @@
+import { prisma } from '../config/database.js';
+import * as appointmentService from './appointment.service.js';
+import { findPatientIdsForUser } from './chat.service.js';
+import { resolveTimezone, getZonedParts } from '../utils/timezone.util.js';
+
+/**
+ * Waitlist Service
+ * Лист ожидания: при отмене приёма освободившееся время по очереди предлагается ожидающим пациентам
+ */
+
+/**
+ * Срок ответа на предложение по умолчанию (минуты), если в настройках клиники не задан
+ */
+const DEFAULT_OFFER_MINUTES = 120;
+
+/**
+ * Связанные данные, возвращаемые вместе с записью листа ожидания
+ */
+const ENTRY_INCLUDE = {
+  patient: {
+    select: {
+      id: true,
+      name: true,
+      phone: true,
+      email: true,
+    },
+  },
+  doctor: {
+    select: {
+      id: true,
+      name: true,
+      specialization: true,
+    },
+  },
+  treatmentCategory: {
+    select: {
+      id: true,
+      name: true,
+      defaultDuration: true,
+    },
+  },
+  clinic: {
+    select: {
+      id: true,
+      name: true,
+      slug: true,
+    },
+  },
+  offers: {
+    orderBy: { createdAt: 'desc' },
+    take: 5,
+  },
+};
+
+/**
+ * Получить часовой пояс и срок ответа на предложение для клиники
+ * @param {string} clinicId - ID клиники
+ * @returns {Promise<object>} { timezone, offerMinutes }
+ */
+async function getWaitlistSettings(clinicId) {
+  const settings = await prisma.clinicSettings.findUnique({
+    where: { clinicId },
+    select: { timezone: true, waitlistOfferMinutes: true },
+  });
+
+  return {
+    timezone: resolveTimezone(settings?.timezone),
+    offerMinutes: settings?.waitlistOfferMinutes || DEFAULT_OFFER_MINUTES,
+  };
+}
+
+/**
+ * Форматировать дату для уведомлений (по часам клиники)
+ * @param {Date} date - Момент времени
+ * @param {string} timezone - Часовой пояс клиники
+ * @returns {string}
+ */
+function formatDateTime(date, timezone) {
+  return new Date(date).toLocaleString('ru-RU', {
+    timeZone: timezone,
+    year: 'numeric',
+    month: 'long',
+    day: 'numeric',
+    hour: '2-digit',
+    minute: '2-digit',
+  });
+}
+
+/**
+ * Проверить данные записи листа ожидания (врач, категория, диапазон дат)
+ * @param {string} clinicId - ID клиники
+ * @param {object} data - { doctorId, treatmentCategoryId, dateFrom, dateTo }
+ */
+async function validateEntryData(clinicId, data) {
+  if (data.dateFrom > data.dateTo) {
+    throw new Error('Date range is invalid: dateFrom must not be after dateTo');
+  }
+
+  const { timezone } = await getWaitlistSettings(clinicId);
+  const today = getZonedParts(new Date(), timezone).dateKey;
+  if (data.dateTo < today) {
+    throw new Error('Date range is invalid: dateTo is in the past');
+  }
+
+  if (data.doctorId) {
+    const doctor = await prisma.user.findFirst({
+      where: {
+        id: data.doctorId,
+        clinicId,
+        role: 'DOCTOR',
+        status: 'ACTIVE',
+      },
+    });
+
+    if (!doctor) {
+      throw new Error('Doctor not found or inactive');
+    }
+  }
+
+  if (data.treatmentCategoryId) {
+    const category = await prisma.treatmentCategory.findFirst({
+      where: {
+        id: data.treatmentCategoryId,
+        clinicId,
+      },
+    });
+
+    if (!category) {
+      throw new Error('Treatment category not found');
+    }
+  }
+}
+
+/**
+ * Получить записи листа ожидания клиники
+ * @param {string} clinicId - ID клиники
+ * @param {object} options - { status, doctorId, patientId }
+ * @returns {Promise<Array>}
+ */
+export async function findAll(clinicId, options = {}) {
+  const where = { clinicId };
+
+  if (options.status) {
+    where.status = options.status;
+  } else {
+    where.status = { in: ['waiting', 'offered'] };
+  }
+
+  if (options.doctorId) {
+    where.doctorId = options.doctorId;
+  }
+
+  if (options.patientId) {
+    where.patientId = options.patientId;
+  }
+
+  return prisma.waitlistEntry.findMany({
+    where,
+    include: ENTRY_INCLUDE,
+    orderBy: { createdAt: 'asc' }, // Очередь: кто раньше добавлен, тому раньше предлагаем
+  });
+}
+
+/**
+ * Добавить пациента в лист ожидания (сотрудником клиники)
+ * @param {string} clinicId - ID клиники
+ * @param {object} data - { patientId, doctorId, treatmentCategoryId, dateFrom, dateTo, notes }
+ * @param {string} createdById - ID пользователя, добавившего запись
+ * @returns {Promise<object>} Запись листа ожидания
+ */
+export async function createEntry(clinicId, data, createdById = null) {
+  const patient = await prisma.patient.findFirst({
+    where: {
+      id: data.patientId,
+      clinicId,
+    },
+  });
+
+  if (!patient) {
+    throw new Error('Patient not found');
+  }
+
+  await validateEntryData(clinicId, data);
+
+  const entry = await prisma.waitlistEntry.create({
+    data: {
+      clinicId, // ОБЯЗАТЕЛЬНО!
+      patientId: data.patientId,
+      doctorId: data.doctorId || null,
+      treatmentCategoryId: data.treatmentCategoryId || null,
+      dateFrom: data.dateFrom,
+      dateTo: data.dateTo,
+      notes: data.notes || null,
+      createdById,
+    },
+    include: ENTRY_INCLUDE,
+  });
+
+  console.log(`✅ [WAITLIST] Пациент ${patient.id} добавлен в лист ожидания (${data.dateFrom} — ${data.dateTo})`);
+
+  return entry;
+}
+
+/**
+ * Убрать запись из листа ожидания
+ * Действующее предложение отзывается и передаётся следующему пациенту
+ * @param {string} clinicId - ID клиники
+ * @param {string} entryId - ID записи
+ * @returns {Promise<object>} Обновлённая запись
+ */
+export async function cancelEntry(clinicId, entryId) {
+  const entry = await prisma.waitlistEntry.findFirst({
+    where: {
+      id: entryId,
+      clinicId, // ОБЯЗАТЕЛЬНО!
+    },
+  });
+
+  if (!entry) {
+    throw new Error('Waitlist entry not found');
+  }
+
+  const pendingOffer = await prisma.waitlistOffer.findFirst({
+    where: { entryId, status: 'pending' },
+  });
+
+  const updated = await prisma.waitlistEntry.update({
+    where: { id: entryId },
+    data: { status: 'cancelled' },
+    include: ENTRY_INCLUDE,
+  });
+
+  if (pendingOffer) {
+    await prisma.waitlistOffer.update({
+      where: { id: pendingOffer.id },
+      data: { status: 'withdrawn', respondedAt: new Date() },
+    });
+    await offerToNext(clinicId, pendingOffer);
+  }
+
+  return updated;
+}
+
+/**
+ * Получить записи листа ожидания пользователя-пациента (во всех клиниках)
+ * @param {string} userId - ID пользователя (role PATIENT)
+ * @returns {Promise<Array>}
+ */
+export async function findForPatientUser(userId) {
+  const patientIds = await findPatientIdsForUser(userId);
+
+  if (patientIds.length === 0) {
+    return [];
+  }
+
+  return prisma.waitlistEntry.findMany({
+    where: {
+      patientId: { in: patientIds },
+      status: { in: ['waiting', 'offered'] },
+    },
+    include: ENTRY_INCLUDE,
+    orderBy: { createdAt: 'desc' },
+  });
+}
+
+/**
+ * Пациент сам добавляет себя в лист ожидания клиники, в которой у него есть карточка
+ * @param {string} userId - ID пользователя (role PATIENT)
+ * @param {object} data - { clinicId, doctorId, treatmentCategoryId, dateFrom, dateTo, notes }
+ * @returns {Promise<object>} Запись листа ожидания
+ */
+export async function createEntryForPatientUser(userId, data) {
+  const patientIds = await findPatientIdsForUser(userId);
+
+  const patient = await prisma.patient.findFirst({
+    where: {
+      id: { in: patientIds },
+      clinicId: data.clinicId,
+    },
+  });
+
+  if (!patient) {
+    throw new Error('Patient not found in this clinic');
+  }
+
+  return createEntry(data.clinicId, { ...data, patientId: patient.id }, userId);
+}
+
+/**
+ * Пациент убирает свою запись из листа ожидания
+ * @param {string} userId - ID пользователя (role PATIENT)
+ * @param {string} entryId - ID записи
+ * @returns {Promise<object>}
+ */
+export async function cancelEntryForPatientUser(userId, entryId) {
+  const patientIds = await findPatientIdsForUser(userId);
+
+  const entry = await prisma.waitlistEntry.findFirst({
+    where: {
+      id: entryId,
+      patientId: { in: patientIds },
+    },
+  });
+
+  if (!entry) {
+    throw new Error('Waitlist entry not found');
+  }
+
+  return cancelEntry(entry.clinicId, entryId);
+}
+
+/**
+ * Найти предложение и проверить, что пользователь может на него ответить
+ * Пациент — только на своё, сотрудник клиники — на любое предложение своей клиники
+ * @param {string} offerId - ID предложения
+ * @param {object} actor - { userId, role, clinicId }
+ * @returns {Promise<object>} Предложение с entry
+ */
+async function findOfferForActor(offerId, actor) {
+  const offer = await prisma.waitlistOffer.findUnique({
+    where: { id: offerId },
+    include: {
+      entry: {
+        include: {
+          patient: { select: { id: true, name: true, phone: true } },
+          treatmentCategory: { select: { id: true, name: true, defaultDuration: true } },
+        },
+      },
+    },
+  });
+
+  if (!offer) {
+    throw new Error('Waitlist offer not found');
+  }
+
+  if (actor.role === 'PATIENT') {
+    const patientIds = await findPatientIdsForUser(actor.userId);
+    if (!patientIds.includes(offer.entry.patientId)) {
+      throw new Error('Waitlist offer not found');
+    }
+  } else if (offer.clinicId !== actor.clinicId) {
+    throw new Error('Waitlist offer not found');
+  }
+
+  if (offer.status !== 'pending' || offer.expiresAt <= new Date()) {
+    throw new Error('Waitlist offer is invalid: it has expired or was already answered');
+  }
+
+  return offer;
+}
+
+/**
+ * Принять предложение: создаётся приём на освободившееся время
+ * @param {string} offerId - ID предложения
+ * @param {object} actor - { userId, role, clinicId }
+ * @returns {Promise<object>} Созданный приём
+ */
+export async function acceptOffer(offerId, actor) {
+  const offer = await findOfferForActor(offerId, actor);
+  const { entry } = offer;
+
+  // Сначала занимаем предложение условным обновлением: повторное нажатие, второй запрос
+  // или просрочка предложения задачей expireDueOffers его уже не получат
+  const now = new Date();
+  const claimed = await prisma.waitlistOffer.updateMany({
+    where: { id: offer.id, status: 'pending', expiresAt: { gt: now } },
+    data: { status: 'accepted', respondedAt: now },
+  });
+
+  if (claimed.count === 0) {
+    throw new Error('Waitlist offer is invalid: it has expired or was already answered');
+  }
+
+  // Приём по категории занимает её длительность, но не больше освободившегося времени
+  const duration = entry.treatmentCategory?.defaultDuration
+    ? Math.min(entry.treatmentCategory.defaultDuration, offer.duration)
+    : offer.duration;
+
+  // create() повторно проверяет доступность времени: если его успели занять, приём не создаётся
+  let appointment;
+  try {
+    appointment = await appointmentService.create(offer.clinicId, {
+      doctorId: offer.doctorId,
+      patientId: entry.patientId,
+      appointmentDate: offer.appointmentDate,
+      duration,
+      reason: entry.treatmentCategory?.name || entry.notes || undefined,
+      treatmentCategoryId: entry.treatmentCategory?.id,
+      notes: 'Запись из листа ожидания',
+    });
+  } catch (error) {
+    // Предложение, занятое этим запросом, больше неактуально — пациент возвращается в очередь
+    await prisma.$transaction([
+      prisma.waitlistOffer.updateMany({
+        where: { id: offer.id, status: 'accepted', appointmentId: null },
+        data: { status: 'withdrawn', respondedAt: new Date() },
+      }),
+      prisma.waitlistEntry.updateMany({
+        where: { id: entry.id, status: 'offered' },
+        data: { status: 'waiting' },
+      }),
+    ]);
+    throw error;
+  }
+
+  await prisma.$transaction([
+    prisma.waitlistOffer.update({
+      where: { id: offer.id },
+      data: { appointmentId: appointment.id },
+    }),
+    prisma.waitlistEntry.update({
+      where: { id: entry.id },
+      data: {
+        status: 'booked',
+        appointmentId: appointment.id,
+      },
+    }),
+  ]);
+
+  console.log(`✅ [WAITLIST] Предложение ${offer.id} принято, создан приём ${appointment.id}`);
+
+  return appointment;
+}
+
+/**
+ * Отклонить предложение: пациент остаётся в листе ожидания, время предлагается следующему
+ * @param {string} offerId - ID предложения
+ * @param {object} actor - { userId, role, clinicId }
+ * @returns {Promise<object>} Обновлённое предложение
+ */
+export async function declineOffer(offerId, actor) {
+  const offer = await findOfferForActor(offerId, actor);
+
+  // Условие на статус защищает от гонки с одновременным принятием или просрочкой
+  const updated = await prisma.$transaction(async tx => {
+    const { count } = await tx.waitlistOffer.updateMany({
+      where: { id: offer.id, status: 'pending' },
+      data: { status: 'declined', respondedAt: new Date() },
+    });
+
+    if (count === 0) {
+      throw new Error('Waitlist offer is invalid: it has expired or was already answered');
+    }
+
+    await tx.waitlistEntry.update({
+      where: { id: offer.entryId },
+      data: { status: 'waiting' },
+    });
+
+    return tx.waitlistOffer.findUnique({ where: { id: offer.id } });
+  });
+
+  console.log(`ℹ️ [WAITLIST] Предложение ${offer.id} отклонено`);
+
+  await offerToNext(offer.clinicId, offer);
+
+  return updated;
+}
+
+/**
+ * Предложить освободившееся время следующему подходящему пациенту из очереди
+ * Пациенты, которым это время уже предлагалось, пропускаются
+ * @param {string} clinicId - ID клиники
+ * @param {object} slot - { sourceAppointmentId, doctorId, appointmentDate, duration }
+ * @returns {Promise<object|null>} Созданное предложение или null
+ */
+async function offerToNext(clinicId, slot) {
+  const appointmentDate = new Date(slot.appointmentDate);
+
+  if (!slot.doctorId || appointmentDate <= new Date()) {
+    return null;
+  }
+
+  // Время могли уже занять (например, сотрудник записал пациента вручную)
+  const isAvailable = await appointmentService.checkTimeSlotAvailability(
+    clinicId,
+    slot.doctorId,
+    appointmentDate,
+    slot.duration
+  );
+
+  if (!isAvailable) {
+    console.log(`ℹ️ [WAITLIST] Время ${appointmentDate.toISOString()} уже занято, предложения остановлены`);
+    return null;
+  }
+
+  const { timezone, offerMinutes } = await getWaitlistSettings(clinicId);
+  const dateKey = getZonedParts(appointmentDate, timezone).dateKey;
+
+  const alreadyOffered = slot.sourceAppointmentId
+    ? await prisma.waitlistOffer.findMany({
+      where: { sourceAppointmentId: slot.sourceAppointmentId },
+      select: { entryId: true },
+    })
+    : [];
+
+  const candidates = await prisma.waitlistEntry.findMany({
+    where: {
+      clinicId,
+      status: 'waiting',
+      dateFrom: { lte: dateKey },
+      dateTo: { gte: dateKey },
+      OR: [{ doctorId: null }, { doctorId: slot.doctorId }],
+      id: { notIn: alreadyOffered.map(offer => offer.entryId) },
+    },
+    include: {
+      treatmentCategory: { select: { id: true, name: true, defaultDuration: true } },
+    },
+    orderBy: { createdAt: 'asc' },
+  });
+
+  for (const candidate of candidates) {
+    // Категория должна помещаться в освободившееся время и входить в категории врача
+    if (candidate.treatmentCategory) {
+      if (candidate.treatmentCategory.defaultDuration > slot.duration) {
+        continue;
+      }
+
+      const doctorCategory = await prisma.doctorTreatmentCategory.findFirst({
+        where: {
+          doctorId: slot.doctorId,
+          treatmentCategoryId: candidate.treatmentCategory.id,
+        },
+      });
+
+      if (!doctorCategory) {
+        continue;
+      }
+    }
+
+    const expiresAt = new Date(Math.min(Date.now() + offerMinutes * 60000, appointmentDate.getTime()));
+
+    const [offer] = await prisma.$transaction([
+      prisma.waitlistOffer.create({
+        data: {
+          clinicId, // ОБЯЗАТЕЛЬНО!
+          entryId: candidate.id,
+          sourceAppointmentId: slot.sourceAppointmentId || null,
+          doctorId: slot.doctorId,
+          appointmentDate,
+          duration: slot.duration,
+          expiresAt,
+        },
+      }),
+      prisma.waitlistEntry.update({
+        where: { id: candidate.id },
+        data: { status: 'offered' },
+      }),
+    ]);
+
+    console.log(`✅ [WAITLIST] Время ${appointmentDate.toISOString()} предложено пациенту ${candidate.patientId} до ${expiresAt.toISOString()}`);
+
+    try {
+      const { create } = await import('./notification.service.js');
+      const doctor = await prisma.user.findUnique({
+        where: { id: slot.doctorId },
+        select: { name: true },
+      });
+
+      await create(clinicId, candidate.patientId, {
+        type: 'waitlist_offer',
+        title: 'Освободилось время для записи',
+        message: `Освободилось время у врача ${doctor?.name || ''} на ${formatDateTime(appointmentDate, timezone)}.\n\nПодтвердите запись в разделе «Мои записи» до ${formatDateTime(expiresAt, timezone)} — после этого время будет предложено следующему пациенту из листа ожидания.`,
+        dedupeKey: `waitlist-offer:${offer.id}`,
+      });
+    } catch (error) {
+      // Логируем ошибку, но не прерываем выдачу предложения
+      console.error('❌ [NOTIFICATION] Ошибка создания уведомления о предложении из листа ожидания:', error);
+    }
+
+    return offer;
+  }
+
+  console.log(`ℹ️ [WAITLIST] Нет подходящих пациентов в листе ожидания на ${appointmentDate.toISOString()}`);
+  return null;
+}
+
+/**
+ * Предложить время отменённого приёма листу ожидания
+ * Вызывается при отмене приёма (ошибки не прерывают отмену)
+ * @param {string} clinicId - ID клиники
+ * @param {object} appointment - Отменённый приём (id, doctorId, appointmentDate, duration)
+ * @returns {Promise<object|null>} Созданное предложение или null
+ */
+export async function offerFreedSlot(clinicId, appointment) {
+  try {
+    return await offerToNext(clinicId, {
+      sourceAppointmentId: appointment.id,
+      doctorId: appointment.doctorId,
+      appointmentDate: appointment.appointmentDate,
+      duration: appointment.duration,
+    });
+  } catch (error) {
+    console.error('🔴 [WAITLIST] Ошибка при предложении освободившегося времени:', error);
+    return null;
+  }
+}
+
+/**
+ * Закрыть просроченные предложения и передать время следующим пациентам
+ * Вызывается планировщиком (jobs/waitlist.job.js)
+ * @param {Date} now - Текущее время
+ * @returns {Promise<number>} Количество просроченных предложений
+ */
+export async function expireDueOffers(now = new Date()) {
+  const dueOffers = await prisma.waitlistOffer.findMany({
+    where: {
+      status: 'pending',
+      expiresAt: { lte: now },
+    },
+    orderBy: { expiresAt: 'asc' },
+  });
+
+  for (const offer of dueOffers) {
+    // Условие на статус защищает от гонки с одновременным ответом пациента
+    const { count } = await prisma.waitlistOffer.updateMany({
+      where: { id: offer.id, status: 'pending' },
+      data: { status: 'expired' },
+    });
+
+    if (count === 0) {
+      continue;
+    }
+
+    await prisma.waitlistEntry.updateMany({
+      where: { id: offer.entryId, status: 'offered' },
+      data: { status: 'waiting' },
+    });
+
+    console.log(`⏰ [WAITLIST] Предложение ${offer.id} просрочено, время передаётся следующему пациенту`);
+    await offerToNext(offer.clinicId, offer);
+  }
+
+  return dueOffers.length;
+}
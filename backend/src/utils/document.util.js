@@ -0,0 +1,43 @@
+/**
+ * Document Utility
+ * Справочники клинических документов пациента и разбор файлов, присланных в base64
+ */
+
+/**
+ * Категории документов: xray — рентгенограммы (прицельные, ОПТГ, КТ-срезы),
+ * photo — внутриротовые и лицевые фото, consent — информированные согласия,
+ * lab — результаты анализов, other — прочее
+ */
+export const DOCUMENT_CATEGORIES = ['xray', 'photo', 'consent', 'lab', 'other'];
+
+/**
+ * Допустимые типы файлов → расширение при сохранении
+ */
+export const DOCUMENT_MIME_TYPES = {
+  'image/jpeg': 'jpg',
+  'image/png': 'png',
+  'image/webp': 'webp',
+  'image/gif': 'gif',
+  'application/pdf': 'pdf',
+};
+
+export const MAX_DOCUMENT_SIZE = 10 * 1024 * 1024; // 10MB
+export const MAX_THUMBNAIL_SIZE = 300 * 1024; // 300KB
+
+/**
+ * Разобрать data URL (data:<mime>;base64,<данные>)
+ * @param {string} dataUrl - Строка data URL
+ * @returns {{ mimeType: string, buffer: Buffer }|null} null, если формат некорректный
+ */
+export function parseDataUrl(dataUrl) {
+  const matches = /^data:([\w.+-]+\/[\w.+-]+);base64,(.+)$/s.exec(dataUrl || '');
+
+  if (!matches) {
+    return null;
+  }
+
+  return {
+    mimeType: matches[1].toLowerCase(),
+    buffer: Buffer.from(matches[2], 'base64'),
+  };
+}
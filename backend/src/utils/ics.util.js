@@ -0,0 +1,135 @@
+/**
+ * ICS Utility
+ * Формирование календаря в формате iCalendar (RFC 5545) без внешних библиотек.
+ * Время событий пишется в UTC (суффикс Z) — календарь сам переводит его в часовой пояс устройства
+ */
+
+/**
+ * Статусы приёма → STATUS события
+ */
+const EVENT_STATUSES = {
+  pending: 'TENTATIVE',
+  cancelled: 'CANCELLED',
+};
+
+/**
+ * Экранировать текст для TEXT-значений (запятая, точка с запятой, обратный слеш, переносы строк)
+ * @param {string} value - Текст
+ * @returns {string}
+ */
+export function escapeText(value) {
+  return String(value ?? '')
+    .replace(/\\/g, '\\\\')
+    .replace(/;/g, '\\;')
+    .replace(/,/g, '\\,')
+    .replace(/\r?\n/g, '\\n');
+}
+
+/**
+ * Дата в формате iCalendar UTC: 20250120T093000Z
+ * @param {Date|string} date - Дата
+ * @returns {string}
+ */
+export function formatUtcDate(date) {
+  return new Date(date).toISOString().replace(/[-:]/g, '').replace(/\.\d{3}/, '');
+}
+
+/**
+ * Перенос длинных строк: не длиннее 75 байт, продолжение начинается с пробела
+ * @param {string} line - Строка свойства
+ * @returns {string}
+ */
+function foldLine(line) {
+  const parts = [];
+  let current = '';
+  let currentBytes = 0;
+
+  for (const char of line) {
+    const charBytes = Buffer.byteLength(char);
+    const limit = parts.length === 0 ? 75 : 74; // У продолжения первый байт — пробел
+    if (currentBytes + charBytes > limit) {
+      parts.push(current);
+      current = '';
+      currentBytes = 0;
+    }
+    current += char;
+    currentBytes += charBytes;
+  }
+  parts.push(current);
+
+  return parts.join('\r\n ');
+}
+
+/**
+ * Событие календаря для приёма
+ * @param {object} appointment - Приём (с doctor, patient, clinic)
+ * @param {object} options - { uidDomain, audience: 'doctor' | 'patient' }
+ * @returns {Array<string>} Строки VEVENT
+ */
+function buildAppointmentEvent(appointment, options) {
+  const start = new Date(appointment.appointmentDate);
+  const end = new Date(start.getTime() + appointment.duration * 60000);
+  const procedure = appointment.reason || 'Приём';
+
+  // Врачу важен пациент, пациенту — врач и клиника
+  const summary =
+    options.audience === 'doctor'
+      ? `${procedure}: ${appointment.patient?.name || 'пациент'}`
+      : `${procedure} — ${appointment.doctor?.name || appointment.clinic?.name || 'клиника'}`;
+
+  const description = [
+    appointment.doctor?.name && `Врач: ${appointment.doctor.name}`,
+    options.audience === 'doctor' && appointment.patient?.phone && `Телефон пациента: ${appointment.patient.phone}`,
+    appointment.clinic?.phone && `Телефон клиники: ${appointment.clinic.phone}`,
+    options.audience === 'doctor' && appointment.notes && `Заметки: ${appointment.notes}`,
+  ]
+    .filter(Boolean)
+    .join('\n');
+
+  const location = [appointment.clinic?.name, appointment.clinic?.address, appointment.clinic?.city]
+    .filter(Boolean)
+    .join(', ');
+
+  const lines = [
+    'BEGIN:VEVENT',
+    `UID:${appointment.id}@${options.uidDomain}`,
+    `DTSTAMP:${formatUtcDate(appointment.updatedAt || new Date())}`,
+    `DTSTART:${formatUtcDate(start)}`,
+    `DTEND:${formatUtcDate(end)}`,
+    `SUMMARY:${escapeText(summary)}`,
+    `STATUS:${EVENT_STATUSES[appointment.status] || 'CONFIRMED'}`,
+  ];
+
+  if (description) lines.push(`DESCRIPTION:${escapeText(description)}`);
+  if (location) lines.push(`LOCATION:${escapeText(location)}`);
+  if (appointment.updatedAt) lines.push(`LAST-MODIFIED:${formatUtcDate(appointment.updatedAt)}`);
+
+  lines.push('END:VEVENT');
+  return lines;
+}
+
+/**
+ * Собрать календарь из приёмов
+ * @param {Array<object>} appointments - Приёмы (с doctor, patient, clinic)
+ * @param {object} options - { name, uidDomain, audience: 'doctor' | 'patient' }
+ * @returns {string} Содержимое .ics файла
+ */
+export function buildAppointmentsCalendar(appointments, options) {
+  const lines = [
+    'BEGIN:VCALENDAR',
+    'VERSION:2.0',
+    `PRODID:-//${options.uidDomain}//Appointments//RU`,
+    'CALSCALE:GREGORIAN',
+    'METHOD:PUBLISH',
+    `X-WR-CALNAME:${escapeText(options.name)}`,
+    'X-PUBLISHED-TTL:PT1H', // Подсказка календарю обновлять ленту раз в час
+  ];
+
+  appointments.forEach(appointment => {
+    lines.push(...buildAppointmentEvent(appointment, options));
+  });
+
+  lines.push('END:VCALENDAR');
+
+  return lines.map(foldLine).join('\r\n') + '\r\n';
+}
@@ -0,0 +1,65 @@
+/**
+ * Medical History Utility
+ * Преобразование анамнеза для хранения (массивы → JSON) и объединение нескольких анамнезов без потери данных
+ */
+
+/**
+ * Данные для сохранения анамнеза (массивы → JSON)
+ * @param {object} data - Анамнез (medicalHistorySchema)
+ * @returns {object}
+ */
+export function toMedicalHistoryRecord(data) {
+  return {
+    allergies: JSON.stringify(data.allergies || []),
+    conditions: JSON.stringify(data.conditions || []),
+    medications: JSON.stringify(data.medications || []),
+    isPregnant: !!data.isPregnant,
+    takesAnticoagulants: !!data.takesAnticoagulants,
+    anticoagulants: data.takesAnticoagulants ? data.anticoagulants || null : null,
+    notes: data.notes || null,
+  };
+}
+
+/**
+ * Объединённый анамнез: аллергии, заболевания и препараты — без повторов,
+ * беременность и антикоагулянты отмечены, если отмечены хотя бы в одном анамнезе
+ * @param {Array<object>} histories - PatientMedicalHistory (JSON-поля строками)
+ * @returns {object} Данные для сохранения анамнеза
+ */
+export function combineMedicalHistories(histories) {
+  const unique = values => [...new Map(values.map(value => [value.toLowerCase(), value])).values()];
+  const joinUnique = (values, separator) => unique(values.map(value => value?.trim()).filter(Boolean)).join(separator);
+
+  const allergies = new Map();
+  for (const history of histories) {
+    for (const allergy of JSON.parse(history.allergies)) {
+      const key = allergy.substance.trim().toLowerCase();
+      const known = allergies.get(key);
+      const reaction = joinUnique([known?.reaction, allergy.reaction], '; ');
+      allergies.set(key, { substance: known?.substance || allergy.substance, reaction: reaction || null });
+    }
+  }
+
+  return {
+    allergies: JSON.stringify([...allergies.values()]),
+    conditions: JSON.stringify(unique(histories.flatMap(history => JSON.parse(history.conditions)))),
+    medications: JSON.stringify(unique(histories.flatMap(history => JSON.parse(history.medications)))),
+    isPregnant: histories.some(history => history.isPregnant),
+    takesAnticoagulants: histories.some(history => history.takesAnticoagulants),
+    anticoagulants: joinUnique(histories.map(history => history.anticoagulants), ', ') || null,
+    notes: joinUnique(histories.map(history => history.notes), '\n\n') || null,
+  };
+}
+
+/**
+ * Анамнез со слов пациента дополняет анамнез карточки, но не заменяет его:
+ * аллергии и противопоказания, внесённые клиникой, пациент удалить не может
+ * @param {object|null} existing - Текущий PatientMedicalHistory карточки
+ * @param {object} data - Анамнез со слов пациента (medicalHistorySchema)
+ * @returns {object} Данные для сохранения анамнеза
+ */
+export function mergeSelfReportedHistory(existing, data) {
+  const reported = toMedicalHistoryRecord(data);
+
+  return existing ? combineMedicalHistories([existing, reported]) : reported;
+}
@@ -0,0 +1,53 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { mergeSelfReportedHistory, toMedicalHistoryRecord } from './medicalHistory.util.js';
+
+/**
+ * Анамнез, внесённый клиникой: аллергия на лидокаин и антикоагулянты
+ */
+const clinicHistory = toMedicalHistoryRecord({
+  allergies: [{ substance: 'Лидокаин', reaction: 'Отёк' }],
+  conditions: ['Гипертония'],
+  medications: [],
+  takesAnticoagulants: true,
+  anticoagulants: 'Варфарин',
+});
+
+describe('mergeSelfReportedHistory', () => {
+  it('не удаляет аллергии клиники, если пациент сохранил анкету без них', () => {
+    const merged = mergeSelfReportedHistory(clinicHistory, {
+      allergies: [{ substance: 'Пенициллин', reaction: null }],
+      conditions: [],
+      medications: ['Аспирин'],
+      takesAnticoagulants: false,
+    });
+
+    assert.deepEqual(JSON.parse(merged.allergies), [
+      { substance: 'Лидокаин', reaction: 'Отёк' },
+      { substance: 'Пенициллин', reaction: null },
+    ]);
+    assert.deepEqual(JSON.parse(merged.conditions), ['Гипертония']);
+    assert.deepEqual(JSON.parse(merged.medications), ['Аспирин']);
+    assert.equal(merged.takesAnticoagulants, true);
+    assert.equal(merged.anticoagulants, 'Варфарин');
+  });
+
+  it('дополняет реакцию на уже известное вещество без повтора', () => {
+    const merged = mergeSelfReportedHistory(clinicHistory, {
+      allergies: [{ substance: 'лидокаин', reaction: 'Сыпь' }],
+    });
+
+    assert.deepEqual(JSON.parse(merged.allergies), [{ substance: 'Лидокаин', reaction: 'Отёк; Сыпь' }]);
+  });
+
+  it('без анамнеза в карточке сохраняет анкету пациента как есть', () => {
+    const merged = mergeSelfReportedHistory(null, {
+      allergies: [{ substance: 'Латекс', reaction: null }],
+      isPregnant: true,
+    });
+
+    assert.deepEqual(JSON.parse(merged.allergies), [{ substance: 'Латекс', reaction: null }]);
+    assert.equal(merged.isPregnant, true);
+    assert.equal(merged.takesAnticoagulants, false);
+  });
+});
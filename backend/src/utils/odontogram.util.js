@@ -0,0 +1,93 @@
+/**
+ * Odontogram Utility
+ * Справочники зубной карты (нумерация FDI, поверхности, состояния и процедуры)
+ * и сборка состояния зубов из журнала записей
+ */
+
+/**
+ * Поверхности зуба: M — медиальная, D — дистальная, O — окклюзионная / режущий край,
+ * B — вестибулярная (щёчная / губная), L — оральная (язычная / нёбная)
+ */
+export const TOOTH_SURFACES = ['M', 'D', 'O', 'B', 'L'];
+
+/**
+ * Коды записей зубной карты
+ * kind: condition — найденное состояние, procedure — выполненная работа
+ * scope: surface — указывается для поверхностей, tooth — для зуба целиком, any — и так и так
+ * state: каким станет состояние после записи (по умолчанию — сам код)
+ */
+export const DENTAL_CHART_CODES = {
+  healthy: { kind: 'condition', scope: 'any' }, // Сброс: зуб / поверхность здоровы
+  caries: { kind: 'condition', scope: 'surface' },
+  fracture: { kind: 'condition', scope: 'tooth' },
+  missing: { kind: 'condition', scope: 'tooth' },
+  filling: { kind: 'procedure', scope: 'surface' },
+  sealant: { kind: 'procedure', scope: 'surface' },
+  root_canal: { kind: 'procedure', scope: 'tooth' },
+  crown: { kind: 'procedure', scope: 'tooth' },
+  veneer: { kind: 'procedure', scope: 'tooth' },
+  implant: { kind: 'procedure', scope: 'tooth' },
+  extraction: { kind: 'procedure', scope: 'tooth', state: 'missing' },
+};
+
+/**
+ * Проверить номер зуба по FDI
+ * Постоянные зубы: квадранты 1–4, зубы 1–8; молочные: квадранты 5–8, зубы 1–5
+ * @param {number} tooth - Номер зуба, например 36
+ * @returns {boolean}
+ */
+export function isValidFdiTooth(tooth) {
+  if (!Number.isInteger(tooth)) {
+    return false;
+  }
+
+  const quadrant = Math.floor(tooth / 10);
+  const position = tooth % 10;
+
+  if (quadrant >= 1 && quadrant <= 4) {
+    return position >= 1 && position <= 8;
+  }
+  if (quadrant >= 5 && quadrant <= 8) {
+    return position >= 1 && position <= 5;
+  }
+  return false;
+}
+
+/**
+ * Собрать состояние зубов из журнала
+ * Записи проигрываются по времени: удаление зуба сбрасывает его поверхности,
+ * healthy для зуба сбрасывает всё, для поверхности — только её
+ * @param {Array<object>} entries - Записи { tooth, surface, code, recordedAt }, отсортированные по recordedAt
+ * @returns {Array<object>} [{ tooth, states: [], surfaces: { M: 'caries' }, lastRecordedAt }] — только зубы с записями
+ */
+export function buildOdontogram(entries) {
+  const teeth = new Map();
+
+  entries.forEach(entry => {
+    const tooth = teeth.get(entry.tooth) || { tooth: entry.tooth, states: [], surfaces: {}, lastRecordedAt: null };
+    const state = DENTAL_CHART_CODES[entry.code]?.state || entry.code;
+
+    if (entry.surface) {
+      if (state === 'healthy') {
+        delete tooth.surfaces[entry.surface];
+      } else {
+        tooth.surfaces[entry.surface] = state;
+      }
+    } else if (state === 'healthy') {
+      tooth.states = [];
+      tooth.surfaces = {};
+    } else if (state === 'missing') {
+      tooth.states = ['missing'];
+      tooth.surfaces = {};
+    } else if (state === 'implant') {
+      tooth.states = ['implant']; // Имплант ставится на место отсутствующего зуба
+    } else if (!tooth.states.includes(state)) {
+      tooth.states = [...tooth.states.filter(item => item !== 'missing'), state];
+    }
+
+    tooth.lastRecordedAt = entry.recordedAt;
+    teeth.set(entry.tooth, tooth);
+  });
+
+  return [...teeth.values()].sort((a, b) => a.tooth - b.tooth);
+}
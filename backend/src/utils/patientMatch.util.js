@@ -0,0 +1,111 @@
+/**
+ * Patient Match Utility
+ * Нормализация телефонов и имён пациентов и нечёткое сравнение для поиска дубликатов
+ */
+
+/**
+ * Сколько дубликатов можно объединить в одну карточку за раз
+ */
+export const MAX_MERGE_SOURCES = 10;
+
+/**
+ * Сколько последних цифр телефона сравнивать: код страны и ведущий 0 пишут по-разному
+ * (+374 91 123456, 091-12-34-56, 0037491123456), а последние 8 цифр совпадают
+ */
+const PHONE_MATCH_DIGITS = 8;
+
+/**
+ * Привести телефон к единому виду: без пробелов, скобок и дефисов, 00 в начале → +
+ * @param {string} phone - Телефон в произвольном формате
+ * @returns {string} Например, +37491123456
+ */
+export function normalizePhone(phone) {
+  if (!phone) {
+    return '';
+  }
+
+  const trimmed = String(phone).trim();
+  const digits = trimmed.replace(/\D/g, '');
+
+  if (trimmed.startsWith('+')) {
+    return `+${digits}`;
+  }
+
+  if (digits.startsWith('00')) {
+    return `+${digits.slice(2)}`;
+  }
+
+  return digits;
+}
+
+/**
+ * Ключ для сравнения телефонов (последние цифры номера)
+ * @param {string} phone - Телефон в произвольном формате
+ * @returns {string|null} null, если номер слишком короткий для сравнения
+ */
+export function phoneMatchKey(phone) {
+  const digits = String(phone || '').replace(/\D/g, '');
+
+  if (digits.length < 6) {
+    return null;
+  }
+
+  return digits.slice(-PHONE_MATCH_DIGITS);
+}
+
+/**
+ * Привести имя к виду для сравнения: регистр, ё → е, лишние пробелы и знаки,
+ * слова по алфавиту (Иванов Иван = Иван Иванов)
+ * @param {string} name - ФИО
+ * @returns {string}
+ */
+export function normalizeName(name) {
+  return String(name || '')
+    .toLowerCase()
+    .replace(/ё/g, 'е')
+    .replace(/[^\p{L}\p{N}\s]/gu, ' ')
+    .split(/\s+/)
+    .filter(Boolean)
+    .sort()
+    .join(' ');
+}
+
+/**
+ * Расстояние Левенштейна между строками
+ * @param {string} a
+ * @param {string} b
+ * @returns {number}
+ */
+function levenshtein(a, b) {
+  if (a === b) return 0;
+  if (!a.length) return b.length;
+  if (!b.length) return a.length;
+
+  let previous = Array.from({ length: b.length + 1 }, (_, i) => i);
+
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i];
+    for (let j = 1; j <= b.length; j++) {
+      const cost = a[i - 1] === b[j - 1] ? 0 : 1;
+      current[j] = Math.min(previous[j] + 1, current[j - 1] + 1, previous[j - 1] + cost);
+    }
+    previous = current;
+  }
+
+  return previous[b.length];
+}
+
+/**
+ * Похожесть имён от 0 до 1 (1 — совпадают после нормализации)
+ * @param {string} a - Нормализованное имя (normalizeName)
+ * @param {string} b - Нормализованное имя (normalizeName)
+ * @returns {number}
+ */
+export function nameSimilarity(a, b) {
+  if (!a || !b) {
+    return 0;
+  }
+
+  const maxLength = Math.max(a.length, b.length);
+  return 1 - levenshtein(a, b) / maxLength;
+}
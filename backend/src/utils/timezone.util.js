@@ -0,0 +1,184 @@
+/**
+ * Timezone Utility
+ * Перевод времени клиники (ClinicSettings.timezone) в UTC и обратно через Intl, без внешних библиотек
+ */
+
+/**
+ * Часовой пояс по умолчанию (совпадает с дефолтом модели ClinicSettings)
+ */
+export const DEFAULT_TIMEZONE = 'Asia/Yerevan';
+
+/**
+ * Проверить, что строка — валидный IANA часовой пояс
+ * @param {string} timezone - Например, "Asia/Yerevan"
+ * @returns {boolean}
+ */
+export function isValidTimezone(timezone) {
+  if (!timezone) {
+    return false;
+  }
+
+  try {
+    new Intl.DateTimeFormat('en-US', { timeZone: timezone });
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Получить валидный часовой пояс (невалидный или пустой заменяется на DEFAULT_TIMEZONE)
+ * @param {string|null} timezone - Часовой пояс из настроек клиники
+ * @returns {string}
+ */
+export function resolveTimezone(timezone) {
+  if (isValidTimezone(timezone)) {
+    return timezone;
+  }
+
+  if (timezone) {
+    console.warn(`⚠️ [TIMEZONE] Невалидный часовой пояс "${timezone}", используется ${DEFAULT_TIMEZONE}`);
+  }
+
+  return DEFAULT_TIMEZONE;
+}
+
+/**
+ * Разложить момент времени на дату и время в часовом поясе
+ * @param {Date|string} date - Момент времени
+ * @param {string} timezone - IANA часовой пояс
+ * @returns {object} { dateKey: 'YYYY-MM-DD', time: 'HH:mm', year, month, day, hours, minutes, seconds }
+ */
+export function getZonedParts(date, timezone) {
+  const formatter = new Intl.DateTimeFormat('en-US', {
+    timeZone: timezone,
+    hourCycle: 'h23',
+    year: 'numeric',
+    month: '2-digit',
+    day: '2-digit',
+    hour: '2-digit',
+    minute: '2-digit',
+    second: '2-digit',
+  });
+
+  const parts = {};
+  formatter.formatToParts(new Date(date)).forEach(part => {
+    if (part.type !== 'literal') {
+      parts[part.type] = Number(part.value);
+    }
+  });
+
+  const pad = value => String(value).padStart(2, '0');
+
+  return {
+    year: parts.year,
+    month: parts.month,
+    day: parts.day,
+    hours: parts.hour,
+    minutes: parts.minute,
+    seconds: parts.second,
+    dateKey: `${parts.year}-${pad(parts.month)}-${pad(parts.day)}`,
+    time: `${pad(parts.hour)}:${pad(parts.minute)}`,
+  };
+}
+
+/**
+ * Смещение часового пояса относительно UTC в момент времени (мс)
+ * @param {Date} date - Момент времени
+ * @param {string} timezone - IANA часовой пояс
+ * @returns {number}
+ */
+function getTimezoneOffsetMs(date, timezone) {
+  const parts = getZonedParts(date, timezone);
+  const asUtc = Date.UTC(parts.year, parts.month - 1, parts.day, parts.hours, parts.minutes, parts.seconds);
+  const roundedTime = Math.floor(date.getTime() / 1000) * 1000;
+  return asUtc - roundedTime;
+}
+
+/**
+ * Получить момент времени (UTC) для даты и времени на часах клиники
+ * @param {string} dateKey - Дата YYYY-MM-DD
+ * @param {string} time - Время HH:mm
+ * @param {string} timezone - IANA часовой пояс
+ * @returns {Date}
+ */
+export function zonedTimeToUtc(dateKey, time, timezone) {
+  const [year, month, day] = dateKey.split('-').map(Number);
+  const [hours, minutes] = time.split(':').map(Number);
+  const wallClock = Date.UTC(year, month - 1, day, hours, minutes, 0, 0);
+
+  // Смещение берём дважды: второй раз — уже для найденного момента (переход на летнее время)
+  const firstGuess = wallClock - getTimezoneOffsetMs(new Date(wallClock), timezone);
+  return new Date(wallClock - getTimezoneOffsetMs(new Date(firstGuess), timezone));
+}
+
+/**
+ * Сдвинуть дату YYYY-MM-DD на число дней
+ * @param {string} dateKey - Дата YYYY-MM-DD
+ * @param {number} days - Количество дней (может быть отрицательным)
+ * @returns {string}
+ */
+export function addDaysToDateKey(dateKey, days) {
+  const [year, month, day] = dateKey.split('-').map(Number);
+  const shifted = new Date(Date.UTC(year, month - 1, day + days));
+  return shifted.toISOString().split('T')[0];
+}
+
+/**
+ * День недели даты YYYY-MM-DD (0 = воскресенье, как Date.getDay())
+ * @param {string} dateKey - Дата YYYY-MM-DD
+ * @returns {number}
+ */
+export function getDayOfWeek(dateKey) {
+  const [year, month, day] = dateKey.split('-').map(Number);
+  return new Date(Date.UTC(year, month - 1, day)).getUTCDay();
+}
+
+/**
+ * Интервал календарного дня на часах клиники
+ * @param {string} dateKey - Дата YYYY-MM-DD
+ * @param {string} timezone - IANA часовой пояс
+ * @returns {object} { gte, lt } — начало дня и начало следующего дня (UTC)
+ */
+export function getZonedDayRange(dateKey, timezone) {
+  return {
+    gte: zonedTimeToUtc(dateKey, '00:00', timezone),
+    lt: zonedTimeToUtc(addDaysToDateKey(dateKey, 1), '00:00', timezone),
+  };
+}
+
+/**
+ * Понедельник недели: из ISO недели "YYYY-Www" или из любой даты недели YYYY-MM-DD
+ * @param {string} week - "2025-W03" или "2025-01-15"
+ * @returns {string} Дата понедельника YYYY-MM-DD
+ */
+export function getWeekStartKey(week) {
+  if (week.includes('-W')) {
+    const [year, weekNum] = week.split('-W').map(Number);
+    // 4 января всегда в первой ISO неделе года
+    const jan4 = `${year}-01-04`;
+    const firstMonday = addDaysToDateKey(jan4, -((getDayOfWeek(jan4) + 6) % 7));
+    return addDaysToDateKey(firstMonday, (weekNum - 1) * 7);
+  }
+
+  const dateKey = week.slice(0, 10);
+  return addDaysToDateKey(dateKey, -((getDayOfWeek(dateKey) + 6) % 7));
+}
+
+/**
+ * Интервал недели (понедельник 00:00 — следующий понедельник 00:00) на часах клиники
+ * @param {string} week - "2025-W03" или дата внутри недели YYYY-MM-DD
+ * @param {string} timezone - IANA часовой пояс
+ * @returns {object} { gte, lt, startKey, endKey } — endKey — воскресенье недели
+ */
+export function getZonedWeekRange(week, timezone) {
+  const startKey = getWeekStartKey(week);
+  const nextWeekKey = addDaysToDateKey(startKey, 7);
+
+  return {
+    gte: zonedTimeToUtc(startKey, '00:00', timezone),
+    lt: zonedTimeToUtc(nextWeekKey, '00:00', timezone),
+    startKey,
+    endKey: addDaysToDateKey(startKey, 6),
+  };
+}
@@ -0,0 +1,41 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { getZonedDayRange, zonedTimeToUtc } from './timezone.util.js';
+
+/**
+ * Europe/Berlin переходит на летнее время в последнее воскресенье марта (2025-03-30, 02:00 → 03:00)
+ * и обратно в последнее воскресенье октября (2025-10-26, 03:00 → 02:00)
+ */
+const TIMEZONE = 'Europe/Berlin';
+
+describe('zonedTimeToUtc', () => {
+  it('учитывает смещение до и после перехода на летнее время', () => {
+    assert.equal(zonedTimeToUtc('2025-03-29', '10:00', TIMEZONE).toISOString(), '2025-03-29T09:00:00.000Z');
+    assert.equal(zonedTimeToUtc('2025-03-31', '10:00', TIMEZONE).toISOString(), '2025-03-31T08:00:00.000Z');
+  });
+
+  it('в день перехода различает время до и после 02:00', () => {
+    assert.equal(zonedTimeToUtc('2025-03-30', '01:30', TIMEZONE).toISOString(), '2025-03-30T00:30:00.000Z');
+    assert.equal(zonedTimeToUtc('2025-03-30', '03:30', TIMEZONE).toISOString(), '2025-03-30T01:30:00.000Z');
+  });
+
+  it('несуществующее время (02:30 в день перехода) сдвигает вперёд на час', () => {
+    assert.equal(zonedTimeToUtc('2025-03-30', '02:30', TIMEZONE).toISOString(), '2025-03-30T01:30:00.000Z');
+  });
+});
+
+describe('getZonedDayRange', () => {
+  it('день перехода на летнее время длится 23 часа', () => {
+    const { gte, lt } = getZonedDayRange('2025-03-30', TIMEZONE);
+
+    assert.equal(gte.toISOString(), '2025-03-29T23:00:00.000Z');
+    assert.equal(lt.toISOString(), '2025-03-30T22:00:00.000Z');
+  });
+
+  it('день возврата на зимнее время длится 25 часов', () => {
+    const { gte, lt } = getZonedDayRange('2025-10-26', TIMEZONE);
+
+    assert.equal(gte.toISOString(), '2025-10-25T22:00:00.000Z');
+    assert.equal(lt.toISOString(), '2025-10-26T23:00:00.000Z');
+  });
+});
@@ -24,6 +24,7 @@ export const createAppointmentSchema = Joi.object({
     'number.max': 'Duration must be at most 240 minutes',
   }),
   reason: Joi.string().max(500).allow('').optional(),
+  treatmentCategoryId: Joi.string().allow(null, '').optional(), // Категория лечения клиники
   amount: Joi.number().min(0).optional().messages({
     'number.min': 'Amount must be a positive number',
   }),
@@ -31,6 +32,7 @@ export const createAppointmentSchema = Joi.object({
   registeredAt: Joi.date().iso().optional().messages({
     'date.base': 'RegisteredAt must be a valid date',
   }),
+  resourceIds: Joi.array().items(Joi.string()).max(10).optional(), // Кресла / кабинеты / оборудование
 });
 
 /**
@@ -42,12 +44,25 @@ export const updateAppointmentSchema = Joi.object({
   appointmentDate: Joi.date().iso().greater('now').optional(),
   duration: Joi.number().integer().min(15).max(240).optional(),
   reason: Joi.string().max(500).allow('').optional(),
+  treatmentCategoryId: Joi.string().allow(null, '').optional(), // Категория лечения клиники
   amount: Joi.number().min(0).optional().messages({
     'number.min': 'Amount must be a positive number',
   }),
   notes: Joi.string().max(1000).allow('').optional(),
+  resourceIds: Joi.array().items(Joi.string()).max(10).optional(), // Пустой массив — освободить все ресурсы
 }).min(1); // Хотя бы одно поле обязательно
 
+/**
+ * Перенос приёма (drag-and-drop в календаре): новое время и/или длительность
+ */
+export const rescheduleAppointmentSchema = Joi.object({
+  appointmentDate: Joi.date().iso().optional(),
+  duration: Joi.number().integer().min(15).max(240).optional().messages({
+    'number.min': 'Duration must be at least 15 minutes',
+    'number.max': 'Duration must be at most 240 minutes',
+  }),
+}).min(1);
+
 /**
  * Изменение статуса
  * При статусе 'completed' можно передать amount (сумму оплаты)
@@ -55,10 +70,10 @@ export const updateAppointmentSchema = Joi.object({
  */
 export const updateStatusSchema = Joi.object({
   status: Joi.string()
-    .valid('pending', 'confirmed', 'completed', 'cancelled')
+    .valid('pending', 'confirmed', 'arrived', 'in_progress', 'completed', 'cancelled', 'no_show')
     .required()
     .messages({
-      'any.only': 'Status must be one of: pending, confirmed, completed, cancelled',
+      'any.only': 'Status must be one of: pending, confirmed, arrived, in_progress, completed, cancelled, no_show',
       'any.required': 'Status is required',
     }),
   amount: Joi.number().min(0).optional().messages({
@@ -82,3 +97,71 @@ export const updateStatusSchema = Joi.object({
   return value;
 }, 'custom validation');
 
+
+/**
+ * Правило повторения серии: каждые N недель, до даты (until) или заданное число раз (count)
+ */
+export const recurrenceSchema = Joi.object({
+  intervalWeeks: Joi.number().integer().min(1).max(52).default(1).messages({
+    'number.min': 'intervalWeeks must be at least 1',
+    'number.max': 'intervalWeeks must be at most 52',
+  }),
+  count: Joi.number().integer().min(2).max(52).messages({
+    'number.min': 'count must be at least 2',
+    'number.max': 'count must be at most 52',
+  }),
+  until: Joi.date().iso().greater(Joi.ref('...appointmentDate')).messages({
+    'date.greater': 'until must be after the first appointment date',
+  }),
+}).xor('count', 'until').messages({
+  'object.xor': 'Either count or until is required for recurrence',
+  'object.missing': 'Either count or until is required for recurrence',
+});
+
+/**
+ * Создание серии повторяющихся приёмов (и её предпросмотр)
+ * Данные первого приёма + правило повторения
+ */
+export const createSeriesSchema = createAppointmentSchema.keys({
+  recurrence: recurrenceSchema.required().messages({
+    'any.required': 'Recurrence is required',
+  }),
+  skipConflicts: Joi.boolean().default(false),
+});
+
+/**
+ * Предпросмотр серии: пациент ещё может быть не выбран (например, гость)
+ */
+export const previewSeriesSchema = createSeriesSchema.keys({
+  patientId: Joi.string().optional(),
+});
+
+/**
+ * Изменение приёмов серии: этот / этот и последующие / все
+ */
+export const updateSeriesSchema = Joi.object({
+  scope: Joi.string().valid('this', 'following', 'all').required().messages({
+    'any.only': 'Scope must be one of: this, following, all',
+    'any.required': 'Scope is required',
+  }),
+  doctorId: Joi.string().optional(),
+  appointmentDate: Joi.date().iso().greater('now').optional(),
+  duration: Joi.number().integer().min(15).max(240).optional(),
+  reason: Joi.string().max(500).allow('').optional(),
+  treatmentCategoryId: Joi.string().allow(null, '').optional(),
+  notes: Joi.string().max(1000).allow('').optional(),
+}).min(2); // scope + хотя бы одно изменяемое поле
+
+/**
+ * Отмена приёмов серии: этот / этот и последующие / все
+ */
+export const cancelSeriesSchema = Joi.object({
+  scope: Joi.string().valid('this', 'following', 'all').required().messages({
+    'any.only': 'Scope must be one of: this, following, all',
+    'any.required': 'Scope is required',
+  }),
+  cancellationReason: Joi.string().trim().min(1).required().messages({
+    'any.required': 'Cancellation reason is required',
+    'string.empty': 'Cancellation reason is required',
+  }),
+});
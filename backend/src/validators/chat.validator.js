@@ -55,3 +55,12 @@ export const getConversationsSchema = Joi.object({
   limit: Joi.number().integer().min(1).max(100).optional().default(50),
 });
 
+
+/**
+ * Схема для индикатора "печатает..."
+ */
+export const typingSchema = Joi.object({
+  isTyping: Joi.boolean().required().messages({
+    'any.required': 'isTyping is required',
+  }),
+});
@@ -1,4 +1,5 @@
 import Joi from 'joi';
+import { isValidTimezone } from '../utils/timezone.util.js';
 
 /**
  * Clinic Validators
@@ -186,8 +187,12 @@ export const uploadHeroImageSchema = Joi.object({
  * Обновление настроек клиники
  */
 export const updateSettingsSchema = Joi.object({
-  timezone: Joi.string().max(100).optional().messages({
+  timezone: Joi.string().max(100).optional().custom((value, helpers) => {
+    // Все даты приёмов считаются на часах клиники, поэтому пояс должен быть валидным IANA
+    return isValidTimezone(value) ? value : helpers.error('string.timezone');
+  }).messages({
     'string.max': 'Timezone must be at most 100 characters',
+    'string.timezone': 'Timezone must be a valid IANA time zone, e.g. Asia/Yerevan',
   }),
   language: Joi.string().valid('ru', 'en', 'am').optional().messages({
     'any.only': 'Language must be one of: ru, en, am',
@@ -208,6 +213,16 @@ export const updateSettingsSchema = Joi.object({
   notifyNewAppointments: Joi.boolean().optional(),
   notifyCancellations: Joi.boolean().optional(),
   notifyConfirmations: Joi.boolean().optional(),
+  waitlistOfferMinutes: Joi.number().integer().min(5).max(1440).optional().messages({
+    'number.min': 'Waitlist offer window must be at least 5 minutes',
+    'number.max': 'Waitlist offer window must be at most 1440 minutes (24 hours)',
+  }),
+  bufferBeforeMinutes: Joi.number().integer().min(0).max(120).optional().messages({
+    'number.max': 'Buffer before appointment must be at most 120 minutes',
+  }),
+  bufferAfterMinutes: Joi.number().integer().min(0).max(120).optional().messages({
+    'number.max': 'Buffer after appointment must be at most 120 minutes',
+  }),
 });
 
 /**
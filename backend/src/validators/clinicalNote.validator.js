@@ -0,0 +1,18 @@
+import Joi from 'joi';
+
+/**
+ * Clinical Note Validators
+ * Валидация протоколов приёма
+ */
+
+const section = Joi.string().max(5000).allow('', null).optional();
+
+/**
+ * Сохранение черновика протокола (передаются только изменённые разделы)
+ */
+export const saveClinicalNoteSchema = Joi.object({
+  complaint: section,
+  diagnosis: section,
+  treatment: section,
+  recommendations: section,
+}).min(1);
@@ -0,0 +1,36 @@
+import Joi from 'joi';
+import { DENTAL_CHART_CODES, TOOTH_SURFACES, isValidFdiTooth } from '../utils/odontogram.util.js';
+
+/**
+ * Dental Chart Validators
+ * Валидация записей зубной карты (одонтограммы)
+ */
+
+/**
+ * Новая запись зубной карты
+ * surfaces — для состояний поверхностей (кариес, пломба); без surfaces запись относится к зубу целиком
+ */
+export const createDentalChartEntrySchema = Joi.object({
+  tooth: Joi.number()
+    .integer()
+    .required()
+    .custom((value, helpers) => (isValidFdiTooth(value) ? value : helpers.error('number.fdi')))
+    .messages({
+      'number.fdi': 'Номер зуба должен быть указан по FDI (11–48, 51–85)',
+      'any.required': 'Номер зуба обязателен',
+    }),
+  surfaces: Joi.array()
+    .items(Joi.string().valid(...TOOTH_SURFACES))
+    .unique()
+    .max(TOOTH_SURFACES.length)
+    .optional(),
+  code: Joi.string()
+    .valid(...Object.keys(DENTAL_CHART_CODES))
+    .required()
+    .messages({
+      'any.only': 'Неизвестное состояние или процедура',
+      'any.required': 'Состояние или процедура обязательны',
+    }),
+  appointmentId: Joi.string().uuid().allow(null).optional(),
+  notes: Joi.string().max(1000).allow('', null).optional(),
+});
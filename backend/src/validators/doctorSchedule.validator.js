@@ -4,6 +4,22 @@ import Joi from 'joi';
  * Валидация расписания врача
  */
 
+/**
+ * Схема перерыва внутри рабочего дня (например, обед 13:00–14:00)
+ */
+export const scheduleBreakSchema = Joi.object({
+  startTime: Joi.string().pattern(/^([0-1][0-9]|2[0-3]):[0-5][0-9]$/).required()
+    .messages({
+      'string.pattern.base': 'break startTime must be in HH:mm format (e.g., "13:00")',
+      'any.required': 'break startTime is required',
+    }),
+  endTime: Joi.string().pattern(/^([0-1][0-9]|2[0-3]):[0-5][0-9]$/).required()
+    .messages({
+      'string.pattern.base': 'break endTime must be in HH:mm format (e.g., "14:00")',
+      'any.required': 'break endTime is required',
+    }),
+});
+
 /**
  * Схема для одного дня недели
  */
@@ -35,6 +51,11 @@ export const dayScheduleSchema = Joi.object({
       'string.pattern.base': 'endTime must be in HH:mm format (e.g., "18:00")',
     }),
   isWorking: Joi.boolean().default(true),
+  breaks: Joi.array().items(scheduleBreakSchema).max(10).optional().allow(null)
+    .messages({
+      'array.base': 'breaks must be an array',
+      'array.max': 'breaks must contain at most 10 intervals',
+    }),
 }).custom((value, helpers) => {
   // Если isWorking = true, то startTime и endTime обязательны
   if (value.isWorking && (!value.startTime || !value.endTime)) {
@@ -46,6 +67,7 @@ export const dayScheduleSchema = Joi.object({
   if (!value.isWorking) {
     value.startTime = null;
     value.endTime = null;
+    value.breaks = [];
   }
   return value;
 });
@@ -73,3 +95,35 @@ export const updateScheduleSchema = Joi.object({
   return value;
 });
 
+
+/**
+ * Схема исключения из расписания на конкретную дату
+ * isWorking = false — выходной, isWorking = true — особые часы работы
+ */
+export const scheduleExceptionSchema = Joi.object({
+  date: Joi.string().pattern(/^\d{4}-\d{2}-\d{2}$/).required()
+    .messages({
+      'string.pattern.base': 'date must be in YYYY-MM-DD format (e.g., "2025-12-31")',
+      'any.required': 'date is required',
+    }),
+  isWorking: Joi.boolean().default(false),
+  startTime: Joi.string().pattern(/^([0-1][0-9]|2[0-3]):[0-5][0-9]$/)
+    .when('isWorking', {
+      is: true,
+      then: Joi.required(),
+      otherwise: Joi.optional().allow(null, ''),
+    })
+    .messages({
+      'string.pattern.base': 'startTime must be in HH:mm format (e.g., "09:00")',
+    }),
+  endTime: Joi.string().pattern(/^([0-1][0-9]|2[0-3]):[0-5][0-9]$/)
+    .when('isWorking', {
+      is: true,
+      then: Joi.required(),
+      otherwise: Joi.optional().allow(null, ''),
+    })
+    .messages({
+      'string.pattern.base': 'endTime must be in HH:mm format (e.g., "18:00")',
+    }),
+  reason: Joi.string().max(200).optional().allow(null, ''),
+});
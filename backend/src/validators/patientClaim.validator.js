@@ -0,0 +1,28 @@
+import Joi from 'joi';
+
+/**
+ * Patient Claim Validators
+ * Валидация привязки карточек пациента к аккаунту
+ */
+
+/**
+ * Запрос на привязку: клиника и телефон или email, указанные в карточке клиники
+ */
+export const createPatientClaimSchema = Joi.object({
+  clinicId: Joi.string().uuid().required().messages({
+    'any.required': 'Clinic ID is required',
+  }),
+  contact: Joi.string().trim().min(3).max(100).required().messages({
+    'any.required': 'Phone or email is required',
+  }),
+});
+
+/**
+ * Подтверждение привязки кодом из SMS / письма
+ */
+export const verifyPatientClaimSchema = Joi.object({
+  code: Joi.string().trim().pattern(/^\d{6}$/).required().messages({
+    'string.pattern.base': 'Code must contain 6 digits',
+    'any.required': 'Code is required',
+  }),
+});
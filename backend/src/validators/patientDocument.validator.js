@@ -0,0 +1,55 @@
+import Joi from 'joi';
+import { DOCUMENT_CATEGORIES } from '../utils/document.util.js';
+
+/**
+ * Patient Document Validators
+ * Валидация клинических документов пациента (снимки, фото, согласия, анализы)
+ */
+
+/**
+ * Загрузка документа: файл и превью — data URL в base64 (как изображения чата)
+ */
+export const uploadPatientDocumentSchema = Joi.object({
+  file: Joi.string()
+    .pattern(/^data:[\w.+-]+\/[\w.+-]+;base64,/)
+    .required()
+    .messages({
+      'any.required': 'File is required',
+      'string.pattern.base': 'File must be a base64 data URL',
+    }),
+  thumbnail: Joi.string()
+    .pattern(/^data:image\/(png|jpeg|webp);base64,/)
+    .allow(null)
+    .optional()
+    .messages({
+      'string.pattern.base': 'Thumbnail must be a PNG, JPEG or WEBP base64 data URL',
+    }),
+  fileName: Joi.string().trim().min(1).max(255).required().messages({
+    'any.required': 'File name is required',
+  }),
+  category: Joi.string()
+    .valid(...DOCUMENT_CATEGORIES)
+    .required()
+    .messages({
+      'any.only': `Category must be one of: ${DOCUMENT_CATEGORIES.join(', ')}`,
+      'any.required': 'Category is required',
+    }),
+  title: Joi.string().trim().max(200).allow('', null).optional(),
+  description: Joi.string().max(1000).allow('', null).optional(),
+  appointmentId: Joi.string().uuid().allow(null).optional(),
+});
+
+/**
+ * Изменение описания документа (файл не меняется)
+ */
+export const updatePatientDocumentSchema = Joi.object({
+  category: Joi.string()
+    .valid(...DOCUMENT_CATEGORIES)
+    .optional()
+    .messages({
+      'any.only': `Category must be one of: ${DOCUMENT_CATEGORIES.join(', ')}`,
+    }),
+  title: Joi.string().trim().min(1).max(200).optional(),
+  description: Joi.string().max(1000).allow('', null).optional(),
+  appointmentId: Joi.string().uuid().allow(null).optional(),
+}).min(1);
@@ -0,0 +1,48 @@
+import Joi from 'joi';
+
+/**
+ * Patient Import Validators
+ * Валидация импорта пациентов из таблицы (CSV / XLSX).
+ * Каждая строка отдельно проверяется схемой createPatientSchema в сервисе —
+ * здесь проверяется только формат запроса
+ */
+
+/**
+ * Сколько строк можно загрузить за один запрос
+ */
+const MAX_IMPORT_ROWS = 5000;
+
+/**
+ * Ячейка таблицы: текст, число (даты и телефоны в XLSX) или пусто
+ */
+const cell = Joi.alternatives().try(Joi.string().allow('').max(2000), Joi.number()).allow(null).optional();
+
+/**
+ * Импорт: строки с уже сопоставленными колонками
+ * dryRun — только проверить и показать, что будет сделано
+ * duplicates — что делать с пациентами, которые уже есть в клинике (тот же телефон или email):
+ * skip — пропустить, update — дополнить карточку данными из файла, create — всё равно создать новую
+ */
+export const importPatientsSchema = Joi.object({
+  rows: Joi.array()
+    .items(
+      Joi.object({
+        name: cell,
+        phone: cell,
+        email: cell,
+        dateOfBirth: cell,
+        gender: cell,
+        notes: cell,
+      })
+    )
+    .min(1)
+    .max(MAX_IMPORT_ROWS)
+    .required()
+    .messages({
+      'array.min': 'At least one row is required',
+      'array.max': `At most ${MAX_IMPORT_ROWS} rows are allowed per import`,
+      'any.required': 'Rows are required',
+    }),
+  dryRun: Joi.boolean().default(true),
+  duplicates: Joi.string().valid('skip', 'update', 'create').default('skip'),
+});
@@ -0,0 +1,29 @@
+import Joi from 'joi';
+
+/**
+ * Patient Medical History Validators
+ * Валидация анамнеза пациента (заполняет клиника или сам пациент)
+ */
+
+/**
+ * Анамнез целиком: при сохранении заменяет предыдущий
+ */
+export const medicalHistorySchema = Joi.object({
+  allergies: Joi.array()
+    .items(
+      Joi.object({
+        substance: Joi.string().trim().min(1).max(100).required().messages({
+          'any.required': 'Allergy substance is required',
+        }),
+        reaction: Joi.string().trim().max(200).allow('', null).optional(),
+      })
+    )
+    .max(30)
+    .default([]),
+  conditions: Joi.array().items(Joi.string().trim().min(1).max(100)).max(30).default([]),
+  medications: Joi.array().items(Joi.string().trim().min(1).max(100)).max(30).default([]),
+  isPregnant: Joi.boolean().default(false),
+  takesAnticoagulants: Joi.boolean().default(false),
+  anticoagulants: Joi.string().trim().max(200).allow('', null).optional(),
+  notes: Joi.string().max(1000).allow('', null).optional(),
+});
@@ -0,0 +1,20 @@
+import Joi from 'joi';
+import { MAX_MERGE_SOURCES } from '../utils/patientMatch.util.js';
+
+/**
+ * Patient Merge Validators
+ * Валидация объединения дубликатов пациентов
+ */
+
+/**
+ * Объединение: оставшаяся карточка и дубликаты, которые в неё переходят
+ */
+export const mergePatientsSchema = Joi.object({
+  targetId: Joi.string().uuid().required().messages({
+    'any.required': 'Target patient ID is required',
+  }),
+  sourceIds: Joi.array().items(Joi.string().uuid()).min(1).max(MAX_MERGE_SOURCES).required().messages({
+    'array.min': 'At least one duplicate is required',
+    'any.required': 'Duplicate patient IDs are required',
+  }),
+});
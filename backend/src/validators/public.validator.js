@@ -34,6 +34,7 @@ export const createPublicAppointmentSchema = Joi.object({
     'any.required': 'Appointment date is required',
   }),
   reason: Joi.string().max(500).allow('').optional(),
+  treatmentCategoryId: Joi.string().allow(null, '').optional(), // Категория лечения клиники
 });
 
 
@@ -0,0 +1,33 @@
+import Joi from 'joi';
+
+/**
+ * Resource Validators
+ * Валидация данных ресурсов клиники (кабинеты, кресла, оборудование)
+ */
+
+const RESOURCE_TYPES = ['room', 'chair', 'equipment'];
+
+/**
+ * Создание ресурса
+ */
+export const createResourceSchema = Joi.object({
+  name: Joi.string().trim().min(1).max(100).required().messages({
+    'string.max': 'Название ресурса не должно превышать 100 символов',
+    'any.required': 'Название ресурса обязательно',
+  }),
+  type: Joi.string().valid(...RESOURCE_TYPES).default('chair'),
+  description: Joi.string().max(500).allow('', null).optional(),
+  isActive: Joi.boolean().optional(),
+});
+
+/**
+ * Обновление ресурса
+ */
+export const updateResourceSchema = Joi.object({
+  name: Joi.string().trim().min(1).max(100).optional().messages({
+    'string.max': 'Название ресурса не должно превышать 100 символов',
+  }),
+  type: Joi.string().valid(...RESOURCE_TYPES).optional(),
+  description: Joi.string().max(500).allow('', null).optional(),
+  isActive: Joi.boolean().optional(),
+}).min(1);
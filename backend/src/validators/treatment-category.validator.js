@@ -5,6 +5,29 @@ import Joi from 'joi';
  * Валидация данных для категорий лечения
  */
 
+/**
+ * Буфер до / после процедуры (минуты); null — использовать настройки клиники
+ */
+const bufferMinutes = Joi.number().integer().min(0).max(120).allow(null).optional().messages({
+  'number.base': 'Буфер должен быть числом',
+  'number.max': 'Буфер не может превышать 120 минут',
+});
+
+/**
+ * Текст шаблона протокола приёма (раздел записи врача)
+ */
+const noteTemplate = Joi.string().max(5000).allow('', null).optional();
+
+/**
+ * Поля шаблона протокола приёма для категории
+ */
+const noteTemplateFields = {
+  templateComplaint: noteTemplate,
+  templateDiagnosis: noteTemplate,
+  templateTreatment: noteTemplate,
+  templateRecommendations: noteTemplate,
+};
+
 /**
  * Создание категории лечения
  */
@@ -25,6 +48,9 @@ export const createTreatmentCategorySchema = Joi.object({
   color: Joi.string().pattern(/^#[0-9A-Fa-f]{6}$/).optional().allow(null, '').messages({
     'string.pattern.base': 'Цвет должен быть в формате HEX (например, #8B5CF6)',
   }),
+  bufferBeforeMinutes: bufferMinutes,
+  bufferAfterMinutes: bufferMinutes,
+  ...noteTemplateFields,
 });
 
 /**
@@ -46,6 +72,9 @@ export const updateTreatmentCategorySchema = Joi.object({
   color: Joi.string().pattern(/^#[0-9A-Fa-f]{6}$/).optional().allow(null, '').messages({
     'string.pattern.base': 'Цвет должен быть в формате HEX (например, #8B5CF6)',
   }),
+  bufferBeforeMinutes: bufferMinutes,
+  bufferAfterMinutes: bufferMinutes,
+  ...noteTemplateFields,
 }).min(1); // Хотя бы одно поле обязательно
 
 /**
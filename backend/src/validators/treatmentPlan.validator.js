@@ -0,0 +1,64 @@
+import Joi from 'joi';
+import { isValidFdiTooth } from '../utils/odontogram.util.js';
+
+/**
+ * Treatment Plan Validators
+ * Валидация планов лечения и их этапов
+ */
+
+/**
+ * Этап плана лечения (порядок этапов — порядок в массиве)
+ */
+const stageSchema = Joi.object({
+  title: Joi.string().min(2).max(200).required().messages({
+    'any.required': 'Stage title is required',
+  }),
+  description: Joi.string().max(1000).allow('', null).optional(),
+  treatmentCategoryId: Joi.string().allow(null, '').optional(),
+  tooth: Joi.number()
+    .integer()
+    .allow(null)
+    .optional()
+    .custom((value, helpers) => (value === null || isValidFdiTooth(value) ? value : helpers.error('number.fdi')))
+    .messages({
+      'number.fdi': 'Номер зуба должен быть указан по FDI (11–48, 51–85)',
+    }),
+  estimatedPrice: Joi.number().min(0).required().messages({
+    'number.min': 'Стоимость этапа не может быть отрицательной',
+    'any.required': 'Estimated price is required',
+  }),
+});
+
+const planFields = {
+  title: Joi.string().min(2).max(200).required().messages({
+    'any.required': 'Plan title is required',
+  }),
+  notes: Joi.string().max(2000).allow('', null).optional(),
+  stages: Joi.array().items(stageSchema).min(1).max(50).required().messages({
+    'array.min': 'План должен содержать хотя бы один этап',
+    'any.required': 'Stages are required',
+  }),
+};
+
+/**
+ * Создание плана лечения
+ */
+export const createTreatmentPlanSchema = Joi.object({
+  patientId: Joi.string().required().messages({
+    'any.required': 'Patient ID is required',
+  }),
+  ...planFields,
+});
+
+/**
+ * Изменение плана лечения (этапы заменяются целиком)
+ */
+export const updateTreatmentPlanSchema = Joi.object(planFields);
+
+/**
+ * Изменение этапа: статус и/или приём, на который он назначен
+ */
+export const updateTreatmentPlanStageSchema = Joi.object({
+  status: Joi.string().valid('accepted', 'scheduled', 'done', 'cancelled').optional(),
+  appointmentId: Joi.string().allow(null).optional(),
+}).or('status', 'appointmentId');
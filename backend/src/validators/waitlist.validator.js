@@ -0,0 +1,40 @@
+import Joi from 'joi';
+
+/**
+ * Waitlist Validators
+ * Joi schemas для валидации waitlist endpoints
+ */
+
+const waitlistEntryFields = {
+  doctorId: Joi.string().optional().allow(null, ''),
+  treatmentCategoryId: Joi.string().optional().allow(null, ''),
+  dateFrom: Joi.string().pattern(/^\d{4}-\d{2}-\d{2}$/).required().messages({
+    'string.pattern.base': 'dateFrom must be in YYYY-MM-DD format (e.g., "2025-12-01")',
+    'any.required': 'dateFrom is required',
+  }),
+  dateTo: Joi.string().pattern(/^\d{4}-\d{2}-\d{2}$/).required().messages({
+    'string.pattern.base': 'dateTo must be in YYYY-MM-DD format (e.g., "2025-12-31")',
+    'any.required': 'dateTo is required',
+  }),
+  notes: Joi.string().max(500).allow('').optional(),
+};
+
+/**
+ * Добавление пациента в лист ожидания сотрудником клиники
+ */
+export const createWaitlistEntrySchema = Joi.object({
+  patientId: Joi.string().required().messages({
+    'any.required': 'Patient ID is required',
+  }),
+  ...waitlistEntryFields,
+});
+
+/**
+ * Пациент добавляет себя в лист ожидания клиники
+ */
+export const createMyWaitlistEntrySchema = Joi.object({
+  clinicId: Joi.string().required().messages({
+    'any.required': 'Clinic ID is required',
+  }),
+  ...waitlistEntryFields,
+});
@@ -29,6 +29,7 @@ import { PartnerDashboard } from './pages/dashboard/PartnerDashboard';
 import { AdminDashboard } from './pages/dashboard/AdminDashboard';
 import { DoctorSettingsPage } from './pages/dashboard/DoctorSettingsPage';
 import { NotificationsPage } from './pages/dashboard/NotificationsPage';
+import { TreatmentPlanEstimatePage } from './pages/dashboard/TreatmentPlanEstimatePage';
 import { HomePage } from './pages/public/Home';
 import { ClinicsPage } from './pages/public/Clinics';
 import { ClinicPage } from './pages/public/ClinicPage';
@@ -124,7 +125,15 @@ function App() {
           path="/dashboard/patient/history"
           element={
             <RoleProtectedRoute allowedRoles={[UserRole.PATIENT]}>
-              <Navigate to="/dashboard/patient" replace />
+              <PatientHistoryPage />
+            </RoleProtectedRoute>
+          }
+        />
+        <Route
+          path="/dashboard/patient/treatment-plans/:planId"
+          element={
+            <RoleProtectedRoute allowedRoles={[UserRole.PATIENT]}>
+              <TreatmentPlanEstimatePage />
             </RoleProtectedRoute>
           }
         />
@@ -236,6 +245,14 @@ function App() {
             </RoleProtectedRoute>
           }
         />
+        <Route
+          path="/dashboard/treatment-plans/:planId"
+          element={
+            <RoleProtectedRoute allowedRoles={[UserRole.ADMIN, 'CLINIC', UserRole.DOCTOR]}>
+              <TreatmentPlanEstimatePage />
+            </RoleProtectedRoute>
+          }
+        />
         <Route
           path="/dashboard/appointments"
           element={
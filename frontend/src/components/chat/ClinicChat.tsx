@@ -1,6 +1,12 @@
 import React, { useState, useEffect, useRef } from 'react';
 import { useDoctors } from '../../hooks/useUsers';
-import { useConversations, useMessages, useSendMessage } from '../../hooks/useChat';
+import {
+  useConversations,
+  useMessages,
+  useSendMessage,
+  useSendTyping,
+  useTypingIndicator,
+} from '../../hooks/useChat';
 import { useAuthStore } from '../../store/useAuthStore';
 import { useQuery } from '@tanstack/react-query';
 import { chatService } from '../../services/chat.service';
@@ -8,6 +14,7 @@ import { User } from '../../types/api.types';
 import { Conversation } from '../../services/chat.service';
 import { ChatMessage } from './ChatMessage';
 import { ChatInput } from './ChatInput';
+import { TypingIndicator } from './TypingIndicator';
 import { Spinner } from '../common/Spinner';
 
 interface ClinicChatProps {
@@ -85,6 +92,8 @@ export const ClinicChat: React.FC<ClinicChatProps> = ({
   );
 
   const sendMessageMutation = useSendMessage();
+  const isTyping = useTypingIndicator(currentConversationId);
+  const handleTyping = useSendTyping(currentConversationId);
 
   // Фильтруем беседы по выбранному врачу (для мониторинга)
   const doctorConversations = selectedDoctor
@@ -897,6 +906,7 @@ export const ClinicChat: React.FC<ClinicChatProps> = ({
                       />
                     );
                   })}
+                  {isTyping && <TypingIndicator />}
                   <div ref={messagesEndRef} />
                 </>
               )}
@@ -904,7 +914,7 @@ export const ClinicChat: React.FC<ClinicChatProps> = ({
 
             {/* Поле ввода сообщения */}
             <div className="border-t border-stroke bg-white shadow-md">
-              <ChatInput onSendMessage={handleSendMessage} disabled={false} />
+              <ChatInput onSendMessage={handleSendMessage} onTyping={handleTyping} disabled={false} />
             </div>
           </div>
         ) : (selectedDoctorForChat || selectedPatientForChat) ? (
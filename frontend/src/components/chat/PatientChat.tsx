@@ -1,5 +1,12 @@
 import React, { useState, useEffect, useRef } from 'react';
-import { useConversations, useMessages, useSendMessage, useUnreadCount } from '../../hooks/useChat';
+import {
+  useConversations,
+  useMessages,
+  useSendMessage,
+  useSendTyping,
+  useTypingIndicator,
+  useUnreadCount,
+} from '../../hooks/useChat';
 import { ChatMessage } from './ChatMessage';
 import { ChatInput } from './ChatInput';
 import { TypingIndicator } from './TypingIndicator';
@@ -44,7 +51,6 @@ export const PatientChat: React.FC<PatientChatProps> = ({
   const [selectedDoctor, setSelectedDoctor] = useState<User | null>(null);
   const [showConversationsList, setShowConversationsList] = useState(true);
   const [showDoctorsList, setShowDoctorsList] = useState(false);
-  const [isTyping, setIsTyping] = useState(false);
   const messagesEndRef = useRef<HTMLDivElement>(null);
   const messagesContainerRef = useRef<HTMLDivElement>(null);
 
@@ -56,6 +62,8 @@ export const PatientChat: React.FC<PatientChatProps> = ({
   );
   const sendMessageMutation = useSendMessage();
   const { unreadCount } = useUnreadCount();
+  const isTyping = useTypingIndicator(selectedConversation);
+  const handleTyping = useSendTyping(selectedConversation);
   const { data: doctors = [], isLoading: isLoadingDoctors } = useDoctors();
 
   // Автоскролл к последнему сообщению
@@ -106,6 +114,10 @@ export const PatientChat: React.FC<PatientChatProps> = ({
         if (error?.response?.data?.error?.code === 'GUEST_CANNOT_SEND_MESSAGES') {
           alert(error.response.data.error.message || 'Гостевые пациенты не могут отправлять сообщения. Пожалуйста, зарегистрируйтесь.');
         }
+        // Карточка в клинике есть, но ещё не привязана к аккаунту
+        if (error?.code === 'PATIENT_RECORD_CLAIM_REQUIRED') {
+          alert(error.message);
+        }
       }
     } else {
       // Отправляем в существующую беседу
@@ -575,7 +587,11 @@ export const PatientChat: React.FC<PatientChatProps> = ({
                   </p>
                 </div>
               ) : (
-                <ChatInput onSendMessage={handleSendMessage} disabled={!selectedConversation} />
+                <ChatInput
+                  onSendMessage={handleSendMessage}
+                  onTyping={handleTyping}
+                  disabled={!selectedConversation}
+                />
               )}
             </div>
           </div>
@@ -2,6 +2,7 @@ import React, { useState } from 'react';
 import { format, startOfMonth, endOfMonth, eachDayOfInterval, isSameMonth, isSameDay, addMonths, subMonths, getDay, startOfWeek, endOfWeek } from 'date-fns';
 import { ru } from 'date-fns/locale';
 import { TimeSlotPicker } from './TimeSlotPicker';
+import { AvailableSlot } from '../../types/api.types';
 
 interface CalendarProps {
   selectedDate: Date | null;
@@ -11,8 +12,8 @@ interface CalendarProps {
   minDate?: Date;
   disabledDates?: Date[];
   className?: string;
-  busySlots?: Array<{ start: string; end: string; appointmentId: string }>; // Занятые временные слоты
-  appointmentDuration?: number; // Длительность приёма в минутах (по умолчанию 30)
+  timeSlots?: AvailableSlot[]; // Слоты выбранной даты, рассчитанные сервером
+  emptySlotsMessage?: string; // Текст, если на выбранную дату нет слотов
 }
 
 /**
@@ -27,8 +28,8 @@ export const Calendar: React.FC<CalendarProps> = ({
   minDate = new Date(),
   disabledDates = [],
   className = '',
-  busySlots = [],
-  appointmentDuration = 30,
+  timeSlots = [],
+  emptySlotsMessage,
 }) => {
   const [currentMonth, setCurrentMonth] = useState(new Date());
 
@@ -156,12 +157,8 @@ export const Calendar: React.FC<CalendarProps> = ({
           <TimeSlotPicker
             selectedTime={selectedTime || ''}
             onTimeSelect={onTimeSelect}
-            busySlots={busySlots}
-            appointmentDuration={appointmentDuration}
-            selectedDate={selectedDate}
-            startHour={9}
-            endHour={18}
-            slotInterval={30}
+            slots={timeSlots}
+            emptyMessage={emptySlotsMessage}
           />
         </div>
       )}
@@ -1,124 +1,40 @@
 import React from 'react';
-
-interface TimeSlot {
-  time: string;
-  isBusy: boolean;
-  isPast: boolean;
-}
+import { AvailableSlot } from '../../types/api.types';
 
 interface TimeSlotPickerProps {
   selectedTime: string;
   onTimeSelect: (time: string) => void;
-  busySlots?: Array<{ start: string; end: string; appointmentId: string }>;
-  appointmentDuration?: number; // Длительность приёма в минутах
-  selectedDate?: Date | string | null; // Дата для проверки прошлых слотов
+  slots?: AvailableSlot[]; // Слоты, рассчитанные сервером (available-slots)
+  emptyMessage?: string; // Текст, если на дату нет слотов (например, выходной врача)
   className?: string;
-  timeSlots?: string[]; // Кастомные временные слоты (если не указаны, генерируются автоматически)
-  startHour?: number; // Начальный час (по умолчанию 8)
-  endHour?: number; // Конечный час (по умолчанию 20)
-  slotInterval?: number; // Интервал между слотами в минутах (по умолчанию 30)
 }
 
+/**
+ * Подсказка для недоступного слота
+ */
+const UNAVAILABLE_TITLES: Record<NonNullable<AvailableSlot['reason']>, string> = {
+  booked: 'Это время занято',
+  break: 'Перерыв врача',
+  past: 'Это время в прошлом',
+  resource: 'Выбранный кабинет или оборудование заняты',
+};
+
 /**
  * TimeSlotPicker Component
- * Визуальный выбор времени с цветовой индикацией доступных и занятых слотов
+ * Визуальный выбор времени из слотов, рассчитанных сервером
  * - Зеленый: доступные слоты
  * - Красный: занятые слоты
- * - Серый: прошедшие слоты
+ * - Серый: прошедшие слоты и перерывы врача
  */
 export const TimeSlotPicker: React.FC<TimeSlotPickerProps> = ({
   selectedTime,
   onTimeSelect,
-  busySlots = [],
-  appointmentDuration = 30,
-  selectedDate,
+  slots = [],
+  emptyMessage = 'На эту дату нет доступного времени',
   className = '',
-  timeSlots,
-  startHour = 8,
-  endHour = 20,
-  slotInterval = 30,
 }) => {
-  // Генерируем временные слоты, если не переданы
-  const generateTimeSlots = (): string[] => {
-    if (timeSlots) return timeSlots;
-    
-    const slots: string[] = [];
-    for (let hour = startHour; hour < endHour; hour++) {
-      for (let minute = 0; minute < 60; minute += slotInterval) {
-        const timeStr = `${String(hour).padStart(2, '0')}:${String(minute).padStart(2, '0')}`;
-        slots.push(timeStr);
-      }
-    }
-    return slots;
-  };
-
-  const allTimeSlots = generateTimeSlots();
-
-  // Проверяем, занят ли временной слот
-  const isTimeSlotBusy = (time: string): boolean => {
-    if (!selectedDate || busySlots.length === 0) return false;
-
-    // Получаем дату в формате YYYY-MM-DD
-    let dateStr: string;
-    if (selectedDate instanceof Date) {
-      // Используем локальную дату, а не UTC
-      const year = selectedDate.getFullYear();
-      const month = String(selectedDate.getMonth() + 1).padStart(2, '0');
-      const day = String(selectedDate.getDate()).padStart(2, '0');
-      dateStr = `${year}-${month}-${day}`;
-    } else if (typeof selectedDate === 'string') {
-      dateStr = selectedDate.split('T')[0];
-    } else {
-      return false;
-    }
-
-    // Создаем дату и время слота в локальном времени
-    // Используем конструктор Date(year, month, day, hour, minute) для локального времени
-    const [hours, minutes] = time.split(':').map(Number);
-    const [year, month, day] = dateStr.split('-').map(Number);
-    const slotDateTime = new Date(year, month - 1, day, hours, minutes, 0);
-    const slotEndTime = new Date(slotDateTime.getTime() + appointmentDuration * 60000);
-
-    return busySlots.some(busySlot => {
-      const busyStart = new Date(busySlot.start);
-      const busyEnd = new Date(busySlot.end);
-
-      // Проверяем пересечение интервалов
-      // slotDateTime < busyEnd означает, что наш слот начинается до конца занятого слота
-      // slotEndTime > busyStart означает, что наш слот заканчивается после начала занятого слота
-      return slotDateTime < busyEnd && slotEndTime > busyStart;
-    });
-  };
-
-  // Проверяем, является ли слот прошедшим
-  const isTimeSlotPast = (time: string): boolean => {
-    if (!selectedDate) return false;
-
-    let dateStr: string;
-    if (selectedDate instanceof Date) {
-      dateStr = selectedDate.toISOString().split('T')[0];
-    } else if (typeof selectedDate === 'string') {
-      dateStr = selectedDate.split('T')[0];
-    } else {
-      return false;
-    }
-
-    const today = new Date().toISOString().split('T')[0];
-    if (dateStr !== today) return false;
-
-    const slotDateTime = new Date(`${dateStr}T${time}:00`);
-    return slotDateTime <= new Date();
-  };
-
-  // Подготовка данных для каждого слота
-  const slots: TimeSlot[] = allTimeSlots.map(time => ({
-    time,
-    isBusy: isTimeSlotBusy(time),
-    isPast: isTimeSlotPast(time),
-  }));
-
-  const handleSlotClick = (slot: TimeSlot) => {
-    if (!slot.isBusy && !slot.isPast) {
+  const handleSlotClick = (slot: AvailableSlot) => {
+    if (slot.available) {
       onTimeSelect(slot.time);
     }
   };
@@ -128,50 +44,53 @@ export const TimeSlotPicker: React.FC<TimeSlotPickerProps> = ({
       <label className="block text-sm font-normal text-text-50 mb-3">
         Выберите время <span className="text-red-500">*</span>
       </label>
-      
-      {/* Визуальная сетка слотов - чистый минималистичный дизайн */}
-      <div className="grid grid-cols-4 gap-2.5 max-h-80 overflow-y-auto">
-        {slots.map((slot) => {
-          const isSelected = selectedTime === slot.time;
-          const isDisabled = slot.isBusy || slot.isPast;
 
-          return (
-            <button
-              key={slot.time}
-              type="button"
-              onClick={() => handleSlotClick(slot)}
-              disabled={isDisabled}
-              className={`
-                px-4 py-3 text-sm font-medium rounded-md
-                transition-all duration-200
-                border
-                ${
+      {slots.length === 0 ? (
+        <div className="p-4 bg-bg-primary border border-stroke rounded-md text-sm text-text-10 text-center">
+          {emptyMessage}
+        </div>
+      ) : (
+        /* Визуальная сетка слотов - чистый минималистичный дизайн */
+        <div className="grid grid-cols-4 gap-2.5 max-h-80 overflow-y-auto">
+          {slots.map((slot) => {
+            const isSelected = selectedTime === slot.time;
+            const isDisabled = !slot.available;
+
+            return (
+              <button
+                key={slot.start}
+                type="button"
+                onClick={() => handleSlotClick(slot)}
+                disabled={isDisabled}
+                className={`
+                  px-4 py-3 text-sm font-medium rounded-md
+                  transition-all duration-200
+                  border
+                  ${
+                    isSelected
+                      ? 'bg-main-100 text-white border-main-100 shadow-sm'
+                      : isDisabled
+                      ? slot.reason === 'booked' || slot.reason === 'resource'
+                        ? 'bg-white text-red-600 border-red-300 cursor-not-allowed'
+                        : 'bg-gray-50 text-gray-400 border-gray-200 cursor-not-allowed'
+                      : 'bg-white text-text-100 border-green-300 hover:border-green-400 hover:bg-green-50'
+                  }
+                  focus:outline-none focus:ring-2 focus:ring-main-100 focus:ring-offset-1
+                `}
+                title={
                   isSelected
-                    ? 'bg-main-100 text-white border-main-100 shadow-sm'
-                    : isDisabled
-                    ? slot.isBusy
-                      ? 'bg-white text-red-600 border-red-300 cursor-not-allowed'
-                      : 'bg-gray-50 text-gray-400 border-gray-200 cursor-not-allowed'
-                    : 'bg-white text-text-100 border-green-300 hover:border-green-400 hover:bg-green-50'
+                    ? 'Выбранное время'
+                    : slot.reason
+                    ? UNAVAILABLE_TITLES[slot.reason]
+                    : 'Доступно для записи'
                 }
-                focus:outline-none focus:ring-2 focus:ring-main-100 focus:ring-offset-1
-              `}
-              title={
-                isSelected
-                  ? 'Выбранное время'
-                  : slot.isBusy
-                  ? 'Это время занято'
-                  : slot.isPast
-                  ? 'Это время в прошлом'
-                  : 'Доступно для записи'
-              }
-            >
-              {slot.time}
-            </button>
-          );
-        })}
-      </div>
+              >
+                {slot.time}
+              </button>
+            );
+          })}
+        </div>
+      )}
     </div>
   );
 };
-
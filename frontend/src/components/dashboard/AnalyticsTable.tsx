@@ -46,6 +46,9 @@ export const AnalyticsTable: React.FC<AnalyticsTableProps> = ({
       confirmed: { label: 'Подтверждено', className: 'bg-blue-100 text-blue-800' },
       completed: { label: 'Завершено', className: 'bg-green-100 text-green-800' },
       cancelled: { label: 'Отменено', className: 'bg-red-100 text-red-800' },
+      arrived: { label: 'Пришёл', className: 'bg-sky-100 text-sky-800' },
+      in_progress: { label: 'На приёме', className: 'bg-purple-100 text-purple-800' },
+      no_show: { label: 'Не пришёл', className: 'bg-gray-200 text-gray-800' },
     };
 
     const config = statusConfig[status as keyof typeof statusConfig] || {
@@ -3,20 +3,37 @@ import { createPortal } from 'react-dom';
 import { format } from 'date-fns';
 import { ru } from 'date-fns/locale';
 import { Modal, Card, Button, Input, Spinner } from '../common';
-import { Appointment, User } from '../../types/api.types';
-import { formatAppointmentDateTime, formatAppointmentTime, safeParseDate } from '../../utils/dateFormat';
+import { Appointment, AppointmentSeriesScope, User } from '../../types/api.types';
+import {
+  formatAppointmentDateTime,
+  formatAppointmentTime,
+  getZonedDateParts,
+  safeParseDate,
+  zonedTimeToUtc,
+} from '../../utils/dateFormat';
 import { useAuthStore } from '../../store/useAuthStore';
-import { useUpdateAppointment, useUpdateAppointmentStatus } from '../../hooks/useAppointments';
+import {
+  useUpdateAppointment,
+  useUpdateAppointmentStatus,
+  useUpdateAppointmentSeries,
+  useCancelAppointmentSeries,
+} from '../../hooks/useAppointments';
 import { useUpdatePatient } from '../../hooks/usePatients';
 import { useDoctors } from '../../hooks/useUsers';
+import { useTreatmentCategories } from '../../hooks/useTreatmentCategories';
 import { userService } from '../../services/user.service';
 import { STATUS_COLORS, getStatusColor } from '../../utils/appointmentColors';
+import { AppointmentSeriesCard } from './AppointmentSeriesCard';
+import { MedicalAlertsBanner } from './MedicalAlertsBanner';
+import { PatientDocumentsSection } from './PatientDocumentsSection';
+import { RESOURCE_TYPE_LABELS } from './ResourcesSection';
+import { useDownloadAppointmentIcs } from '../../hooks/useCalendarFeed';
 
 // Import icons
 import doctorIcon from '../../assets/icons/doctor.svg';
 import phoneIcon from '../../assets/icons/phone.svg';
 import mailIcon from '../../assets/icons/mail.svg';
-import { Calendar, Clock, User as UserIcon, DollarSign, FileText } from 'lucide-react';
+import { Calendar, CalendarPlus, Clock, User as UserIcon, DollarSign, FileText, Armchair, Paperclip } from 'lucide-react';
 
 interface AppointmentDetailModalProps {
   isOpen: boolean;
@@ -37,17 +54,22 @@ export const AppointmentDetailModal: React.FC<AppointmentDetailModalProps> = ({
   const user = useAuthStore(state => state.user);
   const updateAppointmentMutation = useUpdateAppointment();
   const updateAppointmentStatusMutation = useUpdateAppointmentStatus();
+  const updateSeriesMutation = useUpdateAppointmentSeries();
+  const cancelSeriesMutation = useCancelAppointmentSeries();
   const updatePatientMutation = useUpdatePatient();
   const { data: doctors = [], isLoading: isLoadingDoctors } = useDoctors();
+  const { data: categories = [] } = useTreatmentCategories();
 
   // Проверяем, может ли пользователь редактировать (только CLINIC, ADMIN и DOCTOR)
   const canEdit = user?.role === 'CLINIC' || user?.role === 'ADMIN' || user?.role === 'DOCTOR';
   
   // Для завершенных записей можно редактировать только сумму
-  // Для отмененных записей редактирование запрещено
+  // Для отмененных и пропущенных (неявка) записей редактирование запрещено
   const isCompleted = appointment?.status === 'completed';
   const isCancelled = appointment?.status === 'cancelled';
-  const canEditAppointment = !isCancelled;
+  const isMissed = appointment?.status === 'no_show';
+  const isLocked = isCancelled || isMissed;
+  const canEditAppointment = !isLocked;
 
   // Состояние формы для записи
   const [appointmentDate, setAppointmentDate] = useState('');
@@ -55,10 +77,13 @@ export const AppointmentDetailModal: React.FC<AppointmentDetailModalProps> = ({
   const [duration, setDuration] = useState('30');
   const [doctorId, setDoctorId] = useState('');
   const [reason, setReason] = useState('');
+  const [treatmentCategoryId, setTreatmentCategoryId] = useState('');
   const [notes, setNotes] = useState('');
   const [amount, setAmount] = useState('');
   const [status, setStatus] = useState<string>('pending');
   const [cancellationReason, setCancellationReason] = useState('');
+  // Какие приёмы серии затрагивает сохранение: этот / этот и последующие / все
+  const [seriesScope, setSeriesScope] = useState<AppointmentSeriesScope>('this');
 
   // Состояние формы для пациента
   const [patientName, setPatientName] = useState('');
@@ -75,23 +100,28 @@ export const AppointmentDetailModal: React.FC<AppointmentDetailModalProps> = ({
   const statusDropdownRef = useRef<HTMLDivElement>(null);
   const statusButtonRef = useRef<HTMLButtonElement>(null);
   const [dropdownPosition, setDropdownPosition] = useState<{ top: number; left: number; width: number } | null>(null);
+  const downloadIcsMutation = useDownloadAppointmentIcs();
 
   // Инициализация формы при открытии модального окна
   useEffect(() => {
     if (appointment && isOpen) {
-      const appointmentDateObj = safeParseDate(appointment.appointmentDate);
-      const dateStr = format(appointmentDateObj, 'yyyy-MM-dd');
-      const timeStr = format(appointmentDateObj, 'HH:mm');
-
-      setAppointmentDate(dateStr);
-      setAppointmentTime(timeStr);
+      // Дата и время редактируются по часам клиники
+      const { dateKey, time } = getZonedDateParts(
+        appointment.appointmentDate,
+        appointment.clinic?.settings?.timezone
+      );
+
+      setAppointmentDate(dateKey);
+      setAppointmentTime(time);
       setDuration(String(appointment.duration || 30));
       setDoctorId(appointment.doctorId || '');
       setReason(appointment.reason || '');
+      setTreatmentCategoryId(appointment.treatmentCategoryId || '');
       setNotes(appointment.notes || '');
       setAmount(appointment.amount ? String(appointment.amount) : '');
       setStatus(appointment.status);
       setCancellationReason(appointment.cancellationReason || '');
+      setSeriesScope('this');
 
       // Данные пациента
       setPatientName(appointment.patient?.name || '');
@@ -188,9 +218,9 @@ export const AppointmentDetailModal: React.FC<AppointmentDetailModalProps> = ({
       return Object.keys(newErrors).length === 0;
     }
 
-    // Для отмененных записей редактирование запрещено
-    if (isCancelled) {
-      newErrors.submit = 'Отмененные записи нельзя редактировать';
+    // Для отмененных и пропущенных записей редактирование запрещено
+    if (isLocked) {
+      newErrors.submit = isMissed ? 'Пропущенные записи нельзя редактировать' : 'Отмененные записи нельзя редактировать';
       setErrors(newErrors);
       return false;
     }
@@ -233,6 +263,16 @@ export const AppointmentDetailModal: React.FC<AppointmentDetailModalProps> = ({
   };
 
   // Обработка сохранения
+  // При смене категории подставляем её название в причину визита, если причина не заполнена вручную
+  const handleCategoryChange = (categoryId: string) => {
+    const previousCategory = categories.find(cat => cat.id === treatmentCategoryId);
+    const nextCategory = categories.find(cat => cat.id === categoryId);
+    if (!reason.trim() || reason.trim() === previousCategory?.name) {
+      setReason(nextCategory?.name || '');
+    }
+    setTreatmentCategoryId(categoryId);
+  };
+
   const handleSave = async () => {
     if (!validateForm() || !canEditAppointment || !appointment) {
       return;
@@ -254,6 +294,49 @@ export const AppointmentDetailModal: React.FC<AppointmentDetailModalProps> = ({
 
       const originalStatus = appointment.status;
       const statusChanged = status !== originalStatus;
+
+      // Изменение или отмена нескольких приёмов серии
+      if (appointment.seriesId && seriesScope !== 'this' && !isCompleted) {
+        if (status === 'cancelled') {
+          const reason = cancellationReason.trim();
+          if (!reason) {
+            setErrors({ cancellationReason: 'Причина отмены обязательна' });
+            setIsLoading(false);
+            return;
+          }
+
+          const result = await cancelSeriesMutation.mutateAsync({
+            id: appointment.id,
+            scope: seriesScope,
+            cancellationReason: reason,
+          });
+          console.log(`✅ [APPOINTMENT DETAIL] Отменено приёмов серии: ${result.cancelledCount}`);
+          onClose();
+          return;
+        }
+
+        if (!statusChanged) {
+          const dateTime = zonedTimeToUtc(appointmentDate, appointmentTime, appointment.clinic?.settings?.timezone);
+          const originalDate = safeParseDate(appointment.appointmentDate);
+
+          const updated = await updateSeriesMutation.mutateAsync({
+            id: appointment.id,
+            data: {
+              scope: seriesScope,
+              // Дату передаём только при переносе, иначе сервер проверял бы прошедшее время
+              appointmentDate: dateTime.getTime() !== originalDate.getTime() ? dateTime.toISOString() : undefined,
+              duration: parseInt(duration),
+              doctorId,
+              reason: reason.trim(),
+              treatmentCategoryId: treatmentCategoryId || null,
+              notes: notes.trim(),
+            },
+          });
+          console.log(`✅ [APPOINTMENT DETAIL] Изменено приёмов серии: ${updated.length}`);
+          onClose();
+          return;
+        }
+      }
       
       // Если статус изменился, используем отдельный endpoint для изменения статуса
       if (statusChanged) {
@@ -306,11 +389,12 @@ export const AppointmentDetailModal: React.FC<AppointmentDetailModalProps> = ({
         // Если статус меняется на completed, другие поля не обновляем (только amount через updateStatus)
         if (originalStatus === 'completed' && status !== 'completed') {
           const appointmentData: any = {};
-          const dateTime = new Date(`${appointmentDate}T${appointmentTime}`);
+          const dateTime = zonedTimeToUtc(appointmentDate, appointmentTime, appointment.clinic?.settings?.timezone);
           appointmentData.appointmentDate = dateTime.toISOString();
           appointmentData.duration = parseInt(duration);
           appointmentData.doctorId = doctorId;
           appointmentData.reason = reason.trim() || undefined;
+          appointmentData.treatmentCategoryId = treatmentCategoryId || null;
           appointmentData.notes = notes.trim() || undefined;
           appointmentData.amount = amountValue;
           
@@ -330,11 +414,12 @@ export const AppointmentDetailModal: React.FC<AppointmentDetailModalProps> = ({
         } else if (status !== 'completed') {
           // Если статус меняется между незавершенными статусами, обновляем все поля
           const appointmentData: any = {};
-          const dateTime = new Date(`${appointmentDate}T${appointmentTime}`);
+          const dateTime = zonedTimeToUtc(appointmentDate, appointmentTime, appointment.clinic?.settings?.timezone);
           appointmentData.appointmentDate = dateTime.toISOString();
           appointmentData.duration = parseInt(duration);
           appointmentData.doctorId = doctorId;
           appointmentData.reason = reason.trim() || undefined;
+          appointmentData.treatmentCategoryId = treatmentCategoryId || null;
           appointmentData.notes = notes.trim() || undefined;
           appointmentData.amount = amountValue;
           
@@ -362,11 +447,12 @@ export const AppointmentDetailModal: React.FC<AppointmentDetailModalProps> = ({
           appointmentData.amount = parseAmount(amount);
         } else {
           // Для незавершенных записей можно обновлять все поля кроме статуса
-          const dateTime = new Date(`${appointmentDate}T${appointmentTime}`);
+          const dateTime = zonedTimeToUtc(appointmentDate, appointmentTime, appointment.clinic?.settings?.timezone);
           appointmentData.appointmentDate = dateTime.toISOString();
           appointmentData.duration = parseInt(duration);
           appointmentData.doctorId = doctorId;
           appointmentData.reason = reason.trim() || undefined;
+          appointmentData.treatmentCategoryId = treatmentCategoryId || null;
           appointmentData.notes = notes.trim() || undefined;
           appointmentData.amount = parseAmount(amount);
         }
@@ -412,6 +498,12 @@ export const AppointmentDetailModal: React.FC<AppointmentDetailModalProps> = ({
         return 'Завершен';
       case 'cancelled':
         return 'Отменен';
+      case 'arrived':
+        return 'Пришёл';
+      case 'in_progress':
+        return 'На приёме';
+      case 'no_show':
+        return 'Не пришёл';
       default:
         return status;
     }
@@ -421,8 +513,11 @@ export const AppointmentDetailModal: React.FC<AppointmentDetailModalProps> = ({
   const statusOptions = [
     { value: 'pending', label: 'Ожидает', color: STATUS_COLORS.pending },
     { value: 'confirmed', label: 'Подтвержден', color: STATUS_COLORS.confirmed },
+    { value: 'arrived', label: 'Пришёл', color: STATUS_COLORS.arrived },
+    { value: 'in_progress', label: 'На приёме', color: STATUS_COLORS.in_progress },
     { value: 'completed', label: 'Завершен', color: STATUS_COLORS.completed },
     { value: 'cancelled', label: 'Отменен', color: STATUS_COLORS.cancelled },
+    { value: 'no_show', label: 'Не пришёл', color: STATUS_COLORS.no_show },
   ];
 
   const patientInitial = patientName.charAt(0).toUpperCase() || 'П';
@@ -439,18 +534,31 @@ export const AppointmentDetailModal: React.FC<AppointmentDetailModalProps> = ({
       title="Редактирование записи на приём"
       size="lg"
       footer={
-        <div className="flex justify-end gap-3">
-          <Button variant="secondary" onClick={onClose} disabled={isLoading}>
-            Отмена
-          </Button>
-          <Button 
-            variant="primary" 
-            onClick={handleSave} 
-            isLoading={isLoading}
-            disabled={!canEditAppointment}
+        <div className="flex justify-between gap-3">
+          {/* Добавить приём в свой календарь (Google, Apple, Outlook) */}
+          <Button
+            variant="secondary"
+            onClick={() => downloadIcsMutation.mutate(appointment.id)}
+            isLoading={downloadIcsMutation.isPending}
           >
-            Сохранить
+            <span className="flex items-center gap-2">
+              <CalendarPlus className="w-4 h-4" />
+              Скачать .ics
+            </span>
           </Button>
+          <div className="flex gap-3">
+            <Button variant="secondary" onClick={onClose} disabled={isLoading}>
+              Отмена
+            </Button>
+            <Button 
+              variant="primary" 
+              onClick={handleSave} 
+              isLoading={isLoading}
+              disabled={!canEditAppointment}
+            >
+              Сохранить
+            </Button>
+          </div>
         </div>
       }
     >
@@ -461,10 +569,13 @@ export const AppointmentDetailModal: React.FC<AppointmentDetailModalProps> = ({
           </div>
         )}
 
-        {isCancelled && (
+        {/* Предупреждения из анамнеза: аллергии, антикоагулянты, беременность */}
+        <MedicalAlertsBanner patientId={appointment.patientId} />
+
+        {isLocked && (
           <div className="bg-yellow-50 border border-yellow-200 rounded-sm p-3">
             <p className="text-sm text-yellow-700">
-              ⚠️ Отмененные записи нельзя редактировать
+              ⚠️ {isMissed ? 'Пропущенные записи нельзя редактировать' : 'Отмененные записи нельзя редактировать'}
             </p>
           </div>
         )}
@@ -477,6 +588,16 @@ export const AppointmentDetailModal: React.FC<AppointmentDetailModalProps> = ({
           </div>
         )}
 
+        {/* Серия повторяющихся приёмов */}
+        {appointment.seriesId && (
+          <AppointmentSeriesCard
+            appointment={appointment}
+            scope={seriesScope}
+            onScopeChange={setSeriesScope}
+            canChangeScope={!isCompleted && !isLocked}
+          />
+        )}
+
         {/* Дата, время и статус */}
         <Card padding="md" className="bg-main-10/30" style={{ overflow: 'visible' }}>
           <div className="grid grid-cols-1 md:grid-cols-3 gap-4" style={{ overflow: 'visible' }}>
@@ -492,10 +613,10 @@ export const AppointmentDetailModal: React.FC<AppointmentDetailModalProps> = ({
                   setAppointmentDate(e.target.value);
                   setErrors((prev) => ({ ...prev, appointmentDate: '' }));
                 }}
-                disabled={isCompleted || isCancelled}
+                disabled={isCompleted || isLocked}
                 className={`w-full px-3 py-2 border rounded-sm bg-bg-white text-sm focus:outline-none focus:border-main-100 transition-all ${
                   errors.appointmentDate ? 'border-red-500' : 'border-stroke'
-                } ${(isCompleted || isCancelled) ? 'bg-bg-primary cursor-not-allowed' : ''}`}
+                } ${(isCompleted || isLocked) ? 'bg-bg-primary cursor-not-allowed' : ''}`}
               />
               {errors.appointmentDate && (
                 <p className="mt-1 text-xs text-red-600">{errors.appointmentDate}</p>
@@ -514,10 +635,10 @@ export const AppointmentDetailModal: React.FC<AppointmentDetailModalProps> = ({
                   setAppointmentTime(e.target.value);
                   setErrors((prev) => ({ ...prev, appointmentTime: '' }));
                 }}
-                disabled={isCompleted || isCancelled}
+                disabled={isCompleted || isLocked}
                 className={`w-full px-3 py-2 border rounded-sm bg-bg-white text-sm focus:outline-none focus:border-main-100 transition-all ${
                   errors.appointmentTime ? 'border-red-500' : 'border-stroke'
-                } ${(isCompleted || isCancelled) ? 'bg-bg-primary cursor-not-allowed' : ''}`}
+                } ${(isCompleted || isLocked) ? 'bg-bg-primary cursor-not-allowed' : ''}`}
               />
               {errors.appointmentTime && (
                 <p className="mt-1 text-xs text-red-600">{errors.appointmentTime}</p>
@@ -530,10 +651,10 @@ export const AppointmentDetailModal: React.FC<AppointmentDetailModalProps> = ({
                 <button
                   ref={statusButtonRef}
                   type="button"
-                  onClick={() => !isCompleted && !isCancelled && setIsStatusDropdownOpen(!isStatusDropdownOpen)}
-                  disabled={isCompleted || isCancelled}
+                  onClick={() => !isCompleted && !isLocked && setIsStatusDropdownOpen(!isStatusDropdownOpen)}
+                  disabled={isCompleted || isLocked}
                   className={`w-full px-3 py-2 border border-stroke rounded-sm bg-bg-white text-sm focus:outline-none focus:border-main-100 transition-all flex items-center justify-between ${
-                    (isCompleted || isCancelled) ? 'bg-bg-primary cursor-not-allowed' : 'cursor-pointer hover:border-main-100'
+                    (isCompleted || isLocked) ? 'bg-bg-primary cursor-not-allowed' : 'cursor-pointer hover:border-main-100'
                   }`}
                 >
                   <div className="flex items-center gap-2">
@@ -568,11 +689,11 @@ export const AppointmentDetailModal: React.FC<AppointmentDetailModalProps> = ({
                   setCancellationReason(e.target.value);
                   setErrors((prev) => ({ ...prev, cancellationReason: '' }));
                 }}
-                disabled={isCancelled}
+                disabled={isLocked}
                 rows={3}
                 className={`w-full px-3 py-2 border rounded-sm bg-bg-white text-sm focus:outline-none focus:border-main-100 transition-all resize-none ${
                   errors.cancellationReason ? 'border-red-500' : 'border-stroke'
-                } ${isCancelled ? 'bg-bg-primary cursor-not-allowed' : ''}`}
+                } ${isLocked ? 'bg-bg-primary cursor-not-allowed' : ''}`}
                 placeholder="Введите причину отмены приёма..."
               />
               {errors.cancellationReason && (
@@ -592,10 +713,10 @@ export const AppointmentDetailModal: React.FC<AppointmentDetailModalProps> = ({
                   setDuration(e.target.value);
                   setErrors((prev) => ({ ...prev, duration: '' }));
                 }}
-                disabled={isCompleted || isCancelled}
+                disabled={isCompleted || isLocked}
                 className={`w-full px-3 py-2 border rounded-sm bg-bg-white text-sm focus:outline-none focus:border-main-100 transition-all ${
                   errors.duration ? 'border-red-500' : 'border-stroke'
-                } ${(isCompleted || isCancelled) ? 'bg-bg-primary cursor-not-allowed' : ''}`}
+                } ${(isCompleted || isLocked) ? 'bg-bg-primary cursor-not-allowed' : ''}`}
               />
               {errors.duration && (
                 <p className="mt-1 text-xs text-red-600">{errors.duration}</p>
@@ -645,10 +766,10 @@ export const AppointmentDetailModal: React.FC<AppointmentDetailModalProps> = ({
                     setPatientName(e.target.value);
                     setErrors((prev) => ({ ...prev, patientName: '' }));
                   }}
-                  disabled={isCompleted || isCancelled}
+                  disabled={isCompleted || isLocked}
                   className={`w-full px-3 py-2 border rounded-sm bg-bg-white text-sm focus:outline-none focus:border-main-100 transition-all ${
                     errors.patientName ? 'border-red-500' : 'border-stroke'
-                  } ${(isCompleted || isCancelled) ? 'bg-bg-primary cursor-not-allowed' : ''}`}
+                  } ${(isCompleted || isLocked) ? 'bg-bg-primary cursor-not-allowed' : ''}`}
                   placeholder="Введите имя пациента"
                 />
                 {errors.patientName && (
@@ -668,10 +789,10 @@ export const AppointmentDetailModal: React.FC<AppointmentDetailModalProps> = ({
                     setPatientPhone(e.target.value);
                     setErrors((prev) => ({ ...prev, patientPhone: '' }));
                   }}
-                  disabled={isCompleted || isCancelled}
+                  disabled={isCompleted || isLocked}
                   className={`w-full px-3 py-2 border rounded-sm bg-bg-white text-sm focus:outline-none focus:border-main-100 transition-all ${
                     errors.patientPhone ? 'border-red-500' : 'border-stroke'
-                  } ${(isCompleted || isCancelled) ? 'bg-bg-primary cursor-not-allowed' : ''}`}
+                  } ${(isCompleted || isLocked) ? 'bg-bg-primary cursor-not-allowed' : ''}`}
                   placeholder="+374 XX XXX XXX"
                 />
                 {errors.patientPhone && (
@@ -691,10 +812,10 @@ export const AppointmentDetailModal: React.FC<AppointmentDetailModalProps> = ({
                     setPatientEmail(e.target.value);
                     setErrors((prev) => ({ ...prev, patientEmail: '' }));
                   }}
-                  disabled={isCompleted || isCancelled}
+                  disabled={isCompleted || isLocked}
                   className={`w-full px-3 py-2 border rounded-sm bg-bg-white text-sm focus:outline-none focus:border-main-100 transition-all ${
                     errors.patientEmail ? 'border-red-500' : 'border-stroke'
-                  } ${(isCompleted || isCancelled) ? 'bg-bg-primary cursor-not-allowed' : ''}`}
+                  } ${(isCompleted || isLocked) ? 'bg-bg-primary cursor-not-allowed' : ''}`}
                   placeholder="email@example.com"
                 />
                 {errors.patientEmail && (
@@ -725,10 +846,10 @@ export const AppointmentDetailModal: React.FC<AppointmentDetailModalProps> = ({
                   setDoctorId(e.target.value);
                   setErrors((prev) => ({ ...prev, doctorId: '' }));
                 }}
-                disabled={isCompleted || isCancelled}
+                disabled={isCompleted || isLocked}
                 className={`w-full px-3 py-2 border rounded-sm bg-bg-white text-sm focus:outline-none focus:border-main-100 transition-all ${
                   errors.doctorId ? 'border-red-500' : 'border-stroke'
-                } ${(isCompleted || isCancelled) ? 'bg-bg-primary cursor-not-allowed' : ''}`}
+                } ${(isCompleted || isLocked) ? 'bg-bg-primary cursor-not-allowed' : ''}`}
               >
                 <option value="">Выберите врача</option>
                 {doctorsList.map((doctor) => (
@@ -744,19 +865,51 @@ export const AppointmentDetailModal: React.FC<AppointmentDetailModalProps> = ({
           </div>
         </Card>
 
+        {/* Кабинет / кресло / оборудование */}
+        {appointment.resources && appointment.resources.length > 0 && (
+          <Card padding="md">
+            <h4 className="text-sm font-semibold text-text-100 mb-3 flex items-center gap-2">
+              <Armchair className="w-4 h-4" />
+              Кабинет и оборудование
+            </h4>
+            <div className="flex flex-wrap gap-2">
+              {appointment.resources.map(item => (
+                <span key={item.resourceId} className="px-2 py-1 text-xs rounded-sm bg-main-10 text-main-100">
+                  {item.resource.name} · {RESOURCE_TYPE_LABELS[item.resource.type]}
+                </span>
+              ))}
+            </div>
+          </Card>
+        )}
+
         {/* Причина визита */}
         <Card padding="md">
           <h4 className="text-sm font-semibold text-text-100 mb-4 flex items-center gap-2">
             <FileText className="w-4 h-4" />
             Причина визита
           </h4>
+          <select
+            value={treatmentCategoryId}
+            onChange={(e) => handleCategoryChange(e.target.value)}
+            disabled={isCompleted || isLocked}
+            className={`w-full mb-3 px-3 py-2 border border-stroke rounded-sm bg-bg-white text-sm focus:outline-none focus:border-main-100 transition-all ${
+              (isCompleted || isLocked) ? 'bg-bg-primary cursor-not-allowed' : ''
+            }`}
+          >
+            <option value="">Без категории</option>
+            {categories.map(category => (
+              <option key={category.id} value={category.id}>
+                {category.name}
+              </option>
+            ))}
+          </select>
           <textarea
             value={reason}
             onChange={(e) => setReason(e.target.value)}
-            disabled={isCompleted || isCancelled}
+            disabled={isCompleted || isLocked}
             rows={3}
             className={`w-full px-3 py-2 border border-stroke rounded-sm bg-bg-white text-sm focus:outline-none focus:border-main-100 transition-all resize-none ${
-              (isCompleted || isCancelled) ? 'bg-bg-primary cursor-not-allowed' : ''
+              (isCompleted || isLocked) ? 'bg-bg-primary cursor-not-allowed' : ''
             }`}
             placeholder="Введите причину визита..."
           />
@@ -768,15 +921,26 @@ export const AppointmentDetailModal: React.FC<AppointmentDetailModalProps> = ({
           <textarea
             value={notes}
             onChange={(e) => setNotes(e.target.value)}
-            disabled={isCompleted || isCancelled}
+            disabled={isCompleted || isLocked}
             rows={3}
             className={`w-full px-3 py-2 border border-stroke rounded-sm bg-bg-white text-sm focus:outline-none focus:border-main-100 transition-all resize-none ${
-              (isCompleted || isCancelled) ? 'bg-bg-primary cursor-not-allowed' : ''
+              (isCompleted || isLocked) ? 'bg-bg-primary cursor-not-allowed' : ''
             }`}
             placeholder="Дополнительные заметки..."
           />
         </Card>
 
+        {/* Снимки и документы визита */}
+        {canEdit && (
+          <Card padding="md">
+            <h4 className="text-sm font-semibold text-text-100 mb-4 flex items-center gap-2">
+              <Paperclip className="w-4 h-4" />
+              Снимки и документы
+            </h4>
+            <PatientDocumentsSection patientId={appointment.patientId} appointmentId={appointment.id} />
+          </Card>
+        )}
+
         {/* Информация о регистрации (только для просмотра) */}
         {appointment.registeredAt && (
           <Card padding="md" className="bg-bg-primary">
@@ -791,7 +955,7 @@ export const AppointmentDetailModal: React.FC<AppointmentDetailModalProps> = ({
       </div>
       
       {/* Dropdown статуса через портал для отображения поверх всех элементов */}
-      {isStatusDropdownOpen && !isCompleted && !isCancelled && dropdownPosition && typeof document !== 'undefined' && createPortal(
+      {isStatusDropdownOpen && !isCompleted && !isLocked && dropdownPosition && typeof document !== 'undefined' && createPortal(
         <div
           ref={statusDropdownRef}
           className="fixed z-[9999] bg-bg-white border border-stroke rounded-sm shadow-xl"
@@ -0,0 +1,175 @@
+import React from 'react';
+import { Spinner } from '../common';
+import { AppointmentSeriesOccurrence, AppointmentSeriesPreview } from '../../types/api.types';
+
+/**
+ * Настройки повторения в форме записи
+ * endType: 'count' — заданное число приёмов, 'until' — до даты включительно
+ */
+export interface RecurrenceFormValue {
+  enabled: boolean;
+  intervalWeeks: string;
+  endType: 'count' | 'until';
+  count: string;
+  until: string; // YYYY-MM-DD
+}
+
+export const DEFAULT_RECURRENCE: RecurrenceFormValue = {
+  enabled: false,
+  intervalWeeks: '1',
+  endType: 'count',
+  count: '4',
+  until: '',
+};
+
+interface AppointmentRecurrenceFieldsProps {
+  value: RecurrenceFormValue;
+  onChange: (value: RecurrenceFormValue) => void;
+  preview?: AppointmentSeriesPreview | null;
+  isLoadingPreview?: boolean;
+  previewError?: string;
+}
+
+const INTERVAL_OPTIONS = [1, 2, 3, 4, 6, 8, 12];
+
+const CONFLICT_LABELS: Record<NonNullable<AppointmentSeriesOccurrence['conflict']>, string> = {
+  booked: 'врач занят',
+  exception: 'врач не работает',
+  resource: 'ресурс занят',
+};
+
+/**
+ * AppointmentRecurrenceFields Component
+ * Повторение приёма каждые N недель (до даты или N раз) с предпросмотром дат и конфликтов
+ */
+export const AppointmentRecurrenceFields: React.FC<AppointmentRecurrenceFieldsProps> = ({
+  value,
+  onChange,
+  preview,
+  isLoadingPreview = false,
+  previewError,
+}) => {
+  const update = (changes: Partial<RecurrenceFormValue>) => onChange({ ...value, ...changes });
+
+  const formatOccurrence = (occurrence: AppointmentSeriesOccurrence) =>
+    new Date(occurrence.appointmentDate).toLocaleString('ru-RU', {
+      timeZone: preview?.timezone,
+      weekday: 'short',
+      day: '2-digit',
+      month: 'long',
+      year: 'numeric',
+      hour: '2-digit',
+      minute: '2-digit',
+    });
+
+  const conflicts = preview?.occurrences.filter(occurrence => !occurrence.available) || [];
+  const inputClassName =
+    'px-3 py-2 border border-stroke rounded-sm bg-bg-white text-sm text-text-100 focus:outline-none focus:border-main-100 transition-smooth';
+
+  return (
+    <div className="space-y-3">
+      <label className="flex items-center gap-2 text-sm text-text-50 cursor-pointer">
+        <input
+          type="checkbox"
+          checked={value.enabled}
+          onChange={e => update({ enabled: e.target.checked })}
+          className="w-4 h-4 accent-main-100"
+        />
+        Повторять приём
+      </label>
+
+      {value.enabled && (
+        <div className="p-4 border border-stroke rounded-sm bg-bg-primary space-y-3">
+          <div className="flex flex-wrap items-end gap-3">
+            <div>
+              <label className="block text-xs text-text-50 mb-1">Периодичность</label>
+              <select
+                value={value.intervalWeeks}
+                onChange={e => update({ intervalWeeks: e.target.value })}
+                className={inputClassName}
+              >
+                {INTERVAL_OPTIONS.map(weeks => (
+                  <option key={weeks} value={weeks}>
+                    {weeks === 1 ? 'Каждую неделю' : `Каждые ${weeks} нед.`}
+                  </option>
+                ))}
+              </select>
+            </div>
+
+            <div>
+              <label className="block text-xs text-text-50 mb-1">Окончание</label>
+              <select
+                value={value.endType}
+                onChange={e => update({ endType: e.target.value as RecurrenceFormValue['endType'] })}
+                className={inputClassName}
+              >
+                <option value="count">После N приёмов</option>
+                <option value="until">До даты</option>
+              </select>
+            </div>
+
+            {value.endType === 'count' ? (
+              <div>
+                <label className="block text-xs text-text-50 mb-1">Количество приёмов</label>
+                <input
+                  type="number"
+                  min={2}
+                  max={52}
+                  value={value.count}
+                  onChange={e => update({ count: e.target.value })}
+                  className={`${inputClassName} w-24`}
+                />
+              </div>
+            ) : (
+              <div>
+                <label className="block text-xs text-text-50 mb-1">Последняя дата</label>
+                <input
+                  type="date"
+                  value={value.until}
+                  onChange={e => update({ until: e.target.value })}
+                  className={inputClassName}
+                />
+              </div>
+            )}
+          </div>
+
+          {/* Предпросмотр дат серии */}
+          {isLoadingPreview ? (
+            <div className="flex items-center gap-2 py-2">
+              <Spinner size="sm" />
+              <span className="text-xs text-text-10">Проверка дат серии...</span>
+            </div>
+          ) : previewError ? (
+            <p className="text-xs text-red-600">{previewError}</p>
+          ) : preview ? (
+            <div className="space-y-2">
+              <p className="text-xs text-text-50">
+                Приёмов в серии: {preview.occurrences.length - conflicts.length} из {preview.occurrences.length}
+                {conflicts.length > 0 && ' — даты с конфликтами будут пропущены'}
+              </p>
+              <div className="max-h-40 overflow-y-auto space-y-1">
+                {preview.occurrences.map(occurrence => (
+                  <div
+                    key={occurrence.index}
+                    className={`flex items-center justify-between px-3 py-1.5 text-xs rounded-sm border ${
+                      occurrence.available
+                        ? 'border-stroke bg-bg-white text-text-100'
+                        : 'border-red-200 bg-red-50 text-red-600 line-through'
+                    }`}
+                  >
+                    <span>
+                      {occurrence.index}. {formatOccurrence(occurrence)}
+                    </span>
+                    {occurrence.conflict && <span className="no-underline">{CONFLICT_LABELS[occurrence.conflict]}</span>}
+                  </div>
+                ))}
+              </div>
+            </div>
+          ) : (
+            <p className="text-xs text-text-10">Выберите дату и время первого приёма, чтобы увидеть даты серии</p>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
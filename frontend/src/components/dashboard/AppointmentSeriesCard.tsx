@@ -0,0 +1,97 @@
+import React from 'react';
+import { format } from 'date-fns';
+import { ru } from 'date-fns/locale';
+import { Repeat } from 'lucide-react';
+import { Card, Spinner } from '../common';
+import { Appointment, AppointmentSeriesScope } from '../../types/api.types';
+import { useAppointmentSeries } from '../../hooks/useAppointments';
+import { safeParseDate } from '../../utils/dateFormat';
+import { getStatusColor } from '../../utils/appointmentColors';
+
+interface AppointmentSeriesCardProps {
+  appointment: Appointment;
+  scope: AppointmentSeriesScope;
+  onScopeChange: (scope: AppointmentSeriesScope) => void;
+  canChangeScope?: boolean; // Выбор области доступен только для активных приёмов
+}
+
+const SCOPE_OPTIONS: { value: AppointmentSeriesScope; label: string }[] = [
+  { value: 'this', label: 'Только этот приём' },
+  { value: 'following', label: 'Этот и последующие' },
+  { value: 'all', label: 'Все предстоящие' },
+];
+
+/**
+ * AppointmentSeriesCard Component
+ * Связанные приёмы серии и выбор, к каким из них применить изменение или отмену
+ */
+export const AppointmentSeriesCard: React.FC<AppointmentSeriesCardProps> = ({
+  appointment,
+  scope,
+  onScopeChange,
+  canChangeScope = true,
+}) => {
+  const { data: series, isLoading } = useAppointmentSeries(appointment.seriesId);
+  const appointments = series?.appointments || [];
+
+  return (
+    <Card padding="md" className="bg-bg-primary">
+      <div className="space-y-3">
+        <div className="flex items-center gap-2 text-sm font-medium text-text-100">
+          <Repeat className="w-4 h-4 text-main-100" />
+          Серия приёмов
+          {series && (
+            <span className="text-xs font-normal text-text-10">
+              · каждые {series.intervalWeeks} нед. · приём {appointment.seriesIndex || '—'} из {appointments.length}
+            </span>
+          )}
+        </div>
+
+        {isLoading ? (
+          <div className="flex justify-center py-2">
+            <Spinner size="sm" />
+          </div>
+        ) : (
+          <div className="max-h-36 overflow-y-auto space-y-1">
+            {appointments.map(item => (
+              <div
+                key={item.id}
+                className={`flex items-center gap-2 px-3 py-1.5 text-xs rounded-sm border ${
+                  item.id === appointment.id ? 'border-main-100 bg-main-10' : 'border-stroke bg-bg-white'
+                }`}
+              >
+                <div className="w-2 h-2 rounded-full flex-shrink-0" style={{ backgroundColor: getStatusColor(item.status) }} />
+                <span className={item.status === 'cancelled' ? 'text-text-10 line-through' : 'text-text-100'}>
+                  {format(safeParseDate(item.appointmentDate), 'EEEEEE, d MMM yyyy, HH:mm', { locale: ru })}
+                </span>
+                {item.id === appointment.id && <span className="ml-auto text-main-100">текущий</span>}
+              </div>
+            ))}
+          </div>
+        )}
+
+        {canChangeScope && (
+          <div>
+            <p className="text-xs text-text-10 mb-2">Применить изменения и отмену к:</p>
+            <div className="flex flex-wrap gap-2">
+              {SCOPE_OPTIONS.map(option => (
+                <button
+                  key={option.value}
+                  type="button"
+                  onClick={() => onScopeChange(option.value)}
+                  className={`px-3 py-1.5 text-xs rounded-sm border transition-smooth ${
+                    scope === option.value
+                      ? 'bg-main-100 text-white border-main-100'
+                      : 'bg-bg-white text-text-50 border-stroke hover:border-main-100'
+                  }`}
+                >
+                  {option.label}
+                </button>
+              ))}
+            </div>
+          </div>
+        )}
+      </div>
+    </Card>
+  );
+};
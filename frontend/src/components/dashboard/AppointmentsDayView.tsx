@@ -0,0 +1,319 @@
+import React, { useMemo, useState } from 'react';
+import { format, addDays, subDays } from 'date-fns';
+import { ru } from 'date-fns/locale';
+import { Card, Spinner } from '../common';
+import { Appointment, DayBoardColumn } from '../../types/api.types';
+import { useDayBoard } from '../../hooks/useAppointments';
+import { useTreatmentCategories } from '../../hooks/useTreatmentCategories';
+import { getCategoryColor, getStatusColor } from '../../utils/appointmentColors';
+
+// Import icons
+import analyticsIcon from '../../assets/icons/analytics.svg';
+import calendarIcon from '../../assets/icons/calendar.svg';
+import clockIcon from '../../assets/icons/clock.svg';
+
+interface AppointmentsDayViewProps {
+  onAppointmentClick?: (appointment: Appointment) => void;
+  onSlotClick?: (doctorId: string, date: string, time: string) => void;
+  onViewChange?: (viewType: 'list' | 'monthly' | 'weekly' | 'daily') => void;
+  currentView?: 'list' | 'monthly' | 'weekly' | 'daily';
+  resourceId?: string; // Показывать только приёмы, занимающие этот ресурс
+  className?: string;
+}
+
+const SLOT_MINUTES = 30; // Шаг сетки
+const SLOT_HEIGHT = 40; // Высота ячейки (px)
+const DEFAULT_DAY_START = 8 * 60;
+const DEFAULT_DAY_END = 20 * 60;
+
+// Заштрихованная полоса буфера рядом с приёмом: кресло занято подготовкой или стерилизацией
+const BUFFER_CLASS_NAME =
+  'absolute left-1 right-1 rounded-sm border border-dashed border-stroke bg-[repeating-linear-gradient(45deg,transparent,transparent_3px,rgba(0,0,0,0.06)_3px,rgba(0,0,0,0.06)_6px)]';
+
+const toMinutes = (time: string): number => {
+  const [hours, minutes] = time.split(':').map(Number);
+  return hours * 60 + minutes;
+};
+
+const toTime = (minutes: number): string =>
+  `${String(Math.floor(minutes / 60)).padStart(2, '0')}:${String(minutes % 60).padStart(2, '0')}`;
+
+/**
+ * Нерабочая ли ячейка врача: вне рабочих часов, перерыв или выходной
+ */
+const isOffHours = (column: DayBoardColumn, slotStart: number): boolean => {
+  if (!column.isWorking || !column.workingHours) return true;
+
+  const slotEnd = slotStart + SLOT_MINUTES;
+  const workStart = toMinutes(column.workingHours.startTime);
+  const workEnd = toMinutes(column.workingHours.endTime);
+
+  if (slotStart < workStart || slotEnd > workEnd) return true;
+
+  return column.workingHours.breaks.some(
+    item => slotStart < toMinutes(item.endTime) && slotEnd > toMinutes(item.startTime)
+  );
+};
+
+/**
+ * AppointmentsDayView Component
+ * Вид «День» для регистратуры: колонка на каждого активного врача,
+ * рабочие часы из расписания врача (нерабочее время затемнено) и записанные приёмы.
+ * Клик по свободной ячейке открывает создание приёма с выбранными врачом и временем
+ */
+export const AppointmentsDayView: React.FC<AppointmentsDayViewProps> = ({
+  onAppointmentClick,
+  onSlotClick,
+  onViewChange,
+  currentView = 'daily',
+  resourceId,
+  className = '',
+}) => {
+  const [currentDate, setCurrentDate] = useState(new Date());
+  const dateKey = format(currentDate, 'yyyy-MM-dd');
+
+  const { data: board, isLoading } = useDayBoard(dateKey, true, resourceId);
+  const { data: categories = [] } = useTreatmentCategories();
+  const columns = board?.doctors || [];
+
+  // Границы сетки: от самого раннего начала до самого позднего окончания рабочего дня врачей
+  const { dayStart, dayEnd } = useMemo(() => {
+    const working = columns.filter(column => column.isWorking && column.workingHours);
+    if (working.length === 0) {
+      return { dayStart: DEFAULT_DAY_START, dayEnd: DEFAULT_DAY_END };
+    }
+
+    const starts = working.map(column => toMinutes(column.workingHours!.startTime));
+    const ends = working.map(column => toMinutes(column.workingHours!.endTime));
+    return {
+      dayStart: Math.floor(Math.min(...starts) / 60) * 60,
+      dayEnd: Math.ceil(Math.max(...ends) / 60) * 60,
+    };
+  }, [columns]);
+
+  const slots = useMemo(() => {
+    const result: number[] = [];
+    for (let minutes = dayStart; minutes < dayEnd; minutes += SLOT_MINUTES) {
+      result.push(minutes);
+    }
+    return result;
+  }, [dayStart, dayEnd]);
+
+  const viewButtons: { view: 'daily' | 'weekly' | 'monthly' | 'list'; label: string; title: string; icon: string }[] = [
+    { view: 'daily', label: 'День', title: 'День: все врачи', icon: clockIcon },
+    { view: 'weekly', label: 'Неделя', title: 'Недельный вид', icon: calendarIcon },
+    { view: 'monthly', label: 'Месяц', title: 'Месячный календарь', icon: calendarIcon },
+    { view: 'list', label: 'Таблица', title: 'Таблица', icon: analyticsIcon },
+  ];
+
+  return (
+    <div className={`space-y-4 ${className}`}>
+      {/* Day Header - Навигация */}
+      <Card padding="md">
+        <div className="flex items-center justify-between">
+          {/* Левая часть - стрелки навигации */}
+          <div className="flex items-center gap-2">
+            <button
+              onClick={() => setCurrentDate(subDays(currentDate, 1))}
+              className="p-2 hover:bg-bg-primary rounded-sm transition-smooth text-text-50 hover:text-main-100"
+              type="button"
+              title="Предыдущий день"
+            >
+              <svg className="w-5 h-5" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M15 19l-7-7 7-7" />
+              </svg>
+            </button>
+            <button
+              onClick={() => setCurrentDate(new Date())}
+              className="px-3 py-1.5 text-sm font-normal text-text-50 hover:text-main-100 hover:bg-bg-primary rounded-sm transition-smooth"
+              type="button"
+            >
+              Сегодня
+            </button>
+            <button
+              onClick={() => setCurrentDate(addDays(currentDate, 1))}
+              className="p-2 hover:bg-bg-primary rounded-sm transition-smooth text-text-50 hover:text-main-100"
+              type="button"
+              title="Следующий день"
+            >
+              <svg className="w-5 h-5" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M9 5l7 7-7 7" />
+              </svg>
+            </button>
+          </div>
+
+          {/* Центральная часть - переключение видов */}
+          {onViewChange && (
+            <div className="flex items-center border border-stroke rounded-sm overflow-hidden" style={{ height: '44px', width: '560px' }}>
+              {viewButtons.map(button => (
+                <button
+                  key={button.view}
+                  onClick={(e) => {
+                    e.preventDefault();
+                    e.stopPropagation();
+                    onViewChange(button.view);
+                  }}
+                  className={`group text-base font-medium transition-colors duration-150 flex-shrink-0 flex items-center justify-center ${
+                    currentView === button.view
+                      ? 'bg-main-100 text-white'
+                      : 'bg-bg-white text-text-50 hover:bg-bg-primary'
+                  }`}
+                  style={{ width: '140px', height: '44px' }}
+                  title={button.title}
+                  type="button"
+                >
+                  <span className="flex items-center gap-2" style={{ pointerEvents: 'none' }}>
+                    <img
+                      src={button.icon}
+                      alt={button.label}
+                      className={`w-4 h-4 flex-shrink-0 transition-smooth ${
+                        currentView === button.view
+                          ? 'brightness-0 invert'
+                          : 'group-hover:brightness-0 group-hover:invert'
+                      }`}
+                    />
+                    <span style={{ whiteSpace: 'nowrap' }}>{button.label}</span>
+                  </span>
+                </button>
+              ))}
+            </div>
+          )}
+
+          {/* Правая часть - дата */}
+          <div className="flex items-center gap-2">
+            <input
+              type="date"
+              value={dateKey}
+              onChange={e => e.target.value && setCurrentDate(new Date(`${e.target.value}T00:00:00`))}
+              className="px-3 py-1.5 border border-stroke rounded-sm bg-bg-white text-sm text-text-100 focus:outline-none focus:border-main-100 transition-smooth"
+            />
+            <h3 className="text-base font-semibold text-text-100 capitalize">
+              {format(currentDate, 'EEEE', { locale: ru })}
+            </h3>
+          </div>
+        </div>
+      </Card>
+
+      {/* Сетка дня: время × врачи */}
+      <Card padding="sm">
+        {isLoading ? (
+          <div className="flex justify-center items-center py-12">
+            <Spinner size="lg" />
+          </div>
+        ) : columns.length === 0 ? (
+          <div className="text-center py-12 text-text-10 text-sm">Нет активных врачей</div>
+        ) : (
+          <div className="overflow-x-auto">
+            <div className="flex min-w-max">
+              {/* Шкала времени */}
+              <div className="w-14 flex-shrink-0">
+                <div className="h-14 border-b border-stroke" />
+                {slots.map(minutes => (
+                  <div
+                    key={minutes}
+                    className="text-[10px] text-text-10 pr-2 text-right border-b border-transparent"
+                    style={{ height: SLOT_HEIGHT }}
+                  >
+                    {minutes % 60 === 0 ? toTime(minutes) : ''}
+                  </div>
+                ))}
+              </div>
+
+              {/* Колонки врачей */}
+              {columns.map(column => (
+                <div key={column.doctor.id} className="w-48 flex-shrink-0 border-l border-stroke">
+                  {/* Заголовок колонки */}
+                  <div className="h-14 px-2 py-1.5 border-b border-stroke bg-bg-primary">
+                    <div className="text-xs font-semibold text-text-100 truncate" title={column.doctor.name}>
+                      {column.doctor.name}
+                    </div>
+                    <div className="text-[10px] text-text-50 truncate">
+                      {column.isWorking && column.workingHours
+                        ? `${column.workingHours.startTime}–${column.workingHours.endTime}`
+                        : column.reason || 'Выходной'}
+                    </div>
+                    {column.doctor.specialization && (
+                      <div className="text-[10px] text-text-10 truncate">{column.doctor.specialization}</div>
+                    )}
+                  </div>
+
+                  <div className="relative">
+                    {/* Ячейки сетки */}
+                    {slots.map(minutes => {
+                      const isOff = isOffHours(column, minutes);
+                      return (
+                        <div
+                          key={minutes}
+                          className={`border-b ${minutes % 60 === 0 ? 'border-stroke' : 'border-stroke/40'} ${
+                            isOff
+                              ? 'bg-bg-primary bg-[repeating-linear-gradient(45deg,transparent,transparent_4px,rgba(0,0,0,0.03)_4px,rgba(0,0,0,0.03)_8px)] cursor-not-allowed'
+                              : 'bg-bg-white hover:bg-main-10 cursor-pointer'
+                          }`}
+                          style={{ height: SLOT_HEIGHT }}
+                          title={isOff ? 'Нерабочее время' : `Записать на ${toTime(minutes)}`}
+                          onClick={isOff ? undefined : () => onSlotClick?.(column.doctor.id, dateKey, toTime(minutes))}
+                        />
+                      );
+                    })}
+
+                    {/* Приёмы */}
+                    {column.appointments.map(appointment => {
+                      const start = toMinutes(appointment.startTime);
+                      const top = ((start - dayStart) / SLOT_MINUTES) * SLOT_HEIGHT;
+                      const height = Math.max((appointment.duration / SLOT_MINUTES) * SLOT_HEIGHT - 2, 18);
+                      const bufferBefore = appointment.bufferBefore || 0;
+                      const bufferAfter = appointment.bufferAfter || 0;
+
+                      return (
+                        <React.Fragment key={appointment.id}>
+                          {/* Буферы: подготовка до и уборка / стерилизация после приёма */}
+                          {bufferBefore > 0 && (
+                            <div
+                              className={BUFFER_CLASS_NAME}
+                              style={{
+                                top: Math.max(top - (bufferBefore / SLOT_MINUTES) * SLOT_HEIGHT, 0),
+                                height: (bufferBefore / SLOT_MINUTES) * SLOT_HEIGHT,
+                              }}
+                              title={`Подготовка: ${bufferBefore} мин`}
+                            />
+                          )}
+                          {bufferAfter > 0 && (
+                            <div
+                              className={BUFFER_CLASS_NAME}
+                              style={{
+                                top: Math.max(top + (appointment.duration / SLOT_MINUTES) * SLOT_HEIGHT, 0),
+                                height: (bufferAfter / SLOT_MINUTES) * SLOT_HEIGHT,
+                              }}
+                              title={`Уборка и стерилизация: ${bufferAfter} мин`}
+                            />
+                          )}
+                          <button
+                            type="button"
+                            onClick={() => onAppointmentClick?.(appointment)}
+                            className="absolute left-1 right-1 px-1.5 py-1 rounded-sm text-left text-[10px] text-white overflow-hidden hover:opacity-90 hover:shadow-md transition-all duration-200"
+                            style={{
+                              top: Math.max(top, 0),
+                              height,
+                              backgroundColor: getCategoryColor(appointment, categories),
+                              borderLeft: `4px solid ${getStatusColor(appointment.status)}`,
+                            }}
+                            title={`${appointment.startTime} · ${appointment.patient?.name || 'Пациент'} · ${appointment.duration} мин`}
+                          >
+                            <div className="font-semibold truncate">{appointment.patient?.name || 'Пациент'}</div>
+                            <div className="text-white/80">
+                              {appointment.startTime}–{toTime(start + appointment.duration)}
+                            </div>
+                          </button>
+                        </React.Fragment>
+                      );
+                    })}
+                  </div>
+                </div>
+              ))}
+            </div>
+          </div>
+        )}
+      </Card>
+    </div>
+  );
+};
@@ -2,8 +2,8 @@ import React, { useState, useMemo } from 'react';
 import { format, startOfMonth, endOfMonth, eachDayOfInterval, isSameMonth, isSameDay, addMonths, subMonths, startOfWeek, endOfWeek } from 'date-fns';
 import { ru } from 'date-fns/locale';
 import { Card } from '../common';
-import { Appointment } from '../../types/api.types';
-import { formatAppointmentDateTime, safeParseDate } from '../../utils/dateFormat';
+import { Appointment, RescheduleAppointmentRequest } from '../../types/api.types';
+import { formatAppointmentDateTime, formatAppointmentTime, toClinicDateKey, zonedTimeToUtc } from '../../utils/dateFormat';
 import { DayAppointmentsModal } from './DayAppointmentsModal';
 import { useAuthStore } from '../../store/useAuthStore';
 import { useTreatmentCategories } from '../../hooks/useTreatmentCategories';
@@ -21,20 +21,28 @@ interface AppointmentsMonthlyCalendarProps {
   onAppointmentClick?: (appointment: Appointment) => void;
   onDateClick?: (date: Date) => void;
   onViewChange?: (viewType: 'list' | 'monthly' | 'weekly') => void;
+  onDailyViewClick?: () => void; // Переход на вид «День» по всем врачам (кнопка показывается, если передан)
+  onReschedule?: (appointment: Appointment, changes: RescheduleAppointmentRequest) => void;
   currentView?: 'list' | 'monthly' | 'weekly';
   className?: string;
 }
 
+// Перетаскивать можно только ещё не начавшиеся приёмы
+const RESCHEDULABLE_STATUSES = ['pending', 'confirmed'];
+
 /**
  * AppointmentsMonthlyCalendar Component
  * Месячный календарь с отображением приёмов (стиль Bitrix)
  * С навигацией по месяцам через стрелки и выбор месяца/года
+ * Приём можно перетащить на другой день — время начала сохраняется
  */
 export const AppointmentsMonthlyCalendar: React.FC<AppointmentsMonthlyCalendarProps> = ({
   appointments,
   onAppointmentClick,
   onDateClick,
   onViewChange,
+  onDailyViewClick,
+  onReschedule,
   currentView = 'monthly',
   className = '',
 }) => {
@@ -44,6 +52,9 @@ export const AppointmentsMonthlyCalendar: React.FC<AppointmentsMonthlyCalendarPr
   const [showYearPicker, setShowYearPicker] = useState(false);
   // Состояние для модального окна с приёмами дня
   const [selectedDayForModal, setSelectedDayForModal] = useState<Date | null>(null);
+  // Перетаскивание приёма между днями
+  const [draggedId, setDraggedId] = useState<string | null>(null);
+  const [dropTargetKey, setDropTargetKey] = useState<string | null>(null);
   
   // Загружаем категории для получения цветов
   const { data: categories = [] } = useTreatmentCategories();
@@ -53,8 +64,8 @@ export const AppointmentsMonthlyCalendar: React.FC<AppointmentsMonthlyCalendarPr
     const grouped: Record<string, Appointment[]> = {};
     appointments.forEach(appointment => {
       try {
-        const appointmentDate = safeParseDate(appointment.appointmentDate);
-        const dateKey = format(appointmentDate, 'yyyy-MM-dd');
+        // День приёма — по часам клиники, а не браузера
+        const dateKey = toClinicDateKey(appointment.appointmentDate, appointment.clinic?.settings?.timezone);
         if (!grouped[dateKey]) {
           grouped[dateKey] = [];
         }
@@ -143,6 +154,12 @@ export const AppointmentsMonthlyCalendar: React.FC<AppointmentsMonthlyCalendarPr
         return 'bg-green-500';
       case 'cancelled':
         return 'bg-gray-400';
+      case 'arrived':
+        return 'bg-sky-500';
+      case 'in_progress':
+        return 'bg-purple-500';
+      case 'no_show':
+        return 'bg-red-400';
       default:
         return 'bg-gray-300';
     }
@@ -159,6 +176,12 @@ export const AppointmentsMonthlyCalendar: React.FC<AppointmentsMonthlyCalendarPr
         return checkIcon;
       case 'cancelled':
         return xIcon;
+      case 'arrived':
+        return checkIcon;
+      case 'in_progress':
+        return clockIcon;
+      case 'no_show':
+        return xIcon;
       default:
         return clockIcon;
     }
@@ -175,11 +198,38 @@ export const AppointmentsMonthlyCalendar: React.FC<AppointmentsMonthlyCalendarPr
         return 'Завершен';
       case 'cancelled':
         return 'Отменен';
+      case 'arrived':
+        return 'Пришёл';
+      case 'in_progress':
+        return 'На приёме';
+      case 'no_show':
+        return 'Не пришёл';
       default:
         return status;
     }
   };
 
+  const canReschedule = (appointment: Appointment) =>
+    !!onReschedule && RESCHEDULABLE_STATUSES.includes(appointment.status);
+
+  // Перенос приёма на другой день с сохранением времени начала
+  const handleDropOnDay = (e: React.DragEvent, day: Date) => {
+    e.preventDefault();
+    const appointment = appointments.find(item => item.id === e.dataTransfer.getData('text/plain'));
+    setDraggedId(null);
+    setDropTargetKey(null);
+
+    if (!appointment || !canReschedule(appointment)) return;
+
+    const timeZone = appointment.clinic?.settings?.timezone;
+    const dayKey = format(day, 'yyyy-MM-dd');
+    if (toClinicDateKey(appointment.appointmentDate, timeZone) === dayKey) return;
+
+    const time = formatAppointmentTime(appointment.appointmentDate, 'short', timeZone);
+    const newDate = zonedTimeToUtc(dayKey, time, timeZone);
+    onReschedule?.(appointment, { appointmentDate: newDate.toISOString() });
+  };
+
   return (
     <div className={`space-y-4 ${className}`}>
       {/* Calendar Header - Навигация как в Bitrix */}
@@ -222,12 +272,51 @@ export const AppointmentsMonthlyCalendar: React.FC<AppointmentsMonthlyCalendarPr
               className="flex items-center border border-stroke rounded-sm overflow-hidden" 
               style={{ 
                 height: '44px',
-                width: '420px',
+                width: onDailyViewClick ? '560px' : '420px',
                 position: 'relative',
                 boxSizing: 'border-box',
                 gap: '0'
               }}
             >
+              {onDailyViewClick && (
+                <button
+                  onClick={(e) => {
+                    e.preventDefault();
+                    e.stopPropagation();
+                    onDailyViewClick();
+                  }}
+                  onMouseDown={(e) => {
+                    e.preventDefault();
+                    e.stopPropagation();
+                  }}
+                  className="group text-base font-medium transition-colors duration-150 flex-shrink-0 relative bg-bg-white text-text-50 hover:bg-bg-primary"
+                  style={{
+                    width: '140px',
+                    height: '44px',
+                    padding: '0',
+                    border: 'none',
+                    outline: 'none',
+                    boxSizing: 'border-box',
+                    display: 'flex',
+                    alignItems: 'center',
+                    justifyContent: 'center',
+                    position: 'relative',
+                    zIndex: 1
+                  }}
+                  title="День: все врачи"
+                  type="button"
+                >
+                  <span className="flex items-center gap-2" style={{ pointerEvents: 'none' }}>
+                    <img 
+                      src={clockIcon} 
+                      alt="День" 
+                      className="w-4 h-4 flex-shrink-0 transition-smooth group-hover:brightness-0 group-hover:invert" 
+                      style={{ display: 'block' }}
+                    />
+                    <span style={{ whiteSpace: 'nowrap' }}>День</span>
+                  </span>
+                </button>
+              )}
               <button
                 onClick={(e) => {
                   e.preventDefault();
@@ -458,10 +547,17 @@ export const AppointmentsMonthlyCalendar: React.FC<AppointmentsMonthlyCalendarPr
               const isToday = isSameDay(day, new Date());
               const dayAppointments = getAppointmentsForDate(day);
               const appointmentCount = dayAppointments.length;
+              const dayKey = format(day, 'yyyy-MM-dd');
 
               return (
                 <div
                   key={day.toISOString()}
+                  onDragOver={draggedId && isCurrentMonth ? (e) => {
+                    e.preventDefault();
+                    e.dataTransfer.dropEffect = 'move';
+                    if (dropTargetKey !== dayKey) setDropTargetKey(dayKey);
+                  } : undefined}
+                  onDrop={draggedId && isCurrentMonth ? (e) => handleDropOnDay(e, day) : undefined}
                   onClick={(e) => {
                     // Если клик был на ячейку (не на приём или кнопку), открываем модальное окно создания приёма
                     const target = e.target as HTMLElement;
@@ -478,6 +574,7 @@ export const AppointmentsMonthlyCalendar: React.FC<AppointmentsMonthlyCalendarPr
                     min-h-[100px] border-r border-b border-stroke
                     ${!isCurrentMonth ? 'bg-bg-primary text-text-10' : 'bg-bg-white text-text-100'}
                     ${index % 7 === 6 ? 'border-r-0' : ''}
+                    ${draggedId && dropTargetKey === dayKey ? 'bg-main-10' : ''}
                     transition-smooth hover:bg-main-10/30 cursor-pointer
                   `}
                 >
@@ -514,8 +611,11 @@ export const AppointmentsMonthlyCalendar: React.FC<AppointmentsMonthlyCalendarPr
                             ? (user?.name || 'Я')
                             : (appointment.patient?.name || 'Пациент');
                           const patientInitial = patientName.charAt(0).toUpperCase();
-                          const appointmentDate = safeParseDate(appointment.appointmentDate);
-                          const appointmentTime = format(appointmentDate, 'HH:mm');
+                          const appointmentTime = formatAppointmentTime(
+                            appointment.appointmentDate,
+                            'short',
+                            appointment.clinic?.settings?.timezone
+                          );
                           
                           // Получаем цвета для карточки
                           const categoryColor = getCategoryColor(appointment, categories);
@@ -525,11 +625,23 @@ export const AppointmentsMonthlyCalendar: React.FC<AppointmentsMonthlyCalendarPr
                             <button
                               key={appointment.id}
                               data-appointment-card
+                              draggable={canReschedule(appointment)}
+                              onDragStart={(e) => {
+                                e.dataTransfer.setData('text/plain', appointment.id);
+                                e.dataTransfer.effectAllowed = 'move';
+                                setDraggedId(appointment.id);
+                              }}
+                              onDragEnd={() => {
+                                setDraggedId(null);
+                                setDropTargetKey(null);
+                              }}
                               onClick={(e) => {
                                 e.stopPropagation();
                                 onAppointmentClick?.(appointment);
                               }}
-                              className="w-full text-left px-2 py-1.5 rounded-sm text-xs text-white hover:opacity-90 hover:shadow-md transition-all duration-200"
+                              className={`w-full text-left px-2 py-1.5 rounded-sm text-xs text-white hover:opacity-90 hover:shadow-md transition-all duration-200 ${
+                                canReschedule(appointment) ? 'cursor-grab' : ''
+                              } ${draggedId === appointment.id ? 'opacity-50' : ''}`}
                               style={{
                                 backgroundColor: categoryColor,
                                 borderLeft: `4px solid ${statusColorValue}`,
@@ -1,9 +1,9 @@
-import React, { useState, useMemo } from 'react';
+import React, { useState, useMemo, useEffect, useRef } from 'react';
 import { format, startOfWeek, endOfWeek, eachDayOfInterval, addWeeks, subWeeks, isSameDay } from 'date-fns';
 import { ru } from 'date-fns/locale';
 import { Card } from '../common';
-import { Appointment } from '../../types/api.types';
-import { formatAppointmentTime, safeParseDate } from '../../utils/dateFormat';
+import { Appointment, RescheduleAppointmentRequest } from '../../types/api.types';
+import { formatAppointmentTime, safeParseDate, toClinicDateKey, zonedTimeToUtc } from '../../utils/dateFormat';
 import { useAuthStore } from '../../store/useAuthStore';
 import { useTreatmentCategories } from '../../hooks/useTreatmentCategories';
 import { getCategoryColor, getStatusColor } from '../../utils/appointmentColors';
@@ -21,25 +21,44 @@ interface AppointmentsWeeklyViewProps {
   onAppointmentClick?: (appointment: Appointment) => void;
   onTimeSlotClick?: (date: Date, time: string) => void;
   onViewChange?: (viewType: 'list' | 'monthly' | 'weekly') => void;
+  onDailyViewClick?: () => void; // Переход на вид «День» по всем врачам (кнопка показывается, если передан)
+  onReschedule?: (appointment: Appointment, changes: RescheduleAppointmentRequest) => void;
   currentView?: 'list' | 'monthly' | 'weekly';
   className?: string;
 }
 
+// Перетаскивать и растягивать можно только ещё не начавшиеся приёмы
+const RESCHEDULABLE_STATUSES = ['pending', 'confirmed'];
+
+// Изменение длительности: шаг 15 минут на каждые 12px движения мыши
+const RESIZE_STEP_MINUTES = 15;
+const RESIZE_STEP_PX = 12;
+const MIN_DURATION = 15;
+const MAX_DURATION = 240;
+
 /**
  * AppointmentsWeeklyView Component - Kanban Style
  * Недельный вид в стиле Kanban-доски
  * Показывает приёмы по дням недели в виде карточек
+ * Карточку можно перетащить на другой день (время сохраняется) или на другую карточку
+ * (приём встанет сразу после неё), а нижний край карточки — потянуть, чтобы изменить длительность
  */
 export const AppointmentsWeeklyView: React.FC<AppointmentsWeeklyViewProps> = ({
   appointments,
   onAppointmentClick,
   onTimeSlotClick,
   onViewChange,
+  onDailyViewClick,
+  onReschedule,
   currentView = 'weekly',
   className = '',
 }) => {
   const user = useAuthStore(state => state.user);
   const [currentWeek, setCurrentWeek] = useState(new Date());
+  const [draggedId, setDraggedId] = useState<string | null>(null);
+  const [dropTarget, setDropTarget] = useState<string | null>(null); // dateKey дня или ID карточки
+  const [resizing, setResizing] = useState<{ appointment: Appointment; startY: number; duration: number } | null>(null);
+  const justResizedRef = useRef(false);
   
   // Загружаем категории для получения цветов
   const { data: categories = [] } = useTreatmentCategories();
@@ -55,9 +74,9 @@ export const AppointmentsWeeklyView: React.FC<AppointmentsWeeklyViewProps> = ({
     
     appointments.forEach(appointment => {
       try {
-        const appointmentDate = safeParseDate(appointment.appointmentDate);
-        const dateKey = format(appointmentDate, 'yyyy-MM-dd');
-        
+        // День приёма — по часам клиники, а не браузера
+        const dateKey = toClinicDateKey(appointment.appointmentDate, appointment.clinic?.settings?.timezone);
+
         if (!grouped[dateKey]) {
           grouped[dateKey] = [];
         }
@@ -90,6 +109,80 @@ export const AppointmentsWeeklyView: React.FC<AppointmentsWeeklyViewProps> = ({
     return appointmentsByDay[dateKey] || [];
   };
 
+  const canReschedule = (appointment: Appointment) =>
+    !!onReschedule && RESCHEDULABLE_STATUSES.includes(appointment.status);
+
+  const resetDrag = () => {
+    setDraggedId(null);
+    setDropTarget(null);
+  };
+
+  const moveAppointment = (appointmentId: string, newDate: Date) => {
+    const appointment = appointments.find(item => item.id === appointmentId);
+    resetDrag();
+
+    if (!appointment || !canReschedule(appointment)) return;
+    if (newDate.getTime() === safeParseDate(appointment.appointmentDate).getTime()) return;
+
+    onReschedule?.(appointment, { appointmentDate: newDate.toISOString() });
+  };
+
+  // Перенос на другой день — время начала сохраняется
+  const handleDropOnDay = (e: React.DragEvent, day: Date) => {
+    e.preventDefault();
+    const appointmentId = e.dataTransfer.getData('text/plain');
+    const appointment = appointments.find(item => item.id === appointmentId);
+    if (!appointment) return resetDrag();
+
+    const timeZone = appointment.clinic?.settings?.timezone;
+    const time = formatAppointmentTime(appointment.appointmentDate, 'short', timeZone);
+    moveAppointment(appointmentId, zonedTimeToUtc(format(day, 'yyyy-MM-dd'), time, timeZone));
+  };
+
+  // Перенос на карточку — приём встаёт сразу после окончания целевого приёма
+  const handleDropOnAppointment = (e: React.DragEvent, target: Appointment) => {
+    e.preventDefault();
+    e.stopPropagation();
+    const appointmentId = e.dataTransfer.getData('text/plain');
+    if (!appointmentId || appointmentId === target.id) return resetDrag();
+
+    const targetStart = safeParseDate(target.appointmentDate);
+    moveAppointment(appointmentId, new Date(targetStart.getTime() + target.duration * 60000));
+  };
+
+  // Изменение длительности: отслеживаем мышь, пока зажат нижний край карточки
+  useEffect(() => {
+    if (!resizing) return;
+
+    const handleMouseMove = (e: MouseEvent) => {
+      const steps = Math.round((e.clientY - resizing.startY) / RESIZE_STEP_PX);
+      const duration = Math.min(
+        MAX_DURATION,
+        Math.max(MIN_DURATION, resizing.appointment.duration + steps * RESIZE_STEP_MINUTES)
+      );
+      setResizing(prev => (prev && prev.duration !== duration ? { ...prev, duration } : prev));
+    };
+
+    const handleMouseUp = () => {
+      // Следующий за mouseup click не должен открывать детали приёма
+      justResizedRef.current = true;
+      setTimeout(() => {
+        justResizedRef.current = false;
+      }, 0);
+      if (resizing.duration !== resizing.appointment.duration) {
+        onReschedule?.(resizing.appointment, { duration: resizing.duration });
+      }
+      setResizing(null);
+    };
+
+    window.addEventListener('mousemove', handleMouseMove);
+    window.addEventListener('mouseup', handleMouseUp);
+    return () => {
+      window.removeEventListener('mousemove', handleMouseMove);
+      window.removeEventListener('mouseup', handleMouseUp);
+    };
+  }, [resizing, onReschedule]);
+
   // Навигация по неделям
   const goToPreviousWeek = () => {
     setCurrentWeek(subWeeks(currentWeek, 1));
@@ -126,6 +219,12 @@ export const AppointmentsWeeklyView: React.FC<AppointmentsWeeklyViewProps> = ({
         return checkIcon;
       case 'cancelled':
         return xIcon;
+      case 'arrived':
+        return checkIcon;
+      case 'in_progress':
+        return clockIcon;
+      case 'no_show':
+        return xIcon;
       default:
         return clockIcon;
     }
@@ -142,6 +241,12 @@ export const AppointmentsWeeklyView: React.FC<AppointmentsWeeklyViewProps> = ({
         return 'Завершено';
       case 'cancelled':
         return 'Отменено';
+      case 'arrived':
+        return 'Пришёл';
+      case 'in_progress':
+        return 'На приёме';
+      case 'no_show':
+        return 'Не пришёл';
       default:
         return status;
     }
@@ -189,12 +294,51 @@ export const AppointmentsWeeklyView: React.FC<AppointmentsWeeklyViewProps> = ({
               className="flex items-center border border-stroke rounded-sm overflow-hidden"
               style={{
                 height: '44px',
-                width: '420px',
+                width: onDailyViewClick ? '560px' : '420px',
                 position: 'relative',
                 boxSizing: 'border-box',
                 gap: '0'
               }}
             >
+              {onDailyViewClick && (
+                <button
+                  onClick={(e) => {
+                    e.preventDefault();
+                    e.stopPropagation();
+                    onDailyViewClick();
+                  }}
+                  onMouseDown={(e) => {
+                    e.preventDefault();
+                    e.stopPropagation();
+                  }}
+                  className="group text-base font-medium transition-colors duration-150 flex-shrink-0 relative bg-bg-white text-text-50 hover:bg-bg-primary"
+                  style={{
+                    width: '140px',
+                    height: '44px',
+                    padding: '0',
+                    border: 'none',
+                    outline: 'none',
+                    boxSizing: 'border-box',
+                    display: 'flex',
+                    alignItems: 'center',
+                    justifyContent: 'center',
+                    position: 'relative',
+                    zIndex: 1
+                  }}
+                  title="День: все врачи"
+                  type="button"
+                >
+                  <span className="flex items-center gap-2" style={{ pointerEvents: 'none' }}>
+                    <img 
+                      src={clockIcon} 
+                      alt="День" 
+                      className="w-4 h-4 flex-shrink-0 transition-smooth group-hover:brightness-0 group-hover:invert" 
+                      style={{ display: 'block' }}
+                    />
+                    <span style={{ whiteSpace: 'nowrap' }}>День</span>
+                  </span>
+                </button>
+              )}
               <button
                 onClick={(e) => {
                   e.preventDefault();
@@ -352,6 +496,7 @@ export const AppointmentsWeeklyView: React.FC<AppointmentsWeeklyViewProps> = ({
             const dayName = dayNameFull.charAt(0).toUpperCase() + dayNameFull.slice(1); // С заглавной буквы
             const dayDate = format(day, 'd MMM', { locale: ru }); // Дата
             const dayCount = dayAppointments.length;
+            const dayKey = format(day, 'yyyy-MM-dd');
 
             return (
               <div
@@ -370,7 +515,17 @@ export const AppointmentsWeeklyView: React.FC<AppointmentsWeeklyViewProps> = ({
                 </div>
 
                 {/* Тело колонки с карточками */}
-                <div className="bg-bg-primary border-x border-b border-stroke rounded-b-lg p-2 min-h-[500px] max-h-[700px] overflow-y-auto">
+                <div
+                  className={`bg-bg-primary border-x border-b border-stroke rounded-b-lg p-2 min-h-[500px] max-h-[700px] overflow-y-auto transition-colors ${
+                    draggedId && dropTarget === dayKey ? 'bg-[#00a79d]/10' : ''
+                  }`}
+                  onDragOver={draggedId ? (e) => {
+                    e.preventDefault();
+                    e.dataTransfer.dropEffect = 'move';
+                    if (dropTarget !== dayKey) setDropTarget(dayKey);
+                  } : undefined}
+                  onDrop={draggedId ? (e) => handleDropOnDay(e, day) : undefined}
+                >
                   {dayAppointments.length === 0 ? (
                     <div className="text-center py-6 text-text-10 text-xs">
                       Нет приёмов
@@ -378,8 +533,11 @@ export const AppointmentsWeeklyView: React.FC<AppointmentsWeeklyViewProps> = ({
                   ) : (
                     <div className="space-y-1.5">
                       {dayAppointments.map((appointment) => {
-                        const appointmentDate = safeParseDate(appointment.appointmentDate);
-                        const appointmentTime = formatAppointmentTime(appointmentDate);
+                        const appointmentTime = formatAppointmentTime(
+                          appointment.appointmentDate,
+                          'short',
+                          appointment.clinic?.settings?.timezone
+                        );
 
                         // Получаем цвета для карточки
                         const categoryColor = getCategoryColor(appointment, categories);
@@ -391,16 +549,38 @@ export const AppointmentsWeeklyView: React.FC<AppointmentsWeeklyViewProps> = ({
                           ? (user?.name || 'Я')
                           : (appointment.patient?.name || 'Пациент');
                         const patientInitial = patientName.charAt(0).toUpperCase();
+                        const isDraggable = canReschedule(appointment);
+                        const isResizing = resizing?.appointment.id === appointment.id;
                         
                         return (
                           <div
                             key={appointment.id}
-                            className="w-full text-left px-2 py-1.5 rounded-sm text-xs text-white hover:opacity-90 hover:shadow-md transition-all duration-200 cursor-pointer"
+                            className={`relative w-full text-left px-2 py-1.5 rounded-sm text-xs text-white hover:opacity-90 hover:shadow-md transition-all duration-200 ${
+                              isDraggable ? 'cursor-grab' : 'cursor-pointer'
+                            } ${draggedId === appointment.id ? 'opacity-50' : ''} ${
+                              draggedId && draggedId !== appointment.id && dropTarget === appointment.id ? 'ring-2 ring-white ring-offset-1 ring-offset-[#00a79d]' : ''
+                            }`}
                             style={{
                               backgroundColor: categoryColor,
                               borderLeft: `4px solid ${statusColorValue}`,
                             }}
-                            onClick={() => onAppointmentClick?.(appointment)}
+                            draggable={isDraggable && !resizing}
+                            onDragStart={(e) => {
+                              e.dataTransfer.setData('text/plain', appointment.id);
+                              e.dataTransfer.effectAllowed = 'move';
+                              setDraggedId(appointment.id);
+                            }}
+                            onDragEnd={resetDrag}
+                            onDragOver={draggedId ? (e) => {
+                              e.preventDefault();
+                              e.stopPropagation();
+                              if (dropTarget !== appointment.id) setDropTarget(appointment.id);
+                            } : undefined}
+                            onDrop={draggedId ? (e) => handleDropOnAppointment(e, appointment) : undefined}
+                            onClick={() => {
+                              if (justResizedRef.current) return;
+                              onAppointmentClick?.(appointment);
+                            }}
                           >
                             <div className="flex items-center gap-2">
                               {/* Avatar Circle */}
@@ -414,6 +594,10 @@ export const AppointmentsWeeklyView: React.FC<AppointmentsWeeklyViewProps> = ({
                                 </div>
                                 <div className="text-[10px] text-white/80 font-medium mt-0.5">
                                   {appointmentTime}
+                                  {isResizing && ` · ${resizing.duration} мин`}
+                                  {!isResizing && !!appointment.bufferAfter && (
+                                    <span title="Уборка и стерилизация после приёма"> · +{appointment.bufferAfter} мин</span>
+                                  )}
                                 </div>
                                 {/* Статус */}
                                 <div className="mt-1 flex items-center gap-1">
@@ -424,6 +608,18 @@ export const AppointmentsWeeklyView: React.FC<AppointmentsWeeklyViewProps> = ({
                                 </div>
                               </div>
                             </div>
+                            {/* Нижний край — изменение длительности */}
+                            {isDraggable && (
+                              <div
+                                className="absolute left-0 right-0 bottom-0 h-1.5 cursor-ns-resize hover:bg-white/30 rounded-b-sm"
+                                title="Потяните, чтобы изменить длительность"
+                                onMouseDown={(e) => {
+                                  e.preventDefault();
+                                  e.stopPropagation();
+                                  setResizing({ appointment, startY: e.clientY, duration: appointment.duration });
+                                }}
+                              />
+                            )}
                           </div>
                         );
                       })}
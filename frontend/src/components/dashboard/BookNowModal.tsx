@@ -3,10 +3,16 @@ import { Modal, Button, Input, Spinner, Calendar } from '../common';
 
 // Import icons
 import warningIcon from '../../assets/icons/warning.svg';
-import { useClinics, useClinicDoctors, useCreatePublicAppointment } from '../../hooks/usePublic';
+import {
+  useClinics,
+  useClinicDoctors,
+  useClinicTreatmentCategories,
+  useCreatePublicAppointment,
+} from '../../hooks/usePublic';
 import { useAuthStore } from '../../store/useAuthStore';
 import { publicService } from '../../services/public.service';
-import { Clinic, User } from '../../types/api.types';
+import { AvailableSlot, Clinic, User } from '../../types/api.types';
+import { toDateKey } from '../../utils/dateFormat';
 
 interface BookNowModalProps {
   isOpen: boolean;
@@ -32,10 +38,11 @@ export const BookNowModal: React.FC<BookNowModalProps> = ({
   const [selectedDate, setSelectedDate] = useState<Date | null>(null);
   const [selectedTime, setSelectedTime] = useState<string>('');
   const [reason, setReason] = useState<string>('');
+  const [treatmentCategoryId, setTreatmentCategoryId] = useState<string>('');
   const [error, setError] = useState<string>('');
   const [isSubmitting, setIsSubmitting] = useState(false);
-  const [busySlots, setBusySlots] = useState<Array<{ start: string; end: string; appointmentId: string }>>([]);
-  const [isLoadingBusySlots, setIsLoadingBusySlots] = useState(false);
+  const [availableSlots, setAvailableSlots] = useState<AvailableSlot[]>([]);
+  const [isLoadingSlots, setIsLoadingSlots] = useState(false);
 
   // Загружаем клиники
   const { data: clinicsData, isLoading: isLoadingClinics } = useClinics();
@@ -44,6 +51,9 @@ export const BookNowModal: React.FC<BookNowModalProps> = ({
   // Загружаем врачей выбранной клиники
   const { data: doctors, isLoading: isLoadingDoctors } = useClinicDoctors(selectedClinicSlug || '');
 
+  // Загружаем категории лечения выбранной клиники
+  const { data: categories = [] } = useClinicTreatmentCategories(selectedClinicSlug || '');
+
   const createMutation = useCreatePublicAppointment();
 
   // Сброс формы при закрытии
@@ -55,6 +65,7 @@ export const BookNowModal: React.FC<BookNowModalProps> = ({
       setSelectedDate('');
       setSelectedTime('');
       setReason('');
+      setTreatmentCategoryId('');
       setError('');
     }
   }, [isOpen]);
@@ -69,36 +80,42 @@ export const BookNowModal: React.FC<BookNowModalProps> = ({
     }
   }, [isOpen, defaultDate]);
 
-  // Сброс врача при смене клиники
+  // Сброс врача и категории при смене клиники
   useEffect(() => {
     setSelectedDoctorId('');
-    setBusySlots([]);
+    setTreatmentCategoryId('');
+    setAvailableSlots([]);
   }, [selectedClinicId]);
 
-  // Загрузка занятых слотов при изменении врача, клиники или даты
+  // Загрузка свободных слотов при изменении врача, клиники или даты
   useEffect(() => {
-    const loadBusySlots = async () => {
+    const loadAvailableSlots = async () => {
       if (!selectedClinicSlug || !selectedDoctorId || !selectedDate) {
-        setBusySlots([]);
+        setAvailableSlots([]);
         return;
       }
 
       try {
-        setIsLoadingBusySlots(true);
-        const dateStr = selectedDate.toISOString().split('T')[0];
-        const slots = await publicService.getBusySlots(selectedClinicSlug, selectedDoctorId, dateStr);
-        setBusySlots(slots);
-        console.log('✅ [BOOK NOW MODAL] Занятые слоты загружены:', slots);
+        setIsLoadingSlots(true);
+        const dateStr = toDateKey(selectedDate);
+        const { slots } = await publicService.getAvailableSlots(
+          selectedClinicSlug,
+          selectedDoctorId,
+          dateStr,
+          treatmentCategoryId || undefined
+        );
+        setAvailableSlots(slots);
+        console.log('✅ [BOOK NOW MODAL] Свободные слоты загружены:', slots);
       } catch (err) {
-        console.error('🔴 [BOOK NOW MODAL] Ошибка загрузки занятых слотов:', err);
-        setBusySlots([]);
+        console.error('🔴 [BOOK NOW MODAL] Ошибка загрузки свободных слотов:', err);
+        setAvailableSlots([]);
       } finally {
-        setIsLoadingBusySlots(false);
+        setIsLoadingSlots(false);
       }
     };
 
-    loadBusySlots();
-  }, [selectedClinicSlug, selectedDoctorId, selectedDate]);
+    loadAvailableSlots();
+  }, [selectedClinicSlug, selectedDoctorId, selectedDate, treatmentCategoryId]);
 
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
@@ -124,10 +141,19 @@ export const BookNowModal: React.FC<BookNowModalProps> = ({
       return;
     }
 
-    // Создаем объект даты и времени
-    const [hours, minutes] = selectedTime.split(':').map(Number);
-    const appointmentDateTime = new Date(selectedDate);
-    appointmentDateTime.setHours(hours, minutes, 0, 0);
+    // Момент начала приёма берём из слота, рассчитанного сервером в часовом поясе клиники
+
+    const selectedSlot = availableSlots.find(slot => slot.time === selectedTime && slot.available);
+
+    if (!selectedSlot) {
+
+      setError('Выбранное время больше недоступно, выберите другое');
+
+      return;
+
+    }
+
+    const appointmentDateTime = new Date(selectedSlot.start);
     
     // Проверяем, что дата в будущем
     if (appointmentDateTime <= new Date()) {
@@ -161,6 +187,7 @@ export const BookNowModal: React.FC<BookNowModalProps> = ({
         },
         appointmentDate: appointmentDateTime.toISOString(),
         reason: reason || undefined,
+        treatmentCategoryId: treatmentCategoryId || undefined,
         registeredAt: new Date().toISOString(),
       });
 
@@ -256,7 +283,7 @@ export const BookNowModal: React.FC<BookNowModalProps> = ({
         {/* Календарь с выбором даты и времени */}
         {selectedDoctorId && selectedClinicSlug ? (
           <div>
-            {isLoadingBusySlots ? (
+            {isLoadingSlots ? (
               <div className="flex items-center justify-center py-8">
                 <Spinner size="sm" />
                 <span className="ml-2 text-sm text-text-10">Загрузка доступных слотов...</span>
@@ -271,8 +298,7 @@ export const BookNowModal: React.FC<BookNowModalProps> = ({
                 selectedTime={selectedTime}
                 onTimeSelect={setSelectedTime}
                 minDate={new Date()}
-                busySlots={busySlots}
-                appointmentDuration={30}
+                timeSlots={availableSlots}
               />
             )}
           </div>
@@ -287,6 +313,30 @@ export const BookNowModal: React.FC<BookNowModalProps> = ({
           </div>
         )}
 
+        {/* Категория лечения (от неё зависят длительность приёма и свободные слоты) */}
+        {selectedClinicSlug && categories.length > 0 && (
+          <div>
+            <label className="block text-sm font-medium text-text-50 mb-2">
+              Процедура
+            </label>
+            <select
+              value={treatmentCategoryId}
+              onChange={(e) => {
+                setTreatmentCategoryId(e.target.value);
+                setSelectedTime(''); // Длительность могла измениться — время выбирается заново
+              }}
+              className="w-full px-4 py-2.5 border border-stroke rounded-lg bg-bg-white text-sm focus:outline-none focus:border-main-100 transition-all"
+            >
+              <option value="">Не выбрана</option>
+              {categories.map(category => (
+                <option key={category.id} value={category.id}>
+                  {category.name} ({category.defaultDuration} мин)
+                </option>
+              ))}
+            </select>
+          </div>
+        )}
+
         {/* Причина визита */}
         <div>
           <label className="block text-sm font-medium text-text-50 mb-2">
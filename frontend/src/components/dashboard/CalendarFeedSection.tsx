@@ -0,0 +1,153 @@
+import React, { useState } from 'react';
+import { Button } from '../common/Button';
+import { Card } from '../common/Card';
+import { Modal } from '../common/Modal';
+import { Spinner } from '../common/Spinner';
+import { toast } from 'react-hot-toast';
+import { useCalendarFeed, useCreateCalendarFeed, useRevokeCalendarFeed } from '../../hooks/useCalendarFeed';
+import { formatAppointmentDateTime } from '../../utils/dateFormat';
+
+interface CalendarFeedSectionProps {
+  /** Для кого лента: врачу — его приёмы, пациенту — свои записи во всех клиниках */
+  audience: 'doctor' | 'patient';
+}
+
+/**
+ * CalendarFeedSection Component
+ * Подписка на приёмы в Google / Apple / Outlook календаре по секретной ссылке.
+ * Ссылку можно выпустить заново (старая перестаёт работать) или отозвать
+ */
+export const CalendarFeedSection: React.FC<CalendarFeedSectionProps> = ({ audience }) => {
+  const { data: feed, isLoading } = useCalendarFeed();
+  const createMutation = useCreateCalendarFeed();
+  const revokeMutation = useRevokeCalendarFeed();
+  const [isRevokeConfirmOpen, setIsRevokeConfirmOpen] = useState(false);
+
+  const handleCopy = async () => {
+    if (!feed) return;
+
+    try {
+      await navigator.clipboard.writeText(feed.url);
+      toast.success('Ссылка скопирована');
+    } catch {
+      toast.error('Не удалось скопировать ссылку');
+    }
+  };
+
+  const handleConfirmRevoke = async () => {
+    try {
+      await revokeMutation.mutateAsync();
+      setIsRevokeConfirmOpen(false);
+    } catch {
+      // Ошибка показывается через toast в хуке
+    }
+  };
+
+  if (isLoading) {
+    return (
+      <Card title="Подписка на календарь" padding="lg">
+        <div className="flex justify-center py-8">
+          <Spinner size="md" />
+        </div>
+      </Card>
+    );
+  }
+
+  return (
+    <>
+      <Card title="Подписка на календарь" padding="lg">
+        <div className="space-y-4">
+          <div className="bg-blue-50 border border-blue-200 rounded-sm p-4">
+            <p className="text-blue-800 text-sm">
+              <strong>Информация:</strong>{' '}
+              {audience === 'doctor'
+                ? 'Добавьте ссылку в Google, Apple или Outlook календарь — ваши приёмы будут обновляться автоматически.'
+                : 'Добавьте ссылку в Google, Apple или Outlook календарь — ваши записи во всех клиниках будут обновляться автоматически.'}{' '}
+              Не передавайте ссылку посторонним: по ней виден ваш график. Если ссылка попала не к тем людям —
+              отзовите её или создайте новую.
+            </p>
+          </div>
+
+          {feed ? (
+            <div className="space-y-3">
+              <div className="flex flex-col sm:flex-row gap-2">
+                <input
+                  type="text"
+                  readOnly
+                  value={feed.url}
+                  onFocus={e => e.target.select()}
+                  className="flex-1 px-4 py-3 border border-stroke rounded-lg bg-bg-primary text-sm text-text-100 focus:outline-none"
+                />
+                <Button type="button" variant="primary" size="md" onClick={handleCopy}>
+                  Копировать
+                </Button>
+              </div>
+              <p className="text-text-10 text-xs">
+                Создана {formatAppointmentDateTime(feed.createdAt)}
+                {feed.lastAccessedAt
+                  ? ` • последнее обновление календаря ${formatAppointmentDateTime(feed.lastAccessedAt)}`
+                  : ' • календарь ещё не подключён'}
+              </p>
+              <div className="flex gap-3">
+                <Button
+                  type="button"
+                  variant="secondary"
+                  size="sm"
+                  onClick={() => createMutation.mutate()}
+                  isLoading={createMutation.isPending}
+                >
+                  Создать новую ссылку
+                </Button>
+                <Button type="button" variant="danger" size="sm" onClick={() => setIsRevokeConfirmOpen(true)}>
+                  Отозвать
+                </Button>
+              </div>
+            </div>
+          ) : (
+            <div className="flex items-center justify-between gap-4 p-4 border border-stroke rounded-sm bg-bg-white">
+              <p className="text-text-50 text-sm">Ссылка на календарь не создана</p>
+              <Button
+                type="button"
+                variant="primary"
+                size="sm"
+                onClick={() => createMutation.mutate()}
+                isLoading={createMutation.isPending}
+              >
+                Создать ссылку
+              </Button>
+            </div>
+          )}
+        </div>
+      </Card>
+
+      {/* Подтверждение отзыва ссылки */}
+      <Modal isOpen={isRevokeConfirmOpen} onClose={() => setIsRevokeConfirmOpen(false)} title="Отозвать ссылку">
+        <div className="space-y-4">
+          <p className="text-text-50">
+            Календари, подписанные по этой ссылке, перестанут получать обновления. Продолжить?
+          </p>
+          <div className="flex gap-3 pt-4">
+            <Button
+              type="button"
+              variant="secondary"
+              onClick={() => setIsRevokeConfirmOpen(false)}
+              disabled={revokeMutation.isPending}
+              className="flex-1"
+            >
+              Отмена
+            </Button>
+            <Button
+              type="button"
+              variant="danger"
+              onClick={handleConfirmRevoke}
+              isLoading={revokeMutation.isPending}
+              className="flex-1"
+            >
+              Отозвать
+            </Button>
+          </div>
+        </div>
+      </Modal>
+    </>
+  );
+};
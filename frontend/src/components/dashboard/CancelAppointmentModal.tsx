@@ -2,6 +2,7 @@ import React, { useState } from 'react';
 import { Modal } from '../common/Modal';
 import { Button, Input } from '../common';
 import { Appointment } from '../../types/api.types';
+import { getClinicTimeZone, zonedTimeToUtc } from '../../utils/dateFormat';
 
 // Import icons
 import warningIcon from '../../assets/icons/warning.svg';
@@ -59,7 +60,7 @@ export const CancelAppointmentModal: React.FC<CancelAppointmentModalProps> = ({
     // Формируем дату и время для предложенного нового приёма
     let suggestedNewDateTime: string | undefined;
     if (suggestedNewDate && suggestedNewTime) {
-      const dateTime = new Date(`${suggestedNewDate}T${suggestedNewTime}`);
+      const dateTime = zonedTimeToUtc(suggestedNewDate, suggestedNewTime, appointment?.clinic?.settings?.timezone);
       if (isNaN(dateTime.getTime())) {
         setError('Некорректная дата или время');
         return;
@@ -86,6 +87,7 @@ export const CancelAppointmentModal: React.FC<CancelAppointmentModalProps> = ({
     day: 'numeric',
     hour: '2-digit',
     minute: '2-digit',
+    timeZone: appointment.clinic?.settings?.timezone || getClinicTimeZone(),
   });
 
   return (
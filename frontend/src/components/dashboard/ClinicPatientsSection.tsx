@@ -108,12 +108,18 @@ export const ClinicPatientsSection: React.FC = () => {
       confirmed: 'bg-main-10 text-main-100 border-main-100/20',
       completed: 'bg-secondary-10 text-secondary-100 border-secondary-100/20',
       cancelled: 'bg-bg-primary text-text-10 border-stroke',
+      arrived: 'bg-sky-50 text-sky-700 border-sky-200',
+      in_progress: 'bg-purple-50 text-purple-700 border-purple-200',
+      no_show: 'bg-red-50 text-red-700 border-red-200',
     };
     const labels = {
       pending: 'Ожидает',
       confirmed: 'Подтвержден',
       completed: 'Завершен',
       cancelled: 'Отменен',
+      arrived: 'Пришёл',
+      in_progress: 'На приёме',
+      no_show: 'Не пришёл',
     };
     return (
       <span className={`px-2 py-1 border rounded-sm text-xs font-normal ${styles[status as keyof typeof styles] || styles.pending}`}>
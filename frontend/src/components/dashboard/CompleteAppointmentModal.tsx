@@ -1,6 +1,10 @@
 import React, { useState } from 'react';
 import { Modal, Input, Button } from '../common';
-import { Appointment } from '../../types/api.types';
+import { Appointment, ClinicalNoteSections } from '../../types/api.types';
+import { useClinicalNote, useSaveClinicalNote, useSignClinicalNote } from '../../hooks/useClinicalNote';
+import { CLINICAL_NOTE_SECTIONS } from '../../utils/clinicalNote';
+import { formatAppointmentDateTime } from '../../utils/dateFormat';
+import { MedicalAlertsBanner } from './MedicalAlertsBanner';
 
 interface CompleteAppointmentModalProps {
   isOpen: boolean;
@@ -12,7 +16,8 @@ interface CompleteAppointmentModalProps {
 
 /**
  * CompleteAppointmentModal Component
- * Модальное окно для завершения приёма с вводом суммы
+ * Модальное окно для завершения приёма с вводом суммы и протоколом приёма
+ * Протокол заполняется по шаблону категории лечения; после подписи он только для чтения
  */
 export const CompleteAppointmentModal: React.FC<CompleteAppointmentModalProps> = ({
   isOpen,
@@ -23,6 +28,15 @@ export const CompleteAppointmentModal: React.FC<CompleteAppointmentModalProps> =
 }) => {
   const [amount, setAmount] = useState<string>('');
   const [error, setError] = useState<string>('');
+  const [sections, setSections] = useState<ClinicalNoteSections>({});
+  const [signOnSave, setSignOnSave] = useState(false);
+
+  const { data: clinicalNote } = useClinicalNote(appointment?.id, isOpen);
+  const saveNote = useSaveClinicalNote();
+  const signNote = useSignClinicalNote();
+
+  const note = clinicalNote?.note || null;
+  const isSigned = note?.status === 'signed';
 
   // Сброс формы при открытии/закрытии
   // Если приём уже завершен, предзаполняем сумму
@@ -37,6 +51,20 @@ export const CompleteAppointmentModal: React.FC<CompleteAppointmentModalProps> =
     }
   }, [isOpen, appointment]);
 
+  // Разделы протокола: сохранённый черновик или шаблон категории лечения
+  React.useEffect(() => {
+    if (isOpen && clinicalNote) {
+      const source = clinicalNote.note || clinicalNote.template;
+      setSections({
+        complaint: source?.complaint || '',
+        diagnosis: source?.diagnosis || '',
+        treatment: source?.treatment || '',
+        recommendations: source?.recommendations || '',
+      });
+      setSignOnSave(false);
+    }
+  }, [isOpen, clinicalNote]);
+
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
     setError('');
@@ -54,7 +82,18 @@ export const CompleteAppointmentModal: React.FC<CompleteAppointmentModalProps> =
     }
 
     try {
+      // Черновик протокола сохраняется до завершения приёма, если он уже есть или что-то заполнено
+      const hasContent = CLINICAL_NOTE_SECTIONS.some(section => sections[section.key]?.trim());
+      const shouldSaveNote = !isSigned && (!!note || hasContent);
+      if (shouldSaveNote) {
+        await saveNote.mutateAsync({ appointmentId: appointment.id, sections });
+      }
+
       await onComplete(appointment.id, amountNum);
+
+      if (shouldSaveNote && signOnSave) {
+        await signNote.mutateAsync(appointment.id);
+      }
       onClose();
     } catch (err: any) {
       setError(err.message || 'Ошибка при завершении приёма');
@@ -77,13 +116,17 @@ export const CompleteAppointmentModal: React.FC<CompleteAppointmentModalProps> =
       isOpen={isOpen}
       onClose={onClose}
       title={appointment?.status === 'completed' ? 'Изменить завершенный приём' : 'Завершить приём'}
-      size="md"
+      size="lg"
       footer={
         <div className="flex gap-2 justify-end">
           <Button variant="secondary" onClick={onClose} disabled={isLoading}>
             Отмена
           </Button>
-          <Button variant="primary" onClick={handleSubmit} isLoading={isLoading}>
+          <Button
+            variant="primary"
+            onClick={handleSubmit}
+            isLoading={isLoading || saveNote.isPending || signNote.isPending}
+          >
             {appointment?.status === 'completed' ? 'Сохранить изменения' : 'Завершить'}
           </Button>
         </div>
@@ -108,6 +151,9 @@ export const CompleteAppointmentModal: React.FC<CompleteAppointmentModalProps> =
           </div>
         </div>
 
+        {/* Предупреждения из анамнеза: аллергии, антикоагулянты, беременность */}
+        <MedicalAlertsBanner patientId={appointment.patientId} />
+
         {/* Поле ввода суммы */}
         <Input
           label="Сумма оплаты"
@@ -130,6 +176,57 @@ export const CompleteAppointmentModal: React.FC<CompleteAppointmentModalProps> =
           }
         />
 
+        {/* Протокол приёма */}
+        <div className="space-y-3">
+          <div className="flex items-center justify-between">
+            <h4 className="text-sm font-medium text-text-100">Протокол приёма</h4>
+            {isSigned && (
+              <span className="px-2 py-0.5 text-xs bg-secondary-10 text-secondary-100 border border-secondary-100/20 rounded-sm">
+                Подписан{note?.signedBy ? `: ${note.signedBy.name}` : ''}
+                {note?.signedAt ? `, ${formatAppointmentDateTime(note.signedAt)}` : ''}
+              </span>
+            )}
+          </div>
+
+          {CLINICAL_NOTE_SECTIONS.map(section =>
+            isSigned ? (
+              sections[section.key] ? (
+                <div key={section.key}>
+                  <p className="text-xs text-text-10 mb-1">{section.label}</p>
+                  <p className="text-sm text-text-100 whitespace-pre-wrap">{sections[section.key]}</p>
+                </div>
+              ) : null
+            ) : (
+              <div key={section.key}>
+                <label className="block text-xs text-text-10 mb-1">{section.label}</label>
+                <textarea
+                  value={sections[section.key] || ''}
+                  onChange={e => setSections(prev => ({ ...prev, [section.key]: e.target.value }))}
+                  rows={2}
+                  className="w-full px-3 py-2 border border-stroke rounded-sm bg-bg-white text-sm text-text-100 focus:outline-none focus:border-main-100 resize-none transition-smooth"
+                />
+              </div>
+            )
+          )}
+
+          {!isSigned && (
+            <label className="flex items-start gap-2 text-sm text-text-50 cursor-pointer">
+              <input
+                type="checkbox"
+                checked={signOnSave}
+                onChange={e => setSignOnSave(e.target.checked)}
+                className="mt-0.5"
+              />
+              <span>
+                Подписать протокол
+                <span className="block text-xs text-text-10">
+                  После подписи протокол нельзя изменить, а пациент увидит рекомендации
+                </span>
+              </span>
+            </label>
+          )}
+        </div>
+
         {error && (
           <div className="p-3 bg-red-50 border border-red-200 rounded-sm">
             <p className="text-sm text-red-600">{error}</p>
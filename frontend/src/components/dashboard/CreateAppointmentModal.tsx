@@ -4,13 +4,38 @@ import { Modal, Button, Input, Spinner, Calendar } from '../common';
 
 // Import icons
 import warningIcon from '../../assets/icons/warning.svg';
-import { useCreateAppointment } from '../../hooks/useAppointments';
+import { useCreateAppointment, useCreateAppointmentSeries } from '../../hooks/useAppointments';
 import { userService } from '../../services/user.service';
 import { patientService } from '../../services/patient.service';
 import { appointmentService } from '../../services/appointment.service';
-import { User, Patient } from '../../types/api.types';
+import {
+  AppointmentRecurrence,
+  AppointmentSeriesPreview,
+  AvailableSlotsResponse,
+  User,
+  Patient,
+} from '../../types/api.types';
+import { toDateKey } from '../../utils/dateFormat';
 import { PatientSearchInput } from './PatientSearchInput';
+import { AppointmentRecurrenceFields, DEFAULT_RECURRENCE, RecurrenceFormValue } from './AppointmentRecurrenceFields';
 import { useDoctorTreatmentCategories } from '../../hooks/useTreatmentCategories';
+import { useResources } from '../../hooks/useResources';
+import { RESOURCE_TYPE_LABELS } from './ResourcesSection';
+
+/**
+ * Правило повторения для API (null, если настройки неполные)
+ */
+const buildRecurrence = (recurrence: RecurrenceFormValue): AppointmentRecurrence | null => {
+  const intervalWeeks = parseInt(recurrence.intervalWeeks);
+
+  if (recurrence.endType === 'count') {
+    const count = parseInt(recurrence.count);
+    return count >= 2 && count <= 52 ? { intervalWeeks, count } : null;
+  }
+
+  // Полдень UTC — та же календарная дата в часовом поясе клиники
+  return recurrence.until ? { intervalWeeks, until: `${recurrence.until}T12:00:00.000Z` } : null;
+};
 
 interface CreateAppointmentModalProps {
   isOpen: boolean;
@@ -18,6 +43,8 @@ interface CreateAppointmentModalProps {
   onSuccess: () => void;
   defaultDoctorId?: string; // Опциональный ID врача для автоматического выбора
   defaultDate?: string; // Опциональная дата для автоматического заполнения (формат: YYYY-MM-DD)
+  preselectedDoctorId?: string; // Врач, выбранный заранее (можно сменить, в отличие от defaultDoctorId)
+  defaultTime?: string; // Опциональное время (формат: HH:mm), сохраняется, если слот свободен
 }
 
 /**
@@ -30,6 +57,8 @@ export const CreateAppointmentModal: React.FC<CreateAppointmentModalProps> = ({
   onSuccess,
   defaultDoctorId,
   defaultDate,
+  preselectedDoctorId,
+  defaultTime,
 }) => {
   const [doctorId, setDoctorId] = useState('');
   const [patientId, setPatientId] = useState('');
@@ -42,19 +71,34 @@ export const CreateAppointmentModal: React.FC<CreateAppointmentModalProps> = ({
   const [duration, setDuration] = useState('30');
   const [selectedCategoryId, setSelectedCategoryId] = useState('');
   const [reason, setReason] = useState('');
+  // ID выбранной категории лечения ("Другое" — приём без категории)
+  const treatmentCategoryId = selectedCategoryId && selectedCategoryId !== 'custom' ? selectedCategoryId : undefined;
   const [notes, setNotes] = useState('');
+  const [resourceIds, setResourceIds] = useState<string[]>([]); // Кабинет / кресло / оборудование
+  const [recurrence, setRecurrence] = useState<RecurrenceFormValue>(DEFAULT_RECURRENCE);
+  const [seriesPreview, setSeriesPreview] = useState<AppointmentSeriesPreview | null>(null);
+  const [seriesPreviewError, setSeriesPreviewError] = useState('');
+  const [isLoadingSeriesPreview, setIsLoadingSeriesPreview] = useState(false);
 
   const [doctors, setDoctors] = useState<User[]>([]);
   const [isDoctorsLoading, setIsDoctorsLoading] = useState(true);
   const createMutation = useCreateAppointment();
+  const createSeriesMutation = useCreateAppointmentSeries();
   
   // Загружаем категории лечения выбранного врача
   const { data: categories = [], isLoading: isLoadingCategories } = useDoctorTreatmentCategories(doctorId || null);
+  const { data: resources = [] } = useResources(true);
+
+  const toggleResource = (resourceId: string) => {
+    setResourceIds(prev =>
+      prev.includes(resourceId) ? prev.filter(id => id !== resourceId) : [...prev, resourceId]
+    );
+  };
 
   const [error, setError] = useState('');
   const [isLoading, setIsLoading] = useState(false);
-  const [busySlots, setBusySlots] = useState<Array<{ start: string; end: string; appointmentId: string }>>([]);
-  const [isLoadingBusySlots, setIsLoadingBusySlots] = useState(false);
+  const [availability, setAvailability] = useState<AvailableSlotsResponse | null>(null);
+  const [isLoadingSlots, setIsLoadingSlots] = useState(false);
 
   // Загрузка списка врачей (только активных для регистрации пациентов)
   useEffect(() => {
@@ -94,12 +138,16 @@ export const CreateAppointmentModal: React.FC<CreateAppointmentModalProps> = ({
       setSelectedCategoryId('');
       setReason('');
       setNotes('');
+      setResourceIds([]);
+      setRecurrence(DEFAULT_RECURRENCE);
+      setSeriesPreview(null);
+      setSeriesPreviewError('');
       setError('');
-      setBusySlots([]);
+      setAvailability(null);
     } else {
       // Если модальное окно открывается, устанавливаем значения по умолчанию
-      if (defaultDoctorId) {
-        setDoctorId(defaultDoctorId);
+      if (defaultDoctorId || preselectedDoctorId) {
+        setDoctorId(defaultDoctorId || preselectedDoctorId!);
       }
       if (defaultDate) {
         const date = new Date(defaultDate);
@@ -107,44 +155,94 @@ export const CreateAppointmentModal: React.FC<CreateAppointmentModalProps> = ({
           setAppointmentDate(date);
         }
       }
+      if (defaultTime) {
+        setAppointmentTime(defaultTime);
+      }
     }
-  }, [isOpen, defaultDoctorId, defaultDate]);
+  }, [isOpen, defaultDoctorId, defaultDate, preselectedDoctorId, defaultTime]);
 
-  // Загрузка занятых слотов при изменении врача, даты или длительности
+  // Загрузка свободных слотов при изменении врача, даты, длительности или категории
   useEffect(() => {
-    const loadBusySlots = async () => {
+    const loadAvailableSlots = async () => {
       if (!doctorId || !appointmentDate) {
-        setBusySlots([]);
+        setAvailability(null);
         return;
       }
 
       try {
-        setIsLoadingBusySlots(true);
-        // Используем локальную дату, а не UTC, чтобы избежать проблем с часовыми поясами
-        const year = appointmentDate.getFullYear();
-        const month = String(appointmentDate.getMonth() + 1).padStart(2, '0');
-        const day = String(appointmentDate.getDate()).padStart(2, '0');
-        const dateStr = `${year}-${month}-${day}`;
-        
-        console.log('🔍 [CREATE APPOINTMENT MODAL] Загрузка занятых слотов:', {
+        setIsLoadingSlots(true);
+        const dateStr = toDateKey(appointmentDate);
+
+        const result = await appointmentService.getAvailableSlots({
           doctorId,
-          appointmentDate: appointmentDate.toLocaleString(),
-          dateStr,
+          date: dateStr,
+          duration: parseInt(duration),
+          treatmentCategoryId,
+          resourceIds,
         });
-        
-        const slots = await appointmentService.getBusySlots(doctorId, dateStr);
-        setBusySlots(slots);
-        console.log('✅ [CREATE APPOINTMENT MODAL] Занятые слоты загружены:', slots);
+        setAvailability(result);
+
+        // Выбранное время могло стать недоступным (например, после смены длительности)
+        setAppointmentTime(prev =>
+          result.slots.some(slot => slot.time === prev && slot.available) ? prev : ''
+        );
+        console.log('✅ [CREATE APPOINTMENT MODAL] Свободные слоты загружены:', result.slots.length);
       } catch (err) {
-        console.error('🔴 [CREATE APPOINTMENT MODAL] Ошибка загрузки занятых слотов:', err);
-        setBusySlots([]);
+        console.error('🔴 [CREATE APPOINTMENT MODAL] Ошибка загрузки свободных слотов:', err);
+        setAvailability(null);
+      } finally {
+        setIsLoadingSlots(false);
+      }
+    };
+
+    loadAvailableSlots();
+  }, [doctorId, appointmentDate, duration, treatmentCategoryId, resourceIds]);
+
+  // Предпросмотр серии: даты повторов и конфликты по каждой из них
+  useEffect(() => {
+    const selectedSlot = availability?.slots.find(slot => slot.time === appointmentTime && slot.available);
+    const recurrenceRule = buildRecurrence(recurrence);
+
+    if (!recurrence.enabled || !doctorId || !selectedSlot || !recurrenceRule) {
+      setSeriesPreview(null);
+      setSeriesPreviewError('');
+      return;
+    }
+
+    let isCancelled = false;
+    const loadSeriesPreview = async () => {
+      try {
+        setIsLoadingSeriesPreview(true);
+        setSeriesPreviewError('');
+        const preview = await appointmentService.previewSeries({
+          doctorId,
+          appointmentDate: selectedSlot.start,
+          duration: parseInt(duration),
+          treatmentCategoryId,
+          recurrence: recurrenceRule,
+          resourceIds,
+        });
+        if (!isCancelled) {
+          setSeriesPreview(preview);
+        }
+      } catch (err: any) {
+        console.error('🔴 [CREATE APPOINTMENT MODAL] Ошибка предпросмотра серии:', err);
+        if (!isCancelled) {
+          setSeriesPreview(null);
+          setSeriesPreviewError(err.message || 'Не удалось рассчитать даты серии');
+        }
       } finally {
-        setIsLoadingBusySlots(false);
+        if (!isCancelled) {
+          setIsLoadingSeriesPreview(false);
+        }
       }
     };
 
-    loadBusySlots();
-  }, [doctorId, appointmentDate, duration]);
+    loadSeriesPreview();
+    return () => {
+      isCancelled = true;
+    };
+  }, [recurrence, doctorId, appointmentTime, availability, duration, treatmentCategoryId, resourceIds]);
 
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
@@ -264,36 +362,50 @@ export const CreateAppointmentModal: React.FC<CreateAppointmentModalProps> = ({
         throw new Error('Выберите время');
       }
 
-      // Объединяем дату и время
-      const [hours, minutes] = appointmentTime.split(':').map(Number);
-      
-      // Создаем новый Date объект из выбранной даты
-      // Важно: создаем копию, чтобы не изменять исходный объект
-      const appointmentDateTime = new Date(appointmentDate);
-      
-      // Устанавливаем время в локальном часовом поясе
-      // setHours() устанавливает локальное время, которое затем будет конвертировано в UTC при toISOString()
-      appointmentDateTime.setHours(hours, minutes, 0, 0);
-      
-      // Логируем для отладки
-      console.log('🔵 [CREATE APPOINTMENT MODAL] Формирование даты и времени:', {
-        selectedDate: appointmentDate,
-        selectedTime: appointmentTime,
-        hours,
-        minutes,
-        appointmentDateTimeLocal: appointmentDateTime.toLocaleString('ru-RU'),
-        appointmentDateTimeUTC: appointmentDateTime.toISOString(),
-        localHours: appointmentDateTime.getHours(),
-        localMinutes: appointmentDateTime.getMinutes(),
-        utcHours: appointmentDateTime.getUTCHours(),
-        utcMinutes: appointmentDateTime.getUTCMinutes(),
-      });
+      // Момент начала приёма берём из слота, рассчитанного сервером в часовом поясе клиники
+      const selectedSlot = availability?.slots.find(slot => slot.time === appointmentTime && slot.available);
+      if (!selectedSlot) {
+        throw new Error('Выбранное время больше недоступно, выберите другое');
+      }
+      const appointmentDateTime = new Date(selectedSlot.start);
 
       // Проверяем, что дата в будущем
       if (appointmentDateTime <= new Date()) {
         throw new Error('Дата и время приёма должны быть в будущем');
       }
 
+      // Серия: первый приём + повторы, даты с конфликтами пропускаются (они показаны в предпросмотре)
+      if (recurrence.enabled) {
+        const recurrenceRule = buildRecurrence(recurrence);
+        if (!recurrenceRule) {
+          throw new Error(recurrence.endType === 'count' ? 'Укажите количество приёмов от 2 до 52' : 'Укажите дату окончания серии');
+        }
+
+        const result = await createSeriesMutation.mutateAsync({
+          doctorId,
+          patientId: finalPatientId,
+          appointmentDate: appointmentDateTime.toISOString(),
+          duration: parseInt(duration),
+          reason: reason || undefined,
+          treatmentCategoryId,
+          notes: notes || undefined,
+          recurrence: recurrenceRule,
+          skipConflicts: true,
+          resourceIds,
+        });
+
+        console.log('✅ [CREATE APPOINTMENT MODAL] Серия приёмов успешно создана');
+        toast.success(
+          result.skipped.length > 0
+            ? `Создано приёмов: ${result.appointments.length}, пропущено из-за конфликтов: ${result.skipped.length}`
+            : `Создана серия из ${result.appointments.length} приёмов`
+        );
+
+        onSuccess();
+        onClose();
+        return;
+      }
+
       // Создаём приём
       await createMutation.mutateAsync({
         doctorId,
@@ -301,8 +413,10 @@ export const CreateAppointmentModal: React.FC<CreateAppointmentModalProps> = ({
         appointmentDate: appointmentDateTime.toISOString(),
         duration: parseInt(duration),
         reason: reason || undefined,
+        treatmentCategoryId,
         notes: notes || undefined,
         registeredAt: new Date().toISOString(), // Локальное время регистрации
+        resourceIds,
       });
 
       console.log('✅ [CREATE APPOINTMENT MODAL] Приём успешно создан');
@@ -475,7 +589,7 @@ export const CreateAppointmentModal: React.FC<CreateAppointmentModalProps> = ({
         {/* Календарь с выбором даты и времени */}
         {doctorId ? (
           <div>
-            {isLoadingBusySlots ? (
+            {isLoadingSlots ? (
               <div className="flex items-center justify-center py-8">
                 <Spinner size="sm" />
                 <span className="ml-2 text-sm text-text-10">Загрузка доступных слотов...</span>
@@ -490,8 +604,8 @@ export const CreateAppointmentModal: React.FC<CreateAppointmentModalProps> = ({
                 selectedTime={appointmentTime}
                 onTimeSelect={setAppointmentTime}
                 minDate={new Date(new Date().setDate(new Date().getDate() + 1))} // Завтра как минимум
-                busySlots={busySlots}
-                appointmentDuration={parseInt(duration)}
+                timeSlots={availability?.slots}
+                emptySlotsMessage={availability?.reason ? `Врач не принимает: ${availability.reason}` : undefined}
               />
             )}
           </div>
@@ -525,6 +639,50 @@ export const CreateAppointmentModal: React.FC<CreateAppointmentModalProps> = ({
           </select>
         </div>
 
+        {/* Кабинет / кресло / оборудование */}
+        {resources.length > 0 && (
+          <div>
+            <label className="block text-sm font-normal text-text-10 mb-2">
+              Кабинет, кресло, оборудование
+            </label>
+            <div className="flex flex-wrap gap-2">
+              {resources.map(resource => {
+                const isSelected = resourceIds.includes(resource.id);
+                return (
+                  <button
+                    key={resource.id}
+                    type="button"
+                    onClick={() => toggleResource(resource.id)}
+                    className={`px-3 py-1.5 text-xs rounded-sm border transition-smooth ${
+                      isSelected
+                        ? 'bg-main-100 text-white border-main-100'
+                        : 'bg-bg-white text-text-50 border-stroke hover:border-main-100'
+                    }`}
+                  >
+                    {resource.name}
+                    <span className={isSelected ? 'text-white/70' : 'text-text-10'}>
+                      {' · '}
+                      {RESOURCE_TYPE_LABELS[resource.type]}
+                    </span>
+                  </button>
+                );
+              })}
+            </div>
+            <p className="text-xs text-text-10 mt-1">Время, когда выбранные ресурсы заняты, недоступно для записи</p>
+          </div>
+        )}
+
+        {/* Повторение приёма */}
+        {doctorId && (
+          <AppointmentRecurrenceFields
+            value={recurrence}
+            onChange={setRecurrence}
+            preview={seriesPreview}
+            isLoadingPreview={isLoadingSeriesPreview}
+            previewError={seriesPreviewError}
+          />
+        )}
+
         {/* Категория лечения / Причина визита */}
         <div>
           <label className="block text-sm font-normal text-text-10 mb-2">
@@ -645,7 +803,7 @@ export const CreateAppointmentModal: React.FC<CreateAppointmentModalProps> = ({
             isLoading={isLoading}
             disabled={isLoading}
           >
-            Создать приём
+            {recurrence.enabled ? 'Создать серию' : 'Создать приём'}
           </Button>
         </div>
       </form>
@@ -62,6 +62,12 @@ export const DayAppointmentsModal: React.FC<DayAppointmentsModalProps> = ({
         return 'bg-green-50 text-green-700 border-green-200';
       case 'cancelled':
         return 'bg-gray-100 text-gray-600 border-gray-300';
+      case 'arrived':
+        return 'bg-sky-50 text-sky-700 border-sky-200';
+      case 'in_progress':
+        return 'bg-purple-50 text-purple-700 border-purple-200';
+      case 'no_show':
+        return 'bg-red-50 text-red-700 border-red-200';
       default:
         return 'bg-gray-100 text-gray-600 border-gray-300';
     }
@@ -78,6 +84,12 @@ export const DayAppointmentsModal: React.FC<DayAppointmentsModalProps> = ({
         return 'Завершен';
       case 'cancelled':
         return 'Отменен';
+      case 'arrived':
+        return 'Пришёл';
+      case 'in_progress':
+        return 'На приёме';
+      case 'no_show':
+        return 'Не пришёл';
       default:
         return status;
     }
@@ -1,5 +1,5 @@
 import React, { useState, useEffect, useRef } from 'react';
-import { Card, Button, Spinner, Input } from '../common';
+import { Card, Button, Spinner } from '../common';
 import { AppointmentsListView } from './AppointmentsListView';
 import { AppointmentsMonthlyCalendar } from './AppointmentsMonthlyCalendar';
 import { AppointmentsWeeklyView } from './AppointmentsWeeklyView';
@@ -8,6 +8,7 @@ import { CompleteAppointmentModal } from './CompleteAppointmentModal';
 import { CancelAppointmentModal } from './CancelAppointmentModal';
 import { EditAmountModal } from './EditAmountModal';
 import { useAppointments, useUpdateAppointmentStatus, useUpdateAppointment } from '../../hooks/useAppointments';
+import { useDoctorTreatmentCategories } from '../../hooks/useTreatmentCategories';
 import { useAuthStore } from '../../store/useAuthStore';
 import { Appointment } from '../../types/api.types';
 import { format } from 'date-fns';
@@ -40,8 +41,7 @@ export const DoctorAppointmentsSection: React.FC<DoctorAppointmentsSectionProps>
   const [dateFilter, setDateFilter] = useState<string>('');
   const [timeFilter, setTimeFilter] = useState<string>('');
   const [weekFilter, setWeekFilter] = useState<string>('');
-  const [categoryFilter, setCategoryFilter] = useState<string>('');
-  const [categoryInput, setCategoryInput] = useState<string>(''); // Для debounce
+  const [categoryFilter, setCategoryFilter] = useState<string>(''); // ID категории лечения
 
   // Вид отображения (list/monthly/weekly) - как в клинике
   const [viewType, setViewType] = useState<'list' | 'monthly' | 'weekly'>(() => {
@@ -110,16 +110,7 @@ export const DoctorAppointmentsSection: React.FC<DoctorAppointmentsSectionProps>
   const [errorMessages, setErrorMessages] = useState<Record<string, string>>({});
   const [loadingAppointments, setLoadingAppointments] = useState<Record<string, string>>({});
 
-  // Debounce для поля категории
-  useEffect(() => {
-    const timer = setTimeout(() => {
-      setCategoryFilter(categoryInput);
-    }, 500);
-
-    return () => {
-      clearTimeout(timer);
-    };
-  }, [categoryInput]);
+  const { data: categories = [] } = useDoctorTreatmentCategories(doctorId);
 
   // Загружаем приёмы с фильтром по текущему врачу
   const { data, isLoading, isFetching, error } = useAppointments({
@@ -128,7 +119,7 @@ export const DoctorAppointmentsSection: React.FC<DoctorAppointmentsSectionProps>
     date: dateFilter || undefined,
     time: timeFilter || undefined,
     week: weekFilter || undefined,
-    category: categoryFilter || undefined,
+    treatmentCategoryId: categoryFilter || undefined,
   });
 
   const updateStatusMutation = useUpdateAppointmentStatus();
@@ -280,7 +271,6 @@ export const DoctorAppointmentsSection: React.FC<DoctorAppointmentsSectionProps>
     setTimeFilter('');
     setWeekFilter('');
     setCategoryFilter('');
-    setCategoryInput('');
   };
 
   /**
@@ -339,8 +329,11 @@ export const DoctorAppointmentsSection: React.FC<DoctorAppointmentsSectionProps>
               <option value="">Все статусы</option>
               <option value="pending">Ожидает подтверждения</option>
               <option value="confirmed">Подтверждено</option>
+              <option value="arrived">Пришёл</option>
+              <option value="in_progress">На приёме</option>
               <option value="completed">Завершено</option>
               <option value="cancelled">Отменено</option>
+              <option value="no_show">Не пришёл</option>
             </select>
           </div>
 
@@ -392,15 +385,20 @@ export const DoctorAppointmentsSection: React.FC<DoctorAppointmentsSectionProps>
           <div>
             <label className="block text-sm font-medium text-text-50 mb-2 flex items-center gap-2">
               <Search className="w-4 h-4" />
-              Процедура / Причина
+              Категория лечения
             </label>
-            <Input
-              type="text"
-              value={categoryInput}
-              onChange={(e) => setCategoryInput(e.target.value)}
-              placeholder="Поиск по процедуре..."
-              className="w-full"
-            />
+            <select
+              value={categoryFilter}
+              onChange={e => setCategoryFilter(e.target.value)}
+              className="w-full px-4 py-2.5 border border-stroke rounded-lg bg-bg-white text-sm focus:outline-none focus:border-main-100 transition-all"
+            >
+              <option value="">Все категории</option>
+              {categories.map(category => (
+                <option key={category.id} value={category.id}>
+                  {category.name}
+                </option>
+              ))}
+            </select>
           </div>
         </div>
 
@@ -1,10 +1,12 @@
 import React, { useState, useMemo } from 'react';
+import { addDays } from 'date-fns';
 import { useNavigate } from 'react-router-dom';
 import { Card, Button, Spinner } from '../common';
 import { useAppointments } from '../../hooks/useAppointments';
 import { useDoctorPatients } from '../../hooks/usePatients';
 import { Appointment, Patient, DoctorPatient } from '../../types/api.types';
 import { useAuthStore } from '../../store/useAuthStore';
+import { getClinicTimeZone, safeParseDate, toClinicDateKey, toDateKey, zonedTimeToUtc } from '../../utils/dateFormat';
 
 // Import icons
 import calendarIcon from '../../assets/icons/calendar.svg';
@@ -45,12 +47,10 @@ export const DoctorOverviewSection: React.FC = () => {
     const appointments = appointmentsData?.appointments || [];
     const doctorPatients: DoctorPatient[] = doctorPatientsData?.data || [];
 
-    const now = new Date();
-    const today = new Date(now.getFullYear(), now.getMonth(), now.getDate());
-    const tomorrow = new Date(today);
-    tomorrow.setDate(tomorrow.getDate() + 1);
-    const nextWeek = new Date(today);
-    nextWeek.setDate(nextWeek.getDate() + 7);
+    // «Сегодня» — по часам клиники
+    const todayKey = toClinicDateKey(new Date());
+    const today = zonedTimeToUtc(todayKey, '00:00');
+    const nextWeek = zonedTimeToUtc(toDateKey(addDays(safeParseDate(`${todayKey}T00:00:00`), 7)), '00:00');
 
     // Предстоящие записи (сегодня и на неделю вперед)
     const upcomingAppointments = appointments.filter(apt => {
@@ -64,20 +64,16 @@ export const DoctorOverviewSection: React.FC = () => {
 
     // Записи на сегодня
     const todayAppointments = appointments.filter(apt => {
-      const aptDate = new Date(apt.appointmentDate);
-      const aptDateOnly = new Date(aptDate.getFullYear(), aptDate.getMonth(), aptDate.getDate());
       return (
-        aptDateOnly.getTime() === today.getTime() &&
+        toClinicDateKey(apt.appointmentDate) === todayKey &&
         (apt.status === 'pending' || apt.status === 'confirmed')
       );
     });
 
     // Завершенные приёмы (за сегодня)
     const completedToday = appointments.filter(apt => {
-      const aptDate = new Date(apt.appointmentDate);
-      const aptDateOnly = new Date(aptDate.getFullYear(), aptDate.getMonth(), aptDate.getDate());
       return (
-        aptDateOnly.getTime() === today.getTime() &&
+        toClinicDateKey(apt.appointmentDate) === todayKey &&
         apt.status === 'completed'
       );
     });
@@ -133,6 +129,7 @@ export const DoctorOverviewSection: React.FC = () => {
       month: 'short',
       hour: '2-digit',
       minute: '2-digit',
+      timeZone: getClinicTimeZone(),
     });
   };
 
@@ -141,6 +138,7 @@ export const DoctorOverviewSection: React.FC = () => {
     return d.toLocaleTimeString('ru-RU', {
       hour: '2-digit',
       minute: '2-digit',
+      timeZone: getClinicTimeZone(),
     });
   };
 
@@ -1,7 +1,7 @@
 import React, { useState, useEffect, useMemo, useRef, useImperativeHandle, forwardRef, useCallback } from 'react';
 import { Button } from '../common/Button';
 import { Card } from '../common/Card';
-import { DoctorSchedule } from '../../types/api.types';
+import { DoctorSchedule, ScheduleBreak } from '../../types/api.types';
 
 interface DoctorScheduleEditorProps {
   schedule?: DoctorSchedule[];
@@ -10,6 +10,7 @@ interface DoctorScheduleEditorProps {
     startTime: string | null;
     endTime: string | null;
     isWorking: boolean;
+    breaks: ScheduleBreak[];
   }>) => Promise<void>;
   isLoading?: boolean;
   hideSubmitButton?: boolean; // Скрыть кнопку "Сохранить расписание"
@@ -23,6 +24,7 @@ export interface DoctorScheduleEditorRef {
     startTime: string | null;
     endTime: string | null;
     isWorking: boolean;
+    breaks: ScheduleBreak[];
   }>;
 }
 
@@ -36,6 +38,15 @@ const DAYS = [
   { key: 6, label: 'Суббота', short: 'Сб' },
 ] as const;
 
+/**
+ * Сдвинуть время HH:mm на указанное число минут (в пределах суток)
+ */
+const shiftTime = (time: string, minutes: number): string => {
+  const [hours, mins] = time.split(':').map(Number);
+  const total = Math.min(hours * 60 + mins + minutes, 23 * 60 + 59);
+  return `${String(Math.floor(total / 60)).padStart(2, '0')}:${String(total % 60).padStart(2, '0')}`;
+};
+
 /**
  * DoctorScheduleEditor Component
  * Компонент для редактирования расписания врача
@@ -62,6 +73,7 @@ export const DoctorScheduleEditor = forwardRef<DoctorScheduleEditorRef, DoctorSc
       startTime: string | null;
       endTime: string | null;
       isWorking: boolean;
+      breaks: ScheduleBreak[];
     }> = {};
 
     DAYS.forEach(({ key }) => {
@@ -72,6 +84,7 @@ export const DoctorScheduleEditor = forwardRef<DoctorScheduleEditorRef, DoctorSc
           startTime: existing.isWorking ? existing.startTime : null,
           endTime: existing.isWorking ? existing.endTime : null,
           isWorking: existing.isWorking,
+          breaks: existing.isWorking ? existing.breaks || [] : [],
         };
       } else {
         // Дефолтные значения
@@ -80,6 +93,7 @@ export const DoctorScheduleEditor = forwardRef<DoctorScheduleEditorRef, DoctorSc
           startTime: key === 0 || key === 6 ? null : '09:00', // Выходной для воскресенья и субботы
           endTime: key === 0 || key === 6 ? null : '18:00',
           isWorking: key !== 0 && key !== 6, // Работаем все дни кроме воскресенья
+          breaks: [],
         };
       }
     });
@@ -93,6 +107,7 @@ export const DoctorScheduleEditor = forwardRef<DoctorScheduleEditorRef, DoctorSc
     startTime: string | null;
     endTime: string | null;
     isWorking: boolean;
+    breaks: ScheduleBreak[];
   }>>(createStateFromSchedule);
 
   // Используем useRef для отслеживания предыдущего schedule
@@ -106,6 +121,7 @@ export const DoctorScheduleEditor = forwardRef<DoctorScheduleEditorRef, DoctorSc
       startTime: s.startTime,
       endTime: s.endTime,
       isWorking: s.isWorking,
+      breaks: s.breaks,
     })).sort((a, b) => a.dayOfWeek - b.dayOfWeek));
 
     // Обновляем только если schedule действительно изменился
@@ -117,6 +133,7 @@ export const DoctorScheduleEditor = forwardRef<DoctorScheduleEditorRef, DoctorSc
         startTime: string | null;
         endTime: string | null;
         isWorking: boolean;
+        breaks: ScheduleBreak[];
       }> = {};
 
       DAYS.forEach(({ key }) => {
@@ -127,6 +144,7 @@ export const DoctorScheduleEditor = forwardRef<DoctorScheduleEditorRef, DoctorSc
             startTime: existing.isWorking ? existing.startTime : null,
             endTime: existing.isWorking ? existing.endTime : null,
             isWorking: existing.isWorking,
+            breaks: existing.isWorking ? existing.breaks || [] : [],
           };
         } else {
           newState[key] = {
@@ -134,6 +152,7 @@ export const DoctorScheduleEditor = forwardRef<DoctorScheduleEditorRef, DoctorSc
             startTime: key === 0 || key === 6 ? null : '09:00',
             endTime: key === 0 || key === 6 ? null : '18:00',
             isWorking: key !== 0 && key !== 6,
+            breaks: [],
           };
         }
       });
@@ -150,6 +169,7 @@ export const DoctorScheduleEditor = forwardRef<DoctorScheduleEditorRef, DoctorSc
         isWorking: !prev[dayOfWeek].isWorking,
         startTime: !prev[dayOfWeek].isWorking ? '09:00' : null,
         endTime: !prev[dayOfWeek].isWorking ? '18:00' : null,
+        breaks: [],
       },
     }));
   };
@@ -164,6 +184,46 @@ export const DoctorScheduleEditor = forwardRef<DoctorScheduleEditorRef, DoctorSc
     }));
   };
 
+  // Перерывы внутри рабочего дня (например, обед 13:00–14:00)
+  const handleAddBreak = (dayOfWeek: number) => {
+    setScheduleState(prev => {
+      const day = prev[dayOfWeek];
+      const lastBreak = day.breaks[day.breaks.length - 1];
+      // Следующий перерыв по умолчанию — 15 минут через час после предыдущего
+      const newBreak = lastBreak
+        ? { startTime: shiftTime(lastBreak.endTime, 60), endTime: shiftTime(lastBreak.endTime, 75) }
+        : { startTime: '13:00', endTime: '14:00' };
+
+      return {
+        ...prev,
+        [dayOfWeek]: {
+          ...day,
+          breaks: [...day.breaks, newBreak],
+        },
+      };
+    });
+  };
+
+  const handleBreakChange = (dayOfWeek: number, index: number, field: keyof ScheduleBreak, value: string) => {
+    setScheduleState(prev => ({
+      ...prev,
+      [dayOfWeek]: {
+        ...prev[dayOfWeek],
+        breaks: prev[dayOfWeek].breaks.map((item, i) => (i === index ? { ...item, [field]: value } : item)),
+      },
+    }));
+  };
+
+  const handleRemoveBreak = (dayOfWeek: number, index: number) => {
+    setScheduleState(prev => ({
+      ...prev,
+      [dayOfWeek]: {
+        ...prev[dayOfWeek],
+        breaks: prev[dayOfWeek].breaks.filter((_, i) => i !== index),
+      },
+    }));
+  };
+
   const handleApplyToAll = (dayOfWeek: number) => {
     const daySchedule = scheduleState[dayOfWeek];
     const newState: typeof scheduleState = {};
@@ -172,6 +232,7 @@ export const DoctorScheduleEditor = forwardRef<DoctorScheduleEditorRef, DoctorSc
       newState[key] = {
         ...daySchedule,
         dayOfWeek: key,
+        breaks: daySchedule.breaks.map(item => ({ ...item })),
       };
     });
 
@@ -185,6 +246,7 @@ export const DoctorScheduleEditor = forwardRef<DoctorScheduleEditorRef, DoctorSc
       startTime: day.isWorking ? day.startTime : null,
       endTime: day.isWorking ? day.endTime : null,
       isWorking: day.isWorking,
+      breaks: day.isWorking ? day.breaks.filter(item => item.startTime && item.endTime) : [],
     }));
 
     await onUpdate(scheduleArray);
@@ -202,6 +264,7 @@ export const DoctorScheduleEditor = forwardRef<DoctorScheduleEditorRef, DoctorSc
       startTime: day.isWorking ? day.startTime : null,
       endTime: day.isWorking ? day.endTime : null,
       isWorking: day.isWorking,
+      breaks: day.isWorking ? day.breaks.filter(item => item.startTime && item.endTime) : [],
     }));
   }, [scheduleState]);
 
@@ -220,55 +283,95 @@ export const DoctorScheduleEditor = forwardRef<DoctorScheduleEditorRef, DoctorSc
           return (
             <div
               key={key}
-              className="flex items-center gap-4 p-4 border border-stroke rounded-sm bg-bg-white hover:border-main-100 transition-smooth"
+              className="p-4 border border-stroke rounded-sm bg-bg-white hover:border-main-100 transition-smooth"
             >
-              {/* Checkbox для открыто/закрыто */}
-              <div className="flex items-center gap-2 min-w-[140px]">
-                <input
-                  type="checkbox"
-                  id={`day-${key}`}
-                  checked={daySchedule.isWorking}
-                  onChange={() => handleDayToggle(key)}
-                  className="w-4 h-4 text-main-100 border-stroke rounded focus:ring-main-100 focus:ring-2"
-                />
-                <label htmlFor={`day-${key}`} className="text-sm font-medium text-text-100 cursor-pointer">
-                  {label}
-                </label>
-              </div>
-
-              {/* Время работы */}
-              {daySchedule.isWorking ? (
-                <div className="flex items-center gap-2 flex-1">
-                  <input
-                    type="time"
-                    value={daySchedule.startTime || ''}
-                    onChange={e => handleTimeChange(key, 'startTime', e.target.value)}
-                    className="px-3 py-2 border border-stroke rounded-sm bg-bg-white text-sm text-text-100 focus:outline-none focus:border-main-100 transition-smooth"
-                    required={!hideSubmitButton}
-                  />
-                  <span className="text-text-50">—</span>
+              <div className="flex items-center gap-4">
+                {/* Checkbox для открыто/закрыто */}
+                <div className="flex items-center gap-2 min-w-[140px]">
                   <input
-                    type="time"
-                    value={daySchedule.endTime || ''}
-                    onChange={e => handleTimeChange(key, 'endTime', e.target.value)}
-                    className="px-3 py-2 border border-stroke rounded-sm bg-bg-white text-sm text-text-100 focus:outline-none focus:border-main-100 transition-smooth"
-                    required={!hideSubmitButton}
+                    type="checkbox"
+                    id={`day-${key}`}
+                    checked={daySchedule.isWorking}
+                    onChange={() => handleDayToggle(key)}
+                    className="w-4 h-4 text-main-100 border-stroke rounded focus:ring-main-100 focus:ring-2"
                   />
+                  <label htmlFor={`day-${key}`} className="text-sm font-medium text-text-100 cursor-pointer">
+                    {label}
+                  </label>
                 </div>
-              ) : (
-                <div className="flex-1 text-sm text-text-10">Выходной</div>
-              )}
 
-              {/* Кнопки действий */}
+                {/* Время работы */}
+                {daySchedule.isWorking ? (
+                  <div className="flex items-center gap-2 flex-1">
+                    <input
+                      type="time"
+                      value={daySchedule.startTime || ''}
+                      onChange={e => handleTimeChange(key, 'startTime', e.target.value)}
+                      className="px-3 py-2 border border-stroke rounded-sm bg-bg-white text-sm text-text-100 focus:outline-none focus:border-main-100 transition-smooth"
+                      required={!hideSubmitButton}
+                    />
+                    <span className="text-text-50">—</span>
+                    <input
+                      type="time"
+                      value={daySchedule.endTime || ''}
+                      onChange={e => handleTimeChange(key, 'endTime', e.target.value)}
+                      className="px-3 py-2 border border-stroke rounded-sm bg-bg-white text-sm text-text-100 focus:outline-none focus:border-main-100 transition-smooth"
+                      required={!hideSubmitButton}
+                    />
+                  </div>
+                ) : (
+                  <div className="flex-1 text-sm text-text-10">Выходной</div>
+                )}
+
+                {/* Кнопки действий */}
+                {daySchedule.isWorking && (
+                  <div className="flex gap-2">
+                    <button
+                      type="button"
+                      onClick={() => handleApplyToAll(key)}
+                      className="text-xs text-main-100 hover:text-main-100/80 transition-smooth"
+                      title="Применить ко всем дням"
+                    >
+                      Применить ко всем
+                    </button>
+                  </div>
+                )}
+              </div>
+
+              {/* Перерывы внутри рабочего дня */}
               {daySchedule.isWorking && (
-                <div className="flex gap-2">
+                <div className="mt-3 pl-[156px] space-y-2">
+                  {daySchedule.breaks.map((item, index) => (
+                    <div key={index} className="flex items-center gap-2">
+                      <span className="text-xs text-text-50 min-w-[60px]">Перерыв</span>
+                      <input
+                        type="time"
+                        value={item.startTime}
+                        onChange={e => handleBreakChange(key, index, 'startTime', e.target.value)}
+                        className="px-3 py-1.5 border border-stroke rounded-sm bg-bg-white text-sm text-text-100 focus:outline-none focus:border-main-100 transition-smooth"
+                      />
+                      <span className="text-text-50">—</span>
+                      <input
+                        type="time"
+                        value={item.endTime}
+                        onChange={e => handleBreakChange(key, index, 'endTime', e.target.value)}
+                        className="px-3 py-1.5 border border-stroke rounded-sm bg-bg-white text-sm text-text-100 focus:outline-none focus:border-main-100 transition-smooth"
+                      />
+                      <button
+                        type="button"
+                        onClick={() => handleRemoveBreak(key, index)}
+                        className="text-xs text-red-500 hover:text-red-600 transition-smooth"
+                      >
+                        Удалить
+                      </button>
+                    </div>
+                  ))}
                   <button
                     type="button"
-                    onClick={() => handleApplyToAll(key)}
+                    onClick={() => handleAddBreak(key)}
                     className="text-xs text-main-100 hover:text-main-100/80 transition-smooth"
-                    title="Применить ко всем дням"
                   >
-                    Применить ко всем
+                    + Добавить перерыв
                   </button>
                 </div>
               )}
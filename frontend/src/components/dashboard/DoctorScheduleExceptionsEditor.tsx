@@ -0,0 +1,215 @@
+import React, { useState } from 'react';
+import { Button } from '../common/Button';
+import { Card } from '../common/Card';
+import { Spinner } from '../common/Spinner';
+import { DoctorScheduleException, SaveScheduleExceptionRequest } from '../../types/api.types';
+import { getClinicTimeZone } from '../../utils/dateFormat';
+
+interface DoctorScheduleExceptionsEditorProps {
+  exceptions?: DoctorScheduleException[];
+  onSave: (exception: SaveScheduleExceptionRequest) => Promise<unknown>;
+  onDelete: (exceptionId: string) => Promise<unknown>;
+  isLoading?: boolean;
+  isSaving?: boolean;
+  title?: string;
+}
+
+const EMPTY_FORM: SaveScheduleExceptionRequest = {
+  date: '',
+  isWorking: false,
+  startTime: '09:00',
+  endTime: '18:00',
+  reason: '',
+};
+
+/**
+ * DoctorScheduleExceptionsEditor Component
+ * Исключения из недельного расписания на конкретные даты:
+ * выходной (отпуск, больничный) или особые часы (например, рабочая суббота)
+ */
+export const DoctorScheduleExceptionsEditor: React.FC<DoctorScheduleExceptionsEditorProps> = ({
+  exceptions = [],
+  onSave,
+  onDelete,
+  isLoading = false,
+  isSaving = false,
+  title = 'Исключения из расписания',
+}) => {
+  const [form, setForm] = useState<SaveScheduleExceptionRequest>(EMPTY_FORM);
+
+  const handleSubmit = async () => {
+    if (!form.date) return;
+
+    await onSave({
+      date: form.date,
+      isWorking: form.isWorking,
+      startTime: form.isWorking ? form.startTime : null,
+      endTime: form.isWorking ? form.endTime : null,
+      reason: form.reason || null,
+    });
+    setForm(EMPTY_FORM);
+  };
+
+  const handleEdit = (exception: DoctorScheduleException) => {
+    setForm({
+      date: exception.date,
+      isWorking: exception.isWorking,
+      startTime: exception.startTime || '09:00',
+      endTime: exception.endTime || '18:00',
+      reason: exception.reason || '',
+    });
+  };
+
+  const handleDelete = async (exception: DoctorScheduleException) => {
+    if (confirm(`Удалить исключение на ${formatDate(exception.date)}?`)) {
+      await onDelete(exception.id);
+    }
+  };
+
+  const formatDate = (date: string) => {
+    const [year, month, day] = date.split('-').map(Number);
+    return new Date(year, month - 1, day).toLocaleDateString('ru-RU', {
+      weekday: 'short',
+      day: '2-digit',
+      month: 'long',
+      year: 'numeric',
+    });
+  };
+
+  const formatTime = (date: Date | string) =>
+    new Date(date).toLocaleTimeString('ru-RU', { hour: '2-digit', minute: '2-digit', timeZone: getClinicTimeZone() });
+
+  return (
+    <Card title={title} padding="lg">
+      <div className="space-y-4">
+        <p className="text-sm text-text-10">
+          Исключение на дату заменяет недельное расписание: отметьте выходной или задайте особые часы работы.
+        </p>
+
+        {/* Форма добавления / изменения */}
+        <div className="flex flex-wrap items-end gap-3 p-4 border border-stroke rounded-sm bg-bg-white">
+          <div>
+            <label className="block text-xs text-text-50 mb-1">Дата</label>
+            <input
+              type="date"
+              value={form.date}
+              onChange={e => setForm(prev => ({ ...prev, date: e.target.value }))}
+              className="px-3 py-2 border border-stroke rounded-sm bg-bg-white text-sm text-text-100 focus:outline-none focus:border-main-100 transition-smooth"
+            />
+          </div>
+
+          <div>
+            <label className="block text-xs text-text-50 mb-1">Тип</label>
+            <select
+              value={form.isWorking ? 'working' : 'off'}
+              onChange={e => setForm(prev => ({ ...prev, isWorking: e.target.value === 'working' }))}
+              className="px-3 py-2 border border-stroke rounded-sm bg-bg-white text-sm text-text-100 focus:outline-none focus:border-main-100 transition-smooth"
+            >
+              <option value="off">Выходной</option>
+              <option value="working">Особые часы</option>
+            </select>
+          </div>
+
+          {form.isWorking && (
+            <div className="flex items-center gap-2">
+              <input
+                type="time"
+                value={form.startTime || ''}
+                onChange={e => setForm(prev => ({ ...prev, startTime: e.target.value }))}
+                className="px-3 py-2 border border-stroke rounded-sm bg-bg-white text-sm text-text-100 focus:outline-none focus:border-main-100 transition-smooth"
+              />
+              <span className="text-text-50">—</span>
+              <input
+                type="time"
+                value={form.endTime || ''}
+                onChange={e => setForm(prev => ({ ...prev, endTime: e.target.value }))}
+                className="px-3 py-2 border border-stroke rounded-sm bg-bg-white text-sm text-text-100 focus:outline-none focus:border-main-100 transition-smooth"
+              />
+            </div>
+          )}
+
+          <div className="flex-1 min-w-[160px]">
+            <label className="block text-xs text-text-50 mb-1">Причина</label>
+            <input
+              type="text"
+              value={form.reason || ''}
+              onChange={e => setForm(prev => ({ ...prev, reason: e.target.value }))}
+              placeholder="Отпуск, конференция..."
+              className="w-full px-3 py-2 border border-stroke rounded-sm bg-bg-white text-sm text-text-100 focus:outline-none focus:border-main-100 transition-smooth"
+            />
+          </div>
+
+          <Button
+            type="button"
+            variant="primary"
+            size="md"
+            onClick={handleSubmit}
+            isLoading={isSaving}
+            disabled={isSaving || !form.date}
+          >
+            Сохранить
+          </Button>
+        </div>
+
+        {/* Список исключений */}
+        {isLoading ? (
+          <div className="flex justify-center py-6">
+            <Spinner size="sm" />
+          </div>
+        ) : exceptions.length === 0 ? (
+          <p className="text-sm text-text-10 text-center py-4">Исключений на ближайшие даты нет</p>
+        ) : (
+          <div className="space-y-2">
+            {exceptions.map(exception => {
+              const conflicts = exception.conflicts || [];
+
+              return (
+                <div
+                  key={exception.id}
+                  className={`p-4 border rounded-sm ${conflicts.length > 0 ? 'border-red-300 bg-red-50' : 'border-stroke bg-bg-white'}`}
+                >
+                  <div className="flex items-center gap-4">
+                    <div className="min-w-[180px] text-sm font-medium text-text-100">{formatDate(exception.date)}</div>
+                    <div className="flex-1 text-sm text-text-50">
+                      {exception.isWorking ? `Особые часы: ${exception.startTime} — ${exception.endTime}` : 'Выходной'}
+                      {exception.reason && <span className="text-text-10"> · {exception.reason}</span>}
+                    </div>
+                    <div className="flex gap-2">
+                      <button
+                        type="button"
+                        onClick={() => handleEdit(exception)}
+                        className="text-xs text-main-100 hover:text-main-100/80 transition-smooth"
+                      >
+                        Изменить
+                      </button>
+                      <button
+                        type="button"
+                        onClick={() => handleDelete(exception)}
+                        className="text-xs text-red-500 hover:text-red-600 transition-smooth"
+                      >
+                        Удалить
+                      </button>
+                    </div>
+                  </div>
+
+                  {/* Приёмы, которые оказались вне рабочего времени */}
+                  {conflicts.length > 0 && (
+                    <div className="mt-3 text-xs text-red-600 space-y-1">
+                      <p className="font-medium">⚠️ Приёмы вне рабочего времени — перенесите или отмените их:</p>
+                      {conflicts.map(conflict => (
+                        <p key={conflict.id}>
+                          {formatTime(conflict.appointmentDate)} ({conflict.duration} мин) — {conflict.patient?.name || 'Пациент'}
+                          {conflict.patient?.phone && `, ${conflict.patient.phone}`}
+                        </p>
+                      ))}
+                    </div>
+                  )}
+                </div>
+              );
+            })}
+          </div>
+        )}
+      </div>
+    </Card>
+  );
+};
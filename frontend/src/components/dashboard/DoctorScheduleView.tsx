@@ -64,6 +64,7 @@ export const DoctorScheduleView: React.FC<DoctorScheduleViewProps> = ({
             const isWorking = daySchedule?.isWorking ?? false;
             const startTime = daySchedule?.startTime || null;
             const endTime = daySchedule?.endTime || null;
+            const breaks = isWorking ? daySchedule?.breaks || [] : [];
 
             return (
               <div
@@ -89,6 +90,11 @@ export const DoctorScheduleView: React.FC<DoctorScheduleViewProps> = ({
                     <span className="text-sm text-text-100 font-medium">
                       {startTime || '09:00'} — {endTime || '18:00'}
                     </span>
+                    {breaks.length > 0 && (
+                      <span className="text-xs text-text-10">
+                        · перерыв {breaks.map(item => `${item.startTime}–${item.endTime}`).join(', ')}
+                      </span>
+                    )}
                   </div>
                 ) : (
                   <div className="flex-1 text-sm text-text-10 italic">Выходной</div>
@@ -1,7 +1,10 @@
 import React, { useState, useEffect } from 'react';
 import { Modal, Button, Input } from '../common';
-import { Patient, Gender } from '../../types/api.types';
+import { Patient, Gender, UpdateMedicalHistoryRequest } from '../../types/api.types';
 import { useUpdatePatient } from '../../hooks/usePatients';
+import { usePatientMedicalHistory, useUpdatePatientMedicalHistory } from '../../hooks/useMedicalHistory';
+import { EMPTY_MEDICAL_HISTORY, cleanMedicalHistoryForm, toMedicalHistoryForm } from '../../utils/medicalHistory';
+import { MedicalHistoryFields } from './MedicalHistoryFields';
 
 interface EditPatientModalProps {
   isOpen: boolean;
@@ -12,7 +15,7 @@ interface EditPatientModalProps {
 
 /**
  * EditPatientModal Component
- * Модальное окно для редактирования данных пациента
+ * Модальное окно для редактирования данных пациента и анамнеза
  */
 export const EditPatientModal: React.FC<EditPatientModalProps> = ({
   isOpen,
@@ -21,6 +24,8 @@ export const EditPatientModal: React.FC<EditPatientModalProps> = ({
   onUpdate,
 }) => {
   const updateMutation = useUpdatePatient();
+  const updateHistoryMutation = useUpdatePatientMedicalHistory();
+  const { data: medicalHistory } = usePatientMedicalHistory(isOpen ? patient?.id : undefined);
 
   // Form state
   const [formData, setFormData] = useState({
@@ -32,6 +37,7 @@ export const EditPatientModal: React.FC<EditPatientModalProps> = ({
     notes: '',
   });
 
+  const [historyForm, setHistoryForm] = useState<UpdateMedicalHistoryRequest>(EMPTY_MEDICAL_HISTORY);
   const [error, setError] = useState('');
 
   // Инициализация данных при открытии модального окна
@@ -49,6 +55,13 @@ export const EditPatientModal: React.FC<EditPatientModalProps> = ({
     }
   }, [isOpen, patient]);
 
+  // Анамнез загружается отдельно от карточки
+  useEffect(() => {
+    if (isOpen) {
+      setHistoryForm(toMedicalHistoryForm(medicalHistory));
+    }
+  }, [isOpen, medicalHistory]);
+
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
     if (!patient) return;
@@ -70,6 +83,11 @@ export const EditPatientModal: React.FC<EditPatientModalProps> = ({
         data: patientData,
       });
 
+      await updateHistoryMutation.mutateAsync({
+        patientId: patient.id,
+        history: cleanMedicalHistoryForm(historyForm),
+      });
+
       console.log('✅ [EDIT PATIENT MODAL] Пациент успешно обновлен');
       
       if (onUpdate) {
@@ -99,7 +117,7 @@ export const EditPatientModal: React.FC<EditPatientModalProps> = ({
             type="submit"
             variant="primary"
             onClick={handleSubmit}
-            isLoading={updateMutation.isPending}
+            isLoading={updateMutation.isPending || updateHistoryMutation.isPending}
           >
             Сохранить
           </Button>
@@ -169,9 +187,18 @@ export const EditPatientModal: React.FC<EditPatientModalProps> = ({
             onChange={e => setFormData({ ...formData, notes: e.target.value })}
             rows={3}
             className="block w-full px-4 py-2.5 border border-stroke rounded-sm bg-bg-white text-sm focus:outline-none focus:border-main-100 transition-smooth resize-none"
-            placeholder="Аллергии, особые указания..."
+            placeholder="Особые указания..."
           />
         </div>
+
+        {/* Анамнез: аллергии и противопоказания показываются предупреждениями в записи */}
+        <div className="border-t border-stroke pt-4">
+          <h4 className="text-sm font-medium text-text-100 mb-3">Анамнез</h4>
+          {medicalHistory?.updatedSource === 'patient' && (
+            <p className="text-xs text-text-10 mb-3">Последнее обновление — со слов пациента в личном кабинете</p>
+          )}
+          <MedicalHistoryFields value={historyForm} onChange={setHistoryForm} />
+        </div>
       </form>
     </Modal>
   );
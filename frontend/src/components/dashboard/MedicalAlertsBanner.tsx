@@ -0,0 +1,60 @@
+import React from 'react';
+import { AlertTriangle, Info } from 'lucide-react';
+import { usePatientMedicalHistory } from '../../hooks/useMedicalHistory';
+import { getMedicalAlerts } from '../../utils/medicalHistory';
+import { formatAppointmentDate } from '../../utils/dateFormat';
+
+interface MedicalAlertsBannerProps {
+  patientId?: string;
+}
+
+/**
+ * MedicalAlertsBanner Component
+ * Предупреждения из анамнеза пациента (аллергии, антикоагулянты, беременность, опасные заболевания)
+ * в окне записи — чтобы их нельзя было пропустить перед лечением
+ */
+export const MedicalAlertsBanner: React.FC<MedicalAlertsBannerProps> = ({ patientId }) => {
+  const { data: history } = usePatientMedicalHistory(patientId);
+  const alerts = getMedicalAlerts(history);
+
+  if (alerts.length === 0) {
+    return null;
+  }
+
+  const critical = alerts.filter(alert => alert.level === 'critical');
+  const warnings = alerts.filter(alert => alert.level === 'warning');
+
+  return (
+    <div className="space-y-2">
+      {critical.length > 0 && (
+        <div className="p-3 border border-red-200 bg-red-50 rounded-sm flex gap-3">
+          <AlertTriangle className="w-5 h-5 text-red-600 flex-shrink-0 mt-0.5" />
+          <div className="text-sm text-red-700 space-y-1">
+            {critical.map(alert => (
+              <p key={alert.title}>
+                <strong>{alert.title}</strong>
+                {alert.details && <span> — {alert.details}</span>}
+              </p>
+            ))}
+          </div>
+        </div>
+      )}
+      {warnings.length > 0 && (
+        <div className="p-3 border border-yellow-200 bg-yellow-50 rounded-sm flex gap-3">
+          <Info className="w-5 h-5 text-yellow-700 flex-shrink-0 mt-0.5" />
+          <div className="text-sm text-yellow-700 space-y-1">
+            {warnings.map(alert => (
+              <p key={alert.title}>{alert.title}</p>
+            ))}
+          </div>
+        </div>
+      )}
+      {history?.updatedAt && (
+        <p className="text-xs text-text-10">
+          Анамнез обновлён {formatAppointmentDate(history.updatedAt)}
+          {history.updatedSource === 'patient' ? ' со слов пациента' : history.updatedBy ? ` · ${history.updatedBy.name}` : ''}
+        </p>
+      )}
+    </div>
+  );
+};
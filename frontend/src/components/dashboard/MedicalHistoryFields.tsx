@@ -0,0 +1,246 @@
+import React, { useState } from 'react';
+import { Plus, X } from 'lucide-react';
+import { Input } from '../common';
+import { UpdateMedicalHistoryRequest } from '../../types/api.types';
+import { MEDICAL_CONDITIONS } from '../../utils/medicalHistory';
+
+interface MedicalHistoryFieldsProps {
+  value: UpdateMedicalHistoryRequest;
+  onChange: (value: UpdateMedicalHistoryRequest) => void;
+  audience?: 'clinic' | 'patient'; // Формулировки для врача или для пациента
+}
+
+/**
+ * Частые аллергены — добавляются в список одним нажатием
+ */
+const COMMON_ALLERGENS = ['Лидокаин', 'Артикаин', 'Новокаин', 'Пенициллин', 'Латекс', 'Йод'];
+
+interface TagListInputProps {
+  label: string;
+  placeholder: string;
+  values: string[];
+  onChange: (values: string[]) => void;
+}
+
+/**
+ * Список значений: поле ввода + «Добавить» (или Enter), значения — плашки с удалением
+ */
+const TagListInput: React.FC<TagListInputProps> = ({ label, placeholder, values, onChange }) => {
+  const [draft, setDraft] = useState('');
+
+  const handleAdd = () => {
+    const value = draft.trim();
+    if (value && !values.includes(value)) {
+      onChange([...values, value]);
+    }
+    setDraft('');
+  };
+
+  return (
+    <div>
+      <label className="block text-sm font-normal text-text-10 mb-2">{label}</label>
+      {values.length > 0 && (
+        <div className="flex flex-wrap gap-2 mb-2">
+          {values.map(value => (
+            <span
+              key={value}
+              className="flex items-center gap-1 px-2 py-1 border border-stroke rounded-sm bg-bg-primary text-xs text-text-100"
+            >
+              {value}
+              <button
+                type="button"
+                onClick={() => onChange(values.filter(item => item !== value))}
+                className="text-text-10 hover:text-red-600"
+              >
+                <X className="w-3 h-3" />
+              </button>
+            </span>
+          ))}
+        </div>
+      )}
+      <div className="flex gap-2">
+        <Input
+          value={draft}
+          placeholder={placeholder}
+          onChange={e => setDraft(e.target.value)}
+          onKeyDown={e => {
+            if (e.key === 'Enter') {
+              e.preventDefault();
+              handleAdd();
+            }
+          }}
+        />
+        <button
+          type="button"
+          onClick={handleAdd}
+          disabled={!draft.trim()}
+          className="px-3 border border-stroke rounded-sm text-text-50 hover:bg-bg-primary disabled:opacity-50 transition-smooth"
+        >
+          <Plus className="w-4 h-4" />
+        </button>
+      </div>
+    </div>
+  );
+};
+
+/**
+ * MedicalHistoryFields Component
+ * Поля анамнеза: аллергии, заболевания, препараты, беременность, антикоагулянты.
+ * Используется в карточке пациента (клиника) и в настройках личного кабинета (пациент)
+ */
+export const MedicalHistoryFields: React.FC<MedicalHistoryFieldsProps> = ({ value, onChange, audience = 'clinic' }) => {
+  const isPatient = audience === 'patient';
+  const knownCodes = MEDICAL_CONDITIONS.map(condition => condition.code);
+  const otherConditions = value.conditions.filter(condition => !knownCodes.includes(condition));
+
+  const update = (patch: Partial<UpdateMedicalHistoryRequest>) => onChange({ ...value, ...patch });
+
+  const toggleCondition = (code: string) =>
+    update({
+      conditions: value.conditions.includes(code)
+        ? value.conditions.filter(condition => condition !== code)
+        : [...value.conditions, code],
+    });
+
+  const addAllergy = (substance = '') => update({ allergies: [...value.allergies, { substance, reaction: '' }] });
+
+  return (
+    <div className="space-y-5">
+      {/* Аллергии */}
+      <div>
+        <label className="block text-sm font-normal text-text-10 mb-2">
+          {isPatient ? 'Аллергия на лекарства и материалы' : 'Аллергии'}
+        </label>
+        <div className="space-y-2">
+          {value.allergies.map((allergy, index) => (
+            <div key={index} className="grid grid-cols-[1fr_1fr_auto] gap-2">
+              <Input
+                value={allergy.substance}
+                placeholder="Вещество (например, лидокаин)"
+                onChange={e =>
+                  update({
+                    allergies: value.allergies.map((item, i) =>
+                      i === index ? { ...item, substance: e.target.value } : item
+                    ),
+                  })
+                }
+              />
+              <Input
+                value={allergy.reaction || ''}
+                placeholder="Реакция (отёк, сыпь...)"
+                onChange={e =>
+                  update({
+                    allergies: value.allergies.map((item, i) =>
+                      i === index ? { ...item, reaction: e.target.value } : item
+                    ),
+                  })
+                }
+              />
+              <button
+                type="button"
+                onClick={() => update({ allergies: value.allergies.filter((_, i) => i !== index) })}
+                className="px-3 border border-stroke rounded-sm text-text-10 hover:text-red-600 transition-smooth"
+              >
+                <X className="w-4 h-4" />
+              </button>
+            </div>
+          ))}
+        </div>
+        <div className="flex flex-wrap items-center gap-2 mt-2">
+          <button
+            type="button"
+            onClick={() => addAllergy()}
+            className="flex items-center gap-1 px-2 py-1 border border-stroke rounded-sm text-xs text-text-100 hover:bg-bg-primary transition-smooth"
+          >
+            <Plus className="w-3 h-3" />
+            Добавить
+          </button>
+          {COMMON_ALLERGENS.filter(
+            allergen => !value.allergies.some(allergy => allergy.substance.toLowerCase() === allergen.toLowerCase())
+          ).map(allergen => (
+            <button
+              key={allergen}
+              type="button"
+              onClick={() => addAllergy(allergen)}
+              className="px-2 py-1 border border-dashed border-stroke rounded-sm text-xs text-text-50 hover:bg-bg-primary transition-smooth"
+            >
+              {allergen}
+            </button>
+          ))}
+        </div>
+      </div>
+
+      {/* Хронические заболевания */}
+      <div>
+        <label className="block text-sm font-normal text-text-10 mb-2">Хронические заболевания</label>
+        <div className="grid grid-cols-1 sm:grid-cols-2 gap-2">
+          {MEDICAL_CONDITIONS.map(condition => (
+            <label key={condition.code} className="flex items-center gap-2 text-sm text-text-100">
+              <input
+                type="checkbox"
+                checked={value.conditions.includes(condition.code)}
+                onChange={() => toggleCondition(condition.code)}
+              />
+              {condition.label}
+            </label>
+          ))}
+        </div>
+      </div>
+
+      <TagListInput
+        label="Другие заболевания"
+        placeholder="Название заболевания"
+        values={otherConditions}
+        onChange={others =>
+          update({ conditions: [...value.conditions.filter(condition => knownCodes.includes(condition)), ...others] })
+        }
+      />
+
+      <TagListInput
+        label={isPatient ? 'Лекарства, которые вы принимаете постоянно' : 'Принимаемые препараты'}
+        placeholder="Название препарата"
+        values={value.medications}
+        onChange={medications => update({ medications })}
+      />
+
+      {/* Беременность и антикоагулянты */}
+      <div className="space-y-3">
+        <label className="flex items-center gap-2 text-sm text-text-100">
+          <input
+            type="checkbox"
+            checked={value.isPregnant}
+            onChange={e => update({ isPregnant: e.target.checked })}
+          />
+          Беременность
+        </label>
+        <label className="flex items-center gap-2 text-sm text-text-100">
+          <input
+            type="checkbox"
+            checked={value.takesAnticoagulants}
+            onChange={e => update({ takesAnticoagulants: e.target.checked })}
+          />
+          {isPatient ? 'Принимаю препараты, разжижающие кровь (антикоагулянты)' : 'Принимает антикоагулянты'}
+        </label>
+        {value.takesAnticoagulants && (
+          <Input
+            value={value.anticoagulants || ''}
+            placeholder="Какие (варфарин, ривароксабан, аспирин...)"
+            onChange={e => update({ anticoagulants: e.target.value })}
+          />
+        )}
+      </div>
+
+      <div>
+        <label className="block text-sm font-normal text-text-10 mb-2">
+          {isPatient ? 'Что ещё важно знать врачу' : 'Дополнительно'}
+        </label>
+        <textarea
+          value={value.notes || ''}
+          onChange={e => update({ notes: e.target.value })}
+          rows={2}
+          className="block w-full px-4 py-2.5 border border-stroke rounded-sm bg-bg-white text-sm focus:outline-none focus:border-main-100 transition-smooth resize-none"
+        />
+      </div>
+    </div>
+  );
+};
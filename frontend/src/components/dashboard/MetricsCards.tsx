@@ -80,10 +80,18 @@ export const MetricsCards: React.FC<MetricsCardsProps> = ({ summary, isLoading =
       bgColor: 'bg-main-10',
       iconColor: 'main',
     },
+    {
+      id: 'noShow',
+      label: 'Неявки',
+      value: `${(summary.noShowAppointments || 0).toLocaleString('ru-RU')} (${summary.noShowRate || 0}%)`,
+      icon: patientIcon,
+      bgColor: 'bg-red-50',
+      iconColor: 'red',
+    },
   ];
 
   return (
-    <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-4 gap-6">
+    <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-5 gap-6">
       {metrics.map((metric) => (
         <Card key={metric.id} padding="none" className="p-5 hover:shadow-md transition-shadow">
           <div className="space-y-4">
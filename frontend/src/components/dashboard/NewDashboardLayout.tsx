@@ -1,6 +1,7 @@
 import React from 'react';
 import { Sidebar } from './Sidebar';
 import { Header } from './Header';
+import { useClinicTimezoneSync } from '../../hooks/useClinic';
 
 /**
  * New Dashboard Layout - For Role-based Dashboards
@@ -8,6 +9,8 @@ import { Header } from './Header';
  * Использует children вместо Outlet
  */
 export const NewDashboardLayout: React.FC<{ children: React.ReactNode }> = ({ children }) => {
+  useClinicTimezoneSync();
+
   return (
     <div className="flex h-screen bg-bg-primary">
       {/* Sidebar */}
@@ -0,0 +1,187 @@
+import React, { useState } from 'react';
+import { format } from 'date-fns';
+import { ru } from 'date-fns/locale';
+import { Card, Spinner } from '../common';
+import { useNotificationDeliveries, useRetryNotificationDelivery } from '../../hooks/useNotifications';
+import { NotificationDeliveryChannel, NotificationDeliveryStatus } from '../../types/api.types';
+
+const STATUS_CONFIG: Record<NotificationDeliveryStatus, { label: string; className: string }> = {
+  pending: { label: 'В очереди', className: 'bg-gray-100 text-gray-800' },
+  sending: { label: 'Отправляется', className: 'bg-blue-100 text-blue-800' },
+  sent: { label: 'Отправлено', className: 'bg-green-100 text-green-800' },
+  retrying: { label: 'Повтор', className: 'bg-yellow-100 text-yellow-800' },
+  failed: { label: 'Ошибка', className: 'bg-red-100 text-red-800' },
+};
+
+const CHANNEL_LABELS: Record<NotificationDeliveryChannel, string> = {
+  email: 'Email',
+  sms: 'SMS',
+};
+
+/**
+ * NotificationDeliveryLog Component
+ * Журнал отправки уведомлений по email/SMS с повторами (для ADMIN/CLINIC)
+ */
+export const NotificationDeliveryLog: React.FC = () => {
+  const [status, setStatus] = useState<NotificationDeliveryStatus | ''>('');
+  const [channel, setChannel] = useState<NotificationDeliveryChannel | ''>('');
+  const [page, setPage] = useState(1);
+
+  const { data, isLoading } = useNotificationDeliveries({
+    status: status || undefined,
+    channel: channel || undefined,
+    page,
+    limit: 20,
+  });
+  const retryMutation = useRetryNotificationDelivery();
+
+  const deliveries = data?.deliveries || [];
+  const meta = data?.meta;
+
+  const formatDate = (date?: Date | string | null) => {
+    if (!date) return '-';
+    try {
+      return format(new Date(date), 'dd.MM.yyyy HH:mm', { locale: ru });
+    } catch {
+      return String(date);
+    }
+  };
+
+  return (
+    <Card padding="none" className="p-5">
+      <div className="flex items-center justify-between mb-4 gap-4 flex-wrap">
+        <div>
+          <h3 className="text-lg font-medium text-text-50">Журнал отправки</h3>
+          <p className="text-xs text-text-10 mt-1">Email и SMS уведомления с автоматическими повторами</p>
+        </div>
+        <div className="flex gap-2">
+          <select
+            value={channel}
+            onChange={(e) => {
+              setChannel(e.target.value as NotificationDeliveryChannel | '');
+              setPage(1);
+            }}
+            className="px-3 py-2 border border-stroke rounded-sm text-sm text-text-50 bg-bg-white"
+          >
+            <option value="">Все каналы</option>
+            <option value="email">Email</option>
+            <option value="sms">SMS</option>
+          </select>
+          <select
+            value={status}
+            onChange={(e) => {
+              setStatus(e.target.value as NotificationDeliveryStatus | '');
+              setPage(1);
+            }}
+            className="px-3 py-2 border border-stroke rounded-sm text-sm text-text-50 bg-bg-white"
+          >
+            <option value="">Все статусы</option>
+            {(Object.keys(STATUS_CONFIG) as NotificationDeliveryStatus[]).map((key) => (
+              <option key={key} value={key}>
+                {STATUS_CONFIG[key].label}
+              </option>
+            ))}
+          </select>
+        </div>
+      </div>
+
+      {isLoading ? (
+        <div className="flex justify-center py-8">
+          <Spinner />
+        </div>
+      ) : deliveries.length === 0 ? (
+        <div className="text-center py-8">
+          <p className="text-sm text-text-10">Отправок пока нет</p>
+        </div>
+      ) : (
+        <div className="overflow-x-auto">
+          <table className="w-full">
+            <thead>
+              <tr className="border-b border-stroke">
+                <th className="text-left py-3 px-4 text-sm font-normal text-text-10">Дата</th>
+                <th className="text-left py-3 px-4 text-sm font-normal text-text-10">Канал</th>
+                <th className="text-left py-3 px-4 text-sm font-normal text-text-10">Получатель</th>
+                <th className="text-left py-3 px-4 text-sm font-normal text-text-10">Уведомление</th>
+                <th className="text-left py-3 px-4 text-sm font-normal text-text-10">Статус</th>
+                <th className="text-right py-3 px-4 text-sm font-normal text-text-10"></th>
+              </tr>
+            </thead>
+            <tbody>
+              {deliveries.map((delivery) => {
+                const statusConfig = STATUS_CONFIG[delivery.status] || {
+                  label: delivery.status,
+                  className: 'bg-gray-100 text-gray-800',
+                };
+
+                return (
+                  <tr key={delivery.id} className="border-b border-stroke hover:bg-bg-primary transition-colors">
+                    <td className="py-3 px-4 text-sm text-text-100">{formatDate(delivery.createdAt)}</td>
+                    <td className="py-3 px-4">
+                      <div className="text-sm text-text-100">{CHANNEL_LABELS[delivery.channel] || delivery.channel}</div>
+                      <div className="text-xs text-text-10">{delivery.provider}</div>
+                    </td>
+                    <td className="py-3 px-4 text-sm text-text-50">{delivery.recipient}</td>
+                    <td className="py-3 px-4 text-sm text-text-50">
+                      {delivery.notification?.title || delivery.subject || '-'}
+                    </td>
+                    <td className="py-3 px-4">
+                      <span className={`px-2 py-1 text-xs font-medium rounded-full ${statusConfig.className}`}>
+                        {statusConfig.label}
+                      </span>
+                      <div className="text-xs text-text-10 mt-1">
+                        Попыток: {delivery.attempts}
+                        {delivery.status === 'retrying' && delivery.nextRetryAt && (
+                          <> · след. {formatDate(delivery.nextRetryAt)}</>
+                        )}
+                      </div>
+                      {delivery.lastError && delivery.status !== 'sent' && (
+                        <div className="text-xs text-red-500 mt-1 max-w-xs truncate" title={delivery.lastError}>
+                          {delivery.lastError}
+                        </div>
+                      )}
+                    </td>
+                    <td className="py-3 px-4 text-right">
+                      {delivery.status !== 'sent' && delivery.status !== 'sending' && (
+                        <button
+                          onClick={() => retryMutation.mutate(delivery.id)}
+                          className="px-3 py-1 text-xs text-main-100 hover:bg-main-10 rounded-sm transition-smooth"
+                          disabled={retryMutation.isPending}
+                        >
+                          Повторить
+                        </button>
+                      )}
+                    </td>
+                  </tr>
+                );
+              })}
+            </tbody>
+          </table>
+        </div>
+      )}
+
+      {meta && meta.totalPages > 1 && (
+        <div className="flex items-center justify-between mt-4 pt-4 border-t border-stroke">
+          <div className="text-sm text-text-10">
+            Страница {meta.page} из {meta.totalPages}
+          </div>
+          <div className="flex gap-2">
+            <button
+              onClick={() => setPage(page - 1)}
+              disabled={page <= 1}
+              className="px-3 py-1 text-sm border border-stroke rounded-sm disabled:opacity-50"
+            >
+              Назад
+            </button>
+            <button
+              onClick={() => setPage(page + 1)}
+              disabled={page >= meta.totalPages}
+              className="px-3 py-1 text-sm border border-stroke rounded-sm disabled:opacity-50"
+            >
+              Вперёд
+            </button>
+          </div>
+        </div>
+      )}
+    </Card>
+  );
+};
@@ -2,8 +2,9 @@ import React, { useState, useRef, useEffect } from 'react';
 import { useNavigate } from 'react-router-dom';
 import { useNotifications, useUnreadNotificationsCount, useMarkNotificationAsRead, useMarkAllNotificationsAsRead } from '../../hooks/useNotifications';
 import { useAuthStore } from '../../store/useAuthStore';
-import { Notification } from '../../types/api.types';
+import { Notification, NotificationType } from '../../types/api.types';
 import { Spinner } from '../common';
+import { SuggestedDateActions } from './SuggestedDateActions';
 import notificationIcon from '../../assets/icons/notification.svg';
 
 /**
@@ -74,6 +75,12 @@ export const NotificationDropdown: React.FC = () => {
       } else {
         navigate(`/dashboard/patient/appointments?highlight=${notification.appointmentId}`);
       }
+    } else if (notification.type === NotificationType.WaitlistOffer) {
+      // Предложение из листа ожидания отвечается на странице «Мои записи»
+      navigate('/dashboard/patient/appointments');
+    } else if (notification.type === NotificationType.TreatmentPlan && !isAdmin && !isDoctor) {
+      // Смету плана лечения пациент принимает на главной странице кабинета
+      navigate('/dashboard/patient');
     }
 
     setIsOpen(false);
@@ -145,30 +152,50 @@ export const NotificationDropdown: React.FC = () => {
             ) : (
               <div className="divide-y divide-stroke">
                 {notifications.map((notification) => (
-                  <button
-                    key={notification.id}
-                    onClick={() => handleNotificationClick(notification)}
-                    className={`w-full text-left px-4 py-3 hover:bg-bg-primary transition-smooth ${
-                      !notification.isRead ? 'bg-main-10/10' : ''
-                    }`}
-                  >
-                    <div className="flex items-start gap-3">
-                      <div className={`flex-shrink-0 w-2 h-2 rounded-full mt-2 ${
-                        !notification.isRead ? 'bg-main-100' : 'bg-transparent'
-                      }`} />
-                      <div className="flex-1 min-w-0">
-                        <p className="text-sm font-medium text-text-100 mb-1">
-                          {notification.title}
-                        </p>
-                        <p className="text-xs text-text-50 line-clamp-2 mb-2">
-                          {notification.message}
-                        </p>
-                        <p className="text-xs text-text-10">
-                          {formatDate(notification.createdAt)}
-                        </p>
+                  <div key={notification.id}>
+                    <button
+                      onClick={() => handleNotificationClick(notification)}
+                      className={`w-full text-left px-4 py-3 hover:bg-bg-primary transition-smooth ${
+                        !notification.isRead ? 'bg-main-10/10' : ''
+                      }`}
+                    >
+                      <div className="flex items-start gap-3">
+                        <div className={`flex-shrink-0 w-2 h-2 rounded-full mt-2 ${
+                          !notification.isRead ? 'bg-main-100' : 'bg-transparent'
+                        }`} />
+                        <div className="flex-1 min-w-0">
+                          <p className="text-sm font-medium text-text-100 mb-1">
+                            {notification.title}
+                          </p>
+                          <p className="text-xs text-text-50 line-clamp-2 mb-2">
+                            {notification.message}
+                          </p>
+                          <div className="flex items-center gap-2 text-xs text-text-10">
+                            <span>{formatDate(notification.createdAt)}</span>
+                            {notification.type === NotificationType.Reminder && (
+                              <span className="px-2 py-0.5 bg-main-10 text-main-100 rounded-sm">
+                                ⏰ Напоминание
+                              </span>
+                            )}
+                            {notification.type === NotificationType.WaitlistOffer && (
+                              <span className="px-2 py-0.5 bg-main-10 text-main-100 rounded-sm">
+                                Лист ожидания
+                              </span>
+                            )}
+                          </div>
+                        </div>
                       </div>
-                    </div>
-                  </button>
+                    </button>
+                    {/* Ответ на предложенное клиникой новое время */}
+                    {notification.suggestion && notification.appointmentId && (
+                      <SuggestedDateActions
+                        appointmentId={notification.appointmentId}
+                        suggestedNewDate={notification.suggestion.suggestedNewDate}
+                        status={notification.suggestion.status}
+                        className="px-4 pb-3 pl-9"
+                      />
+                    )}
+                  </div>
                 ))}
               </div>
             )}
@@ -22,6 +22,7 @@ export const NotificationsSection: React.FC<NotificationsSectionProps> = ({
     emailNotificationsEnabled: true,
     smsNotificationsEnabled: false,
     appointmentReminderHours: 24,
+    waitlistOfferMinutes: 120,
     notifyNewAppointments: true,
     notifyCancellations: true,
     notifyConfirmations: true,
@@ -29,6 +30,8 @@ export const NotificationsSection: React.FC<NotificationsSectionProps> = ({
     language: 'ru' as 'ru' | 'en' | 'am',
     currency: 'AMD' as 'AMD' | 'RUB' | 'USD',
     defaultAppointmentDuration: 30,
+    bufferBeforeMinutes: 0,
+    bufferAfterMinutes: 0,
   });
 
   useEffect(() => {
@@ -37,6 +40,7 @@ export const NotificationsSection: React.FC<NotificationsSectionProps> = ({
         emailNotificationsEnabled: settings.emailNotificationsEnabled ?? true,
         smsNotificationsEnabled: settings.smsNotificationsEnabled ?? false,
         appointmentReminderHours: settings.appointmentReminderHours ?? 24,
+        waitlistOfferMinutes: settings.waitlistOfferMinutes ?? 120,
         notifyNewAppointments: settings.notifyNewAppointments ?? true,
         notifyCancellations: settings.notifyCancellations ?? true,
         notifyConfirmations: settings.notifyConfirmations ?? true,
@@ -44,6 +48,8 @@ export const NotificationsSection: React.FC<NotificationsSectionProps> = ({
         language: settings.language || 'ru',
         currency: settings.currency || 'AMD',
         defaultAppointmentDuration: settings.defaultAppointmentDuration || 30,
+        bufferBeforeMinutes: settings.bufferBeforeMinutes ?? 0,
+        bufferAfterMinutes: settings.bufferAfterMinutes ?? 0,
       });
     }
   }, [settings]);
@@ -136,6 +142,39 @@ export const NotificationsSection: React.FC<NotificationsSectionProps> = ({
                 className="block w-full px-4 py-2.5 border border-stroke rounded-sm bg-bg-white text-sm focus:outline-none focus:border-main-100"
               />
             </div>
+
+            <div>
+              <label className="block text-sm font-normal text-text-10 mb-2">
+                Подготовка перед приёмом (минуты)
+              </label>
+              <input
+                type="number"
+                name="bufferBeforeMinutes"
+                value={formData.bufferBeforeMinutes}
+                onChange={e => handleNumberChange('bufferBeforeMinutes', e.target.value)}
+                min="0"
+                max="120"
+                className="block w-full px-4 py-2.5 border border-stroke rounded-sm bg-bg-white text-sm focus:outline-none focus:border-main-100"
+              />
+            </div>
+
+            <div>
+              <label className="block text-sm font-normal text-text-10 mb-2">
+                Уборка и стерилизация после приёма (минуты)
+              </label>
+              <input
+                type="number"
+                name="bufferAfterMinutes"
+                value={formData.bufferAfterMinutes}
+                onChange={e => handleNumberChange('bufferAfterMinutes', e.target.value)}
+                min="0"
+                max="120"
+                className="block w-full px-4 py-2.5 border border-stroke rounded-sm bg-bg-white text-sm focus:outline-none focus:border-main-100"
+              />
+              <p className="text-xs text-text-10 mt-1">
+                Время между приёмами, когда кресло и врач заняты. Для процедуры можно задать своё в категориях лечения
+              </p>
+            </div>
           </div>
         </div>
 
@@ -181,6 +220,24 @@ export const NotificationsSection: React.FC<NotificationsSectionProps> = ({
               <p className="text-xs text-text-10 mt-1">От 1 до 168 часов (7 дней)</p>
             </div>
 
+            <div>
+              <label className="block text-sm font-normal text-text-10 mb-2">
+                Срок ответа на предложение из листа ожидания (минуты)
+              </label>
+              <input
+                type="number"
+                name="waitlistOfferMinutes"
+                value={formData.waitlistOfferMinutes}
+                onChange={e => handleNumberChange('waitlistOfferMinutes', e.target.value)}
+                min="5"
+                max="1440"
+                className="block w-full px-4 py-2.5 border border-stroke rounded-sm bg-bg-white text-sm focus:outline-none focus:border-main-100"
+              />
+              <p className="text-xs text-text-10 mt-1">
+                От 5 минут до 24 часов. Если пациент не ответит, время предложат следующему в очереди
+              </p>
+            </div>
+
             <div className="pt-2 space-y-3">
               <label className="flex items-center gap-3 cursor-pointer">
                 <input
@@ -0,0 +1,463 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { Button, Spinner } from '../common';
+import { Appointment, DentalChartCode, DentalChartTooth, ToothSurface } from '../../types/api.types';
+import { useDentalChart, useAddDentalChartEntry } from '../../hooks/useDentalChart';
+import { formatAppointmentDate, formatAppointmentDateTime, toClinicDateKey } from '../../utils/dateFormat';
+import {
+  DENTAL_CHART_CODES,
+  DENTITION_LAYOUT,
+  Dentition,
+  SURFACE_LABELS,
+  TOOTH_SURFACES,
+  ToothNumbering,
+  formatToothNumber,
+  isPatientRightSide,
+  isUpperTooth,
+} from '../../utils/odontogram';
+
+type LinkableAppointment = Pick<Appointment, 'id' | 'appointmentDate' | 'reason' | 'status'>;
+
+interface OdontogramProps {
+  patientId: string;
+  appointments?: LinkableAppointment[]; // Приёмы пациента, к которым можно привязать изменение
+  readOnly?: boolean;
+  className?: string;
+}
+
+const INITIAL_FORM = {
+  code: 'caries' as DentalChartCode,
+  surfaces: [] as ToothSurface[],
+  appointmentId: '',
+  notes: '',
+};
+
+const inputClassName =
+  'w-full px-3 py-2 border border-stroke rounded-sm bg-bg-white text-sm text-text-100 focus:outline-none focus:border-main-100';
+
+const toggleClassName = (active: boolean) =>
+  `px-3 py-1.5 text-xs rounded-sm border transition-smooth ${
+    active ? 'bg-main-100 text-white border-main-100' : 'bg-bg-white text-text-50 border-stroke hover:border-main-100'
+  }`;
+
+/**
+ * Поверхности на схеме зуба: сверху — вестибулярная у верхних зубов и оральная у нижних,
+ * медиальная — со стороны средней линии
+ */
+const getSurfacePolygons = (tooth: number): Array<{ surface: ToothSurface; points: string }> => {
+  const upper = isUpperTooth(tooth);
+  const rightSide = isPatientRightSide(tooth);
+
+  return [
+    { surface: upper ? 'B' : 'L', points: '2,2 38,2 27,13 13,13' },
+    { surface: upper ? 'L' : 'B', points: '13,27 27,27 38,38 2,38' },
+    { surface: rightSide ? 'D' : 'M', points: '2,2 13,13 13,27 2,38' },
+    { surface: rightSide ? 'M' : 'D', points: '38,2 38,38 27,27 27,13' },
+    { surface: 'O', points: '13,13 27,13 27,27 13,27' },
+  ];
+};
+
+interface ToothProps {
+  tooth: number;
+  state?: DentalChartTooth;
+  numbering: ToothNumbering;
+  isSelected: boolean;
+  onClick: () => void;
+}
+
+/**
+ * Зуб на схеме: пять поверхностей, состояние зуба целиком — рамкой и точками под схемой
+ */
+const Tooth: React.FC<ToothProps> = ({ tooth, state, numbering, isSelected, onClick }) => {
+  const states = state?.states || [];
+  const isMissing = states.includes('missing');
+  const hasCrown = states.includes('crown');
+  const label = formatToothNumber(tooth, numbering);
+  const title = [
+    `Зуб ${label}`,
+    ...states.map(code => DENTAL_CHART_CODES[code]?.label || code),
+    ...Object.entries(state?.surfaces || {}).map(
+      ([surface, code]) => `${SURFACE_LABELS[surface as ToothSurface]}: ${DENTAL_CHART_CODES[code]?.label || code}`
+    ),
+  ].join('\n');
+
+  const number = <span className="text-[10px] text-text-50 leading-none">{label}</span>;
+
+  return (
+    <button
+      type="button"
+      onClick={onClick}
+      title={title}
+      className={`flex flex-col items-center gap-1 p-0.5 rounded-sm transition-smooth ${
+        isSelected ? 'bg-main-10 ring-1 ring-main-100' : 'hover:bg-bg-primary'
+      }`}
+    >
+      {isUpperTooth(tooth) && number}
+      <svg viewBox="0 0 40 40" className={`w-7 h-7 md:w-8 md:h-8 ${isMissing ? 'opacity-40' : ''}`}>
+        {getSurfacePolygons(tooth).map(({ surface, points }) => {
+          const code = state?.surfaces[surface];
+          return (
+            <polygon
+              key={surface}
+              points={points}
+              fill={code ? DENTAL_CHART_CODES[code]?.color : '#FFFFFF'}
+              stroke="#CBD5E1"
+              strokeWidth={1}
+            />
+          );
+        })}
+        {hasCrown && (
+          <rect x={1} y={1} width={38} height={38} fill="none" stroke={DENTAL_CHART_CODES.crown.color} strokeWidth={3} />
+        )}
+        {isMissing && (
+          <g stroke="#6B7280" strokeWidth={3}>
+            <line x1={4} y1={4} x2={36} y2={36} />
+            <line x1={36} y1={4} x2={4} y2={36} />
+          </g>
+        )}
+      </svg>
+      <span className="flex gap-0.5 h-1.5">
+        {states
+          .filter(code => code !== 'missing' && code !== 'crown')
+          .map(code => (
+            <span key={code} className="w-1.5 h-1.5 rounded-full" style={{ backgroundColor: DENTAL_CHART_CODES[code]?.color }} />
+          ))}
+      </span>
+      {!isUpperTooth(tooth) && number}
+    </button>
+  );
+};
+
+/**
+ * Odontogram Component
+ * Зубная карта пациента: состояния и процедуры по зубам и поверхностям.
+ * Каждое изменение сохраняется с датой и приёмом; карту можно посмотреть на прошлую дату
+ */
+export const Odontogram: React.FC<OdontogramProps> = ({ patientId, appointments = [], readOnly = false, className = '' }) => {
+  const [numbering, setNumbering] = useState<ToothNumbering>('FDI');
+  const [dentition, setDentition] = useState<Dentition>('permanent');
+  const [asOf, setAsOf] = useState('');
+  const [selectedTooth, setSelectedTooth] = useState<number | null>(null);
+  const [formData, setFormData] = useState(INITIAL_FORM);
+
+  const { data: chart, isLoading, error } = useDentalChart(patientId, asOf || undefined);
+  const addEntryMutation = useAddDentalChartEntry(patientId);
+
+  const isHistoryView = !!asOf;
+  const canEdit = !readOnly && !isHistoryView;
+  const todayKey = toClinicDateKey(new Date());
+
+  const teethByNumber = useMemo(() => {
+    const map = new Map<number, DentalChartTooth>();
+    chart?.teeth.forEach(tooth => map.set(tooth.tooth, tooth));
+    return map;
+  }, [chart]);
+
+  const linkableAppointments = useMemo(
+    () =>
+      appointments
+        .filter(appointment => appointment.status !== 'cancelled')
+        .sort((a, b) => new Date(b.appointmentDate).getTime() - new Date(a.appointmentDate).getTime()),
+    [appointments]
+  );
+
+  // По умолчанию изменение привязывается к приёму, который идёт сейчас
+  useEffect(() => {
+    const current = linkableAppointments.find(appointment => appointment.status === 'in_progress');
+    setFormData(prev => (prev.appointmentId || !current ? prev : { ...prev, appointmentId: current.id }));
+  }, [linkableAppointments]);
+
+  const visibleEntries = useMemo(
+    () => (chart?.entries || []).filter(entry => selectedTooth === null || entry.tooth === selectedTooth),
+    [chart, selectedTooth]
+  );
+
+  const codeScope = DENTAL_CHART_CODES[formData.code].scope;
+  const selectedState = selectedTooth !== null ? teethByNumber.get(selectedTooth) : undefined;
+
+  const handleToothClick = (tooth: number) => {
+    setSelectedTooth(prev => (prev === tooth ? null : tooth));
+    setFormData(prev => ({ ...prev, surfaces: [] }));
+  };
+
+  const handleCodeChange = (code: DentalChartCode) => {
+    // Для записей на зуб целиком поверхности не указываются
+    setFormData(prev => ({
+      ...prev,
+      code,
+      surfaces: DENTAL_CHART_CODES[code].scope === 'tooth' ? [] : prev.surfaces,
+    }));
+  };
+
+  const toggleSurface = (surface: ToothSurface) => {
+    setFormData(prev => ({
+      ...prev,
+      surfaces: prev.surfaces.includes(surface)
+        ? prev.surfaces.filter(item => item !== surface)
+        : [...prev.surfaces, surface],
+    }));
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (selectedTooth === null) return;
+
+    try {
+      await addEntryMutation.mutateAsync({
+        tooth: selectedTooth,
+        code: formData.code,
+        surfaces: formData.surfaces.length > 0 ? formData.surfaces : undefined,
+        appointmentId: formData.appointmentId || null,
+        notes: formData.notes.trim() || null,
+      });
+      setFormData(prev => ({ ...INITIAL_FORM, appointmentId: prev.appointmentId }));
+    } catch {
+      // Ошибка показывается через toast в хуке
+    }
+  };
+
+  const renderRow = (teeth: number[]) => (
+    <div className="flex justify-center gap-0.5 md:gap-1">
+      {teeth.map((tooth, index) => (
+        <React.Fragment key={tooth}>
+          {index === teeth.length / 2 && <div className="w-px bg-stroke mx-1" />}
+          <Tooth
+            tooth={tooth}
+            state={teethByNumber.get(tooth)}
+            numbering={numbering}
+            isSelected={selectedTooth === tooth}
+            onClick={() => handleToothClick(tooth)}
+          />
+        </React.Fragment>
+      ))}
+    </div>
+  );
+
+  const isSubmitDisabled =
+    (codeScope === 'surface' && formData.surfaces.length === 0) || addEntryMutation.isPending;
+
+  return (
+    <div className={`space-y-4 ${className}`}>
+      {/* Панель управления */}
+      <div className="flex flex-wrap items-center justify-between gap-3">
+        <div className="flex flex-wrap gap-2">
+          <div className="flex gap-1">
+            {(['FDI', 'Universal'] as ToothNumbering[]).map(value => (
+              <button key={value} type="button" className={toggleClassName(numbering === value)} onClick={() => setNumbering(value)}>
+                {value}
+              </button>
+            ))}
+          </div>
+          <div className="flex gap-1">
+            <button type="button" className={toggleClassName(dentition === 'permanent')} onClick={() => setDentition('permanent')}>
+              Постоянные
+            </button>
+            <button type="button" className={toggleClassName(dentition === 'primary')} onClick={() => setDentition('primary')}>
+              Молочные
+            </button>
+          </div>
+        </div>
+        <div className="flex items-center gap-2">
+          <label className="text-xs text-text-10">Состояние на дату</label>
+          <input
+            type="date"
+            value={asOf}
+            max={todayKey}
+            onChange={e => setAsOf(e.target.value)}
+            className="px-2 py-1.5 border border-stroke rounded-sm bg-bg-white text-xs text-text-100 focus:outline-none focus:border-main-100"
+          />
+          {asOf && (
+            <button type="button" className={toggleClassName(false)} onClick={() => setAsOf('')}>
+              Сегодня
+            </button>
+          )}
+        </div>
+      </div>
+
+      {isHistoryView && (
+        <div className="bg-blue-50 border border-blue-200 rounded-sm p-3 text-xs text-blue-800">
+          Зубная карта на {formatAppointmentDate(`${asOf}T12:00:00.000Z`, 'long', 'UTC')} — только просмотр
+        </div>
+      )}
+
+      {/* Схема */}
+      {isLoading ? (
+        <div className="flex justify-center py-8">
+          <Spinner size="md" />
+        </div>
+      ) : error ? (
+        <div className="text-center py-8 text-text-10 text-sm border border-stroke rounded-sm">
+          Не удалось загрузить зубную карту
+        </div>
+      ) : (
+        <div className="overflow-x-auto">
+          <div className="min-w-max space-y-3 py-2">
+            {renderRow(DENTITION_LAYOUT[dentition].upper)}
+            <div className="border-t border-dashed border-stroke" />
+            {renderRow(DENTITION_LAYOUT[dentition].lower)}
+          </div>
+        </div>
+      )}
+
+      {/* Легенда */}
+      <div className="flex flex-wrap gap-x-4 gap-y-1">
+        {(Object.keys(DENTAL_CHART_CODES) as DentalChartCode[])
+          .filter(code => code !== 'healthy' && code !== 'extraction')
+          .map(code => (
+            <span key={code} className="flex items-center gap-1.5 text-xs text-text-50">
+              <span className="w-3 h-3 rounded-sm border border-stroke" style={{ backgroundColor: DENTAL_CHART_CODES[code].color }} />
+              {DENTAL_CHART_CODES[code].label}
+            </span>
+          ))}
+      </div>
+
+      {/* Выбранный зуб: текущее состояние и новая запись */}
+      {selectedTooth !== null && (
+        <div className="border border-stroke rounded-sm bg-bg-primary p-4 space-y-4">
+          <div className="flex items-start justify-between gap-3">
+            <div>
+              <h4 className="text-sm font-semibold text-text-100">Зуб {formatToothNumber(selectedTooth, numbering)}</h4>
+              <p className="text-xs text-text-10 mt-1">
+                {selectedState && (selectedState.states.length > 0 || Object.keys(selectedState.surfaces).length > 0)
+                  ? [
+                      ...selectedState.states.map(code => DENTAL_CHART_CODES[code]?.label || code),
+                      ...Object.entries(selectedState.surfaces).map(
+                        ([surface, code]) => `${surface}: ${DENTAL_CHART_CODES[code]?.label || code}`
+                      ),
+                    ].join(', ')
+                  : 'Без отметок'}
+              </p>
+            </div>
+            <button type="button" className="text-xs text-text-10 hover:text-main-100" onClick={() => setSelectedTooth(null)}>
+              Закрыть
+            </button>
+          </div>
+
+          {canEdit && (
+            <form onSubmit={handleSubmit} className="space-y-3">
+              <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
+                <div>
+                  <label className="block text-xs text-text-10 mb-1">Состояние или процедура</label>
+                  <select
+                    value={formData.code}
+                    onChange={e => handleCodeChange(e.target.value as DentalChartCode)}
+                    className={inputClassName}
+                  >
+                    <optgroup label="Состояния">
+                      {(Object.keys(DENTAL_CHART_CODES) as DentalChartCode[])
+                        .filter(code => DENTAL_CHART_CODES[code].kind === 'condition')
+                        .map(code => (
+                          <option key={code} value={code}>
+                            {DENTAL_CHART_CODES[code].label}
+                          </option>
+                        ))}
+                    </optgroup>
+                    <optgroup label="Процедуры">
+                      {(Object.keys(DENTAL_CHART_CODES) as DentalChartCode[])
+                        .filter(code => DENTAL_CHART_CODES[code].kind === 'procedure')
+                        .map(code => (
+                          <option key={code} value={code}>
+                            {DENTAL_CHART_CODES[code].label}
+                          </option>
+                        ))}
+                    </optgroup>
+                  </select>
+                </div>
+                <div>
+                  <label className="block text-xs text-text-10 mb-1">Приём</label>
+                  <select
+                    value={formData.appointmentId}
+                    onChange={e => setFormData({ ...formData, appointmentId: e.target.value })}
+                    className={inputClassName}
+                  >
+                    <option value="">Без привязки к приёму</option>
+                    {linkableAppointments.map(appointment => (
+                      <option key={appointment.id} value={appointment.id}>
+                        {formatAppointmentDateTime(appointment.appointmentDate)}
+                        {appointment.reason ? ` — ${appointment.reason}` : ''}
+                      </option>
+                    ))}
+                  </select>
+                </div>
+              </div>
+
+              {codeScope !== 'tooth' && (
+                <div>
+                  <label className="block text-xs text-text-10 mb-1">
+                    Поверхности{codeScope === 'any' ? ' (без выбора — зуб целиком)' : ''}
+                  </label>
+                  <div className="flex flex-wrap gap-1">
+                    {TOOTH_SURFACES.map(surface => (
+                      <button
+                        key={surface}
+                        type="button"
+                        title={SURFACE_LABELS[surface]}
+                        className={toggleClassName(formData.surfaces.includes(surface))}
+                        onClick={() => toggleSurface(surface)}
+                      >
+                        {surface} · {SURFACE_LABELS[surface]}
+                      </button>
+                    ))}
+                  </div>
+                </div>
+              )}
+
+              <div>
+                <label className="block text-xs text-text-10 mb-1">Комментарий (опционально)</label>
+                <input
+                  type="text"
+                  value={formData.notes}
+                  maxLength={1000}
+                  onChange={e => setFormData({ ...formData, notes: e.target.value })}
+                  className={inputClassName}
+                />
+              </div>
+
+              <div className="flex justify-end">
+                <Button type="submit" size="sm" isLoading={addEntryMutation.isPending} disabled={isSubmitDisabled}>
+                  Добавить в карту
+                </Button>
+              </div>
+            </form>
+          )}
+        </div>
+      )}
+
+      {/* История изменений */}
+      <div>
+        <h4 className="text-sm font-semibold text-text-100 mb-2">
+          История изменений
+          {selectedTooth !== null && ` — зуб ${formatToothNumber(selectedTooth, numbering)}`}
+        </h4>
+        {visibleEntries.length === 0 ? (
+          <p className="text-xs text-text-10">Записей пока нет</p>
+        ) : (
+          <div className="max-h-64 overflow-y-auto divide-y divide-stroke border border-stroke rounded-sm">
+            {visibleEntries.map(entry => (
+              <div key={entry.id} className="px-3 py-2 text-xs flex flex-wrap items-baseline gap-x-3 gap-y-1">
+                <span className="text-text-10">{formatAppointmentDateTime(entry.recordedAt)}</span>
+                <span className="font-medium text-text-100">
+                  Зуб {formatToothNumber(entry.tooth, numbering)}
+                  {entry.surface ? ` (${entry.surface})` : ''}
+                </span>
+                <span className="flex items-center gap-1 text-text-100">
+                  <span
+                    className="w-2 h-2 rounded-full border border-stroke"
+                    style={{ backgroundColor: DENTAL_CHART_CODES[entry.code]?.color }}
+                  />
+                  {DENTAL_CHART_CODES[entry.code]?.label || entry.code}
+                </span>
+                {entry.doctor && <span className="text-text-50">{entry.doctor.name}</span>}
+                {entry.appointment && (
+                  <span className="text-text-10">
+                    приём {formatAppointmentDateTime(entry.appointment.appointmentDate)}
+                  </span>
+                )}
+                {entry.notes && <span className="w-full text-text-50">{entry.notes}</span>}
+              </div>
+            ))}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
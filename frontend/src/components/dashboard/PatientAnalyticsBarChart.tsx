@@ -65,11 +65,11 @@ export const PatientAnalyticsBarChart: React.FC<PatientAnalyticsBarChartProps> =
       appointmentCounts = sortedDoctors.map((doc) => doc.count);
       revenueData = sortedDoctors.map((doc) => doc.revenue);
     } else {
-      // График по категориям (reason)
+      // График по категориям лечения
       const categoryMap = new Map<string, { count: number; revenue: number }>();
 
       appointments.forEach((apt) => {
-        const category = apt.reason || 'Без категории';
+        const category = apt.treatmentCategory?.name || 'Без категории';
         const existing = categoryMap.get(category) || { count: 0, revenue: 0 };
         existing.count += 1;
         if (apt.status === 'completed' && apt.amount) {
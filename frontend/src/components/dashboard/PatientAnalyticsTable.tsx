@@ -120,18 +120,27 @@ export const PatientAnalyticsTable: React.FC<PatientAnalyticsTableProps> = ({ ap
       confirmed: 'bg-green-100 text-green-700 border-green-200',
       completed: 'bg-blue-100 text-blue-700 border-blue-200',
       cancelled: 'bg-gray-100 text-gray-700 border-gray-200',
+      arrived: 'bg-sky-100 text-sky-700 border-sky-200',
+      in_progress: 'bg-purple-100 text-purple-700 border-purple-200',
+      no_show: 'bg-red-100 text-red-700 border-red-200',
     };
     const labels = {
       pending: 'Ожидает',
       confirmed: 'Подтверждено',
       completed: 'Завершено',
       cancelled: 'Отменено',
+      arrived: 'Пришёл',
+      in_progress: 'На приёме',
+      no_show: 'Не пришёл',
     };
     const icons = {
       pending: clockIcon,
       confirmed: checkIcon,
       completed: checkIcon,
       cancelled: xIcon,
+      arrived: checkIcon,
+      in_progress: clockIcon,
+      no_show: xIcon,
     };
     const label = labels[status as keyof typeof labels];
     const icon = icons[status as keyof typeof icons];
@@ -237,7 +246,10 @@ export const PatientAnalyticsTable: React.FC<PatientAnalyticsTableProps> = ({ ap
             >
               <td className="px-4 py-3">
                 <div className="text-sm font-medium text-text-50">
-                  {formatAppointmentDateTime(appointment.appointmentDate, { dateFormat: 'short' })}
+                  {formatAppointmentDateTime(appointment.appointmentDate, {
+                    dateFormat: 'short',
+                    timeZone: appointment.clinic?.settings?.timezone,
+                  })}
                 </div>
               </td>
               <td className="px-4 py-3">
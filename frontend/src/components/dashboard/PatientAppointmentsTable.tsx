@@ -2,7 +2,7 @@ import React, { useMemo, useState } from 'react';
 import { Appointment } from '../../types/api.types';
 import { Button, Spinner } from '../common';
 import { formatAppointmentDateTime } from '../../utils/dateFormat';
-import { Calendar, User, Building2, FileText, MoreVertical, XCircle } from 'lucide-react';
+import { Calendar, CalendarPlus, User, Building2, FileText, MoreVertical, XCircle } from 'lucide-react';
 import { AppointmentDetailModal } from './AppointmentDetailModal';
 
 // Import icons
@@ -15,6 +15,8 @@ import mapPinIcon from '../../assets/icons/map-pin.svg';
 interface PatientAppointmentsTableProps {
   appointments: Appointment[];
   onCancel?: (id: string) => void;
+  onDownloadIcs?: (id: string) => void;
+  downloadingIcsId?: string | null;
   loadingAppointments?: Record<string, string>;
   errorMessages?: Record<string, string>;
 }
@@ -29,6 +31,8 @@ type SortDirection = 'asc' | 'desc';
 export const PatientAppointmentsTable: React.FC<PatientAppointmentsTableProps> = ({
   appointments,
   onCancel,
+  onDownloadIcs,
+  downloadingIcsId = null,
   loadingAppointments = {},
   errorMessages = {},
 }) => {
@@ -111,18 +115,27 @@ export const PatientAppointmentsTable: React.FC<PatientAppointmentsTableProps> =
       confirmed: 'bg-green-100 text-green-700 border-green-200',
       completed: 'bg-blue-100 text-blue-700 border-blue-200',
       cancelled: 'bg-gray-100 text-gray-700 border-gray-200',
+      arrived: 'bg-sky-100 text-sky-700 border-sky-200',
+      in_progress: 'bg-purple-100 text-purple-700 border-purple-200',
+      no_show: 'bg-red-100 text-red-700 border-red-200',
     };
     const labels = {
       pending: 'Ожидает',
       confirmed: 'Подтверждено',
       completed: 'Завершено',
       cancelled: 'Отменено',
+      arrived: 'Пришёл',
+      in_progress: 'На приёме',
+      no_show: 'Не пришёл',
     };
     const icons = {
       pending: clockIcon,
       confirmed: checkIcon,
       completed: checkIcon,
       cancelled: xIcon,
+      arrived: checkIcon,
+      in_progress: clockIcon,
+      no_show: xIcon,
     };
     const label = labels[status as keyof typeof labels] || status;
     const icon = icons[status as keyof typeof icons] || clockIcon;
@@ -213,7 +226,10 @@ export const PatientAppointmentsTable: React.FC<PatientAppointmentsTableProps> =
             >
               <td className="px-4 py-3">
                 <div className="text-sm font-medium text-text-50">
-                  {formatAppointmentDateTime(appointment.appointmentDate, { dateFormat: 'short' })}
+                  {formatAppointmentDateTime(appointment.appointmentDate, {
+                    dateFormat: 'short',
+                    timeZone: appointment.clinic?.settings?.timezone,
+                  })}
                 </div>
               </td>
               <td className="px-4 py-3">
@@ -267,8 +283,7 @@ export const PatientAppointmentsTable: React.FC<PatientAppointmentsTableProps> =
                 onClick={(e) => e.stopPropagation()}
               >
                 <div className="flex items-center gap-2">
-                  {appointment.status !== 'cancelled' &&
-                    appointment.status !== 'completed' &&
+                  {['pending', 'confirmed'].includes(appointment.status) &&
                     onCancel && (
                       <Button
                         variant="secondary"
@@ -282,6 +297,18 @@ export const PatientAppointmentsTable: React.FC<PatientAppointmentsTableProps> =
                         Отменить
                       </Button>
                     )}
+                  {appointment.status !== 'cancelled' && onDownloadIcs && (
+                    <Button
+                      variant="secondary"
+                      size="sm"
+                      onClick={() => onDownloadIcs(appointment.id)}
+                      isLoading={downloadingIcsId === appointment.id}
+                      title="Добавить в календарь"
+                    >
+                      <CalendarPlus className="w-4 h-4 mr-1" />
+                      .ics
+                    </Button>
+                  )}
                   {errorMessages[appointment.id] && (
                     <div className="text-xs text-red-600 mt-1">{errorMessages[appointment.id]}</div>
                   )}
@@ -2,6 +2,7 @@ import React from 'react';
 import { Modal } from '../common';
 import { Patient } from '../../types/api.types';
 import { format } from 'date-fns';
+import { Odontogram } from './Odontogram';
 
 interface PatientDetailsModalProps {
   isOpen: boolean;
@@ -23,6 +24,8 @@ export const PatientDetailsModal: React.FC<PatientDetailsModalProps> = ({
   onConfirm,
   onCancel,
 }) => {
+  const [isChartVisible, setIsChartVisible] = React.useState(false);
+
   // Если нет пациента, не показываем модальное окно
   if (!patient) {
     return null;
@@ -258,6 +261,20 @@ export const PatientDetailsModal: React.FC<PatientDetailsModalProps> = ({
           </div>
         </div>
 
+        {/* Зубная карта (загружается по запросу) */}
+        <div className="border-t border-stroke pt-4">
+          <button
+            type="button"
+            onClick={() => setIsChartVisible(!isChartVisible)}
+            className="text-sm font-medium text-main-100 hover:underline"
+          >
+            {isChartVisible ? 'Скрыть зубную карту' : 'Показать зубную карту'}
+          </button>
+          {isChartVisible && (
+            <Odontogram patientId={patient.id} appointments={patient.appointments || []} className="mt-4" />
+          )}
+        </div>
+
         {/* Warning Message */}
         <div className="bg-yellow-50 border border-yellow-200 rounded-sm p-3">
           <div className="flex items-start gap-2">
@@ -0,0 +1,152 @@
+import React from 'react';
+import { Download, Trash2 } from 'lucide-react';
+import { Modal, Button, Spinner } from '../common';
+import {
+  useDeletePatientDocument,
+  usePatientDocumentFileUrl,
+  useUpdatePatientDocument,
+} from '../../hooks/usePatientDocuments';
+import { useAuthStore } from '../../store/useAuthStore';
+import { Appointment, PatientDocument, PatientDocumentCategory } from '../../types/api.types';
+import { DOCUMENT_CATEGORIES, DOCUMENT_CATEGORY_LABELS, formatFileSize } from '../../utils/document';
+import { formatAppointmentDate, formatAppointmentDateTime } from '../../utils/dateFormat';
+
+interface PatientDocumentViewerModalProps {
+  patientId: string;
+  document: PatientDocument | null;
+  appointments?: Appointment[]; // Визиты пациента — для привязки документа к визиту
+  onClose: () => void;
+}
+
+/**
+ * PatientDocumentViewerModal Component
+ * Просмотр снимка или PDF в браузере, смена категории и визита, скачивание и удаление
+ */
+export const PatientDocumentViewerModal: React.FC<PatientDocumentViewerModalProps> = ({
+  patientId,
+  document,
+  appointments,
+  onClose,
+}) => {
+  const user = useAuthStore(state => state.user);
+  const { url, isLoading, isError } = usePatientDocumentFileUrl(patientId, document?.id);
+  const updateMutation = useUpdatePatientDocument(patientId);
+  const deleteMutation = useDeletePatientDocument(patientId);
+
+  if (!document) return null;
+
+  // Врач удаляет только загруженные им документы, администратор клиники — любые
+  const canDelete = user?.role !== 'DOCTOR' || document.uploadedBy?.id === user?.id;
+  const isImage = document.mimeType.startsWith('image/');
+
+  const handleDelete = async () => {
+    if (!window.confirm(`Удалить документ «${document.title}»?`)) return;
+
+    try {
+      await deleteMutation.mutateAsync(document.id);
+      onClose();
+    } catch {
+      // Ошибка показывается через toast в хуке
+    }
+  };
+
+  return (
+    <Modal
+      isOpen={!!document}
+      onClose={onClose}
+      title={document.title}
+      size="xl"
+      footer={
+        <div className="flex justify-between gap-2">
+          <div>
+            {canDelete && (
+              <Button variant="danger" size="sm" onClick={handleDelete} isLoading={deleteMutation.isPending}>
+                <span className="flex items-center gap-2">
+                  <Trash2 className="w-4 h-4" />
+                  Удалить
+                </span>
+              </Button>
+            )}
+          </div>
+          <div className="flex gap-2">
+            {url && (
+              <a
+                href={url}
+                download={document.fileName}
+                className="flex items-center gap-2 px-3 py-1.5 border border-stroke rounded-sm text-sm text-text-100 hover:bg-bg-primary transition-smooth"
+              >
+                <Download className="w-4 h-4" />
+                Скачать
+              </a>
+            )}
+            <Button variant="secondary" size="sm" onClick={onClose}>
+              Закрыть
+            </Button>
+          </div>
+        </div>
+      }
+    >
+      <div className="space-y-4">
+        <div className="flex items-center justify-center min-h-[240px] bg-bg-primary border border-stroke rounded-sm">
+          {isLoading ? (
+            <Spinner size="md" />
+          ) : isError || !url ? (
+            <p className="text-sm text-text-10">Не удалось загрузить файл</p>
+          ) : isImage ? (
+            <img src={url} alt={document.title} className="max-h-[65vh] max-w-full object-contain" />
+          ) : (
+            <iframe src={url} title={document.title} className="w-full h-[65vh] bg-bg-white" />
+          )}
+        </div>
+
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
+          <div>
+            <label className="block text-xs text-text-10 mb-1">Категория</label>
+            <select
+              value={document.category}
+              onChange={e =>
+                updateMutation.mutate({
+                  id: document.id,
+                  changes: { category: e.target.value as PatientDocumentCategory },
+                })
+              }
+              className="block w-full px-3 py-2 border border-stroke rounded-sm bg-bg-white text-sm focus:outline-none focus:border-main-100 transition-smooth"
+            >
+              {DOCUMENT_CATEGORIES.map(category => (
+                <option key={category} value={category}>
+                  {DOCUMENT_CATEGORY_LABELS[category]}
+                </option>
+              ))}
+            </select>
+          </div>
+          {appointments && (
+            <div>
+              <label className="block text-xs text-text-10 mb-1">Визит</label>
+              <select
+                value={document.appointmentId || ''}
+                onChange={e =>
+                  updateMutation.mutate({ id: document.id, changes: { appointmentId: e.target.value || null } })
+                }
+                className="block w-full px-3 py-2 border border-stroke rounded-sm bg-bg-white text-sm focus:outline-none focus:border-main-100 transition-smooth"
+              >
+                <option value="">Без привязки к визиту</option>
+                {appointments.map(appointment => (
+                  <option key={appointment.id} value={appointment.id}>
+                    {formatAppointmentDate(appointment.appointmentDate)}
+                    {appointment.reason ? ` · ${appointment.reason}` : ''}
+                  </option>
+                ))}
+              </select>
+            </div>
+          )}
+        </div>
+
+        <p className="text-xs text-text-10">
+          {document.fileName} · {formatFileSize(document.size)} · загружен {formatAppointmentDateTime(document.createdAt)}
+          {document.uploadedBy && ` · ${document.uploadedBy.name}`}
+        </p>
+        {document.description && <p className="text-sm text-text-50 whitespace-pre-wrap">{document.description}</p>}
+      </div>
+    </Modal>
+  );
+};
@@ -0,0 +1,258 @@
+import React, { useRef, useState } from 'react';
+import { createPortal } from 'react-dom';
+import { toast } from 'react-hot-toast';
+import { FileText, Upload } from 'lucide-react';
+import { Button, Input, Spinner } from '../common';
+import {
+  usePatientDocumentFileUrl,
+  usePatientDocuments,
+  useUploadPatientDocument,
+} from '../../hooks/usePatientDocuments';
+import { Appointment, PatientDocument, PatientDocumentCategory } from '../../types/api.types';
+import {
+  ACCEPTED_DOCUMENT_TYPES,
+  DOCUMENT_CATEGORIES,
+  DOCUMENT_CATEGORY_LABELS,
+  MAX_DOCUMENT_SIZE,
+  createImageThumbnail,
+  readFileAsDataUrl,
+} from '../../utils/document';
+import { formatAppointmentDate } from '../../utils/dateFormat';
+import { PatientDocumentViewerModal } from './PatientDocumentViewerModal';
+
+interface PatientDocumentsSectionProps {
+  patientId: string;
+  appointments?: Appointment[]; // Визиты пациента — для привязки документа к визиту
+  appointmentId?: string; // Только документы этого визита (окно приёма); новые прикрепляются к нему
+}
+
+interface PendingUpload {
+  file: File;
+  category: PatientDocumentCategory;
+  title: string;
+  appointmentId: string;
+}
+
+/**
+ * Плитка документа: превью изображения или значок файла
+ */
+const DocumentTile: React.FC<{ patientId: string; document: PatientDocument; onOpen: () => void }> = ({
+  patientId,
+  document,
+  onOpen,
+}) => {
+  const { url } = usePatientDocumentFileUrl(patientId, document.hasThumbnail ? document.id : undefined, true);
+
+  return (
+    <button
+      type="button"
+      onClick={onOpen}
+      className="text-left border border-stroke rounded-sm bg-bg-white hover:border-main-100 transition-smooth overflow-hidden"
+    >
+      <div className="h-24 flex items-center justify-center bg-bg-primary">
+        {url ? (
+          <img src={url} alt={document.title} className="h-full w-full object-cover" />
+        ) : (
+          <FileText className="w-8 h-8 text-text-10" />
+        )}
+      </div>
+      <div className="p-2">
+        <p className="text-xs font-medium text-text-100 truncate">{document.title}</p>
+        <p className="text-xs text-text-10 truncate">
+          {DOCUMENT_CATEGORY_LABELS[document.category]} · {formatAppointmentDate(document.createdAt)}
+        </p>
+      </div>
+    </button>
+  );
+};
+
+/**
+ * PatientDocumentsSection Component
+ * Снимки, фото и документы пациента: загрузка с категорией и визитом, плитки с превью, просмотр
+ */
+export const PatientDocumentsSection: React.FC<PatientDocumentsSectionProps> = ({
+  patientId,
+  appointments,
+  appointmentId,
+}) => {
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const [categoryFilter, setCategoryFilter] = useState<PatientDocumentCategory | ''>('');
+  const [pending, setPending] = useState<PendingUpload | null>(null);
+  const [openedId, setOpenedId] = useState<string | null>(null);
+
+  const { data: documents = [], isLoading } = usePatientDocuments(patientId, appointmentId);
+  const uploadMutation = useUploadPatientDocument(patientId);
+
+  const visibleDocuments = categoryFilter ? documents.filter(item => item.category === categoryFilter) : documents;
+  // Открытый документ берём из списка — после смены категории или визита он обновится
+  const openedDocument = documents.find(item => item.id === openedId) || null;
+
+  const handleFileChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+
+    if (!ACCEPTED_DOCUMENT_TYPES.includes(file.type)) {
+      toast.error('Поддерживаются изображения (JPEG, PNG, WEBP, GIF) и PDF');
+      return;
+    }
+    if (file.size > MAX_DOCUMENT_SIZE) {
+      toast.error('Размер файла превышает 10MB');
+      return;
+    }
+
+    setPending({
+      file,
+      category: file.type.startsWith('image/') ? 'xray' : 'other',
+      title: file.name.replace(/\.[^.]+$/, ''),
+      appointmentId: appointmentId || '',
+    });
+  };
+
+  const handleUpload = async () => {
+    if (!pending) return;
+
+    try {
+      const [file, thumbnail] = await Promise.all([
+        readFileAsDataUrl(pending.file),
+        createImageThumbnail(pending.file),
+      ]);
+
+      await uploadMutation.mutateAsync({
+        file,
+        thumbnail,
+        fileName: pending.file.name,
+        category: pending.category,
+        title: pending.title.trim() || pending.file.name,
+        appointmentId: pending.appointmentId || null,
+      });
+      setPending(null);
+    } catch {
+      // Ошибка показывается через toast в хуке
+    }
+  };
+
+  return (
+    <div className="space-y-4">
+      <div className="flex flex-wrap items-center justify-between gap-3">
+        {appointmentId ? (
+          <p className="text-xs text-text-10">Снимки и документы, прикреплённые к этому визиту</p>
+        ) : (
+          <div className="flex flex-wrap gap-2">
+            {(['', ...DOCUMENT_CATEGORIES] as const).map(category => {
+              const count = category ? documents.filter(item => item.category === category).length : documents.length;
+
+              return (
+                <button
+                  key={category || 'all'}
+                  type="button"
+                  onClick={() => setCategoryFilter(category)}
+                  className={`px-2 py-1 border rounded-sm text-xs transition-smooth ${
+                    categoryFilter === category
+                      ? 'border-main-100 bg-main-10 text-main-100'
+                      : 'border-stroke text-text-50 hover:bg-bg-primary'
+                  }`}
+                >
+                  {category ? DOCUMENT_CATEGORY_LABELS[category] : 'Все'} ({count})
+                </button>
+              );
+            })}
+          </div>
+        )}
+        <input
+          ref={fileInputRef}
+          type="file"
+          accept={ACCEPTED_DOCUMENT_TYPES.join(',')}
+          onChange={handleFileChange}
+          className="hidden"
+        />
+        <Button size="sm" variant="secondary" onClick={() => fileInputRef.current?.click()} disabled={!!pending}>
+          <span className="flex items-center gap-2">
+            <Upload className="w-4 h-4" />
+            Загрузить файл
+          </span>
+        </Button>
+      </div>
+
+      {/* Параметры загружаемого файла */}
+      {pending && (
+        <div className="p-4 border border-main-100 bg-main-10 rounded-sm space-y-3">
+          <p className="text-sm text-text-100">{pending.file.name}</p>
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
+            <Input
+              label="Название"
+              value={pending.title}
+              onChange={e => setPending({ ...pending, title: e.target.value })}
+            />
+            <div>
+              <label className="block text-sm font-normal text-text-10 mb-2">Категория</label>
+              <select
+                value={pending.category}
+                onChange={e => setPending({ ...pending, category: e.target.value as PatientDocumentCategory })}
+                className="block w-full px-4 py-2.5 border border-stroke rounded-sm bg-bg-white text-sm focus:outline-none focus:border-main-100 transition-smooth"
+              >
+                {DOCUMENT_CATEGORIES.map(category => (
+                  <option key={category} value={category}>
+                    {DOCUMENT_CATEGORY_LABELS[category]}
+                  </option>
+                ))}
+              </select>
+            </div>
+            {!appointmentId && appointments && (
+              <div className="md:col-span-2">
+                <label className="block text-sm font-normal text-text-10 mb-2">Визит</label>
+                <select
+                  value={pending.appointmentId}
+                  onChange={e => setPending({ ...pending, appointmentId: e.target.value })}
+                  className="block w-full px-4 py-2.5 border border-stroke rounded-sm bg-bg-white text-sm focus:outline-none focus:border-main-100 transition-smooth"
+                >
+                  <option value="">Без привязки к визиту</option>
+                  {appointments.map(appointment => (
+                    <option key={appointment.id} value={appointment.id}>
+                      {formatAppointmentDate(appointment.appointmentDate)}
+                      {appointment.reason ? ` · ${appointment.reason}` : ''}
+                    </option>
+                  ))}
+                </select>
+              </div>
+            )}
+          </div>
+          <div className="flex justify-end gap-2">
+            <Button size="sm" variant="secondary" onClick={() => setPending(null)} disabled={uploadMutation.isPending}>
+              Отмена
+            </Button>
+            <Button size="sm" onClick={handleUpload} isLoading={uploadMutation.isPending}>
+              Загрузить
+            </Button>
+          </div>
+        </div>
+      )}
+
+      {isLoading ? (
+        <div className="flex justify-center py-6">
+          <Spinner size="md" />
+        </div>
+      ) : visibleDocuments.length === 0 ? (
+        <p className="text-sm text-text-10 text-center py-6 border border-stroke rounded-sm">Документов пока нет</p>
+      ) : (
+        <div className="grid grid-cols-2 sm:grid-cols-3 md:grid-cols-4 gap-3">
+          {visibleDocuments.map(item => (
+            <DocumentTile key={item.id} patientId={patientId} document={item} onOpen={() => setOpenedId(item.id)} />
+          ))}
+        </div>
+      )}
+
+      {/* Через портал — секция бывает внутри другого модального окна (окно приёма) */}
+      {openedDocument &&
+        createPortal(
+          <PatientDocumentViewerModal
+            patientId={patientId}
+            document={openedDocument}
+            appointments={appointments}
+            onClose={() => setOpenedId(null)}
+          />,
+          window.document.body
+        )}
+    </div>
+  );
+};
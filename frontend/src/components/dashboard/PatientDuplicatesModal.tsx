@@ -0,0 +1,219 @@
+import React, { useState } from 'react';
+import { Users, History } from 'lucide-react';
+import { Modal, Button, Spinner } from '../common';
+import { useDuplicatePatients, useMergePatients, usePatientMerges } from '../../hooks/usePatientMerge';
+import { PatientDuplicateGroup, PatientDuplicateReason } from '../../types/api.types';
+import { formatAppointmentDate, formatAppointmentDateTime } from '../../utils/dateFormat';
+
+interface PatientDuplicatesModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+}
+
+const REASON_LABELS: Record<PatientDuplicateReason, string> = {
+  phone: 'Телефон',
+  email: 'Email',
+  name: 'Похожее имя',
+};
+
+const MOVED_LABELS: Record<string, string> = {
+  appointments: 'приёмы',
+  appointmentSeries: 'серии приёмов',
+  waitlistEntries: 'лист ожидания',
+  notifications: 'уведомления',
+  conversations: 'беседы',
+  dentalChartEntries: 'зубная формула',
+  treatmentPlans: 'планы лечения',
+  clinicalNotes: 'протоколы',
+  claims: 'запросы привязки',
+  merges: 'прошлые объединения',
+  medicalHistory: 'анамнез',
+  documents: 'документы',
+};
+
+/**
+ * Ключ группы — ID карточек (не меняется, пока группу не объединили)
+ */
+const getGroupKey = (group: PatientDuplicateGroup) => group.patients.map(patient => patient.id).join(':');
+
+/**
+ * PatientDuplicatesModal Component
+ * Поиск дубликатов пациентов и объединение их в одну карточку с журналом объединений
+ */
+export const PatientDuplicatesModal: React.FC<PatientDuplicatesModalProps> = ({ isOpen, onClose }) => {
+  const [targets, setTargets] = useState<Record<string, string>>({}); // Ключ группы → оставляемая карточка
+  const [excluded, setExcluded] = useState<Record<string, boolean>>({}); // Карточки, снятые с объединения
+  const [showHistory, setShowHistory] = useState(false);
+
+  const { data: groups = [], isLoading } = useDuplicatePatients(isOpen);
+  const { data: mergesData, isLoading: isLoadingMerges } = usePatientMerges(isOpen && showHistory);
+  const mergeMutation = useMergePatients();
+
+  const handleMerge = async (group: PatientDuplicateGroup) => {
+    const key = getGroupKey(group);
+    const targetId = targets[key] || group.suggestedTargetId;
+    const target = group.patients.find(patient => patient.id === targetId);
+    const sources = group.patients.filter(patient => patient.id !== targetId && !excluded[patient.id]);
+
+    if (!target || sources.length === 0) return;
+
+    if (
+      !window.confirm(
+        `Объединить ${sources.map(patient => `«${patient.name}»`).join(', ')} в карточку «${target.name}»? ` +
+          'Приёмы, уведомления и беседы перейдут в неё, дубликаты будут удалены.'
+      )
+    ) {
+      return;
+    }
+
+    try {
+      await mergeMutation.mutateAsync({ targetId, sourceIds: sources.map(patient => patient.id) });
+    } catch {
+      // Ошибка показывается через toast в хуке
+    }
+  };
+
+  return (
+    <Modal isOpen={isOpen} onClose={onClose} title="Дубликаты пациентов" size="xl">
+      <div className="space-y-4">
+        <div className="flex items-center justify-between gap-3">
+          <p className="text-sm text-text-50">
+            Карточки с одинаковым телефоном (в любом формате), email или похожим именем. Выберите карточку, которая
+            останется, — записи остальных перейдут в неё.
+          </p>
+          <Button size="sm" variant="secondary" onClick={() => setShowHistory(prev => !prev)}>
+            <span className="flex items-center gap-2">
+              <History className="w-4 h-4" />
+              {showHistory ? 'К дубликатам' : 'Журнал'}
+            </span>
+          </Button>
+        </div>
+
+        {showHistory ? (
+          isLoadingMerges ? (
+            <div className="flex justify-center py-8">
+              <Spinner size="md" />
+            </div>
+          ) : (mergesData?.merges || []).length === 0 ? (
+            <p className="text-sm text-text-10 text-center py-8">Объединений ещё не было</p>
+          ) : (
+            <ul className="space-y-2 max-h-[60vh] overflow-y-auto">
+              {mergesData?.merges.map(record => {
+                const moved = Object.entries(record.movedCounts).filter(([, count]) => count > 0);
+
+                return (
+                  <li key={record.id} className="p-3 border border-stroke rounded-sm bg-bg-white text-sm">
+                    <p className="text-text-100">
+                      {record.sourcePatients.map(patient => `«${patient.name}» (${patient.phone})`).join(', ')} →{' '}
+                      <strong>{record.targetPatient?.name || 'карточка удалена'}</strong>
+                    </p>
+                    <p className="text-xs text-text-10 mt-1">
+                      {formatAppointmentDateTime(record.createdAt)}
+                      {record.performedBy && ` · ${record.performedBy.name}`}
+                      {moved.length > 0 &&
+                        ` · перенесено: ${moved.map(([key, count]) => `${MOVED_LABELS[key] || key} — ${count}`).join(', ')}`}
+                    </p>
+                  </li>
+                );
+              })}
+            </ul>
+          )
+        ) : isLoading ? (
+          <div className="flex justify-center py-8">
+            <Spinner size="md" />
+          </div>
+        ) : groups.length === 0 ? (
+          <p className="text-sm text-text-10 text-center py-8">Дубликатов не найдено</p>
+        ) : (
+          <div className="space-y-4 max-h-[60vh] overflow-y-auto">
+            {groups.map(group => {
+              const key = getGroupKey(group);
+              const targetId = targets[key] || group.suggestedTargetId;
+              const sourcesCount = group.patients.filter(
+                patient => patient.id !== targetId && !excluded[patient.id]
+              ).length;
+
+              return (
+                <div key={key} className="border border-stroke rounded-sm p-4 bg-bg-white">
+                  <div className="flex items-center gap-2 mb-3">
+                    <Users className="w-4 h-4 text-text-50" />
+                    {group.reasons.map(reason => (
+                      <span
+                        key={reason}
+                        className="px-2 py-0.5 border border-stroke rounded-sm text-xs text-text-50 bg-bg-primary"
+                      >
+                        {REASON_LABELS[reason]}
+                      </span>
+                    ))}
+                  </div>
+
+                  <table className="w-full text-sm">
+                    <thead>
+                      <tr className="text-left text-xs text-text-10">
+                        <th className="pb-2 font-normal">Оставить</th>
+                        <th className="pb-2 font-normal">Объединить</th>
+                        <th className="pb-2 font-normal">Пациент</th>
+                        <th className="pb-2 font-normal">Контакты</th>
+                        <th className="pb-2 font-normal">Приёмов</th>
+                        <th className="pb-2 font-normal">Создан</th>
+                      </tr>
+                    </thead>
+                    <tbody>
+                      {group.patients.map(patient => {
+                        const isTarget = patient.id === targetId;
+
+                        return (
+                          <tr key={patient.id} className="border-t border-stroke">
+                            <td className="py-2">
+                              <input
+                                type="radio"
+                                name={`target-${key}`}
+                                checked={isTarget}
+                                onChange={() => setTargets(prev => ({ ...prev, [key]: patient.id }))}
+                              />
+                            </td>
+                            <td className="py-2">
+                              <input
+                                type="checkbox"
+                                disabled={isTarget}
+                                checked={!isTarget && !excluded[patient.id]}
+                                onChange={e => setExcluded(prev => ({ ...prev, [patient.id]: !e.target.checked }))}
+                              />
+                            </td>
+                            <td className="py-2 text-text-100">
+                              {patient.name}
+                              {patient.dateOfBirth && (
+                                <span className="text-xs text-text-10"> · {formatAppointmentDate(patient.dateOfBirth)}</span>
+                              )}
+                              {patient.userId && <span className="text-xs text-secondary-100"> · аккаунт</span>}
+                            </td>
+                            <td className="py-2 text-text-50">
+                              {[patient.phone, patient.email].filter(Boolean).join(' · ')}
+                            </td>
+                            <td className="py-2 text-text-50">{patient.appointmentsCount}</td>
+                            <td className="py-2 text-text-50">{formatAppointmentDate(patient.createdAt)}</td>
+                          </tr>
+                        );
+                      })}
+                    </tbody>
+                  </table>
+
+                  <div className="flex justify-end mt-3">
+                    <Button
+                      size="sm"
+                      onClick={() => handleMerge(group)}
+                      disabled={sourcesCount === 0 || mergeMutation.isPending}
+                      isLoading={mergeMutation.isPending && mergeMutation.variables?.targetId === targetId}
+                    >
+                      Объединить ({sourcesCount + 1})
+                    </Button>
+                  </div>
+                </div>
+              );
+            })}
+          </div>
+        )}
+      </div>
+    </Modal>
+  );
+};
@@ -0,0 +1,174 @@
+import React, { useState } from 'react';
+import { Modal, Button } from '../common';
+import { useExportPatients } from '../../hooks/usePatientImport';
+import { PatientExportParams, PatientExportResponse } from '../../types/api.types';
+import { SpreadsheetCell, downloadBlob, toCsv, toXlsx } from '../../utils/spreadsheet';
+import { formatAppointmentDateTime } from '../../utils/dateFormat';
+
+interface PatientExportModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  filters: PatientExportParams; // Текущие фильтры раздела «Пациенты»
+  doctorName?: string; // Имя врача из фильтра — для подписи
+}
+
+type ExportFormat = 'xlsx' | 'csv';
+type ExportDataset = 'patients' | 'visits';
+
+const GENDER_LABELS: Record<string, string> = {
+  male: 'Мужской',
+  female: 'Женский',
+  other: 'Другой',
+};
+
+const STATUS_LABELS: Record<string, string> = {
+  pending: 'Ожидает',
+  confirmed: 'Подтвержден',
+  arrived: 'Пришёл',
+  in_progress: 'На приёме',
+  completed: 'Завершен',
+  cancelled: 'Отменен',
+  no_show: 'Не пришёл',
+};
+
+/**
+ * Дата рождения в формате YYYY-MM-DD — так её поймёт и Excel, и повторный импорт
+ */
+const formatBirthDate = (date?: Date | string | null) => (date ? new Date(date).toISOString().slice(0, 10) : '');
+
+/**
+ * Таблица пациентов (первая строка — заголовки; колонки совпадают с полями импорта)
+ */
+const buildPatientRows = (data: PatientExportResponse): SpreadsheetCell[][] => [
+  ['ФИО', 'Телефон', 'Email', 'Дата рождения', 'Пол', 'Заметки', 'Визитов', 'Сумма', 'Последний визит'],
+  ...data.patients.map(patient => [
+    patient.name,
+    patient.phone,
+    patient.email,
+    formatBirthDate(patient.dateOfBirth),
+    patient.gender ? GENDER_LABELS[patient.gender] : '',
+    patient.notes,
+    patient.visitsCount,
+    patient.totalAmount,
+    patient.lastVisitDate ? formatAppointmentDateTime(patient.lastVisitDate) : '',
+  ]),
+];
+
+/**
+ * Таблица визитов
+ */
+const buildVisitRows = (data: PatientExportResponse): SpreadsheetCell[][] => [
+  ['Дата и время', 'Пациент', 'Телефон', 'Email', 'Врач', 'Статус', 'Процедура', 'Длительность, мин', 'Сумма', 'Заметки'],
+  ...data.visits.map(visit => [
+    formatAppointmentDateTime(visit.appointmentDate),
+    visit.patientName,
+    visit.patientPhone,
+    visit.patientEmail,
+    visit.doctorName,
+    STATUS_LABELS[visit.status] || visit.status,
+    visit.reason,
+    visit.duration,
+    visit.amount,
+    visit.notes,
+  ]),
+];
+
+/**
+ * PatientExportModal Component
+ * Выгрузка пациентов и истории визитов в XLSX (два листа) или CSV с текущими фильтрами
+ */
+export const PatientExportModal: React.FC<PatientExportModalProps> = ({ isOpen, onClose, filters, doctorName }) => {
+  const [format, setFormat] = useState<ExportFormat>('xlsx');
+  const [dataset, setDataset] = useState<ExportDataset>('patients');
+  const exportMutation = useExportPatients();
+
+  const filtersLabel =
+    [
+      filters.search && `поиск «${filters.search}»`,
+      filters.doctorId && `врач: ${doctorName || '—'}`,
+      filters.status && `статус визитов: ${STATUS_LABELS[filters.status] || filters.status}`,
+    ]
+      .filter(Boolean)
+      .join(', ') || 'все пациенты и визиты';
+
+  const handleExport = async () => {
+    try {
+      const data = await exportMutation.mutateAsync(filters);
+      const date = new Date().toISOString().slice(0, 10);
+
+      if (format === 'xlsx') {
+        downloadBlob(
+          toXlsx([
+            { name: 'Пациенты', rows: buildPatientRows(data) },
+            { name: 'Визиты', rows: buildVisitRows(data) },
+          ]),
+          `patients-${date}.xlsx`
+        );
+      } else {
+        const rows = dataset === 'patients' ? buildPatientRows(data) : buildVisitRows(data);
+        downloadBlob(new Blob([toCsv(rows)], { type: 'text/csv;charset=utf-8' }), `${dataset}-${date}.csv`);
+      }
+
+      onClose();
+    } catch {
+      // Ошибка показывается через toast в хуке
+    }
+  };
+
+  return (
+    <Modal isOpen={isOpen} onClose={onClose} title="Экспорт пациентов" size="md">
+      <div className="space-y-4">
+        <p className="text-sm text-text-50">Фильтры: {filtersLabel}</p>
+
+        <div>
+          <p className="text-sm text-text-100 mb-2">Формат</p>
+          <div className="flex flex-col gap-2">
+            <label className="flex items-center gap-2 text-sm text-text-100">
+              <input type="radio" name="export-format" checked={format === 'xlsx'} onChange={() => setFormat('xlsx')} />
+              XLSX <span className="text-xs text-text-10">— листы «Пациенты» и «Визиты» в одном файле</span>
+            </label>
+            <label className="flex items-center gap-2 text-sm text-text-100">
+              <input type="radio" name="export-format" checked={format === 'csv'} onChange={() => setFormat('csv')} />
+              CSV
+            </label>
+          </div>
+        </div>
+
+        {format === 'csv' && (
+          <div>
+            <p className="text-sm text-text-100 mb-2">Что выгрузить</p>
+            <div className="flex gap-4">
+              <label className="flex items-center gap-2 text-sm text-text-100">
+                <input
+                  type="radio"
+                  name="export-dataset"
+                  checked={dataset === 'patients'}
+                  onChange={() => setDataset('patients')}
+                />
+                Пациенты
+              </label>
+              <label className="flex items-center gap-2 text-sm text-text-100">
+                <input
+                  type="radio"
+                  name="export-dataset"
+                  checked={dataset === 'visits'}
+                  onChange={() => setDataset('visits')}
+                />
+                История визитов
+              </label>
+            </div>
+          </div>
+        )}
+
+        <div className="flex justify-end gap-2 pt-2">
+          <Button variant="secondary" onClick={onClose}>
+            Отмена
+          </Button>
+          <Button onClick={handleExport} isLoading={exportMutation.isPending}>
+            Скачать
+          </Button>
+        </div>
+      </div>
+    </Modal>
+  );
+};
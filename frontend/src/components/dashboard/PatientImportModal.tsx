@@ -0,0 +1,330 @@
+import React, { useState } from 'react';
+import { FileSpreadsheet } from 'lucide-react';
+import { Modal, Button } from '../common';
+import { useImportPatients } from '../../hooks/usePatientImport';
+import { readSpreadsheet } from '../../utils/spreadsheet';
+import {
+  PatientImportDuplicates,
+  PatientImportField,
+  PatientImportResult,
+  PatientImportRow,
+  PatientImportRowResult,
+} from '../../types/api.types';
+
+interface PatientImportModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+}
+
+type ImportStep = 'upload' | 'mapping' | 'report' | 'done';
+
+const FIELD_LABELS: Record<PatientImportField, string> = {
+  name: 'ФИО',
+  phone: 'Телефон',
+  email: 'Email',
+  dateOfBirth: 'Дата рождения',
+  gender: 'Пол',
+  notes: 'Заметки',
+};
+
+/**
+ * Заголовки колонок, по которым поле подставляется автоматически (в нижнем регистре)
+ */
+const FIELD_ALIASES: Record<PatientImportField, string[]> = {
+  name: ['фио', 'имя', 'пациент', 'фамилия', 'отчество', 'name', 'full name', 'patient', 'first name', 'last name'],
+  phone: ['телефон', 'тел', 'тел.', 'мобильный', 'phone', 'mobile', 'tel'],
+  email: ['email', 'e-mail', 'почта', 'эл. почта', 'mail'],
+  dateOfBirth: ['дата рождения', 'др', 'день рождения', 'birth', 'birthday', 'date of birth', 'dob'],
+  gender: ['пол', 'gender', 'sex'],
+  notes: ['заметки', 'примечание', 'примечания', 'комментарий', 'notes', 'note', 'comment'],
+};
+
+const DUPLICATE_OPTIONS: { value: PatientImportDuplicates; label: string; hint: string }[] = [
+  { value: 'skip', label: 'Пропустить', hint: 'карточка в клинике не меняется' },
+  { value: 'update', label: 'Дополнить', hint: 'заполненные в файле поля перезапишут карточку' },
+  { value: 'create', label: 'Создать новую', hint: 'дубликат можно будет объединить позже' },
+];
+
+const ACTION_LABELS: Record<PatientImportRowResult['action'], { label: string; className: string }> = {
+  create: { label: 'Создать', className: 'bg-secondary-10 text-secondary-100 border-secondary-100/20' },
+  update: { label: 'Дополнить', className: 'bg-main-10 text-main-100 border-main-100/20' },
+  skip: { label: 'Пропуск', className: 'bg-bg-primary text-text-50 border-stroke' },
+  error: { label: 'Ошибка', className: 'bg-red-50 text-red-700 border-red-200' },
+};
+
+/**
+ * Подобрать поле пациента по заголовку колонки
+ */
+const guessField = (header: string): PatientImportField | '' => {
+  const normalized = header.trim().toLowerCase();
+  const field = (Object.keys(FIELD_ALIASES) as PatientImportField[]).find(key =>
+    FIELD_ALIASES[key].includes(normalized)
+  );
+  return field || '';
+};
+
+/**
+ * PatientImportModal Component
+ * Мастер импорта пациентов из CSV / XLSX: загрузка файла, сопоставление колонок,
+ * проверка без сохранения (отчёт по каждой строке) и импорт
+ */
+export const PatientImportModal: React.FC<PatientImportModalProps> = ({ isOpen, onClose }) => {
+  const [step, setStep] = useState<ImportStep>('upload');
+  const [fileName, setFileName] = useState('');
+  const [headers, setHeaders] = useState<string[]>([]);
+  const [dataRows, setDataRows] = useState<string[][]>([]);
+  const [mapping, setMapping] = useState<(PatientImportField | '')[]>([]);
+  const [duplicates, setDuplicates] = useState<PatientImportDuplicates>('skip');
+  const [fileError, setFileError] = useState('');
+  const [result, setResult] = useState<PatientImportResult | null>(null);
+
+  const importMutation = useImportPatients();
+
+  const handleClose = () => {
+    setStep('upload');
+    setFileName('');
+    setHeaders([]);
+    setDataRows([]);
+    setMapping([]);
+    setFileError('');
+    setResult(null);
+    onClose();
+  };
+
+  const handleFileChange = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+
+    try {
+      const rows = await readSpreadsheet(file);
+
+      if (rows.length < 2) {
+        setFileError('В файле нет строк с пациентами (первая строка — заголовки колонок)');
+        return;
+      }
+
+      setFileName(file.name);
+      setHeaders(rows[0]);
+      setDataRows(rows.slice(1));
+      setMapping(rows[0].map(guessField));
+      setFileError('');
+      setStep('mapping');
+    } catch (error: any) {
+      console.error('❌ [PATIENT IMPORT] Ошибка чтения файла:', error);
+      setFileError(error?.message || 'Не удалось прочитать файл');
+    }
+  };
+
+  /**
+   * Строки с сопоставленными полями; несколько колонок одного поля (Фамилия + Имя) склеиваются через пробел
+   */
+  const buildRows = (): PatientImportRow[] =>
+    dataRows.map(cells => {
+      const row: PatientImportRow = {};
+      mapping.forEach((field, index) => {
+        const value = (cells[index] || '').trim();
+        if (!field || !value) return;
+        row[field] = row[field] ? `${row[field]} ${value}` : value;
+      });
+      return row;
+    });
+
+  const runImport = async (dryRun: boolean) => {
+    try {
+      const response = await importMutation.mutateAsync({ rows: buildRows(), dryRun, duplicates });
+      setResult(response);
+      setStep(dryRun ? 'report' : 'done');
+    } catch {
+      // Ошибка показывается через toast в хуке
+    }
+  };
+
+  const isMappingComplete = mapping.includes('name') && mapping.includes('phone');
+  const problemRows = (result?.rows || []).filter(row => row.action !== 'create');
+  const importableCount = result ? result.summary.create + result.summary.update : 0;
+
+  const renderSummary = (summary: PatientImportResult['summary']) => (
+    <div className="grid grid-cols-2 md:grid-cols-4 gap-3">
+      {(['create', 'update', 'skip', 'error'] as const).map(action => (
+        <div key={action} className={`p-3 border rounded-sm ${ACTION_LABELS[action].className}`}>
+          <p className="text-xs">{ACTION_LABELS[action].label}</p>
+          <p className="text-xl font-semibold">{summary[action]}</p>
+        </div>
+      ))}
+    </div>
+  );
+
+  return (
+    <Modal isOpen={isOpen} onClose={handleClose} title="Импорт пациентов" size="xl">
+      {step === 'upload' && (
+        <div className="space-y-4">
+          <p className="text-sm text-text-50">
+            Загрузите таблицу из Excel, Google Таблиц или другой CRM в формате CSV или XLSX. Первая строка —
+            заголовки колонок, обязательны ФИО и телефон. На следующем шаге колонки можно сопоставить с полями
+            карточки, а перед импортом — проверить результат.
+          </p>
+          <label className="flex flex-col items-center justify-center gap-3 p-8 border-2 border-dashed border-stroke rounded-sm cursor-pointer hover:border-main-100 transition-smooth">
+            <FileSpreadsheet className="w-8 h-8 text-text-10" />
+            <span className="text-sm text-text-50">Выберите файл .csv или .xlsx</span>
+            <input type="file" accept=".csv,.xlsx,text/csv" className="hidden" onChange={handleFileChange} />
+          </label>
+          {fileError && <p className="text-sm text-red-600">{fileError}</p>}
+        </div>
+      )}
+
+      {step === 'mapping' && (
+        <div className="space-y-4">
+          <p className="text-sm text-text-50">
+            {fileName}: строк с пациентами — {dataRows.length}. Укажите, в какое поле карточки попадает каждая
+            колонка.
+          </p>
+
+          <div className="max-h-[40vh] overflow-y-auto border border-stroke rounded-sm">
+            <table className="w-full text-sm">
+              <thead className="bg-bg-primary">
+                <tr className="text-left text-xs text-text-10">
+                  <th className="px-3 py-2 font-normal">Колонка в файле</th>
+                  <th className="px-3 py-2 font-normal">Пример</th>
+                  <th className="px-3 py-2 font-normal">Поле карточки</th>
+                </tr>
+              </thead>
+              <tbody>
+                {headers.map((header, index) => (
+                  <tr key={`${header}-${index}`} className="border-t border-stroke">
+                    <td className="px-3 py-2 text-text-100">{header || `Колонка ${index + 1}`}</td>
+                    <td className="px-3 py-2 text-text-50 truncate max-w-[200px]">
+                      {dataRows
+                        .slice(0, 2)
+                        .map(cells => cells[index])
+                        .filter(Boolean)
+                        .join(', ')}
+                    </td>
+                    <td className="px-3 py-2">
+                      <select
+                        value={mapping[index] || ''}
+                        onChange={e =>
+                          setMapping(prev =>
+                            prev.map((field, i) => (i === index ? (e.target.value as PatientImportField | '') : field))
+                          )
+                        }
+                        className="w-full px-3 py-1.5 border border-stroke rounded-sm bg-bg-white text-sm focus:outline-none focus:border-main-100"
+                      >
+                        <option value="">Не импортировать</option>
+                        {(Object.keys(FIELD_LABELS) as PatientImportField[]).map(field => (
+                          <option key={field} value={field}>
+                            {FIELD_LABELS[field]}
+                          </option>
+                        ))}
+                      </select>
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+
+          <div>
+            <p className="text-sm text-text-100 mb-2">Если пациент уже есть в клинике (тот же телефон или email):</p>
+            <div className="flex flex-col gap-2">
+              {DUPLICATE_OPTIONS.map(option => (
+                <label key={option.value} className="flex items-center gap-2 text-sm text-text-100">
+                  <input
+                    type="radio"
+                    name="import-duplicates"
+                    checked={duplicates === option.value}
+                    onChange={() => setDuplicates(option.value)}
+                  />
+                  {option.label}
+                  <span className="text-xs text-text-10">— {option.hint}</span>
+                </label>
+              ))}
+            </div>
+          </div>
+
+          {!isMappingComplete && <p className="text-sm text-red-600">Сопоставьте колонки ФИО и Телефон</p>}
+
+          <div className="flex justify-end gap-2 pt-2">
+            <Button variant="secondary" onClick={() => setStep('upload')}>
+              Другой файл
+            </Button>
+            <Button onClick={() => runImport(true)} disabled={!isMappingComplete} isLoading={importMutation.isPending}>
+              Проверить
+            </Button>
+          </div>
+        </div>
+      )}
+
+      {step === 'report' && result && (
+        <div className="space-y-4">
+          <p className="text-sm text-text-50">
+            Проверка без сохранения. Телефоны приведены к единому формату, строки проверены по тем же правилам, что
+            и при ручном добавлении пациента.
+          </p>
+          {renderSummary(result.summary)}
+
+          {problemRows.length > 0 && (
+            <div className="max-h-[35vh] overflow-y-auto border border-stroke rounded-sm">
+              <table className="w-full text-sm">
+                <thead className="bg-bg-primary">
+                  <tr className="text-left text-xs text-text-10">
+                    <th className="px-3 py-2 font-normal">Строка</th>
+                    <th className="px-3 py-2 font-normal">Пациент</th>
+                    <th className="px-3 py-2 font-normal">Действие</th>
+                    <th className="px-3 py-2 font-normal">Подробности</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {problemRows.map(row => (
+                    <tr key={row.row} className="border-t border-stroke">
+                      <td className="px-3 py-2 text-text-50">{row.row}</td>
+                      <td className="px-3 py-2 text-text-100">
+                        {row.data.name || '—'}
+                        {row.data.phone && <span className="text-xs text-text-10"> · {row.data.phone}</span>}
+                      </td>
+                      <td className="px-3 py-2">
+                        <span className={`px-2 py-0.5 border rounded-sm text-xs ${ACTION_LABELS[row.action].className}`}>
+                          {ACTION_LABELS[row.action].label}
+                        </span>
+                      </td>
+                      <td className="px-3 py-2 text-xs text-text-50">
+                        {row.errors
+                          ? row.errors
+                              .map(error => `${FIELD_LABELS[error.field as PatientImportField] || error.field}: ${error.message}`)
+                              .join('; ')
+                          : [row.reason, row.existing && `карточка «${row.existing.name}»`].filter(Boolean).join(': ')}
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          )}
+
+          <div className="flex justify-end gap-2 pt-2">
+            <Button variant="secondary" onClick={() => setStep('mapping')}>
+              Назад
+            </Button>
+            <Button
+              onClick={() => runImport(false)}
+              disabled={importableCount === 0}
+              isLoading={importMutation.isPending}
+            >
+              Импортировать ({importableCount})
+            </Button>
+          </div>
+        </div>
+      )}
+
+      {step === 'done' && result && (
+        <div className="space-y-4">
+          <p className="text-sm text-text-100">Импорт из файла {fileName} завершён.</p>
+          {renderSummary(result.summary)}
+          <div className="flex justify-end pt-2">
+            <Button onClick={handleClose}>Готово</Button>
+          </div>
+        </div>
+      )}
+    </Modal>
+  );
+};
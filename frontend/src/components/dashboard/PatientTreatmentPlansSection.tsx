@@ -0,0 +1,80 @@
+import React from 'react';
+import { Link } from 'react-router-dom';
+import { ClipboardList } from 'lucide-react';
+import { Button, Card } from '../common';
+import { useMyTreatmentPlans, useAcceptTreatmentPlan } from '../../hooks/useTreatmentPlans';
+import { PLAN_STATUS_LABELS, formatPlanAmount } from '../../utils/treatmentPlan';
+
+/**
+ * PatientTreatmentPlansSection Component
+ * Планы лечения пациента: смета, ход выполнения этапов и принятие плана
+ */
+export const PatientTreatmentPlansSection: React.FC = () => {
+  const { data: plans = [] } = useMyTreatmentPlans();
+  const acceptPlan = useAcceptTreatmentPlan();
+
+  const visiblePlans = plans.filter(plan => plan.status !== 'cancelled');
+
+  if (visiblePlans.length === 0) {
+    return null;
+  }
+
+  return (
+    <Card padding="lg" className="border-stroke">
+      <div className="flex items-center gap-2 mb-4">
+        <ClipboardList className="w-5 h-5 text-text-50" />
+        <h2 className="text-xl font-semibold text-text-50">Планы лечения</h2>
+      </div>
+
+      <div className="space-y-3">
+        {visiblePlans.map(plan => {
+          const currency = plan.clinic?.settings?.currency;
+          const status = PLAN_STATUS_LABELS[plan.status];
+          const activeStages = plan.stages.filter(stage => stage.status !== 'cancelled');
+          const doneCount = activeStages.filter(stage => stage.status === 'done').length;
+
+          return (
+            <div
+              key={plan.id}
+              className={`p-4 rounded-sm border flex flex-wrap items-center justify-between gap-3 ${
+                plan.status === 'presented' ? 'border-main-100 bg-main-10' : 'border-stroke bg-bg-white'
+              }`}
+            >
+              <div className="text-sm">
+                <div className="flex items-center gap-2 mb-1">
+                  <p className="font-medium text-text-100">{plan.title}</p>
+                  <span className={`px-2 py-0.5 border rounded-sm text-xs ${status.className}`}>{status.label}</span>
+                </div>
+                <p className="text-xs text-text-10">
+                  {plan.clinic?.name}
+                  {plan.doctor && ` · ${plan.doctor.name}`}
+                  {` · ${formatPlanAmount(plan.totals.estimated, currency)}`}
+                  {['accepted', 'completed'].includes(plan.status) &&
+                    ` · выполнено этапов: ${doneCount} из ${activeStages.length}`}
+                </p>
+              </div>
+              <div className="flex items-center gap-2">
+                <Link
+                  to={`/dashboard/patient/treatment-plans/${plan.id}`}
+                  className="px-3 py-1.5 text-xs text-text-100 border border-stroke rounded-sm bg-white hover:bg-bg-primary transition-smooth"
+                >
+                  Смета
+                </Link>
+                {plan.status === 'presented' && (
+                  <Button
+                    size="sm"
+                    variant="success"
+                    onClick={() => acceptPlan.mutate(plan.id)}
+                    isLoading={acceptPlan.isPending && acceptPlan.variables === plan.id}
+                  >
+                    Принять
+                  </Button>
+                )}
+              </div>
+            </div>
+          );
+        })}
+      </div>
+    </Card>
+  );
+};
@@ -0,0 +1,254 @@
+import React, { useMemo, useState } from 'react';
+import { format } from 'date-fns';
+import { ru } from 'date-fns/locale';
+import { Clock, ListOrdered, X } from 'lucide-react';
+import { Button, Card } from '../common';
+import { Appointment, WaitlistEntry } from '../../types/api.types';
+import {
+  useMyWaitlist,
+  useCreateWaitlistEntry,
+  useRemoveWaitlistEntry,
+  useAcceptWaitlistOffer,
+  useDeclineWaitlistOffer,
+} from '../../hooks/useWaitlist';
+import { safeParseDate } from '../../utils/dateFormat';
+
+interface PatientWaitlistSectionProps {
+  appointments: Appointment[]; // Записи пациента — из них берутся клиники и врачи для формы
+}
+
+const getPendingOffer = (entry: WaitlistEntry) =>
+  entry.offers?.find(offer => offer.status === 'pending') || null;
+
+const formatDateKey = (dateKey: string) => format(safeParseDate(`${dateKey}T00:00:00`), 'd MMM yyyy', { locale: ru });
+
+/**
+ * PatientWaitlistSection Component
+ * Лист ожидания пациента: предложения освободившегося времени, свои запросы и запись в очередь
+ */
+export const PatientWaitlistSection: React.FC<PatientWaitlistSectionProps> = ({ appointments }) => {
+  const [isFormOpen, setIsFormOpen] = useState(false);
+  const [formData, setFormData] = useState({ clinicId: '', doctorId: '', dateFrom: '', dateTo: '', notes: '' });
+  const [formError, setFormError] = useState('');
+
+  const { data: entries = [] } = useMyWaitlist();
+  const createEntry = useCreateWaitlistEntry(true);
+  const removeEntry = useRemoveWaitlistEntry(true);
+  const acceptOffer = useAcceptWaitlistOffer();
+  const declineOffer = useDeclineWaitlistOffer();
+
+  // Клиники и врачи, у которых пациент уже записывался
+  const clinics = useMemo(() => {
+    const map = new Map<string, string>();
+    appointments.forEach(appointment => {
+      if (appointment.clinic) map.set(appointment.clinicId, appointment.clinic.name);
+    });
+    return Array.from(map, ([id, name]) => ({ id, name }));
+  }, [appointments]);
+
+  const doctors = useMemo(() => {
+    const map = new Map<string, string>();
+    appointments
+      .filter(appointment => appointment.clinicId === formData.clinicId && appointment.doctor)
+      .forEach(appointment => map.set(appointment.doctorId, appointment.doctor!.name));
+    return Array.from(map, ([id, name]) => ({ id, name }));
+  }, [appointments, formData.clinicId]);
+
+  const offers = entries.filter(entry => getPendingOffer(entry));
+  const waiting = entries.filter(entry => !getPendingOffer(entry));
+
+  const inputClassName =
+    'w-full px-3 py-2 border border-stroke rounded-sm bg-bg-white text-sm text-text-100 focus:outline-none focus:border-main-100 transition-smooth';
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setFormError('');
+
+    if (!formData.clinicId) {
+      setFormError('Выберите клинику');
+      return;
+    }
+    if (!formData.dateFrom || !formData.dateTo || formData.dateTo < formData.dateFrom) {
+      setFormError('Укажите корректный период');
+      return;
+    }
+
+    try {
+      await createEntry.mutateAsync({
+        clinicId: formData.clinicId,
+        doctorId: formData.doctorId || null,
+        dateFrom: formData.dateFrom,
+        dateTo: formData.dateTo,
+        notes: formData.notes || undefined,
+      });
+      setFormData({ clinicId: '', doctorId: '', dateFrom: '', dateTo: '', notes: '' });
+      setIsFormOpen(false);
+    } catch {
+      // Ошибка показывается через toast в хуке
+    }
+  };
+
+  if (entries.length === 0 && clinics.length === 0) {
+    return null;
+  }
+
+  return (
+    <Card padding="lg" className="border border-stroke shadow-md">
+      <div className="flex items-center justify-between gap-2 mb-4">
+        <div className="flex items-center gap-2">
+          <ListOrdered className="w-5 h-5 text-text-50" />
+          <h2 className="text-lg font-semibold text-text-50">Лист ожидания</h2>
+        </div>
+        {clinics.length > 0 && (
+          <Button size="sm" variant="secondary" onClick={() => setIsFormOpen(open => !open)}>
+            {isFormOpen ? 'Скрыть' : 'Хочу раньше'}
+          </Button>
+        )}
+      </div>
+
+      <div className="space-y-3">
+        {/* Предложения освободившегося времени */}
+        {offers.map(entry => {
+          const offer = getPendingOffer(entry)!;
+
+          return (
+            <div
+              key={offer.id}
+              className="p-3 rounded-sm border border-main-100 bg-main-10 flex flex-wrap items-center justify-between gap-3"
+            >
+              <div className="text-sm text-text-100">
+                <p className="font-medium">
+                  Освободилось время: {format(safeParseDate(offer.appointmentDate), 'd MMMM yyyy, HH:mm', { locale: ru })}
+                </p>
+                <p className="text-xs text-text-50 mt-1 flex items-center gap-1">
+                  <Clock className="w-3.5 h-3.5" />
+                  {entry.clinic?.name}
+                  {entry.doctor && ` · ${entry.doctor.name}`}
+                  {' · '}ответьте до {format(safeParseDate(offer.expiresAt), 'd MMM, HH:mm', { locale: ru })}
+                </p>
+              </div>
+              <div className="flex gap-2">
+                <Button
+                  size="sm"
+                  variant="success"
+                  onClick={() => acceptOffer.mutate(offer.id)}
+                  isLoading={acceptOffer.isPending && acceptOffer.variables === offer.id}
+                >
+                  Записаться
+                </Button>
+                <Button
+                  size="sm"
+                  variant="secondary"
+                  onClick={() => declineOffer.mutate(offer.id)}
+                  isLoading={declineOffer.isPending && declineOffer.variables === offer.id}
+                >
+                  Отказаться
+                </Button>
+              </div>
+            </div>
+          );
+        })}
+
+        {/* Свои запросы в листе ожидания */}
+        {waiting.map(entry => (
+          <div key={entry.id} className="p-3 rounded-sm border border-stroke bg-bg-white flex items-center justify-between gap-3">
+            <p className="text-sm text-text-100">
+              {entry.clinic?.name}
+              {entry.doctor && ` · ${entry.doctor.name}`}
+              <span className="ml-2 text-xs text-text-10">
+                {formatDateKey(entry.dateFrom)} — {formatDateKey(entry.dateTo)}
+              </span>
+            </p>
+            <button
+              type="button"
+              onClick={() => removeEntry.mutate(entry.id)}
+              disabled={removeEntry.isPending}
+              className="p-1.5 text-text-10 hover:text-red-600 transition-smooth"
+              title="Выйти из листа ожидания"
+            >
+              <X className="w-4 h-4" />
+            </button>
+          </div>
+        ))}
+
+        {entries.length === 0 && !isFormOpen && (
+          <p className="text-sm text-text-10">
+            Хотите попасть на приём раньше? Встаньте в лист ожидания — мы предложим освободившееся время.
+          </p>
+        )}
+
+        {/* Запись в лист ожидания */}
+        {isFormOpen && (
+          <form onSubmit={handleSubmit} className="pt-3 border-t border-stroke space-y-3">
+            <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-4 gap-3">
+              <div>
+                <label className="block text-xs text-text-50 mb-1">Клиника</label>
+                <select
+                  value={formData.clinicId}
+                  onChange={e => setFormData(prev => ({ ...prev, clinicId: e.target.value, doctorId: '' }))}
+                  className={inputClassName}
+                >
+                  <option value="">Выберите клинику</option>
+                  {clinics.map(clinic => (
+                    <option key={clinic.id} value={clinic.id}>
+                      {clinic.name}
+                    </option>
+                  ))}
+                </select>
+              </div>
+              <div>
+                <label className="block text-xs text-text-50 mb-1">Врач</label>
+                <select
+                  value={formData.doctorId}
+                  onChange={e => setFormData(prev => ({ ...prev, doctorId: e.target.value }))}
+                  disabled={!formData.clinicId}
+                  className={inputClassName}
+                >
+                  <option value="">Любой врач</option>
+                  {doctors.map(doctor => (
+                    <option key={doctor.id} value={doctor.id}>
+                      {doctor.name}
+                    </option>
+                  ))}
+                </select>
+              </div>
+              <div>
+                <label className="block text-xs text-text-50 mb-1">С даты</label>
+                <input
+                  type="date"
+                  value={formData.dateFrom}
+                  onChange={e => setFormData(prev => ({ ...prev, dateFrom: e.target.value }))}
+                  className={inputClassName}
+                />
+              </div>
+              <div>
+                <label className="block text-xs text-text-50 mb-1">По дату</label>
+                <input
+                  type="date"
+                  value={formData.dateTo}
+                  min={formData.dateFrom || undefined}
+                  onChange={e => setFormData(prev => ({ ...prev, dateTo: e.target.value }))}
+                  className={inputClassName}
+                />
+              </div>
+            </div>
+            <input
+              type="text"
+              value={formData.notes}
+              onChange={e => setFormData(prev => ({ ...prev, notes: e.target.value }))}
+              placeholder="Комментарий (например, удобно только утром)"
+              maxLength={500}
+              className={inputClassName}
+            />
+            {formError && <p className="text-xs text-red-600">{formError}</p>}
+            <div className="flex justify-end">
+              <Button type="submit" size="sm" isLoading={createEntry.isPending}>
+                Встать в лист ожидания
+              </Button>
+            </div>
+          </form>
+        )}
+      </div>
+    </Card>
+  );
+};
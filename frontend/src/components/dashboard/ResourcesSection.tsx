@@ -0,0 +1,288 @@
+import React, { useState } from 'react';
+import { Button } from '../common/Button';
+import { Card } from '../common/Card';
+import { Modal } from '../common/Modal';
+import { Spinner } from '../common/Spinner';
+import { ClinicResource, ClinicResourceType } from '../../types/api.types';
+import {
+  useResources,
+  useCreateResource,
+  useUpdateResource,
+  useDeleteResource,
+} from '../../hooks/useResources';
+
+export const RESOURCE_TYPE_LABELS: Record<ClinicResourceType, string> = {
+  chair: 'Кресло',
+  room: 'Кабинет',
+  equipment: 'Оборудование',
+};
+
+const INITIAL_FORM = {
+  name: '',
+  type: 'chair' as ClinicResourceType,
+  description: '',
+};
+
+const inputClassName =
+  'w-full px-4 py-3 border border-stroke rounded-lg bg-bg-white text-sm text-text-100 focus:outline-none focus:ring-2 focus:ring-main-100 focus:border-main-100 transition-colors';
+
+/**
+ * ResourcesSection Component
+ * Управление ресурсами клиники: кабинеты, стоматологические кресла и оборудование,
+ * которые занимаются на время приёма и не могут быть забронированы дважды
+ */
+export const ResourcesSection: React.FC = () => {
+  const { data: resources = [], isLoading } = useResources();
+  const createMutation = useCreateResource();
+  const updateMutation = useUpdateResource();
+  const deleteMutation = useDeleteResource();
+
+  const [isFormVisible, setIsFormVisible] = useState(false);
+  const [editingResource, setEditingResource] = useState<ClinicResource | null>(null);
+  const [resourceToDelete, setResourceToDelete] = useState<ClinicResource | null>(null);
+  const [formData, setFormData] = useState(INITIAL_FORM);
+
+  const closeForm = () => {
+    setIsFormVisible(false);
+    setEditingResource(null);
+    setFormData(INITIAL_FORM);
+  };
+
+  const handleAddClick = () => {
+    setFormData(INITIAL_FORM);
+    setEditingResource(null);
+    setIsFormVisible(!isFormVisible);
+  };
+
+  const handleEditClick = (resource: ClinicResource) => {
+    setFormData({
+      name: resource.name,
+      type: resource.type,
+      description: resource.description || '',
+    });
+    setEditingResource(resource);
+    setIsFormVisible(true);
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    const submitData = {
+      name: formData.name.trim(),
+      type: formData.type,
+      description: formData.description.trim() || null,
+    };
+
+    try {
+      if (editingResource) {
+        await updateMutation.mutateAsync({ id: editingResource.id, data: submitData });
+      } else {
+        await createMutation.mutateAsync(submitData);
+      }
+      closeForm();
+    } catch {
+      // Ошибка показывается через toast в хуке
+    }
+  };
+
+  const handleToggleActive = (resource: ClinicResource) => {
+    updateMutation.mutate({ id: resource.id, data: { isActive: !resource.isActive } });
+  };
+
+  const handleConfirmDelete = async () => {
+    if (!resourceToDelete) return;
+
+    try {
+      await deleteMutation.mutateAsync(resourceToDelete.id);
+      setResourceToDelete(null);
+    } catch {
+      // Ошибка показывается через toast в хуке
+    }
+  };
+
+  if (isLoading) {
+    return (
+      <Card title="Кабинеты и оборудование" padding="lg">
+        <div className="flex justify-center py-8">
+          <Spinner size="md" />
+        </div>
+      </Card>
+    );
+  }
+
+  return (
+    <>
+      <Card title="Кабинеты и оборудование" padding="lg">
+        <div className="space-y-4">
+          {/* Описание */}
+          <div className="bg-blue-50 border border-blue-200 rounded-sm p-4">
+            <p className="text-blue-800 text-sm">
+              <strong>Информация:</strong> Добавьте кабинеты, кресла и оборудование (например, рентген).
+              При записи можно выбрать нужные ресурсы — один ресурс не может быть занят двумя приёмами
+              одновременно. Отключённые ресурсы не предлагаются при записи.
+            </p>
+          </div>
+
+          {/* Кнопка добавления */}
+          <div className="flex justify-end">
+            <Button type="button" variant="primary" size="md" onClick={handleAddClick}>
+              + Добавить ресурс
+            </Button>
+          </div>
+
+          {/* Inline форма добавления/редактирования */}
+          {isFormVisible && (
+            <div className="border border-stroke rounded-sm bg-bg-white p-4">
+              <form onSubmit={handleSubmit} className="space-y-4">
+                <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                  <div>
+                    <label className="block text-sm font-medium text-text-50 mb-2">Название *</label>
+                    <input
+                      type="text"
+                      placeholder="Например: Кресло 1"
+                      value={formData.name}
+                      onChange={e => setFormData({ ...formData, name: e.target.value })}
+                      required
+                      maxLength={100}
+                      className={inputClassName}
+                    />
+                  </div>
+                  <div>
+                    <label className="block text-sm font-medium text-text-50 mb-2">Тип *</label>
+                    <select
+                      value={formData.type}
+                      onChange={e => setFormData({ ...formData, type: e.target.value as ClinicResourceType })}
+                      className={inputClassName}
+                    >
+                      {(Object.keys(RESOURCE_TYPE_LABELS) as ClinicResourceType[]).map(type => (
+                        <option key={type} value={type}>
+                          {RESOURCE_TYPE_LABELS[type]}
+                        </option>
+                      ))}
+                    </select>
+                  </div>
+                </div>
+
+                <div>
+                  <label className="block text-sm font-medium text-text-10 mb-2">Описание (опционально)</label>
+                  <textarea
+                    className={`${inputClassName} resize-none`}
+                    rows={2}
+                    placeholder="Например: кабинет на втором этаже"
+                    value={formData.description}
+                    onChange={e => setFormData({ ...formData, description: e.target.value })}
+                    maxLength={500}
+                  />
+                </div>
+
+                {/* Кнопки действий */}
+                <div className="flex gap-3 pt-2">
+                  <Button
+                    type="button"
+                    variant="secondary"
+                    onClick={closeForm}
+                    disabled={createMutation.isPending || updateMutation.isPending}
+                    size="sm"
+                  >
+                    Отмена
+                  </Button>
+                  <Button
+                    type="submit"
+                    variant="primary"
+                    isLoading={createMutation.isPending || updateMutation.isPending}
+                    size="sm"
+                  >
+                    {editingResource ? 'Сохранить' : 'Добавить'}
+                  </Button>
+                </div>
+              </form>
+            </div>
+          )}
+
+          {/* Список ресурсов */}
+          {resources.length === 0 ? (
+            <div className="text-center py-12 border border-stroke rounded-sm bg-bg-white">
+              <p className="text-text-50 text-lg">Нет ресурсов</p>
+              <p className="text-text-10 text-sm mt-2">
+                Добавьте кабинеты, кресла или оборудование вашей клиники
+              </p>
+            </div>
+          ) : (
+            <div className="space-y-3">
+              {resources.map(resource => (
+                <div
+                  key={resource.id}
+                  className={`flex items-center justify-between p-4 border border-stroke rounded-sm bg-bg-white hover:border-main-100 transition-colors ${
+                    resource.isActive ? '' : 'opacity-60'
+                  }`}
+                >
+                  <div className="flex-1">
+                    <div className="flex items-center gap-3">
+                      <h4 className="text-text-100 font-semibold text-base">{resource.name}</h4>
+                      <span className="px-2 py-0.5 text-xs rounded-sm bg-main-10 text-main-100">
+                        {RESOURCE_TYPE_LABELS[resource.type]}
+                      </span>
+                      {!resource.isActive && (
+                        <span className="px-2 py-0.5 text-xs rounded-sm bg-bg-primary text-text-50">Отключён</span>
+                      )}
+                    </div>
+                    {resource.description && <p className="text-text-10 text-sm mt-1">{resource.description}</p>}
+                  </div>
+                  <div className="flex items-center gap-2">
+                    <Button
+                      type="button"
+                      variant="secondary"
+                      size="sm"
+                      onClick={() => handleToggleActive(resource)}
+                      disabled={updateMutation.isPending}
+                    >
+                      {resource.isActive ? 'Отключить' : 'Включить'}
+                    </Button>
+                    <Button type="button" variant="secondary" size="sm" onClick={() => handleEditClick(resource)}>
+                      Редактировать
+                    </Button>
+                    <Button type="button" variant="danger" size="sm" onClick={() => setResourceToDelete(resource)}>
+                      Удалить
+                    </Button>
+                  </div>
+                </div>
+              ))}
+            </div>
+          )}
+        </div>
+      </Card>
+
+      {/* Модальное окно подтверждения удаления */}
+      <Modal isOpen={!!resourceToDelete} onClose={() => setResourceToDelete(null)} title="Подтверждение удаления">
+        <div className="space-y-4">
+          <p className="text-text-50">
+            Вы уверены, что хотите удалить ресурс <strong>{resourceToDelete?.name}</strong>?
+          </p>
+          <p className="text-text-10 text-sm">
+            Ресурс будет снят со всех приёмов. Чтобы сохранить историю, ресурс можно просто отключить.
+          </p>
+          <div className="flex gap-3 pt-4">
+            <Button
+              type="button"
+              variant="secondary"
+              onClick={() => setResourceToDelete(null)}
+              disabled={deleteMutation.isPending}
+              className="flex-1"
+            >
+              Отмена
+            </Button>
+            <Button
+              type="button"
+              variant="danger"
+              onClick={handleConfirmDelete}
+              isLoading={deleteMutation.isPending}
+              className="flex-1"
+            >
+              Удалить
+            </Button>
+          </div>
+        </div>
+      </Modal>
+    </>
+  );
+};
@@ -11,6 +11,7 @@ import patientIcon from '../../assets/icons/patient.svg';
 import analyticsIcon from '../../assets/icons/analytics.svg';
 import settingsIcon from '../../assets/icons/settings.svg';
 import webIcon from '../../assets/icons/web.svg';
+import fileTextIcon from '../../assets/icons/file-text.svg';
 import hippocratesLogo from '../../assets/icons/hippocrates-logo.png';
 
 /**
@@ -96,6 +97,11 @@ export const Sidebar: React.FC = () => {
                 <span className="text-sm">Appointments</span>
               </NavLink>
 
+              <NavLink to="/dashboard/patient/history" className={navLinkClass}>
+                <img src={fileTextIcon} alt="History" className="w-6 h-6" />
+                <span className="text-sm">History</span>
+              </NavLink>
+
               <NavLink to="/dashboard/patient/clinics" className={navLinkClass}>
                 <img src={doctorIcon} alt="Clinics" className="w-6 h-6" />
                 <span className="text-sm">Clinics</span>
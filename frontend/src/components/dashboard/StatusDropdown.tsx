@@ -119,8 +119,11 @@ export const StatusDropdown: React.FC<StatusDropdownProps> = ({
   const statusOptions = [
     { value: 'pending', label: 'Ожидает', color: 'bg-yellow-50 text-yellow-700 border-yellow-200', indicatorColor: 'bg-yellow-500' },
     { value: 'confirmed', label: 'Подтвержден', color: 'bg-main-10 text-main-100 border-main-100/20', indicatorColor: 'bg-main-100' },
+    { value: 'arrived', label: 'Пришёл', color: 'bg-sky-50 text-sky-700 border-sky-200', indicatorColor: 'bg-sky-500' },
+    { value: 'in_progress', label: 'На приёме', color: 'bg-purple-50 text-purple-700 border-purple-200', indicatorColor: 'bg-purple-500' },
     { value: 'completed', label: 'Завершен', color: 'bg-secondary-10 text-secondary-100 border-secondary-100/20', indicatorColor: 'bg-green-500' },
     { value: 'cancelled', label: 'Отменен', color: 'bg-bg-primary text-text-10 border-stroke', indicatorColor: 'bg-gray-400' },
+    { value: 'no_show', label: 'Не пришёл', color: 'bg-red-50 text-red-700 border-red-200', indicatorColor: 'bg-red-400' },
   ];
 
   const currentStatusOption = statusOptions.find(opt => opt.value === currentStatus) || statusOptions[0];
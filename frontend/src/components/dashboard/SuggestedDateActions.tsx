@@ -0,0 +1,80 @@
+import React from 'react';
+import { CalendarClock } from 'lucide-react';
+import { Button } from '../common';
+import { SuggestionStatus } from '../../types/api.types';
+import { useAcceptSuggestedDate, useDeclineSuggestedDate } from '../../hooks/usePatientAppointments';
+import { formatAppointmentDateTime, safeParseDate } from '../../utils/dateFormat';
+
+interface SuggestedDateActionsProps {
+  appointmentId: string; // Отменённый приём, к которому клиника предложила новое время
+  suggestedNewDate: Date | string;
+  status?: SuggestionStatus | null;
+  timeZone?: string; // Пояс клиники — время показывается по её часам
+  className?: string;
+}
+
+const STATUS_LABELS: Record<Exclude<SuggestionStatus, 'pending'>, string> = {
+  accepted: 'Вы приняли это время',
+  declined: 'Вы отказались от этого времени',
+};
+
+/**
+ * SuggestedDateActions Component
+ * Предложенное клиникой новое время с кнопками «Принять» / «Отклонить» для пациента
+ */
+export const SuggestedDateActions: React.FC<SuggestedDateActionsProps> = ({
+  appointmentId,
+  suggestedNewDate,
+  status,
+  timeZone,
+  className = '',
+}) => {
+  const acceptSuggestion = useAcceptSuggestedDate();
+  const declineSuggestion = useDeclineSuggestedDate();
+
+  const suggestedDate = safeParseDate(suggestedNewDate);
+  const isExpired = suggestedDate.getTime() <= Date.now();
+  const isBusy = acceptSuggestion.isPending || declineSuggestion.isPending;
+
+  return (
+    <div className={`flex flex-wrap items-center justify-between gap-2 ${className}`}>
+      <div className="flex items-center gap-2 text-xs text-text-100">
+        <CalendarClock className="w-4 h-4 text-main-100 flex-shrink-0" />
+        <span>Новое время: {formatAppointmentDateTime(suggestedDate, { dateFormat: 'long', timeZone })}</span>
+      </div>
+
+      {status && status !== 'pending' ? (
+        <span className="text-xs text-text-10">{STATUS_LABELS[status]}</span>
+      ) : isExpired ? (
+        <span className="text-xs text-text-10">Предложенное время уже прошло</span>
+      ) : (
+        <div className="flex gap-2">
+          <Button
+            size="sm"
+            variant="success"
+            onClick={e => {
+              e.stopPropagation();
+              acceptSuggestion.mutate(appointmentId);
+            }}
+            isLoading={acceptSuggestion.isPending}
+            disabled={isBusy}
+          >
+            Принять
+          </Button>
+          <Button
+            size="sm"
+            variant="secondary"
+            onClick={e => {
+              e.stopPropagation();
+              declineSuggestion.mutate(appointmentId);
+            }}
+            isLoading={declineSuggestion.isPending}
+            disabled={isBusy}
+          >
+            Отклонить
+          </Button>
+        </div>
+      )}
+    </div>
+  );
+};
@@ -12,6 +12,20 @@ import {
 } from '../../hooks/useTreatmentCategories';
 import { Spinner } from '../common/Spinner';
 import { toast } from 'react-hot-toast';
+import { CLINICAL_NOTE_SECTIONS } from '../../utils/clinicalNote';
+
+const EMPTY_FORM = {
+  name: '',
+  defaultDuration: 30,
+  description: '',
+  color: '',
+  bufferBeforeMinutes: '', // Пусто — как в настройках клиники
+  bufferAfterMinutes: '',
+  templateComplaint: '', // Шаблон протокола приёма
+  templateDiagnosis: '',
+  templateTreatment: '',
+  templateRecommendations: '',
+};
 
 /**
  * TreatmentCategoriesSection Component
@@ -28,15 +42,10 @@ export const TreatmentCategoriesSection: React.FC = () => {
   const [categoryToDelete, setCategoryToDelete] = useState<TreatmentCategory | null>(null);
 
   // Форма добавления/редактирования
-  const [formData, setFormData] = useState({
-    name: '',
-    defaultDuration: 30,
-    description: '',
-    color: '',
-  });
+  const [formData, setFormData] = useState(EMPTY_FORM);
 
   const handleAddClick = () => {
-    setFormData({ name: '', defaultDuration: 30, description: '', color: '' });
+    setFormData(EMPTY_FORM);
     setIsAddFormVisible(!isAddFormVisible);
     setEditingCategory(null);
   };
@@ -47,6 +56,12 @@ export const TreatmentCategoriesSection: React.FC = () => {
       defaultDuration: category.defaultDuration,
       description: category.description || '',
       color: category.color || '',
+      bufferBeforeMinutes: category.bufferBeforeMinutes != null ? String(category.bufferBeforeMinutes) : '',
+      bufferAfterMinutes: category.bufferAfterMinutes != null ? String(category.bufferAfterMinutes) : '',
+      templateComplaint: category.templateComplaint || '',
+      templateDiagnosis: category.templateDiagnosis || '',
+      templateTreatment: category.templateTreatment || '',
+      templateRecommendations: category.templateRecommendations || '',
     });
     setEditingCategory(category);
     setIsAddFormVisible(true);
@@ -76,6 +91,13 @@ export const TreatmentCategoriesSection: React.FC = () => {
         name: formData.name.trim(),
         defaultDuration: formData.defaultDuration,
         description: formData.description.trim() || undefined,
+        // Пустой буфер — использовать значение из настроек клиники
+        bufferBeforeMinutes: formData.bufferBeforeMinutes !== '' ? parseInt(formData.bufferBeforeMinutes) : null,
+        bufferAfterMinutes: formData.bufferAfterMinutes !== '' ? parseInt(formData.bufferAfterMinutes) : null,
+        templateComplaint: formData.templateComplaint.trim() || null,
+        templateDiagnosis: formData.templateDiagnosis.trim() || null,
+        templateTreatment: formData.templateTreatment.trim() || null,
+        templateRecommendations: formData.templateRecommendations.trim() || null,
       };
 
       // Обработка цвета
@@ -104,7 +126,7 @@ export const TreatmentCategoriesSection: React.FC = () => {
       }
       setIsAddFormVisible(false);
       setEditingCategory(null);
-      setFormData({ name: '', defaultDuration: 30, description: '', color: '' });
+      setFormData(EMPTY_FORM);
     } catch (error: any) {
       toast.error(error.message || 'Ошибка при сохранении категории');
     }
@@ -125,7 +147,7 @@ export const TreatmentCategoriesSection: React.FC = () => {
   const handleCancelForm = () => {
     setIsAddFormVisible(false);
     setEditingCategory(null);
-    setFormData({ name: '', defaultDuration: 30, description: '', color: '' });
+    setFormData(EMPTY_FORM);
   };
 
   if (isLoading) {
@@ -199,6 +221,38 @@ export const TreatmentCategoriesSection: React.FC = () => {
                   </div>
                 </div>
 
+                {/* Буферы до и после процедуры */}
+                <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                  <div>
+                    <label className="block text-sm font-medium text-text-50 mb-2">
+                      Подготовка перед процедурой (мин)
+                    </label>
+                    <input
+                      type="number"
+                      min="0"
+                      max="120"
+                      placeholder="Как в настройках клиники"
+                      value={formData.bufferBeforeMinutes}
+                      onChange={(e) => setFormData({ ...formData, bufferBeforeMinutes: e.target.value })}
+                      className="w-full px-4 py-3 border border-stroke rounded-lg bg-bg-white text-sm text-text-100 focus:outline-none focus:ring-2 focus:ring-main-100 focus:border-main-100 transition-colors"
+                    />
+                  </div>
+                  <div>
+                    <label className="block text-sm font-medium text-text-50 mb-2">
+                      Уборка и стерилизация после (мин)
+                    </label>
+                    <input
+                      type="number"
+                      min="0"
+                      max="120"
+                      placeholder="Как в настройках клиники"
+                      value={formData.bufferAfterMinutes}
+                      onChange={(e) => setFormData({ ...formData, bufferAfterMinutes: e.target.value })}
+                      className="w-full px-4 py-3 border border-stroke rounded-lg bg-bg-white text-sm text-text-100 focus:outline-none focus:ring-2 focus:ring-main-100 focus:border-main-100 transition-colors"
+                    />
+                  </div>
+                </div>
+
                 {/* Описание и цвет в одной строке */}
                 <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
                   <div>
@@ -248,6 +302,29 @@ export const TreatmentCategoriesSection: React.FC = () => {
                   </div>
                 </div>
 
+                {/* Шаблон протокола приёма */}
+                <div>
+                  <label className="block text-sm font-medium text-text-50 mb-1">
+                    Шаблон протокола приёма (опционально)
+                  </label>
+                  <p className="text-xs text-text-10 mb-2">
+                    Этим текстом заполняются разделы записи врача при завершении приёма по этой категории
+                  </p>
+                  <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                    {CLINICAL_NOTE_SECTIONS.map(section => (
+                      <div key={section.key}>
+                        <label className="block text-xs text-text-10 mb-1">{section.label}</label>
+                        <textarea
+                          className="w-full px-4 py-3 border border-stroke rounded-lg bg-bg-white text-sm text-text-100 focus:outline-none focus:ring-2 focus:ring-main-100 focus:border-main-100 resize-none transition-colors"
+                          rows={2}
+                          value={formData[section.templateField]}
+                          onChange={(e) => setFormData({ ...formData, [section.templateField]: e.target.value })}
+                        />
+                      </div>
+                    ))}
+                  </div>
+                </div>
+
                 {/* Кнопки действий */}
                 <div className="flex gap-3 pt-2">
                   <Button
@@ -320,6 +397,11 @@ export const TreatmentCategoriesSection: React.FC = () => {
                       <span className="text-text-50 text-sm">
                         Длительность по умолчанию: <strong>{category.defaultDuration} мин</strong>
                       </span>
+                      {(category.bufferBeforeMinutes != null || category.bufferAfterMinutes != null) && (
+                        <span className="text-text-50 text-sm">
+                          Буфер: <strong>{category.bufferBeforeMinutes ?? '—'} / {category.bufferAfterMinutes ?? '—'} мин</strong>
+                        </span>
+                      )}
                       {category.color && (
                         <span className="text-text-50 text-sm font-mono">
                           Цвет: <strong>{category.color}</strong>
@@ -0,0 +1,280 @@
+import React, { useEffect, useState } from 'react';
+import { ArrowDown, ArrowUp, Plus, Trash2 } from 'lucide-react';
+import { Button, Modal } from '../common';
+import { TreatmentPlan, TreatmentPlanStageInput } from '../../types/api.types';
+import { useTreatmentCategories } from '../../hooks/useTreatmentCategories';
+import { useCreateTreatmentPlan, useUpdateTreatmentPlan } from '../../hooks/useTreatmentPlans';
+import { formatPlanAmount } from '../../utils/treatmentPlan';
+
+interface TreatmentPlanFormModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  patientId: string;
+  plan?: TreatmentPlan | null; // Если передан — редактирование
+  currency?: string | null;
+}
+
+interface StageForm {
+  title: string;
+  description: string;
+  treatmentCategoryId: string;
+  tooth: string;
+  estimatedPrice: string;
+}
+
+const emptyStage: StageForm = { title: '', description: '', treatmentCategoryId: '', tooth: '', estimatedPrice: '' };
+
+/**
+ * TreatmentPlanFormModal Component
+ * Создание и редактирование плана лечения: упорядоченные этапы с категориями и стоимостью
+ */
+export const TreatmentPlanFormModal: React.FC<TreatmentPlanFormModalProps> = ({
+  isOpen,
+  onClose,
+  patientId,
+  plan,
+  currency,
+}) => {
+  const [title, setTitle] = useState('');
+  const [notes, setNotes] = useState('');
+  const [stages, setStages] = useState<StageForm[]>([{ ...emptyStage }]);
+  const [formError, setFormError] = useState('');
+
+  const { data: categories = [] } = useTreatmentCategories();
+  const createPlan = useCreateTreatmentPlan();
+  const updatePlan = useUpdateTreatmentPlan();
+
+  useEffect(() => {
+    if (!isOpen) return;
+
+    setFormError('');
+    setTitle(plan?.title || '');
+    setNotes(plan?.notes || '');
+    setStages(
+      plan?.stages.length
+        ? plan.stages.map(stage => ({
+            title: stage.title,
+            description: stage.description || '',
+            treatmentCategoryId: stage.treatmentCategoryId || '',
+            tooth: stage.tooth ? String(stage.tooth) : '',
+            estimatedPrice: String(stage.estimatedPrice),
+          }))
+        : [{ ...emptyStage }]
+    );
+  }, [isOpen, plan]);
+
+  const total = stages.reduce((sum, stage) => sum + (Number(stage.estimatedPrice) || 0), 0);
+
+  const inputClassName =
+    'w-full px-3 py-2 border border-stroke rounded-sm bg-bg-white text-sm text-text-100 focus:outline-none focus:border-main-100 transition-smooth';
+
+  const updateStage = (index: number, changes: Partial<StageForm>) => {
+    setStages(prev => prev.map((stage, i) => (i === index ? { ...stage, ...changes } : stage)));
+  };
+
+  const handleCategoryChange = (index: number, categoryId: string) => {
+    const category = categories.find(item => item.id === categoryId);
+    // Название этапа по умолчанию — название категории
+    updateStage(index, {
+      treatmentCategoryId: categoryId,
+      ...(category && !stages[index].title ? { title: category.name } : {}),
+    });
+  };
+
+  const moveStage = (index: number, direction: -1 | 1) => {
+    setStages(prev => {
+      const next = [...prev];
+      [next[index], next[index + direction]] = [next[index + direction], next[index]];
+      return next;
+    });
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setFormError('');
+
+    if (title.trim().length < 2) {
+      setFormError('Укажите название плана');
+      return;
+    }
+    if (stages.some(stage => stage.title.trim().length < 2)) {
+      setFormError('У каждого этапа должно быть название');
+      return;
+    }
+    if (stages.some(stage => stage.estimatedPrice === '' || Number(stage.estimatedPrice) < 0)) {
+      setFormError('Укажите стоимость каждого этапа');
+      return;
+    }
+
+    const stagesData: TreatmentPlanStageInput[] = stages.map(stage => ({
+      title: stage.title.trim(),
+      description: stage.description.trim() || null,
+      treatmentCategoryId: stage.treatmentCategoryId || null,
+      tooth: stage.tooth ? Number(stage.tooth) : null,
+      estimatedPrice: Number(stage.estimatedPrice),
+    }));
+
+    try {
+      if (plan) {
+        await updatePlan.mutateAsync({
+          id: plan.id,
+          plan: { title: title.trim(), notes: notes.trim() || null, stages: stagesData },
+        });
+      } else {
+        await createPlan.mutateAsync({
+          patientId,
+          title: title.trim(),
+          notes: notes.trim() || null,
+          stages: stagesData,
+        });
+      }
+      onClose();
+    } catch {
+      // Ошибка показывается через toast в хуке
+    }
+  };
+
+  return (
+    <Modal
+      isOpen={isOpen}
+      onClose={onClose}
+      title={plan ? 'Редактировать план лечения' : 'Новый план лечения'}
+      size="xl"
+      footer={
+        <div className="flex items-center justify-between gap-3 w-full">
+          <span className="text-sm text-text-50">
+            Итого: <strong className="text-text-100">{formatPlanAmount(total, currency)}</strong>
+          </span>
+          <div className="flex gap-3">
+            <Button variant="secondary" onClick={onClose}>
+              Отмена
+            </Button>
+            <Button
+              type="submit"
+              form="treatment-plan-form"
+              isLoading={createPlan.isPending || updatePlan.isPending}
+            >
+              Сохранить
+            </Button>
+          </div>
+        </div>
+      }
+    >
+      <form id="treatment-plan-form" onSubmit={handleSubmit} className="space-y-4">
+        <div>
+          <label className="block text-sm font-medium text-text-50 mb-2">Название плана</label>
+          <input
+            type="text"
+            value={title}
+            onChange={e => setTitle(e.target.value)}
+            placeholder="Например, имплантация 36"
+            className={inputClassName}
+          />
+        </div>
+
+        <div>
+          <label className="block text-sm font-medium text-text-50 mb-2">Комментарий для пациента</label>
+          <textarea
+            value={notes}
+            onChange={e => setNotes(e.target.value)}
+            rows={2}
+            className={inputClassName}
+          />
+        </div>
+
+        <div className="space-y-3">
+          <h4 className="text-sm font-medium text-text-50">Этапы</h4>
+          {stages.map((stage, index) => (
+            <div key={index} className="p-3 border border-stroke rounded-sm bg-bg-primary space-y-3">
+              <div className="flex items-center justify-between">
+                <span className="text-xs font-medium text-text-10">Этап {index + 1}</span>
+                <div className="flex items-center gap-1">
+                  <button
+                    type="button"
+                    onClick={() => moveStage(index, -1)}
+                    disabled={index === 0}
+                    className="p-1 text-text-10 hover:text-text-100 disabled:opacity-30"
+                    title="Выше"
+                  >
+                    <ArrowUp className="w-4 h-4" />
+                  </button>
+                  <button
+                    type="button"
+                    onClick={() => moveStage(index, 1)}
+                    disabled={index === stages.length - 1}
+                    className="p-1 text-text-10 hover:text-text-100 disabled:opacity-30"
+                    title="Ниже"
+                  >
+                    <ArrowDown className="w-4 h-4" />
+                  </button>
+                  <button
+                    type="button"
+                    onClick={() => setStages(prev => prev.filter((_, i) => i !== index))}
+                    disabled={stages.length === 1}
+                    className="p-1 text-text-10 hover:text-red-600 disabled:opacity-30"
+                    title="Удалить этап"
+                  >
+                    <Trash2 className="w-4 h-4" />
+                  </button>
+                </div>
+              </div>
+
+              <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
+                <select
+                  value={stage.treatmentCategoryId}
+                  onChange={e => handleCategoryChange(index, e.target.value)}
+                  className={inputClassName}
+                >
+                  <option value="">Без категории</option>
+                  {categories.map(category => (
+                    <option key={category.id} value={category.id}>
+                      {category.name}
+                    </option>
+                  ))}
+                </select>
+                <input
+                  type="text"
+                  value={stage.title}
+                  onChange={e => updateStage(index, { title: e.target.value })}
+                  placeholder="Название этапа"
+                  className={inputClassName}
+                />
+                <input
+                  type="number"
+                  min={11}
+                  max={85}
+                  value={stage.tooth}
+                  onChange={e => updateStage(index, { tooth: e.target.value })}
+                  placeholder="Зуб (FDI), необязательно"
+                  className={inputClassName}
+                />
+                <input
+                  type="number"
+                  min={0}
+                  value={stage.estimatedPrice}
+                  onChange={e => updateStage(index, { estimatedPrice: e.target.value })}
+                  placeholder="Стоимость"
+                  className={inputClassName}
+                />
+              </div>
+              <input
+                type="text"
+                value={stage.description}
+                onChange={e => updateStage(index, { description: e.target.value })}
+                placeholder="Описание (необязательно)"
+                className={inputClassName}
+              />
+            </div>
+          ))}
+
+          <Button type="button" variant="secondary" size="sm" onClick={() => setStages(prev => [...prev, { ...emptyStage }])}>
+            <Plus className="w-4 h-4 mr-1 inline" />
+            Добавить этап
+          </Button>
+        </div>
+
+        {formError && <p className="text-sm text-red-600">{formError}</p>}
+      </form>
+    </Modal>
+  );
+};
@@ -0,0 +1,223 @@
+import React, { useState } from 'react';
+import { Link } from 'react-router-dom';
+import { CheckCircle2, FileText, Pencil, Plus, Send, XCircle } from 'lucide-react';
+import { Button, Spinner } from '../common';
+import { Appointment, TreatmentPlan, TreatmentPlanStage } from '../../types/api.types';
+import {
+  useTreatmentPlans,
+  usePresentTreatmentPlan,
+  useCancelTreatmentPlan,
+  useUpdateTreatmentPlanStage,
+} from '../../hooks/useTreatmentPlans';
+import { useClinicSettings } from '../../hooks/useClinic';
+import { formatAppointmentDateTime } from '../../utils/dateFormat';
+import { PLAN_STATUS_LABELS, STAGE_STATUS_LABELS, formatPlanAmount } from '../../utils/treatmentPlan';
+import { TreatmentPlanFormModal } from './TreatmentPlanFormModal';
+
+interface TreatmentPlansSectionProps {
+  patientId: string;
+  appointments: Appointment[]; // Приёмы пациента — на них назначаются этапы
+}
+
+/**
+ * TreatmentPlansSection Component
+ * Планы лечения пациента для сотрудников клиники: составление, отправка пациенту и ведение этапов
+ */
+export const TreatmentPlansSection: React.FC<TreatmentPlansSectionProps> = ({ patientId, appointments }) => {
+  const [editingPlan, setEditingPlan] = useState<TreatmentPlan | null>(null);
+  const [isFormOpen, setIsFormOpen] = useState(false);
+
+  const { data: plans = [], isLoading } = useTreatmentPlans({ patientId });
+  const { data: settings } = useClinicSettings();
+  const presentPlan = usePresentTreatmentPlan();
+  const cancelPlan = useCancelTreatmentPlan();
+  const updateStage = useUpdateTreatmentPlanStage();
+
+  const currency = settings?.currency;
+
+  // На этап можно назначить только предстоящий или текущий приём
+  const schedulableAppointments = appointments.filter(appointment =>
+    ['pending', 'confirmed', 'arrived', 'in_progress'].includes(appointment.status)
+  );
+
+  const openForm = (plan: TreatmentPlan | null) => {
+    setEditingPlan(plan);
+    setIsFormOpen(true);
+  };
+
+  const handleCancelPlan = (plan: TreatmentPlan) => {
+    if (window.confirm(`Отменить план «${plan.title}»? Невыполненные этапы тоже будут отменены.`)) {
+      cancelPlan.mutate(plan.id);
+    }
+  };
+
+  const renderStageActions = (plan: TreatmentPlan, stage: TreatmentPlanStage) => {
+    if (plan.status !== 'accepted' || ['done', 'cancelled', 'proposed'].includes(stage.status)) {
+      return null;
+    }
+
+    return (
+      <div className="flex flex-wrap items-center gap-2">
+        <select
+          value={stage.appointmentId || ''}
+          onChange={e =>
+            updateStage.mutate({ id: plan.id, stageId: stage.id, stage: { appointmentId: e.target.value || null } })
+          }
+          className="px-2 py-1 border border-stroke rounded-sm bg-bg-white text-xs text-text-100 focus:outline-none focus:border-main-100"
+        >
+          <option value="">Не назначен на приём</option>
+          {stage.appointment && !schedulableAppointments.some(item => item.id === stage.appointment!.id) && (
+            <option value={stage.appointment.id}>
+              {formatAppointmentDateTime(stage.appointment.appointmentDate)}
+            </option>
+          )}
+          {schedulableAppointments.map(appointment => (
+            <option key={appointment.id} value={appointment.id}>
+              {formatAppointmentDateTime(appointment.appointmentDate)}
+              {appointment.doctor ? ` — ${appointment.doctor.name}` : ''}
+            </option>
+          ))}
+        </select>
+        <button
+          type="button"
+          onClick={() => updateStage.mutate({ id: plan.id, stageId: stage.id, stage: { status: 'done' } })}
+          className="p-1 text-text-10 hover:text-secondary-100"
+          title="Отметить выполненным"
+        >
+          <CheckCircle2 className="w-4 h-4" />
+        </button>
+        <button
+          type="button"
+          onClick={() => updateStage.mutate({ id: plan.id, stageId: stage.id, stage: { status: 'cancelled' } })}
+          className="p-1 text-text-10 hover:text-red-600"
+          title="Отменить этап"
+        >
+          <XCircle className="w-4 h-4" />
+        </button>
+      </div>
+    );
+  };
+
+  return (
+    <div className="space-y-4">
+      <div className="flex justify-end">
+        <Button size="sm" onClick={() => openForm(null)}>
+          <Plus className="w-4 h-4 mr-1 inline" />
+          Новый план
+        </Button>
+      </div>
+
+      {isLoading ? (
+        <div className="flex justify-center py-6">
+          <Spinner />
+        </div>
+      ) : plans.length === 0 ? (
+        <div className="text-center py-8 text-text-10 text-sm border border-stroke rounded-lg">
+          Планов лечения пока нет
+        </div>
+      ) : (
+        plans.map(plan => {
+          const status = PLAN_STATUS_LABELS[plan.status];
+          const isEditable = ['draft', 'presented'].includes(plan.status);
+
+          return (
+            <div key={plan.id} className="bg-bg-primary border border-stroke rounded-lg p-5 space-y-4">
+              <div className="flex flex-wrap items-start justify-between gap-3">
+                <div>
+                  <div className="flex items-center gap-3 mb-1">
+                    <h4 className="text-base font-medium text-text-100">{plan.title}</h4>
+                    <span className={`px-2 py-1 border rounded-sm text-xs font-normal ${status.className}`}>
+                      {status.label}
+                    </span>
+                  </div>
+                  <p className="text-xs text-text-10">
+                    {plan.doctor ? `Врач: ${plan.doctor.name} · ` : ''}
+                    Смета: {formatPlanAmount(plan.totals.estimated, currency)}
+                    {plan.totals.done > 0 && ` · выполнено на ${formatPlanAmount(plan.totals.done, currency)}`}
+                  </p>
+                </div>
+                <div className="flex flex-wrap items-center gap-2">
+                  <Link
+                    to={`/dashboard/treatment-plans/${plan.id}`}
+                    className="inline-flex items-center gap-1 px-3 py-1.5 text-xs text-text-100 border border-stroke rounded-sm bg-white hover:bg-bg-primary transition-smooth"
+                  >
+                    <FileText className="w-4 h-4" />
+                    Смета
+                  </Link>
+                  {isEditable && (
+                    <Button size="sm" variant="secondary" onClick={() => openForm(plan)}>
+                      <Pencil className="w-4 h-4 mr-1 inline" />
+                      Изменить
+                    </Button>
+                  )}
+                  {plan.status === 'draft' && (
+                    <Button size="sm" onClick={() => presentPlan.mutate(plan.id)} isLoading={presentPlan.isPending}>
+                      <Send className="w-4 h-4 mr-1 inline" />
+                      Отправить пациенту
+                    </Button>
+                  )}
+                  {!['completed', 'cancelled'].includes(plan.status) && (
+                    <Button size="sm" variant="danger" onClick={() => handleCancelPlan(plan)}>
+                      Отменить
+                    </Button>
+                  )}
+                </div>
+              </div>
+
+              <ol className="space-y-2">
+                {plan.stages.map(stage => {
+                  const stageStatus = STAGE_STATUS_LABELS[stage.status];
+
+                  return (
+                    <li
+                      key={stage.id}
+                      className="flex flex-wrap items-center justify-between gap-3 p-3 bg-bg-white border border-stroke rounded-sm"
+                    >
+                      <div className="flex items-center gap-3 min-w-0">
+                        <span className="text-xs text-text-10 w-5">{stage.position}.</span>
+                        {stage.treatmentCategory?.color && (
+                          <span
+                            className="w-2.5 h-2.5 rounded-full flex-shrink-0"
+                            style={{ backgroundColor: stage.treatmentCategory.color }}
+                          />
+                        )}
+                        <div className="min-w-0">
+                          <p className="text-sm text-text-100">
+                            {stage.title}
+                            {stage.tooth && <span className="text-text-10"> · зуб {stage.tooth}</span>}
+                          </p>
+                          {stage.appointment && (
+                            <p className="text-xs text-text-10">
+                              Приём: {formatAppointmentDateTime(stage.appointment.appointmentDate)}
+                            </p>
+                          )}
+                        </div>
+                      </div>
+                      <div className="flex flex-wrap items-center gap-3">
+                        {renderStageActions(plan, stage)}
+                        <span className={`px-2 py-0.5 border rounded-sm text-xs ${stageStatus.className}`}>
+                          {stageStatus.label}
+                        </span>
+                        <span className="text-sm font-medium text-text-100 w-28 text-right">
+                          {formatPlanAmount(stage.estimatedPrice, currency)}
+                        </span>
+                      </div>
+                    </li>
+                  );
+                })}
+              </ol>
+            </div>
+          );
+        })
+      )}
+
+      <TreatmentPlanFormModal
+        isOpen={isFormOpen}
+        onClose={() => setIsFormOpen(false)}
+        patientId={patientId}
+        plan={editingPlan}
+        currency={currency}
+      />
+    </div>
+  );
+};
@@ -0,0 +1,263 @@
+import React, { useState } from 'react';
+import { format } from 'date-fns';
+import { ru } from 'date-fns/locale';
+import { Clock, Trash2 } from 'lucide-react';
+import { Modal, Button, Spinner } from '../common';
+import { PatientSearchInput } from './PatientSearchInput';
+import { WaitlistEntry } from '../../types/api.types';
+import { useDoctors } from '../../hooks/useUsers';
+import { useTreatmentCategories } from '../../hooks/useTreatmentCategories';
+import {
+  useWaitlist,
+  useCreateWaitlistEntry,
+  useRemoveWaitlistEntry,
+  useAcceptWaitlistOffer,
+  useDeclineWaitlistOffer,
+} from '../../hooks/useWaitlist';
+import { safeParseDate } from '../../utils/dateFormat';
+
+interface WaitlistModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  doctorId?: string; // Для врача — только его лист ожидания
+}
+
+const INITIAL_FORM = {
+  patientId: '',
+  doctorId: '',
+  treatmentCategoryId: '',
+  dateFrom: '',
+  dateTo: '',
+  notes: '',
+};
+
+/**
+ * Текущее предложение записи из листа ожидания (если есть)
+ */
+const getPendingOffer = (entry: WaitlistEntry) =>
+  entry.offers?.find(offer => offer.status === 'pending') || null;
+
+const formatDateKey = (dateKey: string) => format(safeParseDate(`${dateKey}T00:00:00`), 'd MMM yyyy', { locale: ru });
+
+/**
+ * WaitlistModal Component
+ * Лист ожидания клиники: очередь пациентов, предложения освободившегося времени и добавление в очередь
+ */
+export const WaitlistModal: React.FC<WaitlistModalProps> = ({ isOpen, onClose, doctorId }) => {
+  const [formData, setFormData] = useState(INITIAL_FORM);
+  const [formError, setFormError] = useState('');
+
+  const { data: entries = [], isLoading } = useWaitlist(doctorId ? { doctorId } : undefined, isOpen);
+  const { data: doctors = [] } = useDoctors();
+  const { data: categories = [] } = useTreatmentCategories();
+  const createEntry = useCreateWaitlistEntry();
+  const removeEntry = useRemoveWaitlistEntry();
+  const acceptOffer = useAcceptWaitlistOffer();
+  const declineOffer = useDeclineWaitlistOffer();
+
+  const inputClassName =
+    'w-full px-3 py-2 border border-stroke rounded-sm bg-bg-white text-sm text-text-100 focus:outline-none focus:border-main-100 transition-smooth';
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setFormError('');
+
+    if (!formData.patientId) {
+      setFormError('Выберите пациента');
+      return;
+    }
+    if (!formData.dateFrom || !formData.dateTo) {
+      setFormError('Укажите желаемый период');
+      return;
+    }
+    if (formData.dateTo < formData.dateFrom) {
+      setFormError('Дата окончания периода раньше даты начала');
+      return;
+    }
+
+    try {
+      await createEntry.mutateAsync({
+        patientId: formData.patientId,
+        doctorId: doctorId || formData.doctorId || null,
+        treatmentCategoryId: formData.treatmentCategoryId || null,
+        dateFrom: formData.dateFrom,
+        dateTo: formData.dateTo,
+        notes: formData.notes || undefined,
+      });
+      setFormData(INITIAL_FORM);
+    } catch {
+      // Ошибка показывается через toast в хуке
+    }
+  };
+
+  const handleRemove = (entry: WaitlistEntry) => {
+    if (window.confirm(`Убрать пациента ${entry.patient?.name || ''} из листа ожидания?`)) {
+      removeEntry.mutate(entry.id);
+    }
+  };
+
+  return (
+    <Modal isOpen={isOpen} onClose={onClose} title="Лист ожидания" size="xl">
+      <div className="space-y-6">
+        {/* Очередь */}
+        {isLoading ? (
+          <div className="flex justify-center py-6">
+            <Spinner size="md" />
+          </div>
+        ) : entries.length === 0 ? (
+          <p className="text-sm text-text-10 text-center py-4">В листе ожидания пока никого нет</p>
+        ) : (
+          <div className="space-y-2 max-h-80 overflow-y-auto">
+            {entries.map((entry, index) => {
+              const offer = getPendingOffer(entry);
+
+              return (
+                <div key={entry.id} className="p-3 border border-stroke rounded-sm bg-bg-white">
+                  <div className="flex items-start justify-between gap-3">
+                    <div className="min-w-0">
+                      <p className="text-sm font-medium text-text-100">
+                        {index + 1}. {entry.patient?.name || 'Пациент'}
+                        {entry.patient?.phone && (
+                          <span className="ml-2 text-xs font-normal text-text-10">{entry.patient.phone}</span>
+                        )}
+                      </p>
+                      <p className="text-xs text-text-50 mt-1">
+                        {formatDateKey(entry.dateFrom)} — {formatDateKey(entry.dateTo)}
+                        {' · '}
+                        {entry.doctor?.name || 'любой врач'}
+                        {entry.treatmentCategory && ` · ${entry.treatmentCategory.name}`}
+                      </p>
+                      {entry.notes && <p className="text-xs text-text-10 mt-1">{entry.notes}</p>}
+                    </div>
+                    <button
+                      type="button"
+                      onClick={() => handleRemove(entry)}
+                      disabled={removeEntry.isPending}
+                      className="p-1.5 text-text-10 hover:text-red-600 transition-smooth"
+                      title="Убрать из листа ожидания"
+                    >
+                      <Trash2 className="w-4 h-4" />
+                    </button>
+                  </div>
+
+                  {offer && (
+                    <div className="mt-3 p-2 rounded-sm bg-main-10 flex flex-wrap items-center justify-between gap-2">
+                      <div className="flex items-center gap-2 text-xs text-text-100">
+                        <Clock className="w-4 h-4 text-main-100" />
+                        <span>
+                          Предложено: {format(safeParseDate(offer.appointmentDate), 'd MMM yyyy, HH:mm', { locale: ru })}
+                          {' · '}ответ до {format(safeParseDate(offer.expiresAt), 'd MMM, HH:mm', { locale: ru })}
+                        </span>
+                      </div>
+                      <div className="flex gap-2">
+                        <Button
+                          size="sm"
+                          variant="success"
+                          onClick={() => acceptOffer.mutate(offer.id)}
+                          isLoading={acceptOffer.isPending && acceptOffer.variables === offer.id}
+                        >
+                          Записать
+                        </Button>
+                        <Button
+                          size="sm"
+                          variant="secondary"
+                          onClick={() => declineOffer.mutate(offer.id)}
+                          isLoading={declineOffer.isPending && declineOffer.variables === offer.id}
+                        >
+                          Отказ
+                        </Button>
+                      </div>
+                    </div>
+                  )}
+                </div>
+              );
+            })}
+          </div>
+        )}
+
+        {/* Добавление в лист ожидания */}
+        <form onSubmit={handleSubmit} className="pt-4 border-t border-stroke space-y-3">
+          <h4 className="text-sm font-medium text-text-100">Добавить в лист ожидания</h4>
+
+          <PatientSearchInput
+            value={formData.patientId}
+            onChange={patientId => setFormData(prev => ({ ...prev, patientId }))}
+            required
+            placeholder="Поиск пациента по имени или телефону"
+          />
+
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
+            {!doctorId && (
+              <div>
+                <label className="block text-xs text-text-50 mb-1">Врач</label>
+                <select
+                  value={formData.doctorId}
+                  onChange={e => setFormData(prev => ({ ...prev, doctorId: e.target.value }))}
+                  className={inputClassName}
+                >
+                  <option value="">Любой врач</option>
+                  {doctors.map(doctor => (
+                    <option key={doctor.id} value={doctor.id}>
+                      {doctor.name}
+                    </option>
+                  ))}
+                </select>
+              </div>
+            )}
+            <div>
+              <label className="block text-xs text-text-50 mb-1">Процедура</label>
+              <select
+                value={formData.treatmentCategoryId}
+                onChange={e => setFormData(prev => ({ ...prev, treatmentCategoryId: e.target.value }))}
+                className={inputClassName}
+              >
+                <option value="">Не указана</option>
+                {categories.map(category => (
+                  <option key={category.id} value={category.id}>
+                    {category.name} ({category.defaultDuration} мин)
+                  </option>
+                ))}
+              </select>
+            </div>
+            <div>
+              <label className="block text-xs text-text-50 mb-1">С даты</label>
+              <input
+                type="date"
+                value={formData.dateFrom}
+                onChange={e => setFormData(prev => ({ ...prev, dateFrom: e.target.value }))}
+                className={inputClassName}
+              />
+            </div>
+            <div>
+              <label className="block text-xs text-text-50 mb-1">По дату</label>
+              <input
+                type="date"
+                value={formData.dateTo}
+                min={formData.dateFrom || undefined}
+                onChange={e => setFormData(prev => ({ ...prev, dateTo: e.target.value }))}
+                className={inputClassName}
+              />
+            </div>
+          </div>
+
+          <textarea
+            value={formData.notes}
+            onChange={e => setFormData(prev => ({ ...prev, notes: e.target.value }))}
+            placeholder="Комментарий (удобное время, пожелания)"
+            rows={2}
+            maxLength={500}
+            className={inputClassName}
+          />
+
+          {formError && <p className="text-xs text-red-600">{formError}</p>}
+
+          <div className="flex justify-end">
+            <Button type="submit" isLoading={createEntry.isPending}>
+              Добавить
+            </Button>
+          </div>
+        </form>
+      </div>
+    </Modal>
+  );
+};
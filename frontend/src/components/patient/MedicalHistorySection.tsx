@@ -0,0 +1,76 @@
+import React, { useEffect, useState } from 'react';
+import { Card } from '../common/Card';
+import { Button, Spinner } from '../common';
+import { MedicalHistoryFields } from '../dashboard/MedicalHistoryFields';
+import { useMyMedicalHistory, useUpdateMyMedicalHistory } from '../../hooks/useMedicalHistory';
+import { UpdateMedicalHistoryRequest } from '../../types/api.types';
+import { EMPTY_MEDICAL_HISTORY, cleanMedicalHistoryForm, toMedicalHistoryForm } from '../../utils/medicalHistory';
+import { formatAppointmentDateTime } from '../../utils/dateFormat';
+
+/**
+ * MedicalHistorySection Component
+ * Медицинская анкета пациента: аллергии, заболевания, препараты.
+ * Дополняет анамнез во всех карточках в клиниках, привязанных к аккаунту (внесённое клиникой не удаляется)
+ */
+export const MedicalHistorySection: React.FC = () => {
+  const [form, setForm] = useState<UpdateMedicalHistoryRequest>(EMPTY_MEDICAL_HISTORY);
+
+  const { data, isLoading } = useMyMedicalHistory();
+  const updateMutation = useUpdateMyMedicalHistory();
+
+  const history = data?.history;
+  const clinicsCount = data?.clinicsCount || 0;
+
+  useEffect(() => {
+    setForm(toMedicalHistoryForm(history));
+  }, [history]);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    try {
+      await updateMutation.mutateAsync(cleanMedicalHistoryForm(form));
+    } catch {
+      // Ошибка показывается через toast в хуке
+    }
+  };
+
+  if (isLoading) {
+    return (
+      <Card title="Медицинская анкета" padding="lg">
+        <div className="flex justify-center py-8">
+          <Spinner size="md" />
+        </div>
+      </Card>
+    );
+  }
+
+  return (
+    <Card title="Медицинская анкета" padding="lg">
+      {clinicsCount === 0 ? (
+        <p className="text-sm text-text-10">
+          Анкету можно заполнить после того, как карточка пациента в клинике будет привязана к вашему аккаунту.
+        </p>
+      ) : (
+        <form onSubmit={handleSubmit} className="space-y-5">
+          <p className="text-sm text-text-50">
+            Врач увидит эти сведения перед приёмом. Особенно важно указать аллергию на анестетики и препараты,
+            разжижающие кровь. Сведения, внесённые клиникой, сохраняются — изменить их можно через администратора клиники.
+            {history?.updatedAt && (
+              <span className="block text-xs text-text-10 mt-1">
+                Обновлено {formatAppointmentDateTime(history.updatedAt)}
+                {history.updatedSource === 'clinic' && ' клиникой'}
+              </span>
+            )}
+          </p>
+
+          <MedicalHistoryFields value={form} onChange={setForm} audience="patient" />
+
+          <Button type="submit" isLoading={updateMutation.isPending}>
+            Сохранить анкету
+          </Button>
+        </form>
+      )}
+    </Card>
+  );
+};
@@ -0,0 +1,165 @@
+import React, { useState } from 'react';
+import { Building2, CheckCircle2 } from 'lucide-react';
+import { Card } from '../common/Card';
+import { Input, Button, Spinner } from '../common';
+import { useClinics } from '../../hooks/usePublic';
+import { useMyPatientRecords, useRequestPatientClaim, useVerifyPatientClaim } from '../../hooks/usePatientRecords';
+
+interface PatientRecordsSectionProps {
+  defaultContact?: string; // Подставляется в поле контакта (телефон из профиля)
+}
+
+/**
+ * PatientRecordsSection Component
+ * Карточки пациента в клиниках, привязанные к аккаунту, и привязка карточки,
+ * которую клиника завела раньше (по коду на телефон или email из карточки)
+ */
+export const PatientRecordsSection: React.FC<PatientRecordsSectionProps> = ({ defaultContact = '' }) => {
+  const [clinicId, setClinicId] = useState('');
+  const [contact, setContact] = useState(defaultContact);
+  const [codes, setCodes] = useState<Record<string, string>>({});
+
+  const { data, isLoading } = useMyPatientRecords();
+  const { data: clinicsData } = useClinics();
+  const requestClaim = useRequestPatientClaim();
+  const verifyClaim = useVerifyPatientClaim();
+
+  const records = data?.records || [];
+  const claims = data?.claims || [];
+  // Клиники, где карточка уже привязана, в списке не показываем
+  const availableClinics = (clinicsData?.data || []).filter(
+    clinic => !records.some(record => record.clinic.id === clinic.id)
+  );
+
+  const handleRequest = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!clinicId || !contact.trim()) return;
+
+    try {
+      await requestClaim.mutateAsync({ clinicId, contact: contact.trim() });
+      setClinicId('');
+    } catch {
+      // Ошибка показывается через toast в хуке
+    }
+  };
+
+  const handleVerify = async (claimId: string) => {
+    try {
+      await verifyClaim.mutateAsync({ id: claimId, code: (codes[claimId] || '').trim() });
+      setCodes(prev => ({ ...prev, [claimId]: '' }));
+    } catch {
+      // Ошибка показывается через toast в хуке
+    }
+  };
+
+  if (isLoading) {
+    return (
+      <Card title="Мои карточки в клиниках" padding="lg">
+        <div className="flex justify-center py-8">
+          <Spinner size="md" />
+        </div>
+      </Card>
+    );
+  }
+
+  return (
+    <Card title="Мои карточки в клиниках" padding="lg">
+      <div className="space-y-5">
+        <p className="text-sm text-text-50">
+          Записи, чат и уведомления клиники доступны в личном кабинете, только если карточка пациента в этой клинике
+          привязана к вашему аккаунту. Новые карточки при онлайн-записи привязываются автоматически.
+        </p>
+
+        {records.length > 0 ? (
+          <ul className="space-y-2">
+            {records.map(record => (
+              <li
+                key={record.id}
+                className="flex items-center justify-between gap-3 p-3 border border-stroke rounded-sm bg-bg-white"
+              >
+                <div className="flex items-center gap-3">
+                  <Building2 className="w-5 h-5 text-text-10" />
+                  <div className="text-sm">
+                    <p className="font-medium text-text-100">{record.clinic.name}</p>
+                    <p className="text-xs text-text-10">
+                      {[record.clinic.city, `карточка: ${record.name}`].filter(Boolean).join(' · ')}
+                    </p>
+                  </div>
+                </div>
+                <CheckCircle2 className="w-5 h-5 text-secondary-100" />
+              </li>
+            ))}
+          </ul>
+        ) : (
+          <p className="text-sm text-text-10">Пока нет привязанных карточек</p>
+        )}
+
+        {/* Ожидают подтверждения кодом */}
+        {claims.map(claim => (
+          <div key={claim.id} className="p-4 border border-main-100 bg-main-10 rounded-sm space-y-3">
+            <p className="text-sm text-text-100">
+              {claim.clinic.name}: если карточка с {claim.channel === 'email' ? 'email' : 'номером'}{' '}
+              <strong>{claim.recipient}</strong> есть в клинике, код отправлен{' '}
+              {claim.channel === 'email' ? 'на email' : 'по SMS'}
+            </p>
+            <div className="flex flex-col sm:flex-row gap-2">
+              <Input
+                type="text"
+                inputMode="numeric"
+                maxLength={6}
+                placeholder="Код из 6 цифр"
+                value={codes[claim.id] || ''}
+                onChange={e => setCodes(prev => ({ ...prev, [claim.id]: e.target.value.replace(/\D/g, '') }))}
+              />
+              <Button
+                type="button"
+                onClick={() => handleVerify(claim.id)}
+                disabled={(codes[claim.id] || '').length !== 6}
+                isLoading={verifyClaim.isPending && verifyClaim.variables?.id === claim.id}
+              >
+                Подтвердить
+              </Button>
+            </div>
+          </div>
+        ))}
+
+        {/* Привязка карточки, заведённой клиникой */}
+        <form onSubmit={handleRequest} className="space-y-3 border-t border-stroke pt-5">
+          <h4 className="text-sm font-medium text-text-100">Привязать карточку из клиники</h4>
+          <p className="text-xs text-text-10">
+            Укажите телефон или email, которые вы оставляли в клинике. На них придёт код подтверждения.
+          </p>
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
+            <select
+              value={clinicId}
+              onChange={e => setClinicId(e.target.value)}
+              className="w-full px-4 py-2 border border-stroke rounded-lg focus:outline-none focus:ring-2 focus:ring-main-100 focus:border-transparent bg-bg-white text-text-100"
+            >
+              <option value="">Выберите клинику</option>
+              {availableClinics.map(clinic => (
+                <option key={clinic.id} value={clinic.id}>
+                  {clinic.name}
+                  {clinic.city ? ` (${clinic.city})` : ''}
+                </option>
+              ))}
+            </select>
+            <Input
+              type="text"
+              placeholder="Телефон или email"
+              value={contact}
+              onChange={e => setContact(e.target.value)}
+            />
+          </div>
+          <Button
+            type="submit"
+            variant="secondary"
+            disabled={!clinicId || !contact.trim()}
+            isLoading={requestClaim.isPending}
+          >
+            Получить код
+          </Button>
+        </form>
+      </div>
+    </Card>
+  );
+};
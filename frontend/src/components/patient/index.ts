@@ -2,3 +2,5 @@ export { ProfilePictureUpload } from './ProfilePictureUpload';
 export { ProfileInfoSection } from './ProfileInfoSection';
 export { PasswordChangeSection } from './PasswordChangeSection';
 
+export { PatientRecordsSection } from './PatientRecordsSection';
+export { MedicalHistorySection } from './MedicalHistorySection';
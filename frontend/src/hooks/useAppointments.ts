@@ -1,6 +1,13 @@
 import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { toast } from 'react-hot-toast';
 import { appointmentService } from '../services/appointment.service';
-import { Appointment } from '../types/api.types';
+import {
+  Appointment,
+  AppointmentSeriesScope,
+  CreateAppointmentSeriesRequest,
+  RescheduleAppointmentRequest,
+  UpdateAppointmentSeriesRequest,
+} from '../types/api.types';
 
 /**
  * React Query Hooks для приёмов
@@ -13,7 +20,8 @@ export function useAppointments(params?: {
   date?: string;
   time?: string;
   week?: string;
-  category?: string;
+  treatmentCategoryId?: string; // Категория лечения
+  resourceId?: string; // Приёмы, занимающие кабинет / кресло / оборудование
   limit?: number; // Добавляем поддержку limit параметра
 }) {
   return useQuery({
@@ -27,6 +35,14 @@ export function useAppointments(params?: {
   });
 }
 
+export function useDayBoard(date: string, enabled = true, resourceId?: string) {
+  return useQuery({
+    queryKey: ['appointments', 'day-board', date, resourceId || null],
+    queryFn: () => appointmentService.getDayBoard(date, resourceId),
+    enabled: enabled && !!date,
+  });
+}
+
 export function useAppointment(id: string) {
   return useQuery({
     queryKey: ['appointments', id],
@@ -82,6 +98,48 @@ export function useUpdateAppointment() {
   });
 }
 
+/**
+ * Перенос приёма перетаскиванием в календаре
+ * Кеш обновляется сразу (приём «переезжает» без ожидания ответа),
+ * а если сервер отклонил перенос — изменения откатываются
+ */
+export function useRescheduleAppointment() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: ({ id, data }: { id: string; data: RescheduleAppointmentRequest }) =>
+      appointmentService.reschedule(id, data),
+    onMutate: async ({ id, data }) => {
+      await queryClient.cancelQueries({ queryKey: ['appointments'] });
+      const previous = queryClient.getQueriesData({ queryKey: ['appointments'] });
+
+      // Списки приёмов приходят как { appointments: [...], meta }
+      queryClient.setQueriesData({ queryKey: ['appointments'] }, (old: { appointments: Appointment[] } | undefined) => {
+        if (!old || !Array.isArray(old.appointments)) return old;
+        return {
+          ...old,
+          appointments: old.appointments.map(appointment =>
+            appointment.id === id ? { ...appointment, ...data } : appointment
+          ),
+        };
+      });
+
+      return { previous };
+    },
+    onError: (error: any, _variables, context) => {
+      context?.previous.forEach(([queryKey, value]) => queryClient.setQueryData(queryKey, value));
+      toast.error(error.message || 'Не удалось перенести приём');
+    },
+    onSuccess: () => {
+      toast.success('Приём перенесён');
+    },
+    onSettled: () => {
+      queryClient.invalidateQueries({ queryKey: ['appointments'] });
+      queryClient.invalidateQueries({ queryKey: ['patient-appointments'] });
+    },
+  });
+}
+
 export function useUpdateAppointmentStatus() {
   const queryClient = useQueryClient();
 
@@ -135,4 +193,70 @@ export function useDeleteAppointment() {
   });
 }
 
+export function useAppointmentSeries(seriesId?: string | null) {
+  return useQuery({
+    queryKey: ['appointments', 'series', seriesId],
+    queryFn: () => appointmentService.getSeries(seriesId!),
+    enabled: !!seriesId,
+  });
+}
+
+export function useCreateAppointmentSeries() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: (data: CreateAppointmentSeriesRequest) => appointmentService.createSeries(data),
+    onSuccess: async (result) => {
+      await queryClient.invalidateQueries({ 
+        queryKey: ['appointments'],
+        refetchType: 'active'
+      });
+      await queryClient.invalidateQueries({ 
+        queryKey: ['patient-appointments'],
+        refetchType: 'active'
+      });
+      console.log(`✅ [APPOINTMENTS] Серия создана: ${result.appointments.length} приёмов, пропущено ${result.skipped.length}`);
+    },
+  });
+}
+
+export function useUpdateAppointmentSeries() {
+  const queryClient = useQueryClient();
 
+  return useMutation({
+    mutationFn: ({ id, data }: { id: string; data: UpdateAppointmentSeriesRequest }) =>
+      appointmentService.updateSeries(id, data),
+    onSuccess: async () => {
+      await queryClient.invalidateQueries({ 
+        queryKey: ['appointments'],
+        refetchType: 'active'
+      });
+      await queryClient.invalidateQueries({ 
+        queryKey: ['patient-appointments'],
+        refetchType: 'active'
+      });
+    },
+  });
+}
+
+export function useCancelAppointmentSeries() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: ({ 
+      id, 
+      scope, 
+      cancellationReason 
+    }: { 
+      id: string; 
+      scope: AppointmentSeriesScope; 
+      cancellationReason: string;
+    }) =>
+      appointmentService.cancelSeries(id, scope, cancellationReason),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['appointments'] });
+      queryClient.invalidateQueries({ queryKey: ['patient-appointments'] });
+      queryClient.invalidateQueries({ queryKey: ['notifications'] });
+    },
+  });
+}
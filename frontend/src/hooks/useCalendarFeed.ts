@@ -0,0 +1,67 @@
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { toast } from 'react-hot-toast';
+import { calendarService } from '../services/calendar.service';
+import { CalendarFeed } from '../types/api.types';
+
+/**
+ * React Query Hook для получения ссылки подписки на календарь
+ */
+export function useCalendarFeed() {
+  return useQuery<CalendarFeed | null>({
+    queryKey: ['calendar-feed'],
+    queryFn: () => calendarService.getFeed(),
+    staleTime: 300000, // 5 минут - ссылка меняется только по действию пользователя
+    refetchOnWindowFocus: false,
+  });
+}
+
+/**
+ * Hook для выпуска новой ссылки подписки
+ */
+export function useCreateCalendarFeed() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: () => calendarService.createFeed(),
+    onSuccess: feed => {
+      queryClient.setQueryData(['calendar-feed'], feed);
+      toast.success('Ссылка на календарь создана');
+    },
+    onError: (error: any) => {
+      console.error('❌ [CALENDAR] Ошибка создания ссылки:', error);
+      toast.error(error.message || 'Ошибка при создании ссылки на календарь');
+    },
+  });
+}
+
+/**
+ * Hook для отзыва ссылки подписки
+ */
+export function useRevokeCalendarFeed() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: () => calendarService.revokeFeed(),
+    onSuccess: () => {
+      queryClient.setQueryData(['calendar-feed'], null);
+      toast.success('Ссылка на календарь отозвана');
+    },
+    onError: (error: any) => {
+      console.error('❌ [CALENDAR] Ошибка отзыва ссылки:', error);
+      toast.error(error.message || 'Ошибка при отзыве ссылки на календарь');
+    },
+  });
+}
+
+/**
+ * Hook для скачивания приёма в формате .ics
+ */
+export function useDownloadAppointmentIcs() {
+  return useMutation({
+    mutationFn: (appointmentId: string) => calendarService.downloadAppointmentIcs(appointmentId),
+    onError: (error: any) => {
+      console.error('❌ [CALENDAR] Ошибка скачивания .ics:', error);
+      toast.error('Не удалось скачать файл календаря');
+    },
+  });
+}
@@ -1,21 +1,177 @@
 import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
-import { chatService, Conversation, Message, SendMessageRequest } from '../services/chat.service';
+import {
+  chatService,
+  Conversation,
+  GetConversationsResponse,
+  GetMessagesResponse,
+  SendMessageRequest,
+} from '../services/chat.service';
+import { chatStreamService, ChatStreamEvent } from '../services/chatStream.service';
 import { useAuthStore } from '../store/useAuthStore';
-import { useEffect } from 'react';
+import { useChatStore } from '../store/useChatStore';
+import { useCallback, useEffect, useRef } from 'react';
 
 /**
  * useChat Hook
  * React Query hooks для работы с чатом
  */
 
+/**
+ * Сколько показываем "печатает..." без новых событий (мс)
+ */
+const TYPING_TTL_MS = 5000;
+
+/**
+ * Как часто повторно отправляем "печатает..." во время ввода (мс)
+ */
+const TYPING_THROTTLE_MS = 3000;
+
+/**
+ * Подписка на push-канал чата
+ * Обновляет кеши React Query по событиям сервера; пока канал подключен, polling отключен
+ */
+export function useChatStream() {
+  const queryClient = useQueryClient();
+  const isAuthenticated = useAuthStore((state) => state.isAuthenticated);
+
+  useEffect(() => {
+    if (!isAuthenticated) return;
+
+    const handleEvent = (event: ChatStreamEvent) => {
+      const messagesKey = ['chat', 'messages', event.conversationId];
+
+      switch (event.type) {
+        case 'message:new': {
+          queryClient.setQueryData<GetMessagesResponse>(messagesKey, (old) => {
+            if (!old || old.messages.some((m) => m.id === event.message.id)) return old;
+            return {
+              ...old,
+              messages: [...old.messages, event.message],
+              meta: { ...old.meta, total: old.meta.total + 1 },
+            };
+          });
+          queryClient.setQueryData<GetConversationsResponse>(['chat', 'conversations'], (old) => {
+            if (!old) return old;
+            return {
+              ...old,
+              conversations: old.conversations.map((c) =>
+                c.id === event.conversationId
+                  ? { ...c, lastMessageAt: event.lastMessageAt, lastMessageText: event.lastMessageText }
+                  : c
+              ),
+            };
+          });
+          // Собеседник отправил сообщение - он больше не печатает
+          useChatStore.getState().setTyping(event.conversationId, null);
+          // Счетчики непрочитанных считает сервер
+          queryClient.invalidateQueries({ queryKey: ['chat', 'conversations'] });
+          queryClient.invalidateQueries({ queryKey: ['chat', 'unread-count'] });
+          break;
+        }
+
+        case 'message:read': {
+          queryClient.setQueryData<GetMessagesResponse>(messagesKey, (old) => {
+            if (!old) return old;
+            return {
+              ...old,
+              messages: old.messages.map((m) =>
+                !m.isRead && event.readSenderTypes.includes(m.senderType)
+                  ? { ...m, isRead: true, readAt: event.readAt }
+                  : m
+              ),
+            };
+          });
+          queryClient.invalidateQueries({ queryKey: ['chat', 'conversations'] });
+          queryClient.invalidateQueries({ queryKey: ['chat', 'unread-count'] });
+          break;
+        }
+
+        case 'message:deleted': {
+          queryClient.setQueryData<GetMessagesResponse>(messagesKey, (old) => {
+            if (!old) return old;
+            return {
+              ...old,
+              messages: old.messages.filter((m) => m.id !== event.messageId),
+            };
+          });
+          queryClient.invalidateQueries({ queryKey: ['chat', 'conversations'] });
+          queryClient.invalidateQueries({ queryKey: ['chat', 'unread-count'] });
+          break;
+        }
+
+        case 'typing': {
+          const { setTyping } = useChatStore.getState();
+          if (!event.isTyping) {
+            setTyping(event.conversationId, null);
+            break;
+          }
+          const expiresAt = Date.now() + TYPING_TTL_MS;
+          setTyping(event.conversationId, {
+            userId: event.userId,
+            senderType: event.senderType,
+            expiresAt,
+          });
+          setTimeout(() => {
+            const current = useChatStore.getState().typing[event.conversationId];
+            if (current?.expiresAt === expiresAt) {
+              useChatStore.getState().setTyping(event.conversationId, null);
+            }
+          }, TYPING_TTL_MS);
+          break;
+        }
+      }
+    };
+
+    return chatStreamService.subscribe(handleEvent);
+  }, [isAuthenticated, queryClient]);
+
+  return useChatStore((state) => state.isStreamConnected);
+}
+
+/**
+ * Печатает ли собеседник в беседе
+ */
+export function useTypingIndicator(conversationId: string | null) {
+  return useChatStore((state) => (conversationId ? !!state.typing[conversationId] : false));
+}
+
+/**
+ * Отправка индикатора "печатает..." (с ограничением частоты)
+ * Возвращает callback для ChatInput.onTyping
+ */
+export function useSendTyping(conversationId: string | null) {
+  const lastSentRef = useRef<{ isTyping: boolean; at: number }>({ isTyping: false, at: 0 });
+
+  return useCallback(
+    (isTyping: boolean) => {
+      if (!conversationId) return;
+
+      const last = lastSentRef.current;
+      const now = Date.now();
+      if (isTyping === last.isTyping && (!isTyping || now - last.at < TYPING_THROTTLE_MS)) {
+        return;
+      }
+
+      lastSentRef.current = { isTyping, at: now };
+      chatService.sendTyping(conversationId, isTyping).catch(() => {
+        // Индикатор печати не критичен - ошибки игнорируем
+      });
+    },
+    [conversationId]
+  );
+}
+
 /**
  * Получить список бесед
  */
 export function useConversations() {
+  const isStreamConnected = useChatStream();
+
   const { data, isLoading, error, refetch } = useQuery({
     queryKey: ['chat', 'conversations'],
     queryFn: () => chatService.getConversations(),
-    refetchInterval: 3000, // Обновление каждые 3 секунды
+    // Polling только как запасной вариант, пока push-канал не подключен
+    refetchInterval: isStreamConnected ? false : 3000,
   });
 
   return {
@@ -43,12 +199,14 @@ export function useConversation(conversationId: string | null) {
  */
 export function useMessages(conversationId: string | null, enabled: boolean = true) {
   const queryClient = useQueryClient();
+  const isStreamConnected = useChatStore((state) => state.isStreamConnected);
 
   const query = useQuery({
     queryKey: ['chat', 'messages', conversationId],
     queryFn: () => chatService.getMessages(conversationId!),
     enabled: enabled && !!conversationId,
-    refetchInterval: enabled ? 2000 : false, // Обновление каждые 2 секунды когда чат открыт
+    // Без push-канала обновляем каждые 2 секунды, пока чат открыт
+    refetchInterval: enabled && !isStreamConnected ? 2000 : false,
   });
 
   // Автоматически отмечаем как прочитанные при загрузке
@@ -151,10 +309,12 @@ export function useMarkAsRead() {
  * Получить количество непрочитанных сообщений
  */
 export function useUnreadCount() {
+  const isStreamConnected = useChatStream();
+
   const { data, refetch } = useQuery({
     queryKey: ['chat', 'unread-count'],
     queryFn: () => chatService.getUnreadCount(),
-    refetchInterval: 5000, // Обновление каждые 5 секунд
+    refetchInterval: isStreamConnected ? false : 5000, // Без push-канала - каждые 5 секунд
   });
 
   return {
@@ -1,5 +1,7 @@
+import { useEffect } from 'react';
 import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
 import { clinicService } from '../services/clinic.service';
+import { useAuthStore } from '../store/useAuthStore';
 import { Clinic, ClinicSettings } from '../types/api.types';
 
 /**
@@ -63,14 +65,35 @@ export function useUploadHeroImage() {
 /**
  * Получить настройки клиники
  */
-export function useClinicSettings() {
+export function useClinicSettings(enabled = true) {
   return useQuery({
     queryKey: ['clinic', 'settings'],
     queryFn: () => clinicService.getSettings(),
     staleTime: 60000, // 1 минута
+    enabled,
   });
 }
 
+/**
+ * Держать часовой пояс клиники в сохранённом пользователе актуальным
+ * Пользователь из localStorage мог быть сохранён до смены пояса в настройках,
+ * а время приёмов сотрудникам показывается по поясу клиники (см. getClinicTimeZone)
+ */
+export function useClinicTimezoneSync() {
+  const user = useAuthStore(state => state.user);
+  const updateUser = useAuthStore(state => state.updateUser);
+  const isClinicStaff = !!user?.clinicId && user.role !== 'PATIENT';
+  const { data: settings } = useClinicSettings(isClinicStaff);
+
+  useEffect(() => {
+    if (!user?.clinic || !settings?.timezone) return;
+    if (user.clinic.settings?.timezone === settings.timezone) return;
+
+    console.log('🔵 [CLINIC] Часовой пояс клиники обновлён:', settings.timezone);
+    updateUser({ ...user, clinic: { ...user.clinic, settings: { timezone: settings.timezone } } });
+  }, [user, settings?.timezone, updateUser]);
+}
+
 /**
  * Обновить настройки клиники
  */
@@ -0,0 +1,56 @@
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { toast } from 'react-hot-toast';
+import { clinicalNoteService } from '../services/clinicalNote.service';
+import { AppointmentClinicalNote, ClinicalNoteSections } from '../types/api.types';
+
+/**
+ * React Query Hook для протокола приёма
+ * @param appointmentId - ID приёма
+ * @param enabled - загружать ли протокол (например, только при открытом модальном окне)
+ */
+export function useClinicalNote(appointmentId: string | undefined, enabled = true) {
+  return useQuery<AppointmentClinicalNote>({
+    queryKey: ['clinical-note', appointmentId],
+    queryFn: () => clinicalNoteService.get(appointmentId!),
+    enabled: !!appointmentId && enabled,
+  });
+}
+
+/**
+ * Hook для сохранения черновика протокола
+ * Тост не показывается: протокол сохраняется вместе с завершением приёма
+ */
+export function useSaveClinicalNote() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: ({ appointmentId, sections }: { appointmentId: string; sections: ClinicalNoteSections }) =>
+      clinicalNoteService.save(appointmentId, sections),
+    onSuccess: (_note, { appointmentId }) => {
+      queryClient.invalidateQueries({ queryKey: ['clinical-note', appointmentId] });
+    },
+    onError: (error: any) => {
+      console.error('❌ [CLINICAL NOTE] Ошибка сохранения протокола:', error);
+      toast.error(error.message || 'Ошибка при сохранении протокола приёма');
+    },
+  });
+}
+
+/**
+ * Hook для подписи протокола
+ */
+export function useSignClinicalNote() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: (appointmentId: string) => clinicalNoteService.sign(appointmentId),
+    onSuccess: (_note, appointmentId) => {
+      queryClient.invalidateQueries({ queryKey: ['clinical-note', appointmentId] });
+      toast.success('Протокол приёма подписан');
+    },
+    onError: (error: any) => {
+      console.error('❌ [CLINICAL NOTE] Ошибка подписи протокола:', error);
+      toast.error(error.message || 'Ошибка при подписи протокола приёма');
+    },
+  });
+}
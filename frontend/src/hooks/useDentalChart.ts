@@ -0,0 +1,37 @@
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { toast } from 'react-hot-toast';
+import { dentalChartService } from '../services/dentalChart.service';
+import { CreateDentalChartEntryRequest, DentalChart } from '../types/api.types';
+
+/**
+ * React Query Hook для зубной карты пациента
+ * @param patientId - ID пациента
+ * @param asOf - дата YYYY-MM-DD для просмотра карты в прошлом
+ */
+export function useDentalChart(patientId: string | undefined, asOf?: string) {
+  return useQuery<DentalChart>({
+    queryKey: ['dental-chart', patientId, asOf || null],
+    queryFn: () => dentalChartService.getChart(patientId!, asOf),
+    enabled: !!patientId,
+    staleTime: 30000, // 30 секунд
+  });
+}
+
+/**
+ * Hook для добавления записи в зубную карту
+ */
+export function useAddDentalChartEntry(patientId: string) {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: (entry: CreateDentalChartEntryRequest) => dentalChartService.addEntry(patientId, entry),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['dental-chart', patientId] });
+      toast.success('Зубная карта обновлена');
+    },
+    onError: (error: any) => {
+      console.error('❌ [DENTAL CHART] Ошибка сохранения записи:', error);
+      toast.error(error.message || 'Ошибка при сохранении зубной карты');
+    },
+  });
+}
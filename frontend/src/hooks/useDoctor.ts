@@ -1,7 +1,7 @@
 import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
 import { doctorService } from '../services/doctor.service';
 import { useAuthStore } from '../store/useAuthStore';
-import { User, DoctorSchedule, UpdateDoctorScheduleRequest } from '../types/api.types';
+import { User, DoctorSchedule, SaveScheduleExceptionRequest, UpdateDoctorScheduleRequest } from '../types/api.types';
 import { toast } from 'react-hot-toast';
 
 /**
@@ -141,3 +141,59 @@ export function useUpdateDoctorSchedule() {
   });
 }
 
+/**
+ * Получить исключения из расписания текущего врача
+ */
+export function useDoctorScheduleExceptions() {
+  const user = useAuthStore(state => state.user);
+
+  return useQuery({
+    queryKey: ['doctor', 'schedule', 'exceptions', user?.id],
+    queryFn: () => doctorService.getScheduleExceptions(),
+    enabled: !!user && user.role === 'DOCTOR',
+    staleTime: 30 * 1000,
+  });
+}
+
+/**
+ * Создать или обновить исключение из расписания текущего врача
+ */
+export function useSaveDoctorScheduleException() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: (exception: SaveScheduleExceptionRequest) => doctorService.saveScheduleException(exception),
+    onSuccess: (saved) => {
+      queryClient.invalidateQueries({ queryKey: ['doctor', 'schedule', 'exceptions'] });
+      queryClient.invalidateQueries({ queryKey: ['users', saved.doctorId, 'schedule'] });
+
+      if (saved.conflicts && saved.conflicts.length > 0) {
+        toast.error(`Исключение сохранено, но на эту дату есть приёмы вне рабочего времени: ${saved.conflicts.length}`);
+      } else {
+        toast.success('Исключение из расписания сохранено');
+      }
+    },
+    onError: (error: any) => {
+      toast.error(error.message || 'Ошибка при сохранении исключения');
+    },
+  });
+}
+
+/**
+ * Удалить исключение из расписания текущего врача
+ */
+export function useDeleteDoctorScheduleException() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: (exceptionId: string) => doctorService.deleteScheduleException(exceptionId),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['doctor', 'schedule', 'exceptions'] });
+      queryClient.invalidateQueries({ queryKey: ['users'] });
+      toast.success('Исключение удалено');
+    },
+    onError: (error: any) => {
+      toast.error(error.message || 'Ошибка при удалении исключения');
+    },
+  });
+}
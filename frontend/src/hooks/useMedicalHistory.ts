@@ -0,0 +1,65 @@
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { toast } from 'react-hot-toast';
+import { medicalHistoryService } from '../services/medicalHistory.service';
+import { UpdateMedicalHistoryRequest } from '../types/api.types';
+
+/**
+ * React Query Hook для анамнеза пациента клиники
+ */
+export function usePatientMedicalHistory(patientId?: string) {
+  return useQuery({
+    queryKey: ['medical-history', patientId],
+    queryFn: () => medicalHistoryService.getPatientHistory(patientId!),
+    enabled: !!patientId,
+    staleTime: 60000, // 1 минута
+  });
+}
+
+/**
+ * Hook для сохранения анамнеза пациента клиники
+ */
+export function useUpdatePatientMedicalHistory() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: ({ patientId, history }: { patientId: string; history: UpdateMedicalHistoryRequest }) =>
+      medicalHistoryService.updatePatientHistory(patientId, history),
+    onSuccess: (_, { patientId }) => {
+      queryClient.invalidateQueries({ queryKey: ['medical-history', patientId] });
+    },
+    onError: (error: any) => {
+      console.error('❌ [MEDICAL HISTORY] Ошибка сохранения анамнеза:', error);
+      toast.error(error.message || 'Не удалось сохранить анамнез');
+    },
+  });
+}
+
+/**
+ * React Query Hook для своего анамнеза (PATIENT)
+ */
+export function useMyMedicalHistory() {
+  return useQuery({
+    queryKey: ['my-medical-history'],
+    queryFn: () => medicalHistoryService.getMyHistory(),
+    staleTime: 60000, // 1 минута
+  });
+}
+
+/**
+ * Hook для сохранения своего анамнеза (PATIENT)
+ */
+export function useUpdateMyMedicalHistory() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: (history: UpdateMedicalHistoryRequest) => medicalHistoryService.updateMyHistory(history),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['my-medical-history'] });
+      toast.success('Анамнез сохранён и передан в клиники');
+    },
+    onError: (error: any) => {
+      console.error('❌ [MEDICAL HISTORY] Ошибка сохранения анамнеза:', error);
+      toast.error(error.message || 'Не удалось сохранить анамнез');
+    },
+  });
+}
@@ -1,6 +1,6 @@
 import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
 import { notificationService } from '../services/notification.service';
-import { Notification } from '../types/api.types';
+import { Notification, NotificationDeliveryChannel, NotificationDeliveryStatus } from '../types/api.types';
 
 /**
  * React Query Hooks для уведомлений
@@ -76,3 +76,29 @@ export function useDeleteNotification() {
   });
 }
 
+
+export function useNotificationDeliveries(params?: {
+  status?: NotificationDeliveryStatus;
+  channel?: NotificationDeliveryChannel;
+  page?: number;
+  limit?: number;
+}, enabled = true) {
+  return useQuery({
+    queryKey: ['notifications', 'deliveries', params],
+    queryFn: () => notificationService.getDeliveries(params),
+    enabled,
+    staleTime: 10000, // 10 секунд
+    refetchInterval: 30000, // Статусы повторов меняются в фоне
+  });
+}
+
+export function useRetryNotificationDelivery() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: (id: string) => notificationService.retryDelivery(id),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['notifications', 'deliveries'] });
+    },
+  });
+}
@@ -1,4 +1,5 @@
-import { useQuery } from '@tanstack/react-query';
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { toast } from 'react-hot-toast';
 import { patientService } from '../services/patient.service';
 
 /**
@@ -17,3 +18,42 @@ export function usePatientAppointments(params?: {
   });
 }
 
+
+/**
+ * Hook для принятия предложенного клиникой нового времени (после отмены приёма)
+ */
+export function useAcceptSuggestedDate() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: (appointmentId: string) => patientService.acceptSuggestedDate(appointmentId),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['patient-appointments'] });
+      queryClient.invalidateQueries({ queryKey: ['notifications'] });
+      toast.success('Вы записаны на предложенное время. Клиника подтвердит запись');
+    },
+    onError: (error: any) => {
+      queryClient.invalidateQueries({ queryKey: ['patient-appointments'] });
+      toast.error(error.message || 'Не удалось записаться на предложенное время');
+    },
+  });
+}
+
+/**
+ * Hook для отказа от предложенного клиникой нового времени
+ */
+export function useDeclineSuggestedDate() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: (appointmentId: string) => patientService.declineSuggestedDate(appointmentId),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['patient-appointments'] });
+      queryClient.invalidateQueries({ queryKey: ['notifications'] });
+      toast.success('Предложенное время отклонено. Клиника свяжется с вами');
+    },
+    onError: (error: any) => {
+      toast.error(error.message || 'Не удалось отклонить предложенное время');
+    },
+  });
+}
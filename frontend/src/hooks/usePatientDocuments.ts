@@ -0,0 +1,110 @@
+import { useEffect, useState } from 'react';
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { toast } from 'react-hot-toast';
+import { patientDocumentService } from '../services/patientDocument.service';
+import { UpdatePatientDocumentRequest, UploadPatientDocumentRequest } from '../types/api.types';
+
+/**
+ * React Query Hook для документов пациента
+ * @param appointmentId - только документы, прикреплённые к приёму
+ */
+export function usePatientDocuments(patientId: string | undefined, appointmentId?: string) {
+  return useQuery({
+    queryKey: ['patient-documents', patientId, appointmentId || null],
+    queryFn: () => patientDocumentService.getDocuments(patientId!, appointmentId ? { appointmentId } : undefined),
+    enabled: !!patientId,
+    staleTime: 30000, // 30 секунд
+  });
+}
+
+/**
+ * Hook для загрузки документа
+ */
+export function useUploadPatientDocument(patientId: string) {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: (document: UploadPatientDocumentRequest) => patientDocumentService.uploadDocument(patientId, document),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['patient-documents', patientId] });
+      toast.success('Документ загружен');
+    },
+    onError: (error: any) => {
+      console.error('❌ [PATIENT DOCUMENTS] Ошибка загрузки документа:', error);
+      toast.error(error.message || 'Не удалось загрузить документ');
+    },
+  });
+}
+
+/**
+ * Hook для изменения категории, названия или приёма документа
+ */
+export function useUpdatePatientDocument(patientId: string) {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: ({ id, changes }: { id: string; changes: UpdatePatientDocumentRequest }) =>
+      patientDocumentService.updateDocument(patientId, id, changes),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['patient-documents', patientId] });
+    },
+    onError: (error: any) => {
+      console.error('❌ [PATIENT DOCUMENTS] Ошибка изменения документа:', error);
+      toast.error(error.message || 'Не удалось сохранить изменения');
+    },
+  });
+}
+
+/**
+ * Hook для удаления документа
+ */
+export function useDeletePatientDocument(patientId: string) {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: (documentId: string) => patientDocumentService.deleteDocument(patientId, documentId),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['patient-documents', patientId] });
+      toast.success('Документ удалён');
+    },
+    onError: (error: any) => {
+      console.error('❌ [PATIENT DOCUMENTS] Ошибка удаления документа:', error);
+      toast.error(error.message || 'Не удалось удалить документ');
+    },
+  });
+}
+
+/**
+ * Локальная ссылка (blob:) на файл документа — для <img> и просмотра PDF
+ * Файл загружается один раз и кэшируется, ссылка освобождается при размонтировании
+ * @param thumbnail - превью вместо оригинала
+ */
+export function usePatientDocumentFileUrl(
+  patientId: string,
+  documentId: string | undefined,
+  thumbnail = false
+) {
+  const [url, setUrl] = useState<string | null>(null);
+
+  const query = useQuery({
+    queryKey: ['patient-document-file', documentId, thumbnail],
+    queryFn: () => patientDocumentService.getFile(patientId, documentId!, thumbnail),
+    enabled: !!documentId,
+    staleTime: Infinity, // Файл документа не меняется
+    gcTime: 5 * 60 * 1000,
+  });
+
+  useEffect(() => {
+    if (!query.data) {
+      setUrl(null);
+      return;
+    }
+
+    const objectUrl = URL.createObjectURL(query.data);
+    setUrl(objectUrl);
+
+    return () => URL.revokeObjectURL(objectUrl);
+  }, [query.data]);
+
+  return { url, isLoading: query.isLoading, isError: query.isError };
+}
@@ -0,0 +1,40 @@
+import { useMutation, useQueryClient } from '@tanstack/react-query';
+import { toast } from 'react-hot-toast';
+import { patientImportService } from '../services/patientImport.service';
+import { ImportPatientsRequest, PatientExportParams } from '../types/api.types';
+
+/**
+ * Hook для импорта пациентов из таблицы
+ * Проверка (dryRun) ничего не сохраняет — списки обновляются только после импорта
+ */
+export function useImportPatients() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: (request: ImportPatientsRequest) => patientImportService.importPatients(request),
+    onSuccess: result => {
+      if (result.dryRun) return;
+
+      queryClient.invalidateQueries({ queryKey: ['patients'] });
+      queryClient.invalidateQueries({ queryKey: ['patient-duplicates'] });
+      toast.success(`Импорт завершён: создано ${result.summary.create}, обновлено ${result.summary.update}`);
+    },
+    onError: (error: any) => {
+      console.error('❌ [PATIENT IMPORT] Ошибка импорта:', error);
+      toast.error(error.message || 'Не удалось импортировать пациентов');
+    },
+  });
+}
+
+/**
+ * Hook для загрузки пациентов и визитов к выгрузке
+ */
+export function useExportPatients() {
+  return useMutation({
+    mutationFn: (params: PatientExportParams) => patientImportService.exportPatients(params),
+    onError: (error: any) => {
+      console.error('❌ [PATIENT EXPORT] Ошибка выгрузки:', error);
+      toast.error(error.message || 'Не удалось выгрузить пациентов');
+    },
+  });
+}
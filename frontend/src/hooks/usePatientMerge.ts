@@ -0,0 +1,50 @@
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { toast } from 'react-hot-toast';
+import { patientMergeService } from '../services/patientMerge.service';
+import { MergePatientsRequest } from '../types/api.types';
+
+/**
+ * React Query Hook для групп возможных дубликатов пациентов
+ */
+export function useDuplicatePatients(enabled = true) {
+  return useQuery({
+    queryKey: ['patient-duplicates'],
+    queryFn: () => patientMergeService.getDuplicates(),
+    enabled,
+  });
+}
+
+/**
+ * React Query Hook для журнала объединений
+ */
+export function usePatientMerges(enabled = true) {
+  return useQuery({
+    queryKey: ['patient-merges'],
+    queryFn: () => patientMergeService.getMerges({ limit: 20 }),
+    enabled,
+  });
+}
+
+/**
+ * Hook для объединения дубликатов
+ * Приёмы, уведомления и беседы дубликатов переходят в оставшуюся карточку
+ */
+export function useMergePatients() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: (request: MergePatientsRequest) => patientMergeService.merge(request),
+    onSuccess: (_, request) => {
+      queryClient.invalidateQueries({ queryKey: ['patient-duplicates'] });
+      queryClient.invalidateQueries({ queryKey: ['patient-merges'] });
+      queryClient.invalidateQueries({ queryKey: ['patients'] });
+      queryClient.invalidateQueries({ queryKey: ['patientVisits'] });
+      queryClient.invalidateQueries({ queryKey: ['appointments'] });
+      toast.success(`Объединено карточек: ${request.sourceIds.length + 1}`);
+    },
+    onError: (error: any) => {
+      console.error('❌ [PATIENT MERGE] Ошибка объединения:', error);
+      toast.error(error.message || 'Не удалось объединить карточки');
+    },
+  });
+}
@@ -0,0 +1,57 @@
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { toast } from 'react-hot-toast';
+import { patientClaimService } from '../services/patientClaim.service';
+import { CreatePatientClaimRequest } from '../types/api.types';
+
+/**
+ * React Query Hook для карточек пациента, привязанных к аккаунту
+ */
+export function useMyPatientRecords() {
+  return useQuery({
+    queryKey: ['patient-records'],
+    queryFn: () => patientClaimService.getMyRecords(),
+    staleTime: 60000, // 1 минута
+  });
+}
+
+/**
+ * Hook для запроса кода привязки карточки
+ */
+export function useRequestPatientClaim() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: (claim: CreatePatientClaimRequest) => patientClaimService.requestClaim(claim),
+    onSuccess: claim => {
+      queryClient.invalidateQueries({ queryKey: ['patient-records'] });
+      toast.success(`Если карточка с контактом ${claim.recipient} есть в клинике, код отправлен`);
+    },
+    onError: (error: any) => {
+      console.error('❌ [PATIENT RECORDS] Ошибка запроса кода:', error);
+      toast.error(error.message || 'Не удалось отправить код подтверждения');
+    },
+  });
+}
+
+/**
+ * Hook для подтверждения привязки карточки кодом
+ * После привязки становятся доступны записи, чат и уведомления этой клиники
+ */
+export function useVerifyPatientClaim() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: ({ id, code }: { id: string; code: string }) => patientClaimService.verifyClaim(id, code),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['patient-records'] });
+      queryClient.invalidateQueries({ queryKey: ['patient-appointments'] });
+      queryClient.invalidateQueries({ queryKey: ['notifications'] });
+      queryClient.invalidateQueries({ queryKey: ['chat'] });
+      toast.success('Карточка привязана к аккаунту');
+    },
+    onError: (error: any) => {
+      console.error('❌ [PATIENT RECORDS] Ошибка подтверждения кода:', error);
+      toast.error(error.message || 'Не удалось подтвердить код');
+    },
+  });
+}
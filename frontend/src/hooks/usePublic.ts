@@ -40,6 +40,15 @@ export function useClinicDoctor(slug: string, doctorId: string) {
   });
 }
 
+export function useClinicTreatmentCategories(slug: string) {
+  return useQuery({
+    queryKey: ['public-clinic-treatment-categories', slug],
+    queryFn: () => publicService.getClinicTreatmentCategories(slug),
+    enabled: !!slug,
+    staleTime: 300000, // 5 минут - категории не меняются часто
+  });
+}
+
 export function useCities() {
   return useQuery({
     queryKey: ['public-cities'],
@@ -0,0 +1,76 @@
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { toast } from 'react-hot-toast';
+import { resourceService } from '../services/resource.service';
+import { ClinicResource, CreateClinicResourceRequest, UpdateClinicResourceRequest } from '../types/api.types';
+
+/**
+ * React Query Hook для получения ресурсов клиники (кабинеты, кресла, оборудование)
+ * @param activeOnly - только активные ресурсы
+ */
+export function useResources(activeOnly = false) {
+  return useQuery<ClinicResource[]>({
+    queryKey: ['clinic-resources', activeOnly],
+    queryFn: () => resourceService.getResources(activeOnly),
+    staleTime: 300000, // 5 минут - ресурсы меняются редко
+    refetchOnWindowFocus: false,
+  });
+}
+
+/**
+ * Hook для создания ресурса
+ */
+export function useCreateResource() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: (data: CreateClinicResourceRequest) => resourceService.createResource(data),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['clinic-resources'] });
+      toast.success('Ресурс добавлен');
+    },
+    onError: (error: any) => {
+      console.error('❌ [RESOURCE] Ошибка создания ресурса:', error);
+      toast.error(error.message || 'Ошибка при создании ресурса');
+    },
+  });
+}
+
+/**
+ * Hook для обновления ресурса (в том числе включения / отключения)
+ */
+export function useUpdateResource() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: ({ id, data }: { id: string; data: UpdateClinicResourceRequest }) =>
+      resourceService.updateResource(id, data),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['clinic-resources'] });
+      toast.success('Ресурс обновлён');
+    },
+    onError: (error: any) => {
+      console.error('❌ [RESOURCE] Ошибка обновления ресурса:', error);
+      toast.error(error.message || 'Ошибка при обновлении ресурса');
+    },
+  });
+}
+
+/**
+ * Hook для удаления ресурса
+ */
+export function useDeleteResource() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: (id: string) => resourceService.deleteResource(id),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['clinic-resources'] });
+      queryClient.invalidateQueries({ queryKey: ['appointments'] });
+      toast.success('Ресурс удалён');
+    },
+    onError: (error: any) => {
+      console.error('❌ [RESOURCE] Ошибка удаления ресурса:', error);
+      toast.error(error.message || 'Ошибка при удалении ресурса');
+    },
+  });
+}
@@ -0,0 +1,129 @@
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { toast } from 'react-hot-toast';
+import { treatmentPlanService } from '../services/treatmentPlan.service';
+import {
+  CreateTreatmentPlanRequest,
+  UpdateTreatmentPlanRequest,
+  UpdateTreatmentPlanStageRequest,
+} from '../types/api.types';
+
+/**
+ * React Query Hooks для планов лечения
+ * isPatient — запросы пациента (/treatment-plans/my), иначе — планы клиники
+ */
+
+export function useTreatmentPlans(params?: { patientId?: string; status?: string }, enabled = true) {
+  return useQuery({
+    queryKey: ['treatment-plans', params],
+    queryFn: () => treatmentPlanService.getAll(params),
+    enabled,
+  });
+}
+
+export function useMyTreatmentPlans(enabled = true) {
+  return useQuery({
+    queryKey: ['treatment-plans', 'my'],
+    queryFn: () => treatmentPlanService.getMy(),
+    enabled,
+  });
+}
+
+export function useTreatmentPlan(id: string | undefined, isPatient = false) {
+  return useQuery({
+    queryKey: ['treatment-plans', isPatient ? 'my' : 'clinic', id],
+    queryFn: () => (isPatient ? treatmentPlanService.getMyById(id!) : treatmentPlanService.getById(id!)),
+    enabled: !!id,
+  });
+}
+
+export function useCreateTreatmentPlan() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: (plan: CreateTreatmentPlanRequest) => treatmentPlanService.create(plan),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['treatment-plans'] });
+      toast.success('План лечения создан');
+    },
+    onError: (error: any) => {
+      toast.error(error.message || 'Ошибка при создании плана лечения');
+    },
+  });
+}
+
+export function useUpdateTreatmentPlan() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: ({ id, plan }: { id: string; plan: UpdateTreatmentPlanRequest }) =>
+      treatmentPlanService.update(id, plan),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['treatment-plans'] });
+      toast.success('План лечения сохранён');
+    },
+    onError: (error: any) => {
+      toast.error(error.message || 'Ошибка при сохранении плана лечения');
+    },
+  });
+}
+
+export function usePresentTreatmentPlan() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: (id: string) => treatmentPlanService.present(id),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['treatment-plans'] });
+      toast.success('План отправлен пациенту');
+    },
+    onError: (error: any) => {
+      toast.error(error.message || 'Ошибка при отправке плана пациенту');
+    },
+  });
+}
+
+export function useCancelTreatmentPlan() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: (id: string) => treatmentPlanService.cancel(id),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['treatment-plans'] });
+      toast.success('План лечения отменён');
+    },
+    onError: (error: any) => {
+      toast.error(error.message || 'Ошибка при отмене плана лечения');
+    },
+  });
+}
+
+export function useUpdateTreatmentPlanStage() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: ({ id, stageId, stage }: { id: string; stageId: string; stage: UpdateTreatmentPlanStageRequest }) =>
+      treatmentPlanService.updateStage(id, stageId, stage),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['treatment-plans'] });
+      toast.success('Этап обновлён');
+    },
+    onError: (error: any) => {
+      toast.error(error.message || 'Ошибка при обновлении этапа');
+    },
+  });
+}
+
+export function useAcceptTreatmentPlan() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: (id: string) => treatmentPlanService.acceptMy(id),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['treatment-plans'] });
+      toast.success('План лечения принят');
+    },
+    onError: (error: any) => {
+      toast.error(error.message || 'Ошибка при принятии плана лечения');
+    },
+  });
+}
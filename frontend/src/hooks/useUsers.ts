@@ -1,6 +1,6 @@
 import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
 import { userService } from '../services/user.service';
-import { User, DoctorSchedule, UpdateDoctorScheduleRequest } from '../types/api.types';
+import { User, DoctorSchedule, SaveScheduleExceptionRequest, UpdateDoctorScheduleRequest } from '../types/api.types';
 import { useAuthStore } from '../store/useAuthStore';
 import { toast } from 'react-hot-toast';
 
@@ -242,4 +242,58 @@ export function useUpdateDoctorStatus() {
   });
 }
 
+/**
+ * Получить исключения из расписания врача (для клиники)
+ */
+export function useDoctorScheduleExceptions(doctorId: string) {
+  return useQuery({
+    queryKey: ['users', doctorId, 'schedule', 'exceptions'],
+    queryFn: () => userService.getDoctorScheduleExceptions(doctorId),
+    enabled: !!doctorId,
+    staleTime: 30 * 1000,
+  });
+}
+
+/**
+ * Создать или обновить исключение из расписания врача (для клиники)
+ */
+export function useSaveDoctorScheduleException(doctorId: string) {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: (exception: SaveScheduleExceptionRequest) =>
+      userService.saveDoctorScheduleException(doctorId, exception),
+    onSuccess: (saved) => {
+      queryClient.invalidateQueries({ queryKey: ['users', doctorId, 'schedule', 'exceptions'] });
+      queryClient.invalidateQueries({ queryKey: ['doctor', 'schedule', 'exceptions'] });
+
+      if (saved.conflicts && saved.conflicts.length > 0) {
+        toast.error(`Исключение сохранено, но на эту дату есть приёмы вне рабочего времени: ${saved.conflicts.length}`);
+      } else {
+        toast.success('Исключение из расписания сохранено');
+      }
+    },
+    onError: (error: any) => {
+      toast.error(error.message || 'Ошибка при сохранении исключения');
+    },
+  });
+}
+
+/**
+ * Удалить исключение из расписания врача (для клиники)
+ */
+export function useDeleteDoctorScheduleException(doctorId: string) {
+  const queryClient = useQueryClient();
 
+  return useMutation({
+    mutationFn: (exceptionId: string) => userService.deleteDoctorScheduleException(doctorId, exceptionId),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['users', doctorId, 'schedule', 'exceptions'] });
+      queryClient.invalidateQueries({ queryKey: ['doctor', 'schedule', 'exceptions'] });
+      toast.success('Исключение удалено');
+    },
+    onError: (error: any) => {
+      toast.error(error.message || 'Ошибка при удалении исключения');
+    },
+  });
+}
@@ -0,0 +1,92 @@
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { toast } from 'react-hot-toast';
+import { waitlistService } from '../services/waitlist.service';
+import { CreateWaitlistEntryRequest } from '../types/api.types';
+
+/**
+ * React Query Hooks для листа ожидания
+ * isPatient — запросы пациента (/waitlist/my), иначе — лист ожидания клиники
+ */
+
+export function useWaitlist(params?: { status?: string; doctorId?: string; patientId?: string }, enabled = true) {
+  return useQuery({
+    queryKey: ['waitlist', params],
+    queryFn: () => waitlistService.getAll(params),
+    enabled,
+    refetchInterval: 60 * 1000, // Предложения истекают по времени — обновляем раз в минуту
+  });
+}
+
+export function useMyWaitlist(enabled = true) {
+  return useQuery({
+    queryKey: ['waitlist', 'my'],
+    queryFn: () => waitlistService.getMy(),
+    enabled,
+    refetchInterval: 60 * 1000,
+  });
+}
+
+export function useCreateWaitlistEntry(isPatient = false) {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: (entry: CreateWaitlistEntryRequest) =>
+      isPatient ? waitlistService.createMy(entry) : waitlistService.create(entry),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['waitlist'] });
+      toast.success('Добавлено в лист ожидания');
+    },
+    onError: (error: any) => {
+      toast.error(error.message || 'Ошибка при добавлении в лист ожидания');
+    },
+  });
+}
+
+export function useRemoveWaitlistEntry(isPatient = false) {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: (id: string) => (isPatient ? waitlistService.removeMy(id) : waitlistService.remove(id)),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['waitlist'] });
+      toast.success('Запись убрана из листа ожидания');
+    },
+    onError: (error: any) => {
+      toast.error(error.message || 'Ошибка при удалении из листа ожидания');
+    },
+  });
+}
+
+export function useAcceptWaitlistOffer() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: (offerId: string) => waitlistService.acceptOffer(offerId),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['waitlist'] });
+      queryClient.invalidateQueries({ queryKey: ['appointments'] });
+      queryClient.invalidateQueries({ queryKey: ['patient-appointments'] });
+      toast.success('Запись на приём подтверждена');
+    },
+    onError: (error: any) => {
+      queryClient.invalidateQueries({ queryKey: ['waitlist'] });
+      toast.error(error.message || 'Не удалось принять предложение');
+    },
+  });
+}
+
+export function useDeclineWaitlistOffer() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: (offerId: string) => waitlistService.declineOffer(offerId),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['waitlist'] });
+      toast.success('Предложение отклонено');
+    },
+    onError: (error: any) => {
+      queryClient.invalidateQueries({ queryKey: ['waitlist'] });
+      toast.error(error.message || 'Не удалось отклонить предложение');
+    },
+  });
+}
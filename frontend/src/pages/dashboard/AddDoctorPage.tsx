@@ -10,6 +10,7 @@ import { userService } from '../../services/user.service';
 import { clinicService } from '../../services/clinic.service';
 import { DoctorScheduleEditor, DoctorScheduleEditorRef } from '../../components/dashboard/DoctorScheduleEditor';
 import { useTreatmentCategories } from '../../hooks/useTreatmentCategories';
+import { ScheduleBreak } from '../../types/api.types';
 
 /**
  * AddDoctorPage
@@ -52,6 +53,7 @@ export const AddDoctorPage: React.FC = () => {
         startTime: string | null;
         endTime: string | null;
         isWorking: boolean;
+        breaks?: ScheduleBreak[];
       }> = [];
 
       if (scheduleEditorRef.current) {
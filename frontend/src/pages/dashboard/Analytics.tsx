@@ -15,6 +15,7 @@ import {
 } from '../../hooks/useAnalytics';
 import { useDoctors } from '../../hooks/useUsers';
 import { AnalyticsFilters } from '../../services/analytics.service';
+import { useTreatmentCategories } from '../../hooks/useTreatmentCategories';
 import { format, startOfWeek } from 'date-fns';
 
 /**
@@ -72,8 +73,7 @@ export const AnalyticsPage: React.FC = () => {
   const [dateFrom, setDateFrom] = useState<string>(searchParams.get('dateFrom') || '');
   const [dateTo, setDateTo] = useState<string>(searchParams.get('dateTo') || '');
   const [week, setWeek] = useState<string>(searchParams.get('week') || '');
-  const [category, setCategory] = useState<string>(searchParams.get('category') || '');
-  const [categoryInput, setCategoryInput] = useState<string>(searchParams.get('category') || '');
+  const [category, setCategory] = useState<string>(searchParams.get('category') || ''); // ID категории лечения
 
   // Тип графика
   const [chartType, setChartType] = useState<'daily' | 'weekly' | 'monthly' | 'byDoctor' | 'byCategory' | 'byStatus'>(
@@ -100,7 +100,7 @@ export const AnalyticsPage: React.FC = () => {
     if (dateFrom) f.dateFrom = dateFrom;
     if (dateTo) f.dateTo = dateTo;
     if (week) f.week = week;
-    if (category) f.category = category;
+    if (category) f.treatmentCategoryId = category;
     return f;
   }, [doctorId, dateFrom, dateTo, week, category]);
 
@@ -108,6 +108,7 @@ export const AnalyticsPage: React.FC = () => {
   const { data: summary, isLoading: summaryLoading } = useAnalyticsSummary(filters);
   const { data: chartData, isLoading: chartLoading } = useAnalyticsChart(chartType, filters);
   const { data: statusChartData, isLoading: statusChartLoading } = useAnalyticsChart('byStatus', filters);
+  const { data: categories = [] } = useTreatmentCategories();
   const { data: tableData, isLoading: tableLoading } = useAnalyticsTable({
     ...filters,
     page: tablePage,
@@ -116,15 +117,6 @@ export const AnalyticsPage: React.FC = () => {
     sortOrder: tableSortOrder,
   });
 
-  // Debounce для категории
-  useEffect(() => {
-    const timer = setTimeout(() => {
-      setCategory(categoryInput);
-    }, 500);
-
-    return () => clearTimeout(timer);
-  }, [categoryInput]);
-
   // Синхронизация фильтров с URL
   useEffect(() => {
     if (isInitialMount.current) {
@@ -153,7 +145,6 @@ export const AnalyticsPage: React.FC = () => {
     setDateTo('');
     setWeek('');
     setCategory('');
-    setCategoryInput('');
     setTablePage(1);
     setTableSortBy('appointmentDate');
     setTableSortOrder('desc');
@@ -289,13 +280,18 @@ export const AnalyticsPage: React.FC = () => {
             {/* Категория */}
             <div>
               <label className="block text-sm font-normal text-text-10 mb-2">Категория</label>
-              <Input
-                type="text"
-                value={categoryInput}
-                onChange={(e) => setCategoryInput(e.target.value)}
-                placeholder="Введите категорию..."
-                className="w-full"
-              />
+              <select
+                value={category}
+                onChange={(e) => setCategory(e.target.value)}
+                className="w-full px-4 py-2 border border-stroke rounded-lg bg-bg-white text-text-100 text-sm focus:outline-none focus:border-main-100"
+              >
+                <option value="">Все категории</option>
+                {categories.map(item => (
+                  <option key={item.id} value={item.id}>
+                    {item.name}
+                  </option>
+                ))}
+              </select>
             </div>
 
             {/* Тип графика */}
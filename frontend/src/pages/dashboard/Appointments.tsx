@@ -1,30 +1,42 @@
 import React, { useState, useEffect, useRef } from 'react';
 import { useSearchParams } from 'react-router-dom';
 import { NewDashboardLayout } from '../../components/dashboard/NewDashboardLayout';
-import { Button, Card, Spinner, Input } from '../../components/common';
+import { Button, Card, Spinner } from '../../components/common';
 import { AppointmentsListView } from '../../components/dashboard/AppointmentsListView';
 import { AppointmentsMonthlyCalendar } from '../../components/dashboard/AppointmentsMonthlyCalendar';
 import { AppointmentsWeeklyView } from '../../components/dashboard/AppointmentsWeeklyView';
+import { AppointmentsDayView } from '../../components/dashboard/AppointmentsDayView';
 import { CreateAppointmentModal } from '../../components/dashboard/CreateAppointmentModal';
 import { CompleteAppointmentModal } from '../../components/dashboard/CompleteAppointmentModal';
 import { CancelAppointmentModal } from '../../components/dashboard/CancelAppointmentModal';
 import { EditAmountModal } from '../../components/dashboard/EditAmountModal';
 import { AppointmentDetailModal } from '../../components/dashboard/AppointmentDetailModal';
-import { useAppointments, useUpdateAppointmentStatus, useUpdateAppointment } from '../../hooks/useAppointments';
+import { WaitlistModal } from '../../components/dashboard/WaitlistModal';
+import { useAppointments, useUpdateAppointmentStatus, useUpdateAppointment, useRescheduleAppointment } from '../../hooks/useAppointments';
+import { useResources } from '../../hooks/useResources';
+import { useTreatmentCategories } from '../../hooks/useTreatmentCategories';
 import { appointmentService } from '../../services/appointment.service';
 import { userService } from '../../services/user.service';
 import { useAuthStore } from '../../store/useAuthStore';
 import { useQueryClient } from '@tanstack/react-query';
 import { User, Appointment } from '../../types/api.types';
 import { format } from 'date-fns';
-import { Filter, Calendar, Clock, Search, User as UserIcon } from 'lucide-react';
+import { Filter, Calendar, Clock, Search, User as UserIcon, ListOrdered, Armchair } from 'lucide-react';
 
 // Import icons
 import analyticsIcon from '../../assets/icons/analytics.svg';
 import plusIcon from '../../assets/icons/plus.svg';
 import calendarIcon from '../../assets/icons/calendar.svg';
+import clockIcon from '../../assets/icons/clock.svg';
 import refreshIcon from '../../assets/icons/refresh.svg';
 
+// Колонки сетки фильтров (классы целиком, чтобы их видел Tailwind)
+const FILTER_GRID_COLUMNS: Record<number, string> = {
+  5: 'lg:grid-cols-5',
+  6: 'lg:grid-cols-6',
+  7: 'lg:grid-cols-7',
+};
+
 /**
  * Appointments Page - Figma Design
  * Управление приёмами в новом стиле
@@ -43,18 +55,18 @@ export const AppointmentsPage: React.FC = () => {
   const [doctorFilter, setDoctorFilter] = useState<string>(searchParams.get('doctor') || '');
   const [timeFilter, setTimeFilter] = useState<string>(searchParams.get('time') || '');
   const [weekFilter, setWeekFilter] = useState<string>(searchParams.get('week') || '');
-  const [categoryFilter, setCategoryFilter] = useState<string>(searchParams.get('category') || '');
-  const [categoryInput, setCategoryInput] = useState<string>(searchParams.get('category') || ''); // Для debounce
+  const [categoryFilter, setCategoryFilter] = useState<string>(searchParams.get('category') || ''); // ID категории лечения
+  const [resourceFilter, setResourceFilter] = useState<string>(searchParams.get('resource') || ''); // Кабинет / кресло / оборудование
   
-  // Вид отображения (list/monthly/weekly) - только для CLINIC
+  // Вид отображения (list/monthly/weekly/daily) - только для CLINIC
   const isClinic = user?.role === 'CLINIC' || user?.role === 'ADMIN';
   
   // Загружаем сохраненный вид из localStorage при инициализации
-  const [viewType, setViewType] = useState<'list' | 'monthly' | 'weekly'>(() => {
+  const [viewType, setViewType] = useState<'list' | 'monthly' | 'weekly' | 'daily'>(() => {
     try {
       const saved = localStorage.getItem('appointmentsViewType');
-      if (saved && ['list', 'monthly', 'weekly'].includes(saved)) {
-        return saved as 'list' | 'monthly' | 'weekly';
+      if (saved && ['list', 'monthly', 'weekly', 'daily'].includes(saved)) {
+        return saved as 'list' | 'monthly' | 'weekly' | 'daily';
       }
     } catch (error) {
       console.error('Ошибка загрузки вида из localStorage:', error);
@@ -95,7 +107,7 @@ export const AppointmentsPage: React.FC = () => {
   }, [viewMode]);
   
   // Функция для установки вида с автоматическим сохранением
-  const handleViewTypeChange = (newViewType: 'list' | 'monthly' | 'weekly') => {
+  const handleViewTypeChange = (newViewType: 'list' | 'monthly' | 'weekly' | 'daily') => {
     setViewType(newViewType);
     if (newViewType === 'list') {
       // При переключении на список, сохраняем режим таблицы
@@ -106,6 +118,11 @@ export const AppointmentsPage: React.FC = () => {
   // Модальное окно создания приёма
   const [isCreateModalOpen, setIsCreateModalOpen] = useState(false);
   const [createModalDefaultDate, setCreateModalDefaultDate] = useState<string | undefined>(undefined);
+  // Врач и время из ячейки вида «День»
+  const [createModalSlot, setCreateModalSlot] = useState<{ doctorId: string; time: string } | null>(null);
+
+  // Модальное окно листа ожидания
+  const [isWaitlistModalOpen, setIsWaitlistModalOpen] = useState(false);
   
   // Модальное окно завершения приёма
   const [isCompleteModalOpen, setIsCompleteModalOpen] = useState(false);
@@ -147,17 +164,6 @@ export const AppointmentsPage: React.FC = () => {
     loadDoctors();
   }, []);
 
-  // Debounce для поля категории - обновляем фильтр только после 500ms паузы в вводе
-  useEffect(() => {
-    const timer = setTimeout(() => {
-      setCategoryFilter(categoryInput);
-    }, 500); // 500ms задержка
-
-    return () => {
-      clearTimeout(timer);
-    };
-  }, [categoryInput]);
-
   // Синхронизация фильтров с URL параметрами
   // Обновляем URL только когда фильтры изменяются пользователем (не при первой загрузке)
   useEffect(() => {
@@ -174,10 +180,11 @@ export const AppointmentsPage: React.FC = () => {
     if (timeFilter) params.set('time', timeFilter);
     if (weekFilter) params.set('week', weekFilter);
     if (categoryFilter) params.set('category', categoryFilter);
+    if (resourceFilter) params.set('resource', resourceFilter);
     
     // Обновляем URL без перезагрузки страницы
     setSearchParams(params, { replace: true });
-  }, [statusFilter, dateFilter, doctorFilter, timeFilter, weekFilter, categoryFilter, setSearchParams]);
+  }, [statusFilter, dateFilter, doctorFilter, timeFilter, weekFilter, categoryFilter, resourceFilter, setSearchParams]);
 
   // По умолчанию исключаем завершенные приёмы (completed) из раздела Appointments
   // Они должны отображаться только в разделе Patients
@@ -190,12 +197,16 @@ export const AppointmentsPage: React.FC = () => {
     doctorId: isDoctor ? user?.id : (doctorFilter || undefined), // Для врачей автоматически фильтруем по их ID
     time: timeFilter || undefined,
     week: weekFilter || undefined,
-    category: categoryFilter || undefined,
+    treatmentCategoryId: categoryFilter || undefined,
+    resourceId: resourceFilter || undefined,
     limit: 1000, // Большой лимит для получения всех записей (особенно важно для календарного вида)
   });
   const queryClient = useQueryClient();
   const updateStatusMutation = useUpdateAppointmentStatus();
   const updateAppointmentMutation = useUpdateAppointment();
+  const rescheduleMutation = useRescheduleAppointment();
+  const { data: resources = [] } = useResources();
+  const { data: categories = [] } = useTreatmentCategories();
 
   // Фильтруем завершенные приёмы, если статус не выбран явно
   // Это гарантирует, что завершенные приёмы не отображаются в разделе Appointments
@@ -213,6 +224,7 @@ export const AppointmentsPage: React.FC = () => {
         doctorFilter,
         timeFilter,
         categoryFilter,
+        resourceFilter,
       },
       firstFewAppointments: appointments.slice(0, 5).map((apt: any) => ({
         id: apt.id,
@@ -257,7 +269,7 @@ export const AppointmentsPage: React.FC = () => {
     // Показываем все приёмы без фильтрации
     // Это позволяет видеть все приёмы, включая завершенные и отмененные
     return appointments;
-  }, [data, statusFilter, dateFilter, weekFilter, doctorFilter, timeFilter, categoryFilter]);
+  }, [data, statusFilter, dateFilter, weekFilter, doctorFilter, timeFilter, categoryFilter, resourceFilter]);
 
   /**
    * Обработчик изменения статуса приёма
@@ -568,6 +580,10 @@ export const AppointmentsPage: React.FC = () => {
             </p>
           </div>
           <div className="flex gap-3 flex-wrap">
+            <Button variant="secondary" onClick={() => setIsWaitlistModalOpen(true)}>
+              <ListOrdered className="w-4 h-4 mr-2 inline" />
+              Лист ожидания
+            </Button>
             {/* Для врачей - переключение table/cards */}
             {!isClinic && (
             <div className="flex border border-stroke rounded-sm overflow-hidden">
@@ -602,7 +618,7 @@ export const AppointmentsPage: React.FC = () => {
           <Filter className="w-5 h-5 text-text-50" />
           <h2 className="text-lg font-semibold text-text-50">Фильтры</h2>
         </div>
-        <div className={`grid grid-cols-1 md:grid-cols-2 ${isDoctor ? 'lg:grid-cols-5' : 'lg:grid-cols-6'} gap-4`}>
+        <div className={`grid grid-cols-1 md:grid-cols-2 ${FILTER_GRID_COLUMNS[(isDoctor ? 5 : 6) + (resources.length > 0 ? 1 : 0)]} gap-4`}>
           {/* Фильтр "Врач" скрыт для врачей, так как они видят только свои назначения */}
           {!isDoctor && (
             <div>
@@ -636,8 +652,11 @@ export const AppointmentsPage: React.FC = () => {
               <option value="">Все статусы</option>
               <option value="pending">Ожидает подтверждения</option>
               <option value="confirmed">Подтверждено</option>
+              <option value="arrived">Пришёл</option>
+              <option value="in_progress">На приёме</option>
               <option value="completed">Завершено</option>
               <option value="cancelled">Отменено</option>
+              <option value="no_show">Не пришёл</option>
             </select>
           </div>
 
@@ -691,19 +710,45 @@ export const AppointmentsPage: React.FC = () => {
           <div>
             <label className="block text-sm font-medium text-text-50 mb-2 flex items-center gap-2">
               <Search className="w-4 h-4" />
-              Процедура / Причина
+              Категория лечения
             </label>
-            <Input
-              type="text"
-              value={categoryInput}
-              onChange={(e) => setCategoryInput(e.target.value)}
-              placeholder="Поиск по процедуре..."
-              className="w-full"
-            />
+            <select
+              value={categoryFilter}
+              onChange={e => setCategoryFilter(e.target.value)}
+              className="w-full px-4 py-2.5 border border-stroke rounded-lg bg-bg-white text-sm focus:outline-none focus:border-main-100 transition-all"
+            >
+              <option value="">Все категории</option>
+              {categories.map(category => (
+                <option key={category.id} value={category.id}>
+                  {category.name}
+                </option>
+              ))}
+            </select>
           </div>
+
+          {resources.length > 0 && (
+            <div>
+              <label className="block text-sm font-medium text-text-50 mb-2 flex items-center gap-2">
+                <Armchair className="w-4 h-4" />
+                Ресурс
+              </label>
+              <select
+                value={resourceFilter}
+                onChange={e => setResourceFilter(e.target.value)}
+                className="w-full px-4 py-2.5 border border-stroke rounded-lg bg-bg-white text-sm focus:outline-none focus:border-main-100 transition-all"
+              >
+                <option value="">Все ресурсы</option>
+                {resources.map(resource => (
+                  <option key={resource.id} value={resource.id}>
+                    {resource.name}
+                  </option>
+                ))}
+              </select>
+            </div>
+          )}
         </div>
 
-        {(!isDoctor && doctorFilter || statusFilter || dateFilter || timeFilter || weekFilter || categoryFilter) && (
+        {(!isDoctor && doctorFilter || statusFilter || dateFilter || timeFilter || weekFilter || categoryFilter || resourceFilter) && (
           <div className="mt-4 pt-4 border-t border-stroke">
             <Button
               variant="secondary"
@@ -715,7 +760,7 @@ export const AppointmentsPage: React.FC = () => {
                 setTimeFilter('');
                 setWeekFilter('');
                 setCategoryFilter('');
-                setCategoryInput('');
+                setResourceFilter('');
                 // Очищаем URL параметры
                 setSearchParams({}, { replace: true });
               }}
@@ -730,7 +775,24 @@ export const AppointmentsPage: React.FC = () => {
       </Card>
 
       {/* Appointments Display - разные виды для CLINIC */}
-      {isInitialLoading ? (
+      {isClinic && viewType === 'daily' ? (
+        // Вид «День» загружает расписание всех врачей сам; из фильтров списка учитывается только ресурс
+        <AppointmentsDayView
+          resourceId={resourceFilter || undefined}
+          onAppointmentClick={(appointment) => {
+            setSelectedAppointmentForDetail(appointment);
+            setIsAppointmentDetailModalOpen(true);
+          }}
+          onSlotClick={(doctorId, date, time) => {
+            // Клик по свободной ячейке - создание приёма у этого врача на это время
+            setCreateModalDefaultDate(date);
+            setCreateModalSlot({ doctorId, time });
+            setIsCreateModalOpen(true);
+          }}
+          onViewChange={handleViewTypeChange}
+          currentView={viewType}
+        />
+      ) : isInitialLoading ? (
         <Card>
           <div className="flex justify-center items-center py-12">
             <Spinner size="lg" />
@@ -756,7 +818,9 @@ export const AppointmentsPage: React.FC = () => {
             setCreateModalDefaultDate(dateStr);
             setIsCreateModalOpen(true);
           }}
+          onReschedule={(appointment, changes) => rescheduleMutation.mutate({ id: appointment.id, data: changes })}
           onViewChange={handleViewTypeChange}
+          onDailyViewClick={() => handleViewTypeChange('daily')}
           currentView={viewType}
         />
       ) : isClinic && viewType === 'weekly' ? (
@@ -771,7 +835,9 @@ export const AppointmentsPage: React.FC = () => {
             // При клике на временной слот - открываем модальное окно создания приёма
             setIsCreateModalOpen(true);
           }}
+          onReschedule={(appointment, changes) => rescheduleMutation.mutate({ id: appointment.id, data: changes })}
           onViewChange={handleViewTypeChange}
+          onDailyViewClick={() => handleViewTypeChange('daily')}
           currentView={viewType}
         />
       ) : (
@@ -785,12 +851,49 @@ export const AppointmentsPage: React.FC = () => {
                   className="flex border border-stroke rounded-sm overflow-hidden"
                   style={{
                     height: '44px',
-                    width: '420px',
+                    width: '560px',
                     position: 'relative',
                     boxSizing: 'border-box',
                     gap: '0'
                   }}
                 >
+                  <button
+                    onClick={(e) => {
+                      e.preventDefault();
+                      e.stopPropagation();
+                      handleViewTypeChange('daily');
+                    }}
+                    onMouseDown={(e) => {
+                      e.preventDefault();
+                      e.stopPropagation();
+                    }}
+                    className="group text-base font-medium transition-colors duration-150 flex-shrink-0 relative bg-bg-white text-text-50 hover:bg-bg-primary"
+                    style={{
+                      width: '140px',
+                      height: '44px',
+                      padding: '0',
+                      border: 'none',
+                      outline: 'none',
+                      boxSizing: 'border-box',
+                      display: 'flex',
+                      alignItems: 'center',
+                      justifyContent: 'center',
+                      position: 'relative',
+                      zIndex: 1
+                    }}
+                    title="День: все врачи"
+                    type="button"
+                  >
+                    <span className="flex items-center gap-2" style={{ pointerEvents: 'none' }}>
+                      <img 
+                        src={clockIcon} 
+                        alt="День" 
+                        className="w-4 h-4 flex-shrink-0 transition-smooth group-hover:brightness-0 group-hover:invert" 
+                        style={{ display: 'block' }}
+                      />
+                      <span style={{ whiteSpace: 'nowrap' }}>День</span>
+                    </span>
+                  </button>
                   <button
                     onClick={(e) => {
                       e.preventDefault();
@@ -952,13 +1055,24 @@ export const AppointmentsPage: React.FC = () => {
         onClose={() => {
           setIsCreateModalOpen(false);
           setCreateModalDefaultDate(undefined);
+          setCreateModalSlot(null);
         }}
         onSuccess={() => {
           // Обновление произойдет автоматически через React Query
           console.log('✅ [APPOINTMENTS] Приём успешно создан');
           setCreateModalDefaultDate(undefined);
+          setCreateModalSlot(null);
         }}
         defaultDate={createModalDefaultDate}
+        preselectedDoctorId={createModalSlot?.doctorId}
+        defaultTime={createModalSlot?.time}
+      />
+
+      {/* Модальное окно листа ожидания */}
+      <WaitlistModal
+        isOpen={isWaitlistModalOpen}
+        onClose={() => setIsWaitlistModalOpen(false)}
+        doctorId={isDoctor ? user?.id : undefined}
       />
 
       {/* Модальное окно завершения приёма */}
@@ -14,6 +14,7 @@ import {
   useAnalyticsTable,
 } from '../../hooks/useAnalytics';
 import { AnalyticsFilters } from '../../services/analytics.service';
+import { useDoctorTreatmentCategories } from '../../hooks/useTreatmentCategories';
 import { format, startOfWeek, endOfWeek } from 'date-fns';
 import { useAuthStore } from '../../store/useAuthStore';
 
@@ -31,8 +32,7 @@ export const DoctorAnalyticsPage: React.FC = () => {
   const [dateFrom, setDateFrom] = useState<string>(searchParams.get('dateFrom') || '');
   const [dateTo, setDateTo] = useState<string>(searchParams.get('dateTo') || '');
   const [week, setWeek] = useState<string>(searchParams.get('week') || '');
-  const [category, setCategory] = useState<string>(searchParams.get('category') || '');
-  const [categoryInput, setCategoryInput] = useState<string>(searchParams.get('category') || '');
+  const [category, setCategory] = useState<string>(searchParams.get('category') || ''); // ID категории лечения
 
   // Тип графика
   const [chartType, setChartType] = useState<'daily' | 'weekly' | 'monthly' | 'byCategory' | 'byStatus'>(
@@ -61,7 +61,7 @@ export const DoctorAnalyticsPage: React.FC = () => {
     if (dateFrom) f.dateFrom = dateFrom;
     if (dateTo) f.dateTo = dateTo;
     if (week) f.week = week;
-    if (category) f.category = category;
+    if (category) f.treatmentCategoryId = category;
     return f;
   }, [user?.id, dateFrom, dateTo, week, category]);
 
@@ -69,6 +69,7 @@ export const DoctorAnalyticsPage: React.FC = () => {
   const { data: summary, isLoading: summaryLoading } = useAnalyticsSummary(filters);
   const { data: chartData, isLoading: chartLoading } = useAnalyticsChart(chartType, filters);
   const { data: statusChartData, isLoading: statusChartLoading } = useAnalyticsChart('byStatus', filters);
+  const { data: categories = [] } = useDoctorTreatmentCategories(user?.id);
   const { data: tableData, isLoading: tableLoading } = useAnalyticsTable({
     ...filters,
     page: tablePage,
@@ -77,15 +78,6 @@ export const DoctorAnalyticsPage: React.FC = () => {
     sortOrder: tableSortOrder,
   });
 
-  // Debounce для категории
-  useEffect(() => {
-    const timer = setTimeout(() => {
-      setCategory(categoryInput);
-    }, 500);
-
-    return () => clearTimeout(timer);
-  }, [categoryInput]);
-
   // Синхронизация фильтров с URL
   useEffect(() => {
     if (isInitialMount.current) {
@@ -112,7 +104,6 @@ export const DoctorAnalyticsPage: React.FC = () => {
     setDateTo('');
     setWeek('');
     setCategory('');
-    setCategoryInput('');
     setTablePage(1);
     setTableSortBy('appointmentDate');
     setTableSortOrder('desc');
@@ -212,13 +203,18 @@ export const DoctorAnalyticsPage: React.FC = () => {
             {/* Категория */}
             <div>
               <label className="block text-sm font-normal text-text-10 mb-2">Категория</label>
-              <Input
-                type="text"
-                value={categoryInput}
-                onChange={(e) => setCategoryInput(e.target.value)}
-                placeholder="Введите категорию..."
-                className="w-full"
-              />
+              <select
+                value={category}
+                onChange={(e) => setCategory(e.target.value)}
+                className="w-full px-4 py-2 border border-stroke rounded-lg bg-bg-white text-text-100 text-sm focus:outline-none focus:border-main-100"
+              >
+                <option value="">Все категории</option>
+                {categories.map(item => (
+                  <option key={item.id} value={item.id}>
+                    {item.name}
+                  </option>
+                ))}
+              </select>
             </div>
 
             {/* Тип графика */}
@@ -1,7 +1,15 @@
 import React from 'react';
 import { NewDashboardLayout } from '../../components/dashboard/NewDashboardLayout';
 import { DoctorScheduleEditor } from '../../components/dashboard/DoctorScheduleEditor';
-import { useDoctorSchedule, useUpdateDoctorSchedule } from '../../hooks/useDoctor';
+import { DoctorScheduleExceptionsEditor } from '../../components/dashboard/DoctorScheduleExceptionsEditor';
+import {
+  useDoctorSchedule,
+  useUpdateDoctorSchedule,
+  useDoctorScheduleExceptions,
+  useSaveDoctorScheduleException,
+  useDeleteDoctorScheduleException,
+} from '../../hooks/useDoctor';
+import { ScheduleBreak } from '../../types/api.types';
 
 // Import icons
 import calendarIcon from '../../assets/icons/calendar.svg';
@@ -16,11 +24,17 @@ export const DoctorGraphicsPage: React.FC = () => {
   const { data: schedule, isLoading: isLoadingSchedule } = useDoctorSchedule();
   const updateScheduleMutation = useUpdateDoctorSchedule();
 
+  // Исключения из расписания на конкретные даты
+  const { data: exceptions, isLoading: isLoadingExceptions } = useDoctorScheduleExceptions();
+  const saveExceptionMutation = useSaveDoctorScheduleException();
+  const deleteExceptionMutation = useDeleteDoctorScheduleException();
+
   const handleUpdateSchedule = async (scheduleData: Array<{
     dayOfWeek: number;
     startTime: string | null;
     endTime: string | null;
     isWorking: boolean;
+    breaks?: ScheduleBreak[];
   }>) => {
     await updateScheduleMutation.mutateAsync(scheduleData);
   };
@@ -47,6 +61,15 @@ export const DoctorGraphicsPage: React.FC = () => {
           onUpdate={handleUpdateSchedule}
           isLoading={updateScheduleMutation.isPending || isLoadingSchedule}
         />
+
+        {/* Исключения: выходные и особые часы на конкретные даты */}
+        <DoctorScheduleExceptionsEditor
+          exceptions={exceptions}
+          onSave={saveExceptionMutation.mutateAsync}
+          onDelete={deleteExceptionMutation.mutateAsync}
+          isLoading={isLoadingExceptions}
+          isSaving={saveExceptionMutation.isPending}
+        />
       </div>
     </NewDashboardLayout>
   );
@@ -6,9 +6,11 @@ import { PasswordSection } from '../../components/dashboard/PasswordSection';
 import { DoctorScheduleEditor, DoctorScheduleEditorRef } from '../../components/dashboard/DoctorScheduleEditor';
 import { DoctorStatusToggle } from '../../components/dashboard/DoctorStatusToggle';
 import { DoctorCategoriesSection, DoctorCategoriesSectionRef } from '../../components/dashboard/DoctorCategoriesSection';
+import { CalendarFeedSection } from '../../components/dashboard/CalendarFeedSection';
 import { useUser, useUpdateUser, useDeleteMyAccount } from '../../hooks/useUsers';
 import { useDoctorProfile, useUpdateDoctorProfile, useUploadDoctorAvatar, useDoctorSchedule, useUpdateDoctorSchedule } from '../../hooks/useDoctor';
 import { useUpdatePassword } from '../../hooks/useAuth';
+import { ScheduleBreak } from '../../types/api.types';
 import { useAuthStore } from '../../store/useAuthStore';
 import { Spinner, BackButton, DeleteAccountSection, Button } from '../../components/common';
 import { toast } from 'react-hot-toast';
@@ -117,6 +119,7 @@ export const DoctorSettingsPage: React.FC = () => {
     startTime: string | null;
     endTime: string | null;
     isWorking: boolean;
+    breaks?: ScheduleBreak[];
   }>) => {
     try {
       await updateScheduleMutation.mutateAsync(scheduleData);
@@ -257,6 +260,9 @@ export const DoctorSettingsPage: React.FC = () => {
           />
         )}
 
+        {/* Подписка на календарь (только если врач редактирует себя) */}
+        {isEditingSelf && <CalendarFeedSection audience="doctor" />}
+
         {/* Пароль (только если врач редактирует себя) */}
         {isEditingSelf && (
           <PasswordSection
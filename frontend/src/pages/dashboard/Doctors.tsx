@@ -2,11 +2,21 @@ import React, { useState, useMemo, useRef, useEffect } from 'react';
 import { useNavigate, useLocation, useSearchParams } from 'react-router-dom';
 import { NewDashboardLayout } from '../../components/dashboard/NewDashboardLayout';
 import { Button, Input, Card, Spinner, BackButton } from '../../components/common';
-import { useDoctors, useDoctorSchedule, useUser, useUpdateUser, useUpdateDoctorSchedule } from '../../hooks/useUsers';
+import {
+  useDoctors,
+  useDoctorSchedule,
+  useUser,
+  useUpdateUser,
+  useUpdateDoctorSchedule,
+  useDoctorScheduleExceptions,
+  useSaveDoctorScheduleException,
+  useDeleteDoctorScheduleException,
+} from '../../hooks/useUsers';
 import { useAuthStore } from '../../store/useAuthStore';
 import { useClinic } from '../../hooks/useClinic';
-import { User } from '../../types/api.types';
+import { User, ScheduleBreak } from '../../types/api.types';
 import { DoctorScheduleEditor, DoctorScheduleEditorRef } from '../../components/dashboard/DoctorScheduleEditor';
+import { DoctorScheduleExceptionsEditor } from '../../components/dashboard/DoctorScheduleExceptionsEditor';
 import { DoctorProfileSection, DoctorProfileSectionRef } from '../../components/dashboard/DoctorProfileSection';
 import { DoctorStatusQuickToggle } from '../../components/dashboard/DoctorStatusQuickToggle';
 import { DoctorStatusToggle } from '../../components/dashboard/DoctorStatusToggle';
@@ -66,6 +76,13 @@ export const DoctorsPage: React.FC = () => {
   const updateUserMutation = useUpdateUser();
   const updateScheduleMutation = useUpdateDoctorSchedule(selectedDoctor?.id || '');
 
+  // Исключения из расписания выбранного врача
+  const { data: scheduleExceptions, isLoading: isLoadingExceptions } = useDoctorScheduleExceptions(
+    selectedDoctor?.id || ''
+  );
+  const saveExceptionMutation = useSaveDoctorScheduleException(selectedDoctor?.id || '');
+  const deleteExceptionMutation = useDeleteDoctorScheduleException(selectedDoctor?.id || '');
+
   // Проверка: только CLINIC может добавлять врачей
   const canAddDoctors = user?.role === 'CLINIC';
 
@@ -162,6 +179,7 @@ export const DoctorsPage: React.FC = () => {
     startTime: string | null;
     endTime: string | null;
     isWorking: boolean;
+    breaks?: ScheduleBreak[];
   }>) => {
     if (!selectedDoctor) return;
     
@@ -366,6 +384,15 @@ export const DoctorsPage: React.FC = () => {
                 isLoading={updateScheduleMutation.isPending || isLoadingSchedule}
                 hideSubmitButton={true}
               />
+
+              {/* Исключения из расписания (сохраняются сразу, отдельно от общей кнопки) */}
+              <DoctorScheduleExceptionsEditor
+                exceptions={scheduleExceptions}
+                onSave={saveExceptionMutation.mutateAsync}
+                onDelete={deleteExceptionMutation.mutateAsync}
+                isLoading={isLoadingExceptions}
+                isSaving={saveExceptionMutation.isPending}
+              />
             </>
           )}
         </div>
@@ -1,6 +1,8 @@
 import React, { useState } from 'react';
 import { useNavigate } from 'react-router-dom';
 import { NewDashboardLayout } from '../../components/dashboard/NewDashboardLayout';
+import { NotificationDeliveryLog } from '../../components/dashboard/NotificationDeliveryLog';
+import { SuggestedDateActions } from '../../components/dashboard/SuggestedDateActions';
 import { Card, Button, Spinner } from '../../components/common';
 import {
   useNotifications,
@@ -223,6 +225,14 @@ export const NotificationsPage: React.FC = () => {
                               </span>
                             )}
                           </div>
+                          {notification.suggestion && notification.appointmentId && (
+                            <SuggestedDateActions
+                              appointmentId={notification.appointmentId}
+                              suggestedNewDate={notification.suggestion.suggestedNewDate}
+                              status={notification.suggestion.status}
+                              className="mt-3"
+                            />
+                          )}
                         </div>
 
                         {/* Actions */}
@@ -252,6 +262,9 @@ export const NotificationsPage: React.FC = () => {
             </div>
           )}
         </Card>
+
+        {/* Delivery Log (email / SMS) */}
+        {isAdmin && <NotificationDeliveryLog />}
       </div>
     </NewDashboardLayout>
   );
@@ -7,11 +7,15 @@ import { AppointmentsMonthlyCalendar } from '../../components/dashboard/Appointm
 import { AppointmentsWeeklyView } from '../../components/dashboard/AppointmentsWeeklyView';
 import { BookNowModal } from '../../components/dashboard/BookNowModal';
 import { AppointmentDetailModal } from '../../components/dashboard/AppointmentDetailModal';
+import { PatientWaitlistSection } from '../../components/dashboard/PatientWaitlistSection';
+import { SuggestedDateActions } from '../../components/dashboard/SuggestedDateActions';
 import { usePatientAppointments } from '../../hooks/usePatientAppointments';
 import { useUpdateAppointmentStatus } from '../../hooks/useAppointments';
+import { useDownloadAppointmentIcs } from '../../hooks/useCalendarFeed';
 import { Appointment } from '../../types/api.types';
-import { Calendar, Clock, Filter, Search, CalendarPlus } from 'lucide-react';
+import { Calendar, Clock, Filter, Search, CalendarPlus, CalendarClock } from 'lucide-react';
 import { format } from 'date-fns';
+import { getZonedDateParts } from '../../utils/dateFormat';
 
 // Import icons
 import calendarIcon from '../../assets/icons/calendar.svg';
@@ -105,41 +109,41 @@ export const PatientAppointmentsPage: React.FC = () => {
   });
 
   const updateStatusMutation = useUpdateAppointmentStatus();
+  const downloadIcsMutation = useDownloadAppointmentIcs();
 
   // Backend возвращает { appointments: [...], meta: {...} }, а не { data: [...] }
   const appointments = (data as any)?.appointments || [];
 
+  // Отменённые приёмы, к которым клиника предложила новое время и ждёт ответа
+  const pendingSuggestions = (appointments as Appointment[]).filter(
+    appointment => appointment.status === 'cancelled' && appointment.suggestedNewDate && appointment.suggestionStatus === 'pending'
+  );
+
   // Фильтрация по дате, времени и категории на клиенте
   const filteredAppointments = React.useMemo(() => {
     let filtered = [...appointments];
 
-    // Фильтр по дате
+    // Фильтры по дате и времени сравниваются с часами клиники приёма
     if (dateFilter) {
-      filtered = filtered.filter((apt) => {
-        const aptDate = new Date(apt.appointmentDate);
-        const filterDate = new Date(dateFilter);
-        return (
-          aptDate.getFullYear() === filterDate.getFullYear() &&
-          aptDate.getMonth() === filterDate.getMonth() &&
-          aptDate.getDate() === filterDate.getDate()
-        );
-      });
+      filtered = filtered.filter(
+        (apt) => getZonedDateParts(apt.appointmentDate, apt.clinic?.settings?.timezone).dateKey === dateFilter
+      );
     }
 
-    // Фильтр по времени
     if (timeFilter) {
-      filtered = filtered.filter((apt) => {
-        const aptTime = new Date(apt.appointmentDate);
-        const [filterHour, filterMinute] = timeFilter.split(':').map(Number);
-        return aptTime.getHours() === filterHour && aptTime.getMinutes() === filterMinute;
-      });
+      filtered = filtered.filter(
+        (apt) => getZonedDateParts(apt.appointmentDate, apt.clinic?.settings?.timezone).time === timeFilter
+      );
     }
 
-    // Фильтр по категории (reason)
+    // Фильтр по процедуре: название категории лечения или причина визита
+    // (приёмы из разных клиник, поэтому ищем по тексту, а не по ID категории)
     if (categoryFilter) {
+      const search = categoryFilter.toLowerCase();
       filtered = filtered.filter((apt) => {
+        const categoryName = apt.treatmentCategory?.name.toLowerCase() || '';
         const reason = apt.reason?.toLowerCase() || '';
-        return reason.includes(categoryFilter.toLowerCase());
+        return categoryName.includes(search) || reason.includes(search);
       });
     }
 
@@ -246,6 +250,38 @@ export const PatientAppointmentsPage: React.FC = () => {
           </Button>
         </div>
 
+        {/* Предложенное клиникой новое время после отмены */}
+        {pendingSuggestions.length > 0 && (
+          <Card padding="lg" className="border border-main-100 shadow-md">
+            <div className="flex items-center gap-2 mb-4">
+              <CalendarClock className="w-5 h-5 text-main-100" />
+              <h2 className="text-lg font-semibold text-text-50">Клиника предложила новое время</h2>
+            </div>
+            <div className="space-y-3">
+              {pendingSuggestions.map(appointment => (
+                <div key={appointment.id} className="p-3 rounded-sm border border-stroke bg-bg-white space-y-2">
+                  <p className="text-sm text-text-100">
+                    Приём {format(new Date(appointment.appointmentDate), 'dd.MM.yyyy HH:mm')}
+                    {appointment.doctor && ` · ${appointment.doctor.name}`} отменён
+                    {appointment.cancellationReason && (
+                      <span className="text-text-10"> — {appointment.cancellationReason}</span>
+                    )}
+                  </p>
+                  <SuggestedDateActions
+                    appointmentId={appointment.id}
+                    suggestedNewDate={appointment.suggestedNewDate!}
+                    status={appointment.suggestionStatus}
+                    timeZone={appointment.clinic?.settings?.timezone}
+                  />
+                </div>
+              ))}
+            </div>
+          </Card>
+        )}
+
+        {/* Лист ожидания и предложения освободившегося времени */}
+        <PatientWaitlistSection appointments={appointments} />
+
         {/* Фильтры */}
         <Card padding="lg" className="border border-stroke shadow-md">
           <div className="flex items-center gap-2 mb-4">
@@ -263,8 +299,11 @@ export const PatientAppointmentsPage: React.FC = () => {
                 <option value="">Все статусы</option>
                 <option value="pending">Ожидает подтверждения</option>
                 <option value="confirmed">Подтверждено</option>
+                <option value="arrived">Пришёл</option>
+                <option value="in_progress">На приёме</option>
                 <option value="completed">Завершено</option>
                 <option value="cancelled">Отменено</option>
+                <option value="no_show">Не пришёл</option>
               </select>
             </div>
 
@@ -461,6 +500,8 @@ export const PatientAppointmentsPage: React.FC = () => {
               <PatientAppointmentsTable
                 appointments={filteredAppointments}
                 onCancel={handleCancel}
+                onDownloadIcs={id => downloadIcsMutation.mutate(id)}
+                downloadingIcsId={downloadIcsMutation.isPending ? downloadIcsMutation.variables : null}
                 loadingAppointments={loadingAppointments}
                 errorMessages={errorMessages}
               />
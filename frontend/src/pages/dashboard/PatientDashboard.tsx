@@ -4,6 +4,7 @@ import { NewDashboardLayout } from '../../components/dashboard/NewDashboardLayou
 import { Card, Button, Spinner } from '../../components/common';
 import { PatientAppointmentsStats } from '../../components/dashboard/PatientAppointmentsStats';
 import { PatientMiniChart } from '../../components/dashboard/PatientMiniChart';
+import { PatientTreatmentPlansSection } from '../../components/dashboard/PatientTreatmentPlansSection';
 import { DailyTipCard } from '../../components/public/DailyTipCard';
 import { useAuthStore } from '../../store/useAuthStore';
 import { usePatientAppointments } from '../../hooks/usePatientAppointments';
@@ -52,14 +53,13 @@ export const PatientDashboard: React.FC = () => {
     (apt: any) => new Date(apt.appointmentDate) >= now && apt.status !== 'cancelled'
   );
 
-  // Форматирование даты и времени - используем утилиту для правильного форматирования
-  // Это исправляет проблемы с часовыми поясами при отображении времени приема
-  const formatDate = (dateString: string) => {
-    return formatAppointmentDate(dateString, 'short');
+  // Дата и время приёма показываются по часам клиники приёма
+  const formatDate = (dateString: string, timeZone?: string) => {
+    return formatAppointmentDate(dateString, 'short', timeZone);
   };
 
-  const formatTime = (dateString: string) => {
-    return formatAppointmentTime(dateString, 'short');
+  const formatTime = (dateString: string, timeZone?: string) => {
+    return formatAppointmentTime(dateString, 'short', timeZone);
   };
 
 
@@ -78,7 +78,8 @@ export const PatientDashboard: React.FC = () => {
               </p>
               {upcomingAppointments.length > 0 && (
                 <p className="text-xs text-text-10 mt-2">
-                  Ближайшая запись: {formatDate(upcomingAppointments[0]?.appointmentDate)} в {formatTime(upcomingAppointments[0]?.appointmentDate)}
+                  Ближайшая запись: {formatDate(upcomingAppointments[0]?.appointmentDate, upcomingAppointments[0]?.clinic?.settings?.timezone)} в{' '}
+                  {formatTime(upcomingAppointments[0]?.appointmentDate, upcomingAppointments[0]?.clinic?.settings?.timezone)}
                 </p>
               )}
             </div>
@@ -121,6 +122,9 @@ export const PatientDashboard: React.FC = () => {
           />
         )}
 
+        {/* Планы лечения и сметы */}
+        <PatientTreatmentPlansSection />
+
         {/* Уведомления карточка */}
         {unreadCount > 0 && (
           <Card padding="lg" className="border-stroke">
@@ -212,9 +216,9 @@ export const PatientDashboard: React.FC = () => {
                         <div className="text-right flex-shrink-0">
                           <div className="bg-main-10 px-3 py-2 rounded-lg mb-2">
                             <p className="text-sm font-bold text-main-100">
-                              {formatDate(appointment.appointmentDate)}
+                              {formatDate(appointment.appointmentDate, appointment.clinic?.settings?.timezone)}
                             </p>
-                            <p className="text-xs font-medium text-main-100">{formatTime(appointment.appointmentDate)}</p>
+                            <p className="text-xs font-medium text-main-100">{formatTime(appointment.appointmentDate, appointment.clinic?.settings?.timezone)}</p>
                           </div>
                           <span
                             className={`inline-block px-3 py-1 text-xs font-medium rounded ${
@@ -198,6 +198,7 @@ export const PatientHistoryPage: React.FC = () => {
       confirmed: filteredAppointments.filter((a) => a.status === 'confirmed').length,
       completed: completed.length,
       cancelled: filteredAppointments.filter((a) => a.status === 'cancelled').length,
+      noShow: filteredAppointments.filter((a) => a.status === 'no_show').length,
       totalAmount,
       averageAmount,
     };
@@ -249,18 +250,27 @@ export const PatientHistoryPage: React.FC = () => {
       confirmed: 'bg-blue-100 text-blue-700 border-blue-200',
       completed: 'bg-green-100 text-green-700 border-green-200',
       cancelled: 'bg-gray-100 text-gray-700 border-gray-200',
+      arrived: 'bg-sky-100 text-sky-700 border-sky-200',
+      in_progress: 'bg-purple-100 text-purple-700 border-purple-200',
+      no_show: 'bg-red-100 text-red-700 border-red-200',
     };
     const labels = {
       pending: 'Ожидает',
       confirmed: 'Подтверждено',
       completed: 'Завершено',
       cancelled: 'Отменено',
+      arrived: 'Пришёл',
+      in_progress: 'На приёме',
+      no_show: 'Не пришёл',
     };
     const icons = {
       pending: clockIcon,
       confirmed: checkIcon,
       completed: checkIcon,
       cancelled: xIcon,
+      arrived: checkIcon,
+      in_progress: clockIcon,
+      no_show: xIcon,
     };
     return (
       <span
@@ -362,6 +372,14 @@ export const PatientHistoryPage: React.FC = () => {
               <p className="text-2xl font-bold text-gray-600">{stats.cancelled}</p>
             </div>
           </Card>
+          {stats.noShow > 0 && (
+            <Card padding="md" className="bg-gradient-to-br from-red-50 to-red-100 border-red-200">
+              <div className="text-center">
+                <p className="text-xs text-red-700 mb-1 font-medium">Неявки</p>
+                <p className="text-2xl font-bold text-red-600">{stats.noShow}</p>
+              </div>
+            </Card>
+          )}
           {stats.totalAmount > 0 && (
             <Card padding="md" className="bg-gradient-to-br from-purple-50 to-purple-100 border-purple-200">
               <div className="text-center">
@@ -416,8 +434,11 @@ export const PatientHistoryPage: React.FC = () => {
                 <option value="">Все статусы</option>
                 <option value="pending">Ожидает подтверждения</option>
                 <option value="confirmed">Подтверждено</option>
+                <option value="arrived">Пришёл</option>
+                <option value="in_progress">На приёме</option>
                 <option value="completed">Завершено</option>
                 <option value="cancelled">Отменено</option>
+                <option value="no_show">Не пришёл</option>
               </select>
             </div>
 
@@ -565,10 +586,10 @@ export const PatientHistoryPage: React.FC = () => {
                     >
                       <td className="px-4 py-3">
                         <div className="text-sm font-medium text-text-50">
-                          {formatAppointmentDate(appointment.appointmentDate, 'short')}
+                          {formatAppointmentDate(appointment.appointmentDate, 'short', appointment.clinic?.settings?.timezone)}
                         </div>
                         <div className="text-xs text-text-10">
-                          {formatAppointmentTime(appointment.appointmentDate)}
+                          {formatAppointmentTime(appointment.appointmentDate, 'short', appointment.clinic?.settings?.timezone)}
                         </div>
                       </td>
                       <td className="px-4 py-3">
@@ -606,6 +627,11 @@ export const PatientHistoryPage: React.FC = () => {
                         {appointment.notes && (
                           <div className="text-xs text-text-10 mt-1 line-clamp-1">{appointment.notes}</div>
                         )}
+                        {appointment.clinicalNote?.recommendations && (
+                          <div className="text-xs text-main-100 mt-1 line-clamp-2 whitespace-pre-wrap">
+                            Рекомендации: {appointment.clinicalNote.recommendations}
+                          </div>
+                        )}
                       </td>
                       <td className="px-4 py-3">
                         {appointment.amount ? (
@@ -658,11 +684,11 @@ export const PatientHistoryPage: React.FC = () => {
                   <div className="flex items-start justify-between">
                     <div>
                       <div className="text-sm font-bold text-text-50 mb-1">
-                        {formatAppointmentDate(appointment.appointmentDate, 'long')}
+                        {formatAppointmentDate(appointment.appointmentDate, 'long', appointment.clinic?.settings?.timezone)}
                       </div>
                       <div className="text-xs text-text-10 flex items-center gap-1">
                         <Clock className="w-3 h-3" />
-                        {formatAppointmentTime(appointment.appointmentDate)}
+                        {formatAppointmentTime(appointment.appointmentDate, 'short', appointment.clinic?.settings?.timezone)}
                       </div>
                       {isPendingPast && (
                         <div className="text-xs text-yellow-600 mt-1 flex items-center gap-1">
@@ -719,6 +745,14 @@ export const PatientHistoryPage: React.FC = () => {
                     </div>
                   )}
 
+                  {/* Рекомендации врача (из подписанного протокола приёма) */}
+                  {appointment.clinicalNote?.recommendations && (
+                    <div className="p-3 bg-main-10 rounded-sm">
+                      <p className="text-xs font-medium text-main-100 mb-1">Рекомендации врача:</p>
+                      <p className="text-sm text-text-50 whitespace-pre-wrap">{appointment.clinicalNote.recommendations}</p>
+                    </div>
+                  )}
+
                   {/* Сумма */}
                   {appointment.amount && (
                     <div className="pt-2 border-t border-stroke">
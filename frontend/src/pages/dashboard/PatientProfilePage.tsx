@@ -5,6 +5,9 @@ import { Card, BackButton, Spinner } from '../../components/common';
 import { Patient, Appointment, AppointmentStatus } from '../../types/api.types';
 import { formatAppointmentDateTime } from '../../utils/dateFormat';
 import { usePatient } from '../../hooks/usePatients';
+import { Odontogram } from '../../components/dashboard/Odontogram';
+import { TreatmentPlansSection } from '../../components/dashboard/TreatmentPlansSection';
+import { PatientDocumentsSection } from '../../components/dashboard/PatientDocumentsSection';
 
 /**
  * PatientProfilePage
@@ -21,12 +24,18 @@ export const PatientProfilePage: React.FC = () => {
       confirmed: 'bg-main-10 text-main-100 border-main-100/20',
       completed: 'bg-secondary-10 text-secondary-100 border-secondary-100/20',
       cancelled: 'bg-bg-primary text-text-10 border-stroke',
+      arrived: 'bg-sky-50 text-sky-700 border-sky-200',
+      in_progress: 'bg-purple-50 text-purple-700 border-purple-200',
+      no_show: 'bg-red-50 text-red-700 border-red-200',
     };
     const labels = {
       pending: 'Ожидает',
       confirmed: 'Подтвержден',
       completed: 'Завершен',
       cancelled: 'Отменен',
+      arrived: 'Пришёл',
+      in_progress: 'На приёме',
+      no_show: 'Не пришёл',
     };
     return (
       <span className={`px-2 py-1 border rounded-sm text-xs font-normal ${styles[status] || styles.pending}`}>
@@ -118,10 +127,33 @@ export const PatientProfilePage: React.FC = () => {
               </div>
             </Card>
 
+            {/* Зубная карта */}
+            <Card padding="lg">
+              <h3 className="text-lg font-semibold text-text-100 mb-6">Зубная карта</h3>
+              <Odontogram patientId={patient.id} appointments={patient.appointments || []} />
+            </Card>
+
+            {/* Планы лечения */}
+            <Card padding="lg">
+              <h3 className="text-lg font-semibold text-text-100 mb-6">Планы лечения</h3>
+              <TreatmentPlansSection patientId={patient.id} appointments={patient.appointments || []} />
+            </Card>
+
+            {/* Снимки и документы */}
+            <Card padding="lg">
+              <h3 className="text-lg font-semibold text-text-100 mb-6">Снимки и документы</h3>
+              <PatientDocumentsSection patientId={patient.id} appointments={patient.appointments || []} />
+            </Card>
+
             {/* История визитов */}
             <Card padding="lg">
               <h3 className="text-lg font-semibold text-text-100 mb-6">
                 История визитов ({patient.appointments?.length || 0})
+                {!!patient.noShowCount && (
+                  <span className="ml-2 px-2 py-0.5 text-xs font-normal bg-red-50 text-red-700 border border-red-200 rounded-sm">
+                    Неявок: {patient.noShowCount}
+                  </span>
+                )}
               </h3>
 
               {!patient.appointments || patient.appointments.length === 0 ? (
@@ -4,6 +4,9 @@ import { NewDashboardLayout } from '../../components/dashboard/NewDashboardLayou
 import { ProfilePictureUpload } from '../../components/patient/ProfilePictureUpload';
 import { ProfileInfoSection } from '../../components/patient/ProfileInfoSection';
 import { PasswordChangeSection } from '../../components/patient/PasswordChangeSection';
+import { PatientRecordsSection } from '../../components/patient/PatientRecordsSection';
+import { MedicalHistorySection } from '../../components/patient/MedicalHistorySection';
+import { CalendarFeedSection } from '../../components/dashboard/CalendarFeedSection';
 import { useMyProfile, useUpdateMyProfile, useUpdateMyPassword, useDeleteMyAccount } from '../../hooks/useUsers';
 import { toast } from 'react-hot-toast';
 import { Spinner, DeleteAccountSection } from '../../components/common';
@@ -103,6 +106,15 @@ export const PatientSettingsPage: React.FC = () => {
           isLoading={updateProfileMutation.isPending}
         />
 
+        {/* Карточки в клиниках */}
+        <PatientRecordsSection defaultContact={user.phone || user.email} />
+
+        {/* Медицинская анкета */}
+        <MedicalHistorySection />
+
+        {/* Подписка на календарь */}
+        <CalendarFeedSection audience="patient" />
+
         {/* Изменение пароля */}
         <PasswordChangeSection
           onUpdate={handleUpdatePassword}
@@ -2,13 +2,17 @@ import React, { useState, useEffect, useMemo } from 'react';
 import { useNavigate } from 'react-router-dom';
 import { toast } from 'react-hot-toast';
 import { NewDashboardLayout } from '../../components/dashboard/NewDashboardLayout';
+import { PatientDuplicatesModal } from '../../components/dashboard/PatientDuplicatesModal';
+import { PatientImportModal } from '../../components/dashboard/PatientImportModal';
+import { PatientExportModal } from '../../components/dashboard/PatientExportModal';
+import { EditPatientModal } from '../../components/dashboard/EditPatientModal';
 import { Button, Input, Card, Modal, Spinner } from '../../components/common';
-import { usePatients, useCreatePatient, useUpdatePatient, useDeletePatient, useDoctorPatients } from '../../hooks/usePatients';
+import { usePatients, useCreatePatient, useDeletePatient, useDoctorPatients } from '../../hooks/usePatients';
 import { usePatientVisits } from '../../hooks/usePatientVisits';
 import { useDoctors } from '../../hooks/useUsers';
 import { useTreatmentCategories } from '../../hooks/useTreatmentCategories';
 import { Patient, AppointmentStatus, Gender, DoctorPatient, UserRole } from '../../types/api.types';
-import type { PatientVisit } from '../../types/api.types';
+import type { PatientVisit, PatientExportParams } from '../../types/api.types';
 import { formatAppointmentDateTime } from '../../utils/dateFormat';
 import { useAuthStore } from '../../store/useAuthStore';
 import { getCategoryColor, DEFAULT_CATEGORY_COLOR } from '../../utils/appointmentColors';
@@ -63,7 +67,10 @@ export const PatientsPage: React.FC = () => {
   const [statusFilter, setStatusFilter] = useState<string>('completed');
   const navigate = useNavigate();
   const [isModalOpen, setIsModalOpen] = useState(false);
-  const [editingPatient, setEditingPatient] = useState<Patient | null>(null);
+  const [editingPatient, setEditingPatient] = useState<Patient | null>(null); // Редактирование вместе с анамнезом
+  const [isDuplicatesOpen, setIsDuplicatesOpen] = useState(false);
+  const [isImportOpen, setIsImportOpen] = useState(false);
+  const [isExportOpen, setIsExportOpen] = useState(false);
 
   // Для врачей: загружаем агрегированные данные пациентов
   const { data: doctorPatientsData, isLoading: isLoadingDoctorPatients, error: doctorPatientsError } = useDoctorPatients(
@@ -103,7 +110,6 @@ export const PatientsPage: React.FC = () => {
   const categories = categoriesData || [];
 
   const createMutation = useCreatePatient();
-  const updateMutation = useUpdatePatient();
   const deleteMutation = useDeletePatient();
 
   // Form state
@@ -116,28 +122,15 @@ export const PatientsPage: React.FC = () => {
     notes: '',
   });
 
-  const handleOpenModal = (patient?: Patient) => {
-    if (patient) {
-      setEditingPatient(patient);
-      setFormData({
-        name: patient.name,
-        phone: patient.phone,
-        email: patient.email || '',
-        dateOfBirth: patient.dateOfBirth ? new Date(patient.dateOfBirth).toISOString().split('T')[0] : '',
-        gender: patient.gender || '',
-        notes: patient.notes || '',
-      });
-    } else {
-      setEditingPatient(null);
-      setFormData({
-        name: '',
-        phone: '',
-        email: '',
-        dateOfBirth: '',
-        gender: '',
-        notes: '',
-      });
-    }
+  const handleOpenModal = () => {
+    setFormData({
+      name: '',
+      phone: '',
+      email: '',
+      dateOfBirth: '',
+      gender: '',
+      notes: '',
+    });
     setIsModalOpen(true);
   };
 
@@ -154,18 +147,10 @@ export const PatientsPage: React.FC = () => {
         notes: formData.notes || undefined,
       };
 
-      if (editingPatient) {
-        await updateMutation.mutateAsync({
-          id: editingPatient.id,
-          data: patientData,
-        });
-        toast.success('Пациент успешно обновлен');
-      } else {
-        await createMutation.mutateAsync(patientData);
-        toast.success('Пациент успешно создан');
-        // Переключаемся на cards view, чтобы увидеть нового пациента
-        setViewMode('cards');
-      }
+      await createMutation.mutateAsync(patientData);
+      toast.success('Пациент успешно создан');
+      // Переключаемся на cards view, чтобы увидеть нового пациента
+      setViewMode('cards');
       setIsModalOpen(false);
     } catch (err: any) {
       console.error('Error saving patient:', err);
@@ -191,12 +176,18 @@ export const PatientsPage: React.FC = () => {
       confirmed: 'bg-main-10 text-main-100 border-main-100/20',
       completed: 'bg-secondary-10 text-secondary-100 border-secondary-100/20',
       cancelled: 'bg-bg-primary text-text-10 border-stroke',
+      arrived: 'bg-sky-50 text-sky-700 border-sky-200',
+      in_progress: 'bg-purple-50 text-purple-700 border-purple-200',
+      no_show: 'bg-red-50 text-red-700 border-red-200',
     };
     const labels = {
       pending: 'Ожидает',
       confirmed: 'Подтвержден',
       completed: 'Завершен',
       cancelled: 'Отменен',
+      arrived: 'Пришёл',
+      in_progress: 'На приёме',
+      no_show: 'Не пришёл',
     };
     return (
       <span className={`px-2 py-1 border rounded-sm text-xs font-normal ${styles[status] || styles.pending}`}>
@@ -305,6 +296,12 @@ export const PatientsPage: React.FC = () => {
     return patients;
   }, [uniqueVisits]);
 
+  // Экспорт с фильтрами текущего вида: в таблице визитов — поиск, врач и статус, в карточках — только поиск
+  const exportFilters: PatientExportParams =
+    viewMode === 'table'
+      ? { search: search || undefined, doctorId: doctorFilter || undefined, status: statusFilter }
+      : { search: search || undefined, status: '' };
+
   return (
     <NewDashboardLayout>
       <div className="space-y-6">
@@ -353,6 +350,21 @@ export const PatientsPage: React.FC = () => {
                 </button>
               </div>
             )}
+            {!isDoctor && (
+              <Button onClick={() => setIsImportOpen(true)} variant="secondary">
+                Импорт
+              </Button>
+            )}
+            {!isDoctor && (
+              <Button onClick={() => setIsExportOpen(true)} variant="secondary">
+                Экспорт
+              </Button>
+            )}
+            {!isDoctor && (
+              <Button onClick={() => setIsDuplicatesOpen(true)} variant="secondary">
+                Дубликаты
+              </Button>
+            )}
             {!isDoctor && (
               <Button onClick={() => handleOpenModal()} variant="primary">
                 <span className="flex items-center gap-2">
@@ -406,8 +418,11 @@ export const PatientsPage: React.FC = () => {
                   <option value="">Все статусы</option>
                   <option value="pending">Ожидает</option>
                   <option value="confirmed">Подтвержден</option>
+                  <option value="arrived">Пришёл</option>
+                  <option value="in_progress">На приёме</option>
                   <option value="completed">Завершен</option>
                   <option value="cancelled">Отменен</option>
+                  <option value="no_show">Не пришёл</option>
                 </select>
               </div>
             </Card>
@@ -665,6 +680,7 @@ export const PatientsPage: React.FC = () => {
                         {
                           id: lastVisit.appointmentId,
                           reason: lastVisit.reason,
+                          treatmentCategoryId: lastVisit.treatmentCategoryId,
                           status: lastVisit.status,
                         } as any,
                         categories
@@ -712,7 +728,7 @@ export const PatientsPage: React.FC = () => {
                         )}
 
                         <div className="flex gap-2 pt-2 border-t border-stroke" onClick={(e) => e.stopPropagation()}>
-                          <Button size="sm" variant="secondary" onClick={() => handleOpenModal(patient)}>
+                          <Button size="sm" variant="secondary" onClick={() => setEditingPatient(patient)}>
                             Редактировать
                           </Button>
                           <Button
@@ -732,11 +748,11 @@ export const PatientsPage: React.FC = () => {
           </>
         )}
 
-        {/* Create/Edit Modal */}
+        {/* Create Modal */}
         <Modal
           isOpen={isModalOpen}
           onClose={() => setIsModalOpen(false)}
-          title={editingPatient ? 'Редактировать пациента' : 'Добавить пациента'}
+          title="Добавить пациента"
           size="lg"
         >
           <form onSubmit={handleSubmit} className="space-y-4">
@@ -796,7 +812,7 @@ export const PatientsPage: React.FC = () => {
                 onChange={e => setFormData({ ...formData, notes: e.target.value })}
                 rows={3}
                 className="block w-full px-4 py-2.5 border border-stroke rounded-sm bg-bg-white text-sm focus:outline-none focus:border-main-100 transition-smooth resize-none"
-                placeholder="Аллергии, особые указания..."
+                placeholder="Особые указания..."
               />
             </div>
 
@@ -807,14 +823,35 @@ export const PatientsPage: React.FC = () => {
               <Button
                 type="submit"
                 variant="primary"
-                isLoading={createMutation.isPending || updateMutation.isPending}
+                isLoading={createMutation.isPending}
               >
-                {editingPatient ? 'Сохранить' : 'Создать'}
+                Создать
               </Button>
             </div>
           </form>
         </Modal>
 
+        <EditPatientModal
+          isOpen={!!editingPatient}
+          onClose={() => setEditingPatient(null)}
+          patient={editingPatient}
+          onUpdate={() => toast.success('Пациент успешно обновлен')}
+        />
+
+        {!isDoctor && (
+          <>
+            <PatientImportModal isOpen={isImportOpen} onClose={() => setIsImportOpen(false)} />
+            <PatientExportModal
+              isOpen={isExportOpen}
+              onClose={() => setIsExportOpen(false)}
+              filters={exportFilters}
+              doctorName={doctors.find(doctor => doctor.id === exportFilters.doctorId)?.name}
+            />
+          </>
+        )}
+        {!isDoctor && (
+          <PatientDuplicatesModal isOpen={isDuplicatesOpen} onClose={() => setIsDuplicatesOpen(false)} />
+        )}
       </div>
     </NewDashboardLayout>
   );
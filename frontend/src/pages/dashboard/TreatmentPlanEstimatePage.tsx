@@ -0,0 +1,186 @@
+import React from 'react';
+import { useParams } from 'react-router-dom';
+import { Printer } from 'lucide-react';
+import { BackButton, Button, Spinner } from '../../components/common';
+import { useAuthStore } from '../../store/useAuthStore';
+import { useTreatmentPlan, useAcceptTreatmentPlan } from '../../hooks/useTreatmentPlans';
+import { formatAppointmentDate } from '../../utils/dateFormat';
+import { PLAN_STATUS_LABELS, STAGE_STATUS_LABELS, formatPlanAmount } from '../../utils/treatmentPlan';
+
+/**
+ * TreatmentPlanEstimatePage
+ * Смета плана лечения для просмотра и печати (без меню дашборда, чтобы печаталась только смета)
+ * Пациент может принять смету прямо отсюда
+ */
+export const TreatmentPlanEstimatePage: React.FC = () => {
+  const { planId } = useParams<{ planId: string }>();
+  const user = useAuthStore(state => state.user);
+  const isPatient = user?.role === 'PATIENT';
+
+  const { data: plan, isLoading, error } = useTreatmentPlan(planId, isPatient);
+  const acceptPlan = useAcceptTreatmentPlan();
+
+  if (isLoading) {
+    return (
+      <div className="flex justify-center items-center min-h-screen">
+        <Spinner size="lg" />
+      </div>
+    );
+  }
+
+  if (error || !plan) {
+    return (
+      <div className="max-w-3xl mx-auto p-6 space-y-4">
+        <BackButton fallback={isPatient ? '/dashboard/patient' : '/dashboard/patients'} showText />
+        <p className="text-center py-12 text-text-10 text-sm">Смета не найдена</p>
+      </div>
+    );
+  }
+
+  const currency = plan.clinic?.settings?.currency;
+  const timeZone = plan.clinic?.settings?.timezone;
+  const activeStages = plan.stages.filter(stage => stage.status !== 'cancelled');
+  const status = PLAN_STATUS_LABELS[plan.status];
+
+  return (
+    <div className="min-h-screen bg-bg-primary print:bg-white">
+      {/* Панель действий (не печатается) */}
+      <div className="max-w-3xl mx-auto px-6 pt-6 flex flex-wrap items-center justify-between gap-3 print:hidden">
+        <BackButton
+          fallback={isPatient ? '/dashboard/patient' : `/dashboard/patients/${plan.patientId}`}
+          showText
+        />
+        <div className="flex items-center gap-2">
+          {isPatient && plan.status === 'presented' && (
+            <Button variant="success" onClick={() => acceptPlan.mutate(plan.id)} isLoading={acceptPlan.isPending}>
+              Принять план лечения
+            </Button>
+          )}
+          <Button variant="secondary" onClick={() => window.print()}>
+            <Printer className="w-4 h-4 mr-1 inline" />
+            Печать
+          </Button>
+        </div>
+      </div>
+
+      <div className="max-w-3xl mx-auto p-6 print:p-0 print:max-w-none">
+        <div className="bg-bg-white border border-stroke rounded-lg p-8 space-y-6 print:border-0 print:rounded-none print:p-0">
+          {/* Клиника */}
+          <div className="flex items-start justify-between gap-6 border-b border-stroke pb-4">
+            <div>
+              <h1 className="text-xl font-semibold text-text-100">{plan.clinic?.name}</h1>
+              <p className="text-xs text-text-50 mt-1">
+                {[plan.clinic?.city, plan.clinic?.address].filter(Boolean).join(', ')}
+              </p>
+              <p className="text-xs text-text-50">
+                {[plan.clinic?.phone, plan.clinic?.email].filter(Boolean).join(' · ')}
+              </p>
+            </div>
+            {plan.clinic?.logo && <img src={plan.clinic.logo} alt={plan.clinic.name} className="h-14 object-contain" />}
+          </div>
+
+          {/* Заголовок сметы */}
+          <div>
+            <div className="flex items-center gap-3">
+              <h2 className="text-lg font-semibold text-text-100">Смета плана лечения: {plan.title}</h2>
+              <span className={`px-2 py-1 border rounded-sm text-xs font-normal print:hidden ${status.className}`}>
+                {status.label}
+              </span>
+            </div>
+            <div className="grid grid-cols-2 gap-2 mt-3 text-sm text-text-50">
+              <p>
+                <span className="font-medium">Пациент:</span> {plan.patient?.name}
+              </p>
+              {plan.doctor && (
+                <p>
+                  <span className="font-medium">Врач:</span> {plan.doctor.name}
+                  {plan.doctor.specialization && ` (${plan.doctor.specialization})`}
+                </p>
+              )}
+              <p>
+                <span className="font-medium">Дата:</span>{' '}
+                {formatAppointmentDate(plan.presentedAt || plan.createdAt, 'long', timeZone)}
+              </p>
+              {plan.acceptedAt && (
+                <p>
+                  <span className="font-medium">Принят пациентом:</span>{' '}
+                  {formatAppointmentDate(plan.acceptedAt, 'long', timeZone)}
+                </p>
+              )}
+            </div>
+          </div>
+
+          {/* Этапы */}
+          <table className="w-full text-sm">
+            <thead>
+              <tr className="border-b border-stroke text-left text-xs text-text-10">
+                <th className="py-2 pr-3 font-medium w-8">№</th>
+                <th className="py-2 pr-3 font-medium">Этап</th>
+                <th className="py-2 pr-3 font-medium w-16">Зуб</th>
+                <th className="py-2 pr-3 font-medium w-28 print:hidden">Статус</th>
+                <th className="py-2 font-medium w-32 text-right">Стоимость</th>
+              </tr>
+            </thead>
+            <tbody>
+              {activeStages.map((stage, index) => (
+                <tr key={stage.id} className="border-b border-stroke align-top">
+                  <td className="py-2 pr-3 text-text-50">{index + 1}</td>
+                  <td className="py-2 pr-3">
+                    <p className="text-text-100">{stage.title}</p>
+                    {stage.treatmentCategory && stage.treatmentCategory.name !== stage.title && (
+                      <p className="text-xs text-text-10">{stage.treatmentCategory.name}</p>
+                    )}
+                    {stage.description && <p className="text-xs text-text-50 mt-1">{stage.description}</p>}
+                  </td>
+                  <td className="py-2 pr-3 text-text-50">{stage.tooth || '—'}</td>
+                  <td className="py-2 pr-3 print:hidden">
+                    <span className={`px-2 py-0.5 border rounded-sm text-xs ${STAGE_STATUS_LABELS[stage.status].className}`}>
+                      {STAGE_STATUS_LABELS[stage.status].label}
+                    </span>
+                  </td>
+                  <td className="py-2 text-right text-text-100">{formatPlanAmount(stage.estimatedPrice, currency)}</td>
+                </tr>
+              ))}
+            </tbody>
+            <tfoot>
+              <tr>
+                <td colSpan={3} className="pt-4 text-right font-medium text-text-100">
+                  Итого
+                </td>
+                <td className="pt-4 print:hidden" />
+                <td className="pt-4 text-right text-lg font-semibold text-text-100">
+                  {formatPlanAmount(plan.totals.estimated, currency)}
+                </td>
+              </tr>
+              {plan.totals.done > 0 && (
+                <tr>
+                  <td colSpan={3} className="pt-1 text-right text-text-50">
+                    Выполнено / осталось
+                  </td>
+                  <td className="print:hidden" />
+                  <td className="pt-1 text-right text-text-50">
+                    {formatPlanAmount(plan.totals.done, currency)} / {formatPlanAmount(plan.totals.remaining, currency)}
+                  </td>
+                </tr>
+              )}
+            </tfoot>
+          </table>
+
+          {plan.notes && (
+            <div className="text-sm text-text-50 whitespace-pre-wrap border-t border-stroke pt-4">{plan.notes}</div>
+          )}
+
+          <p className="text-xs text-text-10">
+            Стоимость ориентировочная и может измениться, если в ходе лечения потребуются дополнительные процедуры.
+          </p>
+
+          {/* Подписи (только при печати) */}
+          <div className="hidden print:grid grid-cols-2 gap-12 pt-12 text-xs text-text-50">
+            <div className="border-t border-text-50 pt-2">Врач</div>
+            <div className="border-t border-text-50 pt-2">С планом и сметой ознакомлен(а), пациент</div>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
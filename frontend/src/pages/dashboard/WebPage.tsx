@@ -6,6 +6,7 @@ import { HeroImageUpload, HeroImageUploadRef } from '../../components/dashboard/
 import { WorkingHoursEditor, WorkingHoursEditorRef } from '../../components/dashboard/WorkingHoursEditor';
 import { CertificatesSection } from '../../components/dashboard/CertificatesSection';
 import { TreatmentCategoriesSection } from '../../components/dashboard/TreatmentCategoriesSection';
+import { ResourcesSection } from '../../components/dashboard/ResourcesSection';
 import { Card } from '../../components/common/Card';
 import { Button } from '../../components/common/Button';
 import { useClinic, useUpdateClinic, useUploadLogo, useUploadHeroImage } from '../../hooks/useClinic';
@@ -276,6 +277,9 @@ export const WebPage: React.FC = () => {
         {/* Категории лечения */}
         <TreatmentCategoriesSection />
 
+        {/* Кабинеты, кресла и оборудование */}
+        <ResourcesSection />
+
         {/* Сертификаты */}
         <CertificatesSection />
       </div>
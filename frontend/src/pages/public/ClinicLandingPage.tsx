@@ -9,6 +9,8 @@ import { ClinicHero } from '../../components/public/ClinicHero';
 import { ClinicAbout } from '../../components/public/ClinicAbout';
 import { ClinicDoctors } from '../../components/public/ClinicDoctors';
 import { ClinicContacts } from '../../components/public/ClinicContacts';
+import { AvailableSlot } from '../../types/api.types';
+import { toDateKey } from '../../utils/dateFormat';
 
 // Import icons
 import lightbulbIcon from '../../assets/icons/lightbulb.svg';
@@ -45,8 +47,8 @@ export const ClinicLandingPage: React.FC = () => {
   // Calendar state
   const [selectedDate, setSelectedDate] = useState<Date | null>(null);
   const [selectedTime, setSelectedTime] = useState<string>('');
-  const [busySlots, setBusySlots] = useState<Array<{ start: string; end: string; appointmentId: string }>>([]);
-  const [isLoadingBusySlots, setIsLoadingBusySlots] = useState(false);
+  const [availableSlots, setAvailableSlots] = useState<AvailableSlot[]>([]);
+  const [isLoadingSlots, setIsLoadingSlots] = useState(false);
 
   // Автозаполнение формы для авторизованных пользователей
   useEffect(() => {
@@ -73,31 +75,31 @@ export const ClinicLandingPage: React.FC = () => {
     setSuccessMessage('');
     setSelectedDate(null);
     setSelectedTime('');
-    setBusySlots([]);
+    setAvailableSlots([]);
   };
 
-  // Загрузка занятых слотов при изменении врача или даты
+  // Загрузка свободных слотов при изменении врача или даты
   useEffect(() => {
-    const loadBusySlots = async () => {
+    const loadAvailableSlots = async () => {
       if (!slug || !selectedDoctor || !selectedDate) {
-        setBusySlots([]);
+        setAvailableSlots([]);
         return;
       }
 
       try {
-        setIsLoadingBusySlots(true);
-        const dateStr = selectedDate.toISOString().split('T')[0];
-        const slots = await publicService.getBusySlots(slug, selectedDoctor, dateStr);
-        setBusySlots(slots);
+        setIsLoadingSlots(true);
+        const dateStr = toDateKey(selectedDate);
+        const { slots } = await publicService.getAvailableSlots(slug, selectedDoctor, dateStr);
+        setAvailableSlots(slots);
       } catch (err) {
-        console.error('Ошибка загрузки занятых слотов:', err);
-        setBusySlots([]);
+        console.error('Ошибка загрузки свободных слотов:', err);
+        setAvailableSlots([]);
       } finally {
-        setIsLoadingBusySlots(false);
+        setIsLoadingSlots(false);
       }
     };
 
-    loadBusySlots();
+    loadAvailableSlots();
   }, [slug, selectedDoctor, selectedDate]);
   
   const handleLogoutAndReset = () => {
@@ -136,9 +138,13 @@ export const ClinicLandingPage: React.FC = () => {
     }
 
     try {
-      const [hours, minutes] = selectedTime.split(':').map(Number);
-      const appointmentDateTime = new Date(selectedDate);
-      appointmentDateTime.setHours(hours, minutes, 0, 0);
+      // Момент начала приёма берём из слота, рассчитанного сервером в часовом поясе клиники
+      const selectedSlot = availableSlots.find(slot => slot.time === selectedTime && slot.available);
+      if (!selectedSlot) {
+        alert('Выбранное время больше недоступно, выберите другое');
+        return;
+      }
+      const appointmentDateTime = new Date(selectedSlot.start);
       
       const appointmentDateTimeUTC = appointmentDateTime.toISOString();
       
@@ -431,13 +437,12 @@ export const ClinicLandingPage: React.FC = () => {
                 selectedTime={selectedTime}
                 onTimeSelect={setSelectedTime}
                 minDate={new Date()}
-                busySlots={busySlots}
-                appointmentDuration={30}
+                timeSlots={availableSlots}
               />
-              {isLoadingBusySlots && (
+              {isLoadingSlots && (
                 <p className="mt-2 text-xs text-text-10">Загрузка доступных слотов...</p>
               )}
-              {(!selectedDate || !selectedTime) && !isLoadingBusySlots && (
+              {(!selectedDate || !selectedTime) && !isLoadingSlots && (
                 <p className="mt-2 text-xs text-text-10">
                   {!selectedDate ? 'Выберите дату' : 'Выберите время'}
                 </p>
@@ -5,6 +5,8 @@ import { CertificateGallery } from '../../components/public/CertificateGallery';
 import { useClinic, useClinicDoctors, useCreatePublicAppointment } from '../../hooks/usePublic';
 import { useAuthStore } from '../../store/useAuthStore';
 import { publicService } from '../../services/public.service';
+import { AvailableSlot } from '../../types/api.types';
+import { toDateKey } from '../../utils/dateFormat';
 
 // Import icons
 import doctorIcon from '../../assets/icons/doctor.svg';
@@ -42,8 +44,8 @@ export const ClinicPage: React.FC = () => {
   // Calendar state
   const [selectedDate, setSelectedDate] = useState<Date | null>(null);
   const [selectedTime, setSelectedTime] = useState<string>('');
-  const [busySlots, setBusySlots] = useState<Array<{ start: string; end: string; appointmentId: string }>>([]);
-  const [isLoadingBusySlots, setIsLoadingBusySlots] = useState(false);
+  const [availableSlots, setAvailableSlots] = useState<AvailableSlot[]>([]);
+  const [isLoadingSlots, setIsLoadingSlots] = useState(false);
 
   // Автозаполнение формы для авторизованных пользователей
   useEffect(() => {
@@ -72,32 +74,32 @@ export const ClinicPage: React.FC = () => {
     // Сброс календаря при открытии модального окна
     setSelectedDate(null);
     setSelectedTime('');
-    setBusySlots([]);
+    setAvailableSlots([]);
   };
 
-  // Загрузка занятых слотов при изменении врача или даты
+  // Загрузка свободных слотов при изменении врача или даты
   useEffect(() => {
-    const loadBusySlots = async () => {
+    const loadAvailableSlots = async () => {
       if (!slug || !selectedDoctor || !selectedDate) {
-        setBusySlots([]);
+        setAvailableSlots([]);
         return;
       }
 
       try {
-        setIsLoadingBusySlots(true);
-        const dateStr = selectedDate.toISOString().split('T')[0];
-        const slots = await publicService.getBusySlots(slug, selectedDoctor, dateStr);
-        setBusySlots(slots);
-        console.log('✅ [CLINIC PAGE] Занятые слоты загружены:', slots);
+        setIsLoadingSlots(true);
+        const dateStr = toDateKey(selectedDate);
+        const { slots } = await publicService.getAvailableSlots(slug, selectedDoctor, dateStr);
+        setAvailableSlots(slots);
+        console.log('✅ [CLINIC PAGE] Свободные слоты загружены:', slots);
       } catch (err) {
-        console.error('🔴 [CLINIC PAGE] Ошибка загрузки занятых слотов:', err);
-        setBusySlots([]);
+        console.error('🔴 [CLINIC PAGE] Ошибка загрузки свободных слотов:', err);
+        setAvailableSlots([]);
       } finally {
-        setIsLoadingBusySlots(false);
+        setIsLoadingSlots(false);
       }
     };
 
-    loadBusySlots();
+    loadAvailableSlots();
   }, [slug, selectedDoctor, selectedDate]);
   
   const handleLogoutAndReset = () => {
@@ -140,10 +142,13 @@ export const ClinicPage: React.FC = () => {
     }
 
     try {
-      // Создаем дату и время из выбранных значений
-      const [hours, minutes] = selectedTime.split(':').map(Number);
-      const appointmentDateTime = new Date(selectedDate);
-      appointmentDateTime.setHours(hours, minutes, 0, 0);
+      // Момент начала приёма берём из слота, рассчитанного сервером в часовом поясе клиники
+      const selectedSlot = availableSlots.find(slot => slot.time === selectedTime && slot.available);
+      if (!selectedSlot) {
+        alert('Выбранное время больше недоступно, выберите другое');
+        return;
+      }
+      const appointmentDateTime = new Date(selectedSlot.start);
       
       // Конвертируем в UTC для сохранения в БД
       const appointmentDateTimeUTC = appointmentDateTime.toISOString();
@@ -546,18 +551,17 @@ export const ClinicPage: React.FC = () => {
                 selectedTime={selectedTime}
                 onTimeSelect={setSelectedTime}
                 minDate={new Date()}
-                busySlots={busySlots}
-                appointmentDuration={30}
+                timeSlots={availableSlots}
               />
-              {isLoadingBusySlots && (
+              {isLoadingSlots && (
                 <p className="mt-2 text-xs text-text-10">Загрузка доступных слотов...</p>
               )}
-              {(!selectedDate || !selectedTime) && !isLoadingBusySlots && (
+              {(!selectedDate || !selectedTime) && !isLoadingSlots && (
                 <p className="mt-2 text-xs text-text-10">
                   {!selectedDate ? 'Выберите дату' : 'Выберите время'}
                 </p>
               )}
-              {busySlots.length > 0 && !isLoadingBusySlots && (
+              {availableSlots.length > 0 && !isLoadingSlots && (
                 <p className="mt-2 text-xs text-text-10">
                   Занятые слоты отмечены как недоступные
                 </p>
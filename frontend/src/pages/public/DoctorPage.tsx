@@ -7,6 +7,8 @@ import { useAuthStore } from '../../store/useAuthStore';
 import { useUpdateUser } from '../../hooks/useUsers';
 import { publicService } from '../../services/public.service';
 import { toast } from 'react-hot-toast';
+import { AvailableSlot } from '../../types/api.types';
+import { toDateKey } from '../../utils/dateFormat';
 
 // Import icons
 import doctorIcon from '../../assets/icons/doctor.svg';
@@ -49,8 +51,8 @@ export const DoctorPage: React.FC = () => {
   // Calendar state
   const [selectedDate, setSelectedDate] = useState<Date | null>(null);
   const [selectedTime, setSelectedTime] = useState<string>('');
-  const [busySlots, setBusySlots] = useState<Array<{ start: string; end: string; appointmentId: string }>>([]);
-  const [isLoadingBusySlots, setIsLoadingBusySlots] = useState(false);
+  const [availableSlots, setAvailableSlots] = useState<AvailableSlot[]>([]);
+  const [isLoadingSlots, setIsLoadingSlots] = useState(false);
 
   const handleAvatarUpload = async (avatar: string) => {
     if (!doctor) return;
@@ -73,7 +75,7 @@ export const DoctorPage: React.FC = () => {
     setSuccessMessage('');
     setSelectedDate(null);
     setSelectedTime('');
-    setBusySlots([]);
+    setAvailableSlots([]);
   };
 
   // Автозаполнение формы для авторизованных пользователей
@@ -95,29 +97,29 @@ export const DoctorPage: React.FC = () => {
     }
   }, [isAppointmentModalOpen, isAuthenticated, user]);
 
-  // Загрузка занятых слотов при изменении даты
+  // Загрузка свободных слотов при изменении даты
   useEffect(() => {
-    const loadBusySlots = async () => {
+    const loadAvailableSlots = async () => {
       if (!slug || !doctorId || !selectedDate) {
-        setBusySlots([]);
+        setAvailableSlots([]);
         return;
       }
 
       try {
-        setIsLoadingBusySlots(true);
-        const dateStr = selectedDate.toISOString().split('T')[0];
-        const slots = await publicService.getBusySlots(slug, doctorId, dateStr);
-        setBusySlots(slots);
-        console.log('✅ [DOCTOR PAGE] Занятые слоты загружены:', slots);
+        setIsLoadingSlots(true);
+        const dateStr = toDateKey(selectedDate);
+        const { slots } = await publicService.getAvailableSlots(slug, doctorId, dateStr);
+        setAvailableSlots(slots);
+        console.log('✅ [DOCTOR PAGE] Свободные слоты загружены:', slots);
       } catch (err) {
-        console.error('🔴 [DOCTOR PAGE] Ошибка загрузки занятых слотов:', err);
-        setBusySlots([]);
+        console.error('🔴 [DOCTOR PAGE] Ошибка загрузки свободных слотов:', err);
+        setAvailableSlots([]);
       } finally {
-        setIsLoadingBusySlots(false);
+        setIsLoadingSlots(false);
       }
     };
 
-    loadBusySlots();
+    loadAvailableSlots();
   }, [slug, doctorId, selectedDate]);
 
   const handleLogoutAndReset = () => {
@@ -156,9 +158,13 @@ export const DoctorPage: React.FC = () => {
     }
 
     try {
-      const [hours, minutes] = selectedTime.split(':').map(Number);
-      const appointmentDateTime = new Date(selectedDate);
-      appointmentDateTime.setHours(hours, minutes, 0, 0);
+      // Момент начала приёма берём из слота, рассчитанного сервером в часовом поясе клиники
+      const selectedSlot = availableSlots.find(slot => slot.time === selectedTime && slot.available);
+      if (!selectedSlot) {
+        alert('Выбранное время больше недоступно, выберите другое');
+        return;
+      }
+      const appointmentDateTime = new Date(selectedSlot.start);
       
       const appointmentDateTimeUTC = appointmentDateTime.toISOString();
       
@@ -492,13 +498,12 @@ export const DoctorPage: React.FC = () => {
                 selectedTime={selectedTime}
                 onTimeSelect={setSelectedTime}
                 minDate={new Date()}
-                busySlots={busySlots}
-                appointmentDuration={30}
+                timeSlots={availableSlots}
               />
-              {isLoadingBusySlots && (
+              {isLoadingSlots && (
                 <p className="mt-2 text-xs text-text-10">Загрузка доступных слотов...</p>
               )}
-              {(!selectedDate || !selectedTime) && !isLoadingBusySlots && (
+              {(!selectedDate || !selectedTime) && !isLoadingSlots && (
                 <p className="mt-2 text-xs text-text-10">
                   {!selectedDate ? 'Выберите дату' : 'Выберите время'}
                 </p>
@@ -1,5 +1,5 @@
 import api from './api';
-import { ApiResponse } from '../types/api.types';
+import { ApiResponse, AppointmentTreatmentCategory } from '../types/api.types';
 
 /**
  * Analytics Service
@@ -14,6 +14,8 @@ export interface AnalyticsSummary {
   totalAppointments: number;
   confirmedAppointments: number;
   cancelledAppointments: number;
+  noShowAppointments: number; // Неявки (status no_show)
+  noShowRate: number; // Процент неявок среди состоявшихся и пропущенных приёмов
   averageRevenue: number;
 }
 
@@ -33,7 +35,7 @@ export interface AnalyticsFilters {
   dateFrom?: string;
   dateTo?: string;
   week?: string;
-  category?: string;
+  treatmentCategoryId?: string;
 }
 
 export interface AnalyticsTableItem {
@@ -42,6 +44,7 @@ export interface AnalyticsTableItem {
   duration: number;
   status: string;
   reason?: string;
+  treatmentCategory?: AppointmentTreatmentCategory | null;
   amount?: number;
   doctor: {
     id: string;
@@ -1,5 +1,19 @@
 import api from './api';
-import { ApiResponse, Appointment, PaginatedResponse } from '../types/api.types';
+import {
+  ApiResponse,
+  Appointment,
+  AppointmentSeries,
+  AppointmentSeriesPreview,
+  AppointmentSeriesScope,
+  AvailableSlotsParams,
+  AvailableSlotsResponse,
+  CreateAppointmentSeriesRequest,
+  CreateAppointmentSeriesResponse,
+  DayBoard,
+  PaginatedResponse,
+  RescheduleAppointmentRequest,
+  UpdateAppointmentSeriesRequest,
+} from '../types/api.types';
 
 /**
  * Appointment Service
@@ -17,7 +31,8 @@ export const appointmentService = {
     date?: string;
     time?: string;
     week?: string;
-    category?: string;
+    treatmentCategoryId?: string;
+    resourceId?: string;
     page?: number;
     limit?: number;
   }): Promise<PaginatedResponse<Appointment>> {
@@ -45,7 +60,9 @@ export const appointmentService = {
     appointmentDate: string;
     duration?: number;
     reason?: string;
+    treatmentCategoryId?: string; // Категория лечения клиники
     registeredAt?: string; // Локальное время когда пользователь создал запись
+    resourceIds?: string[]; // Кабинеты / кресла / оборудование
   }): Promise<Appointment> {
     const { data } = await api.post<ApiResponse<Appointment>>('/appointments', appointment);
     return data.data;
@@ -59,6 +76,15 @@ export const appointmentService = {
     return data.data;
   },
 
+  /**
+   * Перенести приём и/или изменить длительность (drag-and-drop в календаре)
+   * Сервер проверяет расписание врача и пересечения с другими приёмами
+   */
+  async reschedule(id: string, update: RescheduleAppointmentRequest): Promise<Appointment> {
+    const { data } = await api.patch<ApiResponse<Appointment>>(`/appointments/${id}/reschedule`, update);
+    return data.data;
+  },
+
   /**
    * Изменить статус
    * При статусе 'completed' можно передать amount (сумму оплаты)
@@ -105,18 +131,75 @@ export const appointmentService = {
   },
 
   /**
-   * Получить занятые временные слоты врача на указанную дату
-   * @param doctorId - ID врача
-   * @param date - Дата в формате YYYY-MM-DD
-   * @returns Массив занятых интервалов [{ start: string, end: string, appointmentId: string }]
+   * Получить свободные слоты врача на дату (рассчитываются на сервере)
+   * Учитывают расписание врача с перерывами, исключения, приёмы, категорию лечения и часовой пояс клиники
+   * @param params - doctorId, date (YYYY-MM-DD), treatmentCategoryId?, duration?, excludeAppointmentId?, resourceIds?
    */
-  async getBusySlots(doctorId: string, date: string): Promise<Array<{ start: string; end: string; appointmentId: string }>> {
-    const { data } = await api.get<ApiResponse<{ busySlots: Array<{ start: string; end: string; appointmentId: string }> }>>(
-      '/appointments/busy-slots',
-      { params: { doctorId, date } }
+  async getAvailableSlots({ resourceIds, ...params }: AvailableSlotsParams): Promise<AvailableSlotsResponse> {
+    const { data } = await api.get<ApiResponse<AvailableSlotsResponse>>(
+      '/appointments/available-slots',
+      { params: { ...params, resourceIds: resourceIds?.length ? resourceIds.join(',') : undefined } }
     );
-    return data.data.busySlots;
+    return data.data;
   },
-};
 
+  /**
+   * Расписание дня по всем активным врачам: рабочие часы и приёмы
+   */
+  async getDayBoard(date: string, resourceId?: string): Promise<DayBoard> {
+    const { data } = await api.get<ApiResponse<DayBoard>>('/appointments/day-board', {
+      params: { date, resourceId: resourceId || undefined },
+    });
+    return data.data;
+  },
 
+  /**
+   * Предпросмотр серии повторяющихся приёмов: даты и конфликты по каждой из них
+   * Пациент не обязателен (например, гость ещё не создан)
+   */
+  async previewSeries(
+    series: Omit<CreateAppointmentSeriesRequest, 'patientId'> & { patientId?: string }
+  ): Promise<AppointmentSeriesPreview> {
+    const { data } = await api.post<ApiResponse<AppointmentSeriesPreview>>('/appointments/series/preview', series);
+    return data.data;
+  },
+
+  /**
+   * Создать серию повторяющихся приёмов
+   */
+  async createSeries(series: CreateAppointmentSeriesRequest): Promise<CreateAppointmentSeriesResponse> {
+    const { data } = await api.post<ApiResponse<CreateAppointmentSeriesResponse>>('/appointments/series', series);
+    return data.data;
+  },
+
+  /**
+   * Получить серию со всеми приёмами
+   */
+  async getSeries(seriesId: string): Promise<AppointmentSeries> {
+    const { data } = await api.get<ApiResponse<AppointmentSeries>>(`/appointments/series/${seriesId}`);
+    return data.data;
+  },
+
+  /**
+   * Изменить приёмы серии: этот / этот и последующие / все
+   */
+  async updateSeries(id: string, update: UpdateAppointmentSeriesRequest): Promise<Appointment[]> {
+    const { data } = await api.put<ApiResponse<Appointment[]>>(`/appointments/${id}/series`, update);
+    return data.data;
+  },
+
+  /**
+   * Отменить приёмы серии: этот / этот и последующие / все
+   */
+  async cancelSeries(
+    id: string,
+    scope: AppointmentSeriesScope,
+    cancellationReason: string
+  ): Promise<{ cancelledCount: number; appointmentIds: string[] }> {
+    const { data } = await api.post<ApiResponse<{ cancelledCount: number; appointmentIds: string[] }>>(
+      `/appointments/${id}/series/cancel`,
+      { scope, cancellationReason }
+    );
+    return data.data;
+  },
+};
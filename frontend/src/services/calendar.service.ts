@@ -0,0 +1,50 @@
+import api from './api';
+import { ApiResponse, CalendarFeed } from '../types/api.types';
+
+/**
+ * Calendar Service
+ * API calls для подписки на календарь (ICS) и выгрузки приёмов в .ics
+ */
+export const calendarService = {
+  /**
+   * Получить текущую ссылку подписки (null — подписка не создана или отозвана)
+   */
+  async getFeed(): Promise<CalendarFeed | null> {
+    const { data } = await api.get<ApiResponse<CalendarFeed | null>>('/calendar/feed');
+    return data.data;
+  },
+
+  /**
+   * Выпустить новую ссылку подписки (предыдущая перестаёт работать)
+   */
+  async createFeed(): Promise<CalendarFeed> {
+    const { data } = await api.post<ApiResponse<CalendarFeed>>('/calendar/feed');
+    return data.data;
+  },
+
+  /**
+   * Отозвать ссылку подписки
+   */
+  async revokeFeed(): Promise<void> {
+    await api.delete('/calendar/feed');
+  },
+
+  /**
+   * Скачать приём в формате .ics
+   * @param appointmentId - ID приёма
+   */
+  async downloadAppointmentIcs(appointmentId: string): Promise<void> {
+    const { data } = await api.get<Blob>(`/calendar/appointments/${appointmentId}.ics`, {
+      responseType: 'blob',
+    });
+
+    const url = URL.createObjectURL(data);
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = `appointment-${appointmentId}.ics`;
+    document.body.appendChild(link);
+    link.click();
+    link.remove();
+    URL.revokeObjectURL(url);
+  },
+};
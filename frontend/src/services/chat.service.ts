@@ -148,6 +148,13 @@ export const chatService = {
     return data.data;
   },
 
+  /**
+   * Сообщить собеседникам, что пользователь печатает
+   */
+  async sendTyping(conversationId: string, isTyping: boolean): Promise<void> {
+    await api.post(`/chat/conversations/${conversationId}/typing`, { isTyping });
+  },
+
   /**
    * Получить количество непрочитанных сообщений
    */
@@ -0,0 +1,125 @@
+import api from './api';
+import { Message } from './chat.service';
+import { useChatStore } from '../store/useChatStore';
+
+/**
+ * Chat Stream Service
+ * Push-канал чата (Server-Sent Events) вместо частого polling
+ * Одно соединение на вкладку, общее для всех подписчиков
+ */
+
+export type ChatStreamEvent =
+  | {
+      type: 'message:new';
+      conversationId: string;
+      message: Message;
+      lastMessageAt: string;
+      lastMessageText: string;
+    }
+  | {
+      type: 'message:read';
+      conversationId: string;
+      readerId: string;
+      readerRole: string;
+      readSenderTypes: Message['senderType'][];
+      readAt: string;
+      count: number;
+    }
+  | {
+      type: 'message:deleted';
+      conversationId: string;
+      messageId: string;
+      lastMessageAt: string | null;
+      lastMessageText: string | null;
+    }
+  | {
+      type: 'typing';
+      conversationId: string;
+      userId: string;
+      senderType: Message['senderType'];
+      isTyping: boolean;
+    };
+
+type ChatStreamListener = (event: ChatStreamEvent) => void;
+
+const EVENT_TYPES: ChatStreamEvent['type'][] = ['message:new', 'message:read', 'message:deleted', 'typing'];
+const RECONNECT_DELAY_MS = 5000;
+
+const listeners = new Set<ChatStreamListener>();
+let eventSource: EventSource | null = null;
+let reconnectTimer: ReturnType<typeof setTimeout> | null = null;
+
+function getStreamUrl(token: string): string {
+  return `${api.defaults.baseURL}/chat/stream?token=${encodeURIComponent(token)}`;
+}
+
+function disconnect() {
+  if (reconnectTimer) {
+    clearTimeout(reconnectTimer);
+    reconnectTimer = null;
+  }
+  if (eventSource) {
+    eventSource.close();
+    eventSource = null;
+  }
+  useChatStore.getState().setStreamConnected(false);
+}
+
+function connect() {
+  const token = localStorage.getItem('token');
+  if (!token || eventSource || typeof EventSource === 'undefined') {
+    return;
+  }
+
+  const source = new EventSource(getStreamUrl(token));
+  eventSource = source;
+
+  source.addEventListener('ready', () => {
+    useChatStore.getState().setStreamConnected(true);
+  });
+
+  EVENT_TYPES.forEach((type) => {
+    source.addEventListener(type, (e) => {
+      try {
+        const data = JSON.parse((e as MessageEvent).data);
+        listeners.forEach((listener) => listener({ type, ...data }));
+      } catch (error) {
+        console.error('🔴 [CHAT STREAM] Ошибка разбора события:', error);
+      }
+    });
+  });
+
+  source.onerror = () => {
+    // Пока соединение потеряно, хуки чата возвращаются к polling
+    useChatStore.getState().setStreamConnected(false);
+
+    // Если браузер закрыл соединение окончательно (например, 401), переподключаемся сами
+    if (source.readyState === EventSource.CLOSED) {
+      eventSource = null;
+      if (listeners.size > 0 && !reconnectTimer) {
+        reconnectTimer = setTimeout(() => {
+          reconnectTimer = null;
+          connect();
+        }, RECONNECT_DELAY_MS);
+      }
+    }
+  };
+}
+
+export const chatStreamService = {
+  /**
+   * Подписаться на события чата
+   * Соединение открывается при первой подписке и закрывается после последней отписки
+   */
+  subscribe(listener: ChatStreamListener): () => void {
+    listeners.add(listener);
+    connect();
+
+    return () => {
+      listeners.delete(listener);
+      if (listeners.size === 0) {
+        disconnect();
+      }
+    };
+  },
+};
@@ -0,0 +1,32 @@
+import api from './api';
+import { ApiResponse, AppointmentClinicalNote, ClinicalNote, ClinicalNoteSections } from '../types/api.types';
+
+/**
+ * Clinical Note Service
+ * API calls для протоколов приёмов
+ */
+export const clinicalNoteService = {
+  /**
+   * Получить протокол приёма (и шаблон категории лечения, если протокола ещё нет)
+   */
+  async get(appointmentId: string): Promise<AppointmentClinicalNote> {
+    const { data } = await api.get<ApiResponse<AppointmentClinicalNote>>(`/appointments/${appointmentId}/clinical-note`);
+    return data.data;
+  },
+
+  /**
+   * Сохранить черновик протокола
+   */
+  async save(appointmentId: string, sections: ClinicalNoteSections): Promise<ClinicalNote> {
+    const { data } = await api.put<ApiResponse<ClinicalNote>>(`/appointments/${appointmentId}/clinical-note`, sections);
+    return data.data;
+  },
+
+  /**
+   * Подписать протокол — после подписи он не редактируется
+   */
+  async sign(appointmentId: string): Promise<ClinicalNote> {
+    const { data } = await api.post<ApiResponse<ClinicalNote>>(`/appointments/${appointmentId}/clinical-note/sign`);
+    return data.data;
+  },
+};
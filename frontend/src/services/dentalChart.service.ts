@@ -0,0 +1,27 @@
+import api from './api';
+import { ApiResponse, CreateDentalChartEntryRequest, DentalChart, DentalChartEntry } from '../types/api.types';
+
+/**
+ * Dental Chart Service
+ * API calls для зубной карты (одонтограммы) пациента
+ */
+export const dentalChartService = {
+  /**
+   * Получить зубную карту пациента
+   * @param asOf - дата YYYY-MM-DD: состояние карты на конец этого дня (по умолчанию — текущее)
+   */
+  async getChart(patientId: string, asOf?: string): Promise<DentalChart> {
+    const { data } = await api.get<ApiResponse<DentalChart>>(`/patients/${patientId}/dental-chart`, {
+      params: asOf ? { asOf } : undefined,
+    });
+    return data.data;
+  },
+
+  /**
+   * Добавить состояние или процедуру (для нескольких поверхностей создаётся несколько записей)
+   */
+  async addEntry(patientId: string, entry: CreateDentalChartEntryRequest): Promise<DentalChartEntry[]> {
+    const { data } = await api.post<ApiResponse<DentalChartEntry[]>>(`/patients/${patientId}/dental-chart`, entry);
+    return data.data;
+  },
+};
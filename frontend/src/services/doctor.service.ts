@@ -1,5 +1,12 @@
 import api from './api';
-import { ApiResponse, User, DoctorSchedule, UpdateDoctorScheduleRequest } from '../types/api.types';
+import {
+  ApiResponse,
+  User,
+  DoctorSchedule,
+  DoctorScheduleException,
+  SaveScheduleExceptionRequest,
+  UpdateDoctorScheduleRequest,
+} from '../types/api.types';
 
 /**
  * Doctor Service
@@ -45,5 +52,28 @@ export const doctorService = {
     const { data } = await api.put<ApiResponse<DoctorSchedule[]>>('/doctor/schedule', { schedule });
     return data.data;
   },
+
+  /**
+   * Получить исключения из расписания текущего врача
+   */
+  async getScheduleExceptions(): Promise<DoctorScheduleException[]> {
+    const { data } = await api.get<ApiResponse<DoctorScheduleException[]>>('/doctor/schedule/exceptions');
+    return data.data;
+  },
+
+  /**
+   * Создать или обновить исключение из расписания текущего врача
+   */
+  async saveScheduleException(exception: SaveScheduleExceptionRequest): Promise<DoctorScheduleException> {
+    const { data } = await api.put<ApiResponse<DoctorScheduleException>>('/doctor/schedule/exceptions', exception);
+    return data.data;
+  },
+
+  /**
+   * Удалить исключение из расписания текущего врача
+   */
+  async deleteScheduleException(exceptionId: string): Promise<void> {
+    await api.delete(`/doctor/schedule/exceptions/${exceptionId}`);
+  },
 };
 
@@ -0,0 +1,48 @@
+import api from './api';
+import {
+  ApiResponse,
+  MyMedicalHistoryResponse,
+  PatientMedicalHistory,
+  UpdateMedicalHistoryRequest,
+} from '../types/api.types';
+
+/**
+ * Medical History Service
+ * API calls для анамнеза пациента (клиника — по ID карточки, пациент — свой)
+ */
+export const medicalHistoryService = {
+  /**
+   * Анамнез пациента клиники
+   */
+  async getPatientHistory(patientId: string): Promise<PatientMedicalHistory> {
+    const { data } = await api.get<ApiResponse<PatientMedicalHistory>>(`/patients/${patientId}/medical-history`);
+    return data.data;
+  },
+
+  /**
+   * Сохранить анамнез пациента клиники
+   */
+  async updatePatientHistory(patientId: string, history: UpdateMedicalHistoryRequest): Promise<PatientMedicalHistory> {
+    const { data } = await api.put<ApiResponse<PatientMedicalHistory>>(
+      `/patients/${patientId}/medical-history`,
+      history
+    );
+    return data.data;
+  },
+
+  /**
+   * Свой анамнез (PATIENT)
+   */
+  async getMyHistory(): Promise<MyMedicalHistoryResponse> {
+    const { data } = await api.get<ApiResponse<MyMedicalHistoryResponse>>('/patients/medical-history');
+    return data.data;
+  },
+
+  /**
+   * Сообщить клиникам свой анамнез (PATIENT)
+   */
+  async updateMyHistory(history: UpdateMedicalHistoryRequest): Promise<MyMedicalHistoryResponse> {
+    const { data } = await api.put<ApiResponse<MyMedicalHistoryResponse>>('/patients/medical-history', history);
+    return data.data;
+  },
+};
@@ -1,5 +1,12 @@
 import api from './api';
-import { ApiResponse, Notification, PaginatedResponse } from '../types/api.types';
+import {
+  ApiResponse,
+  Notification,
+  NotificationDelivery,
+  NotificationDeliveryChannel,
+  NotificationDeliveryStatus,
+  PaginatedResponse,
+} from '../types/api.types';
 
 /**
  * Notification Service
@@ -89,5 +96,31 @@ export const notificationService = {
     if (userId) params.userId = userId;
     await api.delete(`/notifications/${id}`, { params });
   },
+
+  /**
+   * Получить журнал отправки email/SMS (ADMIN/CLINIC)
+   */
+  async getDeliveries(params?: {
+    status?: NotificationDeliveryStatus;
+    channel?: NotificationDeliveryChannel;
+    page?: number;
+    limit?: number;
+  }): Promise<{ deliveries: NotificationDelivery[]; meta: any }> {
+    const { data } = await api.get<ApiResponse<{ deliveries: NotificationDelivery[]; meta: any }>>(
+      '/notifications/deliveries',
+      { params }
+    );
+    return data.data;
+  },
+
+  /**
+   * Повторить отправку
+   */
+  async retryDelivery(id: string): Promise<NotificationDelivery> {
+    const { data } = await api.post<ApiResponse<NotificationDelivery>>(
+      `/notifications/deliveries/${id}/retry`
+    );
+    return data.data;
+  },
 };
 
@@ -1,5 +1,5 @@
 import api from './api';
-import { ApiResponse, Patient, PaginatedResponse, DoctorPatient } from '../types/api.types';
+import { ApiResponse, Appointment, Patient, PaginatedResponse, DoctorPatient } from '../types/api.types';
 
 /**
  * Patient Service
@@ -95,6 +95,23 @@ export const patientService = {
     return data.data;
   },
 
+  /**
+   * Принять предложенное клиникой новое время отменённого приёма (PATIENT)
+   * Создаёт новую запись в статусе pending
+   */
+  async acceptSuggestedDate(appointmentId: string): Promise<Appointment> {
+    const { data } = await api.post<ApiResponse<Appointment>>(`/patients/appointments/${appointmentId}/suggestion/accept`);
+    return data.data;
+  },
+
+  /**
+   * Отклонить предложенное клиникой новое время (PATIENT)
+   */
+  async declineSuggestedDate(appointmentId: string): Promise<Appointment> {
+    const { data } = await api.post<ApiResponse<Appointment>>(`/patients/appointments/${appointmentId}/suggestion/decline`);
+    return data.data;
+  },
+
   /**
    * Получить все визиты пациентов с полной информацией
    */
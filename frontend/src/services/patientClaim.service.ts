@@ -0,0 +1,38 @@
+import api from './api';
+import {
+  ApiResponse,
+  CreatePatientClaimRequest,
+  PatientClaim,
+  PatientRecord,
+  PatientRecordsResponse,
+} from '../types/api.types';
+
+/**
+ * Patient Claim Service
+ * API calls для привязки карточек пациента в клиниках к аккаунту (PATIENT)
+ */
+export const patientClaimService = {
+  /**
+   * Карточки, привязанные к аккаунту, и ожидающие подтверждения запросы
+   */
+  async getMyRecords(): Promise<PatientRecordsResponse> {
+    const { data } = await api.get<ApiResponse<PatientRecordsResponse>>('/patients/records');
+    return data.data;
+  },
+
+  /**
+   * Запросить привязку карточки — код придёт на телефон или email из карточки
+   */
+  async requestClaim(claim: CreatePatientClaimRequest): Promise<PatientClaim> {
+    const { data } = await api.post<ApiResponse<PatientClaim>>('/patients/claims', claim);
+    return data.data;
+  },
+
+  /**
+   * Подтвердить привязку кодом
+   */
+  async verifyClaim(id: string, code: string): Promise<PatientRecord> {
+    const { data } = await api.post<ApiResponse<PatientRecord>>(`/patients/claims/${id}/verify`, { code });
+    return data.data;
+  },
+};
@@ -0,0 +1,68 @@
+import api from './api';
+import {
+  ApiResponse,
+  PatientDocument,
+  PatientDocumentCategory,
+  UpdatePatientDocumentRequest,
+  UploadPatientDocumentRequest,
+} from '../types/api.types';
+
+/**
+ * Patient Document Service
+ * API calls для снимков, фото и документов пациента
+ */
+export const patientDocumentService = {
+  /**
+   * Получить документы пациента
+   * @param params.appointmentId - только прикреплённые к приёму
+   */
+  async getDocuments(
+    patientId: string,
+    params?: { appointmentId?: string; category?: PatientDocumentCategory }
+  ): Promise<PatientDocument[]> {
+    const { data } = await api.get<ApiResponse<PatientDocument[]>>(`/patients/${patientId}/documents`, { params });
+    return data.data;
+  },
+
+  /**
+   * Загрузить документ
+   */
+  async uploadDocument(patientId: string, document: UploadPatientDocumentRequest): Promise<PatientDocument> {
+    const { data } = await api.post<ApiResponse<PatientDocument>>(`/patients/${patientId}/documents`, document);
+    return data.data;
+  },
+
+  /**
+   * Изменить категорию, название или приём документа
+   */
+  async updateDocument(
+    patientId: string,
+    documentId: string,
+    changes: UpdatePatientDocumentRequest
+  ): Promise<PatientDocument> {
+    const { data } = await api.patch<ApiResponse<PatientDocument>>(
+      `/patients/${patientId}/documents/${documentId}`,
+      changes
+    );
+    return data.data;
+  },
+
+  /**
+   * Удалить документ
+   */
+  async deleteDocument(patientId: string, documentId: string): Promise<void> {
+    await api.delete(`/patients/${patientId}/documents/${documentId}`);
+  },
+
+  /**
+   * Скачать файл документа (файлы отдаются только с авторизацией, поэтому через Blob)
+   * @param thumbnail - превью вместо оригинала
+   */
+  async getFile(patientId: string, documentId: string, thumbnail = false): Promise<Blob> {
+    const { data } = await api.get<Blob>(`/patients/${patientId}/documents/${documentId}/file`, {
+      params: thumbnail ? { thumbnail: true } : undefined,
+      responseType: 'blob',
+    });
+    return data;
+  },
+};
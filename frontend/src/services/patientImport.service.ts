@@ -0,0 +1,30 @@
+import api from './api';
+import {
+  ApiResponse,
+  ImportPatientsRequest,
+  PatientExportParams,
+  PatientExportResponse,
+  PatientImportResult,
+} from '../types/api.types';
+
+/**
+ * Patient Import Service
+ * API calls для импорта пациентов из таблиц и выгрузки пациентов и визитов
+ */
+export const patientImportService = {
+  /**
+   * Импорт пациентов (dryRun: true — только проверка)
+   */
+  async importPatients(request: ImportPatientsRequest): Promise<PatientImportResult> {
+    const { data } = await api.post<ApiResponse<PatientImportResult>>('/patients/import', request);
+    return data.data;
+  },
+
+  /**
+   * Пациенты и визиты для выгрузки с текущими фильтрами
+   */
+  async exportPatients(params: PatientExportParams): Promise<PatientExportResponse> {
+    const { data } = await api.get<ApiResponse<PatientExportResponse>>('/patients/export', { params });
+    return data.data;
+  },
+};
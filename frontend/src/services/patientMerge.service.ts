@@ -0,0 +1,38 @@
+import api from './api';
+import {
+  ApiResponse,
+  MergePatientsRequest,
+  MergePatientsResponse,
+  PatientDuplicateGroup,
+  PatientMergesResponse,
+} from '../types/api.types';
+
+/**
+ * Patient Merge Service
+ * API calls для поиска и объединения дубликатов пациентов
+ */
+export const patientMergeService = {
+  /**
+   * Группы возможных дубликатов в клинике
+   */
+  async getDuplicates(): Promise<PatientDuplicateGroup[]> {
+    const { data } = await api.get<ApiResponse<PatientDuplicateGroup[]>>('/patients/duplicates');
+    return data.data;
+  },
+
+  /**
+   * Объединить дубликаты в одну карточку
+   */
+  async merge(request: MergePatientsRequest): Promise<MergePatientsResponse> {
+    const { data } = await api.post<ApiResponse<MergePatientsResponse>>('/patients/merge', request);
+    return data.data;
+  },
+
+  /**
+   * Журнал объединений
+   */
+  async getMerges(params?: { patientId?: string; page?: number; limit?: number }): Promise<PatientMergesResponse> {
+    const { data } = await api.get<ApiResponse<PatientMergesResponse>>('/patients/merges', { params });
+    return data.data;
+  },
+};
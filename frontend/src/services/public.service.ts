@@ -1,5 +1,5 @@
 import api from './api';
-import { ApiResponse, Clinic, User, PaginatedResponse } from '../types/api.types';
+import { ApiResponse, AvailableSlotsResponse, Clinic, User, PaginatedResponse, PublicTreatmentCategory } from '../types/api.types';
 
 /**
  * Public Service
@@ -49,6 +49,14 @@ export const publicService = {
     return data.data;
   },
 
+  /**
+   * Получить категории лечения клиники (для выбора процедуры при записи)
+   */
+  async getClinicTreatmentCategories(slug: string): Promise<PublicTreatmentCategory[]> {
+    const { data } = await api.get<ApiResponse<PublicTreatmentCategory[]>>(`/public/clinics/${slug}/treatment-categories`);
+    return data.data;
+  },
+
   /**
    * Получить список городов
    */
@@ -70,6 +78,7 @@ export const publicService = {
     };
     appointmentDate: string;
     reason?: string;
+    treatmentCategoryId?: string; // Категория лечения клиники
     registeredAt?: string; // Локальное время когда пациент был на сайте и отправил регистрацию
   }): Promise<any> {
     const { data } = await api.post<ApiResponse<any>>(
@@ -91,18 +100,23 @@ export const publicService = {
   },
 
   /**
-   * Получить занятые временные слоты врача на указанную дату (публичный endpoint)
+   * Получить свободные слоты врача на дату (публичный endpoint)
    * @param clinicSlug - Slug клиники
    * @param doctorId - ID врача
    * @param date - Дата в формате YYYY-MM-DD
-   * @returns Массив занятых интервалов [{ start: string, end: string, appointmentId: string }]
+   * @param treatmentCategoryId - Категория лечения (длительность и буферы приёма)
    */
-  async getBusySlots(clinicSlug: string, doctorId: string, date: string): Promise<Array<{ start: string; end: string; appointmentId: string }>> {
-    const { data } = await api.get<ApiResponse<{ busySlots: Array<{ start: string; end: string; appointmentId: string }> }>>(
-      `/public/clinics/${clinicSlug}/doctors/${doctorId}/busy-slots`,
-      { params: { date } }
+  async getAvailableSlots(
+    clinicSlug: string,
+    doctorId: string,
+    date: string,
+    treatmentCategoryId?: string
+  ): Promise<AvailableSlotsResponse> {
+    const { data } = await api.get<ApiResponse<AvailableSlotsResponse>>(
+      `/public/clinics/${clinicSlug}/doctors/${doctorId}/available-slots`,
+      { params: { date, treatmentCategoryId } }
     );
-    return data.data.busySlots;
+    return data.data;
   },
 };
 
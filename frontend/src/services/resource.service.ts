@@ -0,0 +1,47 @@
+import api from './api';
+import {
+  ApiResponse,
+  ClinicResource,
+  CreateClinicResourceRequest,
+  UpdateClinicResourceRequest,
+} from '../types/api.types';
+
+/**
+ * Resource Service
+ * API calls для работы с ресурсами клиники (кабинеты, кресла, оборудование)
+ */
+export const resourceService = {
+  /**
+   * Получить ресурсы клиники
+   * @param activeOnly - только активные (для выбора при записи)
+   */
+  async getResources(activeOnly = false): Promise<ClinicResource[]> {
+    const { data } = await api.get<ApiResponse<ClinicResource[]>>('/clinic/resources', {
+      params: activeOnly ? { activeOnly: true } : undefined,
+    });
+    return data.data;
+  },
+
+  /**
+   * Создать ресурс
+   */
+  async createResource(resourceData: CreateClinicResourceRequest): Promise<ClinicResource> {
+    const { data } = await api.post<ApiResponse<ClinicResource>>('/clinic/resources', resourceData);
+    return data.data;
+  },
+
+  /**
+   * Обновить ресурс
+   */
+  async updateResource(id: string, resourceData: UpdateClinicResourceRequest): Promise<ClinicResource> {
+    const { data } = await api.put<ApiResponse<ClinicResource>>(`/clinic/resources/${id}`, resourceData);
+    return data.data;
+  },
+
+  /**
+   * Удалить ресурс
+   */
+  async deleteResource(id: string): Promise<void> {
+    await api.delete(`/clinic/resources/${id}`);
+  },
+};
@@ -0,0 +1,94 @@
+import api from './api';
+import {
+  ApiResponse,
+  CreateTreatmentPlanRequest,
+  TreatmentPlan,
+  UpdateTreatmentPlanRequest,
+  UpdateTreatmentPlanStageRequest,
+} from '../types/api.types';
+
+/**
+ * Treatment Plan Service
+ * API calls для планов лечения и смет
+ */
+export const treatmentPlanService = {
+  /**
+   * Получить планы лечения клиники (ADMIN, CLINIC, DOCTOR)
+   */
+  async getAll(params?: { patientId?: string; status?: string }): Promise<TreatmentPlan[]> {
+    const { data } = await api.get<ApiResponse<TreatmentPlan[]>>('/treatment-plans', { params });
+    return data.data;
+  },
+
+  /**
+   * Получить план лечения (ADMIN, CLINIC, DOCTOR)
+   */
+  async getById(id: string): Promise<TreatmentPlan> {
+    const { data } = await api.get<ApiResponse<TreatmentPlan>>(`/treatment-plans/${id}`);
+    return data.data;
+  },
+
+  /**
+   * Создать план лечения (черновик)
+   */
+  async create(plan: CreateTreatmentPlanRequest): Promise<TreatmentPlan> {
+    const { data } = await api.post<ApiResponse<TreatmentPlan>>('/treatment-plans', plan);
+    return data.data;
+  },
+
+  /**
+   * Изменить план лечения (до принятия пациентом, этапы заменяются целиком)
+   */
+  async update(id: string, plan: UpdateTreatmentPlanRequest): Promise<TreatmentPlan> {
+    const { data } = await api.put<ApiResponse<TreatmentPlan>>(`/treatment-plans/${id}`, plan);
+    return data.data;
+  },
+
+  /**
+   * Показать план пациенту
+   */
+  async present(id: string): Promise<TreatmentPlan> {
+    const { data } = await api.post<ApiResponse<TreatmentPlan>>(`/treatment-plans/${id}/present`);
+    return data.data;
+  },
+
+  /**
+   * Отменить план лечения
+   */
+  async cancel(id: string): Promise<TreatmentPlan> {
+    const { data } = await api.post<ApiResponse<TreatmentPlan>>(`/treatment-plans/${id}/cancel`);
+    return data.data;
+  },
+
+  /**
+   * Изменить статус этапа или назначить его на приём
+   */
+  async updateStage(id: string, stageId: string, stage: UpdateTreatmentPlanStageRequest): Promise<TreatmentPlan> {
+    const { data } = await api.patch<ApiResponse<TreatmentPlan>>(`/treatment-plans/${id}/stages/${stageId}`, stage);
+    return data.data;
+  },
+
+  /**
+   * Планы лечения текущего пациента (PATIENT)
+   */
+  async getMy(): Promise<TreatmentPlan[]> {
+    const { data } = await api.get<ApiResponse<TreatmentPlan[]>>('/treatment-plans/my');
+    return data.data;
+  },
+
+  /**
+   * План лечения текущего пациента (PATIENT)
+   */
+  async getMyById(id: string): Promise<TreatmentPlan> {
+    const { data } = await api.get<ApiResponse<TreatmentPlan>>(`/treatment-plans/my/${id}`);
+    return data.data;
+  },
+
+  /**
+   * Принять смету плана лечения (PATIENT)
+   */
+  async acceptMy(id: string): Promise<TreatmentPlan> {
+    const { data } = await api.post<ApiResponse<TreatmentPlan>>(`/treatment-plans/my/${id}/accept`);
+    return data.data;
+  },
+};
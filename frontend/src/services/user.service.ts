@@ -1,5 +1,14 @@
 import api from './api';
-import { ApiResponse, User, PaginatedResponse, DoctorSchedule, UpdateDoctorScheduleRequest } from '../types/api.types';
+import {
+  ApiResponse,
+  User,
+  PaginatedResponse,
+  DoctorSchedule,
+  DoctorScheduleException,
+  SaveScheduleExceptionRequest,
+  UpdateDoctorScheduleRequest,
+  ScheduleBreak,
+} from '../types/api.types';
 
 /**
  * User Service
@@ -115,6 +124,7 @@ export const userService = {
       startTime: string | null;
       endTime: string | null;
       isWorking: boolean;
+      breaks?: ScheduleBreak[];
     }>;
     categoryIds?: string[];
   }): Promise<User> {
@@ -185,6 +195,35 @@ export const userService = {
     console.log('✅ [USER SERVICE] Расписание врача обновлено');
     return data.data;
   },
+
+  /**
+   * Получить исключения из расписания врача (для клиники)
+   */
+  async getDoctorScheduleExceptions(doctorId: string): Promise<DoctorScheduleException[]> {
+    const { data } = await api.get<ApiResponse<DoctorScheduleException[]>>(`/users/${doctorId}/schedule/exceptions`);
+    return data.data;
+  },
+
+  /**
+   * Создать или обновить исключение из расписания врача (для клиники)
+   */
+  async saveDoctorScheduleException(
+    doctorId: string,
+    exception: SaveScheduleExceptionRequest
+  ): Promise<DoctorScheduleException> {
+    const { data } = await api.put<ApiResponse<DoctorScheduleException>>(
+      `/users/${doctorId}/schedule/exceptions`,
+      exception
+    );
+    return data.data;
+  },
+
+  /**
+   * Удалить исключение из расписания врача (для клиники)
+   */
+  async deleteDoctorScheduleException(doctorId: string, exceptionId: string): Promise<void> {
+    await api.delete(`/users/${doctorId}/schedule/exceptions/${exceptionId}`);
+  },
 };
 
 
@@ -0,0 +1,72 @@
+import api from './api';
+import { ApiResponse, Appointment, CreateWaitlistEntryRequest, WaitlistEntry, WaitlistOffer } from '../types/api.types';
+
+/**
+ * Waitlist Service
+ * API calls для листа ожидания
+ */
+export const waitlistService = {
+  /**
+   * Получить лист ожидания клиники
+   */
+  async getAll(params?: { status?: string; doctorId?: string; patientId?: string }): Promise<WaitlistEntry[]> {
+    const { data } = await api.get<ApiResponse<WaitlistEntry[]>>('/waitlist', { params });
+    return data.data;
+  },
+
+  /**
+   * Добавить пациента в лист ожидания
+   */
+  async create(entry: CreateWaitlistEntryRequest): Promise<WaitlistEntry> {
+    const { data } = await api.post<ApiResponse<WaitlistEntry>>('/waitlist', entry);
+    return data.data;
+  },
+
+  /**
+   * Убрать пациента из листа ожидания
+   */
+  async remove(id: string): Promise<WaitlistEntry> {
+    const { data } = await api.delete<ApiResponse<WaitlistEntry>>(`/waitlist/${id}`);
+    return data.data;
+  },
+
+  /**
+   * Лист ожидания текущего пациента (PATIENT)
+   */
+  async getMy(): Promise<WaitlistEntry[]> {
+    const { data } = await api.get<ApiResponse<WaitlistEntry[]>>('/waitlist/my');
+    return data.data;
+  },
+
+  /**
+   * Пациент добавляет себя в лист ожидания клиники
+   */
+  async createMy(entry: CreateWaitlistEntryRequest): Promise<WaitlistEntry> {
+    const { data } = await api.post<ApiResponse<WaitlistEntry>>('/waitlist/my', entry);
+    return data.data;
+  },
+
+  /**
+   * Пациент убирает свою запись из листа ожидания
+   */
+  async removeMy(id: string): Promise<WaitlistEntry> {
+    const { data } = await api.delete<ApiResponse<WaitlistEntry>>(`/waitlist/my/${id}`);
+    return data.data;
+  },
+
+  /**
+   * Принять предложение освободившегося времени (создаётся приём)
+   */
+  async acceptOffer(offerId: string): Promise<Appointment> {
+    const { data } = await api.post<ApiResponse<Appointment>>(`/waitlist/offers/${offerId}/accept`);
+    return data.data;
+  },
+
+  /**
+   * Отклонить предложение: время предлагается следующему пациенту
+   */
+  async declineOffer(offerId: string): Promise<WaitlistOffer> {
+    const { data } = await api.post<ApiResponse<WaitlistOffer>>(`/waitlist/offers/${offerId}/decline`);
+    return data.data;
+  },
+};
@@ -0,0 +1,38 @@
+import { create } from 'zustand';
+
+/**
+ * Chat Store
+ * Состояние push-канала чата (подключение и индикаторы "печатает...")
+ */
+
+interface TypingState {
+  userId: string;
+  senderType: 'patient' | 'doctor' | 'clinic' | 'system';
+  expiresAt: number;
+}
+
+interface ChatState {
+  isStreamConnected: boolean;
+  typing: Record<string, TypingState>; // conversationId -> кто печатает
+
+  setStreamConnected: (isConnected: boolean) => void;
+  setTyping: (conversationId: string, typing: TypingState | null) => void;
+}
+
+export const useChatStore = create<ChatState>((set) => ({
+  isStreamConnected: false,
+  typing: {},
+
+  setStreamConnected: (isConnected) => set({ isStreamConnected: isConnected }),
+
+  setTyping: (conversationId, typing) =>
+    set((state) => {
+      const next = { ...state.typing };
+      if (typing) {
+        next[conversationId] = typing;
+      } else {
+        delete next[conversationId];
+      }
+      return { typing: next };
+    }),
+}));
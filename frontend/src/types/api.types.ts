@@ -86,12 +86,15 @@ export interface ClinicSettings {
   language: 'ru' | 'en' | 'am';
   currency: 'AMD' | 'RUB' | 'USD';
   defaultAppointmentDuration: number;
+  bufferBeforeMinutes: number; // Подготовка перед приёмом (минуты)
+  bufferAfterMinutes: number; // Уборка / стерилизация после приёма (минуты)
   emailNotificationsEnabled: boolean;
   smsNotificationsEnabled: boolean;
   appointmentReminderHours: number;
   notifyNewAppointments: boolean;
   notifyCancellations: boolean;
   notifyConfirmations: boolean;
+  waitlistOfferMinutes: number; // Срок ответа на предложение из листа ожидания (минуты)
   createdAt: Date;
   updatedAt: Date;
 }
@@ -144,6 +147,7 @@ export interface User {
     id: string;
     name: string;
     slug: string;
+    settings?: { timezone: string } | null; // Пояс клиники — время приёмов показывается по нему
   };
 }
 
@@ -158,10 +162,139 @@ export interface DoctorSchedule {
   startTime: string; // Формат HH:mm (например, "09:00")
   endTime: string; // Формат HH:mm (например, "18:00")
   isWorking: boolean; // Работает ли врач в этот день
+  breaks: ScheduleBreak[]; // Перерывы внутри рабочего дня (например, обед)
   createdAt: Date | string;
   updatedAt: Date | string;
 }
 
+/**
+ * Перерыв внутри рабочего дня врача
+ */
+export interface ScheduleBreak {
+  startTime: string; // Формат HH:mm (например, "13:00")
+  endTime: string; // Формат HH:mm (например, "14:00")
+}
+
+/**
+ * Исключение из расписания врача на конкретную дату
+ * isWorking = false — выходной, isWorking = true — особые часы работы
+ */
+export interface DoctorScheduleException {
+  id: string;
+  doctorId: string;
+  date: string; // Формат YYYY-MM-DD
+  isWorking: boolean;
+  startTime: string | null;
+  endTime: string | null;
+  reason: string | null;
+  createdAt: Date | string;
+  updatedAt: Date | string;
+  conflicts?: ScheduleExceptionConflict[]; // Приёмы, оказавшиеся вне рабочего времени
+}
+
+/**
+ * Приём, конфликтующий с исключением из расписания
+ */
+export interface ScheduleExceptionConflict {
+  id: string;
+  appointmentDate: Date | string;
+  duration: number;
+  status: string;
+  reason?: string | null;
+  patient?: {
+    id: string;
+    name: string;
+    phone: string;
+  };
+}
+
+/**
+ * Запрос на создание/обновление исключения из расписания
+ */
+export interface SaveScheduleExceptionRequest {
+  date: string;
+  isWorking: boolean;
+  startTime?: string | null;
+  endTime?: string | null;
+  reason?: string | null;
+}
+
+/**
+ * Слот для записи, рассчитанный сервером
+ * reason: 'past' — время прошло, 'break' — перерыв врача, 'booked' — пересекается с приёмом,
+ * 'resource' — выбранный кабинет / кресло / оборудование занято
+ */
+export interface AvailableSlot {
+  time: string; // HH:mm по часам клиники
+  start: string; // ISO (UTC)
+  end: string; // ISO (UTC)
+  available: boolean;
+  reason: 'past' | 'break' | 'booked' | 'resource' | null;
+}
+
+/**
+ * Свободные слоты врача на дату
+ */
+export interface AvailableSlotsResponse {
+  date: string; // YYYY-MM-DD
+  timezone: string; // Часовой пояс клиники
+  duration: number; // Длительность приёма (минуты)
+  interval: number; // Шаг сетки (минуты)
+  bufferBefore: number; // Буфер перед приёмом (минуты)
+  bufferAfter: number; // Буфер после приёма (минуты)
+  isWorking: boolean;
+  workingHours: {
+    startTime: string;
+    endTime: string;
+    breaks: ScheduleBreak[];
+  } | null;
+  reason: string | null; // Причина нерабочего дня
+  slots: AvailableSlot[];
+}
+
+/**
+ * Приём в расписании дня (вид «День»)
+ */
+export interface DayBoardAppointment extends Appointment {
+  startTime: string; // HH:mm по часам клиники
+}
+
+/**
+ * Колонка врача в расписании дня
+ */
+export interface DayBoardColumn {
+  doctor: Pick<User, 'id' | 'name' | 'specialization' | 'avatar'>;
+  isWorking: boolean;
+  workingHours: {
+    startTime: string;
+    endTime: string;
+    breaks: ScheduleBreak[];
+  } | null;
+  reason: string | null; // Причина нерабочего дня
+  appointments: DayBoardAppointment[];
+}
+
+/**
+ * Расписание дня по всем активным врачам клиники
+ */
+export interface DayBoard {
+  date: string; // YYYY-MM-DD
+  timezone: string;
+  doctors: DayBoardColumn[];
+}
+
+/**
+ * Параметры запроса свободных слотов
+ */
+export interface AvailableSlotsParams {
+  doctorId: string;
+  date: string; // YYYY-MM-DD
+  treatmentCategoryId?: string;
+  duration?: number;
+  excludeAppointmentId?: string;
+  resourceIds?: string[]; // Ресурсы, которые должны быть свободны
+}
+
 /**
  * Запрос на обновление расписания врача
  */
@@ -171,6 +304,7 @@ export interface UpdateDoctorScheduleRequest {
     startTime: string | null;
     endTime: string | null;
     isWorking: boolean;
+    breaks?: ScheduleBreak[];
   }>;
 }
 
@@ -200,9 +334,11 @@ export interface Patient {
   gender?: Gender;
   notes?: string;
   status?: 'registered' | 'guest'; // Статус пациента: зарегистрированный или гость
+  userId?: string | null; // Аккаунт пациента, которому принадлежит карточка
   createdAt: Date;
   updatedAt: Date;
   appointments?: Appointment[]; // Полная история визитов
+  noShowCount?: number; // Количество неявок (приёмы со статусом no_show)
 }
 
 export enum Gender {
@@ -221,10 +357,20 @@ export interface Appointment {
   status: AppointmentStatus;
   notes?: string;
   reason?: string;
+  treatmentCategoryId?: string | null; // Категория лечения (фильтры, цвет в календаре, аналитика)
+  treatmentCategory?: AppointmentTreatmentCategory | null;
   amount?: number; // Сумма оплаты
   registeredAt?: Date | string; // Время когда пациент был на сайте и отправил регистрацию (локальное время пользователя)
   cancellationReason?: string; // Причина отмены приёма
   suggestedNewDate?: Date | string; // Предложенное новое время приёма
+  suggestionStatus?: SuggestionStatus | null; // Ответ пациента на предложенное время
+  suggestionAppointmentId?: string | null; // Приём, созданный при принятии предложенного времени
+  seriesId?: string | null; // Серия повторяющихся приёмов
+  seriesIndex?: number | null; // Порядковый номер приёма в серии (с 1)
+  resources?: AppointmentResource[]; // Занятые приёмом кресла, кабинеты и оборудование
+  bufferBefore?: number; // Буфер подготовки перед приёмом (минуты) — для календаря
+  bufferAfter?: number; // Буфер уборки / стерилизации после приёма (минуты) — для календаря
+  clinicalNote?: { recommendations?: string | null; signedAt: string } | null; // Для пациента: рекомендации подписанного протокола
   createdAt: Date;
   updatedAt: Date;
   doctor?: {
@@ -245,14 +391,201 @@ export interface Appointment {
     name: string;
     city?: string;
     slug?: string;
+    settings?: { timezone: string } | null;
   };
 }
 
+/**
+ * Категория лечения в публичной записи на приём
+ */
+export interface PublicTreatmentCategory {
+  id: string;
+  name: string;
+  defaultDuration: number;
+  color?: string | null;
+}
+
+/**
+ * Категория лечения приёма (краткие данные для списков и календаря)
+ */
+export interface AppointmentTreatmentCategory {
+  id: string;
+  name: string;
+  color?: string | null;
+}
+
+/**
+ * Правило повторения серии: каждые N недель, до даты (until) или N раз (count)
+ */
+export interface AppointmentRecurrence {
+  intervalWeeks: number;
+  count?: number;
+  until?: string; // ISO
+}
+
+/**
+ * Запрос на создание (и предпросмотр) серии повторяющихся приёмов
+ */
+export interface CreateAppointmentSeriesRequest {
+  doctorId: string;
+  patientId: string;
+  appointmentDate: string; // ISO, первый приём
+  duration?: number;
+  reason?: string;
+  treatmentCategoryId?: string;
+  notes?: string;
+  recurrence: AppointmentRecurrence;
+  skipConflicts?: boolean; // Пропустить даты с конфликтами вместо отказа
+  resourceIds?: string[]; // Кабинеты / кресла / оборудование для каждого приёма серии
+}
+
+/**
+ * Дата серии в предпросмотре
+ * conflict: 'booked' — врач занят, 'exception' — врач не работает (вне рабочих часов, перерыв, исключение),
+ * 'resource' — занят кабинет / кресло / оборудование
+ */
+export interface AppointmentSeriesOccurrence {
+  index: number;
+  appointmentDate: string;
+  available: boolean;
+  conflict: 'booked' | 'exception' | 'resource' | null;
+}
+
+export interface AppointmentSeriesPreview {
+  timezone: string;
+  occurrences: AppointmentSeriesOccurrence[];
+}
+
+/**
+ * Серия повторяющихся приёмов
+ */
+export interface AppointmentSeries {
+  id: string;
+  clinicId: string;
+  doctorId?: string | null;
+  patientId: string;
+  intervalWeeks: number;
+  occurrences?: number | null;
+  untilDate?: string | null;
+  duration: number;
+  reason?: string | null;
+  createdAt: string;
+  updatedAt: string;
+  appointments?: Appointment[];
+}
+
+export interface CreateAppointmentSeriesResponse {
+  series: AppointmentSeries;
+  appointments: Appointment[];
+  skipped: AppointmentSeriesOccurrence[];
+}
+
+/**
+ * Какие приёмы серии затрагивает изменение или отмена
+ * this — только этот, following — этот и последующие, all — все предстоящие
+ */
+export type AppointmentSeriesScope = 'this' | 'following' | 'all';
+
+export interface RescheduleAppointmentRequest {
+  appointmentDate?: string;
+  duration?: number;
+}
+
+export interface UpdateAppointmentSeriesRequest {
+  scope: AppointmentSeriesScope;
+  appointmentDate?: string;
+  duration?: number;
+  doctorId?: string;
+  reason?: string;
+  treatmentCategoryId?: string | null;
+  notes?: string;
+}
+
+/**
+ * Предложение освободившегося времени пациенту из листа ожидания
+ */
+export type WaitlistOfferStatus = 'pending' | 'accepted' | 'declined' | 'expired' | 'withdrawn';
+
+export interface WaitlistOffer {
+  id: string;
+  clinicId: string;
+  entryId: string;
+  sourceAppointmentId?: string | null;
+  doctorId: string;
+  appointmentDate: string;
+  duration: number;
+  status: WaitlistOfferStatus;
+  expiresAt: string;
+  respondedAt?: string | null;
+  appointmentId?: string | null;
+  createdAt: string;
+}
+
+/**
+ * Запись листа ожидания
+ * status: waiting — ждёт, offered — есть действующее предложение, booked — записан, cancelled — убран
+ */
+export type WaitlistEntryStatus = 'waiting' | 'offered' | 'booked' | 'cancelled';
+
+export interface WaitlistEntry {
+  id: string;
+  clinicId: string;
+  patientId: string;
+  doctorId?: string | null;
+  treatmentCategoryId?: string | null;
+  dateFrom: string; // YYYY-MM-DD
+  dateTo: string; // YYYY-MM-DD
+  notes?: string | null;
+  status: WaitlistEntryStatus;
+  appointmentId?: string | null;
+  createdAt: string;
+  updatedAt: string;
+  patient?: {
+    id: string;
+    name: string;
+    phone: string;
+    email?: string | null;
+  };
+  doctor?: {
+    id: string;
+    name: string;
+    specialization?: string | null;
+  } | null;
+  treatmentCategory?: {
+    id: string;
+    name: string;
+    defaultDuration: number;
+  } | null;
+  clinic?: {
+    id: string;
+    name: string;
+    slug?: string;
+  };
+  offers?: WaitlistOffer[]; // Последние предложения (новые первыми)
+}
+
+/**
+ * Запрос на добавление в лист ожидания
+ * patientId — для сотрудника клиники, clinicId — для пациента
+ */
+export interface CreateWaitlistEntryRequest {
+  patientId?: string;
+  clinicId?: string;
+  doctorId?: string | null;
+  treatmentCategoryId?: string | null;
+  dateFrom: string;
+  dateTo: string;
+  notes?: string;
+}
+
 export enum AppointmentStatus {
   Pending = 'pending',
   Confirmed = 'confirmed',
   Completed = 'completed',
   Cancelled = 'cancelled',
+  Arrived = 'arrived', // Пациент пришёл (в зале ожидания)
+  InProgress = 'in_progress', // Пациент на приёме
+  NoShow = 'no_show', // Пациент не пришёл
 }
 
 export interface PatientVisit {
@@ -271,6 +604,7 @@ export interface PatientVisit {
   duration: number;
   status: AppointmentStatus;
   reason?: string;
+  treatmentCategoryId?: string | null;
   amount?: number;
   notes?: string;
   createdAt: Date | string;
@@ -295,6 +629,11 @@ export interface DoctorPatient {
   procedures: string[]; // Список процедур
 }
 
+/**
+ * Ответ пациента на предложенное клиникой новое время
+ */
+export type SuggestionStatus = 'pending' | 'accepted' | 'declined';
+
 export interface Notification {
   id: string;
   clinicId: string;
@@ -305,6 +644,10 @@ export interface Notification {
   message: string;
   isRead: boolean;
   appointmentId?: string;
+  suggestion?: { // Предложенное время (для уведомлений пациента об отмене)
+    suggestedNewDate: Date | string;
+    status: SuggestionStatus | null;
+  };
   createdAt: Date | string;
   updatedAt: Date | string;
   patient?: {
@@ -325,9 +668,38 @@ export enum NotificationType {
   Reminder = 'reminder',
   Confirmation = 'confirmation',
   NewAppointment = 'new_appointment',
+  WaitlistOffer = 'waitlist_offer',
+  TreatmentPlan = 'treatment_plan',
   Other = 'other',
 }
 
+export type NotificationDeliveryChannel = 'email' | 'sms';
+
+export type NotificationDeliveryStatus = 'pending' | 'sending' | 'sent' | 'retrying' | 'failed';
+
+export interface NotificationDelivery {
+  id: string;
+  clinicId: string;
+  notificationId?: string | null;
+  channel: NotificationDeliveryChannel;
+  provider: string;
+  recipient: string;
+  subject?: string | null;
+  body: string;
+  status: NotificationDeliveryStatus;
+  attempts: number;
+  lastError?: string | null;
+  nextRetryAt?: Date | string | null;
+  sentAt?: Date | string | null;
+  createdAt: Date | string;
+  updatedAt: Date | string;
+  notification?: {
+    id: string;
+    type: NotificationType;
+    title: string;
+  } | null;
+}
+
 export interface Certificate {
   id: string;
   clinicId: string;
@@ -354,6 +726,12 @@ export interface TreatmentCategory {
   defaultDuration: number; // Длительность процедуры по умолчанию (минуты)
   description?: string;
   color?: string; // Цвет категории в формате HEX (например, "#8B5CF6" для фиолетового)
+  bufferBeforeMinutes?: number | null; // Подготовка перед процедурой (минуты), null — как в настройках клиники
+  bufferAfterMinutes?: number | null; // Уборка / стерилизация после процедуры (минуты), null — как в настройках клиники
+  templateComplaint?: string | null; // Шаблон протокола приёма по разделам
+  templateDiagnosis?: string | null;
+  templateTreatment?: string | null;
+  templateRecommendations?: string | null;
   createdAt: Date | string;
   updatedAt: Date | string;
 }
@@ -366,6 +744,12 @@ export interface CreateTreatmentCategoryRequest {
   defaultDuration: number;
   description?: string;
   color?: string; // Цвет категории в формате HEX
+  bufferBeforeMinutes?: number | null; // Подготовка перед процедурой (минуты), null — как в настройках клиники
+  bufferAfterMinutes?: number | null; // Уборка / стерилизация после процедуры (минуты), null — как в настройках клиники
+  templateComplaint?: string | null; // Шаблон протокола приёма по разделам
+  templateDiagnosis?: string | null;
+  templateTreatment?: string | null;
+  templateRecommendations?: string | null;
 }
 
 /**
@@ -376,6 +760,59 @@ export interface UpdateTreatmentCategoryRequest {
   defaultDuration?: number;
   description?: string;
   color?: string; // Цвет категории в формате HEX
+  bufferBeforeMinutes?: number | null; // Подготовка перед процедурой (минуты), null — как в настройках клиники
+  bufferAfterMinutes?: number | null; // Уборка / стерилизация после процедуры (минуты), null — как в настройках клиники
+  templateComplaint?: string | null; // Шаблон протокола приёма по разделам
+  templateDiagnosis?: string | null;
+  templateTreatment?: string | null;
+  templateRecommendations?: string | null;
+}
+
+/**
+ * Тип ресурса клиники: кабинет, стоматологическое кресло или оборудование
+ */
+export type ClinicResourceType = 'room' | 'chair' | 'equipment';
+
+/**
+ * Ресурс клиники, который занимается на время приёма
+ */
+export interface ClinicResource {
+  id: string;
+  clinicId: string;
+  name: string;
+  type: ClinicResourceType;
+  description?: string | null;
+  isActive: boolean;
+  createdAt: Date | string;
+  updatedAt: Date | string;
+}
+
+/**
+ * Ресурс, занятый приёмом
+ */
+export interface AppointmentResource {
+  id?: string;
+  resourceId: string;
+  resource: Pick<ClinicResource, 'id' | 'name' | 'type'>;
+}
+
+export interface CreateClinicResourceRequest {
+  name: string;
+  type: ClinicResourceType;
+  description?: string | null;
+  isActive?: boolean;
+}
+
+export type UpdateClinicResourceRequest = Partial<CreateClinicResourceRequest>;
+
+/**
+ * Ссылка подписки на календарь (ICS) врача или пациента
+ */
+export interface CalendarFeed {
+  id: string;
+  url: string;
+  createdAt: string;
+  lastAccessedAt: string | null;
 }
 
 /**
@@ -386,3 +823,414 @@ export interface UpdateDoctorCategoriesRequest {
 }
 
 
+
+/**
+ * Поверхность зуба: M — медиальная, D — дистальная, O — окклюзионная / режущий край,
+ * B — вестибулярная, L — оральная
+ */
+export type ToothSurface = 'M' | 'D' | 'O' | 'B' | 'L';
+
+/**
+ * Состояние или процедура в зубной карте
+ */
+export type DentalChartCode =
+  | 'healthy'
+  | 'caries'
+  | 'fracture'
+  | 'missing'
+  | 'filling'
+  | 'sealant'
+  | 'root_canal'
+  | 'crown'
+  | 'veneer'
+  | 'implant'
+  | 'extraction';
+
+/**
+ * Запись журнала зубной карты (записи не редактируются — исправление делается новой записью)
+ */
+export interface DentalChartEntry {
+  id: string;
+  patientId: string;
+  appointmentId?: string | null;
+  doctorId?: string | null;
+  tooth: number; // Номер по FDI
+  surface?: ToothSurface | null; // null — зуб целиком
+  code: DentalChartCode;
+  notes?: string | null;
+  recordedAt: string;
+  doctor?: { id: string; name: string } | null;
+  appointment?: { id: string; appointmentDate: string; reason?: string | null; status: AppointmentStatus } | null;
+}
+
+/**
+ * Состояние зуба, собранное из журнала
+ */
+export interface DentalChartTooth {
+  tooth: number;
+  states: DentalChartCode[]; // Состояния зуба целиком (например, root_canal и crown)
+  surfaces: Partial<Record<ToothSurface, DentalChartCode>>;
+  lastRecordedAt: string;
+}
+
+/**
+ * Зубная карта пациента (текущая или на дату asOf)
+ */
+export interface DentalChart {
+  patientId: string;
+  asOf: string | null;
+  teeth: DentalChartTooth[];
+  entries: DentalChartEntry[]; // От новых к старым
+}
+
+export interface CreateDentalChartEntryRequest {
+  tooth: number;
+  surfaces?: ToothSurface[];
+  code: DentalChartCode;
+  appointmentId?: string | null;
+  notes?: string | null;
+}
+
+/**
+ * План лечения: draft — черновик (пациент не видит), presented — смета отправлена пациенту,
+ * accepted — пациент принял смету, completed — все этапы выполнены
+ */
+export type TreatmentPlanStatus = 'draft' | 'presented' | 'accepted' | 'completed' | 'cancelled';
+
+/**
+ * Этап плана: proposed — предложен, accepted — принят пациентом, scheduled — назначен на приём, done — выполнен
+ */
+export type TreatmentPlanStageStatus = 'proposed' | 'accepted' | 'scheduled' | 'done' | 'cancelled';
+
+export interface TreatmentPlanStage {
+  id: string;
+  planId: string;
+  position: number;
+  treatmentCategoryId?: string | null;
+  title: string;
+  description?: string | null;
+  tooth?: number | null; // Номер по FDI
+  estimatedPrice: number;
+  status: TreatmentPlanStageStatus;
+  appointmentId?: string | null;
+  completedAt?: string | null;
+  treatmentCategory?: { id: string; name: string; color?: string | null; defaultDuration: number } | null;
+  appointment?: { id: string; appointmentDate: string; status: AppointmentStatus } | null;
+}
+
+export interface TreatmentPlan {
+  id: string;
+  clinicId: string;
+  patientId: string;
+  doctorId?: string | null;
+  title: string;
+  notes?: string | null;
+  status: TreatmentPlanStatus;
+  presentedAt?: string | null;
+  acceptedAt?: string | null;
+  createdAt: string;
+  updatedAt: string;
+  stages: TreatmentPlanStage[];
+  totals: {
+    estimated: number; // Без отменённых этапов
+    done: number;
+    remaining: number;
+  };
+  patient?: { id: string; name: string; phone: string; email?: string | null };
+  doctor?: { id: string; name: string; specialization?: string | null } | null;
+  clinic?: {
+    id: string;
+    name: string;
+    slug: string;
+    phone: string;
+    email: string;
+    address?: string | null;
+    city: string;
+    logo?: string | null;
+    settings?: { currency: string; timezone: string } | null;
+  };
+}
+
+export interface TreatmentPlanStageInput {
+  title: string;
+  description?: string | null;
+  treatmentCategoryId?: string | null;
+  tooth?: number | null;
+  estimatedPrice: number;
+}
+
+export interface CreateTreatmentPlanRequest {
+  patientId: string;
+  title: string;
+  notes?: string | null;
+  stages: TreatmentPlanStageInput[];
+}
+
+export type UpdateTreatmentPlanRequest = Omit<CreateTreatmentPlanRequest, 'patientId'>;
+
+export interface UpdateTreatmentPlanStageRequest {
+  status?: Exclude<TreatmentPlanStageStatus, 'proposed'>;
+  appointmentId?: string | null;
+}
+
+/**
+ * Разделы протокола приёма
+ */
+export interface ClinicalNoteSections {
+  complaint?: string | null; // Жалобы
+  diagnosis?: string | null; // Диагноз
+  treatment?: string | null; // Проведённое лечение
+  recommendations?: string | null; // Рекомендации пациенту
+}
+
+/**
+ * Протокол приёма: draft — черновик, signed — подписан и больше не редактируется
+ */
+export interface ClinicalNote extends ClinicalNoteSections {
+  id: string;
+  appointmentId: string;
+  patientId: string;
+  status: 'draft' | 'signed';
+  signedAt?: string | null;
+  createdAt: string;
+  updatedAt: string;
+  author?: { id: string; name: string } | null;
+  signedBy?: { id: string; name: string } | null;
+}
+
+/**
+ * Протокол приёма и шаблон категории лечения (для заполнения нового протокола)
+ */
+export interface AppointmentClinicalNote {
+  note: ClinicalNote | null;
+  template: Required<Record<keyof ClinicalNoteSections, string>> | null;
+}
+
+/**
+ * Карточка пациента в клинике, привязанная к аккаунту
+ */
+export interface PatientRecord {
+  id: string;
+  name: string;
+  status: 'registered' | 'guest';
+  createdAt: string;
+  clinic: { id: string; name: string; slug: string; city?: string | null; logo?: string | null };
+}
+
+/**
+ * Запрос на привязку карточки: код подтверждения отправлен на контакт, если карточка с ним есть в клинике
+ */
+export interface PatientClaim {
+  id: string;
+  channel: 'email' | 'sms';
+  recipient: string; // Частично скрытый email или телефон
+  expiresAt: string;
+  clinic: { id: string; name: string };
+}
+
+export interface PatientRecordsResponse {
+  records: PatientRecord[];
+  claims: PatientClaim[];
+}
+
+export interface CreatePatientClaimRequest {
+  clinicId: string;
+  contact: string; // Телефон или email, указанные в клинике
+}
+
+/**
+ * Почему карточки считаются дубликатами: тот же телефон (в другом формате), тот же email, похожее имя
+ */
+export type PatientDuplicateReason = 'phone' | 'email' | 'name';
+
+export interface PatientDuplicateCandidate {
+  id: string;
+  name: string;
+  phone: string;
+  email?: string | null;
+  dateOfBirth?: string | null;
+  gender?: Gender | null;
+  avatar?: string | null;
+  notes?: string | null;
+  status?: 'registered' | 'guest';
+  userId?: string | null;
+  createdAt: string;
+  appointmentsCount: number;
+}
+
+/**
+ * Группа возможных дубликатов и карточка, которую предлагается оставить
+ */
+export interface PatientDuplicateGroup {
+  reasons: PatientDuplicateReason[];
+  suggestedTargetId: string;
+  patients: PatientDuplicateCandidate[];
+}
+
+export interface MergePatientsRequest {
+  targetId: string; // Карточка, которая остаётся
+  sourceIds: string[]; // Дубликаты — переносятся в targetId и удаляются
+}
+
+/**
+ * Запись журнала объединений: снимок удалённых карточек и сколько связей перенесено
+ */
+export interface PatientMergeRecord {
+  id: string;
+  clinicId: string;
+  targetPatientId: string;
+  sourcePatients: Omit<PatientDuplicateCandidate, 'appointmentsCount'>[];
+  movedCounts: Record<string, number>;
+  createdAt: string;
+  targetPatient?: { id: string; name: string; phone: string };
+  performedBy?: { id: string; name: string } | null;
+}
+
+export interface PatientMergesResponse {
+  merges: PatientMergeRecord[];
+  meta: PaginatedResponse<PatientMergeRecord>['meta'];
+}
+
+export interface MergePatientsResponse {
+  patient: Patient;
+  merge: PatientMergeRecord;
+}
+
+/**
+ * Поля пациента, в которые сопоставляются колонки импортируемой таблицы
+ */
+export type PatientImportField = 'name' | 'phone' | 'email' | 'dateOfBirth' | 'gender' | 'notes';
+
+export type PatientImportRow = Partial<Record<PatientImportField, string>>;
+
+/**
+ * Что делать с пациентами, которые уже есть в клинике (тот же телефон или email):
+ * skip — пропустить, update — дополнить карточку, create — всё равно создать новую
+ */
+export type PatientImportDuplicates = 'skip' | 'update' | 'create';
+
+export interface ImportPatientsRequest {
+  rows: PatientImportRow[];
+  dryRun: boolean; // true — только проверка, без сохранения
+  duplicates: PatientImportDuplicates;
+}
+
+export interface PatientImportRowResult {
+  row: number; // Номер строки в файле (1 — заголовки)
+  action: 'create' | 'update' | 'skip' | 'error';
+  data: PatientImportRow;
+  errors?: { field: string; message: string }[];
+  reason?: string;
+  existing?: { id: string; name: string; phone: string; email?: string | null } | null;
+}
+
+export interface PatientImportResult {
+  dryRun: boolean;
+  duplicates: PatientImportDuplicates;
+  summary: { total: number; create: number; update: number; skip: number; error: number };
+  rows: PatientImportRowResult[];
+}
+
+/**
+ * Фильтры раздела «Пациенты», с которыми выгружаются пациенты и визиты
+ */
+export interface PatientExportParams {
+  search?: string;
+  doctorId?: string;
+  status?: string; // '' — визиты всех статусов
+}
+
+export interface PatientExportVisit {
+  appointmentId: string;
+  patientId: string;
+  patientName: string;
+  patientPhone: string;
+  patientEmail?: string | null;
+  doctorName: string;
+  appointmentDate: string;
+  duration: number;
+  status: AppointmentStatus;
+  reason?: string | null;
+  amount?: number | null;
+  notes?: string | null;
+}
+
+export interface PatientExportResponse {
+  patients: (Patient & { visitsCount: number; totalAmount: number; lastVisitDate: string | null })[];
+  visits: PatientExportVisit[];
+}
+
+/**
+ * Аллергия: вещество (лидокаин, пенициллин, латекс...) и реакция на него
+ */
+export interface MedicalAllergy {
+  substance: string;
+  reaction?: string | null;
+}
+
+/**
+ * Анамнез пациента. Заполняет клиника или сам пациент (updatedSource)
+ */
+export interface PatientMedicalHistory {
+  id: string | null; // null — анамнез ещё не заполнен
+  patientId: string;
+  allergies: MedicalAllergy[];
+  conditions: string[]; // Коды из MEDICAL_CONDITIONS или свободный текст
+  medications: string[];
+  isPregnant: boolean;
+  takesAnticoagulants: boolean;
+  anticoagulants?: string | null;
+  notes?: string | null;
+  updatedSource: 'clinic' | 'patient' | null;
+  updatedAt: string | null;
+  updatedBy?: { id: string; name: string } | null;
+}
+
+export type UpdateMedicalHistoryRequest = Pick<
+  PatientMedicalHistory,
+  'allergies' | 'conditions' | 'medications' | 'isPregnant' | 'takesAnticoagulants' | 'anticoagulants' | 'notes'
+>;
+
+export interface MyMedicalHistoryResponse {
+  history: PatientMedicalHistory | null;
+  clinicsCount: number; // Сколько карточек в клиниках привязано к аккаунту
+}
+
+/**
+ * Категория клинического документа: рентгенограмма, внутриротовое фото, согласие, анализы, прочее
+ */
+export type PatientDocumentCategory = 'xray' | 'photo' | 'consent' | 'lab' | 'other';
+
+export interface PatientDocument {
+  id: string;
+  patientId: string;
+  appointmentId?: string | null;
+  category: PatientDocumentCategory;
+  title: string;
+  description?: string | null;
+  fileName: string;
+  mimeType: string;
+  size: number; // Байт
+  hasThumbnail: boolean;
+  uploadedBy?: { id: string; name: string } | null;
+  appointment?: { id: string; appointmentDate: Date | string; reason?: string | null } | null;
+  createdAt: Date | string;
+  updatedAt: Date | string;
+}
+
+export interface UploadPatientDocumentRequest {
+  file: string; // data URL (base64)
+  thumbnail?: string | null; // Уменьшенная копия изображения (data URL)
+  fileName: string;
+  category: PatientDocumentCategory;
+  title?: string;
+  description?: string;
+  appointmentId?: string | null;
+}
+
+export interface UpdatePatientDocumentRequest {
+  category?: PatientDocumentCategory;
+  title?: string;
+  description?: string | null;
+  appointmentId?: string | null;
+}
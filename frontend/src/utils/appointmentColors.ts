@@ -8,6 +8,9 @@ export const STATUS_COLORS = {
   confirmed: '#4A90E2', // blue
   pending: '#F3B63F',   // yellow
   cancelled: '#D9534F', // red
+  arrived: '#17A2B8',   // teal — пациент в клинике
+  in_progress: '#8E6BD8', // purple — пациент на приёме
+  no_show: '#6C757D',   // dark gray — пациент не пришёл
 } as const;
 
 /**
@@ -26,7 +29,7 @@ export function getStatusColor(status: string): string {
 
 /**
  * Получить цвет категории из назначения
- * Ищет категорию по полю reason (название категории)
+ * Ищет категорию по treatmentCategoryId; если списка категорий нет — берёт цвет из связи treatmentCategory
  * @param appointment - Назначение
  * @param categories - Список категорий лечения
  * @returns HEX цвет категории или цвет по умолчанию
@@ -35,23 +38,20 @@ export function getCategoryColor(
   appointment: Appointment,
   categories: TreatmentCategory[] = []
 ): string {
-  // Если у назначения нет reason, возвращаем цвет по умолчанию
-  if (!appointment.reason) {
+  // Если у назначения нет категории, возвращаем цвет по умолчанию
+  if (!appointment.treatmentCategoryId) {
     return DEFAULT_CATEGORY_COLOR;
   }
 
-  // Ищем категорию по имени (reason)
-  const category = categories.find(
-    (cat) => cat.name.toLowerCase().trim() === appointment.reason?.toLowerCase().trim()
-  );
+  // Ищем категорию по ID (актуальный цвет после редактирования категории)
+  const category = categories.find((cat) => cat.id === appointment.treatmentCategoryId);
 
   // Если категория найдена и у неё есть цвет, возвращаем его
   if (category?.color) {
     return category.color;
   }
 
-  // Если категория найдена, но цвета нет, возвращаем цвет по умолчанию
-  return DEFAULT_CATEGORY_COLOR;
+  return appointment.treatmentCategory?.color || DEFAULT_CATEGORY_COLOR;
 }
 
 /**
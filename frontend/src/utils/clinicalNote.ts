@@ -0,0 +1,22 @@
+import { ClinicalNoteSections, TreatmentCategory } from '../types/api.types';
+
+/**
+ * Clinical Note Utilities
+ * Разделы протокола приёма и соответствующие поля шаблона категории лечения
+ */
+
+export type ClinicalNoteSection = keyof ClinicalNoteSections;
+
+export const CLINICAL_NOTE_SECTIONS: {
+  key: ClinicalNoteSection;
+  label: string;
+  templateField: keyof Pick<
+    TreatmentCategory,
+    'templateComplaint' | 'templateDiagnosis' | 'templateTreatment' | 'templateRecommendations'
+  >;
+}[] = [
+  { key: 'complaint', label: 'Жалобы', templateField: 'templateComplaint' },
+  { key: 'diagnosis', label: 'Диагноз', templateField: 'templateDiagnosis' },
+  { key: 'treatment', label: 'Проведённое лечение', templateField: 'templateTreatment' },
+  { key: 'recommendations', label: 'Рекомендации пациенту', templateField: 'templateRecommendations' },
+];
@@ -0,0 +1,54 @@
+import { describe, expect, it, vi } from 'vitest';
+import { formatAppointmentDateTime, toClinicDateKey, zonedTimeToUtc } from './dateFormat';
+
+// Браузер в Нью-Йорке, клиника в Берлине: переход на летнее время у них в разные даты
+// (America/New_York — 2025-03-09, Europe/Berlin — 2025-03-30)
+process.env.TZ = 'America/New_York';
+
+vi.mock('../store/useAuthStore', () => ({
+  useAuthStore: {
+    getState: () => ({ user: { clinic: { settings: { timezone: 'Europe/Berlin' } } } }),
+  },
+}));
+
+describe('zonedTimeToUtc', () => {
+  it('переводит время по часам клиники, а не браузера', () => {
+    // Браузер уже на летнем времени (UTC-4), клиника ещё на зимнем (UTC+1)
+    expect(new Date('2025-03-20T12:00:00.000Z').getTimezoneOffset()).toBe(240);
+    expect(zonedTimeToUtc('2025-03-20', '10:00').toISOString()).toBe('2025-03-20T09:00:00.000Z');
+  });
+
+  it('учитывает переход клиники на летнее время', () => {
+    expect(zonedTimeToUtc('2025-03-30', '01:30').toISOString()).toBe('2025-03-30T00:30:00.000Z');
+    expect(zonedTimeToUtc('2025-03-30', '03:30').toISOString()).toBe('2025-03-30T01:30:00.000Z');
+    expect(zonedTimeToUtc('2025-03-31', '10:00').toISOString()).toBe('2025-03-31T08:00:00.000Z');
+  });
+
+  it('использует явно переданный пояс вместо пояса клиники', () => {
+    expect(zonedTimeToUtc('2025-03-30', '10:00', 'Asia/Yerevan').toISOString()).toBe('2025-03-30T06:00:00.000Z');
+  });
+});
+
+describe('formatAppointmentDateTime', () => {
+  it('показывает время приёма по часам клиники', () => {
+    // В браузере это 04:00
+    expect(formatAppointmentDateTime('2025-03-30T08:00:00.000Z')).toBe('30.03.2025 10:00');
+    expect(formatAppointmentDateTime('2025-03-30T08:00:00.000Z', { dateFormat: 'long' })).toBe('30 марта 2025 10:00');
+  });
+
+  it('показывает время до и после перехода клиники на летнее время', () => {
+    expect(formatAppointmentDateTime('2025-03-29T09:00:00.000Z')).toBe('29.03.2025 10:00');
+    expect(formatAppointmentDateTime('2025-03-31T08:00:00.000Z')).toBe('31.03.2025 10:00');
+  });
+
+  it('использует пояс клиники приёма из опций', () => {
+    expect(formatAppointmentDateTime('2025-03-30T08:00:00.000Z', { timeZone: 'Asia/Yerevan' })).toBe('30.03.2025 12:00');
+  });
+});
+
+describe('toClinicDateKey', () => {
+  it('относит приём к дню по часам клиники', () => {
+    // В браузере ещё 29 марта 19:30
+    expect(toClinicDateKey('2025-03-29T23:30:00.000Z')).toBe('2025-03-30');
+  });
+});
@@ -1,9 +1,10 @@
 import { parseISO } from 'date-fns';
+import { useAuthStore } from '../store/useAuthStore';
 
 /**
  * Date Format Utilities
  * Утилиты для форматирования дат и времени
- * Исправляет проблемы с часовыми поясами при отображении времени приема
+ * Время приёмов показывается и вводится в часовом поясе клиники (ClinicSettings.timezone)
  */
 
 /**
@@ -75,97 +76,181 @@ export function safeParseDate(date: Date | string): Date {
   }
 }
 
+const MONTHS_GENITIVE = [
+  'января', 'февраля', 'марта', 'апреля', 'мая', 'июня',
+  'июля', 'августа', 'сентября', 'октября', 'ноября', 'декабря'
+];
+
 /**
- * Форматирует дату и время приема БЕЗ конвертации часовых поясов
- * Исправляет проблему, когда время приема сохраняется в UTC, а отображается неправильно
- * 
- * ВАЖНО: Время приема должно отображаться ТАК, КАК ОНО БЫЛО ВЫБРАНО пользователем
- * Например, если выбрано 05:00, должно отображаться 05:00, а не 04:00 или 06:00
- * 
+ * Дата и время на часах клиники
+ */
+export interface ZonedDateParts {
+  year: number;
+  month: number; // 1-12
+  day: number;
+  hours: number;
+  minutes: number;
+  seconds: number;
+  dateKey: string; // YYYY-MM-DD
+  time: string; // HH:mm
+}
+
+const formatterCache = new Map<string, Intl.DateTimeFormat>();
+
+/**
+ * Intl-форматтер для часового пояса (кешируется — календарь форматирует сотни дат)
+ * Невалидный пояс заменяется поясом браузера
+ */
+function getPartsFormatter(timeZone?: string): Intl.DateTimeFormat {
+  const key = timeZone || '';
+  let formatter = formatterCache.get(key);
+
+  if (!formatter) {
+    const options: Intl.DateTimeFormatOptions = {
+      hourCycle: 'h23',
+      year: 'numeric',
+      month: '2-digit',
+      day: '2-digit',
+      hour: '2-digit',
+      minute: '2-digit',
+      second: '2-digit',
+    };
+
+    try {
+      formatter = new Intl.DateTimeFormat('en-US', { ...options, timeZone });
+    } catch {
+      console.warn(`⚠️ [DATE FORMAT] Невалидный часовой пояс "${timeZone}", используется пояс браузера`);
+      formatter = new Intl.DateTimeFormat('en-US', options);
+    }
+    formatterCache.set(key, formatter);
+  }
+
+  return formatter;
+}
+
+/**
+ * Часовой пояс клиники текущего сотрудника (ClinicSettings.timezone)
+ * Время приёмов показывается и вводится по часам клиники, а не браузера:
+ * администратор или пациент в другом поясе видит то же время, что и клиника.
+ * Если пояс неизвестен, используется пояс браузера
+ */
+export function getClinicTimeZone(): string | undefined {
+  return useAuthStore.getState().user?.clinic?.settings?.timezone || undefined;
+}
+
+/**
+ * Разложить момент времени на дату и время в часовом поясе
+ *
+ * @param date - Дата (Date объект или ISO строка)
+ * @param timeZone - IANA часовой пояс (по умолчанию — пояс клиники)
+ * @returns Дата и время на часах клиники
+ */
+export function getZonedDateParts(date: Date | string, timeZone: string | undefined = getClinicTimeZone()): ZonedDateParts {
+  const dateObj = safeParseDate(date);
+  const parts: Record<string, number> = {};
+
+  getPartsFormatter(timeZone)
+    .formatToParts(dateObj)
+    .forEach(part => {
+      if (part.type !== 'literal') {
+        parts[part.type] = Number(part.value);
+      }
+    });
+
+  const pad = (value: number) => String(value).padStart(2, '0');
+
+  return {
+    year: parts.year,
+    month: parts.month,
+    day: parts.day,
+    hours: parts.hour,
+    minutes: parts.minute,
+    seconds: parts.second,
+    dateKey: `${parts.year}-${pad(parts.month)}-${pad(parts.day)}`,
+    time: `${pad(parts.hour)}:${pad(parts.minute)}`,
+  };
+}
+
+/**
+ * Смещение часового пояса относительно UTC в момент времени (мс)
+ */
+function getTimezoneOffsetMs(date: Date, timeZone?: string): number {
+  const parts = getZonedDateParts(date, timeZone);
+  const asUtc = Date.UTC(parts.year, parts.month - 1, parts.day, parts.hours, parts.minutes, parts.seconds);
+  const roundedTime = Math.floor(date.getTime() / 1000) * 1000;
+  return asUtc - roundedTime;
+}
+
+/**
+ * Момент времени для даты и времени на часах клиники
+ * Используется вместо new Date(`${date}T${time}`), который берёт пояс браузера
+ *
+ * @param dateKey - Дата YYYY-MM-DD
+ * @param time - Время HH:mm
+ * @param timeZone - IANA часовой пояс (по умолчанию — пояс клиники)
+ * @returns Date
+ *
+ * @example
+ * zonedTimeToUtc('2025-01-20', '10:00', 'Asia/Yerevan').toISOString() // "2025-01-20T06:00:00.000Z"
+ */
+export function zonedTimeToUtc(dateKey: string, time: string, timeZone: string | undefined = getClinicTimeZone()): Date {
+  const [year, month, day] = dateKey.split('-').map(Number);
+  const [hours, minutes] = time.split(':').map(Number);
+  const wallClock = Date.UTC(year, month - 1, day, hours, minutes, 0, 0);
+
+  // Смещение берём дважды: второй раз — уже для найденного момента (переход на летнее время)
+  const firstGuess = wallClock - getTimezoneOffsetMs(new Date(wallClock), timeZone);
+  return new Date(wallClock - getTimezoneOffsetMs(new Date(firstGuess), timeZone));
+}
+
+/**
+ * Ключ дня YYYY-MM-DD по часам клиники (для группировки приёмов по дням календаря)
+ *
  * @param date - Дата (Date объект или ISO строка)
- * @param options - Опции форматирования
+ * @param timeZone - IANA часовой пояс (по умолчанию — пояс клиники)
+ * @returns Строка YYYY-MM-DD
+ */
+export function toClinicDateKey(date: Date | string, timeZone?: string): string {
+  return getZonedDateParts(date, timeZone ?? getClinicTimeZone()).dateKey;
+}
+
+/**
+ * Форматирует дату и время приема по часам клиники
+ * Время отображается так, как оно было выбрано при записи, независимо от пояса браузера
+ *
+ * @param date - Дата (Date объект или ISO строка)
+ * @param options - Опции форматирования; timeZone — пояс клиники приёма (по умолчанию — пояс клиники сотрудника)
  * @returns Отформатированная строка даты и времени
- * 
+ *
  * @example
- * formatAppointmentDateTime('2024-01-20T05:00:00.000Z') // "20.01.2024 05:00"
- * formatAppointmentDateTime('2024-01-20T05:00:00Z') // "20.01.2024 05:00"
+ * formatAppointmentDateTime('2024-01-20T06:00:00.000Z', { timeZone: 'Asia/Yerevan' }) // "20.01.2024 10:00"
  */
 export function formatAppointmentDateTime(
   date: Date | string,
   options?: {
     dateFormat?: 'short' | 'long';
     timeFormat?: 'short' | 'long';
+    timeZone?: string;
   }
 ): string {
   try {
-    // Преобразуем в Date объект для работы
-    // Используем safeParseDate для правильной обработки различных форматов
     const dateObj = safeParseDate(date);
-    
+
     // Проверяем валидность даты
     if (isNaN(dateObj.getTime())) {
       throw new Error('Invalid date');
     }
-    
-    // КЛЮЧЕВОЙ МОМЕНТ: 
-    // Время приема должно отображаться ТАК, КАК ОНО БЫЛО ВЫБРАНО пользователем.
-    // 
-    // Проблема: Когда пользователь выбирает 05:00 в локальном времени,
-    // это время может быть сохранено в БД как UTC (например, 01:00 UTC если UTC+4).
-    // При отображении нужно показать 05:00, а не 01:00.
-    //
-    // Логика сохранения:
-    // 1. Пользователь выбирает: 05:00 (локальное время)
-    // 2. Создается: new Date('2024-01-20T05:00:00') - интерпретируется как локальное
-    // 3. Конвертируется: .toISOString() -> '2024-01-20T01:00:00.000Z' (UTC)
-    // 4. Сохраняется в БД: 01:00 UTC
-    //
-    // Логика отображения:
-    // 1. БД возвращает: '2024-01-20T01:00:00.000Z' (UTC)
-    // 2. Создается: new Date('2024-01-20T01:00:00.000Z')
-    // 3. getHours() вернет: 05:00 (локальное время в UTC+4) ✅ ПРАВИЛЬНО!
-    //
-    // НО! Если время неправильно сохраняется или возвращается БЕЗ Z,
-    // то JavaScript может неправильно интерпретировать часовой пояс.
-    //
-    // Решение: Используем локальные методы getFullYear(), getMonth(), getDate(), getHours(), getMinutes()
-    // Эти методы автоматически конвертируют UTC время в локальное время браузера.
-    
-    // ВАЖНО: Используем локальные методы для получения времени приема
-    // Это автоматически конвертирует UTC в локальное время браузера,
-    // что даст нам правильное время, соответствующее выбранному пользователем.
-    const year = dateObj.getFullYear();
-    const month = dateObj.getMonth();
-    const day = dateObj.getDate();
-    const hours = dateObj.getHours();
-    const minutes = dateObj.getMinutes();
-    
-    // DEBUG: Выводим в консоль для диагностики (можно удалить после исправления)
-    if (typeof window !== 'undefined') {
-      const dateStr = typeof date === 'string' ? date : date.toISOString();
-      console.log('🔍 [DATE FORMAT] Форматирование времени приема:', {
-        input: dateStr,
-        dateObj: dateObj.toISOString(),
-        localHours: hours,
-        localMinutes: minutes,
-        utcHours: dateObj.getUTCHours(),
-        utcMinutes: dateObj.getUTCMinutes(),
-        timezoneOffset: dateObj.getTimezoneOffset(),
-      });
-    }
-    
+
+    const { year, month, day, hours, minutes } = getZonedDateParts(dateObj, options?.timeZone ?? getClinicTimeZone());
+
     // Форматируем дату
     let formattedDate: string;
     if (options?.dateFormat === 'long') {
-      const months = [
-        'января', 'февраля', 'марта', 'апреля', 'мая', 'июня',
-        'июля', 'августа', 'сентября', 'октября', 'ноября', 'декабря'
-      ];
-      formattedDate = `${day} ${months[month]} ${year}`;
+      formattedDate = `${day} ${MONTHS_GENITIVE[month - 1]} ${year}`;
     } else {
-      formattedDate = `${String(day).padStart(2, '0')}.${String(month + 1).padStart(2, '0')}.${year}`;
+      formattedDate = `${String(day).padStart(2, '0')}.${String(month).padStart(2, '0')}.${year}`;
     }
-    
+
     // Форматируем время
     const formattedTime = options?.timeFormat === 'long' 
       ? `${String(hours).padStart(2, '0')}:${String(minutes).padStart(2, '0')}:00`
@@ -187,40 +272,26 @@ export function formatAppointmentDateTime(
 }
 
 /**
- * Форматирует только дату приема БЕЗ конвертации часовых поясов
+ * Форматирует только дату приема по часам клиники
  * 
  * @param date - Дата (Date объект или ISO строка)
  * @param format - Формат ('short' | 'long')
+ * @param timeZone - Пояс клиники приёма (по умолчанию — пояс клиники сотрудника)
  * @returns Отформатированная строка даты
  */
 export function formatAppointmentDate(
   date: Date | string,
-  format: 'short' | 'long' = 'short'
+  format: 'short' | 'long' = 'short',
+  timeZone?: string
 ): string {
   try {
-    const dateStr = typeof date === 'string' ? date : date.toISOString();
-    const match = dateStr.match(/^(\d{4})-(\d{2})-(\d{2})/);
-    
-    if (!match) {
-      const dateObj = typeof date === 'string' ? new Date(date) : date;
-      return dateObj.toLocaleDateString('ru-RU', {
-        year: 'numeric',
-        month: format === 'long' ? 'long' : '2-digit',
-        day: '2-digit',
-      });
-    }
-    
-    const [, year, month, day] = match;
-    
+    const { year, month, day } = getZonedDateParts(date, timeZone ?? getClinicTimeZone());
+
     if (format === 'long') {
-      const months = [
-        'января', 'февраля', 'марта', 'апреля', 'мая', 'июня',
-        'июля', 'августа', 'сентября', 'октября', 'ноября', 'декабря'
-      ];
-      return `${parseInt(day)} ${months[parseInt(month) - 1]} ${year}`;
+      return `${day} ${MONTHS_GENITIVE[month - 1]} ${year}`;
     }
     
-    return `${day}.${month}.${year}`;
+    return `${String(day).padStart(2, '0')}.${String(month).padStart(2, '0')}.${year}`;
   } catch (error) {
     console.error('❌ [DATE FORMAT] Ошибка форматирования даты:', error);
     const dateObj = typeof date === 'string' ? new Date(date) : date;
@@ -229,41 +300,25 @@ export function formatAppointmentDate(
 }
 
 /**
- * Форматирует только время приема БЕЗ конвертации часовых поясов
- * ВАЖНО: Использует локальные методы Date для правильного отображения времени,
- * которое было выбрано пользователем, даже если оно сохранено в UTC в БД
+ * Форматирует только время приема по часам клиники
  * 
  * @param date - Дата (Date объект или ISO строка)
  * @param format - Формат ('short' | 'long')
+ * @param timeZone - Пояс клиники приёма (по умолчанию — пояс клиники сотрудника)
  * @returns Отформатированная строка времени
  */
 export function formatAppointmentTime(
   date: Date | string,
-  format: 'short' | 'long' = 'short'
+  format: 'short' | 'long' = 'short',
+  timeZone?: string
 ): string {
   try {
-    // Преобразуем в Date объект для работы
-    const dateObj = typeof date === 'string' ? safeParseDate(date) : date;
-    
-    // Проверяем валидность даты
-    if (isNaN(dateObj.getTime())) {
+    const { hours, minutes, seconds } = getZonedDateParts(date, timeZone ?? getClinicTimeZone());
+
+    if (Number.isNaN(hours)) {
       throw new Error('Invalid date');
     }
     
-    // КЛЮЧЕВОЙ МОМЕНТ: Используем локальные методы getHours() и getMinutes()
-    // Эти методы автоматически конвертируют UTC время в локальное время браузера,
-    // что даст нам правильное время, соответствующее выбранному пользователем.
-    // 
-    // Пример:
-    // - Пользователь выбирает: 15:00 (локальное время UTC+4)
-    // - Сохраняется в БД: 11:00 UTC (15:00 - 4 часа = 11:00 UTC)
-    // - ISO строка: "2025-01-20T11:00:00.000Z"
-    // - dateObj.getHours() вернет: 15 (локальное время) ✅ ПРАВИЛЬНО!
-    // - Если бы использовали regex: "11:00" (UTC время) ❌ НЕПРАВИЛЬНО!
-    const hours = dateObj.getHours();
-    const minutes = dateObj.getMinutes();
-    const seconds = dateObj.getSeconds();
-    
     // Форматируем время
     const formattedHours = String(hours).padStart(2, '0');
     const formattedMinutes = String(minutes).padStart(2, '0');
@@ -284,3 +339,16 @@ export function formatAppointmentTime(
   }
 }
 
+/**
+ * Преобразует дату в ключ YYYY-MM-DD по локальному календарю браузера
+ * (toISOString() для этого не подходит — он сдвигает дату в UTC)
+ *
+ * @param date - Дата
+ * @returns Строка YYYY-MM-DD
+ */
+export function toDateKey(date: Date): string {
+  const year = date.getFullYear();
+  const month = String(date.getMonth() + 1).padStart(2, '0');
+  const day = String(date.getDate()).padStart(2, '0');
+  return `${year}-${month}-${day}`;
+}
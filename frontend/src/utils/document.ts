@@ -0,0 +1,73 @@
+import { PatientDocumentCategory } from '../types/api.types';
+
+/**
+ * Категории документов пациента (порядок — как в фильтре)
+ */
+export const DOCUMENT_CATEGORY_LABELS: Record<PatientDocumentCategory, string> = {
+  xray: 'Рентген',
+  photo: 'Фото',
+  consent: 'Согласия',
+  lab: 'Анализы',
+  other: 'Прочее',
+};
+
+export const DOCUMENT_CATEGORIES = Object.keys(DOCUMENT_CATEGORY_LABELS) as PatientDocumentCategory[];
+
+/**
+ * Типы файлов, которые принимает сервер (как и браузерный просмотрщик)
+ */
+export const ACCEPTED_DOCUMENT_TYPES = ['image/jpeg', 'image/png', 'image/webp', 'image/gif', 'application/pdf'];
+
+export const MAX_DOCUMENT_SIZE = 10 * 1024 * 1024; // 10MB
+
+const THUMBNAIL_SIZE = 320; // Длинная сторона превью, px
+
+/**
+ * Размер файла для подписи: 512 КБ, 2.4 МБ
+ */
+export const formatFileSize = (bytes: number): string =>
+  bytes < 1024 * 1024 ? `${Math.max(1, Math.round(bytes / 1024))} КБ` : `${(bytes / 1024 / 1024).toFixed(1)} МБ`;
+
+/**
+ * Прочитать файл как data URL (base64)
+ */
+export const readFileAsDataUrl = (file: File): Promise<string> =>
+  new Promise((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onload = () => resolve(reader.result as string);
+    reader.onerror = () => reject(reader.error);
+    reader.readAsDataURL(file);
+  });
+
+/**
+ * Уменьшенная копия изображения для плитки в списке документов (JPEG)
+ * @returns data URL или null, если файл не изображение или браузер не смог его прочитать
+ */
+export const createImageThumbnail = async (file: File): Promise<string | null> => {
+  if (!file.type.startsWith('image/')) {
+    return null;
+  }
+
+  try {
+    const bitmap = await createImageBitmap(file);
+    const scale = Math.min(1, THUMBNAIL_SIZE / Math.max(bitmap.width, bitmap.height));
+    const canvas = document.createElement('canvas');
+    canvas.width = Math.round(bitmap.width * scale);
+    canvas.height = Math.round(bitmap.height * scale);
+
+    const context = canvas.getContext('2d');
+    if (!context) {
+      return null;
+    }
+
+    // Прозрачный фон PNG в JPEG стал бы чёрным
+    context.fillStyle = '#ffffff';
+    context.fillRect(0, 0, canvas.width, canvas.height);
+    context.drawImage(bitmap, 0, 0, canvas.width, canvas.height);
+    bitmap.close();
+
+    return canvas.toDataURL('image/jpeg', 0.8);
+  } catch {
+    return null;
+  }
+};
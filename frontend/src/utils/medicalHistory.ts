@@ -0,0 +1,124 @@
+import { PatientMedicalHistory, UpdateMedicalHistoryRequest } from '../types/api.types';
+
+/**
+ * Medical History Utilities
+ * Справочник заболеваний анамнеза и предупреждения, которые нужно увидеть до начала лечения
+ */
+
+/**
+ * Частые заболевания; critical — влияют на анестезию, кровотечение или экстренную помощь в кресле
+ */
+export const MEDICAL_CONDITIONS: { code: string; label: string; critical: boolean }[] = [
+  { code: 'heart_disease', label: 'Заболевания сердца', critical: true },
+  { code: 'hypertension', label: 'Гипертония', critical: true },
+  { code: 'bleeding_disorder', label: 'Нарушение свёртываемости крови', critical: true },
+  { code: 'diabetes', label: 'Сахарный диабет', critical: true },
+  { code: 'epilepsy', label: 'Эпилепсия', critical: true },
+  { code: 'asthma', label: 'Бронхиальная астма', critical: true },
+  { code: 'hepatitis', label: 'Гепатит', critical: false },
+  { code: 'hiv', label: 'ВИЧ', critical: false },
+  { code: 'thyroid', label: 'Заболевания щитовидной железы', critical: false },
+  { code: 'osteoporosis', label: 'Остеопороз / бисфосфонаты', critical: false },
+];
+
+export const EMPTY_MEDICAL_HISTORY: UpdateMedicalHistoryRequest = {
+  allergies: [],
+  conditions: [],
+  medications: [],
+  isPregnant: false,
+  takesAnticoagulants: false,
+  anticoagulants: '',
+  notes: '',
+};
+
+/**
+ * Название заболевания по коду (свободный текст возвращается как есть)
+ */
+export const getConditionLabel = (condition: string): string =>
+  MEDICAL_CONDITIONS.find(item => item.code === condition)?.label || condition;
+
+/**
+ * Поля анамнеза для формы редактирования
+ */
+export const toMedicalHistoryForm = (history?: PatientMedicalHistory | null): UpdateMedicalHistoryRequest =>
+  history
+    ? {
+        allergies: history.allergies,
+        conditions: history.conditions,
+        medications: history.medications,
+        isPregnant: history.isPregnant,
+        takesAnticoagulants: history.takesAnticoagulants,
+        anticoagulants: history.anticoagulants || '',
+        notes: history.notes || '',
+      }
+    : EMPTY_MEDICAL_HISTORY;
+
+export interface MedicalAlert {
+  level: 'critical' | 'warning';
+  title: string;
+  details?: string;
+}
+
+/**
+ * Предупреждения для врача: аллергии, антикоагулянты, беременность — критичные,
+ * заболевания из справочника с critical — критичные, остальные заболевания и препараты — к сведению
+ * @param history - Анамнез пациента
+ */
+export function getMedicalAlerts(history?: PatientMedicalHistory | null): MedicalAlert[] {
+  if (!history) return [];
+
+  const alerts: MedicalAlert[] = [];
+
+  if (history.allergies.length > 0) {
+    alerts.push({
+      level: 'critical',
+      title: `Аллергия: ${history.allergies.map(allergy => allergy.substance).join(', ')}`,
+      details: history.allergies
+        .filter(allergy => allergy.reaction)
+        .map(allergy => `${allergy.substance} — ${allergy.reaction}`)
+        .join('; '),
+    });
+  }
+
+  if (history.takesAnticoagulants) {
+    alerts.push({
+      level: 'critical',
+      title: 'Принимает антикоагулянты',
+      details: history.anticoagulants || undefined,
+    });
+  }
+
+  if (history.isPregnant) {
+    alerts.push({ level: 'critical', title: 'Беременность' });
+  }
+
+  const criticalConditions = history.conditions.filter(
+    condition => MEDICAL_CONDITIONS.find(item => item.code === condition)?.critical
+  );
+  const otherConditions = history.conditions.filter(condition => !criticalConditions.includes(condition));
+
+  if (criticalConditions.length > 0) {
+    alerts.push({ level: 'critical', title: criticalConditions.map(getConditionLabel).join(', ') });
+  }
+
+  if (otherConditions.length > 0) {
+    alerts.push({ level: 'warning', title: `Заболевания: ${otherConditions.map(getConditionLabel).join(', ')}` });
+  }
+
+  if (history.medications.length > 0) {
+    alerts.push({ level: 'warning', title: `Препараты: ${history.medications.join(', ')}` });
+  }
+
+  return alerts;
+}
+
+/**
+ * Подготовить форму к сохранению: пустые строки аллергий не отправляем
+ */
+export const cleanMedicalHistoryForm = (form: UpdateMedicalHistoryRequest): UpdateMedicalHistoryRequest => ({
+  ...form,
+  allergies: form.allergies
+    .map(allergy => ({ substance: allergy.substance.trim(), reaction: allergy.reaction?.trim() || '' }))
+    .filter(allergy => allergy.substance),
+  anticoagulants: form.takesAnticoagulants ? form.anticoagulants : '',
+});
@@ -0,0 +1,107 @@
+import { DentalChartCode, ToothSurface } from '../types/api.types';
+
+/**
+ * Odontogram Utilities
+ * Нумерация зубов (FDI / Universal), поверхности и справочник состояний зубной карты
+ */
+
+export type ToothNumbering = 'FDI' | 'Universal';
+export type Dentition = 'permanent' | 'primary';
+
+/**
+ * Зубы в порядке отображения: правая сторона пациента — слева (как смотрит врач)
+ */
+export const DENTITION_LAYOUT: Record<Dentition, { upper: number[]; lower: number[] }> = {
+  permanent: {
+    upper: [18, 17, 16, 15, 14, 13, 12, 11, 21, 22, 23, 24, 25, 26, 27, 28],
+    lower: [48, 47, 46, 45, 44, 43, 42, 41, 31, 32, 33, 34, 35, 36, 37, 38],
+  },
+  primary: {
+    upper: [55, 54, 53, 52, 51, 61, 62, 63, 64, 65],
+    lower: [85, 84, 83, 82, 81, 71, 72, 73, 74, 75],
+  },
+};
+
+export const TOOTH_SURFACES: ToothSurface[] = ['M', 'D', 'O', 'B', 'L'];
+
+export const SURFACE_LABELS: Record<ToothSurface, string> = {
+  M: 'Медиальная',
+  D: 'Дистальная',
+  O: 'Окклюзионная',
+  B: 'Вестибулярная',
+  L: 'Оральная',
+};
+
+/**
+ * Справочник записей зубной карты (совпадает с backend/src/utils/odontogram.util.js)
+ * scope: surface — отмечаются поверхности, tooth — зуб целиком, any — и так и так
+ */
+export const DENTAL_CHART_CODES: Record<
+  DentalChartCode,
+  { label: string; kind: 'condition' | 'procedure'; scope: 'surface' | 'tooth' | 'any'; color: string }
+> = {
+  healthy: { label: 'Здоров', kind: 'condition', scope: 'any', color: '#FFFFFF' },
+  caries: { label: 'Кариес', kind: 'condition', scope: 'surface', color: '#EF4444' },
+  fracture: { label: 'Скол / трещина', kind: 'condition', scope: 'tooth', color: '#F97316' },
+  missing: { label: 'Отсутствует', kind: 'condition', scope: 'tooth', color: '#9CA3AF' },
+  filling: { label: 'Пломба', kind: 'procedure', scope: 'surface', color: '#3B82F6' },
+  sealant: { label: 'Герметизация фиссур', kind: 'procedure', scope: 'surface', color: '#14B8A6' },
+  root_canal: { label: 'Лечение каналов', kind: 'procedure', scope: 'tooth', color: '#8B5CF6' },
+  crown: { label: 'Коронка', kind: 'procedure', scope: 'tooth', color: '#F59E0B' },
+  veneer: { label: 'Винир', kind: 'procedure', scope: 'tooth', color: '#EC4899' },
+  implant: { label: 'Имплант', kind: 'procedure', scope: 'tooth', color: '#64748B' },
+  extraction: { label: 'Удаление', kind: 'procedure', scope: 'tooth', color: '#9CA3AF' },
+};
+
+/**
+ * Номер зуба в выбранной системе
+ * Universal: постоянные 1–32 (от верхнего правого третьего моляра по часовой), молочные A–T
+ *
+ * @param tooth - Номер по FDI
+ * @param numbering - FDI или Universal
+ */
+export function formatToothNumber(tooth: number, numbering: ToothNumbering): string {
+  if (numbering === 'FDI') {
+    return String(tooth);
+  }
+
+  const quadrant = Math.floor(tooth / 10);
+  const position = tooth % 10;
+  const letter = (index: number) => String.fromCharCode(65 + index);
+
+  switch (quadrant) {
+    case 1:
+      return String(9 - position);
+    case 2:
+      return String(8 + position);
+    case 3:
+      return String(25 - position);
+    case 4:
+      return String(24 + position);
+    case 5:
+      return letter(5 - position);
+    case 6:
+      return letter(4 + position);
+    case 7:
+      return letter(15 - position);
+    case 8:
+      return letter(14 + position);
+    default:
+      return String(tooth);
+  }
+}
+
+/**
+ * Верхняя челюсть (квадранты 1, 2, 5, 6)
+ */
+export function isUpperTooth(tooth: number): boolean {
+  return [1, 2, 5, 6].includes(Math.floor(tooth / 10));
+}
+
+/**
+ * Зуб справа у пациента (на схеме — слева): квадранты 1, 4, 5, 8
+ * У таких зубов медиальная поверхность на схеме справа
+ */
+export function isPatientRightSide(tooth: number): boolean {
+  return [1, 4, 5, 8].includes(Math.floor(tooth / 10));
+}
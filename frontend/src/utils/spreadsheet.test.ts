@@ -0,0 +1,82 @@
+// @vitest-environment jsdom
+import { describe, expect, it } from 'vitest';
+import { parseCsv, parseXlsx, toCsv, toXlsx } from './spreadsheet';
+
+/**
+ * Содержимое собранного файла (в jsdom у Blob нет arrayBuffer())
+ */
+const readBlob = (blob: Blob) =>
+  new Promise<ArrayBuffer>((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onload = () => resolve(reader.result as ArrayBuffer);
+    reader.onerror = () => reject(reader.error);
+    reader.readAsArrayBuffer(blob);
+  });
+
+describe('parseCsv', () => {
+  it('определяет разделитель «;» из Excel с русской локалью и убирает BOM', () => {
+    expect(parseCsv('﻿ФИО;Телефон\r\nИванов Иван;+7 900 000-00-00\r\n')).toEqual([
+      ['ФИО', 'Телефон'],
+      ['Иванов Иван', '+7 900 000-00-00'],
+    ]);
+  });
+
+  it('читает кавычки, переносы строк и «""» внутри значения', () => {
+    expect(parseCsv('name,notes\n"Петров, Пётр","Аллергия\nна ""Лидокаин"""\n\n')).toEqual([
+      ['name', 'notes'],
+      ['Петров, Пётр', 'Аллергия\nна "Лидокаин"'],
+    ]);
+  });
+});
+
+describe('toCsv', () => {
+  it('собирается обратно в те же строки', () => {
+    const rows = [
+      ['ФИО', 'Заметки', 'Визитов'],
+      ['Сидорова; Анна', 'Сказала "нет"\nпотом перезвонила', 3],
+      ['Без заметок', null, 0],
+    ];
+
+    expect(parseCsv(toCsv(rows))).toEqual([
+      ['ФИО', 'Заметки', 'Визитов'],
+      ['Сидорова; Анна', 'Сказала "нет"\nпотом перезвонила', '3'],
+      ['Без заметок', '', '0'],
+    ]);
+  });
+});
+
+describe('toXlsx / parseXlsx', () => {
+  it('читает обратно первый лист: кириллицу, спецсимволы XML, числа и пустые ячейки', async () => {
+    const blob = toXlsx([
+      {
+        name: 'Пациенты',
+        rows: [
+          ['ФИО', 'Дата рождения', 'Заметки'],
+          ['Иванов Иван', 32874, 'A & B <тест> "кавычки"'],
+          ['Петрова Анна', '', '  пробелы сохраняются  '],
+          ['', null, 'Только заметка'],
+        ],
+      },
+      { name: 'Визиты', rows: [['Дата', 'Врач']] },
+    ]);
+
+    expect(await parseXlsx(await readBlob(blob))).toEqual([
+      ['ФИО', 'Дата рождения', 'Заметки'],
+      ['Иванов Иван', '32874', 'A & B <тест> "кавычки"'],
+      ['Петрова Анна', '', '  пробелы сохраняются  '],
+      ['', '', 'Только заметка'],
+    ]);
+  });
+
+  it('пропускает пустые строки', async () => {
+    const blob = toXlsx([{ name: 'Лист1', rows: [['a'], [null, ''], ['b']] }]);
+
+    expect(await parseXlsx(await readBlob(blob))).toEqual([['a'], ['b']]);
+  });
+
+  it('отклоняет файл, который не является zip-архивом', async () => {
+    const buffer = new TextEncoder().encode('ФИО;Телефон\r\n'.repeat(4)).buffer as ArrayBuffer;
+
+    await expect(parseXlsx(buffer)).rejects.toThrow('Файл не похож на XLSX');
+  });
+});
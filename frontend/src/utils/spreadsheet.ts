@@ -0,0 +1,382 @@
+/**
+ * Spreadsheet Utilities
+ * Чтение и запись таблиц CSV и XLSX без сторонних библиотек:
+ * XLSX — это zip-архив с XML, распаковка через встроенный в браузер DecompressionStream
+ */
+
+export type SpreadsheetCell = string | number | null | undefined;
+
+export interface SpreadsheetSheet {
+  name: string;
+  rows: SpreadsheetCell[][];
+}
+
+/**
+ * Разделитель CSV: Excel с русской локалью сохраняет через «;», остальные программы — через «,» или Tab
+ */
+function detectDelimiter(firstLine: string): string {
+  const counts = [';', ',', '\t'].map(delimiter => ({ delimiter, count: firstLine.split(delimiter).length }));
+  return counts.sort((a, b) => b.count - a.count)[0].delimiter;
+}
+
+/**
+ * Разобрать CSV (кавычки, переносы строк внутри кавычек, «""» внутри значения)
+ * @param text - Содержимое файла
+ * @returns Строки таблицы
+ */
+export function parseCsv(text: string): string[][] {
+  const content = text.replace(/^\uFEFF/, '');
+  const delimiter = detectDelimiter(content.split(/\r?\n/, 1)[0] || '');
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let value = '';
+  let inQuotes = false;
+
+  for (let i = 0; i < content.length; i++) {
+    const char = content[i];
+
+    if (inQuotes) {
+      if (char === '"' && content[i + 1] === '"') {
+        value += '"';
+        i++;
+      } else if (char === '"') {
+        inQuotes = false;
+      } else {
+        value += char;
+      }
+    } else if (char === '"') {
+      inQuotes = true;
+    } else if (char === delimiter) {
+      row.push(value);
+      value = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && content[i + 1] === '\n') i++;
+      row.push(value);
+      rows.push(row);
+      row = [];
+      value = '';
+    } else {
+      value += char;
+    }
+  }
+
+  if (value !== '' || row.length > 0) {
+    row.push(value);
+    rows.push(row);
+  }
+
+  return rows.filter(cells => cells.some(cell => cell.trim() !== ''));
+}
+
+/**
+ * Собрать CSV для Excel: разделитель «;» и BOM, чтобы кириллица открывалась без настройки кодировки
+ * @param rows - Строки таблицы
+ */
+export function toCsv(rows: SpreadsheetCell[][]): string {
+  const escape = (cell: SpreadsheetCell) => {
+    const text = cell === null || cell === undefined ? '' : String(cell);
+    return /[";\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+  };
+
+  return '\uFEFF' + rows.map(row => row.map(escape).join(';')).join('\r\n');
+}
+
+/**
+ * Прочитать файлы из zip-архива (XLSX)
+ * @param buffer - Содержимое архива
+ * @returns Имя файла → содержимое (текст)
+ */
+async function readZip(buffer: ArrayBuffer): Promise<Map<string, string>> {
+  const view = new DataView(buffer);
+  const bytes = new Uint8Array(buffer);
+  const decoder = new TextDecoder();
+  const files = new Map<string, string>();
+
+  // Конец центрального каталога — сигнатура 0x06054b50 в последних байтах архива
+  let endOffset = -1;
+  for (let i = bytes.length - 22; i >= Math.max(0, bytes.length - 65557); i--) {
+    if (view.getUint32(i, true) === 0x06054b50) {
+      endOffset = i;
+      break;
+    }
+  }
+
+  if (endOffset === -1) {
+    throw new Error('Файл не похож на XLSX');
+  }
+
+  const entriesCount = view.getUint16(endOffset + 10, true);
+  let offset = view.getUint32(endOffset + 16, true);
+
+  for (let entry = 0; entry < entriesCount; entry++) {
+    const method = view.getUint16(offset + 10, true);
+    const compressedSize = view.getUint32(offset + 20, true);
+    const nameLength = view.getUint16(offset + 28, true);
+    const extraLength = view.getUint16(offset + 30, true);
+    const commentLength = view.getUint16(offset + 32, true);
+    const localOffset = view.getUint32(offset + 42, true);
+    const name = decoder.decode(bytes.subarray(offset + 46, offset + 46 + nameLength));
+
+    const dataStart =
+      localOffset + 30 + view.getUint16(localOffset + 26, true) + view.getUint16(localOffset + 28, true);
+    const data = bytes.slice(dataStart, dataStart + compressedSize);
+
+    if (name.endsWith('.xml') || name.endsWith('.rels')) {
+      if (method === 0) {
+        files.set(name, decoder.decode(data));
+      } else {
+        const stream = new Blob([data]).stream().pipeThrough(new DecompressionStream('deflate-raw'));
+        files.set(name, await new Response(stream).text());
+      }
+    }
+
+    offset += 46 + nameLength + extraLength + commentLength;
+  }
+
+  return files;
+}
+
+/**
+ * Номер колонки из адреса ячейки (A1 → 0, AB12 → 27)
+ */
+function columnIndex(reference: string): number {
+  const letters = reference.replace(/\d+$/, '');
+  return letters.split('').reduce((index, letter) => index * 26 + letter.charCodeAt(0) - 64, 0) - 1;
+}
+
+/**
+ * Прочитать первый лист XLSX
+ * Даты приходят числом дней Excel — их распознаёт сервер при импорте
+ * @param buffer - Содержимое файла
+ * @returns Строки таблицы
+ */
+export async function parseXlsx(buffer: ArrayBuffer): Promise<string[][]> {
+  const files = await readZip(buffer);
+  const parser = new DOMParser();
+  const parse = (name: string) => parser.parseFromString(files.get(name) || '', 'application/xml');
+
+  // Первый лист книги: workbook.xml → связь → путь к листу
+  const workbook = parse('xl/workbook.xml');
+  const relations = parse('xl/_rels/workbook.xml.rels');
+  const firstSheet = workbook.getElementsByTagName('sheet')[0];
+  const relationId =
+    firstSheet?.getAttribute('r:id') ||
+    firstSheet?.getAttributeNS('http://schemas.openxmlformats.org/officeDocument/2006/relationships', 'id');
+  const target = Array.from(relations.getElementsByTagName('Relationship'))
+    .find(relation => relation.getAttribute('Id') === relationId)
+    ?.getAttribute('Target');
+  const sheetPath = target
+    ? target.startsWith('/')
+      ? target.slice(1)
+      : `xl/${target}`
+    : 'xl/worksheets/sheet1.xml';
+
+  if (!files.has(sheetPath)) {
+    throw new Error('В файле XLSX не найден лист с данными');
+  }
+
+  const sharedStrings = Array.from(parse('xl/sharedStrings.xml').getElementsByTagName('si')).map(item =>
+    Array.from(item.getElementsByTagName('t'))
+      .map(text => text.textContent || '')
+      .join('')
+  );
+
+  const rows: string[][] = [];
+  Array.from(parse(sheetPath).getElementsByTagName('row')).forEach(rowElement => {
+    const row: string[] = [];
+
+    Array.from(rowElement.getElementsByTagName('c')).forEach(cellElement => {
+      const type = cellElement.getAttribute('t');
+      const rawValue = cellElement.getElementsByTagName('v')[0]?.textContent ?? '';
+      let value: string;
+
+      if (type === 's') {
+        value = sharedStrings[Number(rawValue)] ?? '';
+      } else if (type === 'inlineStr') {
+        value = Array.from(cellElement.getElementsByTagName('t'))
+          .map(text => text.textContent || '')
+          .join('');
+      } else if (type === 'b') {
+        value = rawValue === '1' ? 'TRUE' : 'FALSE';
+      } else {
+        value = rawValue;
+      }
+
+      const reference = cellElement.getAttribute('r');
+      row[reference ? columnIndex(reference) : row.length] = value;
+    });
+
+    rows.push(Array.from(row, cell => cell ?? ''));
+  });
+
+  return rows.filter(cells => cells.some(cell => cell.trim() !== ''));
+}
+
+/**
+ * Прочитать таблицу из файла (CSV или XLSX)
+ * @param file - Выбранный файл
+ * @returns Строки таблицы (первая — заголовки)
+ */
+export async function readSpreadsheet(file: File): Promise<string[][]> {
+  if (/\.xlsx$/i.test(file.name)) {
+    return parseXlsx(await file.arrayBuffer());
+  }
+
+  if (/\.xls$/i.test(file.name)) {
+    throw new Error('Формат XLS не поддерживается — сохраните файл как XLSX или CSV');
+  }
+
+  return parseCsv(await file.text());
+}
+
+/**
+ * CRC-32 для записей zip-архива
+ */
+const CRC_TABLE = Array.from({ length: 256 }, (_, n) => {
+  let c = n;
+  for (let k = 0; k < 8; k++) {
+    c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+  }
+  return c >>> 0;
+});
+
+function crc32(data: Uint8Array): number {
+  let crc = 0xffffffff;
+  for (let i = 0; i < data.length; i++) {
+    crc = CRC_TABLE[(crc ^ data[i]) & 0xff] ^ (crc >>> 8);
+  }
+  return (crc ^ 0xffffffff) >>> 0;
+}
+
+/**
+ * Собрать zip-архив без сжатия
+ * @param files - Имя файла → текст
+ */
+function buildZip(files: { name: string; content: string }[]): Blob {
+  const encoder = new TextEncoder();
+  const localParts: Uint8Array[] = [];
+  const centralParts: Uint8Array[] = [];
+  let offset = 0;
+
+  files.forEach(file => {
+    const name = encoder.encode(file.name);
+    const data = encoder.encode(file.content);
+    const crc = crc32(data);
+
+    const local = new DataView(new ArrayBuffer(30));
+    local.setUint32(0, 0x04034b50, true);
+    local.setUint16(4, 20, true);
+    local.setUint16(6, 0x0800, true); // Имена в UTF-8
+    local.setUint32(14, crc, true);
+    local.setUint32(18, data.length, true);
+    local.setUint32(22, data.length, true);
+    local.setUint16(26, name.length, true);
+
+    const central = new DataView(new ArrayBuffer(46));
+    central.setUint32(0, 0x02014b50, true);
+    central.setUint16(4, 20, true);
+    central.setUint16(6, 20, true);
+    central.setUint16(8, 0x0800, true);
+    central.setUint32(16, crc, true);
+    central.setUint32(20, data.length, true);
+    central.setUint32(24, data.length, true);
+    central.setUint16(28, name.length, true);
+    central.setUint32(42, offset, true);
+
+    localParts.push(new Uint8Array(local.buffer), name, data);
+    centralParts.push(new Uint8Array(central.buffer), name);
+    offset += 30 + name.length + data.length;
+  });
+
+  const centralSize = centralParts.reduce((size, part) => size + part.length, 0);
+  const end = new DataView(new ArrayBuffer(22));
+  end.setUint32(0, 0x06054b50, true);
+  end.setUint16(8, files.length, true);
+  end.setUint16(10, files.length, true);
+  end.setUint32(12, centralSize, true);
+  end.setUint32(16, offset, true);
+
+  return new Blob([...localParts, ...centralParts, new Uint8Array(end.buffer)] as BlobPart[], {
+    type: 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet',
+  });
+}
+
+const escapeXml = (text: string) =>
+  text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+
+/**
+ * Собрать XLSX: каждый лист — отдельная вкладка, текст хранится прямо в ячейках
+ * @param sheets - Листы
+ */
+export function toXlsx(sheets: SpreadsheetSheet[]): Blob {
+  const sheetXml = (rows: SpreadsheetCell[][]) => {
+    const body = rows
+      .map(
+        (row, rowIndex) =>
+          `<row r="${rowIndex + 1}">${row
+            .map(cell => {
+              if (cell === null || cell === undefined || cell === '') return '<c/>';
+              if (typeof cell === 'number') return `<c><v>${cell}</v></c>`;
+              return `<c t="inlineStr"><is><t xml:space="preserve">${escapeXml(cell)}</t></is></c>`;
+            })
+            .join('')}</row>`
+      )
+      .join('');
+
+    return `<?xml version="1.0" encoding="UTF-8" standalone="yes"?><worksheet xmlns="http://schemas.openxmlformats.org/spreadsheetml/2006/main"><sheetData>${body}</sheetData></worksheet>`;
+  };
+
+  return buildZip([
+    {
+      name: '[Content_Types].xml',
+      content: `<?xml version="1.0" encoding="UTF-8" standalone="yes"?><Types xmlns="http://schemas.openxmlformats.org/package/2006/content-types"><Default Extension="rels" ContentType="application/vnd.openxmlformats-package.relationships+xml"/><Default Extension="xml" ContentType="application/xml"/><Override PartName="/xl/workbook.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.sheet.main+xml"/>${sheets
+        .map(
+          (_, index) =>
+            `<Override PartName="/xl/worksheets/sheet${index + 1}.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.worksheet+xml"/>`
+        )
+        .join('')}</Types>`,
+    },
+    {
+      name: '_rels/.rels',
+      content: `<?xml version="1.0" encoding="UTF-8" standalone="yes"?><Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships"><Relationship Id="rId1" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/officeDocument" Target="xl/workbook.xml"/></Relationships>`,
+    },
+    {
+      name: 'xl/workbook.xml',
+      content: `<?xml version="1.0" encoding="UTF-8" standalone="yes"?><workbook xmlns="http://schemas.openxmlformats.org/spreadsheetml/2006/main" xmlns:r="http://schemas.openxmlformats.org/officeDocument/2006/relationships"><sheets>${sheets
+        .map(
+          (sheet, index) =>
+            `<sheet name="${escapeXml(sheet.name.slice(0, 31))}" sheetId="${index + 1}" r:id="rId${index + 1}"/>`
+        )
+        .join('')}</sheets></workbook>`,
+    },
+    {
+      name: 'xl/_rels/workbook.xml.rels',
+      content: `<?xml version="1.0" encoding="UTF-8" standalone="yes"?><Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships">${sheets
+        .map(
+          (_, index) =>
+            `<Relationship Id="rId${index + 1}" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/worksheet" Target="worksheets/sheet${index + 1}.xml"/>`
+        )
+        .join('')}</Relationships>`,
+    },
+    ...sheets.map((sheet, index) => ({
+      name: `xl/worksheets/sheet${index + 1}.xml`,
+      content: sheetXml(sheet.rows),
+    })),
+  ]);
+}
+
+/**
+ * Скачать файл, собранный в браузере
+ * @param blob - Содержимое
+ * @param filename - Имя файла
+ */
+export function downloadBlob(blob: Blob, filename: string): void {
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = filename;
+  document.body.appendChild(link);
+  link.click();
+  link.remove();
+  URL.revokeObjectURL(url);
+}
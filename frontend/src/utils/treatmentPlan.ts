@@ -0,0 +1,38 @@
+import { TreatmentPlanStageStatus, TreatmentPlanStatus } from '../types/api.types';
+
+/**
+ * Treatment Plan Utilities
+ * Подписи статусов планов лечения и форматирование сумм сметы
+ */
+
+export const PLAN_STATUS_LABELS: Record<TreatmentPlanStatus, { label: string; className: string }> = {
+  draft: { label: 'Черновик', className: 'bg-bg-primary text-text-50 border-stroke' },
+  presented: { label: 'Ожидает согласия', className: 'bg-yellow-50 text-yellow-700 border-yellow-200' },
+  accepted: { label: 'Принят', className: 'bg-main-10 text-main-100 border-main-100/20' },
+  completed: { label: 'Выполнен', className: 'bg-secondary-10 text-secondary-100 border-secondary-100/20' },
+  cancelled: { label: 'Отменён', className: 'bg-bg-primary text-text-10 border-stroke' },
+};
+
+export const STAGE_STATUS_LABELS: Record<TreatmentPlanStageStatus, { label: string; className: string }> = {
+  proposed: { label: 'Предложен', className: 'bg-bg-primary text-text-50 border-stroke' },
+  accepted: { label: 'Принят', className: 'bg-main-10 text-main-100 border-main-100/20' },
+  scheduled: { label: 'Назначен', className: 'bg-sky-50 text-sky-700 border-sky-200' },
+  done: { label: 'Выполнен', className: 'bg-secondary-10 text-secondary-100 border-secondary-100/20' },
+  cancelled: { label: 'Отменён', className: 'bg-bg-primary text-text-10 border-stroke line-through' },
+};
+
+const CURRENCY_SYMBOLS: Record<string, string> = {
+  AMD: '֏',
+  RUB: '₽',
+  USD: '$',
+};
+
+/**
+ * Сумма сметы в валюте клиники
+ * @param amount - Сумма
+ * @param currency - AMD | RUB | USD (по умолчанию AMD)
+ */
+export function formatPlanAmount(amount: number, currency?: string | null): string {
+  const symbol = CURRENCY_SYMBOLS[currency || 'AMD'] || currency;
+  return `${amount.toLocaleString('ru-RU')} ${symbol}`;
+}